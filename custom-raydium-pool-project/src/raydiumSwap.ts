@@ -19,6 +19,7 @@ import {
     Connection,
     Keypair,
     PublicKey,
+    SendTransactionError,
     Transaction,
     sendAndConfirmTransaction
 } from "@solana/web3.js";
@@ -42,6 +43,11 @@ import { createDevnetTestPool, PoolCreationResult } from "./poolCreation";
 import { calculateWithRaydiumOfficial, displayCalculationDetails } from "./priceCalculation";
 import { createRaydiumSwapInstructionOfficial, analyzeSwapInstructions, validateSwapParameters } from "./swapInstructions";
 
+// 与主项目共用的模拟错误解码器
+import { SimulationErrorDecoder } from "../../src/core/transaction/simulation-error-decoder";
+import { SupportedDEX } from "../../src/types/dex/protocol";
+import { SimulationFailure } from "../../src/types/transaction/transaction-types";
+
 // 加载环境变量
 dotenv.config();
 
@@ -177,8 +183,23 @@ async function main(): Promise<void> {
 
         console.log(`✅ 交易组装完成，包含 ${instructions.length} 个指令`);
 
-        // 8. 发送交易到网络
-        console.log("\n🚀 步骤8：发送交易到网络...");
+        // 8. 预执行模拟，失败时解码出错原因，不发送交易
+        console.log("\n🔬 步骤8：预执行模拟...");
+
+        const decoder = new SimulationErrorDecoder();
+        decoder.registerProgram(poolInfo.poolKeys.programId, SupportedDEX.RAYDIUM);
+
+        const { value: simulation } = await connection.simulateTransaction(transaction, [wallet, ...signers]);
+        if (simulation.err) {
+            const programIds = transaction.instructions.map(instruction => instruction.programId);
+            reportSimulationFailure(decoder.decode(simulation.err, simulation.logs ?? [], programIds));
+            return;
+        }
+
+        console.log(`✅ 预执行模拟通过，消耗 ${simulation.unitsConsumed ?? '未知'} CU`);
+
+        // 9. 发送交易到网络
+        console.log("\n🚀 步骤9：发送交易到网络...");
         console.log("⚠️  注意：这是一个真实的交易，将消耗真实的代币和手续费");
 
         try {
@@ -196,15 +217,17 @@ async function main(): Promise<void> {
             console.log(`📝 交易签名: ${signature}`);
             console.log(`🔍 Devnet Explorer: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
 
-            // 9. 验证交易结果
+            // 10. 验证交易结果
             await verifySwapResults(connection, wallet, userUSDCAccount, signature);
 
         } catch (error: unknown) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             console.error("❌ 交易失败！", errorMessage);
 
-            // 提供详细的错误分析
-            analyzeTransactionError(errorMessage);
+            // 模拟通过后仍失败 (如状态在发送前变化)，输出节点返回的程序日志
+            if (error instanceof SendTransactionError && error.logs) {
+                error.logs.forEach(line => console.log(`   ${line}`));
+            }
         }
 
     } catch (error: unknown) {
@@ -238,7 +261,7 @@ async function verifySwapResults(
     userUSDCAccount: PublicKey,
     signature: string
 ): Promise<void> {
-    console.log("\n🔍 步骤9：验证交易结果...");
+    console.log("\n🔍 步骤10：验证交易结果...");
 
     try {
         // 检查 USDC 余额
@@ -258,28 +281,20 @@ async function verifySwapResults(
 }
 
 /**
- * 分析交易错误
+ * 输出模拟失败原因 (由共享的 SimulationErrorDecoder 解码)
  */
-function analyzeTransactionError(errorMessage: string): void {
+function reportSimulationFailure(failure: SimulationFailure): void {
     console.log("\n🔍 错误分析:");
+    console.log(`💡 错误原因：${failure.message}`);
 
-    if (errorMessage.includes('insufficient funds')) {
-        console.log("💡 错误原因：余额不足");
-        console.log("   解决方案：请确保钱包有足够的 SOL 支付交易费用");
-    } else if (errorMessage.includes('Unsupported program id')) {
-        console.log("💡 错误原因：程序 ID 不支持");
-        console.log("   解决方案：检查是否使用了正确的 Devnet 程序 ID");
-    } else if (errorMessage.includes('account owner is not match')) {
-        console.log("💡 错误原因：账户所有权不匹配");
-        console.log("   解决方案：确保池子账户是真实存在的");
-    } else if (errorMessage.includes('slippage')) {
-        console.log("💡 错误原因：滑点过大");
-        console.log("   解决方案：增加滑点容忍度或减少交易金额");
-    } else {
-        console.log("💡 未知错误，请检查:");
-        console.log("   - 网络连接是否正常");
-        console.log("   - RPC 节点是否可用");
-        console.log("   - 池子是否正确创建");
+    if (failure.program) {
+        console.log(`   出错程序: ${failure.program}`);
+    }
+    if (failure.errorName) {
+        console.log(`   错误码: ${failure.errorName} (${failure.customCode})`);
+    }
+    if (failure.suggestion) {
+        console.log(`   解决方案：${failure.suggestion}`);
     }
 }
 
@@ -1,6 +1,7 @@
-import { PublicKey } from "@solana/web3.js";
+import { Commitment, PublicKey } from "@solana/web3.js";
 import { DEXConfig, SupportedDEX } from "../types/dex/protocol";
 import { SwapConfig } from "../types/swap/swap-types";
+import { SwapPriority } from "../types/facade/swap-types";
 
 /**
  * Orca协议配置
@@ -18,12 +19,34 @@ export const ORCA_CONFIG: DEXConfig = {
  */
 export const RAYDIUM_CONFIG: DEXConfig = {
     name: SupportedDEX.RAYDIUM,
-    enabled: false, // 暂时禁用，因为devnet没有可用池子
+    enabled: true, // devnet 无可用池子时报价失败，由聚合器忽略
     programId: "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8",
     priority: 2,
     maxSlippage: 0.03 // 3%最大滑点
 };
 
+/**
+ * Raydium CLMM协议配置
+ */
+export const RAYDIUM_CLMM_CONFIG: DEXConfig = {
+    name: SupportedDEX.RAYDIUM_CLMM,
+    enabled: true,
+    programId: "CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK",
+    priority: 2,
+    maxSlippage: 0.03 // 3%最大滑点
+};
+
+/**
+ * Raydium CPMM (CP-Swap) 协议配置
+ */
+export const RAYDIUM_CPMM_CONFIG: DEXConfig = {
+    name: SupportedDEX.RAYDIUM_CPMM,
+    enabled: true,
+    programId: "CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C",
+    priority: 2,
+    maxSlippage: 0.03 // 3%最大滑点
+};
+
 /**
  * Jupiter协议配置
  */
@@ -41,6 +64,8 @@ export const JUPITER_CONFIG: DEXConfig = {
 export const DEX_CONFIGS: DEXConfig[] = [
     ORCA_CONFIG,
     RAYDIUM_CONFIG,
+    RAYDIUM_CLMM_CONFIG,
+    RAYDIUM_CPMM_CONFIG,
     JUPITER_CONFIG
 ];
 
@@ -90,6 +115,293 @@ export const SWAP_CONFIG: SwapConfig = {
     mevProtection: false
 };
 
+/**
+ * 拆单路由配置
+ */
+export const SPLIT_ROUTING_CONFIG = {
+    /** 是否启用拆单路由 */
+    ENABLED: true,
+
+    /** 拆分比例的搜索步长 (百分比) */
+    STEP_PERCENT: 10,
+
+    /** 最多拆分的分腿数量 */
+    MAX_LEGS: 3,
+
+    /** 单笔交易的计算单元上限 */
+    MAX_COMPUTE_UNITS: 1_400_000,
+
+    /** 每增加一个分腿所需的最小收益提升 (基点) */
+    MIN_IMPROVEMENT_BPS: 5
+};
+
+/**
+ * 多跳路由配置
+ */
+export const ROUTE_SEARCH_CONFIG = {
+    /** 是否启用多跳路由 */
+    ENABLED: true,
+
+    /** 最大跳数 (支持 2 跳和 3 跳路由) */
+    MAX_HOPS: 3,
+
+    /** 每次最多报价的候选路径数量 */
+    MAX_PATHS: 6,
+
+    /** 参与路由的单跳报价最低可信度 (排除模拟报价) */
+    MIN_HOP_CONFIDENCE: 0.8,
+
+    /** 多跳路由相比直接路由每多一跳所需的最小收益提升 (基点) */
+    MIN_IMPROVEMENT_BPS: 10
+};
+
+/**
+ * 报价缓存配置
+ */
+export const QUOTE_CACHE_CONFIG = {
+    /** 是否启用报价缓存 */
+    ENABLED: true,
+
+    /** 缓存有效期 (毫秒) */
+    TTL_MS: 2000,
+
+    /** 金额分桶宽度 (基点)，同一桶内的金额共用缓存并按比例换算 */
+    AMOUNT_BUCKET_BPS: 10,
+
+    /** 最多缓存的条目数量 */
+    MAX_ENTRIES: 256
+};
+
+/**
+ * 池子地址缓存配置
+ */
+export const POOL_ADDRESS_CACHE_CONFIG = {
+    /** 未找到池子的缓存有效期 (毫秒)，过期后重新查找 (池子可能在之后创建) */
+    MISSING_POOL_TTL_MS: 60000
+};
+
+/**
+ * 报价时效配置
+ */
+export const QUOTE_STALENESS_CONFIG = {
+    /** 执行时允许的最大报价年龄 (毫秒) */
+    MAX_QUOTE_AGE_MS: 5000,
+
+    /** 执行时允许报价落后的最大slot数 */
+    MAX_SLOT_LAG: 15,
+
+    /** 报价过期时的处理方式: 'requote' 重新报价，'reject' 拒绝执行 */
+    STALE_QUOTE_POLICY: 'requote' as 'requote' | 'reject'
+};
+
+/**
+ * 协议熔断与健康评分配置
+ */
+export const CIRCUIT_BREAKER_CONFIG = {
+    /** 单次协议调用超时 (毫秒) */
+    CALL_TIMEOUT_MS: 10000,
+
+    /** 连续失败多少次后熔断 */
+    FAILURE_THRESHOLD: 3,
+
+    /** 熔断持续时间 (毫秒)，到期后进入半开状态 */
+    OPEN_DURATION_MS: 30000,
+
+    /** 半开状态允许同时进行的试探调用数量 */
+    HALF_OPEN_MAX_CALLS: 1,
+
+    /** 健康分滚动窗口大小 (最近的调用次数) */
+    HEALTH_WINDOW_SIZE: 50,
+
+    /** 健康分的目标延迟 (毫秒)，平均延迟不超过该值时不扣分 */
+    TARGET_LATENCY_MS: 1000,
+
+    /**
+     * 计入熔断的传输层和 RPC 错误特征 (不区分大小写)
+     * 交易对不支持、池子不存在、流动性不足等报价结果说明协议工作正常，不计入失败
+     */
+    TRANSPORT_ERROR_PATTERNS: [
+        '调用超时',
+        'timeout',
+        'timed out',
+        'ECONNRESET',
+        'ECONNREFUSED',
+        'ECONNABORTED',
+        'ETIMEDOUT',
+        'ENOTFOUND',
+        'EAI_AGAIN',
+        'socket hang up',
+        'fetch failed',
+        'network error',
+        'Too Many Requests',
+        '429',
+        '502',
+        '503',
+        '504',
+        'Internal Server Error',
+        'failed to get'
+    ]
+};
+
+/**
+ * 执行成本模型配置
+ * 报价按扣除执行成本后的净输出排序
+ */
+export const EXECUTION_COST_CONFIG = {
+    /** 是否按净输出 (扣除执行成本) 选择报价，关闭时按原始输出金额选择 */
+    ENABLED: true,
+
+    /** 每个签名的基础网络费 (lamports) */
+    BASE_FEE_LAMPORTS: 5000,
+
+    /** 优先费单价 (微lamports / CU) */
+    PRIORITY_FEE_MICRO_LAMPORTS_PER_CU: 10000,
+
+    /** 创建一个代币账户需要的租金 (lamports)，165 字节账户的免租金额 */
+    TOKEN_ACCOUNT_RENT_LAMPORTS: 2039280,
+
+    /** 通过 Jito 捆绑执行时的小费 (lamports) */
+    JITO_TIP_LAMPORTS: 10000,
+
+    /** 查询 SOL 价格使用的参考金额 (lamports)，0.1 SOL */
+    PRICE_REFERENCE_LAMPORTS: 100_000_000,
+
+    /** 参与定价的报价最低可信度 (排除模拟数据) */
+    PRICE_MIN_CONFIDENCE: 0.8,
+
+    /** SOL 价格缓存时间 (毫秒) */
+    PRICE_TTL_MS: 30000
+};
+
+/**
+ * 交易组装配置
+ * 交换交易统一组装为 v0 VersionedTransaction 并使用地址查找表压缩账户
+ */
+export const TRANSACTION_ASSEMBLY_CONFIG = {
+    /** 交易序列化后的最大字节数 (PACKET_DATA_SIZE) */
+    MAX_TRANSACTION_SIZE: 1232,
+
+    /** 自维护的地址查找表 (常用程序、mint和池子账户)，组装每笔交易时都会提供给编译器 */
+    LOOKUP_TABLES: [] as string[],
+
+    /** 查找表账户缓存时间 (毫秒) */
+    LOOKUP_TABLE_TTL_MS: 60000
+};
+
+/**
+ * 计算预算与优先费配置
+ * 组装交易时通过模拟测量实际CU，按优先级从最近优先费分布中选取单价
+ */
+export const COMPUTE_BUDGET_CONFIG = {
+    /** 是否自动插入 setComputeUnitLimit / setComputeUnitPrice 指令 */
+    ENABLED: true,
+
+    /** 在模拟测得的CU上增加的余量 (0.1 = 10%) */
+    CU_LIMIT_MARGIN: 0.1,
+
+    /** 单笔交易的CU上限，模拟时使用该值避免模拟本身因CU不足失败 */
+    MAX_CU_LIMIT: 1_400_000,
+
+    /** 各优先级在最近优先费分布中取的百分位 */
+    PRIORITY_FEE_PERCENTILES: {
+        [SwapPriority.LOW]: 25,
+        [SwapPriority.MEDIUM]: 50,
+        [SwapPriority.HIGH]: 75,
+        [SwapPriority.URGENT]: 95
+    } as Record<SwapPriority, number>,
+
+    /** 优先费单价下限 (微lamports / CU) */
+    MIN_PRIORITY_FEE_MICRO_LAMPORTS: 1000,
+
+    /** 优先费单价上限 (微lamports / CU)，防止拥堵时费用失控 */
+    MAX_PRIORITY_FEE_MICRO_LAMPORTS: 2_000_000,
+
+    /** 无法查询最近优先费时使用的单价 (微lamports / CU) */
+    DEFAULT_PRIORITY_FEE_MICRO_LAMPORTS: 10000,
+
+    /** 查询最近优先费时最多传入的可写账户数 (RPC 限制) */
+    MAX_FEE_ACCOUNTS: 128,
+
+    /** 最近优先费缓存时间 (毫秒) */
+    FEE_CACHE_TTL_MS: 10000
+};
+
+/**
+ * 区块哈希配置
+ * 区块哈希约在 150 个区块 (约 60 秒) 后过期，缓存时间远小于有效期，保证签名后有足够的时间落地
+ */
+export const BLOCKHASH_CONFIG = {
+    /** 区块哈希缓存时间 (毫秒)，超过后重新获取 */
+    MAX_AGE_MS: 10000,
+
+    /** 后台预取间隔 (毫秒)，start() 后生效 */
+    REFRESH_INTERVAL_MS: 5000,
+
+    /** 获取区块哈希和区块高度使用的确认级别 */
+    COMMITMENT: 'confirmed' as Commitment
+};
+
+/**
+ * 交易发送配置
+ * 签名后的交易持续重新广播，直到确认或区块哈希过期
+ */
+export const TRANSACTION_SENDER_CONFIG = {
+    /** 重新广播和查询状态的间隔 (毫秒) */
+    REBROADCAST_INTERVAL_MS: 2000,
+
+    /** 连续发送失败多少次后视为被丢弃 */
+    MAX_SEND_ERRORS: 3,
+
+    /** 区块哈希过期后重新报价并签名的最大次数 */
+    MAX_RESUBMISSIONS: 2,
+
+    /** 视为落地的确认级别 */
+    CONFIRMATION_COMMITMENT: 'confirmed' as 'confirmed' | 'finalized'
+};
+
+/**
+ * durable nonce 配置
+ * 预先签名、多签审批和定时执行的交易使用 nonce 账户代替区块哈希
+ */
+export const DURABLE_NONCE_CONFIG = {
+    /** 读取 nonce 账户和确认 nonce 交易使用的确认级别 */
+    COMMITMENT: 'confirmed' as Commitment
+};
+
+/**
+ * 交易签名配置
+ */
+export const SIGNER_CONFIG = {
+    /** 默认读取私钥的环境变量 (JSON 字节数组或 base58) */
+    ENV_VARIABLE: 'WALLET_PRIVATE_KEY',
+
+    /** 远程签名请求超时 (毫秒) */
+    REMOTE_TIMEOUT_MS: 10000
+};
+
+/**
+ * 原生SOL (WSOL) 包装配置
+ */
+export const WSOL_CONFIG = {
+    /**
+     * 包装方式:
+     * - 'ephemeral': 每笔交换用 createAccountWithSeed 创建临时 WSOL 账户，交换后在同一交易中关闭，租金全额退回
+     * - 'ata': 复用 WSOL 关联代币账户，输入时只补足余额差额
+     */
+    MODE: 'ephemeral' as 'ephemeral' | 'ata',
+
+    /** 'ata' 模式下输出为SOL时是否在交换后关闭 WSOL 关联代币账户 (解包全部余额并退回租金) */
+    UNWRAP_OUTPUT: true
+};
+
+/**
+ * 代币mint信息配置
+ */
+export const TOKEN_MINT_CONFIG = {
+    /** mint信息缓存有效期 (毫秒)，转账费等扩展配置可能随epoch变化 */
+    CACHE_TTL_MS: 300_000
+};
+
 /**
  * Orca特定配置
  */
@@ -105,6 +417,15 @@ export const ORCA_SPECIFIC_CONFIG = {
     
     /** 最大tick arrays数量 */
     MAX_TICK_ARRAYS: 3,
+
+    /** WhirlpoolsConfig 账户 (mainnet, devnet)，用于推导池子PDA */
+    WHIRLPOOLS_CONFIGS: [
+        new PublicKey("2LecshUwdy9xi7meFgHtFJQNSKk4KdTrcpvaB56dP2NQ"),
+        new PublicKey("FcrweFY1G9HJAHG5inkGB6pKg1HZ6x9UC2WioAfWrGkR")
+    ],
+
+    /** 池子账户快照缓存有效期 (毫秒)，过期后重新从RPC加载 */
+    ACCOUNT_CACHE_TTL_MS: 3000,
     
     /** 默认手续费率 */
     DEFAULT_FEE_RATE: 0.003 // 0.3%
@@ -117,6 +438,15 @@ export const RAYDIUM_SPECIFIC_CONFIG = {
     /** AMM程序ID */
     AMM_PROGRAM_ID: new PublicKey("675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8"),
     
+    /** CLMM (集中流动性) 程序ID */
+    CLMM_PROGRAM_ID: new PublicKey("CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK"),
+    
+    /** CPMM (CP-Swap) 程序ID */
+    CPMM_PROGRAM_ID: new PublicKey("CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C"),
+    
+    /** CLMM报价时在当前tick array两侧各加载的tick array数量 */
+    CLMM_TICK_ARRAY_COUNT: 7,
+    
     /** OpenBook程序ID */
     OPENBOOK_PROGRAM_ID: new PublicKey("EoTcMgcDRTJVZDMZWBoU6rhYHZfkNTVEAfz3uUJRcYGj"),
     
@@ -151,6 +481,8 @@ export function getProtocolSpecificConfig(protocol: SupportedDEX) {
         case SupportedDEX.ORCA:
             return ORCA_SPECIFIC_CONFIG;
         case SupportedDEX.RAYDIUM:
+        case SupportedDEX.RAYDIUM_CLMM:
+        case SupportedDEX.RAYDIUM_CPMM:
             return RAYDIUM_SPECIFIC_CONFIG;
         case SupportedDEX.JUPITER:
             return JUPITER_SPECIFIC_CONFIG;
@@ -102,6 +102,40 @@ export const DEFAULT_REGION_SWITCH_CONFIG: RegionSwitchConfig = {
     enableConcurrentHealthCheck: true
 }
 
+// Bundle 状态跟踪配置
+export interface BundleStatusTrackerConfig {
+    // 是否通过 RPC websocket 订阅交易签名 (落地时立即通知)
+    enableWebsocket: boolean
+
+    // 签名订阅的确认级别
+    commitment: 'processed' | 'confirmed' | 'finalized'
+
+    // websocket 可用时的轮询间隔（毫秒） -- 只用于发现失败和无效的 Bundle
+    pollInterval: number
+
+    // websocket 不可用时的轮询间隔（毫秒）
+    fallbackPollInterval: number
+
+    // 超过该时间（毫秒）未收到 websocket 通知 (slot 订阅) 时视为 websocket 不可用
+    websocketTimeout: number
+
+    // 单次状态查询的最大 Bundle 数 (Jito 限制)
+    maxBatchSize: number
+}
+
+// 默认 Bundle 状态跟踪配置
+export const DEFAULT_BUNDLE_STATUS_TRACKER_CONFIG: BundleStatusTrackerConfig = {
+    enableWebsocket: true,
+    commitment: 'confirmed',
+    pollInterval: 5000,
+    fallbackPollInterval: 1000,
+    websocketTimeout: 10000,
+    maxBatchSize: 5
+}
+
+// Jito 前置交易保护账户: Bundle 的第一笔交易以只读方式引用该账户时，Block Engine 不会把其他交易排在它前面
+export const JITO_DONT_FRONT_ACCOUNT = new PublicKey('jitodontfront111111111111111111111111111111')
+
 // 官方小费账户(主网)
 export const MAINNET_TIP_ACCOUNTS = [
     new PublicKey('96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5'),
@@ -126,6 +160,9 @@ export const TESTNET_TIP_ACCOUNTS = [
     new PublicKey('9ttgPBBhRYFuQccdR1DSnb7hydsWANoDsV3P9kaGMCEh')
 ]
 
+// 单个 Bundle 最多包含的交易数 (Jito Block Engine 限制)
+export const MAX_BUNDLE_TRANSACTIONS = 5
+
 // 默认小费策略
 export const DEFAULT_TIP_STRATEGY: TipStrategy = {
     mode: 'auto',
@@ -273,4 +310,12 @@ export const BUNDLE_PRESETS = {
         enableMevProtection: false,
         tipStrategy: TIP_STRATEGY.LOW_PRIORITY
     }
-} as const
\ No newline at end of file
+} as const
+// 小费模型配置: 根据历史 Bundle 的落地结果拟合落地概率
+export const TIP_MODEL_CONFIG = {
+    SLOT_DURATION_MS: 400, // 没有提交时的 slot 时，按提交到落地的时间估算 slot 数
+    MAX_OBSERVATIONS: 1000, // 保留最近的观测数
+    MIN_OBSERVATIONS: 20, // 少于该数量时模型不给出建议
+    REGULARIZATION: 0.01, // L2 正则 (避免数据可分时系数发散)
+    MAX_ITERATIONS: 25 // 牛顿迭代次数上限
+}
@@ -139,10 +139,98 @@ export const WELL_KNOWN_POOLS = {
     MAINNET: {
         ORCA: {
             SOL_USDC: "HJPjoWUrhoZzkNfRpHuieeFk9WcPEQ4yFn79kpZZFdpw"
+        },
+        RAYDIUM: {
+            SOL_USDC: "58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2"
         }
     }
 };
 
+/**
+ * 已知池子信息 (包含池子两侧的代币)
+ */
+export interface KnownPool {
+    /** 池子地址 */
+    address: PublicKey;
+
+    /** 代币A mint地址 */
+    tokenA: PublicKey;
+
+    /** 代币B mint地址 */
+    tokenB: PublicKey;
+
+    /** 所属DEX名称 */
+    dexName: string;
+}
+
+/**
+ * 获取已知池子列表
+ * 将 WELL_KNOWN_POOLS 与 TOKEN_ADDRESSES 组合为带代币信息的池子列表，用于构建路由图
+ * @param networkType 网络类型
+ * @returns 已知池子列表
+ */
+export function getKnownPools(networkType: NetworkType = NetworkType.DEVNET): KnownPool[] {
+    switch (networkType) {
+        case NetworkType.MAINNET:
+            return [
+                {
+                    address: new PublicKey(WELL_KNOWN_POOLS.MAINNET.ORCA.SOL_USDC),
+                    tokenA: TOKEN_ADDRESSES.MAINNET.SOL,
+                    tokenB: TOKEN_ADDRESSES.MAINNET.USDC,
+                    dexName: "Orca"
+                },
+                {
+                    address: new PublicKey(WELL_KNOWN_POOLS.MAINNET.RAYDIUM.SOL_USDC),
+                    tokenA: TOKEN_ADDRESSES.MAINNET.SOL,
+                    tokenB: TOKEN_ADDRESSES.MAINNET.USDC,
+                    dexName: "Raydium"
+                }
+            ];
+        case NetworkType.DEVNET:
+            return [
+                {
+                    address: new PublicKey(WELL_KNOWN_POOLS.DEVNET.ORCA.SOL_USDC),
+                    tokenA: TOKEN_ADDRESSES.DEVNET.SOL,
+                    tokenB: TOKEN_ADDRESSES.DEVNET.USDC_ORCA,
+                    dexName: "Orca"
+                }
+            ];
+        default:
+            throw new Error(`不支持的网络类型: ${networkType}`);
+    }
+}
+
+/**
+ * 多跳路由的中间代币候选 (流动性枢纽代币)
+ */
+export const ROUTE_HUB_TOKENS = {
+    DEVNET: [
+        TOKEN_ADDRESSES.DEVNET.SOL,
+        TOKEN_ADDRESSES.DEVNET.USDC_ORCA
+    ],
+    MAINNET: [
+        TOKEN_ADDRESSES.MAINNET.SOL,
+        TOKEN_ADDRESSES.MAINNET.USDC,
+        TOKEN_ADDRESSES.MAINNET.USDT
+    ]
+};
+
+/**
+ * 获取多跳路由的中间代币候选
+ * @param networkType 网络类型
+ * @returns 中间代币mint地址列表
+ */
+export function getRouteHubTokens(networkType: NetworkType = NetworkType.DEVNET): PublicKey[] {
+    switch (networkType) {
+        case NetworkType.MAINNET:
+            return ROUTE_HUB_TOKENS.MAINNET;
+        case NetworkType.DEVNET:
+            return ROUTE_HUB_TOKENS.DEVNET;
+        default:
+            throw new Error(`不支持的网络类型: ${networkType}`);
+    }
+}
+
 /**
  * 创建生产环境连接
  * @param customRpcUrl 自定义RPC URL (可选)
@@ -1,33 +1,39 @@
 import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
 import { 
-    getAssociatedTokenAddress, 
-    getAccount, 
+    unpackAccount, 
     createAssociatedTokenAccountInstruction,
     TOKEN_PROGRAM_ID,
+    TOKEN_2022_PROGRAM_ID,
     ASSOCIATED_TOKEN_PROGRAM_ID,
     AccountLayout
 } from "@solana/spl-token";
 import BN from "bn.js";
 
 import { TokenAccountInfo, TokenAccountStatus, TokenBalance } from "../../types/token/token-types";
+import { TokenMintRegistry } from "./token-mint-registry";
 
 /**
  * 代币账户管理器
  * 负责代币账户的创建、查询、余额管理等功能
+ * 同时支持 SPL Token 和 Token-2022 代币账户
  */
 export class TokenAccountManager {
     private _connection: Connection;
+    private _mintRegistry: TokenMintRegistry;
 
     /**
      * 构造函数
      * @param connection Solana连接实例
+     * @param mintRegistry 代币mint注册表 (识别mint所属的代币程序)
      */
-    constructor(connection: Connection) {
+    constructor(connection: Connection, mintRegistry: TokenMintRegistry = new TokenMintRegistry(connection)) {
         this._connection = connection;
+        this._mintRegistry = mintRegistry;
     }
 
     /**
      * 获取或创建关联代币账户地址
+     * 按mint所属的代币程序推导
      * @param mint 代币mint地址
      * @param owner 账户所有者地址
      * @returns 关联代币账户地址
@@ -36,7 +42,7 @@ export class TokenAccountManager {
         mint: PublicKey,
         owner: PublicKey
     ): Promise<PublicKey> {
-        return await getAssociatedTokenAddress(mint, owner);
+        return await this._mintRegistry.getAssociatedTokenAddress(mint, owner);
     }
 
     /**
@@ -78,7 +84,9 @@ export class TokenAccountManager {
      */
     async getTokenAccountInfo(tokenAccount: PublicKey): Promise<TokenAccountInfo | null> {
         try {
-            const account = await getAccount(this._connection, tokenAccount);
+            const accountInfo = await this._connection.getAccountInfo(tokenAccount);
+            const programId = accountInfo?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+            const account = unpackAccount(tokenAccount, accountInfo, programId);
             
             return {
                 address: tokenAccount,
@@ -143,14 +151,15 @@ export class TokenAccountManager {
         owner: PublicKey,
         mint: PublicKey
     ): Promise<{ instruction: TransactionInstruction; tokenAccount: PublicKey }> {
-        const tokenAccount = await getAssociatedTokenAddress(mint, owner);
+        const programId = await this._mintRegistry.getTokenProgramId(mint);
+        const tokenAccount = await this._mintRegistry.getAssociatedTokenAddress(mint, owner);
         
         const instruction = createAssociatedTokenAccountInstruction(
             payer,          // 付费者
             tokenAccount,   // 要创建的代币账户地址
             owner,          // 代币账户所有者
             mint,           // 代币mint
-            TOKEN_PROGRAM_ID,
+            programId,
             ASSOCIATED_TOKEN_PROGRAM_ID
         );
 
@@ -193,7 +202,7 @@ export class TokenAccountManager {
 
         for (const tokenInfo of tokenMints) {
             try {
-                const tokenAccount = await getAssociatedTokenAddress(tokenInfo.mint, owner);
+                const tokenAccount = await this._mintRegistry.getAssociatedTokenAddress(tokenInfo.mint, owner);
                 const balance = await this.getTokenBalance(
                     tokenAccount,
                     tokenInfo.mint,
@@ -0,0 +1,215 @@
+import { AccountInfo, AccountMeta, Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import {
+    ACCOUNT_SIZE,
+    ExtensionType,
+    addExtraAccountMetasForExecute,
+    getAccountLen,
+    getAccountTypeOfMintType,
+    getExtensionTypes,
+    getAssociatedTokenAddressSync,
+    getEpochFee,
+    getInterestBearingMintConfigState,
+    getNonTransferable,
+    getTransferFeeConfig,
+    getTransferHook,
+    unpackMint,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID
+} from "@solana/spl-token";
+import BN from "bn.js";
+
+import { TokenMintInfo } from "../../types/token/token-types";
+import { TOKEN_MINT_CONFIG } from "../../config/dex-config";
+
+/**
+ * 代币mint注册表
+ * 识别mint所属的代币程序 (SPL Token 或 Token-2022)，按正确的程序推导关联代币账户，
+ * 并解析影响交换的 Token-2022 扩展 (转账费、转账钩子、不可转让、计息)
+ */
+export class TokenMintRegistry {
+    private _connection: Connection;
+    private _config: typeof TOKEN_MINT_CONFIG;
+    private _cache: Map<string, { info: TokenMintInfo; expiresAt: number }> = new Map();
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param config mint信息配置
+     */
+    constructor(connection: Connection, config: typeof TOKEN_MINT_CONFIG = TOKEN_MINT_CONFIG) {
+        this._connection = connection;
+        this._config = config;
+    }
+
+    /**
+     * 获取mint信息
+     * @param mint 代币mint地址
+     */
+    async getMintInfo(mint: PublicKey): Promise<TokenMintInfo> {
+        const [info] = await this.getMintInfos([mint]);
+        return info;
+    }
+
+    /**
+     * 批量获取mint信息，缓存未命中的mint合并为一次查询
+     * 链上不存在的mint按 SPL Token 处理
+     * @param mints 代币mint地址
+     */
+    async getMintInfos(mints: PublicKey[]): Promise<TokenMintInfo[]> {
+        const now = Date.now();
+        const missing = mints.filter((mint, index) => {
+            const cached = this._cache.get(mint.toBase58());
+            const duplicate = mints.findIndex(other => other.equals(mint)) !== index;
+            return !duplicate && (!cached || cached.expiresAt <= now);
+        });
+
+        if (missing.length > 0) {
+            const accounts = await this._connection.getMultipleAccountsInfo(missing);
+            const epoch = accounts.some(account => account?.owner.equals(TOKEN_2022_PROGRAM_ID))
+                ? (await this._connection.getEpochInfo()).epoch
+                : 0;
+
+            missing.forEach((mint, index) => {
+                const info = this._parseMint(mint, accounts[index], epoch);
+                this._cache.set(mint.toBase58(), { info, expiresAt: now + this._config.CACHE_TTL_MS });
+            });
+        }
+
+        return mints.map(mint => this._cache.get(mint.toBase58())!.info);
+    }
+
+    /**
+     * 获取mint所属的代币程序
+     * @param mint 代币mint地址
+     */
+    async getTokenProgramId(mint: PublicKey): Promise<PublicKey> {
+        return (await this.getMintInfo(mint)).programId;
+    }
+
+    /**
+     * 按mint所属的代币程序推导关联代币账户地址
+     * @param mint 代币mint地址
+     * @param owner 账户所有者地址
+     */
+    async getAssociatedTokenAddress(mint: PublicKey, owner: PublicKey): Promise<PublicKey> {
+        return getAssociatedTokenAddressSync(mint, owner, false, await this.getTokenProgramId(mint));
+    }
+
+    /**
+     * 确认代币可以交换
+     * @param info mint信息
+     */
+    assertSwappable(info: TokenMintInfo): void {
+        if (info.nonTransferable) {
+            throw new Error(`代币 ${info.mint.toBase58()} 不可转让，无法交换`);
+        }
+    }
+
+    /**
+     * 解析一次代币转账的转账钩子账户
+     * 返回钩子声明的额外账户、钩子程序和验证账户 (按 Token-2022 转账时追加的顺序)，
+     * 由协议按各自的指令格式传入交换指令 (如 Whirlpool swapV2 的剩余账户)
+     * @param info mint信息
+     * @param source 转出账户
+     * @param destination 转入账户
+     * @param owner 转出账户的所有者
+     * @param amount 转账金额
+     * @returns 钩子账户，代币没有转账钩子时为空数组
+     */
+    async getTransferHookAccounts(
+        info: TokenMintInfo,
+        source: PublicKey,
+        destination: PublicKey,
+        owner: PublicKey,
+        amount: BN
+    ): Promise<AccountMeta[]> {
+        const hookProgramId = info.transferHookProgramId;
+        if (!hookProgramId) {
+            return [];
+        }
+
+        // 以转账指令的账户 (转出、mint、转入、所有者) 为基础解析，只取追加的部分
+        const transfer = new TransactionInstruction({
+            programId: info.programId,
+            keys: [source, info.mint, destination, owner].map(pubkey => ({ pubkey, isSigner: false, isWritable: false }))
+        });
+        try {
+            await addExtraAccountMetasForExecute(
+                this._connection,
+                transfer,
+                hookProgramId,
+                source,
+                info.mint,
+                destination,
+                owner,
+                BigInt(amount.toString())
+            );
+        } catch (error) {
+            throw new Error(`解析代币 ${info.mint.toBase58()} 的转账钩子账户失败: ${error}`);
+        }
+
+        const accounts = transfer.keys.slice(4);
+        console.log(`🪝 已解析转账钩子账户: ${accounts.length} 个 (${hookProgramId.toBase58()})`);
+        return accounts;
+    }
+
+    /**
+     * 解析mint账户
+     */
+    private _parseMint(mint: PublicKey, account: AccountInfo<Buffer> | null, epoch: number): TokenMintInfo {
+        if (!account) {
+            console.log(`⚠️ 未找到代币mint账户，按 SPL Token 处理: ${mint.toBase58()}`);
+            return { mint, programId: TOKEN_PROGRAM_ID, decimals: 0, tokenAccountSize: ACCOUNT_SIZE, nonTransferable: false };
+        }
+        if (!account.owner.equals(TOKEN_PROGRAM_ID) && !account.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+            throw new Error(`账户 ${mint.toBase58()} 不是代币mint (所有者 ${account.owner.toBase58()})`);
+        }
+
+        const state = unpackMint(mint, account, account.owner);
+        const info: TokenMintInfo = {
+            mint,
+            programId: account.owner,
+            decimals: state.decimals,
+            tokenAccountSize: this._getTokenAccountSize(account.owner, state.tlvData),
+            nonTransferable: getNonTransferable(state) !== null
+        };
+
+        const feeConfig = getTransferFeeConfig(state);
+        if (feeConfig) {
+            const fee = getEpochFee(feeConfig, BigInt(epoch));
+            if (fee.transferFeeBasisPoints > 0) {
+                info.transferFee = {
+                    basisPoints: fee.transferFeeBasisPoints,
+                    maximumFee: new BN(fee.maximumFee.toString())
+                };
+            }
+        }
+
+        const hook = getTransferHook(state);
+        if (hook && !hook.programId.equals(PublicKey.default)) {
+            info.transferHookProgramId = hook.programId;
+        }
+
+        const interest = getInterestBearingMintConfigState(state);
+        if (interest) {
+            info.interestRateBps = interest.currentRate;
+        }
+
+        return info;
+    }
+
+    /**
+     * 计算关联代币账户大小
+     * Token-2022 账户包含mint扩展要求的账户扩展，关联代币账户程序还会加上 ImmutableOwner
+     */
+    private _getTokenAccountSize(programId: PublicKey, tlvData: Buffer): number {
+        if (!programId.equals(TOKEN_2022_PROGRAM_ID)) {
+            return ACCOUNT_SIZE;
+        }
+
+        const accountExtensions = getExtensionTypes(tlvData)
+            .map(getAccountTypeOfMintType)
+            .filter(extension => extension !== ExtensionType.Uninitialized);
+        return getAccountLen([...accountExtensions, ExtensionType.ImmutableOwner]);
+    }
+}
@@ -0,0 +1,100 @@
+import { PublicKey, VersionedTransaction } from "@solana/web3.js";
+
+import { AccountRentSummary, ComputeBudgetSettings, WalletAccounting } from "../../types/transaction/transaction-types";
+
+/** 每个签名的基础手续费 (lamports) */
+const LAMPORTS_PER_SIGNATURE = 5000;
+
+/**
+ * 钱包账本
+ * 按钱包记录交换次数、支付的手续费、代币账户租金和 Jito 小费，用于手续费支付者与多个交易子账户分离时的对账
+ */
+export class WalletLedger {
+    private _accounts: Map<string, WalletAccounting> = new Map();
+
+    /**
+     * 记录已上链的交易 (成功或执行失败都会扣除手续费)
+     * 手续费记在交易的手续费支付者名下
+     * @param transaction 已上链的交易
+     * @param computeBudget 交易的计算预算 (包含优先费)
+     * @returns 记录的手续费 (lamports)
+     */
+    recordTransaction(transaction: VersionedTransaction, computeBudget?: ComputeBudgetSettings): number {
+        const { header, staticAccountKeys } = transaction.message;
+        const fee = header.numRequiredSignatures * LAMPORTS_PER_SIGNATURE + (computeBudget?.priorityFeeLamports ?? 0);
+
+        const account = this._getOrCreate(staticAccountKeys[0]);
+        account.transactionsPaid++;
+        account.feesPaid += fee;
+        return fee;
+    }
+
+    /**
+     * 记录已成功执行的交换交易中代币账户的租金收支 (执行失败的交易不创建也不关闭账户)
+     * 新建账户的租金和退回的租金记在手续费支付者名下，关闭已有账户退回的租金记在代币所有者名下
+     * @param feePayer 交易的手续费支付者
+     * @param owner 代币所有者
+     * @param accountRent 交易的租金收支
+     */
+    recordAccountRent(feePayer: PublicKey, owner: PublicKey, accountRent: AccountRentSummary): void {
+        const payer = this._getOrCreate(feePayer);
+        payer.rentPaid += accountRent.paidLamports;
+        payer.rentRefunded += accountRent.refundedLamports;
+        this._getOrCreate(owner).rentRefunded += accountRent.ownerRefundedLamports;
+    }
+
+    /**
+     * 记录已落地 Bundle 支付的 Jito 小费
+     * @param payer 小费支付者
+     * @param lamports 小费金额
+     */
+    recordTip(payer: PublicKey, lamports: number): void {
+        this._getOrCreate(payer).tipsPaid += lamports;
+    }
+
+    /**
+     * 记录代币所有者完成的交换
+     * @param owner 代币所有者
+     */
+    recordSwap(owner: PublicKey): void {
+        this._getOrCreate(owner).swaps++;
+    }
+
+    /**
+     * 获取钱包的累计支出
+     * @param wallet 钱包地址
+     */
+    get(wallet: PublicKey): WalletAccounting {
+        const account = this._accounts.get(wallet.toBase58());
+        return account
+            ? { ...account }
+            : this._empty(wallet);
+    }
+
+    /**
+     * 获取所有钱包的累计支出
+     */
+    getAll(): WalletAccounting[] {
+        return Array.from(this._accounts.values(), account => ({ ...account }));
+    }
+
+    /**
+     * 获取钱包记录，不存在时创建
+     */
+    private _getOrCreate(wallet: PublicKey): WalletAccounting {
+        const key = wallet.toBase58();
+        let account = this._accounts.get(key);
+        if (!account) {
+            account = this._empty(wallet);
+            this._accounts.set(key, account);
+        }
+        return account;
+    }
+
+    /**
+     * 创建空的钱包记录
+     */
+    private _empty(wallet: PublicKey): WalletAccounting {
+        return { wallet, swaps: 0, transactionsPaid: 0, feesPaid: 0, rentPaid: 0, rentRefunded: 0, tipsPaid: 0 };
+    }
+}
@@ -1,18 +1,38 @@
-import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { Connection, PublicKey, TransactionInstruction, TransactionMessage } from "@solana/web3.js";
 import { 
-    getAssociatedTokenAddress, 
     getAccount, 
     createAssociatedTokenAccountInstruction,
+    createCloseAccountInstruction,
+    createInitializeAccount3Instruction,
     createSyncNativeInstruction,
-    TOKEN_PROGRAM_ID,
+    Account,
+    ACCOUNT_SIZE,
     ASSOCIATED_TOKEN_PROGRAM_ID,
-    NATIVE_MINT
+    NATIVE_MINT,
+    TOKEN_PROGRAM_ID
 } from "@solana/spl-token";
 import { SystemProgram } from "@solana/web3.js";
+import { randomBytes } from "crypto";
 import BN from "bn.js";
 
-import { DEXProtocol, DEXQuote, AggregatedRoute } from "../../types/dex/protocol";
-import { getEnabledDEXConfigs } from "../../config/dex-config";
+import { DEXProtocol, DEXQuote, AggregatedRoute, SplitLeg, IntermediateDust, SwapMode, DEXConfig, ProtocolHealth, QuoteCostBreakdown, SwapTokenContext, SwapInstructionResult } from "../../types/dex/protocol";
+import { getEnabledDEXConfigs, ROUTE_SEARCH_CONFIG, QUOTE_STALENESS_CONFIG, EXECUTION_COST_CONFIG, COMPUTE_BUDGET_CONFIG, TRANSACTION_ASSEMBLY_CONFIG, WSOL_CONFIG } from "../../config/dex-config";
+import { getKnownPools, getRouteHubTokens } from "../../config/network-config";
+import { NetworkType, TokenMintInfo } from "../../types/token/token-types";
+import { SplitRouter } from "./split-router";
+import { RouteGraph } from "./route-graph";
+import { MultiHopRouter } from "./multi-hop-router";
+import { QuoteCache } from "./quote-cache";
+import { ProtocolHealthMonitor } from "./protocol-health-monitor";
+import { ExecutionCostModel } from "./execution-cost-model";
+import { QuotePriceSource } from "./price-source";
+import { TransactionAssembler } from "../transaction/transaction-assembler";
+import { ComputeBudgetManager } from "../transaction/compute-budget-manager";
+import { BlockhashManager } from "../transaction/blockhash-manager";
+import { TokenMintRegistry } from "../account-manager/token-mint-registry";
+import { AccountRentSummary, AssembledTransaction, SwapBuildOptions } from "../../types/transaction/transaction-types";
+import { SwapPriority } from "../../types/facade/swap-types";
+import { calculateMinimumOutputAmount, calculatePreFeeAmount, calculateTransferFee } from "../../utils/token/token-utils";
 
 /**
  * DEX聚合器
@@ -21,15 +41,43 @@ import { getEnabledDEXConfigs } from "../../config/dex-config";
 export class DEXAggregator {
     private _connection: Connection;
     private _protocols: DEXProtocol[];
+    private _splitRouter: SplitRouter;
+    private _multiHopRouter: MultiHopRouter;
+    private _hubTokens: PublicKey[];
+    private _quoteCache: QuoteCache;
+    private _healthMonitor: ProtocolHealthMonitor;
+    private _costModel: ExecutionCostModel;
+    private _assembler: TransactionAssembler;
+    private _computeBudget: ComputeBudgetManager;
+    private _blockhashManager: BlockhashManager;
+    private _mintRegistry: TokenMintRegistry;
+    private _rentExemptions: Map<number, number> = new Map();
 
     /**
      * 构造函数
      * @param connection Solana连接实例
      * @param protocols 支持的DEX协议列表
+     * @param networkType 网络类型 (决定路由图的已知池子和中间代币)
+     * @param blockhashManager 共享的区块哈希管理器
      */
-    constructor(connection: Connection, protocols: DEXProtocol[]) {
+    constructor(
+        connection: Connection,
+        protocols: DEXProtocol[],
+        networkType: NetworkType = NetworkType.DEVNET,
+        blockhashManager: BlockhashManager = new BlockhashManager(connection)
+    ) {
         this._connection = connection;
         this._protocols = protocols;
+        this._splitRouter = new SplitRouter();
+        this._multiHopRouter = new MultiHopRouter(new RouteGraph(getKnownPools(networkType)));
+        this._hubTokens = getRouteHubTokens(networkType);
+        this._quoteCache = new QuoteCache();
+        this._healthMonitor = new ProtocolHealthMonitor();
+        this._costModel = new ExecutionCostModel(new QuotePriceSource(() => this._getQuotingProtocols()));
+        this._blockhashManager = blockhashManager;
+        this._assembler = new TransactionAssembler(connection, TRANSACTION_ASSEMBLY_CONFIG, blockhashManager);
+        this._computeBudget = new ComputeBudgetManager(connection);
+        this._mintRegistry = new TokenMintRegistry(connection);
         
         console.log(`🔗 DEX聚合器初始化完成，支持 ${protocols.length} 个协议:`);
         protocols.forEach(protocol => {
@@ -39,18 +87,119 @@ export class DEXAggregator {
 
     /**
      * 获取聚合报价
-     * 从所有启用的DEX获取报价，并选择最优方案
+     * 从所有启用的DEX获取报价，并选择最优方案，报价未计入 Token-2022 转账费的协议在排序前扣除转账费
+     * 有效期内相同交易对和金额桶的查询直接使用缓存
      * @param tokenA 输入代币mint地址
      * @param tokenB 输出代币mint地址
      * @param amount 输入金额
      * @param slippage 滑点容忍度
+     * @param forceRefresh 是否忽略缓存重新报价
      * @returns 聚合路由结果
      */
     async getAggregatedQuote(
         tokenA: PublicKey,
         tokenB: PublicKey,
         amount: BN,
-        slippage: number
+        slippage: number,
+        forceRefresh: boolean = false
+    ): Promise<AggregatedRoute> {
+        return await this._getCachedRoute(tokenA, tokenB, amount, slippage, 'ExactIn', forceRefresh, async () => {
+            const [mintA, mintB] = await this._getSwappableMints(tokenA, tokenB);
+            const route = await this._aggregateQuotes(tokenA, tokenB, amount, slippage, mintA, mintB);
+            this._logTransferFees(route);
+            return route;
+        });
+    }
+
+    /**
+     * 获取精确输出聚合报价
+     * 从实现了精确输出报价的DEX获取报价，选择所需输入最少的方案
+     * 精确输出模式只支持单一DEX执行，Token-2022 代币按含转账费的金额报价
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param outputAmount 期望的输出金额
+     * @param slippage 滑点容忍度
+     * @param forceRefresh 是否忽略缓存重新报价
+     * @returns 聚合路由结果 (bestQuote.maxInputAmount 为最大输入保护)
+     */
+    async getAggregatedQuoteExactOut(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        outputAmount: BN,
+        slippage: number,
+        forceRefresh: boolean = false
+    ): Promise<AggregatedRoute> {
+        return await this._getCachedRoute(tokenA, tokenB, outputAmount, slippage, 'ExactOut', forceRefresh, async () => {
+            const [mintA, mintB] = await this._getSwappableMints(tokenA, tokenB);
+            const route = await this._aggregateQuotesExactOut(tokenA, tokenB, outputAmount, slippage, mintA, mintB);
+            this._logTransferFees(route);
+            return route;
+        });
+    }
+
+    /**
+     * 获取报价年龄
+     * @param route 聚合路由结果
+     * @returns 距离报价产生的毫秒数
+     */
+    getQuoteAge(route: AggregatedRoute): number {
+        return Date.now() - (route.bestQuote.fetchedAt ?? Date.now());
+    }
+
+    /**
+     * 获取组装交易使用的区块哈希管理器
+     * 发送交易的组件应共用该实例，使区块哈希与最后有效区块高度保持一致
+     */
+    getBlockhashManager(): BlockhashManager {
+        return this._blockhashManager;
+    }
+
+    /**
+     * 获取代币mint注册表
+     * 推导代币账户的组件应共用该实例，按mint所属的代币程序推导关联代币账户
+     */
+    getMintRegistry(): TokenMintRegistry {
+        return this._mintRegistry;
+    }
+
+    /**
+     * 获取所有协议的健康状况
+     * @returns 各协议的熔断状态和滚动健康分
+     */
+    getProtocolHealth(): ProtocolHealth[] {
+        return this._healthMonitor.getAllHealth(this._protocols.map(protocol => protocol.name));
+    }
+
+    /**
+     * 获取当前可用的DEX配置
+     * 在 getEnabledDEXConfigs 的基础上排除熔断中的协议，同优先级按健康分从高到低排序
+     * @returns 可用的DEX配置列表
+     */
+    getAvailableDEXConfigs(): DEXConfig[] {
+        return getEnabledDEXConfigs()
+            .filter(config => this._protocols.some(protocol => protocol.name === config.name))
+            .filter(config => this._healthMonitor.isAvailable(config.name))
+            .sort((a, b) => a.priority - b.priority
+                || this._healthMonitor.getHealth(b.name).healthScore - this._healthMonitor.getHealth(a.name).healthScore);
+    }
+
+    /**
+     * 聚合所有DEX的精确输入报价
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param amount 输入金额
+     * @param slippage 滑点容忍度
+     * @param inputMint 输入代币mint信息
+     * @param outputMint 输出代币mint信息
+     * @returns 聚合路由结果
+     */
+    private async _aggregateQuotes(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number,
+        inputMint: TokenMintInfo,
+        outputMint: TokenMintInfo
     ): Promise<AggregatedRoute> {
         console.log(`🔍 开始聚合报价查询...`);
         console.log(`   输入代币: ${tokenA.toBase58()}`);
@@ -59,11 +208,9 @@ export class DEXAggregator {
         console.log(`   滑点容忍: ${(slippage * 100).toFixed(2)}%`);
 
         const quotes: DEXQuote[] = [];
-        const enabledConfigs = getEnabledDEXConfigs();
-
-        // 并行获取所有DEX的报价
-        const quotePromises = this._protocols
-            .filter(protocol => enabledConfigs.some(config => config.name === protocol.name))
+        // 并行获取所有DEX的报价 (熔断中的协议被跳过，每次调用受超时保护，拆单和多跳路由的报价同样扣除转账费)
+        const enabledProtocols = this._chargeTransferFees(this._getQuotingProtocols(), inputMint, outputMint);
+        const quotePromises = enabledProtocols
             .map(async (protocol) => {
                 try {
                     console.log(`   📊 查询 ${protocol.name} 报价...`);
@@ -76,44 +223,239 @@ export class DEXAggregator {
                 }
             });
 
-        const results = await Promise.all(quotePromises);
+        // 并行搜索多跳路由 (即使没有直接池子也可能找到经过中间代币的路径)，同时获取折算执行成本的 SOL 价格
+        const [results, routeHops, solPrice] = await Promise.all([
+            Promise.all(quotePromises),
+            this._multiHopRouter.findBestRoute(enabledProtocols, tokenA, tokenB, amount, slippage, this._hubTokens)
+                .catch(error => {
+                    console.log(`   ❌ 多跳路由搜索失败: ${error}`);
+                    return null;
+                }),
+            EXECUTION_COST_CONFIG.ENABLED ? this._costModel.getSolPrice(tokenB) : Promise.resolve(null)
+        ]);
         quotes.push(...results.filter(quote => quote !== null) as DEXQuote[]);
 
         if (quotes.length === 0) {
+            if (routeHops) {
+                const routeQuote = this._combineRouteQuotes(routeHops, amount);
+                console.log(`🧭 无直接报价，采用多跳路由: ${routeQuote.dexName}`);
+                return {
+                    bestQuote: routeQuote,
+                    allQuotes: [],
+                    recommendedDEX: routeQuote.dexName,
+                    totalSavings: new BN(0),
+                    executionStrategy: 'ROUTE',
+                    slippage,
+                    routeHops,
+                    intermediateDust: this._getIntermediateDust(routeHops),
+                    costBreakdown: this._costModel.estimate(routeQuote, solPrice, { newTokenAccounts: routeHops.length - 1 })
+                };
+            }
             throw new Error("所有DEX报价都失败了");
         }
 
-        // 选择最优报价 (输出金额最大的)
-        const bestQuote = quotes.reduce((best, current) => 
-            current.outputAmount.gt(best.outputAmount) ? current : best
-        );
-
-        // 计算节省金额
-        const secondBest = quotes
-            .filter(q => q.dexName !== bestQuote.dexName)
-            .reduce((best, current) => 
-                !best || current.outputAmount.gt(best.outputAmount) ? current : best, 
-                null as DEXQuote | null
-            );
+        // 按扣除执行成本后的净输出排序，选择最优报价
+        const rankedQuotes = quotes
+            .map(quote => ({ quote, cost: this._costModel.estimate(quote, solPrice) }))
+            .sort((a, b) => b.cost.netOutputAmount.cmp(a.cost.netOutputAmount));
+        const { quote: bestQuote, cost: bestCost } = rankedQuotes[0];
 
-        const totalSavings = secondBest 
-            ? bestQuote.outputAmount.sub(secondBest.outputAmount)
+        // 计算节省金额 (净输出之差)
+        const secondBest = rankedQuotes.find(ranked => ranked.quote.dexName !== bestQuote.dexName);
+        const totalSavings = secondBest
+            ? bestCost.netOutputAmount.sub(secondBest.cost.netOutputAmount)
             : new BN(0);
 
         console.log(`🎯 最优选择: ${bestQuote.dexName}`);
         console.log(`   最佳输出: ${bestQuote.outputAmount.toString()}`);
+        console.log(`   执行成本: ${bestCost.totalCostLamports.toString()} lamports (折合输出代币 ${bestCost.totalCost.toString()})`);
+        console.log(`   净输出: ${bestCost.netOutputAmount.toString()}`);
         console.log(`   价格影响: ${(bestQuote.priceImpact * 100).toFixed(4)}%`);
         console.log(`   节省金额: ${totalSavings.toString()}`);
 
+        const allQuotes = rankedQuotes.map(ranked => ranked.quote);
+
+        // 尝试在多个协议之间拆单
+        const quotedProtocols = enabledProtocols.filter(protocol => quotes.some(q => q.dexName === protocol.name));
+        const splitLegs = await this._splitRouter.findBestSplit(
+            quotedProtocols,
+            new Map(quotes.map(q => [q.dexName, q])),
+            tokenA,
+            tokenB,
+            amount,
+            slippage
+        );
+
+        let directRoute: AggregatedRoute = {
+            bestQuote,
+            allQuotes,
+            recommendedDEX: bestQuote.dexName,
+            totalSavings,
+            executionStrategy: 'SINGLE',
+            slippage,
+            costBreakdown: bestCost
+        };
+
+        // 拆单的净输出 (多个分腿的优先费更高) 仍需优于单一DEX
+        if (splitLegs) {
+            const splitQuote = this._combineSplitQuotes(splitLegs, tokenA, tokenB, amount);
+            const splitCost = this._costModel.estimate(splitQuote, solPrice);
+
+            if (splitCost.netOutputAmount.gt(bestCost.netOutputAmount)) {
+                console.log(`🔀 采用拆单执行: ${splitQuote.dexName}`);
+                console.log(`   拆单输出: ${splitQuote.outputAmount.toString()}`);
+                console.log(`   拆单净输出: ${splitCost.netOutputAmount.toString()}`);
+
+                directRoute = {
+                    bestQuote: splitQuote,
+                    allQuotes,
+                    recommendedDEX: splitQuote.dexName,
+                    totalSavings: splitCost.netOutputAmount.sub(bestCost.netOutputAmount),
+                    executionStrategy: 'SPLIT',
+                    slippage,
+                    splitLegs,
+                    costBreakdown: splitCost
+                };
+            } else {
+                console.log(`   ℹ️  拆单扣除执行成本后不优于单一DEX，保持单一DEX执行`);
+            }
+        }
+
+        // 多跳路由需要覆盖额外跳数带来的计算成本，且扣除中间代币账户租金等成本后净输出更高才会被采用
+        if (routeHops) {
+            const routeQuote = this._combineRouteQuotes(routeHops, amount);
+            const routeCost = this._costModel.estimate(routeQuote, solPrice, { newTokenAccounts: routeHops.length - 1 });
+            const directOutput = directRoute.bestQuote.outputAmount;
+            const directNetOutput = directRoute.costBreakdown!.netOutputAmount;
+            const requiredOutput = directOutput
+                .muln(10000 + ROUTE_SEARCH_CONFIG.MIN_IMPROVEMENT_BPS * (routeHops.length - 1))
+                .divn(10000);
+
+            if (routeQuote.outputAmount.gt(requiredOutput) && routeCost.netOutputAmount.gt(directNetOutput)) {
+                console.log(`🧭 采用多跳路由: ${routeQuote.dexName}`);
+                console.log(`   路由输出: ${routeQuote.outputAmount.toString()}`);
+                console.log(`   路由净输出: ${routeCost.netOutputAmount.toString()}`);
+
+                return {
+                    bestQuote: routeQuote,
+                    allQuotes,
+                    recommendedDEX: routeQuote.dexName,
+                    totalSavings: routeCost.netOutputAmount.sub(directNetOutput),
+                    executionStrategy: 'ROUTE',
+                    slippage,
+                    routeHops,
+                    intermediateDust: this._getIntermediateDust(routeHops),
+                    costBreakdown: routeCost
+                };
+            }
+        }
+
+        return directRoute;
+    }
+
+    /**
+     * 聚合支持精确输出的DEX报价
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param outputAmount 期望的输出金额
+     * @param slippage 滑点容忍度
+     * @param inputMint 输入代币mint信息
+     * @param outputMint 输出代币mint信息
+     * @returns 聚合路由结果
+     */
+    private async _aggregateQuotesExactOut(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        outputAmount: BN,
+        slippage: number,
+        inputMint: TokenMintInfo,
+        outputMint: TokenMintInfo
+    ): Promise<AggregatedRoute> {
+        console.log(`🔍 开始精确输出聚合报价查询...`);
+        console.log(`   输入代币: ${tokenA.toBase58()}`);
+        console.log(`   输出代币: ${tokenB.toBase58()}`);
+        console.log(`   输出金额: ${outputAmount.toString()}`);
+        console.log(`   滑点容忍: ${(slippage * 100).toFixed(2)}%`);
+
+        const exactOutProtocols = this._chargeTransferFees(this._getQuotingProtocols(), inputMint, outputMint)
+            .filter(protocol => protocol.getQuoteExactOut);
+
+        if (exactOutProtocols.length === 0) {
+            throw new Error("没有支持精确输出报价的DEX");
+        }
+
+        const results = await Promise.all(exactOutProtocols.map(async (protocol) => {
+            try {
+                console.log(`   📊 查询 ${protocol.name} 精确输出报价...`);
+                const quote = await protocol.getQuoteExactOut!(tokenA, tokenB, outputAmount, slippage);
+                console.log(`   ✅ ${protocol.name} 报价: 输入 ${quote.inputAmount.toString()}`);
+                return quote;
+            } catch (error) {
+                console.log(`   ❌ ${protocol.name} 精确输出报价失败: ${error}`);
+                return null;
+            }
+        }));
+        const quotes = results.filter(quote => quote !== null) as DEXQuote[];
+
+        if (quotes.length === 0) {
+            throw new Error("所有DEX精确输出报价都失败了");
+        }
+
+        // 选择最优报价 (所需输入最少的)
+        const allQuotes = quotes.sort((a, b) => a.inputAmount.cmp(b.inputAmount));
+        const bestQuote = allQuotes[0];
+        const totalSavings = allQuotes.length > 1
+            ? allQuotes[1].inputAmount.sub(bestQuote.inputAmount)
+            : new BN(0);
+
+        console.log(`🎯 最优选择: ${bestQuote.dexName}`);
+        console.log(`   最少输入: ${bestQuote.inputAmount.toString()}`);
+        console.log(`   最大输入: ${bestQuote.maxInputAmount?.toString()}`);
+        console.log(`   节省金额: ${totalSavings.toString()}`);
+
         return {
             bestQuote,
-            allQuotes: quotes.sort((a, b) => b.outputAmount.cmp(a.outputAmount)),
+            allQuotes,
             recommendedDEX: bestQuote.dexName,
             totalSavings,
-            executionStrategy: 'SINGLE'
+            executionStrategy: 'SINGLE',
+            slippage
         };
     }
 
+    /**
+     * 估算路由的执行成本
+     * 提供用户钱包时检查路由涉及的代币账户是否存在，不存在的计入账户租金；
+     * 否则只按多跳路由的中间代币计入
+     * @param route 聚合路由结果
+     * @param options 用户钱包和是否计入 Jito 小费
+     * @returns 执行成本明细
+     */
+    async estimateExecutionCost(
+        route: AggregatedRoute,
+        options: { userWallet?: PublicKey; includeTip?: boolean } = {}
+    ): Promise<QuoteCostBreakdown> {
+        const { bestQuote } = route;
+        const outputMint = bestQuote.route[bestQuote.route.length - 1];
+
+        let newTokenAccounts = route.executionStrategy === 'ROUTE' ? bestQuote.route.length - 2 : 0;
+        if (options.userWallet) {
+            // 临时 WSOL 账户的租金在同一交易中退回，不计入成本
+            const [inputMint, outputMint] = [bestQuote.route[0], bestQuote.route[bestQuote.route.length - 1]];
+            const mints = this._getWsolMode(route) === 'ephemeral'
+                ? bestQuote.route.filter(mint => !mint.equals(NATIVE_MINT) || (!mint.equals(inputMint) && !mint.equals(outputMint)))
+                : bestQuote.route;
+            const tokenAccounts = await Promise.all(
+                mints.map(mint => this._mintRegistry.getAssociatedTokenAddress(mint, options.userWallet!))
+            );
+            const accounts = await this._connection.getMultipleAccountsInfo(tokenAccounts);
+            newTokenAccounts = accounts.filter(account => account === null).length;
+        }
+
+        const solPrice = await this._costModel.getSolPrice(outputMint);
+        return this._costModel.estimate(bestQuote, solPrice, { newTokenAccounts, includeTip: options.includeTip });
+    }
+
     /**
      * 执行最优交换
      * 使用最佳DEX执行交换操作
@@ -129,131 +471,933 @@ export class DEXAggregator {
         tokenAccountA: PublicKey,
         tokenAccountB: PublicKey
     ): Promise<TransactionInstruction> {
+        return (await this._buildOptimalSwap(route, userWallet, tokenAccountA, tokenAccountB)).instruction;
+    }
+
+    /**
+     * 构建路由对应的全部交换指令
+     * 单一DEX路由返回一个指令，拆单路由每个分腿返回一个指令
+     * @param route 聚合路由结果
+     * @param userWallet 用户钱包地址
+     * @param tokenAccountA 代币A账户地址
+     * @param tokenAccountB 代币B账户地址
+     * @returns 交换指令数组
+     */
+    async buildSwapInstructions(
+        route: AggregatedRoute,
+        userWallet: PublicKey,
+        tokenAccountA: PublicKey,
+        tokenAccountB: PublicKey
+    ): Promise<TransactionInstruction[]> {
+        const swaps = await this._buildSwaps(route, userWallet, tokenAccountA, tokenAccountB);
+        return swaps.map(swap => swap.instruction);
+    }
+
+    /**
+     * 构建单一DEX路由的交换指令及其地址查找表
+     */
+    private async _buildOptimalSwap(
+        route: AggregatedRoute,
+        userWallet: PublicKey,
+        tokenAccountA: PublicKey,
+        tokenAccountB: PublicKey
+    ): Promise<SwapInstructionResult> {
         console.log(`🚀 执行最优交换: ${route.recommendedDEX}`);
 
+        if (route.executionStrategy !== 'SINGLE') {
+            throw new Error("拆单和多跳路由包含多个交换指令，请使用 buildSwapInstructions");
+        }
+
         const protocol = this._protocols.find(p => p.name === route.recommendedDEX);
         if (!protocol) {
             throw new Error(`未找到协议: ${route.recommendedDEX}`);
         }
 
+        // 报价过期时按配置重新报价或拒绝执行
+        await this._ensureFreshRoute(route);
+
         // 构建交换指令
-        return await protocol.buildSwapInstruction(
-            route.bestQuote,
-            userWallet,
-            tokenAccountA,
-            tokenAccountB
-        );
+        return await this._buildProtocolSwap(protocol, route.bestQuote, userWallet, tokenAccountA, tokenAccountB);
+    }
+
+    /**
+     * 构建路由对应的全部交换指令及其地址查找表
+     * 单一DEX路由返回一个指令，拆单路由每个分腿、多跳路由每一跳返回一个指令
+     */
+    private async _buildSwaps(
+        route: AggregatedRoute,
+        userWallet: PublicKey,
+        tokenAccountA: PublicKey,
+        tokenAccountB: PublicKey
+    ): Promise<SwapInstructionResult[]> {
+        const isMultiQuote = (route.executionStrategy === 'ROUTE' && route.routeHops) || (route.executionStrategy === 'SPLIT' && route.splitLegs);
+        if (!isMultiQuote) {
+            return [await this._buildOptimalSwap(route, userWallet, tokenAccountA, tokenAccountB)];
+        }
+
+        // 分腿和各跳的报价同样需要检查时效，过期时按配置重新报价或拒绝执行
+        await this._ensureFreshRoute(route);
+
+        if (route.executionStrategy === 'ROUTE') {
+            return await this._buildRouteSwaps(route.routeHops!, userWallet, tokenAccountA, tokenAccountB);
+        }
+
+        console.log(`🚀 执行拆单交换: ${route.splitLegs!.length} 个分腿`);
+
+        // 报价自包含协议数据，各分腿直接使用 (必要时重新获取的) 报价并行构建
+        // 拆单时已按执行金额报价，分腿输入之和等于总输入
+        return await Promise.all(route.splitLegs!.map(async (leg, i) => {
+            const protocol = this._protocols.find(p => p.name === leg.quote.dexName);
+            if (!protocol) {
+                throw new Error(`未找到协议: ${leg.quote.dexName}`);
+            }
+
+            console.log(`   分腿 ${i + 1}: ${protocol.name} ${leg.quote.inputAmount.toString()} → ${leg.quote.outputAmount.toString()}`);
+
+            return await this._buildProtocolSwap(protocol, leg.quote, userWallet, tokenAccountA, tokenAccountB);
+        }));
+    }
+
+    /**
+     * 构建一个报价的交换指令，构建结果计入协议健康状况
+     * 协议实现 buildSwapInstructionWithLookupTables 时一并取得其需要的地址查找表
+     */
+    private async _buildProtocolSwap(
+        protocol: DEXProtocol,
+        quote: DEXQuote,
+        userWallet: PublicKey,
+        tokenAccountA: PublicKey,
+        tokenAccountB: PublicKey
+    ): Promise<SwapInstructionResult> {
+        const tokens = await this._getSwapTokens(quote);
+        return await this._healthMonitor.observe(protocol.name, async () => protocol.buildSwapInstructionWithLookupTables
+            ? await protocol.buildSwapInstructionWithLookupTables(quote, userWallet, tokenAccountA, tokenAccountB, tokens)
+            : { instruction: await protocol.buildSwapInstruction(quote, userWallet, tokenAccountA, tokenAccountB, tokens), lookupTableAddresses: [] });
     }
 
     /**
      * 构建完整的交换交易
-     * 包括代币账户创建、SOL包装等预处理指令
+     * 包括代币账户创建、SOL包装和解包等预处理和收尾指令，代币账户按mint所属的代币程序推导和创建，
+     * 交换指令由协议按两端代币的代币程序构建 (Token-2022 转账钩子账户由协议按各自的指令格式传入)
      * @param route 聚合路由结果
-     * @param userWallet 用户钱包地址
+     * @param userWallet 用户钱包地址 (代币所有者)
      * @param tokenMintA 输入代币mint地址
      * @param tokenMintB 输出代币mint地址
+     * @param feePayer 新建代币账户的租金支付者，默认为代币所有者
      * @returns 完整的交易指令数组
      */
     async buildCompleteSwapTransaction(
         route: AggregatedRoute,
         userWallet: PublicKey,
         tokenMintA: PublicKey,
-        tokenMintB: PublicKey
+        tokenMintB: PublicKey,
+        feePayer: PublicKey = userWallet
     ): Promise<TransactionInstruction[]> {
+        const { instructions } = await this._buildSwapInstructionSet(route, userWallet, tokenMintA, tokenMintB, feePayer);
+        return instructions;
+    }
+
+    /**
+     * 构建完整的 v0 交换交易 (未签名)
+     * 指令与 buildCompleteSwapTransaction 相同，按优先级插入计算预算指令，
+     * 并使用各报价需要的地址查找表编译，调用方应在签名前检查 withinSizeLimit。
+     * 手续费支付者与代币所有者不同时，交易需要两者共同签名
+     * @param route 聚合路由结果
+     * @param userWallet 用户钱包地址 (代币所有者)
+     * @param tokenMintA 输入代币mint地址
+     * @param tokenMintB 输出代币mint地址
+     * @param options 优先级、durable nonce、手续费支付者、小费指令和前置交易保护
+     * @returns 组装完成的交易及其序列化大小和计算预算
+     */
+    async buildVersionedSwapTransaction(
+        route: AggregatedRoute,
+        userWallet: PublicKey,
+        tokenMintA: PublicKey,
+        tokenMintB: PublicKey,
+        options: SwapBuildOptions = {}
+    ): Promise<AssembledTransaction> {
+        const { priority = SwapPriority.MEDIUM, nonce, feePayer = userWallet, tipInstruction, dontFront, skipComputeSimulation } = options;
+        const { instructions, accountRent, lookupTableAddresses } = await this._buildSwapInstructionSet(route, userWallet, tokenMintA, tokenMintB, feePayer);
+        if (tipInstruction) {
+            instructions.push(tipInstruction);
+        }
+
+        if (!COMPUTE_BUDGET_CONFIG.ENABLED) {
+            return { ...await this._assembler.assemble(instructions, feePayer, { lookupTableAddresses, nonce, dontFront }), accountRent };
+        }
+
+        // 模拟与最终编译使用相同的查找表，使测得的CU与实际交易一致
+        const lookupTables = await this._assembler.loadLookupTables(lookupTableAddresses);
+        const { instructions: budgetedInstructions, ...computeBudget } = await this._computeBudget.apply(
+            instructions,
+            feePayer,
+            { priority, lookupTables, fallbackUnits: route.bestQuote.estimatedGas, skipSimulation: skipComputeSimulation }
+        );
+
+        const assembled = await this._assembler.assemble(budgetedInstructions, feePayer, { lookupTableAddresses, nonce, dontFront });
+        return { ...assembled, computeBudget, accountRent };
+    }
+
+    /**
+     * 按测得的CU重新设置交换交易的CU上限
+     * 用于以 skipComputeSimulation 构建的交易 (如原子 Bundle 的各笔交易，CU由 Bundle 整体模拟测得)；
+     * 保留原交易的其它指令、区块哈希 (或 durable nonce) 和查找表，返回的交易未签名
+     * @param assembled 组装完成的交换交易
+     * @param unitsConsumed 测得的CU
+     * @returns 重新编译的交易，未启用计算预算时原样返回
+     */
+    applyMeasuredComputeUnits(assembled: AssembledTransaction, unitsConsumed: number): AssembledTransaction {
+        if (!assembled.computeBudget) {
+            return assembled;
+        }
+
+        const message = TransactionMessage.decompile(assembled.transaction.message, {
+            addressLookupTableAccounts: assembled.lookupTables
+        });
+        const { instructions, ...computeBudget } = this._computeBudget.applyMeasuredUnits(
+            message.instructions,
+            unitsConsumed,
+            assembled.computeBudget.unitPrice
+        );
+
+        const recompiled = this._assembler.compile(
+            instructions,
+            message.payerKey,
+            assembled.recentBlockhash,
+            assembled.lookupTables,
+            assembled.lastValidBlockHeight
+        );
+        return { ...assembled, ...recompiled, computeBudget };
+    }
+
+    /**
+     * 获取参与报价的协议
+     * 返回可用配置对应的协议，报价和池子查询经过熔断器和超时保护
+     * @returns 受保护的协议列表
+     */
+    private _getQuotingProtocols(): DEXProtocol[] {
+        return this.getAvailableDEXConfigs()
+            .map(config => this._protocols.find(protocol => protocol.name === config.name)!)
+            .map(protocol => this._healthMonitor.guard(protocol));
+    }
+
+    /**
+     * 获取路由实际执行的报价 (拆单为各分腿，多跳为各跳，其余为最佳报价)
+     * @param route 聚合路由结果
+     * @returns 与交换指令一一对应的报价
+     */
+    private _getExecutedQuotes(route: AggregatedRoute): DEXQuote[] {
+        if (route.executionStrategy === 'SPLIT' && route.splitLegs) {
+            return route.splitLegs.map(leg => leg.quote);
+        }
+        if (route.executionStrategy === 'ROUTE' && route.routeHops) {
+            return route.routeHops;
+        }
+        return [route.bestQuote];
+    }
+
+    /**
+     * 获取路由使用的 WSOL 包装方式
+     * 路由中有协议只使用关联代币账户时 (如 Jupiter)，原生SOL必须包装到 WSOL 关联代币账户，不使用临时账户
+     * @param route 聚合路由结果
+     * @returns 包装方式
+     */
+    private _getWsolMode(route: AggregatedRoute): typeof WSOL_CONFIG.MODE {
+        const usesAssociatedTokenAccounts = this._getExecutedQuotes(route)
+            .some(quote => this._protocols.find(p => p.name === quote.dexName)?.usesAssociatedTokenAccounts);
+        return usesAssociatedTokenAccounts ? 'ata' : WSOL_CONFIG.MODE;
+    }
+
+    /**
+     * 获取交换两端代币的mint信息，不可转让的代币拒绝交换
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @returns 输入和输出代币的mint信息
+     */
+    private async _getSwappableMints(tokenA: PublicKey, tokenB: PublicKey): Promise<TokenMintInfo[]> {
+        const mints = await this._mintRegistry.getMintInfos([tokenA, tokenB]);
+        mints.forEach(mint => this._mintRegistry.assertSwappable(mint));
+        return mints;
+    }
+
+    /**
+     * 通过缓存获取路由，未命中时聚合报价并为所有报价标记slot和报价时间
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param amount 指定的金额
+     * @param slippage 滑点容忍度
+     * @param swapMode 报价模式
+     * @param forceRefresh 是否忽略缓存
+     * @param aggregate 聚合报价函数
+     * @returns 聚合路由结果
+     */
+    private async _getCachedRoute(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number,
+        swapMode: SwapMode,
+        forceRefresh: boolean,
+        aggregate: () => Promise<AggregatedRoute>
+    ): Promise<AggregatedRoute> {
+        if (!forceRefresh) {
+            const cached = this._quoteCache.get(tokenA, tokenB, amount, slippage, swapMode);
+            if (cached) {
+                console.log(`♻️ 使用缓存报价: ${cached.recommendedDEX} (${this.getQuoteAge(cached)}ms 前, slot ${cached.bestQuote.slot ?? '未知'})`);
+                return cached;
+            }
+        }
+
+        // 报价开始前的slot和时间作为保守的报价时间戳
+        const fetchedAt = Date.now();
+        const slotPromise = this._connection.getSlot().catch(() => undefined);
+
+        const route = await aggregate();
+        this._stampRoute(route, await slotPromise, fetchedAt);
+        this._quoteCache.set(tokenA, tokenB, amount, slippage, swapMode, route);
+
+        return route;
+    }
+
+    /**
+     * 为路由中未携带时间戳的报价标记slot和报价时间
+     * 拆单和多跳的汇总报价取各组成报价中最早的时间戳
+     * @param route 聚合路由结果
+     * @param slot 聚合开始时的slot
+     * @param fetchedAt 聚合开始时间
+     */
+    private _stampRoute(route: AggregatedRoute, slot: number | undefined, fetchedAt: number): void {
+        const stamp = (quote: DEXQuote) => {
+            quote.slot = quote.slot ?? slot;
+            quote.fetchedAt = quote.fetchedAt ?? fetchedAt;
+        };
+
+        route.allQuotes.forEach(stamp);
+        route.splitLegs?.forEach(leg => stamp(leg.quote));
+        route.routeHops?.forEach(stamp);
+
+        const components = route.splitLegs?.map(leg => leg.quote) ?? route.routeHops ?? [];
+        if (components.length === 0) {
+            stamp(route.bestQuote);
+            return;
+        }
+
+        const slots = components.map(quote => quote.slot).filter((value): value is number => value !== undefined);
+        route.bestQuote.slot = slots.length > 0 ? Math.min(...slots) : slot;
+        route.bestQuote.fetchedAt = Math.min(...components.map(quote => quote.fetchedAt!));
+    }
+
+    /**
+     * 确保路由实际执行的报价未过期
+     * 单一DEX路由检查最佳报价，拆单路由检查每个分腿，多跳路由检查每一跳。任一报价过期时按 STALE_QUOTE_POLICY
+     * 拒绝执行或重新报价: 单一DEX和拆单逐个报价重新获取，多跳路由以上一跳的新输出作为下一跳的输入重新获取整条路径，
+     * 并更新路由中的报价；重新报价的结果超出原报价的滑点容忍范围时同样拒绝执行
+     * @param route 聚合路由结果
+     */
+    private async _ensureFreshRoute(route: AggregatedRoute): Promise<void> {
+        const currentSlot = await this._connection.getSlot();
+        const staleness = this._getExecutedQuotes(route)
+            .map(quote => this._describeStaleness(quote, currentSlot))
+            .find((reason): reason is string => reason !== null);
+        if (!staleness) {
+            return;
+        }
+
+        console.log(`⏰ 报价已过期: ${staleness}`);
+        if (QUOTE_STALENESS_CONFIG.STALE_QUOTE_POLICY === 'reject') {
+            throw new Error(`报价已过期 (${staleness})，请重新获取报价`);
+        }
+
+        const quote = route.bestQuote;
+        this._quoteCache.invalidate(quote.route[0], quote.route[quote.route.length - 1]);
+
+        if (route.executionStrategy === 'SPLIT' && route.splitLegs) {
+            const freshQuotes = await Promise.all(route.splitLegs.map(async leg => {
+                const freshQuote = await this._requote(leg.quote, route.slippage, currentSlot);
+                this._assertWithinSlippage(leg.quote, freshQuote, route.slippage);
+                return freshQuote;
+            }));
+            route.splitLegs = route.splitLegs.map((leg, i) => ({ ...leg, quote: freshQuotes[i] }));
+            route.bestQuote = {
+                ...quote,
+                outputAmount: freshQuotes.reduce((sum, freshQuote) => sum.add(freshQuote.outputAmount), new BN(0)),
+                slot: Math.min(...freshQuotes.map(freshQuote => freshQuote.slot!)),
+                fetchedAt: Math.min(...freshQuotes.map(freshQuote => freshQuote.fetchedAt!))
+            };
+        } else if (route.executionStrategy === 'ROUTE' && route.routeHops) {
+            const hops = route.routeHops;
+            const freshHops: DEXQuote[] = [];
+            let inputAmount = hops[0].inputAmount;
+            for (let i = 0; i < hops.length; i++) {
+                const freshHop = await this._requote(hops[i], route.slippage, currentSlot, inputAmount, i === 0, i === hops.length - 1);
+                freshHops.push(freshHop);
+                // 与路由搜索一致，下一跳使用扣除滑点后的最小输出，避免中间代币余额不足
+                inputAmount = calculateMinimumOutputAmount(freshHop.outputAmount, route.slippage);
+            }
+            // 各跳的新输入随上一跳变化，只按整条路径的最终输出检查滑点
+            const lastHop = freshHops[freshHops.length - 1];
+            this._assertWithinSlippage(hops[hops.length - 1], lastHop, route.slippage);
+            route.routeHops = freshHops;
+            route.intermediateDust = this._getIntermediateDust(freshHops);
+            route.bestQuote = {
+                ...quote,
+                outputAmount: lastHop.outputAmount,
+                slot: Math.min(...freshHops.map(hop => hop.slot!)),
+                fetchedAt: Math.min(...freshHops.map(hop => hop.fetchedAt!))
+            };
+        } else {
+            const freshQuote = await this._requote(quote, route.slippage, currentSlot);
+            this._assertWithinSlippage(quote, freshQuote, route.slippage);
+            route.bestQuote = freshQuote;
+        }
+
+        console.log(`🔄 已重新报价: 输入 ${route.bestQuote.inputAmount.toString()}，输出 ${route.bestQuote.outputAmount.toString()} (slot ${route.bestQuote.slot})`);
+    }
+
+    /**
+     * 使用产生报价的协议重新获取同一报价
+     * @param quote 过期的报价
+     * @param slippage 滑点容忍度
+     * @param currentSlot 当前slot (协议未返回slot时使用)
+     * @param inputAmount 精确输入金额，默认为原报价的输入 (多跳路由的后续各跳为上一跳的新输出)
+     * @param chargeInput 是否扣除输入代币的转账费 (多跳路由只对首跳扣除)
+     * @param chargeOutput 是否扣除输出代币的转账费 (多跳路由只对末跳扣除)
+     * @returns 新报价
+     */
+    private async _requote(
+        quote: DEXQuote,
+        slippage: number,
+        currentSlot: number,
+        inputAmount: BN = quote.inputAmount,
+        chargeInput: boolean = true,
+        chargeOutput: boolean = true
+    ): Promise<DEXQuote> {
+        const protocol = this._protocols.find(p => p.name === quote.dexName);
+        if (!protocol) {
+            throw new Error(`未找到协议: ${quote.dexName}`);
+        }
+
+        const [tokenA, tokenB] = [quote.route[0], quote.route[quote.route.length - 1]];
+        const fetchedAt = Date.now();
+        const [inputMint, outputMint] = await this._mintRegistry.getMintInfos([tokenA, tokenB]);
+        let freshQuote: DEXQuote;
+        if (quote.swapMode === 'ExactOut') {
+            if (!protocol.getQuoteExactOut) {
+                throw new Error(`${protocol.name} 不支持精确输出报价`);
+            }
+            freshQuote = await this._healthMonitor.execute(protocol.name,
+                () => protocol.getQuoteExactOut!(tokenA, tokenB, quote.outputAmount, slippage));
+        } else {
+            freshQuote = await this._healthMonitor.execute(protocol.name,
+                () => protocol.getQuote(tokenA, tokenB, inputAmount, slippage));
+        }
+        if (!protocol.quotesIncludeTransferFees) {
+            this._applyQuoteTransferFees(freshQuote, chargeInput ? inputMint : undefined, chargeOutput ? outputMint : undefined);
+        }
+
+        freshQuote.slot = freshQuote.slot ?? currentSlot;
+        freshQuote.fetchedAt = freshQuote.fetchedAt ?? fetchedAt;
+        return freshQuote;
+    }
+
+    /**
+     * 检查重新报价的结果是否在原报价的滑点容忍范围内
+     * 精确输入要求新输出不低于原输出按滑点放宽后的下限，精确输出要求新输入不超过原输入按滑点放宽后的上限
+     * @param quote 原报价
+     * @param freshQuote 重新获取的报价
+     * @param slippage 滑点容忍度
+     */
+    private _assertWithinSlippage(quote: DEXQuote, freshQuote: DEXQuote, slippage: number): void {
+        if (quote.swapMode === 'ExactOut') {
+            const maxAcceptable = quote.inputAmount.muln(Math.floor((1 + slippage) * 10000)).divn(10000);
+            if (freshQuote.inputAmount.gt(maxAcceptable)) {
+                throw new Error(`重新报价所需输入 ${freshQuote.inputAmount.toString()} 超出原报价的滑点范围 (上限 ${maxAcceptable.toString()})`);
+            }
+            return;
+        }
+
+        const minAcceptable = quote.outputAmount.muln(Math.floor((1 - slippage) * 10000)).divn(10000);
+        if (freshQuote.outputAmount.lt(minAcceptable)) {
+            throw new Error(`重新报价输出 ${freshQuote.outputAmount.toString()} 超出原报价的滑点范围 (下限 ${minAcceptable.toString()})`);
+        }
+    }
+
+    /**
+     * 判断报价是否过期
+     * @param quote 报价
+     * @param currentSlot 当前slot
+     * @returns 过期原因，未过期时返回 null
+     */
+    private _describeStaleness(quote: DEXQuote, currentSlot: number): string | null {
+        if (quote.fetchedAt === undefined) {
+            return "报价缺少时间戳";
+        }
+
+        const age = Date.now() - quote.fetchedAt;
+        if (age > QUOTE_STALENESS_CONFIG.MAX_QUOTE_AGE_MS) {
+            return `报价年龄 ${age}ms 超过 ${QUOTE_STALENESS_CONFIG.MAX_QUOTE_AGE_MS}ms`;
+        }
+
+        if (quote.slot !== undefined && currentSlot - quote.slot > QUOTE_STALENESS_CONFIG.MAX_SLOT_LAG) {
+            return `报价落后 ${currentSlot - quote.slot} 个slot，超过 ${QUOTE_STALENESS_CONFIG.MAX_SLOT_LAG}`;
+        }
+
+        return null;
+    }
+
+    /**
+     * 合并拆单分腿为一个汇总报价
+     * @param legs 拆单分腿
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param amount 总输入金额
+     * @returns 汇总报价
+     */
+    private _combineSplitQuotes(
+        legs: SplitLeg[],
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN
+    ): DEXQuote {
+        return {
+            dexName: legs.map(leg => leg.quote.dexName).join('+'),
+            inputAmount: amount,
+            outputAmount: legs.reduce((sum, leg) => sum.add(leg.quote.outputAmount), new BN(0)),
+            priceImpact: legs.reduce((sum, leg) => sum + leg.quote.priceImpact * leg.ratio, 0),
+            fee: legs.reduce((sum, leg) => sum.add(leg.quote.fee), new BN(0)),
+            route: [tokenA, tokenB],
+            estimatedGas: legs.reduce((sum, leg) => sum + leg.quote.estimatedGas, 0),
+            confidence: Math.min(...legs.map(leg => leg.quote.confidence))
+        };
+    }
+
+    /**
+     * 构建多跳路由的链式交换指令
+     * 每一跳的输出账户即为下一跳的输入账户，所有指令在同一笔交易中顺序执行
+     * @param hops 每一跳的报价
+     * @param userWallet 用户钱包地址
+     * @param tokenAccountA 输入代币账户地址
+     * @param tokenAccountB 输出代币账户地址
+     * @returns 交换指令及其地址查找表
+     */
+    private async _buildRouteSwaps(
+        hops: DEXQuote[],
+        userWallet: PublicKey,
+        tokenAccountA: PublicKey,
+        tokenAccountB: PublicKey
+    ): Promise<SwapInstructionResult[]> {
+        console.log(`🚀 执行多跳交换: ${hops.length} 跳`);
+
+        const swaps: SwapInstructionResult[] = [];
+
+        for (let i = 0; i < hops.length; i++) {
+            const hop = hops[i];
+            const protocol = this._protocols.find(p => p.name === hop.dexName);
+            if (!protocol) {
+                throw new Error(`未找到协议: ${hop.dexName}`);
+            }
+
+            const [hopIn, hopOut] = [hop.route[0], hop.route[hop.route.length - 1]];
+            const inputAccount = i === 0 ? tokenAccountA : await this._mintRegistry.getAssociatedTokenAddress(hopIn, userWallet);
+            const outputAccount = i === hops.length - 1 ? tokenAccountB : await this._mintRegistry.getAssociatedTokenAddress(hopOut, userWallet);
+
+            console.log(`   第 ${i + 1} 跳: ${protocol.name} ${hopIn.toBase58().slice(0, 8)}... → ${hopOut.toBase58().slice(0, 8)}...`);
+
+            swaps.push(await this._buildProtocolSwap(protocol, hop, userWallet, inputAccount, outputAccount));
+        }
+
+        return swaps;
+    }
+
+    /**
+     * 计算多跳路由留在中间代币账户中的余额 (上一跳的报价输出减去下一跳的输入)
+     * @param hops 每一跳的报价
+     * @returns 每个中间代币的剩余余额
+     */
+    private _getIntermediateDust(hops: DEXQuote[]): IntermediateDust[] {
+        const dust = hops.slice(0, -1).map((hop, i) => ({
+            mint: hop.route[hop.route.length - 1],
+            amount: BN.max(hop.outputAmount.sub(hops[i + 1].inputAmount), new BN(0))
+        }));
+        dust.filter(({ amount }) => !amount.isZero()).forEach(({ mint, amount }) =>
+            console.log(`🧹 中间代币 ${mint.toBase58().slice(0, 8)}... 预计剩余 ${amount.toString()} (留在代币所有者的关联代币账户中)`));
+        return dust;
+    }
+
+    /**
+     * 合并多跳路由的逐跳报价为一个汇总报价
+     * 各跳手续费以不同代币计价，汇总报价仅记录首跳 (输入代币计价) 的手续费，
+     * 后续各跳的手续费已体现在输出金额中
+     * @param hops 每一跳的报价
+     * @param amount 输入金额
+     * @returns 汇总报价
+     */
+    private _combineRouteQuotes(hops: DEXQuote[], amount: BN): DEXQuote {
+        const lastHop = hops[hops.length - 1];
+
+        return {
+            dexName: hops.map(hop => hop.dexName).join('→'),
+            inputAmount: amount,
+            outputAmount: lastHop.outputAmount,
+            priceImpact: 1 - hops.reduce((product, hop) => product * (1 - hop.priceImpact), 1),
+            fee: hops[0].fee,
+            route: [hops[0].route[0], ...hops.map(hop => hop.route[hop.route.length - 1])],
+            estimatedGas: hops.reduce((sum, hop) => sum + hop.estimatedGas, 0),
+            confidence: Math.min(...hops.map(hop => hop.confidence))
+        };
+    }
+
+    /**
+     * 包装协议，使其报价扣除 Token-2022 转账费
+     * 报价已计入转账费的协议原样返回；其余协议的报价在返回前调整，排序、拆单和多跳路由使用同一口径的金额。
+     * 精确输出按含输出转账费的金额询价，池子多转出的部分在到账前被扣除
+     * 输入代币只在转入池子的一跳收取，输出代币只在转出池子的一跳收取
+     * @param protocols 参与报价的协议
+     * @param inputMint 输入代币mint信息
+     * @param outputMint 输出代币mint信息
+     * @returns 报价扣除转账费后的协议
+     */
+    private _chargeTransferFees(protocols: DEXProtocol[], inputMint: TokenMintInfo, outputMint: TokenMintInfo): DEXProtocol[] {
+        if (!inputMint.transferFee && !outputMint.transferFee) {
+            return protocols;
+        }
+
+        const chargedMints = (tokenA: PublicKey, tokenB: PublicKey): [TokenMintInfo | undefined, TokenMintInfo | undefined] => [
+            tokenA.equals(inputMint.mint) ? inputMint : undefined,
+            tokenB.equals(outputMint.mint) ? outputMint : undefined
+        ];
+
+        return protocols.map((protocol): DEXProtocol => protocol.quotesIncludeTransferFees ? protocol : {
+            name: protocol.name,
+            programId: protocol.programId,
+            usesAssociatedTokenAccounts: protocol.usesAssociatedTokenAccounts,
+            getQuote: async (tokenA, tokenB, amount, slippage) => {
+                const quote = await protocol.getQuote(tokenA, tokenB, amount, slippage);
+                this._applyQuoteTransferFees(quote, ...chargedMints(tokenA, tokenB));
+                return quote;
+            },
+            getQuoteExactOut: protocol.getQuoteExactOut
+                ? async (tokenA, tokenB, outputAmount, slippage) => {
+                    const [chargedInput, chargedOutput] = chargedMints(tokenA, tokenB);
+                    const poolOutputAmount = calculatePreFeeAmount(outputAmount, chargedOutput?.transferFee);
+                    const quote = await protocol.getQuoteExactOut!(tokenA, tokenB, poolOutputAmount, slippage);
+                    this._applyQuoteTransferFees(quote, chargedInput, chargedOutput);
+                    return quote;
+                }
+                : undefined,
+            buildSwapInstruction: (quote, userWallet, tokenAccountA, tokenAccountB, tokens) =>
+                protocol.buildSwapInstruction(quote, userWallet, tokenAccountA, tokenAccountB, tokens),
+            buildSwapInstructionWithLookupTables: protocol.buildSwapInstructionWithLookupTables
+                ? (quote, userWallet, tokenAccountA, tokenAccountB, tokens) =>
+                    protocol.buildSwapInstructionWithLookupTables!(quote, userWallet, tokenAccountA, tokenAccountB, tokens)
+                : undefined,
+            findPool: protocol.findPool
+                ? (tokenA, tokenB) => protocol.findPool!(tokenA, tokenB)
+                : undefined
+        });
+    }
+
+    /**
+     * 输出最佳报价的 Token-2022 转账费
+     * @param route 聚合路由结果
+     */
+    private _logTransferFees(route: AggregatedRoute): void {
+        const { transferFees } = route.bestQuote;
+        if (transferFees) {
+            console.log(`💸 Token-2022 转账费: 输入 ${transferFees.input.toString()}，输出 ${transferFees.output.toString()}`);
+        }
+    }
+
+    /**
+     * 按 Token-2022 转账费调整单个报价
+     * @param quote 报价 (原地修改)
+     * @param inputMint 转入池子的代币mint信息，不收取输入转账费时为 undefined
+     * @param outputMint 转出池子的代币mint信息，不收取输出转账费时为 undefined
+     */
+    private _applyQuoteTransferFees(quote: DEXQuote, inputMint?: TokenMintInfo, outputMint?: TokenMintInfo): void {
+        const inputFee = inputMint?.transferFee;
+        const outputFee = outputMint?.transferFee;
+        if (!inputFee && !outputFee) {
+            return;
+        }
+
+        if (quote.swapMode === 'ExactOut') {
+            const inputAmount = calculatePreFeeAmount(quote.inputAmount, inputFee);
+            quote.transferFees = {
+                input: inputAmount.sub(quote.inputAmount),
+                output: calculateTransferFee(quote.outputAmount, outputFee)
+            };
+            quote.inputAmount = inputAmount;
+            if (quote.maxInputAmount) {
+                quote.maxInputAmount = calculatePreFeeAmount(quote.maxInputAmount, inputFee);
+            }
+            return;
+        }
+
+        const input = calculateTransferFee(quote.inputAmount, inputFee);
+        const poolOutput = quote.inputAmount.isZero()
+            ? quote.outputAmount
+            : quote.outputAmount.mul(quote.inputAmount.sub(input)).div(quote.inputAmount);
+        const output = calculateTransferFee(poolOutput, outputFee);
+        quote.transferFees = { input, output };
+        quote.outputAmount = poolOutput.sub(output);
+    }
+
+    /**
+     * 获取报价两端的代币信息，供协议按代币程序构建交换指令并解析转账钩子账户
+     * @param quote 执行的报价 (多跳路由为单跳报价)
+     * @returns 交换指令的代币信息
+     */
+    private async _getSwapTokens(quote: DEXQuote): Promise<SwapTokenContext> {
+        const [inputMint, outputMint] = await this._mintRegistry.getMintInfos([quote.route[0], quote.route[quote.route.length - 1]]);
+        return {
+            inputMint,
+            outputMint,
+            resolveTransferHookAccounts: (mint, source, destination, owner, amount) =>
+                this._mintRegistry.getTransferHookAccounts(mint, source, destination, owner, amount)
+        };
+    }
+
+    /**
+     * 构建交换的全部指令并统计代币账户的租金收支
+     * @param route 聚合路由结果
+     * @param userWallet 用户钱包地址 (代币所有者)
+     * @param tokenMintA 输入代币mint地址
+     * @param tokenMintB 输出代币mint地址
+     * @param feePayer 新建代币账户的租金支付者
+     * @returns 交易指令 (预处理、交换、收尾) 和租金收支
+     */
+    private async _buildSwapInstructionSet(
+        route: AggregatedRoute,
+        userWallet: PublicKey,
+        tokenMintA: PublicKey,
+        tokenMintB: PublicKey,
+        feePayer: PublicKey
+    ): Promise<{ instructions: TransactionInstruction[]; accountRent: AccountRentSummary; lookupTableAddresses: PublicKey[] }> {
         console.log("🔧 构建完整的交换交易...");
         
         const instructions: TransactionInstruction[] = [];
+        const cleanup: TransactionInstruction[] = [];
+        const accountRent: AccountRentSummary = { paidLamports: 0, refundedLamports: 0, ownerRefundedLamports: 0, accountsCreated: 0, accountsClosed: 0 };
+        const [mintInfoA, mintInfoB] = await this._getSwappableMints(tokenMintA, tokenMintB);
         
-        // 获取代币账户地址
-        const tokenAccountA = await getAssociatedTokenAddress(tokenMintA, userWallet);
-        const tokenAccountB = await getAssociatedTokenAddress(tokenMintB, userWallet);
+        // 准备代币账户 (原生SOL按 WSOL_CONFIG 包装，输入代币为 A，输出代币为 B)
+        const tokenAccountA = await this._prepareTokenAccount(instructions, cleanup, accountRent, userWallet, feePayer, mintInfoA, route, true);
+        const tokenAccountB = await this._prepareTokenAccount(instructions, cleanup, accountRent, userWallet, feePayer, mintInfoB, route, false);
         
         console.log(`   代币账户A: ${tokenAccountA.toBase58()}`);
         console.log(`   代币账户B: ${tokenAccountB.toBase58()}`);
-
-        // 检查并创建代币账户A
-        await this._ensureTokenAccount(
-            instructions, 
-            userWallet, 
-            tokenAccountA, 
-            tokenMintA, 
-            route,
-            true // 是输入代币
-        );
-
-        // 检查并创建代币账户B
-        await this._ensureTokenAccount(
-            instructions, 
-            userWallet, 
-            tokenAccountB, 
-            tokenMintB, 
-            route,
-            false // 是输出代币
-        );
         
-        // 添加交换指令
-        const swapIx = await this.executeOptimalSwap(
-            route,
-            userWallet,
-            tokenAccountA,
-            tokenAccountB
-        );
-        instructions.push(swapIx);
+        // 多跳路由: 确保每个中间代币的账户存在 (中间代币不包装)
+        const intermediateMints = route.executionStrategy === 'ROUTE' ? route.bestQuote.route.slice(1, -1) : [];
+        for (const mintInfo of await this._mintRegistry.getMintInfos(intermediateMints)) {
+            this._mintRegistry.assertSwappable(mintInfo);
+            const intermediateAccount = await this._mintRegistry.getAssociatedTokenAddress(mintInfo.mint, userWallet);
+            await this._ensureTokenAccount(instructions, accountRent, userWallet, feePayer, intermediateAccount, mintInfo);
+        }
         
+        // 添加交换指令 (拆单时每个分腿一个指令，多跳时每一跳一个指令)，合并各指令需要的地址查找表
+        const swaps = await this._buildSwaps(route, userWallet, tokenAccountA, tokenAccountB);
+        instructions.push(...swaps.map(swap => swap.instruction), ...cleanup);
+        const lookupTableAddresses = new Map<string, PublicKey>();
+        for (const address of swaps.flatMap(swap => swap.lookupTableAddresses)) {
+            lookupTableAddresses.set(address.toBase58(), address);
+        }
+
+        if (accountRent.accountsCreated > 0 || accountRent.accountsClosed > 0) {
+            console.log(`🏦 账户租金: 支付 ${accountRent.paidLamports} lamports (${accountRent.accountsCreated} 个账户)，` +
+                `退回 ${accountRent.refundedLamports} lamports (${accountRent.accountsClosed} 个账户)`);
+        }
         console.log(`✅ 完整交易构建完成，共 ${instructions.length} 个指令`);
-        return instructions;
+        return { instructions, accountRent, lookupTableAddresses: [...lookupTableAddresses.values()] };
+    }
+
+    /**
+     * 准备交换两端的代币账户
+     * 非原生SOL使用关联代币账户 (不存在时创建)；原生SOL按 WSOL_CONFIG 使用临时 WSOL 账户或 WSOL 关联代币账户
+     * @param instructions 预处理指令数组
+     * @param cleanup 交换后执行的收尾指令数组
+     * @param accountRent 租金收支
+     * @param userWallet 用户钱包地址 (代币账户所有者)
+     * @param feePayer 关联代币账户的租金支付者
+     * @param mintInfo 代币mint信息
+     * @param route 路由信息
+     * @param isInputToken 是否为输入代币
+     * @returns 交换使用的代币账户地址
+     */
+    private async _prepareTokenAccount(
+        instructions: TransactionInstruction[],
+        cleanup: TransactionInstruction[],
+        accountRent: AccountRentSummary,
+        userWallet: PublicKey,
+        feePayer: PublicKey,
+        mintInfo: TokenMintInfo,
+        route: AggregatedRoute,
+        isInputToken: boolean
+    ): Promise<PublicKey> {
+        if (!mintInfo.mint.equals(NATIVE_MINT)) {
+            const tokenAccount = await this._mintRegistry.getAssociatedTokenAddress(mintInfo.mint, userWallet);
+            await this._ensureTokenAccount(instructions, accountRent, userWallet, feePayer, tokenAccount, mintInfo);
+            return tokenAccount;
+        }
+
+        // 输入为SOL时包装报价的输入金额 (精确输出模式按最大输入包装，多余部分关闭账户时退回)
+        const wrapLamports = isInputToken
+            ? BigInt((route.bestQuote.maxInputAmount ?? route.bestQuote.inputAmount).toString())
+            : BigInt(0);
+
+        if (this._getWsolMode(route) === 'ephemeral') {
+            return await this._createEphemeralWsolAccount(instructions, cleanup, accountRent, userWallet, feePayer, wrapLamports);
+        }
+
+        const tokenAccount = await this._mintRegistry.getAssociatedTokenAddress(NATIVE_MINT, userWallet);
+        const existing = await this._ensureTokenAccount(instructions, accountRent, userWallet, feePayer, tokenAccount, mintInfo);
+
+        if (isInputToken) {
+            // 复用已有的 WSOL 余额，只转入差额
+            const balance = existing ? existing.amount : BigInt(0);
+            if (balance >= wrapLamports) {
+                console.log(`💰 WSOL 余额充足: ${balance.toString()} lamports`);
+            } else {
+                console.log(`💰 补足 WSOL 余额: 转入 ${(wrapLamports - balance).toString()} lamports (现有 ${balance.toString()})`);
+                instructions.push(
+                    SystemProgram.transfer({ fromPubkey: userWallet, toPubkey: tokenAccount, lamports: wrapLamports - balance }),
+                    createSyncNativeInstruction(tokenAccount)
+                );
+            }
+        } else if (WSOL_CONFIG.UNWRAP_OUTPUT) {
+            // 交换后关闭账户，WSOL 余额和租金一起解包给代币所有者
+            console.log(`🔓 交换后解包 WSOL 并关闭账户: ${tokenAccount.toBase58()}`);
+            cleanup.push(createCloseAccountInstruction(tokenAccount, userWallet, userWallet));
+            accountRent.accountsClosed++;
+            if (existing) {
+                accountRent.ownerRefundedLamports += Number(existing.rentExemptReserve ?? await this._getRentExemption(mintInfo.tokenAccountSize));
+            } else {
+                // 本交易由手续费支付者创建的账户，租金从代币所有者转回手续费支付者
+                const rent = await this._getRentExemption(mintInfo.tokenAccountSize);
+                this._refundRent(cleanup, userWallet, feePayer, rent);
+                accountRent.refundedLamports += rent;
+            }
+        }
+
+        return tokenAccount;
+    }
+
+    /**
+     * 创建临时 WSOL 账户
+     * 由手续费支付者以自身为基础地址通过 createAccountWithSeed 创建并支付租金，代币所有者转入包装金额后初始化 (余额即为转入的 lamports)；
+     * 交换后关闭到代币所有者 (剩余的 WSOL 和交换所得不经过手续费支付者)，租金再转回手续费支付者
+     * @param instructions 预处理指令数组
+     * @param cleanup 交换后执行的收尾指令数组
+     * @param accountRent 租金收支
+     * @param userWallet 用户钱包地址 (临时账户的所有者和包装金额的出资者)
+     * @param feePayer 临时账户的基础地址和租金支付者
+     * @param wrapLamports 包装的 lamports (输出账户为0)
+     * @returns 临时 WSOL 账户地址
+     */
+    private async _createEphemeralWsolAccount(
+        instructions: TransactionInstruction[],
+        cleanup: TransactionInstruction[],
+        accountRent: AccountRentSummary,
+        userWallet: PublicKey,
+        feePayer: PublicKey,
+        wrapLamports: bigint
+    ): Promise<PublicKey> {
+        const seed = `wsol-${randomBytes(8).toString('hex')}`;
+        const tokenAccount = await PublicKey.createWithSeed(feePayer, seed, TOKEN_PROGRAM_ID);
+        const rent = await this._getRentExemption(ACCOUNT_SIZE);
+
+        console.log(`💰 创建临时 WSOL 账户: ${tokenAccount.toBase58()} (包装 ${wrapLamports.toString()} lamports)`);
+
+        instructions.push(SystemProgram.createAccountWithSeed({
+            fromPubkey: feePayer,
+            newAccountPubkey: tokenAccount,
+            basePubkey: feePayer,
+            seed,
+            lamports: rent,
+            space: ACCOUNT_SIZE,
+            programId: TOKEN_PROGRAM_ID
+        }));
+        if (wrapLamports > BigInt(0)) {
+            instructions.push(SystemProgram.transfer({ fromPubkey: userWallet, toPubkey: tokenAccount, lamports: wrapLamports }));
+        }
+        instructions.push(createInitializeAccount3Instruction(tokenAccount, NATIVE_MINT, userWallet));
+        cleanup.push(createCloseAccountInstruction(tokenAccount, userWallet, userWallet));
+        this._refundRent(cleanup, userWallet, feePayer, rent);
+
+        accountRent.paidLamports += rent;
+        accountRent.refundedLamports += rent;
+        accountRent.accountsCreated++;
+        accountRent.accountsClosed++;
+
+        return tokenAccount;
+    }
+
+    /**
+     * 将关闭账户时退回代币所有者的租金转回手续费支付者 (两者相同时不需要)
+     * @param cleanup 交换后执行的收尾指令数组 (追加在关闭指令之后)
+     * @param userWallet 代币所有者 (关闭账户的接收者)
+     * @param feePayer 支付租金的手续费支付者
+     * @param rent 租金 (lamports)
+     */
+    private _refundRent(cleanup: TransactionInstruction[], userWallet: PublicKey, feePayer: PublicKey, rent: number): void {
+        if (!feePayer.equals(userWallet)) {
+            cleanup.push(SystemProgram.transfer({ fromPubkey: userWallet, toPubkey: feePayer, lamports: rent }));
+        }
     }
 
     /**
      * 确保代币账户存在，如果不存在则创建
      * @param instructions 指令数组
-     * @param userWallet 用户钱包地址
+     * @param accountRent 租金收支
+     * @param userWallet 用户钱包地址 (代币账户所有者)
+     * @param feePayer 租金支付者
      * @param tokenAccount 代币账户地址
-     * @param tokenMint 代币mint地址
-     * @param route 路由信息
-     * @param isInputToken 是否为输入代币
+     * @param mintInfo 代币mint信息 (决定代币账户所属的代币程序)
+     * @returns 已存在的代币账户，新建时返回 null
      */
     private async _ensureTokenAccount(
         instructions: TransactionInstruction[],
+        accountRent: AccountRentSummary,
         userWallet: PublicKey,
+        feePayer: PublicKey,
         tokenAccount: PublicKey,
-        tokenMint: PublicKey,
-        route: AggregatedRoute,
-        isInputToken: boolean
-    ): Promise<void> {
+        mintInfo: TokenMintInfo
+    ): Promise<Account | null> {
         try {
-            await getAccount(this._connection, tokenAccount);
+            const account = await getAccount(this._connection, tokenAccount, undefined, mintInfo.programId);
             console.log(`✅ 代币账户已存在: ${tokenAccount.toBase58()}`);
+            return account;
         } catch (error) {
             console.log(`🔨 创建代币账户: ${tokenAccount.toBase58()}`);
             
             // 创建关联代币账户
             const createAccountIx = createAssociatedTokenAccountInstruction(
-                userWallet,     // 付费者
+                feePayer,       // 付费者
                 tokenAccount,   // 要创建的代币账户地址
                 userWallet,     // 代币账户所有者
-                tokenMint,      // 代币mint
-                TOKEN_PROGRAM_ID,
+                mintInfo.mint,  // 代币mint
+                mintInfo.programId,
                 ASSOCIATED_TOKEN_PROGRAM_ID
             );
             instructions.push(createAccountIx);
-            
-            // 如果是SOL代币且是输入代币，需要包装SOL
-            if (tokenMint.equals(NATIVE_MINT) && isInputToken) {
-                console.log(`💰 包装 SOL 到 WSOL 账户`);
-                
-                // 转移SOL到WSOL账户
-                const transferIx = SystemProgram.transfer({
-                    fromPubkey: userWallet,
-                    toPubkey: tokenAccount,
-                    lamports: route.bestQuote.inputAmount.toNumber(),
-                });
-                instructions.push(transferIx);
-                
-                // 同步原生代币
-                const syncIx = createSyncNativeInstruction(tokenAccount);
-                instructions.push(syncIx);
-            }
+
+            accountRent.paidLamports += await this._getRentExemption(mintInfo.tokenAccountSize);
+            accountRent.accountsCreated++;
+            return null;
+        }
+    }
+
+    /**
+     * 获取账户的免租金额 (按账户大小缓存)
+     * @param size 账户大小 (字节)
+     */
+    private async _getRentExemption(size: number): Promise<number> {
+        let rent = this._rentExemptions.get(size);
+        if (rent === undefined) {
+            rent = await this._connection.getMinimumBalanceForRentExemption(size);
+            this._rentExemptions.set(size, rent);
         }
+        return rent;
     }
 }
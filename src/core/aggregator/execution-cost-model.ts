@@ -0,0 +1,88 @@
+import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+
+import { DEXQuote, PriceSource, QuoteCostBreakdown } from "../../types/dex/protocol";
+import { EXECUTION_COST_CONFIG } from "../../config/dex-config";
+
+/**
+ * 成本估算选项
+ */
+export interface CostEstimateOptions {
+    /** 需要新建的代币账户数量 */
+    newTokenAccounts?: number;
+
+    /** 是否计入 Jito 小费 */
+    includeTip?: boolean;
+}
+
+/**
+ * 执行成本模型
+ * 将网络费、优先费、账户租金和 Jito 小费折算为输出代币，计算报价的净输出
+ */
+export class ExecutionCostModel {
+    private _priceSource: PriceSource;
+    private _config: typeof EXECUTION_COST_CONFIG;
+
+    /**
+     * 构造函数
+     * @param priceSource 价格源
+     * @param config 执行成本模型配置
+     */
+    constructor(priceSource: PriceSource, config: typeof EXECUTION_COST_CONFIG = EXECUTION_COST_CONFIG) {
+        this._priceSource = priceSource;
+        this._config = config;
+    }
+
+    /**
+     * 获取 SOL 价格
+     * @param mint 输出代币mint地址
+     * @returns 每 lamport 可兑换的输出代币最小单位数量，无法获取时返回 null
+     */
+    async getSolPrice(mint: PublicKey): Promise<number | null> {
+        try {
+            return await this._priceSource.getSolPrice(mint);
+        } catch (error) {
+            console.log(`⚠️ 无法获取 SOL 价格，执行成本不折算为输出代币: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * 估算报价的执行成本
+     * @param quote 报价
+     * @param solPrice SOL 价格，为 null 时不折算，净输出等于输出金额
+     * @param options 成本估算选项
+     * @returns 执行成本明细
+     */
+    estimate(quote: DEXQuote, solPrice: number | null, options: CostEstimateOptions = {}): QuoteCostBreakdown {
+        const newTokenAccounts = options.newTokenAccounts ?? 0;
+
+        const networkFeeLamports = new BN(this._config.BASE_FEE_LAMPORTS);
+        const priorityFeeLamports = new BN(Math.ceil(quote.estimatedGas * this._config.PRIORITY_FEE_MICRO_LAMPORTS_PER_CU / 1_000_000));
+        const accountRentLamports = new BN(this._config.TOKEN_ACCOUNT_RENT_LAMPORTS).muln(newTokenAccounts);
+        const tipLamports = new BN(options.includeTip ? this._config.JITO_TIP_LAMPORTS : 0);
+        const totalCostLamports = networkFeeLamports.add(priorityFeeLamports).add(accountRentLamports).add(tipLamports);
+
+        const totalCost = solPrice === null
+            ? new BN(0)
+            : new BN(Math.ceil(Number(totalCostLamports.toString()) * solPrice).toString());
+
+        // 协议手续费以输入代币计价，按报价的成交价折算
+        const dexFee = quote.inputAmount.isZero()
+            ? new BN(0)
+            : quote.fee.mul(quote.outputAmount).div(quote.inputAmount);
+
+        return {
+            dexFee,
+            networkFeeLamports,
+            priorityFeeLamports,
+            newTokenAccounts,
+            accountRentLamports,
+            tipLamports,
+            totalCostLamports,
+            solPrice,
+            totalCost,
+            netOutputAmount: BN.max(quote.outputAmount.sub(totalCost), new BN(0))
+        };
+    }
+}
@@ -0,0 +1,139 @@
+import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+
+import { DEXProtocol, DEXQuote } from "../../types/dex/protocol";
+import { ROUTE_SEARCH_CONFIG } from "../../config/dex-config";
+import { calculateMinimumOutputAmount } from "../../utils/token/token-utils";
+import { RouteGraph } from "./route-graph";
+
+/**
+ * 多跳路由器
+ * 在路由图中搜索经过中间代币的 2 跳和 3 跳路径，并逐跳链式报价
+ */
+export class MultiHopRouter {
+    private _graph: RouteGraph;
+    private _config: typeof ROUTE_SEARCH_CONFIG;
+
+    /**
+     * 构造函数
+     * @param graph 路由图
+     * @param config 多跳路由配置
+     */
+    constructor(graph: RouteGraph, config: typeof ROUTE_SEARCH_CONFIG = ROUTE_SEARCH_CONFIG) {
+        this._graph = graph;
+        this._config = config;
+    }
+
+    /**
+     * 搜索最优多跳路由
+     * @param protocols 可用协议列表
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param amount 输入金额
+     * @param slippage 滑点容忍度
+     * @param hubTokens 中间代币候选
+     * @returns 每一跳的报价，未找到可用路由时返回 null
+     */
+    async findBestRoute(
+        protocols: DEXProtocol[],
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number,
+        hubTokens: PublicKey[]
+    ): Promise<DEXQuote[] | null> {
+        if (!this._config.ENABLED || this._config.MAX_HOPS < 2) {
+            return null;
+        }
+
+        const hubs = hubTokens.filter(hub => !hub.equals(tokenA) && !hub.equals(tokenB));
+        if (hubs.length === 0) {
+            return null;
+        }
+
+        // 探测 输入→枢纽、枢纽→输出 以及 (3跳时) 枢纽→枢纽 的池子
+        const pairs: [PublicKey, PublicKey][] = [];
+        hubs.forEach(hub => {
+            pairs.push([tokenA, hub], [hub, tokenB]);
+        });
+        if (this._config.MAX_HOPS >= 3) {
+            hubs.forEach((x, i) => hubs.slice(i + 1).forEach(y => pairs.push([x, y])));
+        }
+        await this._graph.discover(pairs, protocols);
+
+        const paths = this._graph.findPaths(tokenA, tokenB, this._config.MAX_HOPS)
+            .slice(0, this._config.MAX_PATHS);
+        if (paths.length === 0) {
+            return null;
+        }
+
+        console.log(`🧭 搜索多跳路由: ${paths.length} 条候选路径`);
+
+        const results = await Promise.all(paths.map(path => this._quotePath(path, protocols, amount, slippage)));
+
+        let best: DEXQuote[] | null = null;
+        for (const hops of results) {
+            if (!hops) {
+                continue;
+            }
+            const output = hops[hops.length - 1].outputAmount;
+            if (!best || output.gt(best[best.length - 1].outputAmount)) {
+                best = hops;
+            }
+        }
+
+        if (best) {
+            console.log(`   ✅ 最优多跳路由: ${best.map(hop => hop.dexName).join(' → ')}`);
+            console.log(`   最终输出: ${best[best.length - 1].outputAmount.toString()}`);
+        }
+
+        return best;
+    }
+
+    /**
+     * 对一条路径逐跳报价
+     * 下一跳的输入使用上一跳扣除滑点后的最小输出，保证链式交换在滑点范围内不会因余额不足失败
+     * @returns 每一跳的报价，任一跳无可用报价时返回 null
+     */
+    private async _quotePath(
+        path: PublicKey[],
+        protocols: DEXProtocol[],
+        amount: BN,
+        slippage: number
+    ): Promise<DEXQuote[] | null> {
+        const hops: DEXQuote[] = [];
+        let hopAmount = amount;
+
+        for (let i = 0; i < path.length - 1; i++) {
+            const hopIn = path[i];
+            const hopOut = path[i + 1];
+
+            const candidates = await Promise.all(
+                this._graph.getEdges(hopIn, hopOut).map(async (edge) => {
+                    const protocol = protocols.find(p => p.name === edge.dexName);
+                    if (!protocol) {
+                        return null;
+                    }
+                    try {
+                        const quote = await protocol.getQuote(hopIn, hopOut, hopAmount, slippage);
+                        return quote.confidence >= this._config.MIN_HOP_CONFIDENCE ? quote : null;
+                    } catch (error) {
+                        console.log(`   ❌ ${edge.dexName} 单跳报价失败: ${error}`);
+                        return null;
+                    }
+                })
+            );
+
+            const bestHop = candidates.reduce<DEXQuote | null>((best, current) =>
+                current && (!best || current.outputAmount.gt(best.outputAmount)) ? current : best, null);
+            if (!bestHop || bestHop.outputAmount.isZero()) {
+                return null;
+            }
+
+            hops.push(bestHop);
+            hopAmount = calculateMinimumOutputAmount(bestHop.outputAmount, slippage);
+        }
+
+        return hops;
+    }
+}
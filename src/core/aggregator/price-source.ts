@@ -0,0 +1,78 @@
+import { PublicKey } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import BN from "bn.js";
+
+import { DEXProtocol, PriceSource } from "../../types/dex/protocol";
+import { EXECUTION_COST_CONFIG } from "../../config/dex-config";
+
+/**
+ * 缓存的价格
+ */
+interface CachedPrice {
+    /** 每 lamport 可兑换的计价代币最小单位数量 */
+    price: number;
+
+    /** 获取时间 (毫秒时间戳) */
+    fetchedAt: number;
+}
+
+/**
+ * 基于协议报价的价格源
+ * 用参考金额的 SOL 向各协议询价，取最大输出作为 SOL 价格，并在有效期内缓存
+ */
+export class QuotePriceSource implements PriceSource {
+    private _getProtocols: () => DEXProtocol[];
+    private _config: typeof EXECUTION_COST_CONFIG;
+    private _prices = new Map<string, CachedPrice>();
+
+    /**
+     * 构造函数
+     * @param getProtocols 返回当前可用于询价的协议
+     * @param config 执行成本模型配置
+     */
+    constructor(getProtocols: () => DEXProtocol[], config: typeof EXECUTION_COST_CONFIG = EXECUTION_COST_CONFIG) {
+        this._getProtocols = getProtocols;
+        this._config = config;
+    }
+
+    /**
+     * 获取 SOL 的价格
+     * @param mint 计价代币mint地址
+     * @returns 每 lamport 可兑换的计价代币最小单位数量
+     */
+    async getSolPrice(mint: PublicKey): Promise<number> {
+        if (mint.equals(NATIVE_MINT)) {
+            return 1;
+        }
+
+        const key = mint.toBase58();
+        const cached = this._prices.get(key);
+        if (cached && Date.now() - cached.fetchedAt < this._config.PRICE_TTL_MS) {
+            return cached.price;
+        }
+
+        const referenceAmount = new BN(this._config.PRICE_REFERENCE_LAMPORTS);
+        const outputs = await Promise.all(this._getProtocols().map(async (protocol) => {
+            try {
+                const quote = await protocol.getQuote(NATIVE_MINT, mint, referenceAmount, 0.01);
+                return quote.confidence >= this._config.PRICE_MIN_CONFIDENCE ? quote.outputAmount : null;
+            } catch (error) {
+                return null;
+            }
+        }));
+
+        const bestOutput = outputs.reduce<BN | null>(
+            (best, output) => output && (!best || output.gt(best)) ? output : best,
+            null
+        );
+        if (!bestOutput || bestOutput.isZero()) {
+            throw new Error(`无法获取 SOL 价格: ${key}`);
+        }
+
+        const price = Number(bestOutput.toString()) / this._config.PRICE_REFERENCE_LAMPORTS;
+        this._prices.set(key, { price, fetchedAt: Date.now() });
+        console.log(`💱 SOL 价格: 1 lamport = ${price} (${key.slice(0, 8)}...)`);
+
+        return price;
+    }
+}
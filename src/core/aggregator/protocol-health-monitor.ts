@@ -0,0 +1,320 @@
+import { DEXProtocol, ProtocolHealth, CircuitState } from "../../types/dex/protocol";
+import { CIRCUIT_BREAKER_CONFIG } from "../../config/dex-config";
+
+/**
+ * 单次调用结果
+ */
+interface CallSample {
+    /** 是否成功 */
+    success: boolean;
+
+    /** 耗时 (毫秒) */
+    latencyMs: number;
+}
+
+/**
+ * 单个协议的熔断器状态
+ */
+interface BreakerState {
+    /** 熔断器状态 */
+    state: CircuitState;
+
+    /** 连续失败次数 */
+    consecutiveFailures: number;
+
+    /** 进入熔断的时间 (毫秒时间戳) */
+    openedAt: number;
+
+    /** 半开状态下正在进行的试探调用数量 */
+    halfOpenCalls: number;
+
+    /** 滚动窗口内的调用结果 */
+    samples: CallSample[];
+
+    /** 最近一次错误信息 */
+    lastError?: string;
+
+    /** 最近一次调用完成时间 */
+    lastCallAt?: Date;
+}
+
+/**
+ * 协议健康监控器
+ * 为每个协议维护一个熔断器 (closed → open → half-open → closed)，
+ * 为每次调用设置超时，并基于最近调用的成功率和延迟计算滚动健康分
+ */
+export class ProtocolHealthMonitor {
+    private _config: typeof CIRCUIT_BREAKER_CONFIG;
+    private _breakers = new Map<string, BreakerState>();
+
+    /**
+     * 构造函数
+     * @param config 熔断与健康评分配置
+     */
+    constructor(config: typeof CIRCUIT_BREAKER_CONFIG = CIRCUIT_BREAKER_CONFIG) {
+        this._config = config;
+    }
+
+    /**
+     * 在熔断器保护下执行协议调用
+     * 熔断中直接拒绝；调用超时和其他传输层/RPC 错误视为失败，不会阻塞调用方；
+     * 交易对不支持、池子不存在等报价结果照常抛出，但不计入失败
+     * @param name 协议名称
+     * @param call 协议调用
+     * @returns 调用结果
+     */
+    async execute<T>(name: string, call: () => Promise<T>): Promise<T> {
+        const breaker = this._getBreaker(name);
+        if (!this._tryAcquire(breaker)) {
+            throw new Error(`${name} 已熔断，${Math.ceil(this._remainingOpenMs(breaker) / 1000)}秒后重试`);
+        }
+
+        const isTrial = breaker.state === 'half-open';
+        const startTime = Date.now();
+        let timer: NodeJS.Timeout | undefined;
+
+        try {
+            const result = await Promise.race([
+                call(),
+                new Promise<never>((_, reject) => {
+                    timer = setTimeout(
+                        () => reject(new Error(`${name} 调用超时 (${this._config.CALL_TIMEOUT_MS}ms)`)),
+                        this._config.CALL_TIMEOUT_MS
+                    );
+                })
+            ]);
+            this._recordSuccess(name, breaker, Date.now() - startTime);
+            return result;
+        } catch (error) {
+            if (this._isTransportError(error)) {
+                this._recordFailure(name, breaker, Date.now() - startTime, error);
+            } else {
+                this._recordSuccess(name, breaker, Date.now() - startTime);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            if (isTrial) {
+                breaker.halfOpenCalls--;
+            }
+        }
+    }
+
+    /**
+     * 记录协议调用结果但不拦截调用
+     * 用于交换指令构建: 已选定的报价必须能够执行，但构建失败同样计入协议健康统计
+     * @param name 协议名称
+     * @param call 协议调用
+     * @returns 调用结果
+     */
+    async observe<T>(name: string, call: () => Promise<T>): Promise<T> {
+        const breaker = this._getBreaker(name);
+        const startTime = Date.now();
+
+        try {
+            const result = await call();
+            this._addSample(breaker, { success: true, latencyMs: Date.now() - startTime });
+            return result;
+        } catch (error) {
+            this._recordFailure(name, breaker, Date.now() - startTime, error);
+            throw error;
+        }
+    }
+
+    /**
+     * 包装协议，使其报价和池子查询经过熔断器
+     * 交换指令构建不经过熔断器 (已选定的报价必须能够执行)，只记录构建结果
+     * @param protocol 原始协议
+     * @returns 受保护的协议
+     */
+    guard(protocol: DEXProtocol): DEXProtocol {
+        const { name } = protocol;
+        return {
+            name,
+            programId: protocol.programId,
+            quotesIncludeTransferFees: protocol.quotesIncludeTransferFees,
+            usesAssociatedTokenAccounts: protocol.usesAssociatedTokenAccounts,
+            getQuote: (tokenA, tokenB, amount, slippage) =>
+                this.execute(name, () => protocol.getQuote(tokenA, tokenB, amount, slippage)),
+            getQuoteExactOut: protocol.getQuoteExactOut
+                ? (tokenA, tokenB, outputAmount, slippage) =>
+                    this.execute(name, () => protocol.getQuoteExactOut!(tokenA, tokenB, outputAmount, slippage))
+                : undefined,
+            buildSwapInstruction: (quote, userWallet, tokenAccountA, tokenAccountB, tokens) =>
+                this.observe(name, () => protocol.buildSwapInstruction(quote, userWallet, tokenAccountA, tokenAccountB, tokens)),
+            buildSwapInstructionWithLookupTables: protocol.buildSwapInstructionWithLookupTables
+                ? (quote, userWallet, tokenAccountA, tokenAccountB, tokens) => this.observe(name, () =>
+                    protocol.buildSwapInstructionWithLookupTables!(quote, userWallet, tokenAccountA, tokenAccountB, tokens))
+                : undefined,
+            findPool: protocol.findPool
+                ? (tokenA, tokenB) => this.execute(name, () => protocol.findPool!(tokenA, tokenB))
+                : undefined
+        };
+    }
+
+    /**
+     * 协议当前是否可以调用 (未熔断或熔断已到期)
+     * @param name 协议名称
+     */
+    isAvailable(name: string): boolean {
+        const breaker = this._breakers.get(name);
+        return !breaker || breaker.state !== 'open' || this._remainingOpenMs(breaker) <= 0;
+    }
+
+    /**
+     * 获取协议健康状况
+     * @param name 协议名称
+     * @returns 健康状况，从未调用过的协议视为完全健康
+     */
+    getHealth(name: string): ProtocolHealth {
+        const breaker = this._getBreaker(name);
+        const { samples } = breaker;
+
+        const successRate = samples.length > 0
+            ? samples.filter(sample => sample.success).length / samples.length
+            : 1;
+        const averageLatencyMs = samples.length > 0
+            ? samples.reduce((sum, sample) => sum + sample.latencyMs, 0) / samples.length
+            : 0;
+
+        // 平均延迟从目标延迟增加到超时时间时，延迟系数从 1 线性降到 0.5
+        const latencyRange = Math.max(1, this._config.CALL_TIMEOUT_MS - this._config.TARGET_LATENCY_MS);
+        const latencyPenalty = Math.min(1, Math.max(0, (averageLatencyMs - this._config.TARGET_LATENCY_MS) / latencyRange));
+        const state = this._currentState(breaker);
+
+        return {
+            name,
+            state,
+            healthScore: state === 'open' ? 0 : successRate * (1 - 0.5 * latencyPenalty),
+            successRate,
+            averageLatencyMs,
+            sampleCount: samples.length,
+            consecutiveFailures: breaker.consecutiveFailures,
+            lastError: breaker.lastError,
+            lastCallAt: breaker.lastCallAt
+        };
+    }
+
+    /**
+     * 获取多个协议的健康状况
+     * @param names 协议名称列表
+     */
+    getAllHealth(names: string[]): ProtocolHealth[] {
+        return names.map(name => this.getHealth(name));
+    }
+
+    /**
+     * 重置协议的熔断器和统计数据
+     * @param name 协议名称，不传则重置全部
+     */
+    reset(name?: string): void {
+        if (name) {
+            this._breakers.delete(name);
+        } else {
+            this._breakers.clear();
+        }
+    }
+
+    /**
+     * 获取或创建协议的熔断器
+     */
+    private _getBreaker(name: string): BreakerState {
+        let breaker = this._breakers.get(name);
+        if (!breaker) {
+            breaker = { state: 'closed', consecutiveFailures: 0, openedAt: 0, halfOpenCalls: 0, samples: [] };
+            this._breakers.set(name, breaker);
+        }
+        return breaker;
+    }
+
+    /**
+     * 尝试获取调用许可
+     * 熔断到期后进入半开状态，只放行有限数量的试探调用
+     */
+    private _tryAcquire(breaker: BreakerState): boolean {
+        if (breaker.state === 'open') {
+            if (this._remainingOpenMs(breaker) > 0) {
+                return false;
+            }
+            breaker.state = 'half-open';
+        }
+
+        if (breaker.state === 'half-open') {
+            if (breaker.halfOpenCalls >= this._config.HALF_OPEN_MAX_CALLS) {
+                return false;
+            }
+            breaker.halfOpenCalls++;
+        }
+
+        return true;
+    }
+
+    /**
+     * 判断报价错误是否计入熔断
+     * 带 HTTP 状态码的错误只统计限流和服务端错误，其他错误按配置的传输层/RPC 错误特征匹配
+     */
+    private _isTransportError(error: unknown): boolean {
+        const status = (error as { response?: { status?: number } } | undefined)?.response?.status;
+        if (typeof status === 'number') {
+            return status === 429 || status >= 500;
+        }
+
+        const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+        return this._config.TRANSPORT_ERROR_PATTERNS.some(pattern => message.includes(pattern.toLowerCase()));
+    }
+
+    /**
+     * 记录成功调用，半开状态下的成功使熔断器恢复闭合
+     */
+    private _recordSuccess(name: string, breaker: BreakerState, latencyMs: number): void {
+        this._addSample(breaker, { success: true, latencyMs });
+        breaker.consecutiveFailures = 0;
+
+        if (breaker.state === 'half-open') {
+            breaker.state = 'closed';
+            console.log(`🟢 ${name} 熔断恢复`);
+        }
+    }
+
+    /**
+     * 记录失败调用，连续失败达到阈值或半开试探失败时熔断
+     */
+    private _recordFailure(name: string, breaker: BreakerState, latencyMs: number, error: unknown): void {
+        this._addSample(breaker, { success: false, latencyMs });
+        breaker.consecutiveFailures++;
+        breaker.lastError = error instanceof Error ? error.message : String(error);
+
+        const shouldOpen = breaker.state === 'half-open'
+            || (breaker.state === 'closed' && breaker.consecutiveFailures >= this._config.FAILURE_THRESHOLD);
+        if (shouldOpen) {
+            breaker.state = 'open';
+            breaker.openedAt = Date.now();
+            console.log(`🔴 ${name} 已熔断 (连续失败 ${breaker.consecutiveFailures} 次)，${this._config.OPEN_DURATION_MS / 1000}秒内不再调用`);
+        }
+    }
+
+    /**
+     * 写入滚动窗口
+     */
+    private _addSample(breaker: BreakerState, sample: CallSample): void {
+        breaker.samples.push(sample);
+        if (breaker.samples.length > this._config.HEALTH_WINDOW_SIZE) {
+            breaker.samples.shift();
+        }
+        breaker.lastCallAt = new Date();
+    }
+
+    /**
+     * 对外展示的状态 (熔断到期但尚未试探时显示为半开)
+     */
+    private _currentState(breaker: BreakerState): CircuitState {
+        return breaker.state === 'open' && this._remainingOpenMs(breaker) <= 0 ? 'half-open' : breaker.state;
+    }
+
+    /**
+     * 熔断剩余时间 (毫秒)
+     */
+    private _remainingOpenMs(breaker: BreakerState): number {
+        return breaker.openedAt + this._config.OPEN_DURATION_MS - Date.now();
+    }
+}
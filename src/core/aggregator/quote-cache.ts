@@ -0,0 +1,185 @@
+import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+
+import { AggregatedRoute, DEXQuote, QuoteCostBreakdown, SwapMode } from "../../types/dex/protocol";
+import { QUOTE_CACHE_CONFIG } from "../../config/dex-config";
+
+/**
+ * 缓存条目
+ */
+interface QuoteCacheEntry {
+    /** 缓存的聚合路由 */
+    route: AggregatedRoute;
+
+    /** 产生该路由时指定的金额 (精确输入为输入金额，精确输出为输出金额) */
+    amount: BN;
+
+    /** 写入时间 (毫秒时间戳) */
+    cachedAt: number;
+}
+
+/**
+ * 聚合报价缓存
+ * 按交易对、报价模式、滑点和金额分桶缓存聚合路由，
+ * 同一桶内的不同金额按比例换算缓存的报价，避免对所有协议重复请求
+ */
+export class QuoteCache {
+    private _config: typeof QUOTE_CACHE_CONFIG;
+    private _entries = new Map<string, QuoteCacheEntry>();
+
+    /**
+     * 构造函数
+     * @param config 报价缓存配置
+     */
+    constructor(config: typeof QUOTE_CACHE_CONFIG = QUOTE_CACHE_CONFIG) {
+        this._config = config;
+    }
+
+    /**
+     * 读取缓存的路由
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param amount 指定的金额
+     * @param slippage 滑点容忍度
+     * @param swapMode 报价模式
+     * @returns 换算到指定金额的路由，未命中或已过期时返回 null
+     */
+    get(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number,
+        swapMode: SwapMode = 'ExactIn'
+    ): AggregatedRoute | null {
+        if (!this._config.ENABLED) {
+            return null;
+        }
+
+        const key = this._key(tokenA, tokenB, amount, slippage, swapMode);
+        const entry = this._entries.get(key);
+        if (!entry) {
+            return null;
+        }
+
+        if (Date.now() - entry.cachedAt >= this._config.TTL_MS) {
+            this._entries.delete(key);
+            return null;
+        }
+
+        return entry.amount.eq(amount) ? entry.route : scaleRoute(entry.route, amount, entry.amount);
+    }
+
+    /**
+     * 写入路由
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param amount 指定的金额
+     * @param slippage 滑点容忍度
+     * @param swapMode 报价模式
+     * @param route 聚合路由
+     */
+    set(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number,
+        swapMode: SwapMode,
+        route: AggregatedRoute
+    ): void {
+        if (!this._config.ENABLED) {
+            return;
+        }
+
+        // 重新插入以保持 Map 的插入顺序即写入顺序，超出容量时淘汰最早的条目
+        const key = this._key(tokenA, tokenB, amount, slippage, swapMode);
+        this._entries.delete(key);
+        this._entries.set(key, { route, amount, cachedAt: Date.now() });
+
+        while (this._entries.size > this._config.MAX_ENTRIES) {
+            const oldestKey = this._entries.keys().next().value as string;
+            this._entries.delete(oldestKey);
+        }
+    }
+
+    /**
+     * 使缓存失效
+     * @param tokenA 输入代币mint地址，不传则清空全部
+     * @param tokenB 输出代币mint地址
+     */
+    invalidate(tokenA?: PublicKey, tokenB?: PublicKey): void {
+        if (!tokenA || !tokenB) {
+            this._entries.clear();
+            return;
+        }
+
+        const prefix = `${tokenA.toBase58()}-${tokenB.toBase58()}-`;
+        for (const key of [...this._entries.keys()]) {
+            if (key.startsWith(prefix)) {
+                this._entries.delete(key);
+            }
+        }
+    }
+
+    /**
+     * 生成缓存键
+     */
+    private _key(tokenA: PublicKey, tokenB: PublicKey, amount: BN, slippage: number, swapMode: SwapMode): string {
+        return `${tokenA.toBase58()}-${tokenB.toBase58()}-${swapMode}-${slippage}-${this._bucket(amount)}`;
+    }
+
+    /**
+     * 计算金额所在的桶
+     * 按对数分桶，使每个桶的相对宽度相同 (AMOUNT_BUCKET_BPS)
+     */
+    private _bucket(amount: BN): number {
+        const value = Number(amount.toString());
+        if (value <= 0) {
+            return 0;
+        }
+        return Math.floor(Math.log(value) / Math.log(1 + this._config.AMOUNT_BUCKET_BPS / 10000));
+    }
+}
+
+/**
+ * 将报价的金额按比例换算
+ * 报价时间和slot保持不变，换算后的报价年龄与原报价一致
+ */
+function scaleQuote(quote: DEXQuote, numerator: BN, denominator: BN): DEXQuote {
+    const scale = (value: BN) => value.mul(numerator).div(denominator);
+    return {
+        ...quote,
+        inputAmount: scale(quote.inputAmount),
+        outputAmount: scale(quote.outputAmount),
+        fee: scale(quote.fee),
+        maxInputAmount: quote.maxInputAmount ? scale(quote.maxInputAmount) : undefined
+    };
+}
+
+/**
+ * 将执行成本明细换算到新的输出金额
+ * SOL 计价的执行成本与金额无关保持不变，只换算手续费并重新计算净输出
+ */
+function scaleCost(cost: QuoteCostBreakdown, outputAmount: BN, numerator: BN, denominator: BN): QuoteCostBreakdown {
+    return {
+        ...cost,
+        dexFee: cost.dexFee.mul(numerator).div(denominator),
+        netOutputAmount: BN.max(outputAmount.sub(cost.totalCost), new BN(0))
+    };
+}
+
+/**
+ * 将整条路由 (包括拆单分腿和多跳报价) 按比例换算到新的金额
+ */
+function scaleRoute(route: AggregatedRoute, amount: BN, cachedAmount: BN): AggregatedRoute {
+    const scale = (quote: DEXQuote) => scaleQuote(quote, amount, cachedAmount);
+    const bestQuote = scale(route.bestQuote);
+    return {
+        ...route,
+        bestQuote,
+        allQuotes: route.allQuotes.map(scale),
+        totalSavings: route.totalSavings.mul(amount).div(cachedAmount),
+        splitLegs: route.splitLegs?.map(leg => ({ ...leg, quote: scale(leg.quote) })),
+        routeHops: route.routeHops?.map(scale),
+        costBreakdown: route.costBreakdown && scaleCost(route.costBreakdown, bestQuote.outputAmount, amount, cachedAmount)
+    };
+}
@@ -0,0 +1,169 @@
+import { PublicKey } from "@solana/web3.js";
+
+import { DEXProtocol } from "../../types/dex/protocol";
+import { KnownPool } from "../../config/network-config";
+
+/**
+ * 路由图中的边 (一个可交换的池子)
+ */
+export interface RouteEdge {
+    /** 代币A mint地址 */
+    tokenA: PublicKey;
+
+    /** 代币B mint地址 */
+    tokenB: PublicKey;
+
+    /** 池子地址 */
+    poolAddress: PublicKey;
+
+    /** 所属DEX名称 */
+    dexName: string;
+}
+
+/**
+ * 路由图
+ * 以代币为节点、池子为无向边，用于搜索经过中间代币的多跳路径
+ */
+export class RouteGraph {
+    private _adjacency = new Map<string, RouteEdge[]>();
+    private _probedPairs = new Set<string>();
+
+    /**
+     * 构造函数
+     * @param knownPools 初始的已知池子列表
+     */
+    constructor(knownPools: KnownPool[] = []) {
+        knownPools.forEach(pool => this.addEdge({
+            tokenA: pool.tokenA,
+            tokenB: pool.tokenB,
+            poolAddress: pool.address,
+            dexName: pool.dexName
+        }));
+    }
+
+    /**
+     * 添加一条边 (重复的池子会被忽略)
+     * @param edge 路由边
+     */
+    addEdge(edge: RouteEdge): void {
+        for (const token of [edge.tokenA, edge.tokenB]) {
+            const key = token.toBase58();
+            const edges = this._adjacency.get(key) || [];
+            if (!edges.some(e => e.poolAddress.equals(edge.poolAddress))) {
+                edges.push(edge);
+            }
+            this._adjacency.set(key, edges);
+        }
+    }
+
+    /**
+     * 获取连接两个代币的所有边
+     * @param tokenA 代币A mint地址
+     * @param tokenB 代币B mint地址
+     * @returns 边列表
+     */
+    getEdges(tokenA: PublicKey, tokenB: PublicKey): RouteEdge[] {
+        return (this._adjacency.get(tokenA.toBase58()) || [])
+            .filter(edge => this._otherSide(edge, tokenA)?.equals(tokenB));
+    }
+
+    /**
+     * 通过协议的池子查找能力发现新边
+     * 每个代币对只探测一次，结果 (包括不存在) 会被记住
+     * @param pairs 待探测的代币对
+     * @param protocols 协议列表 (仅使用实现了 findPool 的协议)
+     */
+    async discover(pairs: [PublicKey, PublicKey][], protocols: DEXProtocol[]): Promise<void> {
+        const probes: Promise<void>[] = [];
+
+        for (const [tokenA, tokenB] of pairs) {
+            if (tokenA.equals(tokenB)) {
+                continue;
+            }
+
+            for (const protocol of protocols) {
+                if (!protocol.findPool) {
+                    continue;
+                }
+
+                const probeKey = this._probeKey(protocol.name, tokenA, tokenB);
+                if (this._probedPairs.has(probeKey)) {
+                    continue;
+                }
+                this._probedPairs.add(probeKey);
+
+                probes.push((async () => {
+                    try {
+                        const poolAddress = await protocol.findPool!(tokenA, tokenB);
+                        if (poolAddress) {
+                            this.addEdge({ tokenA, tokenB, poolAddress, dexName: protocol.name });
+                        }
+                    } catch (error) {
+                        // 探测失败 (如网络错误) 不记为已探测，下次重试
+                        this._probedPairs.delete(probeKey);
+                        console.log(`   ⚠️  ${protocol.name} 池子探测失败: ${error}`);
+                    }
+                })());
+            }
+        }
+
+        await Promise.all(probes);
+    }
+
+    /**
+     * 搜索两个代币之间的多跳路径 (不含直接路径)
+     * @param from 输入代币
+     * @param to 输出代币
+     * @param maxHops 最大跳数
+     * @returns 代币路径列表，按跳数升序排列
+     */
+    findPaths(from: PublicKey, to: PublicKey, maxHops: number): PublicKey[][] {
+        const paths: PublicKey[][] = [];
+
+        const walk = (path: PublicKey[]) => {
+            const current = path[path.length - 1];
+            const hops = path.length - 1;
+
+            if (current.equals(to)) {
+                if (hops >= 2) {
+                    paths.push(path);
+                }
+                return;
+            }
+            if (hops >= maxHops) {
+                return;
+            }
+
+            const visited = new Set<string>();
+            for (const edge of this._adjacency.get(current.toBase58()) || []) {
+                const next = this._otherSide(edge, current)!;
+                const key = next.toBase58();
+                if (visited.has(key) || path.some(token => token.equals(next))) {
+                    continue;
+                }
+                visited.add(key);
+                walk([...path, next]);
+            }
+        };
+
+        walk([from]);
+        return paths.sort((a, b) => a.length - b.length);
+    }
+
+    /**
+     * 获取边另一侧的代币
+     */
+    private _otherSide(edge: RouteEdge, token: PublicKey): PublicKey | null {
+        if (edge.tokenA.equals(token)) return edge.tokenB;
+        if (edge.tokenB.equals(token)) return edge.tokenA;
+        return null;
+    }
+
+    /**
+     * 生成与方向无关的探测键
+     */
+    private _probeKey(dexName: string, tokenA: PublicKey, tokenB: PublicKey): string {
+        const [x, y] = [tokenA.toBase58(), tokenB.toBase58()].sort();
+        return `${dexName}:${x}:${y}`;
+    }
+}
@@ -0,0 +1,228 @@
+import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+
+import { DEXProtocol, DEXQuote, SplitLeg } from "../../types/dex/protocol";
+import { SPLIT_ROUTING_CONFIG } from "../../config/dex-config";
+
+/**
+ * 拆单搜索过程中的中间状态
+ */
+interface SplitState {
+    /** 已分配输出总额 */
+    totalOutput: BN;
+
+    /** 每个协议分配的步数 (与协议列表一一对应) */
+    allocation: number[];
+}
+
+/**
+ * 拆单路由器
+ * 在多个协议之间搜索输入金额的最优分配比例，
+ * 使所有分腿的总输出 (已扣除池子手续费) 最大，同时受计算预算约束
+ */
+export class SplitRouter {
+    private _config: typeof SPLIT_ROUTING_CONFIG;
+
+    /**
+     * 构造函数
+     * @param config 拆单路由配置
+     */
+    constructor(config: typeof SPLIT_ROUTING_CONFIG = SPLIT_ROUTING_CONFIG) {
+        this._config = config;
+    }
+
+    /**
+     * 搜索最优拆单方案
+     * @param protocols 已成功返回全额报价的协议
+     * @param fullQuotes 各协议的全额报价 (按协议名称索引)
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param amount 总输入金额
+     * @param slippage 滑点容忍度
+     * @returns 拆单分腿列表，若拆单不优于单一DEX则返回 null
+     */
+    async findBestSplit(
+        protocols: DEXProtocol[],
+        fullQuotes: Map<string, DEXQuote>,
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number
+    ): Promise<SplitLeg[] | null> {
+        if (!this._config.ENABLED || protocols.length < 2 || this._config.MAX_LEGS < 2) {
+            return null;
+        }
+
+        const steps = Math.floor(100 / this._config.STEP_PERCENT);
+        if (steps < 2 || amount.ltn(steps)) {
+            return null;
+        }
+
+        console.log(`🔀 搜索拆单方案: ${protocols.length} 个协议, 步长 ${this._config.STEP_PERCENT}%`);
+
+        const table = await this._buildQuoteTable(protocols, fullQuotes, tokenA, tokenB, amount, slippage, steps);
+        const bestByLegs = this._optimize(table, steps);
+
+        // 单一DEX的最优结果作为基准
+        let best = bestByLegs.get(1);
+        if (!best) {
+            return null;
+        }
+        let bestLegs = 1;
+
+        for (let legs = 2; legs <= this._config.MAX_LEGS; legs++) {
+            const candidate = bestByLegs.get(legs);
+            if (!candidate) {
+                continue;
+            }
+
+            // 计算预算检查: 所有分腿的CU之和不得超过单笔交易上限
+            const computeUnits = candidate.allocation.reduce((sum, k, i) =>
+                k > 0 ? sum + table[i][k]!.estimatedGas : sum, 0);
+            if (computeUnits > this._config.MAX_COMPUTE_UNITS) {
+                console.log(`   ⚠️  ${legs} 分腿方案超出计算预算 (${computeUnits} CU)，跳过`);
+                continue;
+            }
+
+            // 每增加一个分腿都需要足够的收益来覆盖额外的计算成本
+            const requiredOutput = best.totalOutput
+                .muln(10000 + this._config.MIN_IMPROVEMENT_BPS * (legs - bestLegs))
+                .divn(10000);
+            if (candidate.totalOutput.gt(requiredOutput)) {
+                best = candidate;
+                bestLegs = legs;
+            }
+        }
+
+        if (bestLegs === 1) {
+            console.log(`   ℹ️  拆单无明显收益，保持单一DEX执行`);
+            return null;
+        }
+
+        const legs = await this._quoteLegs(protocols, table, best.allocation, tokenA, tokenB, amount, slippage, steps);
+        if (!legs) {
+            return null;
+        }
+
+        console.log(`   ✅ 最优拆单: ${legs.map(leg => `${leg.quote.dexName} ${(leg.ratio * 100).toFixed(0)}%`).join(' + ')}`);
+        console.log(`   拆单总输出: ${legs.reduce((sum, leg) => sum.add(leg.quote.outputAmount), new BN(0)).toString()}`);
+
+        return legs;
+    }
+
+    /**
+     * 按分腿实际执行的输入金额确定分腿报价
+     * 各分腿按步数向下取整，取整余额 (少于分腿数量个最小单位) 逐腿分摊 1 个单位，使分腿输入之和等于总输入；
+     * 分摊到余额的分腿按执行金额重新报价，保证排序和滑点检查使用的报价与构建时一致
+     * @returns 分腿列表，重新报价失败时返回 null
+     */
+    private async _quoteLegs(
+        protocols: DEXProtocol[],
+        table: (DEXQuote | null)[][],
+        allocation: number[],
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number,
+        steps: number
+    ): Promise<SplitLeg[] | null> {
+        const selected = allocation
+            .map((k, i) => ({ protocol: protocols[i], quote: table[i][k], k }))
+            .filter(leg => leg.k > 0);
+        const allocated = selected.reduce((sum, leg) => sum.add(amount.muln(leg.k).divn(steps)), new BN(0));
+        const remainder = amount.sub(allocated).toNumber();
+
+        try {
+            return await Promise.all(selected.map(async ({ protocol, quote, k }, i) => {
+                if (i >= remainder) {
+                    return { quote: quote!, ratio: k / steps };
+                }
+
+                const legAmount = amount.muln(k).divn(steps).addn(1);
+                return { quote: await protocol.getQuote(tokenA, tokenB, legAmount, slippage), ratio: k / steps };
+            }));
+        } catch (error) {
+            console.log(`   ❌ 分腿按执行金额重新报价失败，保持单一DEX执行: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * 构建报价表
+     * table[i][k] 为第 i 个协议在分配 k 步输入时的报价
+     */
+    private async _buildQuoteTable(
+        protocols: DEXProtocol[],
+        fullQuotes: Map<string, DEXQuote>,
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number,
+        steps: number
+    ): Promise<(DEXQuote | null)[][]> {
+        return await Promise.all(protocols.map(async (protocol) => {
+            const row: (DEXQuote | null)[] = new Array(steps + 1).fill(null);
+            row[steps] = fullQuotes.get(protocol.name) || null;
+
+            const partials = await Promise.all(
+                Array.from({ length: steps - 1 }, (_, index) => index + 1).map(async (k) => {
+                    try {
+                        return await protocol.getQuote(tokenA, tokenB, amount.muln(k).divn(steps), slippage);
+                    } catch (error) {
+                        console.log(`   ❌ ${protocol.name} 部分报价失败 (${k}/${steps}): ${error}`);
+                        return null;
+                    }
+                })
+            );
+            partials.forEach((quote, index) => {
+                row[index + 1] = quote;
+            });
+
+            return row;
+        }));
+    }
+
+    /**
+     * 动态规划求解最优分配
+     * @returns 按分腿数量索引的最优状态
+     */
+    private _optimize(table: (DEXQuote | null)[][], steps: number): Map<number, SplitState> {
+        // 状态键: `${已分配步数}:${分腿数}`
+        let states = new Map<string, SplitState>();
+        states.set('0:0', { totalOutput: new BN(0), allocation: [] });
+
+        for (const row of table) {
+            const next = new Map<string, SplitState>();
+
+            for (const [key, state] of states) {
+                const [used, legs] = key.split(':').map(Number);
+
+                for (let k = 0; k <= steps - used; k++) {
+                    if (k > 0 && (!row[k] || legs + 1 > this._config.MAX_LEGS)) {
+                        continue;
+                    }
+
+                    const nextKey = `${used + k}:${k > 0 ? legs + 1 : legs}`;
+                    const totalOutput = k > 0 ? state.totalOutput.add(row[k]!.outputAmount) : state.totalOutput;
+                    const existing = next.get(nextKey);
+
+                    if (!existing || totalOutput.gt(existing.totalOutput)) {
+                        next.set(nextKey, { totalOutput, allocation: [...state.allocation, k] });
+                    }
+                }
+            }
+
+            states = next;
+        }
+
+        const bestByLegs = new Map<number, SplitState>();
+        for (const [key, state] of states) {
+            const [used, legs] = key.split(':').map(Number);
+            if (used === steps && legs > 0) {
+                bestByLegs.set(legs, state);
+            }
+        }
+
+        return bestByLegs;
+    }
+}
@@ -1,14 +1,21 @@
-import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { Connection, Keypair } from '@solana/web3.js';
 import { Wallet } from '@coral-xyz/anchor';
 
 // 导入现有组件
 import { DEXAggregator } from '../aggregator/dex-aggregator';
 import { BundleManager } from '../jito/bundle-manager';
 import { EnhancedJitoClient } from '../jito/jito-client';
+import { createRpcBundleSimulator } from '../jito/bundle-simulator';
+import { BundleStatusTracker } from '../jito/bundle-status-tracker';
+import { KeypairSigner } from '../signer/keypair-signer';
+import { RemoteSigner } from '../signer/remote-signer';
 
 // 导入协议实现
 import { OrcaProtocol } from '../../protocols/orca/orca-protocol';
 import { JupiterProtocol } from '../../protocols/jupiter/jupiter-protocol';
+import { RaydiumProtocol } from '../../protocols/raydium/raydium-protocol';
+import { RaydiumClmmProtocol } from '../../protocols/raydium/raydium-clmm-protocol';
+import { RaydiumCpmmProtocol } from '../../protocols/raydium/raydium-cpmm-protocol';
 
 // 导入配置
 import { getJitoConfig } from '../../config/jito-config'
@@ -17,6 +24,7 @@ import { getEnabledDEXConfigs } from '../../config/dex-config'
 // 导入类型
 import { DEXProtocol } from '../../types/dex/protocol';
 import { BundleManagerConfig } from '../../types/jito/bundle-manager-types';
+import { SignerSource, TransactionSigner } from '../../types/signer/signer-types';
 
 /**
  * 真实组件集成工厂
@@ -30,7 +38,7 @@ export class RealComponentFactory {
 
     /**
      *  创建真实的 DEX 聚合器
-     *  集成所有启用的 DEX 协议
+     *  集成所有启用的 DEX 协议，并启动共享区块哈希的后台预取 (cleanup() 时停止)
      */
     static async createRealDexAggregator(
         connection: Connection,
@@ -47,20 +55,39 @@ export class RealComponentFactory {
                 console.log(`   📦 初始化 ${config.name} 协议...`);
 
                 switch (config.name) {
-                    case 'Orca':
+                    case 'Orca': {
                         const orcaProtocol = new OrcaProtocol(connection, wallet);
                         protocols.push(orcaProtocol);
                         console.log(`   ✅ Orca 协议初始化成功`);
                         break;
-                    case 'Jupiter':
+                    }
+                    case 'Jupiter': {
                         const jupiterProtocol = new JupiterProtocol(connection, wallet);
                         protocols.push(jupiterProtocol);
                         console.log(`   ✅ Jupiter 协议初始化成功`);
                         break;
+                    }
 
-                    case 'Raydium':
-                        console.log(`   ⚠️  Raydium 协议暂时禁用`);
+                    case 'Raydium': {
+                        const raydiumProtocol = new RaydiumProtocol(connection);
+                        protocols.push(raydiumProtocol);
+                        console.log(`   ✅ Raydium 协议初始化成功`);
                         break;
+                    }
+
+                    case 'Raydium CLMM': {
+                        const raydiumClmmProtocol = new RaydiumClmmProtocol(connection);
+                        protocols.push(raydiumClmmProtocol);
+                        console.log(`   ✅ Raydium CLMM 协议初始化成功`);
+                        break;
+                    }
+
+                    case 'Raydium CPMM': {
+                        const raydiumCpmmProtocol = new RaydiumCpmmProtocol(connection);
+                        protocols.push(raydiumCpmmProtocol);
+                        console.log(`   ✅ Raydium CPMM 协议初始化成功`);
+                        break;
+                    }
 
                     default:
                         console.log(`   ❌ 未知协议: ${config.name}`);
@@ -75,6 +102,7 @@ export class RealComponentFactory {
         }
 
         const aggregator = new DEXAggregator(connection, protocols);
+        aggregator.getBlockhashManager().start();
         console.log(`✅ DEX 聚合器创建完成，支持 ${protocols.length} 个协议`);
         return aggregator;
     }
@@ -82,11 +110,14 @@ export class RealComponentFactory {
     /**
      *  创建真实的 Jito Bundle 管理器
      *  集成 Jito Block Engine
+     *  @param tipPayer 小费转出账户的签名者
+     *  @param feePayer 小费交易的手续费支付者，默认为小费转出账户
      */
     static async createRealBundleManager(
         connection: Connection,
-        wallet: Wallet,
-        environment: 'development' | 'production' = 'development'
+        tipPayer: TransactionSigner,
+        environment: 'development' | 'production' = 'development',
+        feePayer: TransactionSigner = tipPayer
     ): Promise<BundleManager> {
         console.log('🏭 创建真实 Bundle 管理器...');
 
@@ -95,10 +126,10 @@ export class RealComponentFactory {
             const jitoConfig = getJitoConfig(environment)
             console.log(`   📋 使用 ${environment} 环境配置`);
 
-            // 创建增强型 Jito 客户端，传递钱包和连接用于小费交易
+            // 创建增强型 Jito 客户端，传递签名者和连接用于小费交易
             const jitoClientConfig = { ...jitoConfig, connection };
-            const jitoClient = new EnhancedJitoClient(jitoClientConfig, wallet);
-            console.log(`   🔗 Jito 客户端创建成功 (已配置钱包和连接)`);
+            const jitoClient = new EnhancedJitoClient(jitoClientConfig, tipPayer, feePayer);
+            console.log(`   🔗 Jito 客户端创建成功 (已配置签名者和连接)`);
 
             // 配置 Bundle 管理器
             const bundleConfig: BundleManagerConfig = {
@@ -107,12 +138,16 @@ export class RealComponentFactory {
                 bundleTimeout: jitoConfig.defaultBundleOptions.timeoutMs || 30000,
                 enableAutoRetry: true,
                 enablePerformanceMonitoring: jitoConfig.performance.enableMetrics,
-                enableEventNotifications: true
+                enableEventNotifications: true,
+                simulateBeforeSubmit: true
             };
 
-            // 创建 Bundle 管理器
-            const bundleManager = new BundleManager(jitoClient, bundleConfig);
-            console.log(`   ✅ Bundle 管理器创建成功`);
+            // 创建 Bundle 管理器，提交前通过 simulateBundle 模拟包括小费交易在内的全部交易，
+            // 状态跟踪器批量查询 Bundle 状态并订阅交易签名 (websocket 不可用时自动改为快速轮询)
+            const simulator = createRpcBundleSimulator(connection, jitoConfig);
+            const statusTracker = new BundleStatusTracker(jitoClient, connection);
+            const bundleManager = new BundleManager(jitoClient, bundleConfig, simulator, undefined, statusTracker);
+            console.log(`   ✅ Bundle 管理器创建成功 (模拟节点: ${(jitoConfig.simulationEndpoint ?? connection.rpcEndpoint).split('?')[0]})`);
 
             // 启动管理器
             await bundleManager.start();
@@ -126,6 +161,25 @@ export class RealComponentFactory {
         }
     }
 
+    /**
+     * 创建交易签名者
+     * 所有需要签名的组件 (交易编排器、Jito 小费交易) 共用同一个签名者
+     */
+    static async createSigner(source: SignerSource): Promise<TransactionSigner> {
+        console.log(`🏭 创建交易签名者 (${source.type})...`);
+
+        switch (source.type) {
+            case 'keypair':
+                return new KeypairSigner(source.keypair);
+            case 'keypair-file':
+                return KeypairSigner.fromFile(source.path);
+            case 'env':
+                return KeypairSigner.fromEnv(source.variable);
+            case 'remote':
+                return await RemoteSigner.connect(source.url);
+        }
+    }
+
     /**
      * 创建生产级连接
      * 使用 Helius RPC 和最佳配置
@@ -158,97 +212,34 @@ export class RealComponentFactory {
     }
 
     /**
-     * 创建测试钱包
-     * 使用固定地址: BkKsmbeuhbeKSLgHBLQaJMdfKhx8ccsqr2jbWm7TGWNz
+     * 创建签名者对应的钱包 (供协议 SDK 的 Provider 使用)
+     * 钱包不持有私钥，签名委托给签名者
      */
-    static createTestWallet(): Wallet {
-        console.log('👛 创建固定测试钱包...');
-
-        const fixedTestAddress = 'BkKsmbeuhbeKSLgHBLQaJMdfKhx8ccsqr2jbWm7TGWNz';
-        const fixedTestPrivateKey = '5h4KiRELYrdPqacLfAuPXRZj5zmn65pkDSEs4PuJcJk6ttEKJUwpJVcquPvdpFcwenFogeFUPrXTfTnYUYss3N2i';
-
-        // 优先使用内置的私钥
-        try {
-            // 直接使用 Solana 的 Keypair.fromSecretKey 方法
-            // 将 base58 私钥转换为 Uint8Array
-            const bs58 = require('bs58');
-            let secretKeyBytes: Uint8Array;
-
-            // 处理不同的 bs58 导入方式
-            if (typeof bs58.decode === 'function') {
-                secretKeyBytes = bs58.decode(fixedTestPrivateKey);
-            } else if (bs58.default && typeof bs58.default.decode === 'function') {
-                secretKeyBytes = bs58.default.decode(fixedTestPrivateKey);
-            } else {
-                throw new Error('bs58 decode 方法不可用');
-            }
-
-            const keypair = Keypair.fromSecretKey(secretKeyBytes);
-
-            // 验证地址是否匹配
-            if (keypair.publicKey.toBase58() === fixedTestAddress) {
-                console.log(`✅ 固定测试钱包 (完整功能): ${fixedTestAddress}`);
-                console.log(`🔑 支持交易签名 (使用内置私钥)`);
-                return new Wallet(keypair);
-            } else {
-                console.warn(`⚠️  内置私钥地址不匹配:`);
-                console.warn(`   期望地址: ${fixedTestAddress}`);
-                console.warn(`   实际地址: ${keypair.publicKey.toBase58()}`);
-            }
-        } catch (error) {
-            console.warn('⚠️  内置私钥解析失败:', error);
-            console.warn('   将使用只读模式');
-        }
-
-        // 检查环境变量私钥作为备选
-        const privateKeyEnv = process.env.TEST_WALLET_PRIVATE_KEY;
-        if (privateKeyEnv) {
-            try {
-                const privateKeyArray = JSON.parse(privateKeyEnv);
-                const keypair = Keypair.fromSecretKey(new Uint8Array(privateKeyArray));
-
-                if (keypair.publicKey.toBase58() === fixedTestAddress) {
-                    console.log(`✅ 固定测试钱包 (完整功能): ${fixedTestAddress}`);
-                    console.log(`🔑 支持交易签名 (使用环境变量)`);
-                    return new Wallet(keypair);
-                } else {
-                    console.warn(`⚠️  环境变量私钥地址不匹配，期望: ${fixedTestAddress}`);
-                    console.warn(`   实际地址: ${keypair.publicKey.toBase58()}`);
-                }
-            } catch (error) {
-                console.warn('⚠️  环境变量私钥格式错误:', error);
-            }
-        }
-
-        // 没有私钥时，创建只读模式
-        console.log(`✅ 固定测试钱包 (只读模式): ${fixedTestAddress}`);
-        console.log(`📖 只支持查询功能，不支持交易签名`);
-        console.log(`💡 如需交易功能，请设置 TEST_WALLET_PRIVATE_KEY 环境变量`);
-        console.log(`   格式: export TEST_WALLET_PRIVATE_KEY='[1,2,3,...]'`);
-
-        // 创建一个假的 Wallet 对象用于测试
-        const dummyKeypair = Keypair.generate();
-        const wallet = new Wallet(dummyKeypair);
-
-        // 替换 publicKey
-        Object.defineProperty(wallet, 'publicKey', {
-            value: new PublicKey(fixedTestAddress),
-            writable: false,
-            configurable: false
+    static createWallet(signer: TransactionSigner): Wallet {
+        // Wallet 需要密钥对: 使用临时密钥占位，公钥和签名方法替换为签名者的 (payer 不能用于签名)
+        const wallet = new Wallet(Keypair.generate());
+        Object.defineProperties(wallet, {
+            publicKey: { value: signer.publicKey, writable: false, configurable: false },
+            signTransaction: { value: signer.signTransaction.bind(signer), writable: false, configurable: false },
+            signAllTransactions: { value: signer.signAllTransactions.bind(signer), writable: false, configurable: false }
         });
 
+        console.log(`👛 钱包: ${signer.publicKey.toBase58()}`);
         return wallet;
     }
 
     /**
      * 创建完整的真实组件集合
      * 一键创建所有生产环境组建
+     * @param signerSource 签名者来源 (钱包、交换交易和小费交易共用)
      */
     static async createRealComponents(
+        signerSource: SignerSource,
         environment: 'development' | 'production' = 'development'
     ): Promise<{
         connection: Connection;
         wallet: Wallet;
+        signer: TransactionSigner;
         dexAggregator: DEXAggregator;
         bundleManager: BundleManager;
     }> {
@@ -259,26 +250,30 @@ export class RealComponentFactory {
             //1. 创建连接
             const connection = this.createProductionConnection();
 
-            //2. 创建钱包
-            const wallet = this.createTestWallet();
+            //2. 创建签名者
+            const signer = await this.createSigner(signerSource);
+
+            //3. 创建钱包
+            const wallet = this.createWallet(signer);
 
-            //3. 验证网络连接
+            //4. 验证网络连接
             await this.validateNetworkConnection(connection);
 
-            //4. 验证钱包余额
+            //5. 验证钱包余额
             await this.validateWalletBalance(connection, wallet);
 
-            //5. 创建 DEX 聚合器
+            //6. 创建 DEX 聚合器
             const dexAggregator = await this.createRealDexAggregator(connection, wallet);
 
-            //6. 创建 Bundle 管理器
-            const bundleManager = await this.createRealBundleManager(connection, wallet, environment);
+            //7. 创建 Bundle 管理器
+            const bundleManager = await this.createRealBundleManager(connection, signer, environment);
 
             console.log('✅ 所有真实组件创建完成！');
 
             return {
                 connection,
                 wallet,
+                signer,
                 dexAggregator,
                 bundleManager
             };
@@ -342,10 +337,11 @@ export class RealComponentFactory {
      * 清理资源
      * 优雅地关闭所有组件
      */
-    static async cleanup(bundleManager: BundleManager): Promise<void> {
+    static async cleanup(bundleManager: BundleManager, dexAggregator?: DEXAggregator): Promise<void> {
         console.log('🧹 清理资源...');
 
         try {
+            dexAggregator?.getBlockhashManager().stop();
             await bundleManager.stop();
             console.log('✅ 资源清理完成');
         } catch (error) {
@@ -1,6 +1,5 @@
-import { Transaction, Connection, Keypair } from '@solana/web3.js';
+import { Connection, TransactionError, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
 import BN from 'bn.js';
-import bs58 from 'bs58';
 
 // 导入类型定义
 import {
@@ -21,7 +20,18 @@ import {
 // 导入核心组件
 import { DEXAggregator } from '../aggregator/dex-aggregator';
 import { BundleManager } from '../jito/bundle-manager';
-import { BundleOptions } from '../../types/jito/bundle-types';
+import { BundleOptions, BundleSimulationResult } from '../../types/jito/bundle-types';
+import { BundleInstance } from '../../types/jito/bundle-manager-types';
+import { MAX_BUNDLE_TRANSACTIONS } from '../../config/jito-config';
+import { AggregatedRoute } from '../../types/dex/protocol';
+import { AssembledTransaction, LandingResult, NonceInfo, SimulationFailure } from '../../types/transaction/transaction-types';
+import { TransactionSimulator } from '../transaction/transaction-simulator';
+import { SimulationErrorDecoder } from '../transaction/simulation-error-decoder';
+import { TransactionSender } from '../transaction/transaction-sender';
+import { NonceAccountManager } from '../transaction/nonce-account-manager';
+import { SignerRegistry } from '../signer/signer-registry';
+import { TransactionSigner } from '../../types/signer/signer-types';
+import { getDurableNonceAccount, getRequiredSigners, getTransactionSignature } from '../../utils/transaction/transaction-utils';
 
 /**
  * 交易编排器
@@ -30,11 +40,23 @@ import { BundleOptions } from '../../types/jito/bundle-types';
  * 这是 Facade 层的核心组件, 将复杂的教育逻辑封装成简单的接口.
  */
 export class SwapOrchestrator {
+    private transactionSimulator: TransactionSimulator;
+    private simulationErrorDecoder: SimulationErrorDecoder;
+    private transactionSender: TransactionSender;
+    private nonceManager: NonceAccountManager;
+    private signers: SignerRegistry;
+
     constructor(
         private dexAggregator: DEXAggregator,
         private bundleManager: BundleManager,
-        private connection: Connection
+        private connection: Connection,
+        signers: TransactionSigner | TransactionSigner[] = []
     ) {
+        this.signers = new SignerRegistry(Array.isArray(signers) ? signers : [signers]);
+        this.simulationErrorDecoder = new SimulationErrorDecoder();
+        this.transactionSimulator = new TransactionSimulator(connection, this.simulationErrorDecoder);
+        this.transactionSender = new TransactionSender(connection, dexAggregator.getBlockhashManager());
+        this.nonceManager = new NonceAccountManager(connection);
         console.log('🎭 SwapOrchestrator 初始化完成');
     }
 
@@ -52,43 +74,37 @@ export class SwapOrchestrator {
             console.log(`   策略: 标准模式 (无 MEV 保护)`);
 
             // 1. 获取最优报价
-            const aggregatedRoute = await this.dexAggregator.getAggregatedQuote(
-                request.inputToken,
-                request.outputToken,
-                request.inputAmount,
-                request.slippage
-            );
+            const aggregatedRoute = await this.getAggregatedRoute(request);
 
             console.log(`   选择的 DEX: ${aggregatedRoute.recommendedDEX}`);
             console.log(`   预期输出: ${aggregatedRoute.bestQuote.outputAmount.toString()}`);
 
-            // 2. 构建交换指令
-            const swapInstruction = await this.dexAggregator.executeOptimalSwap(
-                aggregatedRoute,
-                request.userWallet,
-                request.inputToken,   // 需要实际的 token account
-                request.outputToken
-            );
+            // 2. 组装 v0 交易 (拆单和多跳路由包含多个交换指令)
+            const assembled = await this.buildSwapTransaction(aggregatedRoute, request);
+            const instructionCount = assembled.transaction.message.compiledInstructions.length;
 
-            // 3. 创建并提交交易
-            const transaction = new Transaction().add(swapInstruction);
+            // 3. 预执行模拟，注定失败的交易不提交
+            const simulation = await this.transactionSimulator.simulate(assembled.transaction);
+            if (simulation.failure) {
+                return this.createSimulationFailureResult(simulation.failure, Date.now() - startTime, 'STANDARD_SWAP');
+            }
 
-            // 4. 模拟执行结果 (在实际实现中应该真正提交交易)
+            // 4. 模拟执行结果 (在实际实现中应该签名并提交交易)
             const executionTime = Date.now() - startTime;
 
             const result: SwapResult = {
                 success: true,
                 signature: 'simulated_signature_' + Date.now(),
                 executedDex: aggregatedRoute.recommendedDEX,
-                actualInputAmount: request.inputAmount,
+                actualInputAmount: aggregatedRoute.bestQuote.inputAmount,
                 actualOutputAmount: aggregatedRoute.bestQuote.outputAmount,
                 actualPriceImpact: aggregatedRoute.bestQuote.priceImpact,
                 transactionFee: aggregatedRoute.bestQuote.fee,
                 executionTime,
                 details: {
                     route: aggregatedRoute.bestQuote.route,
-                    instructionCount: 1,
-                    computeUnitsUsed: aggregatedRoute.bestQuote.estimatedGas,
+                    instructionCount,
+                    computeUnitsUsed: assembled.computeBudget?.simulatedUnits ?? aggregatedRoute.bestQuote.estimatedGas,
                     networkCongestion: this.assessNetworkCongestion(),
                     executionStrategy: 'STANDARD_SWAP'
                 }
@@ -115,82 +131,41 @@ export class SwapOrchestrator {
             console.log(`   前置运行保护: ${request.enableFrontrunProtection}`);
 
             // 1. 获取最优报价
-            const aggregatedRoute = await this.dexAggregator.getAggregatedQuote(
-                request.inputToken,
-                request.outputToken,
-                request.inputAmount,
-                request.slippage
-            );
-
-            // 2. 构建交换指令
-            const swapInstruction = await this.dexAggregator.executeOptimalSwap(
-                aggregatedRoute,
-                request.userWallet,
-                request.inputToken,
-                request.outputToken
-            );
-
-            // 3. 创建交易
-            const transaction = new Transaction().add(swapInstruction);
+            const aggregatedRoute = await this.getAggregatedRoute(request);
+
+            // 2. 组装 v0 交易 (区块哈希和手续费支付者已设置)，启用前置运行保护时加入 jitodontfront 账户
+            const assembled = await this.buildSwapTransaction(aggregatedRoute, request, undefined, request.enableFrontrunProtection);
+            const { transaction } = assembled;
+            const instructionCount = transaction.message.compiledInstructions.length;
+
+            // 3. 预执行模拟，失败时不签名也不支付小费
+            const simulation = await this.transactionSimulator.simulate(transaction);
+            if (simulation.failure) {
+                return {
+                    ...this.createSimulationFailureResult(simulation.failure, Date.now() - startTime, 'MEV_PROTECTED_BUNDLE'),
+                    bundleId: '',
+                    bundleStatus: 'failed',
+                    mevProtection: {
+                        protectionLevel: 'premium',
+                        detectedThreats: [],
+                        appliedProtections: [],
+                        tipAmount: 0,
+                        protectionCost: new BN(0)
+                    }
+                };
+            }
 
             // 4. 签名交易 (MEV 保护需要签名的交易)
-            console.log('🔐 对交易进行签名...');
-            try {
-                // 设置最新的 blockhash
-                const { blockhash } = await this.connection.getLatestBlockhash();
-                transaction.recentBlockhash = blockhash;
-                transaction.feePayer = request.userWallet;
-
-                // 使用测试钱包私钥签名交易
-                const testWalletPrivateKey = '5h4KiRELYrdPqacLfAuPXRZj5zmn65pkDSEs4PuJcJk6ttEKJUwpJVcquPvdpFcwenFogeFUPrXTfTnYUYss3N2i';
-                const testWalletAddress = 'BkKsmbeuhbeKSLgHBLQaJMdfKhx8ccsqr2jbWm7TGWNz';
-
-                // 验证请求的钱包是否是我们的测试钱包
-                if (request.userWallet.toBase58() === testWalletAddress) {
-                    console.log('🔑 使用测试钱包私钥签名交易...');
-
-                    // 解码私钥并创建 Keypair
-                    const secretKeyBytes = bs58.decode(testWalletPrivateKey);
-                    const testKeypair = Keypair.fromSecretKey(secretKeyBytes);
-
-                    // 签名交易
-                    transaction.sign(testKeypair);
-
-                    console.log('✅ 交易签名完成');
-                    console.log(`   签名者: ${testKeypair.publicKey.toBase58()}`);
-                    console.log(`   签名: ${transaction.signature?.toString('base64').slice(0, 20)}...`);
-                } else {
-                    console.warn('⚠️  警告: 请求的钱包不是测试钱包，无法签名');
-                    console.warn(`   请求钱包: ${request.userWallet.toBase58()}`);
-                    console.warn(`   测试钱包: ${testWalletAddress}`);
-                    throw new Error('无法为非测试钱包签名交易');
-                }
-
-            } catch (error) {
-                console.error('❌ 交易签名失败:', error);
-                throw new Error(`交易签名失败: ${error}`);
-            }
+            await this.signTransaction(transaction);
 
             // 5. 配置 Bundle 选项
-            const bundleOptions: BundleOptions = {
-                encoding: 'base64',
-                priority: request.bundlePriority,
-                maxRetries: 3,
-                timeoutMs: request.maxWaitTime || 30000,
-                enableMevProtection: true,
-                tipStrategy: {
-                    mode: request.customTip ? 'manual' : 'auto',
-                    amount: request.customTip,
-                    percentile: 75, // 75th percentile for auto mode
-                    maxTip: 10000 // 0.01 SOL max tip
-                }
-            };
+            const bundleOptions = this.createBundleOptions(request.bundlePriority, request.customTip, request.maxWaitTime, request.enableFrontrunProtection);
 
-            // 5. 创建并提交 Bundle
+            // 6. 创建并提交 Bundle
             const bundle = await this.bundleManager.createBundle([transaction], bundleOptions);
             const submissionResult = await this.bundleManager.submitBundle(bundle.id);
 
-            // 6. 构建结果
+            // 7. 构建结果
             const executionTime = Date.now() - startTime;
 
             const result: BundleResult = {
@@ -199,7 +174,7 @@ export class SwapOrchestrator {
                 bundleId: submissionResult.bundleId,
                 bundleStatus: 'processing',
                 executedDex: aggregatedRoute.recommendedDEX,
-                actualInputAmount: request.inputAmount,
+                actualInputAmount: aggregatedRoute.bestQuote.inputAmount,
                 actualOutputAmount: aggregatedRoute.bestQuote.outputAmount,
                 actualPriceImpact: aggregatedRoute.bestQuote.priceImpact,
                 transactionFee: aggregatedRoute.bestQuote.fee,
@@ -213,8 +188,8 @@ export class SwapOrchestrator {
                 },
                 details: {
                     route: aggregatedRoute.bestQuote.route,
-                    instructionCount: 1,
-                    computeUnitsUsed: aggregatedRoute.bestQuote.estimatedGas,
+                    instructionCount,
+                    computeUnitsUsed: assembled.computeBudget?.simulatedUnits ?? aggregatedRoute.bestQuote.estimatedGas,
                     networkCongestion: this.assessNetworkCongestion(),
                     executionStrategy: 'MEV_PROTECTED_BUNDLE'
                 },
@@ -230,6 +205,43 @@ export class SwapOrchestrator {
         }
     }
 
+    /**
+     * 构建基于 durable nonce 的交换交易 (未签名)
+     * 交易在 nonce 被推进之前一直有效，可以现在签名 (如多签审批) 并在之后
+     * 通过 submitDurableTransaction 或 BundleManager 提交
+     */
+    async prepareDurableSwap(request: SwapRequest): Promise<AssembledTransaction> {
+        if (!request.durableNonce) {
+            throw new Error('构建 durable nonce 交易需要指定 durableNonce');
+        }
+
+        console.log('🔒 构建 durable nonce 交换交易...');
+        const aggregatedRoute = await this.getAggregatedRoute(request);
+        const assembled = await this.buildSwapTransaction(aggregatedRoute, request);
+
+        const simulation = await this.transactionSimulator.simulate(assembled.transaction);
+        if (simulation.failure) {
+            throw new Error(simulation.failure.message);
+        }
+
+        console.log(`✅ durable nonce 交易已构建，nonce: ${assembled.recentBlockhash}`);
+        return assembled;
+    }
+
+    /**
+     * 提交预先签名的 durable nonce 交易
+     * nonce 已被推进 (交易已失效或已被取消) 时不发送，返回 expired
+     */
+    async submitDurableTransaction(transaction: VersionedTransaction): Promise<LandingResult> {
+        const nonceAccount = getDurableNonceAccount(transaction);
+        if (!nonceAccount) {
+            throw new Error('交易不是 durable nonce 交易 (第一个指令不是推进 nonce)');
+        }
+
+        const nonce = await this.nonceManager.getNonce(nonceAccount);
+        return await this.transactionSender.sendDurableAndConfirm(transaction, nonce);
+    }
+
     /**
      * 执行批量交换
      * 支持多种批量执行策略
@@ -244,21 +256,25 @@ export class SwapOrchestrator {
 
             let results: SwapResult[] = [];
 
-            switch (request.strategy) {
-                case BatchStrategy.PARALLEL:
-                    results = await this.executeParallelSwaps(request.swaps, request.enableMevProtection);
-                    break;
+            if (request.atomic) {
+                results = await this.executeAtomicSwaps(request);
+            } else {
+                switch (request.strategy) {
+                    case BatchStrategy.PARALLEL:
+                        results = await this.executeParallelSwaps(request.swaps, request.enableMevProtection);
+                        break;
 
-                case BatchStrategy.SEQUENTIAL:
-                    results = await this.executeSequentialSwaps(request.swaps, request.enableMevProtection);
-                    break;
+                    case BatchStrategy.SEQUENTIAL:
+                        results = await this.executeSequentialSwaps(request.swaps, request.enableMevProtection);
+                        break;
 
-                case BatchStrategy.SMART:
-                    results = await this.executeSmartSwaps(request.swaps, request.enableMevProtection);
-                    break;
+                    case BatchStrategy.SMART:
+                        results = await this.executeSmartSwaps(request.swaps, request.enableMevProtection);
+                        break;
 
-                default:
-                    throw new Error(`不支持的批量执行策略: ${request.strategy}`);
+                    default:
+                        throw new Error(`不支持的批量执行策略: ${request.strategy}`);
+                }
             }
 
             // 统计结果
@@ -295,6 +311,127 @@ export class SwapOrchestrator {
     }
     // ==================== 私有辅助方法 ====================
 
+    /**
+     * 按交换模式获取最优报价
+     * 精确输出模式下 request.inputAmount 为可接受的最大输入，报价的最大输入超出时拒绝执行
+     */
+    private async getAggregatedRoute(request: SwapRequest): Promise<AggregatedRoute> {
+        if (request.swapMode !== 'ExactOut') {
+            return await this.dexAggregator.getAggregatedQuote(
+                request.inputToken,
+                request.outputToken,
+                request.inputAmount,
+                request.slippage
+            );
+        }
+
+        if (!request.outputAmount || request.outputAmount.lten(0)) {
+            throw new Error('精确输出模式下输出金额必须大于0');
+        }
+
+        const aggregatedRoute = await this.dexAggregator.getAggregatedQuoteExactOut(
+            request.inputToken,
+            request.outputToken,
+            request.outputAmount,
+            request.slippage
+        );
+
+        const maxInputAmount = aggregatedRoute.bestQuote.maxInputAmount ?? aggregatedRoute.bestQuote.inputAmount;
+        if (maxInputAmount.gt(request.inputAmount)) {
+            throw new Error(
+                `最大输入金额 ${maxInputAmount.toString()} 超过可接受上限 ${request.inputAmount.toString()}`
+            );
+        }
+
+        console.log(`   精确输出: ${request.outputAmount.toString()}，最大输入: ${maxInputAmount.toString()}`);
+        return aggregatedRoute;
+    }
+
+    /**
+     * 组装交换交易 (v0，未签名)
+     * 序列化大小超过上限的交易在签名前拒绝
+     * @param tipInstruction 追加在交易末尾的 Jito 小费指令 (原子 Bundle 的最后一笔交易)
+     */
+    private async buildSwapTransaction(
+        route: AggregatedRoute,
+        request: SwapRequest,
+        tipInstruction?: TransactionInstruction,
+        dontFront: boolean = false,
+        skipComputeSimulation: boolean = false
+    ): Promise<AssembledTransaction> {
+        const nonce = request.durableNonce ? await this.getDurableNonce(request) : undefined;
+        const assembled = await this.dexAggregator.buildVersionedSwapTransaction(
+            route,
+            request.userWallet,
+            request.inputToken,
+            request.outputToken,
+            { priority: request.priority, nonce, feePayer: request.feePayer, tipInstruction, dontFront, skipComputeSimulation }
+        );
+
+        if (!assembled.withinSizeLimit) {
+            throw new Error(`交易大小 ${assembled.serializedSize} 字节超过上限 ${assembled.maxSize} 字节`);
+        }
+        return assembled;
+    }
+
+    /**
+     * 创建 Bundle 选项
+     * 指定自定义小费时使用固定小费，否则按 75 百分位自动计算；
+     * 启用 MEV 保护时 Bundle 的第一笔交易必须已包含 jitodontfront 账户
+     */
+    private createBundleOptions(
+        priority: ProtectedSwapRequest['bundlePriority'],
+        customTip?: number,
+        maxWaitTime?: number,
+        enableMevProtection: boolean = true
+    ): BundleOptions {
+        return {
+            encoding: 'base64',
+            priority,
+            maxRetries: 3,
+            timeoutMs: maxWaitTime || 30000,
+            enableMevProtection,
+            tipStrategy: {
+                mode: customTip ? 'manual' : 'auto',
+                amount: customTip,
+                percentile: 75, // 75th percentile for auto mode
+                maxTip: 10000 // 0.01 SOL max tip
+            }
+        };
+    }
+
+    /**
+     * 使用注入的签名者签名交易
+     * 手续费支付者与代币所有者分离时，两者的签名者都必须已注入
+     */
+    private async signTransaction(transaction: VersionedTransaction): Promise<void> {
+        console.log('🔐 对交易进行签名...');
+
+        try {
+            await this.signers.signTransaction(transaction);
+        } catch (error) {
+            console.error('❌ 交易签名失败:', error);
+            throw new Error(`交易签名失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        console.log('✅ 交易签名完成');
+        console.log(`   签名者: ${getRequiredSigners(transaction).map(signer => signer.toBase58()).join(', ')}`);
+        console.log(`   签名: ${getTransactionSignature(transaction)?.slice(0, 20)}...`);
+    }
+
+    /**
+     * 读取请求指定的 nonce 账户并校验授权者
+     */
+    private async getDurableNonce(request: SwapRequest): Promise<NonceInfo> {
+        const { nonceAccount, authority = request.userWallet } = request.durableNonce!;
+        const nonce = await this.nonceManager.getNonce(nonceAccount);
+
+        if (!nonce.authority.equals(authority)) {
+            throw new Error(`nonce 账户授权者 ${nonce.authority.toBase58()} 与请求不符 ${authority.toBase58()}`);
+        }
+        return nonce;
+    }
+
     /**
      * 并行执行交换
      */
@@ -358,6 +495,142 @@ export class SwapOrchestrator {
         return results;
     }
 
+    /**
+     * 原子执行交换
+     * 所有交换 (最多 5 笔) 编译为同一个 Jito Bundle，整体落地或整体失败。
+     * 小费指令放在最后一笔交易中，提交时不再追加单独的小费交易；
+     * 各笔交易签名后由 Bundle 管理器的模拟器整体模拟 (同一状态上依次执行，包括小费)，
+     * 后一笔交易可以使用前一笔的输出，因此不逐笔模拟，各笔交易的CU上限按整体模拟测得的CU设置后重新签名；
+     * 任一交换报价、组装或模拟失败时不提交，结果按请求顺序与交换一一对应
+     */
+    private async executeAtomicSwaps(request: BatchSwapRequest): Promise<SwapResult[]> {
+        console.log('⚛️ 使用原子 Bundle 执行策略...');
+
+        const startTime = Date.now();
+        const { swaps } = request;
+        if (swaps.length === 0 || swaps.length > MAX_BUNDLE_TRANSACTIONS) {
+            throw new Error(`原子批量交换需要 1 到 ${MAX_BUNDLE_TRANSACTIONS} 笔交换，当前 ${swaps.length} 笔`);
+        }
+
+        const lastSwap = swaps[swaps.length - 1];
+        const tipPayer = request.tipPayer ?? lastSwap.feePayer ?? lastSwap.userWallet;
+        const bundleOptions = this.createBundleOptions(request.bundlePriority ?? 'medium', request.customTip);
+
+        // 1. 逐笔报价并组装，jitodontfront 账户放入第一笔交易，小费指令放入最后一笔交易
+        const legs: { route: AggregatedRoute; assembled: AssembledTransaction }[] = [];
+        let tipAmount = 0;
+        for (let i = 0; i < swaps.length; i++) {
+            try {
+                const route = await this.getAggregatedRoute(swaps[i]);
+
+                let tipInstruction: TransactionInstruction | undefined;
+                if (i === swaps.length - 1) {
+                    const tip = await this.bundleManager.createTipInstruction(tipPayer, bundleOptions);
+                    tipInstruction = tip.instruction;
+                    tipAmount = tip.tipAmount;
+                }
+
+                const assembled = await this.buildSwapTransaction(route, swaps[i], tipInstruction, i === 0 && bundleOptions.enableMevProtection, true);
+                console.log(`   第 ${i + 1} 笔: ${route.recommendedDEX}，预期输出 ${route.bestQuote.outputAmount.toString()}`);
+                legs.push({ route, assembled });
+            } catch (error) {
+                console.error(`❌ 原子批量第 ${i + 1} 笔交换失败:`, error);
+                const failure = this.createErrorResult(error, Date.now() - startTime, 'ATOMIC_BUNDLE');
+                return this.createAtomicFailureResults(swaps.length, i, failure);
+            }
+        }
+
+        // 2. 签名后作为一个 Bundle 整体模拟，小费固定为已放入交易的金额
+        let bundle: BundleInstance | undefined;
+        try {
+            for (const { assembled } of legs) {
+                await this.signTransaction(assembled.transaction);
+            }
+
+            bundle = await this.bundleManager.createBundle(
+                legs.map(leg => leg.assembled.transaction),
+                { ...bundleOptions, tipStrategy: { mode: 'manual', amount: tipAmount } }
+            );
+
+            // 后一笔交换可以使用前一笔的输出，逐笔模拟会误报失败
+            const simulation = await this.bundleManager.simulateBundle(bundle.id);
+            if (!simulation.success) {
+                await this.bundleManager.cancelBundle(bundle.id);
+                const failedIndex = Math.min(simulation.failedTransactionIndex ?? legs.length - 1, legs.length - 1);
+                const failure = this.createBundleSimulationFailureResult(simulation, legs[failedIndex].assembled.transaction, Date.now() - startTime);
+                return this.createAtomicFailureResults(swaps.length, failedIndex, failure);
+            }
+            console.log(`🔬 原子 Bundle 模拟通过，${simulation.transactions.length} 笔交易`);
+
+            // 3. 按整体模拟测得的CU设置各笔交易的CU上限，重新签名后替换 Bundle 中的交易
+            for (const [index, leg] of legs.entries()) {
+                const unitsConsumed = simulation.transactions[index]?.unitsConsumed;
+                if (unitsConsumed === undefined) {
+                    continue;
+                }
+                leg.assembled = this.dexAggregator.applyMeasuredComputeUnits(leg.assembled, unitsConsumed);
+                await this.signTransaction(leg.assembled.transaction);
+            }
+            bundle = await this.bundleManager.replaceTransactions(bundle.id, legs.map(leg => leg.assembled.transaction));
+
+            // 4. 提交 Bundle
+            const submissionResult = await this.bundleManager.submitBundle(bundle.id);
+            if (submissionResult.status !== 'submitted') {
+                throw new Error(`Bundle 提交失败: ${submissionResult.error ?? '未知错误'}`);
+            }
+
+            const executionTime = Date.now() - startTime;
+            console.log(`✅ 原子 Bundle 已提交: ${submissionResult.bundleId}，${legs.length} 笔交换，小费 ${tipAmount} lamports`);
+
+            return legs.map(({ route, assembled }, index): BundleResult => {
+                const legTip = index === legs.length - 1 ? tipAmount : 0;
+                return {
+                    success: true,
+                    signature: getTransactionSignature(assembled.transaction) ?? '',
+                    bundleId: submissionResult.bundleId,
+                    bundleStatus: 'processing',
+                    executedDex: route.recommendedDEX,
+                    actualInputAmount: route.bestQuote.inputAmount,
+                    actualOutputAmount: route.bestQuote.outputAmount,
+                    actualPriceImpact: route.bestQuote.priceImpact,
+                    transactionFee: route.bestQuote.fee,
+                    executionTime,
+                    mevProtection: {
+                        protectionLevel: 'premium',
+                        detectedThreats: [],
+                        appliedProtections: ['jito_bundle', 'atomic_batch'],
+                        tipAmount: legTip,
+                        protectionCost: new BN(legTip)
+                    },
+                    details: {
+                        route: route.bestQuote.route,
+                        instructionCount: assembled.transaction.message.compiledInstructions.length,
+                        computeUnitsUsed: assembled.computeBudget?.simulatedUnits ?? route.bestQuote.estimatedGas,
+                        networkCongestion: this.assessNetworkCongestion(),
+                        executionStrategy: 'ATOMIC_BUNDLE'
+                    },
+                    bundleInstance: bundle
+                };
+            });
+        } catch (error) {
+            console.error('❌ 原子 Bundle 提交失败:', error);
+            if (bundle && !bundle.bundleId) {
+                await this.bundleManager.cancelBundle(bundle.id);
+            }
+            return swaps.map(() => this.createErrorResult(error, Date.now() - startTime, 'ATOMIC_BUNDLE'));
+        }
+    }
+
+    /**
+     * 创建原子批量的失败结果
+     * 失败的交换使用其自身的错误，其余交换标记为因整个 Bundle 未提交而失败
+     */
+    private createAtomicFailureResults(count: number, failedIndex: number, failure: SwapResult): SwapResult[] {
+        return Array.from({ length: count }, (_, index) => index === failedIndex
+            ? failure
+            : this.createErrorResult(`原子批量中第 ${failedIndex + 1} 笔交换失败，Bundle 未提交`, failure.executionTime, 'ATOMIC_BUNDLE'));
+    }
+
     /**
      * 智能执行交换
      * 根据交易特征自动选择最优策略
@@ -468,6 +741,40 @@ export class SwapOrchestrator {
         };
     }
 
+    /**
+     * 创建预执行模拟失败结果
+     * 使用解码后的失败原因作为错误，保留出错程序、错误码和日志
+     */
+    private createSimulationFailureResult(failure: SimulationFailure, executionTime: number, context: string): SwapResult {
+        return {
+            ...this.createErrorResult(failure.message, executionTime, context),
+            error: failure
+        };
+    }
+
+    /**
+     * 创建 Bundle 模拟失败结果
+     * 解码第一笔失败交易的错误 (失败的是追加的小费交易时不按交易的程序定位)
+     */
+    private createBundleSimulationFailureResult(simulation: BundleSimulationResult, transaction: VersionedTransaction, executionTime: number): SwapResult {
+        const failed = simulation.failedTransactionIndex !== undefined ? simulation.transactions[simulation.failedTransactionIndex] : undefined;
+        const message = failed?.error ?? simulation.error ?? '未知错误';
+
+        let error: TransactionError;
+        try {
+            error = JSON.parse(message);
+        } catch {
+            return this.createErrorResult(`Bundle 模拟失败: ${message}`, executionTime, 'ATOMIC_BUNDLE');
+        }
+
+        const { staticAccountKeys, compiledInstructions } = transaction.message;
+        const programIds = failed && failed.signature === getTransactionSignature(transaction)
+            ? compiledInstructions.map(instruction => staticAccountKeys[instruction.programIdIndex])
+            : [];
+        const failure = this.simulationErrorDecoder.decode(error, failed?.logs ?? [], programIds);
+        return this.createSimulationFailureResult(failure, executionTime, 'ATOMIC_BUNDLE');
+    }
+
     /**
      * 计算总节省金额
      */
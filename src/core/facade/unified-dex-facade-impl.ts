@@ -8,6 +8,7 @@ import {
     TradingPair,
     MarketData,
     SystemStatus,
+    ComponentStatus,
     PerformanceStats
 } from './unified-dex-facade';
 
@@ -33,10 +34,11 @@ import {
 // 导入核心组件
 import { DEXAggregator } from "../aggregator/dex-aggregator";
 import { BundleManager } from '../jito/bundle-manager';
-import { AggregatedRoute, DEXProtocol } from '../../types/dex/protocol';
+import { AggregatedRoute, DEXProtocol, ProtocolHealth } from '../../types/dex/protocol';
 import { SwapOrchestrator } from './swap-orchestrator';
 import { EnhancedJitoClient } from '../jito/jito-client';
 import { BundleManagerConfig } from '../../types/jito/bundle-manager-types';
+import { TransactionSigner } from '../../types/signer/signer-types';
 
 /**
  * 统一 DEX Facade 实现类
@@ -67,7 +69,8 @@ export class UnifiedDexFacadeImpl implements IUnifiedDexFacade {
     constructor(
         dexAggregator: DEXAggregator,
         bundleManager: BundleManager,
-        connection: Connection
+        connection: Connection,
+        signers: TransactionSigner | TransactionSigner[]
     ) {
         this.dexAggregator = dexAggregator;
         this.bundleManager = bundleManager;
@@ -75,7 +78,8 @@ export class UnifiedDexFacadeImpl implements IUnifiedDexFacade {
         this.swapOrchestrator = new SwapOrchestrator(
             dexAggregator,
             bundleManager,
-            connection
+            connection,
+            signers
         );
 
         // 初始化统计数据
@@ -104,8 +108,13 @@ export class UnifiedDexFacadeImpl implements IUnifiedDexFacade {
 
         try {
             console.log('🔄 开始执行代币交换...');
-            console.log(`   输入: ${request.inputAmount.toString()} ${request.inputToken.toBase58().slice(0, 8)}...`);
-            console.log(`   输出: ${request.outputToken.toBase58().slice(0, 8)}...`);
+            if (request.swapMode === 'ExactOut') {
+                console.log(`   输入: 最多 ${request.inputAmount.toString()} ${request.inputToken.toBase58().slice(0, 8)}...`);
+                console.log(`   输出: ${request.outputAmount?.toString()} ${request.outputToken.toBase58().slice(0, 8)}... (精确输出)`);
+            } else {
+                console.log(`   输入: ${request.inputAmount.toString()} ${request.inputToken.toBase58().slice(0, 8)}...`);
+                console.log(`   输出: ${request.outputToken.toBase58().slice(0, 8)}...`);
+            }
             console.log(`   滑点: ${(request.slippage * 100).toFixed(2)}%`);
             console.log(`   MEV保护: ${request.enableMevProtection ? '启用' : '禁用'}`);
 
@@ -166,12 +175,15 @@ export class UnifiedDexFacadeImpl implements IUnifiedDexFacade {
                 },
                 advantages: this.calculateAdvantages(aggregatedRoute),
                 riskAssessment: this.assessRisk(aggregatedRoute.bestQuote),
-                successProbability: this.calculateSuccessProbability(aggregatedRoute.bestQuote)
+                successProbability: this.calculateSuccessProbability(aggregatedRoute.bestQuote),
+                quoteAge: this.dexAggregator.getQuoteAge(aggregatedRoute),
+                quoteSlot: aggregatedRoute.bestQuote.slot
             };
 
             console.log(`✅ 最优报价: ${enhancedQuote.bestQuote.dexName}`);
             console.log(`   输出金额: ${enhancedQuote.bestQuote.outputAmount.toString()}`);
             console.log(`   价格影响: ${(enhancedQuote.bestQuote.priceImpact * 100).toFixed(4)}%`);
+            console.log(`   报价年龄: ${enhancedQuote.quoteAge}ms (slot ${enhancedQuote.quoteSlot ?? '未知'})`);
 
             return enhancedQuote;
 
@@ -336,37 +348,39 @@ export class UnifiedDexFacadeImpl implements IUnifiedDexFacade {
             console.log('💰 估算交易成本...');
 
             // 获取报价以估算费用
-            const quote = await this.dexAggregator.getAggregatedQuote(
+            const route = await this.dexAggregator.getAggregatedQuote(
                 request.inputToken,
                 request.outputToken,
                 request.inputAmount,
                 request.slippage
             );
 
-            // 基础网络费用 (估算)
-            const networkFee = new BN(5000); // 约 0.005 SOL
-
-            // DEX 手续费
-            const dexFee = quote.bestQuote.fee;
-
-            // MEV 保护费用
-            const mevProtectionFee = request.enableMevProtection ? new BN(2000) : new BN(0);
+            // 按用户钱包检查需要新建的代币账户，启用 MEV 保护时计入 Jito 小费
+            const breakdown = await this.dexAggregator.estimateExecutionCost(route, {
+                userWallet: request.userWallet,
+                includeTip: request.enableMevProtection
+            });
 
-            // 总成本
-            const totalCost = networkFee.add(dexFee).add(mevProtectionFee);
-
-            // 成本百分比
-            const costPercentage = totalCost.toNumber() / request.inputAmount.toNumber() * 100;
+            // 成本占比: (折算后的执行成本 + DEX 手续费) / 扣除手续费前的输出价值
+            const grossOutput = route.bestQuote.outputAmount.add(breakdown.dexFee);
+            const costPercentage = grossOutput.isZero()
+                ? 0
+                : Number(breakdown.totalCost.add(breakdown.dexFee).toString()) / Number(grossOutput.toString()) * 100;
 
             const estimate: TransactionCostEstimate = {
-                networkFee,
-                dexFee,
-                mevProtectionFee,
-                totalCost,
-                costPercentage
+                networkFee: breakdown.networkFeeLamports,
+                priorityFee: breakdown.priorityFeeLamports,
+                accountRent: breakdown.accountRentLamports,
+                dexFee: breakdown.dexFee,
+                mevProtectionFee: breakdown.tipLamports,
+                totalCost: breakdown.totalCostLamports,
+                netOutputAmount: breakdown.netOutputAmount,
+                costPercentage,
+                breakdown
             };
 
-            console.log(`✅ 成本估算完成: ${totalCost.toString()} lamports (${costPercentage.toFixed(4)}%)`);
+            console.log(`✅ 成本估算完成: ${estimate.totalCost.toString()} lamports (${costPercentage.toFixed(4)}%)`);
+            console.log(`   净输出: ${estimate.netOutputAmount.toString()}`);
             return estimate;
 
         } catch (error) {
@@ -385,7 +399,7 @@ export class UnifiedDexFacadeImpl implements IUnifiedDexFacade {
                 {
                     baseToken: new PublicKey('So11111111111111111111111111111111111111112'), // SOL
                     quoteToken: new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'), // USDC
-                    supportedDexes: ['Orca', 'Jupiter', 'Raydium'],
+                    supportedDexes: ['Orca', 'Jupiter', 'Raydium', 'Raydium CLMM', 'Raydium CPMM'],
                     minTradeAmount: new BN(1000), // 0.001 SOL
                     maxTradeAmount: new BN(1000000000) // 1000 SOL
                 }
@@ -429,14 +443,27 @@ export class UnifiedDexFacadeImpl implements IUnifiedDexFacade {
             // 检查各组件状态
             const now = new Date();
 
+            // DEX 协议状态来自聚合器的熔断器和滚动健康分
+            const protocols = this.dexAggregator.getProtocolHealth();
+            const availableProtocols = protocols.filter(protocol => protocol.state !== 'open');
+            const sampledProtocols = protocols.filter(protocol => protocol.sampleCount > 0);
+            const lastProtocolCall = protocols
+                .map(protocol => protocol.lastCallAt?.getTime() ?? 0)
+                .reduce((latest, time) => Math.max(latest, time), 0);
+
+            const dexAggregatorStatus: ComponentStatus = {
+                status: availableProtocols.length === 0 ? 'error' : 'online',
+                responseTime: sampledProtocols.length > 0
+                    ? Math.round(sampledProtocols.reduce((sum, protocol) => sum + protocol.averageLatencyMs, 0) / sampledProtocols.length)
+                    : undefined,
+                error: availableProtocols.length === 0 ? '所有 DEX 协议均已熔断' : undefined,
+                lastActivity: lastProtocolCall > 0 ? new Date(lastProtocolCall) : now
+            };
+
             const systemStatus: SystemStatus = {
-                overall: 'healthy',
+                overall: this.determineOverallStatus(protocols, dexAggregatorStatus),
                 components: {
-                    dexAggregator: {
-                        status: 'online',
-                        responseTime: 150,
-                        lastActivity: now
-                    },
+                    dexAggregator: dexAggregatorStatus,
                     bundleManager: {
                         status: 'online',
                         responseTime: 200,
@@ -447,16 +474,16 @@ export class UnifiedDexFacadeImpl implements IUnifiedDexFacade {
                         responseTime: 300,
                         lastActivity: now
                     },
-                    rpcConnections: {
-                        status: 'online',
-                        responseTime: 100,
-                        lastActivity: now
-                    }
+                    rpcConnections: await this.checkRpcConnection()
                 },
+                protocols,
                 lastChecked: now
             };
 
             console.log(`✅ 系统状态检查完成: ${systemStatus.overall}`);
+            protocols.forEach(protocol => {
+                console.log(`   ${protocol.name}: ${protocol.state}，健康分 ${protocol.healthScore.toFixed(2)}`);
+            });
             return systemStatus;
 
         } catch (error) {
@@ -506,6 +533,43 @@ export class UnifiedDexFacadeImpl implements IUnifiedDexFacade {
 
     // ==================== 辅助方法实现 ====================
 
+    /**
+     * 检查 RPC 连接状态
+     * 以获取当前 slot 的耗时作为响应时间
+     */
+    private async checkRpcConnection(): Promise<ComponentStatus> {
+        const startTime = Date.now();
+        try {
+            await this.connection.getSlot();
+            return {
+                status: 'online',
+                responseTime: Date.now() - startTime,
+                lastActivity: new Date()
+            };
+        } catch (error) {
+            return {
+                status: 'error',
+                responseTime: Date.now() - startTime,
+                error: error instanceof Error ? error.message : String(error),
+                lastActivity: new Date()
+            };
+        }
+    }
+
+    /**
+     * 根据协议健康状况确定整体状态
+     * 全部协议熔断为 unhealthy，部分熔断或健康分偏低为 degraded
+     */
+    private determineOverallStatus(protocols: ProtocolHealth[], dexAggregatorStatus: ComponentStatus): 'healthy' | 'degraded' | 'unhealthy' {
+        if (dexAggregatorStatus.status !== 'online') {
+            return 'unhealthy';
+        }
+        if (protocols.some(protocol => protocol.state !== 'closed' || protocol.healthScore < 0.8)) {
+            return 'degraded';
+        }
+        return 'healthy';
+    }
+
     /**
      * 确定推荐原因
      */
@@ -617,12 +681,14 @@ export class UnifiedDexFacadeFactory {
      * @param connection Solana 连接
      * @param dexAggregator 已配置的 DEX 聚合器
      * @param bundleManager 已配置的 Bundle 管理器
+     * @param signers 交易签名者 (手续费支付者和 userWallet)
      * @returns 配置完成的 Facade 实例
      */
     static create(
         connection: Connection,
         dexAggregator: DEXAggregator,
-        bundleManager: BundleManager
+        bundleManager: BundleManager,
+        signers: TransactionSigner | TransactionSigner[]
     ): UnifiedDexFacadeImpl {
         try {
             console.log('🏭 开始创建 UnifiedDexFacade...');
@@ -631,7 +697,8 @@ export class UnifiedDexFacadeFactory {
             const facade = new UnifiedDexFacadeImpl(
                 dexAggregator,
                 bundleManager,
-                connection
+                connection,
+                signers
             );
 
             console.log('✅ UnifiedDexFacade 创建完成');
@@ -646,8 +713,9 @@ export class UnifiedDexFacadeFactory {
     /**
      * 创建演示用的 Facade 实例
      * 使用模拟的组件进行演示
+     * @param signers 交易签名者
      */
-    static createDemo(connection: Connection): UnifiedDexFacadeImpl {
+    static createDemo(connection: Connection, signers: TransactionSigner | TransactionSigner[]): UnifiedDexFacadeImpl {
         console.log('🎭 创建演示用 UnifiedDexFacade...');
 
         // 注意：这里使用 null 作为占位符
@@ -658,7 +726,8 @@ export class UnifiedDexFacadeFactory {
         return new UnifiedDexFacadeImpl(
             dexAggregator,
             bundleManager,
-            connection
+            connection,
+            signers
         );
     }
 }
\ No newline at end of file
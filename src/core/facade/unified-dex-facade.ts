@@ -25,7 +25,7 @@ import {
 // 导入现有的核心组件
 import { DEXAggregator } from "../aggregator/dex-aggregator";
 import { BundleManager } from '../jito/bundle-manager';
-import { DEXProtocol } from '../../types/dex/protocol';
+import { DEXProtocol, ProtocolHealth, QuoteCostBreakdown } from '../../types/dex/protocol';
 
 /**
  * 统一 DEX Facade 接口
@@ -42,6 +42,7 @@ export interface IUnifiedDexFacade {
     /**
      * 执行代币交换
      * 自动选择最优 DEX 并执行交易
+     * 支持精确输入和精确输出 (request.swapMode 为 'ExactOut') 两种模式
      * @param request 交换请求参数
      * @returns 交换结果
      */
@@ -121,17 +122,29 @@ export interface TransactionCostEstimate {
     /** 网络 Gas 费 (lamports) */
     networkFee: BN;
 
-    /** DEX 手续费 (lamports) */
+    /** 优先费 (lamports) */
+    priorityFee: BN;
+
+    /** 新建代币账户的租金 (lamports) */
+    accountRent: BN;
+
+    /** DEX 手续费 (输出代币计价，已包含在报价的输出金额中) */
     dexFee: BN;
 
-    /** MEV 保护费用 (lamports) */
+    /** MEV 保护费用 (Jito 小费，lamports) */
     mevProtectionFee: BN;
 
-    /** 总成本 (lamports) */
+    /** 总成本 (lamports，不含已包含在报价中的 DEX 手续费) */
     totalCost: BN;
 
-    /** 成本占交易金额的百分比 */
+    /** 扣除执行成本后的净输出金额 */
+    netOutputAmount: BN;
+
+    /** 成本 (含 DEX 手续费) 占交易总价值的百分比，按输出代币计算 */
     costPercentage: number;
+
+    /** 最佳报价的完整执行成本明细 */
+    breakdown: QuoteCostBreakdown;
 }
 
 /**
@@ -189,6 +202,9 @@ export interface SystemStatus {
         rpcConnections: ComponentStatus;
     };
 
+    /** 各 DEX 协议的熔断状态和健康分 */
+    protocols: ProtocolHealth[];
+
     /** 最后检查时间 */
     lastChecked: Date;
 }
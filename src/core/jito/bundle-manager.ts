@@ -1,6 +1,10 @@
-import { Transaction } from '@solana/web3.js'
 import { v4 as uuidv4 } from 'uuid'
+import { PublicKey, SignatureStatus, TransactionInstruction } from '@solana/web3.js'
 import { EnhancedJitoClient } from './jito-client'
+import { TipModel } from './tip-model'
+import { BundleStatusTracker } from './bundle-status-tracker'
+import { WalletLedger } from '../account-manager/wallet-ledger'
+import { InMemoryBundleStore, fromBundleRecord, toBundleRecord } from './bundle-store'
 import {
     BundleManagerConfig,
     BundleInstance,
@@ -16,13 +20,20 @@ import {
 } from '../../types/jito/bundle-manager-types'
 import {
     BundleOptions,
+    BundleTransaction,
     BundleSubmissionResult,
     BundleStatusResult,
     BundleStatus,
-
+    BundleStatusUpdate,
+    BundleSimulationResult,
+    BundleSimulator,
+    PreparedBundle
 } from '../../types/jito/bundle-types'
+import { getTransactionSignature, isTransactionSigned } from '../../utils/transaction/transaction-utils'
 import { JitoError } from '../../types/jito/jito-types'
-import { error } from 'console'
+import { LandingTarget, TipObservation, TipRecommendation } from '../../types/jito/tip-model-types'
+import { BundleStore, BundleTransition } from '../../types/jito/bundle-store-types'
+import { MAX_BUNDLE_TRANSACTIONS } from '../../config/jito-config'
 
 /**
  * Bundle 管理器核心类
@@ -36,9 +47,28 @@ export class BundleManager implements IBundleManager {
     private statusCheckTimer?: NodeJS.Timeout
     private isRunning: boolean = false
     private stats: BundleManagerStats
-
-    constructor(jitoClient: EnhancedJitoClient, config?: Partial<BundleManagerConfig>) {
+    private simulator?: BundleSimulator // Bundle 模拟器 (注入时可作为提交前的检查)
+    private tipModel: TipModel // 根据已完成 Bundle 的小费和落地结果拟合的小费模型
+    private statusTracker?: BundleStatusTracker // Bundle 状态跟踪器 (注入时替代逐个轮询)
+    private store: BundleStore // Bundle 持久化存储 (记录状态转换，重启时恢复未完成的 Bundle)
+    private ledger: WalletLedger // 钱包账本 (记录已落地 Bundle 的小费，可与 SwapEngine 的账本共用)
+
+    constructor(
+        jitoClient: EnhancedJitoClient,
+        config?: Partial<BundleManagerConfig>,
+        simulator?: BundleSimulator,
+        tipModel: TipModel = new TipModel(),
+        statusTracker?: BundleStatusTracker,
+        store: BundleStore = new InMemoryBundleStore(),
+        ledger: WalletLedger = new WalletLedger()
+    ) {
         this.jitoClient = jitoClient
+        this.simulator = simulator
+        this.tipModel = tipModel
+        this.statusTracker = statusTracker
+        this.store = store
+        this.ledger = ledger
+        this.statusTracker?.onStatusChange(update => this.handleStatusUpdate(update))
         this.config = this.mergeConfig(config)  // mergeConfig 合并配置
         this.bundles = new Map()
         this.eventListeners = new Map()
@@ -58,7 +88,8 @@ export class BundleManager implements IBundleManager {
             bundleTimeout: 60000, // 60秒超时
             enableAutoRetry: true,
             enablePerformanceMonitoring: true,
-            enableEventNotifications: true
+            enableEventNotifications: true,
+            simulateBeforeSubmit: true
         }
 
         return { ...defaultConfig, ...userConfig }
@@ -125,7 +156,7 @@ export class BundleManager implements IBundleManager {
      * 创建 Bundle
      * 创建新的 Bundle 实例但不立即提交
      */
-    async createBundle(transactions: Transaction[], options?: Partial<BundleOptions>): Promise<BundleInstance> {
+    async createBundle(transactions: BundleTransaction[], options?: Partial<BundleOptions>): Promise<BundleInstance> {
         try {
             // 验证输入
             this.validateCreateBundleInput(transactions, options)
@@ -147,6 +178,7 @@ export class BundleManager implements IBundleManager {
 
             // 存储 Bundle
             this.bundles.set(bundleId, bundle)
+            await this.persist(bundle, { reason: 'created' })
 
             // 更新统计信息
             this.updateStats('created')
@@ -165,9 +197,117 @@ export class BundleManager implements IBundleManager {
         }
     }
 
+    /**
+     * 创建小费指令
+     * 用于原子批量交换: 小费放入 Bundle 的最后一笔交易 (由该交易的签名者支付)，
+     * 提交时检测到已有小费转账，不再追加单独的小费交易，Bundle 可以容纳 5 笔交换
+     */
+    async createTipInstruction(
+        payer: PublicKey,
+        options?: Partial<BundleOptions>
+    ): Promise<{ instruction: TransactionInstruction; tipAmount: number }> {
+        const tip = await this.jitoClient.createTipInstruction(payer, this.applyTipModel(options))
+        this.log('info', `Tip instruction created: ${tip.tipAmount} lamports from ${payer.toBase58()}`)
+        return tip
+    }
+
+    /**
+     * 计算小费
+     * 按小费模型计算在当前网络拥堵程度下达到落地目标所需的最小小费
+     * 例如 { probability: 0.9, withinSlots: 2 }，历史不足时返回 null
+     */
+    recommendTip(target: LandingTarget): TipRecommendation | null {
+        return this.tipModel.recommendTip(target, this.jitoClient.getNetworkStatus().congestionLevel)
+    }
+
+    /**
+     * 获取小费模型
+     * 用于序列化模型状态 (tipModel.serialize())，重启时传入构造函数恢复
+     */
+    getTipModel(): TipModel {
+        return this.tipModel
+    }
+
+    /**
+     * 获取钱包账本
+     * 已落地 Bundle 的小费记在小费转出账户名下
+     */
+    getLedger(): WalletLedger {
+        return this.ledger
+    }
+
+    /**
+     * 获取 Bundle 的状态转换记录
+     */
+    async getBundleHistory(bundleId: string): Promise<BundleTransition[]> {
+        return this.store.getTransitions(bundleId)
+    }
+
+    /**
+     * 模拟 Bundle
+     * 使用注入的模拟器依次执行最终提交的交易列表 (包括 Jito 客户端追加的小费交易)，结果记录在 Bundle 实例上
+     */
+    async simulateBundle(bundleId: string): Promise<BundleSimulationResult> {
+        const bundle = this.bundles.get(bundleId)
+        if (!bundle) {
+            throw new Error(`Bundle not found: ${bundleId}`)
+        }
+
+        const prepared = await this.jitoClient.prepareBundle(bundle.transactions, this.applyTipModel(bundle.options))
+        return this.simulatePrepared(bundle, prepared)
+    }
+
+    /**
+     * 替换 Bundle 的交易
+     * 只能替换未提交的 Bundle (如原子批量按整体模拟测得的CU设置CU上限并重新签名后)，原有的模拟结果随之清除
+     */
+    async replaceTransactions(bundleId: string, transactions: BundleTransaction[]): Promise<BundleInstance> {
+        const bundle = this.bundles.get(bundleId)
+        if (!bundle) {
+            throw new Error(`Bundle not found: ${bundleId}`)
+        }
+        if (bundle.status !== BundleStatus.PENDING) {
+            throw new Error(`Bundle ${bundleId} is not in pending status: ${bundle.status}`)
+        }
+        this.validateCreateBundleInput(transactions, bundle.options)
+
+        bundle.transactions = [...transactions]
+        bundle.simulation = undefined
+        await this.persist(bundle)
+
+        this.log('info', `Bundle transactions replaced: ${bundleId} with ${transactions.length} transactions`)
+        return bundle
+    }
+
+    /**
+     * 模拟准备好的交易列表
+     */
+    private async simulatePrepared(bundle: BundleInstance, prepared: PreparedBundle): Promise<BundleSimulationResult> {
+        if (!this.simulator) {
+            throw new Error('Bundle simulator not configured')
+        }
+
+        const bundleId = bundle.id
+        const simulation = await this.simulator.simulateBundle(prepared.transactions)
+        bundle.simulation = simulation
+
+        if (this.config.enableEventNotifications) {
+            await this.emitEvent(BundleEventType.SIMULATED, bundle, { simulation })
+        }
+
+        if (simulation.success) {
+            const units = simulation.transactions.reduce((total, transaction) => total + (transaction.unitsConsumed ?? 0), 0)
+            this.log('info', `Bundle simulated: ${bundleId} (${simulation.transactions.length} transactions, ${units} CU)`)
+        } else {
+            this.log('warn', `Bundle simulation failed: ${bundleId} at transaction ${simulation.failedTransactionIndex}: ${simulation.error}`)
+        }
+        return simulation
+    }
+
     /**
      * 提交 Bundle
      * 将指定的 Bundle 提交到 Jito 网络
+     * 注入模拟器且启用 simulateBeforeSubmit 时先模拟，模拟失败的 Bundle 不提交
      */
     async submitBundle(bundleId: string): Promise<BundleSubmissionResult> {
         try {
@@ -182,28 +322,51 @@ export class BundleManager implements IBundleManager {
                 throw new Error(`Bundle ${bundleId} is not in pending status: ${bundle.status}`)
             }
 
+            // 计算小费并追加小费交易，提交前模拟与提交使用同一份最终交易列表
+            const prepared = await this.jitoClient.prepareBundle(bundle.transactions, this.applyTipModel(bundle.options))
+            if (this.simulator && this.config.simulateBeforeSubmit) {
+                const simulation = await this.simulatePrepared(bundle, prepared)
+                if (!simulation.success) {
+                    throw new Error(`Bundle simulation failed at transaction ${simulation.failedTransactionIndex}: ${simulation.error}`)
+                }
+            }
+
             // 检查并发限制
             await this.waitForConcurrencySlot()
 
             // 更新状态为提交中
             bundle.status = BundleStatus.PROCESSING
             bundle.submittedAt = new Date()
+            bundle.metrics.submittedSlot = await this.getSubmissionSlot(bundle)
 
             // 计算提交时间
             if (bundle.metrics.submissionTime === undefined) {
                 bundle.metrics.submissionTime = Date.now() - bundle.createdAt.getTime()
             }
+            await this.persist(bundle, { from: BundleStatus.PENDING, reason: 'submitting' })
 
             // 使用 Jito 客户端提交
-            const result = await this.jitoClient.sendBundle(bundle.transactions, bundle.options)
+            const result = await this.jitoClient.sendPreparedBundle(prepared)
 
             // 更新 Bundle 信息
             bundle.bundleId = result.bundleId
             bundle.metrics.tipAmount = result.tipAmount || 0
+            bundle.metrics.tipPayer = result.tipPayer?.toBase58()
+
+            // 记录提交时的网络状况 (小费计算时刚刚更新)
+            const networkStatus = this.jitoClient.getNetworkStatus()
+            bundle.metrics.networkCongestion = networkStatus.congestionLevel
+            bundle.metrics.networkLatency = networkStatus.latency
+            await this.persist(bundle) // 保存 Jito 返回的 ID 和支付的小费
 
             // 更新统计信息
             this.updateStats('submitted')
 
+            // 跟踪状态 (签名用于 websocket 订阅)
+            if (result.status === 'submitted') {
+                this.statusTracker?.track(result.bundleId, this.getSignatures(bundle))
+            }
+
             // 触发事件
             if (this.config.enableEventNotifications) {
                 await this.emitEvent(BundleEventType.SUBMITTED, bundle, { result })
@@ -216,23 +379,25 @@ export class BundleManager implements IBundleManager {
             // 处理提交失败
             const bundle = this.bundles.get(bundleId)
             if (bundle) {
+                const previousStatus = bundle.status
                 bundle.status = BundleStatus.FAILED
                 bundle.error = {
-                    code: 'SUBMSSION_FAILED',
+                    code: bundle.simulation?.success === false ? 'SIMULATION_FAILED' : 'SUBMSSION_FAILED',
                     message: error instanceof Error ? error.message : String(error),
                     details: error,
                     timestamp: new Date()
                 }
+                await this.persist(bundle, { from: previousStatus, reason: bundle.error.code })
             }
 
             // 触发失败事件
             if (this.config.enableEventNotifications && bundle) {
                 await this.emitEvent(BundleEventType.FAILED, bundle, { error })
             }
-        }
 
-        this.log('error', `Failed to submit bundle ${bundleId}: ${error}`)
-        throw error
+            this.log('error', `Failed to submit bundle ${bundleId}: ${error}`)
+            throw error
+        }
     }
 
     /**
@@ -298,18 +463,18 @@ export class BundleManager implements IBundleManager {
                 const jitoStatus = await this.jitoClient.monitorBundleStatus(bundle.bundleId)
 
                 // 更新本地状态
-                this.updateBundleFromJitoStatus(bundle, jitoStatus)
+                await this.updateBundleFromJitoStatus(bundle, jitoStatus)
             }
 
             // 返回当前状态
             return {
                 bundleId: bundle.bundleId,
                 status: bundle.status,
-                slot: undefined, // 可以从 Jito 状态中获取
+                slot: bundle.metrics.landedSlot,
                 confirmationStatus: this.mapBundleStatusToConfirmation(bundle.status),
-                transactions: bundle.transactions.map(tx =>
-                    tx.signature ? (typeof tx.signature === 'string' ? tx.signature : tx.signature.toString('base64')) : ''
-                ).filter(sig => sig.length > 0),
+                transactions: bundle.transactions
+                    .map(tx => getTransactionSignature(tx))
+                    .filter((sig): sig is string => sig !== null),
                 landedAt: bundle.completedAt,
                 error: bundle.error?.message
             }
@@ -336,6 +501,7 @@ export class BundleManager implements IBundleManager {
             }
 
             // 更新状态
+            const previousStatus = bundle.status
             bundle.status = BundleStatus.FAILED
             bundle.error = {
                 code: 'CANCELLED',
@@ -344,6 +510,10 @@ export class BundleManager implements IBundleManager {
                 timestamp: new Date()
             }
             bundle.completedAt = new Date()
+            if (bundle.bundleId) {
+                this.statusTracker?.untrack(bundle.bundleId)
+            }
+            await this.persist(bundle, { from: previousStatus, reason: 'cancelled' })
 
             // 更新统计信息
             this.updateStats('cancelled')
@@ -391,7 +561,9 @@ export class BundleManager implements IBundleManager {
             bundle.status = BundleStatus.PENDING
             bundle.error = undefined
             bundle.submittedAt = undefined
+            bundle.metrics.submittedSlot = undefined
             bundle.completedAt = undefined
+            await this.persist(bundle, { from: BundleStatus.FAILED, reason: 'retry' })
 
             // 触发重试事件
             if (this.config.enableEventNotifications) {
@@ -537,7 +709,15 @@ export class BundleManager implements IBundleManager {
 
         this.isRunning = true
 
-        // 启动状态检查定时器
+        // 恢复保存的小费观测和上次运行中未完成的 Bundle
+        await this.restoreTipModel()
+        await this.recoverBundles()
+        await this.compactStore()
+
+        // 启动状态跟踪器
+        this.statusTracker?.start()
+
+        // 启动状态检查定时器 (使用状态跟踪器时只检查超时)
         if (this.config.statusCheckInterval > 0) {
             this.statusCheckTimer = setInterval(() => {
                 this.performStatusCheck()
@@ -567,6 +747,9 @@ export class BundleManager implements IBundleManager {
         // 等待所有处理中的 Bundle 完成或者超时
         await this.waitForActiveBundles()
 
+        // 停止状态跟踪器
+        this.statusTracker?.stop()
+
         this.log('info', 'Bundle manager stopped')
     }
 
@@ -575,19 +758,18 @@ export class BundleManager implements IBundleManager {
     /**
      * 验证创建 Bundle 的输入参数
      */
-    private validateCreateBundleInput(transactions: Transaction[], options?: Partial<BundleOptions>): void {
+    private validateCreateBundleInput(transactions: BundleTransaction[], options?: Partial<BundleOptions>): void {
         if (!transactions || transactions.length === 0) {
             throw new Error('Transactions array cannot be empty')
         }
 
-        if (transactions.length > 5) {
-            throw new Error('Bundle cannot contain more than 5 transactions')
+        if (transactions.length > MAX_BUNDLE_TRANSACTIONS) {
+            throw new Error(`Bundle cannot contain more than ${MAX_BUNDLE_TRANSACTIONS} transactions`)
         }
 
         // 验证交易是否已签名
         for (let i = 0; i < transactions.length; i++) {
-            const tx = transactions[i]
-            if (!tx.signature) {
+            if (!isTransactionSigned(transactions[i])) {
                 throw new Error(`Transaction at index ${i} is not signed`)
             }
         }
@@ -701,17 +883,18 @@ export class BundleManager implements IBundleManager {
 
     /**
      *  从Jito 状态更新 Bundle
+     *  @param reason 状态转换记录的原因
      */
-    private updateBundleFromJitoStatus(bundle: BundleInstance, jitoStatus: BundleStatusResult): void {
+    private async updateBundleFromJitoStatus(bundle: BundleInstance, jitoStatus: BundleStatusResult, reason: string = 'jito'): Promise<void> {
         // 更新状态
-        if (jitoStatus.status !== bundle.status) {
-            const oldStatus = bundle.status
+        const oldStatus = bundle.status
+        if (jitoStatus.status !== oldStatus) {
             bundle.status = jitoStatus.status
             this.log('debug', `Bundle ${bundle.id} status changed: ${oldStatus} -> ${jitoStatus.status}`)
         }
 
         // 如果 Bundle 已完成，更新完成和指标
-        if (jitoStatus.status === BundleStatus.LANDED || jitoStatus.status === BundleStatus.FAILED) {
+        if (jitoStatus.status === BundleStatus.LANDED || jitoStatus.status === BundleStatus.FAILED || jitoStatus.status === BundleStatus.INVALID) {
             if (!bundle.completedAt) {
                 bundle.completedAt = new Date()
 
@@ -720,9 +903,12 @@ export class BundleManager implements IBundleManager {
                     bundle.metrics.confirmationTime = bundle.completedAt.getTime() - bundle.submittedAt.getTime()
                     bundle.metrics.totalTime = bundle.completedAt.getTime() - bundle.createdAt.getTime()
                     bundle.metrics.success = jitoStatus.status === BundleStatus.LANDED
+                    bundle.metrics.landedSlot = jitoStatus.slot
 
                     // 更新统计
                     this.updateStats(jitoStatus.status === BundleStatus.LANDED ? 'confirmed' : 'failed')
+                    this.recordTipPaid(bundle)
+                    await this.recordTipOutcome(bundle)
                 }
             }
         }
@@ -736,6 +922,124 @@ export class BundleManager implements IBundleManager {
                 timestamp: new Date()
             }
         }
+
+        if (bundle.status !== oldStatus) {
+            await this.persist(bundle, { from: oldStatus, reason })
+        }
+    }
+
+    /**
+     * 将 Bundle 选项中的落地目标转换为小费模型计算的固定小费
+     * 模型无法给出建议时保留自动模式 (按百分位数计算)
+     */
+    private applyTipModel(options?: Partial<BundleOptions>): Partial<BundleOptions> | undefined {
+        const strategy = options?.tipStrategy
+        if (!strategy?.landingTarget || strategy.mode !== 'auto') {
+            return options
+        }
+
+        const recommendation = this.recommendTip(strategy.landingTarget)
+        if (!recommendation) {
+            this.log('info', `Tip model has insufficient history, using percentile ${strategy.percentile ?? 50}`)
+            return options
+        }
+
+        const tipAmount = Math.min(recommendation.tipAmount, strategy.maxTip ?? Infinity)
+        if (tipAmount < recommendation.tipAmount) {
+            this.log('warn', `Tip for ${recommendation.withinSlots}-slot target capped at ${tipAmount} lamports (model suggests ${recommendation.tipAmount})`)
+        }
+        this.log('debug', `Tip model: ${tipAmount} lamports for ${(recommendation.probability * 100).toFixed(1)}% within ${recommendation.withinSlots} slots`)
+        return { ...options, tipStrategy: { ...strategy, mode: 'manual', amount: tipAmount } }
+    }
+
+    /**
+     * 查询提交时的 slot，失败时只记录日志 (小费模型改用提交到落地的时间估算)
+     */
+    private async getSubmissionSlot(bundle: BundleInstance): Promise<number | undefined> {
+        try {
+            return await this.jitoClient.getSlot()
+        } catch (error) {
+            this.log('warn', `Failed to get submission slot for ${bundle.id}: ${error}`)
+            return undefined
+        }
+    }
+
+    /**
+     * 将已落地 Bundle 的小费记入钱包账本 (未落地的 Bundle 不扣除小费)
+     */
+    private recordTipPaid(bundle: BundleInstance): void {
+        if (bundle.status !== BundleStatus.LANDED || bundle.metrics.tipAmount <= 0) {
+            return
+        }
+        if (!bundle.metrics.tipPayer) {
+            this.log('warn', `Tip payer unknown for landed bundle ${bundle.id}, tip not recorded in ledger`)
+            return
+        }
+        this.ledger.recordTip(new PublicKey(bundle.metrics.tipPayer), bundle.metrics.tipAmount)
+    }
+
+    /**
+     * 记录已完成 Bundle 的小费和落地结果，并保存到存储 (重启后恢复小费模型)
+     */
+    private async recordTipOutcome(bundle: BundleInstance): Promise<void> {
+        if (!bundle.submittedAt || bundle.metrics.tipAmount <= 0) {
+            return
+        }
+
+        const landed = bundle.status === BundleStatus.LANDED
+        const observation: TipObservation = {
+            bundleId: bundle.bundleId || bundle.id,
+            tipAmount: bundle.metrics.tipAmount,
+            landed,
+            timeToLandMs: landed ? bundle.metrics.confirmationTime : undefined,
+            submittedSlot: bundle.metrics.submittedSlot,
+            landedSlot: landed ? bundle.metrics.landedSlot : undefined,
+            congestion: bundle.metrics.networkCongestion ?? 'medium',
+            latency: bundle.metrics.networkLatency ?? 0,
+            recordedAt: Date.now()
+        }
+        this.tipModel.record(observation)
+
+        try {
+            await this.store.saveTipObservation(observation)
+        } catch (error) {
+            this.log('error', `Failed to persist tip observation for ${observation.bundleId}: ${error}`)
+        }
+    }
+
+    /**
+     * 从存储恢复小费观测 (构造时传入的模型状态中已有的观测不重复记录)
+     */
+    private async restoreTipModel(): Promise<void> {
+        let observations: TipObservation[]
+        try {
+            observations = await this.store.listTipObservations()
+        } catch (error) {
+            this.log('error', `Failed to load tip observations from store: ${error}`)
+            return
+        }
+
+        const key = (observation: TipObservation) => `${observation.bundleId}:${observation.recordedAt}`
+        const known = new Set(this.tipModel.getObservations().map(key))
+        const restored = observations.filter(observation => !known.has(key(observation)))
+        restored.forEach(observation => this.tipModel.record(observation))
+
+        if (restored.length > 0) {
+            this.log('info', `Restored ${restored.length} tip observations from store`)
+        }
+    }
+
+    /**
+     * 压缩存储 (存储支持时)，恢复完成后执行，失败时保留原存储继续启动
+     */
+    private async compactStore(): Promise<void> {
+        if (!this.store.compact) return
+
+        try {
+            await this.store.compact()
+        } catch (error) {
+            this.log('error', `Failed to compact bundle store: ${error}`)
+        }
     }
 
     /**
@@ -758,9 +1062,14 @@ export class BundleManager implements IBundleManager {
                         return
                     }
 
+                    // 状态由状态跟踪器推送
+                    if (this.statusTracker) {
+                        return
+                    }
+
                     // 查询 Jito 状态
                     const jitoStatus = await this.jitoClient.monitorBundleStatus(bundle.bundleId)
-                    this.updateBundleFromJitoStatus(bundle, jitoStatus)
+                    await this.updateBundleFromJitoStatus(bundle, jitoStatus)
 
                     // 触发状态变化事件
                     if (bundle.status === BundleStatus.LANDED) {
@@ -779,6 +1088,116 @@ export class BundleManager implements IBundleManager {
         }
     }
 
+    /**
+     * 处理状态跟踪器推送的状态变化
+     * 每次变化都触发 STATUS_CHANGED 事件；终态 (落地、失败、无效) 立即更新 Bundle 并触发确认或失败事件
+     */
+    private async handleStatusUpdate(update: BundleStatusUpdate): Promise<void> {
+        const bundle = Array.from(this.bundles.values()).find(candidate => candidate.bundleId === update.bundleId)
+        if (!bundle || bundle.status !== BundleStatus.PROCESSING) return
+
+        // 每次状态变化都通知；已提交的 Bundle 在本地保持 PROCESSING，直到 Jito 报告终态
+        if (this.config.enableEventNotifications) {
+            await this.emitEvent(BundleEventType.STATUS_CHANGED, bundle, { update })
+        }
+        if (update.status === BundleStatus.PENDING || update.status === BundleStatus.PROCESSING) {
+            this.log('debug', `Bundle ${bundle.id} ${update.previousStatus ?? 'unknown'} -> ${update.status} (${update.source})`)
+            return
+        }
+
+        await this.updateBundleFromJitoStatus(bundle, {
+            bundleId: update.bundleId,
+            status: update.status,
+            slot: update.slot,
+            confirmationStatus: update.confirmationStatus,
+            error: update.error
+        })
+
+        this.log('info', `Bundle ${bundle.id} ${update.status} (${update.source}${update.slot ? `, slot ${update.slot}` : ''})`)
+        if (this.config.enableEventNotifications) {
+            await this.emitEvent(
+                update.status === BundleStatus.LANDED ? BundleEventType.CONFIRMED : BundleEventType.FAILED,
+                bundle,
+                { update }
+            )
+        }
+    }
+
+    /**
+     * 保存 Bundle 快照，指定 transition 时同时记录状态转换 (转换到当前状态)
+     * 存储失败不影响 Bundle 处理
+     */
+    private async persist(bundle: BundleInstance, transition?: { from?: BundleStatus; reason?: string }): Promise<void> {
+        const record: BundleTransition | undefined = transition && {
+            id: bundle.id,
+            bundleId: bundle.bundleId,
+            from: transition.from,
+            to: bundle.status,
+            at: Date.now(),
+            reason: transition.reason
+        }
+
+        try {
+            await this.store.save(toBundleRecord(bundle), record)
+        } catch (error) {
+            this.log('error', `Failed to persist bundle ${bundle.id}: ${error}`)
+        }
+    }
+
+    /**
+     * 恢复未完成的 Bundle
+     * 重新加载存储中待提交和处理中的 Bundle：提交过程中中断 (没有 Jito 返回的 ID) 的 Bundle 按交易签名的链上状态确认，未上链的标记为失败；
+     * 已提交的 Bundle 立即批量查询一次状态，仍未完成的由状态跟踪器或定时状态检查继续处理 (包括超时)
+     */
+    private async recoverBundles(): Promise<void> {
+        let records
+        try {
+            records = await this.store.list([BundleStatus.PENDING, BundleStatus.PROCESSING])
+        } catch (error) {
+            this.log('error', `Failed to load bundles from store: ${error}`)
+            return
+        }
+
+        const recovered = records.filter(record => !this.bundles.has(record.id)).map(fromBundleRecord)
+        if (recovered.length === 0) return
+
+        for (const bundle of recovered) {
+            this.bundles.set(bundle.id, bundle)
+            this.updateStats('created')
+        }
+
+        for (const bundle of recovered.filter(bundle => bundle.status === BundleStatus.PROCESSING && !bundle.bundleId)) {
+            await this.recoverInterruptedBundle(bundle)
+        }
+
+        const inflight = recovered.filter(bundle => bundle.status === BundleStatus.PROCESSING)
+        if (inflight.length > 0) {
+            const tracker = this.statusTracker ?? new BundleStatusTracker(this.jitoClient)
+            if (!this.statusTracker) {
+                tracker.onStatusChange(update => this.handleStatusUpdate(update))
+            }
+
+            inflight.forEach(bundle => tracker.track(bundle.bundleId, this.getSignatures(bundle)))
+            await tracker.poll()
+
+            if (!this.statusTracker) {
+                tracker.stop()
+            }
+        }
+
+        const unresolved = inflight.filter(bundle => bundle.status === BundleStatus.PROCESSING).length
+        this.log('info', `Recovered ${recovered.length} bundles from store (${inflight.length} inflight, ${unresolved} still processing)`)
+    }
+
+    /**
+     * 获取 Bundle 中交易的签名
+     */
+    private getSignatures(bundle: BundleInstance): string[] {
+        return bundle.transactions
+            .map(tx => getTransactionSignature(tx))
+            .filter((sig): sig is string => sig !== null)
+    }
+
     /**
      * 检查Bundle 是否超时
      */
@@ -790,6 +1209,48 @@ export class BundleManager implements IBundleManager {
         return (now - submittedTime) > this.config.bundleTimeout
     }
 
+    /**
+     * 处理提交过程中中断的 Bundle (没有 Jito 返回的 ID)
+     * 先查询交易签名的链上状态: Bundle 原子执行，任一交易已上链即说明 Bundle 已执行；
+     * 签名都未上链或无法查询时无法确认是否已发送，标记为中断失败
+     */
+    private async recoverInterruptedBundle(bundle: BundleInstance): Promise<void> {
+        let onChain: SignatureStatus | undefined
+        let checkError: unknown
+        try {
+            const statuses = await this.jitoClient.getSignatureStatuses(this.getSignatures(bundle))
+            onChain = statuses.find((status): status is SignatureStatus => status !== null)
+        } catch (error) {
+            checkError = error
+            this.log('warn', `Failed to check signatures of interrupted bundle ${bundle.id}: ${error}`)
+        }
+
+        if (onChain) {
+            await this.updateBundleFromJitoStatus(bundle, {
+                bundleId: bundle.bundleId,
+                status: onChain.err ? BundleStatus.FAILED : BundleStatus.LANDED,
+                slot: onChain.slot,
+                confirmationStatus: onChain.confirmationStatus,
+                error: onChain.err ? JSON.stringify(onChain.err) : undefined
+            }, 'recovery')
+            this.log('info', `Interrupted bundle ${bundle.id} found on chain at slot ${onChain.slot}: ${bundle.status}`)
+            return
+        }
+
+        bundle.status = BundleStatus.FAILED
+        bundle.completedAt = new Date()
+        bundle.error = {
+            code: 'INTERRUPTED',
+            message: checkError
+                ? `Submission was interrupted before Jito returned a bundle ID and signature statuses could not be checked: ${checkError}`
+                : 'Submission was interrupted before Jito returned a bundle ID and no transaction was found on chain',
+            details: null,
+            timestamp: new Date()
+        }
+        this.updateStats('failed')
+        await this.persist(bundle, { from: BundleStatus.PROCESSING, reason: 'recovery' })
+    }
+
     /**
      * 处理 Bundle 超时
      */
@@ -805,6 +1266,9 @@ export class BundleManager implements IBundleManager {
 
         // 更新统计
         this.updateStats('failed')
+        await this.recordTipOutcome(bundle)
+        this.statusTracker?.untrack(bundle.bundleId)
+        await this.persist(bundle, { from: BundleStatus.PROCESSING, reason: 'timeout' })
 
         // 触发超时事件
         await this.emitEvent(BundleEventType.TIMEOUT, bundle)
@@ -0,0 +1,295 @@
+import { Connection, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js'
+import { ACCOUNT_SIZE, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackAccount } from '@solana/spl-token'
+import BN from 'bn.js'
+
+import {
+    AccountBalanceDelta,
+    BundleSimulationResult,
+    BundleSimulator,
+    BundleTransaction,
+    BundleTransactionSimulation
+} from '../../types/jito/bundle-types'
+import { SimulateBundleResponse, SimulatedBundleAccount } from '../../types/jito/api-types'
+import { JitoConfig } from '../../types/jito/jito-types'
+import { getTransactionSignature, getWritableAccountKeys, serializeTransaction } from '../../utils/transaction/transaction-utils'
+
+// 模拟前后的账户状态 (账户不存在时为 null)
+type AccountSnapshot = { lamports: number; owner: PublicKey; data: Buffer } | null
+
+/**
+ * Jito RPC Bundle 模拟器
+ * 调用 Jito-Solana 节点的 simulateBundle 方法: 所有交易在同一状态上依次执行，
+ * 第一笔失败的交易之后不再执行。模拟跳过签名校验并替换区块哈希
+ */
+export class RpcBundleSimulator implements BundleSimulator {
+    private endpoint: string
+    private timeoutMs: number
+    private connection?: Connection
+
+    /**
+     * @param endpoint 支持 simulateBundle 的 RPC 地址 (Jito-Solana 节点)
+     * @param timeoutMs 请求超时 (毫秒)
+     * @param connection 用于读取地址查找表，未提供时余额变化不包括查找表加载的可写账户
+     */
+    constructor(endpoint: string, timeoutMs: number = 10000, connection?: Connection) {
+        this.endpoint = endpoint
+        this.timeoutMs = timeoutMs
+        this.connection = connection
+    }
+
+    /**
+     * 模拟 Bundle
+     * 每笔交易的可写账户作为执行前后的账户配置，用于计算余额变化
+     */
+    async simulateBundle(transactions: BundleTransaction[]): Promise<BundleSimulationResult> {
+        const writableAccounts = await Promise.all(transactions.map(transaction => resolveWritableAccountKeys(transaction, this.connection)))
+        const accountConfigs = writableAccounts.map(keys => ({
+            addresses: keys.map(key => key.toBase58()),
+            encoding: 'base64'
+        }))
+
+        const response = await fetch(this.endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                jsonrpc: '2.0',
+                id: 1,
+                method: 'simulateBundle',
+                params: [
+                    { encodedTransactions: transactions.map(tx => Buffer.from(serializeTransaction(tx)).toString('base64')) },
+                    {
+                        skipSigVerify: true,
+                        replaceRecentBlockhash: true,
+                        preExecutionAccountsConfigs: accountConfigs,
+                        postExecutionAccountsConfigs: accountConfigs
+                    }
+                ]
+            }),
+            signal: AbortSignal.timeout(this.timeoutMs)
+        })
+
+        if (!response.ok) {
+            throw new Error(`simulateBundle HTTP ${response.status}: ${response.statusText}`)
+        }
+
+        const body = await response.json() as SimulateBundleResponse
+        if (!body.result) {
+            throw new Error(`simulateBundle failed: ${body.error?.message ?? 'empty response'}`)
+        }
+
+        const { context, value } = body.result
+        const summaryError = value.summary === 'succeeded' ? undefined : JSON.stringify(value.summary.failed.error)
+        const executedCount = value.transactionResults.length
+
+        const results = transactions.map((transaction, index): BundleTransactionSimulation => {
+            const result = value.transactionResults[index]
+            if (!result) {
+                // 未执行的第一笔交易即为使 Bundle 失败的交易 (如执行前校验失败)
+                return notExecuted(transaction, index, index === executedCount ? summaryError : undefined)
+            }
+
+            return {
+                index,
+                signature: getTransactionSignature(transaction),
+                executed: true,
+                success: result.err === null,
+                error: result.err === null ? undefined : JSON.stringify(result.err),
+                logs: result.logs ?? [],
+                unitsConsumed: result.unitsConsumed ?? undefined,
+                balanceDeltas: getBalanceDeltas(
+                    writableAccounts[index],
+                    (result.preExecutionAccounts ?? []).map(parseSimulatedAccount),
+                    (result.postExecutionAccounts ?? []).map(parseSimulatedAccount)
+                )
+            }
+        })
+
+        return summarize(results, true, context.slot, summaryError)
+    }
+}
+
+/**
+ * 创建 Jito RPC Bundle 模拟器
+ * 使用 Jito 配置的 simulateBundle 地址，未配置时使用连接的 RPC 地址 (该节点需要是 Jito-Solana 节点)；
+ * 连接同时用于读取地址查找表
+ */
+export function createRpcBundleSimulator(connection: Connection, config: Partial<JitoConfig> = {}): RpcBundleSimulator {
+    return new RpcBundleSimulator(config.simulationEndpoint ?? connection.rpcEndpoint, undefined, connection)
+}
+
+/**
+ * 本地 Bundle 模拟器
+ * 节点不支持 simulateBundle 时的替代实现: 按顺序对每笔交易调用标准 simulateTransaction，
+ * 在第一笔失败的交易处停止。标准 RPC 不能把前一笔交易的状态带入下一笔，
+ * 后面的交易依赖前面交易的结果 (如花费前一笔交换的输出) 时可能误报失败
+ */
+export class LocalBundleSimulator implements BundleSimulator {
+    private connection: Connection
+
+    constructor(connection: Connection) {
+        this.connection = connection
+    }
+
+    /**
+     * 模拟 Bundle
+     * 执行前的余额读取自链上，执行后的余额来自模拟返回的账户
+     */
+    async simulateBundle(transactions: BundleTransaction[]): Promise<BundleSimulationResult> {
+        const results: BundleTransactionSimulation[] = []
+        let slot: number | undefined
+
+        for (let index = 0; index < transactions.length; index++) {
+            const transaction = transactions[index]
+            if (results.some(result => !result.success)) {
+                results.push(notExecuted(transaction, index))
+                continue
+            }
+
+            const writable = await resolveWritableAccountKeys(transaction, this.connection)
+            const preAccounts = await this.connection.getMultipleAccountsInfo(writable)
+            const { context, value } = await this.connection.simulateTransaction(toVersionedTransaction(transaction), {
+                sigVerify: false,
+                replaceRecentBlockhash: true,
+                accounts: { addresses: writable.map(key => key.toBase58()), encoding: 'base64' }
+            })
+            slot = context.slot
+
+            results.push({
+                index,
+                signature: getTransactionSignature(transaction),
+                executed: true,
+                success: value.err === null,
+                error: value.err === null ? undefined : JSON.stringify(value.err),
+                logs: value.logs ?? [],
+                unitsConsumed: value.unitsConsumed,
+                balanceDeltas: getBalanceDeltas(
+                    writable,
+                    preAccounts.map(account => account && { lamports: account.lamports, owner: account.owner, data: account.data }),
+                    (value.accounts ?? []).map(parseSimulatedAccount)
+                )
+            })
+        }
+
+        return summarize(results, false, slot)
+    }
+}
+
+/**
+ * 获取交易的可写账户，包括通过地址查找表加载的可写账户
+ * 未提供连接时无法读取查找表，只返回交易直接引用的账户
+ */
+async function resolveWritableAccountKeys(transaction: BundleTransaction, connection?: Connection): Promise<PublicKey[]> {
+    if (!connection || !(transaction instanceof VersionedTransaction) || transaction.message.addressTableLookups.length === 0) {
+        return getWritableAccountKeys(transaction)
+    }
+
+    const tables = await Promise.all(transaction.message.addressTableLookups.map(async lookup => {
+        const { value } = await connection.getAddressLookupTable(lookup.accountKey)
+        if (!value) {
+            throw new Error(`Address lookup table not found: ${lookup.accountKey.toBase58()}`)
+        }
+        return value
+    }))
+    return getWritableAccountKeys(transaction, tables)
+}
+
+/**
+ * 汇总各笔交易的模拟结果
+ * @param summaryError 模拟器报告的整体错误
+ */
+function summarize(
+    transactions: BundleTransactionSimulation[],
+    sharedState: boolean,
+    slot?: number,
+    summaryError?: string
+): BundleSimulationResult {
+    const failed = transactions.find(transaction => !transaction.success)
+    return {
+        success: !failed && !summaryError,
+        slot,
+        failedTransactionIndex: failed?.index,
+        error: failed?.error ?? summaryError,
+        sharedState,
+        transactions
+    }
+}
+
+/**
+ * 未执行交易的模拟结果
+ */
+function notExecuted(transaction: BundleTransaction, index: number, error?: string): BundleTransactionSimulation {
+    return {
+        index,
+        signature: getTransactionSignature(transaction),
+        executed: false,
+        success: false,
+        error: error ?? 'Not executed: an earlier transaction in the bundle failed',
+        logs: [],
+        balanceDeltas: []
+    }
+}
+
+/**
+ * 计算余额有变化的账户 (lamports 和代币数量)
+ */
+function getBalanceDeltas(addresses: PublicKey[], preAccounts: AccountSnapshot[], postAccounts: AccountSnapshot[]): AccountBalanceDelta[] {
+    const deltas: AccountBalanceDelta[] = []
+
+    addresses.forEach((address, index) => {
+        const pre = preAccounts[index] ?? null
+        const post = postAccounts[index] ?? null
+        const preLamports = pre?.lamports ?? 0
+        const postLamports = post?.lamports ?? 0
+
+        const preToken = readTokenAccount(address, pre)
+        const postToken = readTokenAccount(address, post)
+        const mint = postToken?.mint ?? preToken?.mint
+        const tokenDelta = mint
+            ? new BN(((postToken?.amount ?? BigInt(0)) - (preToken?.amount ?? BigInt(0))).toString())
+            : undefined
+
+        if (preLamports === postLamports && (!tokenDelta || tokenDelta.isZero())) {
+            return
+        }
+        deltas.push({ address, preLamports, postLamports, lamportsDelta: postLamports - preLamports, mint, tokenDelta })
+    })
+
+    return deltas
+}
+
+/**
+ * 读取代币账户的 mint 和数量，不是代币账户时返回 null
+ */
+function readTokenAccount(address: PublicKey, account: AccountSnapshot): { mint: PublicKey; amount: bigint } | null {
+    if (!account || account.data.length < ACCOUNT_SIZE
+        || (!account.owner.equals(TOKEN_PROGRAM_ID) && !account.owner.equals(TOKEN_2022_PROGRAM_ID))) {
+        return null
+    }
+
+    try {
+        const { mint, amount } = unpackAccount(address, { ...account, executable: false }, account.owner)
+        return { mint, amount }
+    } catch {
+        return null // mint 账户等非代币账户
+    }
+}
+
+/**
+ * 解析模拟返回的 base64 账户
+ */
+function parseSimulatedAccount(account: SimulatedBundleAccount | null): AccountSnapshot {
+    return account && {
+        lamports: account.lamports,
+        owner: new PublicKey(account.owner),
+        data: Buffer.from(account.data[0], 'base64')
+    }
+}
+
+/**
+ * 将 Legacy 交易转换为 v0 接口的交易 (simulateTransaction 的配置参数只支持 VersionedTransaction)
+ */
+function toVersionedTransaction(transaction: BundleTransaction): VersionedTransaction {
+    return transaction instanceof Transaction
+        ? new VersionedTransaction(transaction.compileMessage())
+        : transaction
+}
@@ -0,0 +1,373 @@
+import { Connection, Context, SignatureResult } from '@solana/web3.js'
+import { EnhancedJitoClient } from './jito-client'
+import { BundleStatus, BundleStatusListener, BundleStatusResult, BundleStatusUpdate } from '../../types/jito/bundle-types'
+import {
+    BundleStatusTrackerConfig,
+    DEFAULT_BUNDLE_STATUS_TRACKER_CONFIG
+} from '../../config/jito-config'
+
+// 跟踪中的 Bundle
+interface TrackedBundle {
+    status?: BundleStatus
+    signatures: string[]
+    subscriptionIds: number[]
+}
+
+// Connection 内部的 websocket 客户端 (rpc-websockets)，用于监听连接错误和断开
+interface RpcWebSocketEvents {
+    on(event: 'error' | 'close', listener: (...args: any[]) => void): unknown
+    removeListener(event: 'error' | 'close', listener: (...args: any[]) => void): unknown
+}
+
+const TERMINAL_STATUSES = [BundleStatus.LANDED, BundleStatus.FAILED, BundleStatus.INVALID]
+
+/**
+ * Bundle 状态跟踪器
+ * 把所有跟踪中的 Bundle 合并为批量的 getInflightBundleStatuses 查询，
+ * 在 getInflightBundleStatuses 中返回 Invalid 的 Bundle (超出回溯时间) 再用 getBundleStatuses 确认是否已落地；
+ * 同时通过 RPC websocket 订阅 Bundle 中交易的签名，交易确认时立即报告落地。
+ * websocket 报告错误或断开、或超过 websocketTimeout 没有收到任何通知 (slot 订阅作为心跳) 时视为不可用，
+ * 改为以更短的间隔轮询；重新收到通知后恢复签名订阅
+ */
+export class BundleStatusTracker {
+    private jitoClient: EnhancedJitoClient
+    private connection?: Connection
+    private config: BundleStatusTrackerConfig
+    private tracked: Map<string, TrackedBundle> = new Map()
+    private listeners: BundleStatusListener[] = []
+    private pollTimer?: NodeJS.Timeout
+    private isRunning: boolean = false
+    private isPolling: boolean = false // 定时轮询进行中 (结束后自行安排下一次)
+    private websocketEnabled: boolean
+    private websocketAvailable: boolean
+    private lastWebsocketActivity: number = 0 // 最近一次收到 websocket 通知的时间
+    private slotSubscriptionId?: number
+    private detachWebsocket?: () => void
+
+    /**
+     * @param jitoClient Jito 客户端
+     * @param connection Solana 连接 (用于签名订阅，不提供时只轮询)
+     * @param config 跟踪配置
+     */
+    constructor(jitoClient: EnhancedJitoClient, connection?: Connection, config?: Partial<BundleStatusTrackerConfig>) {
+        this.jitoClient = jitoClient
+        this.connection = connection
+        this.config = { ...DEFAULT_BUNDLE_STATUS_TRACKER_CONFIG, ...config }
+        this.websocketEnabled = !!connection && this.config.enableWebsocket
+        this.websocketAvailable = this.websocketEnabled
+    }
+
+    /**
+     * 添加状态变化监听器
+     */
+    onStatusChange(listener: BundleStatusListener): void {
+        this.listeners.push(listener)
+    }
+
+    /**
+     * 开始跟踪 Bundle
+     * @param bundleId Jito 返回的 Bundle ID
+     * @param signatures Bundle 中交易的签名 (用于 websocket 订阅)
+     */
+    track(bundleId: string, signatures: string[] = []): void {
+        if (this.tracked.has(bundleId)) {
+            return
+        }
+
+        const bundle: TrackedBundle = { signatures, subscriptionIds: [] }
+        this.tracked.set(bundleId, bundle)
+        this.subscribe(bundleId, bundle)
+        this.log('debug', `Tracking bundle ${bundleId} (${signatures.length} signatures)`)
+    }
+
+    /**
+     * 停止跟踪 Bundle 并取消签名订阅
+     */
+    untrack(bundleId: string): void {
+        const bundle = this.tracked.get(bundleId)
+        if (!bundle) return
+
+        this.tracked.delete(bundleId)
+        for (const subscriptionId of bundle.subscriptionIds) {
+            this.connection?.removeSignatureListener(subscriptionId).catch(error =>
+                this.log('debug', `Failed to remove signature listener ${subscriptionId}: ${error}`))
+        }
+    }
+
+    /**
+     * 获取跟踪中的 Bundle ID
+     */
+    getTrackedBundleIds(): string[] {
+        return Array.from(this.tracked.keys())
+    }
+
+    /**
+     * 是否在使用 websocket 签名订阅
+     */
+    isUsingWebsocket(): boolean {
+        return this.websocketAvailable
+    }
+
+    /**
+     * 启动轮询
+     */
+    start(): void {
+        if (this.isRunning) return
+
+        this.isRunning = true
+        this.watchWebsocket()
+        this.scheduleNextPoll()
+        this.log('info', `Bundle status tracker started (${this.websocketAvailable ? 'websocket + polling' : 'polling only'})`)
+    }
+
+    /**
+     * 停止轮询并取消所有签名订阅
+     */
+    stop(): void {
+        this.isRunning = false
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer)
+            this.pollTimer = undefined
+        }
+        this.unwatchWebsocket()
+
+        for (const bundleId of this.getTrackedBundleIds()) {
+            this.untrack(bundleId)
+        }
+        this.log('info', 'Bundle status tracker stopped')
+    }
+
+    /**
+     * 查询所有跟踪中的 Bundle 的状态
+     * 每批最多 maxBatchSize 个 Bundle；单批失败不影响其他批次
+     */
+    async poll(): Promise<void> {
+        const bundleIds = this.getTrackedBundleIds()
+        if (bundleIds.length === 0) return
+
+        const unknown: string[] = []
+        for (const batch of this.chunk(bundleIds)) {
+            try {
+                const statuses = await this.jitoClient.getInflightBundleStatuses(batch)
+                for (const status of statuses) {
+                    if (status.status === BundleStatus.INVALID) {
+                        unknown.push(status.bundleId)
+                    } else {
+                        await this.applyUpdate(status, 'inflight')
+                    }
+                }
+            } catch (error) {
+                this.log('warn', `Failed to get inflight bundle statuses: ${error}`)
+            }
+        }
+
+        // 超出 getInflightBundleStatuses 回溯时间的 Bundle 可能已经落地
+        for (const batch of this.chunk(unknown)) {
+            try {
+                const landed = await this.jitoClient.getBundleStatuses(batch)
+                for (const bundleId of batch) {
+                    const status = landed.find(result => result.bundleId === bundleId)
+                    await this.applyUpdate(status ?? { bundleId, status: BundleStatus.INVALID }, status ? 'history' : 'inflight')
+                }
+            } catch (error) {
+                this.log('warn', `Failed to get bundle statuses: ${error}`)
+            }
+        }
+    }
+
+    /**
+     * 订阅 Bundle 中交易的签名
+     * 订阅失败时改为只轮询
+     */
+    private subscribe(bundleId: string, bundle: TrackedBundle): void {
+        if (!this.websocketAvailable || !this.connection) return
+
+        try {
+            for (const signature of bundle.signatures) {
+                bundle.subscriptionIds.push(this.connection.onSignature(
+                    signature,
+                    (result, context) => this.handleSignatureNotification(bundleId, result, context),
+                    this.config.commitment
+                ))
+            }
+        } catch (error) {
+            this.markWebsocketUnavailable(`signature subscription failed: ${error}`)
+        }
+    }
+
+    /**
+     * 监听 websocket 的可用性
+     * 订阅 slot 变化作为心跳 (订阅未被确认或连接中断时不会收到通知)，同时监听底层 websocket 的错误和断开事件
+     */
+    private watchWebsocket(): void {
+        if (!this.websocketEnabled || !this.connection) return
+
+        this.lastWebsocketActivity = Date.now()
+        try {
+            this.slotSubscriptionId = this.connection.onSlotChange(() => this.markWebsocketActive())
+        } catch (error) {
+            this.markWebsocketUnavailable(`slot subscription failed: ${error}`)
+            return
+        }
+
+        const socket = (this.connection as unknown as { _rpcWebSocket?: RpcWebSocketEvents })._rpcWebSocket
+        if (socket) {
+            const onError = (error: unknown) => this.markWebsocketUnavailable(`websocket error: ${error instanceof Error ? error.message : error}`)
+            const onClose = () => this.markWebsocketUnavailable('websocket closed')
+            socket.on('error', onError)
+            socket.on('close', onClose)
+            this.detachWebsocket = () => {
+                socket.removeListener('error', onError)
+                socket.removeListener('close', onClose)
+            }
+        }
+    }
+
+    /**
+     * 取消 websocket 监听
+     */
+    private unwatchWebsocket(): void {
+        this.detachWebsocket?.()
+        this.detachWebsocket = undefined
+
+        if (this.slotSubscriptionId !== undefined) {
+            const subscriptionId = this.slotSubscriptionId
+            this.slotSubscriptionId = undefined
+            this.connection?.removeSlotChangeListener(subscriptionId).catch(error =>
+                this.log('debug', `Failed to remove slot listener ${subscriptionId}: ${error}`))
+        }
+    }
+
+    /**
+     * 收到 websocket 通知
+     * websocket 之前不可用时恢复，并为不可用期间开始跟踪的 Bundle 补充签名订阅
+     */
+    private markWebsocketActive(): void {
+        this.lastWebsocketActivity = Date.now()
+        if (this.websocketAvailable || !this.isRunning) return
+
+        this.websocketAvailable = true
+        this.log('info', `Websocket notifications resumed, polling every ${this.config.pollInterval}ms`)
+        for (const [bundleId, bundle] of this.tracked) {
+            if (bundle.subscriptionIds.length === 0) {
+                this.subscribe(bundleId, bundle)
+            }
+        }
+    }
+
+    /**
+     * websocket 不可用，立即改为按 fallbackPollInterval 轮询
+     */
+    private markWebsocketUnavailable(reason: string): void {
+        if (!this.websocketAvailable) return
+
+        this.websocketAvailable = false
+        this.log('warn', `Websocket unavailable (${reason}), falling back to polling every ${this.config.fallbackPollInterval}ms`)
+
+        // 正在等待较长的轮询间隔时重新安排；轮询进行中时由轮询结束后按新的间隔安排
+        if (this.isRunning && !this.isPolling) {
+            if (this.pollTimer) {
+                clearTimeout(this.pollTimer)
+            }
+            this.scheduleNextPoll()
+        }
+    }
+
+    /**
+     * 超过 websocketTimeout 没有收到通知 (包括订阅一直未被确认) 时视为不可用
+     */
+    private checkWebsocketActivity(): void {
+        if (this.websocketAvailable && this.slotSubscriptionId !== undefined
+            && Date.now() - this.lastWebsocketActivity >= this.config.websocketTimeout) {
+            this.markWebsocketUnavailable(`no notifications for ${this.config.websocketTimeout}ms`)
+        }
+    }
+
+    /**
+     * 处理签名确认通知
+     * Bundle 中的交易原子执行，任一交易确认即表示 Bundle 已落地
+     */
+    private async handleSignatureNotification(bundleId: string, result: SignatureResult, context: Context): Promise<void> {
+        await this.applyUpdate({
+            bundleId,
+            status: result.err ? BundleStatus.FAILED : BundleStatus.LANDED,
+            slot: context.slot,
+            confirmationStatus: this.config.commitment,
+            error: result.err ? JSON.stringify(result.err) : undefined
+        }, 'websocket')
+    }
+
+    /**
+     * 状态改变时通知监听器，终态的 Bundle 停止跟踪
+     */
+    private async applyUpdate(status: BundleStatusResult, source: BundleStatusUpdate['source']): Promise<void> {
+        const bundle = this.tracked.get(status.bundleId)
+        if (!bundle || bundle.status === status.status) return
+
+        const update: BundleStatusUpdate = {
+            bundleId: status.bundleId,
+            status: status.status,
+            previousStatus: bundle.status,
+            slot: status.slot,
+            confirmationStatus: status.confirmationStatus,
+            error: status.error,
+            source,
+            observedAt: new Date()
+        }
+        bundle.status = status.status
+
+        if (TERMINAL_STATUSES.includes(status.status)) {
+            this.untrack(status.bundleId)
+        }
+
+        this.log('debug', `Bundle ${status.bundleId} status: ${update.previousStatus ?? 'unknown'} -> ${status.status} (${source})`)
+        await Promise.allSettled(this.listeners.map(async listener => {
+            try {
+                await listener(update)
+            } catch (error) {
+                this.log('error', `Status listener error: ${error}`)
+            }
+        }))
+    }
+
+    /**
+     * 安排下一次轮询
+     */
+    private scheduleNextPoll(): void {
+        if (!this.isRunning) return
+
+        // websocket 可用时的间隔不超过心跳超时，保证能及时发现 websocket 失效
+        const interval = this.websocketAvailable
+            ? Math.min(this.config.pollInterval, this.config.websocketTimeout)
+            : this.config.fallbackPollInterval
+        this.pollTimer = setTimeout(async () => {
+            this.isPolling = true
+            try {
+                this.checkWebsocketActivity()
+                await this.poll()
+            } finally {
+                this.isPolling = false
+            }
+            this.scheduleNextPoll()
+        }, interval)
+    }
+
+    /**
+     * 按最大批量拆分 Bundle ID
+     */
+    private chunk(bundleIds: string[]): string[][] {
+        const batches: string[][] = []
+        for (let i = 0; i < bundleIds.length; i += this.config.maxBatchSize) {
+            batches.push(bundleIds.slice(i, i + this.config.maxBatchSize))
+        }
+        return batches
+    }
+
+    /**
+     * 日志记录
+     */
+    private log(level: 'debug' | 'info' | 'warn' | 'error', message: string): void {
+        const timestamp = new Date().toISOString()
+        console.log(`[${timestamp}] [${level.toUpperCase()}] [BundleStatusTracker] ${message}`)
+    }
+}
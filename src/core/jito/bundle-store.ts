@@ -0,0 +1,266 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import { Transaction } from '@solana/web3.js'
+
+import { BundleInstance } from '../../types/jito/bundle-manager-types'
+import { BundleStatus } from '../../types/jito/bundle-types'
+import { BundleRecord, BundleStore, BundleTransition } from '../../types/jito/bundle-store-types'
+import { TipObservation } from '../../types/jito/tip-model-types'
+import { TIP_MODEL_CONFIG } from '../../config/jito-config'
+import { deserializeTransaction, serializeTransaction } from '../../utils/transaction/transaction-utils'
+
+// 文件存储中的一行
+type FileEntry =
+    | { type: 'record'; record: BundleRecord }
+    | { type: 'transition'; transition: BundleTransition }
+    | { type: 'tip'; observation: TipObservation }
+
+/**
+ * 内存 Bundle 存储
+ * BundleManager 的默认存储 (不跨进程保留)，也用于测试
+ */
+export class InMemoryBundleStore implements BundleStore {
+    private records: Map<string, BundleRecord> = new Map()
+    private transitions: Map<string, BundleTransition[]> = new Map()
+    private tipObservations: TipObservation[] = [] // 只保留小费模型使用的最近观测
+
+    async save(record: BundleRecord, transition?: BundleTransition): Promise<void> {
+        this.setRecord(record)
+        if (transition) {
+            this.addTransition(transition)
+        }
+    }
+
+    async get(id: string): Promise<BundleRecord | null> {
+        const record = this.records.get(id)
+        return record ? clone(record) : null
+    }
+
+    async list(statuses?: BundleStatus[]): Promise<BundleRecord[]> {
+        return Array.from(this.records.values())
+            .filter(record => !statuses || statuses.includes(record.status))
+            .map(clone)
+    }
+
+    async getTransitions(id: string): Promise<BundleTransition[]> {
+        return (this.transitions.get(id) ?? []).map(clone)
+    }
+
+    async saveTipObservation(observation: TipObservation): Promise<void> {
+        this.addTipObservation(observation)
+    }
+
+    async listTipObservations(): Promise<TipObservation[]> {
+        return this.tipObservations.map(clone)
+    }
+
+    protected setRecord(record: BundleRecord): void {
+        this.records.set(record.id, clone(record))
+    }
+
+    protected addTransition(transition: BundleTransition): void {
+        const history = this.transitions.get(transition.id) ?? []
+        history.push(clone(transition))
+        this.transitions.set(transition.id, history)
+    }
+
+    protected addTipObservation(observation: TipObservation): void {
+        this.tipObservations.push(clone(observation))
+        if (this.tipObservations.length > TIP_MODEL_CONFIG.MAX_OBSERVATIONS) {
+            this.tipObservations.splice(0, this.tipObservations.length - TIP_MODEL_CONFIG.MAX_OBSERVATIONS)
+        }
+    }
+}
+
+/**
+ * 文件 Bundle 存储
+ * 每次保存向 JSON Lines 文件追加一行 (快照或状态转换)，启动时按顺序重放；
+ * 崩溃时写了一半的最后一行会被跳过。compact() 把文件重写为每个 Bundle 的最新快照和全部状态转换，
+ * BundleManager.start() 恢复 Bundle 后调用一次，限制文件的增长
+ */
+export class FileBundleStore extends InMemoryBundleStore {
+    private filePath: string
+    private loaded?: Promise<void>
+    private writes: Promise<void> = Promise.resolve()
+
+    /**
+     * @param filePath 存储文件路径 (不存在时自动创建)
+     */
+    constructor(filePath: string) {
+        super()
+        this.filePath = filePath
+    }
+
+    async save(record: BundleRecord, transition?: BundleTransition): Promise<void> {
+        await this.ensureLoaded()
+
+        const lines = [{ type: 'record', record } as FileEntry]
+        if (transition) {
+            lines.unshift({ type: 'transition', transition })
+        }
+        // 内存状态在写入队列中随文件一起更新，排在后面的压缩总能看到已写入文件的内容
+        await this.enqueueWrite(async () => {
+            await appendFile(this.filePath, lines.map(line => JSON.stringify(line) + '\n').join(''))
+            await super.save(record, transition)
+        })
+    }
+
+    async get(id: string): Promise<BundleRecord | null> {
+        await this.ensureLoaded()
+        return super.get(id)
+    }
+
+    async list(statuses?: BundleStatus[]): Promise<BundleRecord[]> {
+        await this.ensureLoaded()
+        return super.list(statuses)
+    }
+
+    async getTransitions(id: string): Promise<BundleTransition[]> {
+        await this.ensureLoaded()
+        return super.getTransitions(id)
+    }
+
+    async saveTipObservation(observation: TipObservation): Promise<void> {
+        await this.ensureLoaded()
+
+        const line: FileEntry = { type: 'tip', observation }
+        await this.enqueueWrite(async () => {
+            await appendFile(this.filePath, JSON.stringify(line) + '\n')
+            await super.saveTipObservation(observation)
+        })
+    }
+
+    async listTipObservations(): Promise<TipObservation[]> {
+        await this.ensureLoaded()
+        return super.listTipObservations()
+    }
+
+    /**
+     * 压缩存储文件
+     * 先写入临时文件再重命名，压缩过程中崩溃不会损坏原文件；小费观测只保留最近的 MAX_OBSERVATIONS 条。
+     * 内容在写入队列中轮到压缩时才读取，之前排队的写入不会被重命名覆盖
+     */
+    async compact(): Promise<void> {
+        await this.ensureLoaded()
+
+        await this.enqueueWrite(async () => {
+            const records = await super.list()
+            const transitions = (await Promise.all(records.map(record => super.getTransitions(record.id)))).flat()
+            const observations = await super.listTipObservations()
+            const lines: FileEntry[] = [
+                ...transitions.map(transition => ({ type: 'transition', transition }) as FileEntry),
+                ...records.map(record => ({ type: 'record', record }) as FileEntry),
+                ...observations.map(observation => ({ type: 'tip', observation }) as FileEntry)
+            ]
+
+            const tempPath = `${this.filePath}.tmp`
+            await writeFile(tempPath, lines.map(line => JSON.stringify(line) + '\n').join(''))
+            await rename(tempPath, this.filePath)
+        })
+    }
+
+    /**
+     * 首次访问时加载存储文件
+     */
+    private ensureLoaded(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = this.load()
+        }
+        return this.loaded
+    }
+
+    private async load(): Promise<void> {
+        await mkdir(dirname(this.filePath), { recursive: true })
+
+        let content: string
+        try {
+            content = await readFile(this.filePath, 'utf8')
+        } catch (error: unknown) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+            throw error
+        }
+
+        const lines = content.split('\n').filter(line => line.trim().length > 0)
+        for (let i = 0; i < lines.length; i++) {
+            let entry: FileEntry
+            try {
+                entry = JSON.parse(lines[i])
+            } catch {
+                console.log(`[${new Date().toISOString()}] [WARN] [FileBundleStore] Skipping unreadable line ${i + 1} in ${this.filePath}`)
+                continue
+            }
+
+            if (entry.type === 'record') {
+                this.setRecord(entry.record)
+            } else if (entry.type === 'transition') {
+                this.addTransition(entry.transition)
+            } else if (entry.type === 'tip') {
+                this.addTipObservation(entry.observation)
+            }
+        }
+    }
+
+    /**
+     * 按顺序执行写入，单次写入失败不影响后续写入
+     */
+    private async enqueueWrite(write: () => Promise<void>): Promise<void> {
+        const result = this.writes.then(write)
+        this.writes = result.catch(() => undefined)
+        await result
+    }
+}
+
+/**
+ * 将 Bundle 实例转换为可持久化的快照
+ * 模拟结果不持久化
+ */
+export function toBundleRecord(bundle: BundleInstance): BundleRecord {
+    return {
+        id: bundle.id,
+        bundleId: bundle.bundleId,
+        transactions: bundle.transactions.map(transaction => ({
+            data: Buffer.from(serializeTransaction(transaction)).toString('base64'),
+            legacy: transaction instanceof Transaction
+        })),
+        options: bundle.options,
+        createdAt: bundle.createdAt.getTime(),
+        submittedAt: bundle.submittedAt?.getTime(),
+        completedAt: bundle.completedAt?.getTime(),
+        status: bundle.status,
+        retryCount: bundle.retryCount,
+        error: bundle.error && {
+            code: bundle.error.code,
+            message: bundle.error.message,
+            timestamp: bundle.error.timestamp.getTime()
+        },
+        metrics: bundle.metrics,
+        updatedAt: Date.now()
+    }
+}
+
+/**
+ * 从快照恢复 Bundle 实例
+ */
+export function fromBundleRecord(record: BundleRecord): BundleInstance {
+    return {
+        id: record.id,
+        bundleId: record.bundleId,
+        transactions: record.transactions.map(transaction =>
+            deserializeTransaction(Buffer.from(transaction.data, 'base64'), transaction.legacy)),
+        options: record.options,
+        createdAt: new Date(record.createdAt),
+        submittedAt: record.submittedAt !== undefined ? new Date(record.submittedAt) : undefined,
+        completedAt: record.completedAt !== undefined ? new Date(record.completedAt) : undefined,
+        status: record.status,
+        retryCount: record.retryCount,
+        error: record.error && { ...record.error, timestamp: new Date(record.error.timestamp) },
+        metrics: { ...record.metrics }
+    }
+}
+
+/**
+ * 深拷贝 (存储内容与调用方的对象互不影响)
+ */
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value))
+}
@@ -3,14 +3,16 @@
 // 错误恢复: 完善的重试机制和错误处理
 // 状态监控: 实时跟踪 Bundle 执行状态
 
-import { Transaction, PublicKey, Connection } from '@solana/web3.js'
+import { Transaction, VersionedTransaction, PublicKey, Connection, SystemProgram, TransactionInstruction, SignatureStatus } from '@solana/web3.js'
 import { JitoJsonRpcClient } from 'jito-js-rpc'
 import { JitoConfig, BundlePerformanceMetrics, NetworkStatus, JitoError, RetryInfo } from '../../types/jito/jito-types'
-import { BundleOptions, BundleSubmissionResult, BundleStatusResult, BundleStatus, TipStrategy } from '../../types/jito/bundle-types'
-import { getJitoConfig, JITO_ENDPOINTS } from '../../config/jito-config'
+import { BundleOptions, BundleSubmissionResult, BundleStatusResult, BundleStatus, TipStrategy, BundleTransaction, PreparedBundle } from '../../types/jito/bundle-types'
+import { getStaticAccountKeys, isTransactionSigned, serializeTransaction } from '../../utils/transaction/transaction-utils'
+import { getJitoConfig, JITO_DONT_FRONT_ACCOUNT, JITO_ENDPOINTS, MAX_BUNDLE_TRANSACTIONS } from '../../config/jito-config'
 import bs58 from 'bs58'
 import { TipFloorResponse, TipStatistics, NetworkConditions } from '../../types/jito/api-types'
 import { JitoRegionManager } from './region-manager'
+import { TransactionSigner } from '../../types/signer/signer-types'
 
 /**
  *  增强的 Jito 客户端
@@ -22,7 +24,8 @@ export class EnhancedJitoClient {
     private performanceMetrics: BundlePerformanceMetrics
     private networkStatus: NetworkStatus
     private activeRetries: Map<string, RetryInfo>
-    private wallet?: any //可以是 Keypair 或其他钱包类型
+    private tipPayer?: TransactionSigner // 小费转出账户
+    private feePayer?: TransactionSigner // 小费交易的手续费支付者 (默认为小费转出账户)
     private regionManager: JitoRegionManager
     private connection?: Connection // Solana 连接实例
 
@@ -32,10 +35,11 @@ export class EnhancedJitoClient {
     private requestQueue: Array<() => Promise<any>> = []
     private isProcessingQueue: boolean = false
 
-    constructor(config?: Partial<JitoConfig>, wallet?: any) {
+    constructor(config?: Partial<JitoConfig>, tipPayer?: TransactionSigner, feePayer: TransactionSigner | undefined = tipPayer) {
         // 合并默认配置和用户配置
         this.config = { ...getJitoConfig(), ...config }
-        this.wallet = wallet
+        this.tipPayer = tipPayer
+        this.feePayer = feePayer
         this.connection = (config as any)?.connection
 
         // 初始化区域管理器
@@ -71,83 +75,103 @@ export class EnhancedJitoClient {
      *  @returns Bundle 提交结果
      */
     async sendBundle(
-        transactions: Transaction[],
+        transactions: BundleTransaction[],
         options?: Partial<BundleOptions>,
         connection?: Connection
     ): Promise<BundleSubmissionResult> {
         const startTime = Date.now()
 
         try {
-            // 1. 验证输入参数
-            this.validateBundleInput(transactions, options)
-
-            // 2. 合并配置选项
-            const bundleOptions = { ...this.config.defaultBundleOptions, ...options }
-
-            // 3. 计算最优小费
-            const tipAmount = await this.calculateOptimalTip(
-                bundleOptions.tipStrategy || this.config.tipConfig.defaultStrategy,
-                bundleOptions.priority || 'medium')
-
-            // 4. 添加小费交易（如果需要）
-            const enhancedTransactions = await this.addTipTransaction(transactions, tipAmount, connection)
-
-            // 5. 应用 MEV 保护（如果启用）
-            const protectedTransactions = bundleOptions.enableMevProtection ? await this.applyMevProtection(enhancedTransactions) : enhancedTransactions
-
-            // 6. 序列化交易
-            const serializedTransactions = this.serializeTransactions(protectedTransactions, bundleOptions.encoding)
-
-            // 7. 发送到 Jito Block Engine
-            const response = await this.jitoClient.sendBundle([
-                serializedTransactions,
-                { encoding: bundleOptions.encoding || 'base64' }
-            ])
-
-            // 8. 处理响应
-            if (response.result) {
-                const result: BundleSubmissionResult = {
-                    bundleId: response.result,
-                    status: 'submitted',
-                    estimatedConfirmationTime: this.estimateConfirmationTime(bundleOptions.priority || 'medium'),
-                    tipAmount,
-                    transactionCount: protectedTransactions.length
-                }
+            // 1-4. 验证输入、检查 MEV 保护、计算小费并追加小费交易
+            const prepared = await this.prepareBundle(transactions, options, connection)
 
-                // 更新性能指标
-                this.updateMetrics('bundle_submitted', Date.now() - startTime)
+            // 5-8. 提交最终的交易列表
+            return await this.submitPreparedBundle(prepared, startTime)
+        } catch (error) {
+            return this.handleSubmissionFailure(error, startTime, transactions.length, options?.maxRetries,
+                retryOptions => this.sendBundle(transactions, { ...options, ...retryOptions }, connection))
+        }
+    }
 
-                // 报告成功到区域管理器
-                await this.reportSuccess(Date.now() - startTime)
+    /**
+     *  准备 Bundle
+     *  验证交易、计算小费并在需要时追加小费交易，返回最终提交的交易列表 (提交前的模拟应使用这份列表)
+     *  @param transactions 交易数组
+     *  @param options Bundle 选项
+     *  @param connection Solana 连接实例
+     *  @returns 最终的交易列表、小费金额和合并后的选项
+     */
+    async prepareBundle(
+        transactions: BundleTransaction[],
+        options?: Partial<BundleOptions>,
+        connection?: Connection
+    ): Promise<PreparedBundle> {
+        // 1. 验证输入参数
+        this.validateBundleInput(transactions, options)
+
+        // 2. 合并配置选项，启用 MEV 保护时检查第一笔交易已包含 jitodontfront 账户
+        const bundleOptions = { ...this.config.defaultBundleOptions, ...options }
+        if (bundleOptions.enableMevProtection) {
+            this.assertJitoDontFrontProtection(transactions)
+        }
 
-                this.log('info', `Bundle submitted successfully: ${response.result}`)
-                return result
-            } else {
-                throw new Error('Failed to get bundle ID from response')
-            }
-        } catch (error) {
-            // 错误处理和重试逻辑
-            const jitoError = await this.handleJitoError(error, 'BUNDLE_SUBMISSION_FAILED')
+        // 3. 计算最优小费
+        const tipAmount = await this.calculateOptimalTip(
+            bundleOptions.tipStrategy || this.config.tipConfig.defaultStrategy,
+            bundleOptions.priority || 'medium')
 
-            // 判断是否需要重试
-            if (this.shouldRetry(jitoError, options?.maxRetries)) {
-                return this.retryBundleSubmission(transactions, options, jitoError)
-            }
+        // 4. 添加小费交易（如果需要）
+        const { transactions: enhancedTransactions, tipPayer } = await this.addTipTransaction(transactions, tipAmount, connection)
 
-            // 更新性能指标
-            this.updateMetrics('bundle_failed', Date.now() - startTime)
+        return { transactions: enhancedTransactions, tipAmount, tipPayer, options: bundleOptions }
+    }
 
-            return {
-                bundleId: '',
-                status: 'failed',
-                estimatedConfirmationTime: 0,
-                tipAmount: 0,
-                transactionCount: transactions.length,
-                error: jitoError.message
-            }
+    /**
+     *  发送已准备好的 Bundle
+     *  提交的交易与 prepareBundle 返回的列表完全一致，不再重新计算小费或追加小费交易
+     *  @param prepared prepareBundle 的结果
+     *  @returns Bundle 提交结果
+     */
+    async sendPreparedBundle(prepared: PreparedBundle): Promise<BundleSubmissionResult> {
+        const startTime = Date.now()
 
+        try {
+            return await this.submitPreparedBundle(prepared, startTime)
+        } catch (error) {
+            return this.handleSubmissionFailure(error, startTime, prepared.transactions.length, prepared.options.maxRetries,
+                retryOptions => this.sendPreparedBundle({ ...prepared, options: { ...prepared.options, ...retryOptions } }))
+        }
+    }
+
+    /**
+     *  创建小费转账指令
+     *  小费按 Bundle 选项的小费策略计算，指令放入 Bundle 自身的交易后，sendBundle 不再追加单独的小费交易
+     *  @param payer 小费支付者 (需要签名包含该指令的交易)
+     *  @param options Bundle 选项
+     *  @returns 小费指令和小费金额
+     */
+    async createTipInstruction(
+        payer: PublicKey,
+        options?: Partial<BundleOptions>
+    ): Promise<{ instruction: TransactionInstruction; tipAmount: number }> {
+        const bundleOptions = { ...this.config.defaultBundleOptions, ...options }
+        const tipAmount = await this.calculateOptimalTip(
+            bundleOptions.tipStrategy || this.config.tipConfig.defaultStrategy,
+            bundleOptions.priority || 'medium')
+
+        const tipAccountStrings = await this.getTipAccounts()
+        if (!tipAccountStrings || tipAccountStrings.length === 0) {
+            throw new Error('No tip accounts available')
         }
 
+        // 随机选取一个小费账户（减少竞争）
+        const tipAccount = new PublicKey(tipAccountStrings[Math.floor(Math.random() * tipAccountStrings.length)])
+
+        this.log('debug', `Created tip instruction: ${tipAmount} lamports to ${tipAccount.toBase58()}`)
+        return {
+            instruction: SystemProgram.transfer({ fromPubkey: payer, toPubkey: tipAccount, lamports: tipAmount }),
+            tipAmount
+        }
     }
 
     /**
@@ -179,6 +203,82 @@ export class EnhancedJitoClient {
         }
     }
 
+    /**
+     *  批量查询近期 Bundle 的状态 (getInflightBundleStatuses，约 5 分钟内提交的 Bundle)
+     *  超出回溯时间或未知的 Bundle 返回 Invalid
+     *  @param bundleIds Bundle ID (每次最多 5 个)
+     *  @returns 各 Bundle 的状态
+     */
+    async getInflightBundleStatuses(bundleIds: string[]): Promise<BundleStatusResult[]> {
+        return this.executeWithConcurrencyControl(async () => {
+            const response = await this.jitoClient.getInFlightBundleStatuses([bundleIds])
+            if (response.error) {
+                throw new Error(`getInflightBundleStatuses failed: ${response.error.message}`)
+            }
+
+            return (response.result?.value ?? []).map(status => ({
+                bundleId: status.bundle_id,
+                status: this.mapStatus(status.status),
+                slot: status.landed_slot ?? undefined
+            }))
+        })
+    }
+
+    /**
+     *  批量查询已落地 Bundle 的状态 (getBundleStatuses)
+     *  未找到的 Bundle 不在结果中
+     *  @param bundleIds Bundle ID (每次最多 5 个)
+     *  @returns 已落地 Bundle 的状态
+     */
+    async getBundleStatuses(bundleIds: string[]): Promise<BundleStatusResult[]> {
+        return this.executeWithConcurrencyControl(async () => {
+            const response = await this.jitoClient.getBundleStatuses([bundleIds])
+            if (response.error) {
+                throw new Error(`getBundleStatuses failed: ${response.error.message}`)
+            }
+
+            return (response.result?.value ?? [])
+                .filter(status => status !== null)
+                .map(status => {
+                    const failed = status.err && !('Ok' in status.err)
+                    return {
+                        bundleId: status.bundle_id,
+                        status: failed ? BundleStatus.FAILED : BundleStatus.LANDED,
+                        slot: status.slot,
+                        confirmationStatus: status.confirmation_status,
+                        transactions: status.transactions,
+                        error: failed ? JSON.stringify(status.err) : undefined
+                    }
+                })
+        })
+    }
+
+    /**
+     *  查询交易签名的链上状态 (使用客户端的 Solana 连接，包括较早的交易历史)
+     *  @param signatures 交易签名
+     *  @returns 各签名的状态，未上链的为 null
+     */
+    async getSignatureStatuses(signatures: string[]): Promise<(SignatureStatus | null)[]> {
+        if (!this.connection) {
+            throw new Error('Connection is required to query signature statuses')
+        }
+
+        const { value } = await this.connection.getSignatureStatuses(signatures, { searchTransactionHistory: true })
+        return value
+    }
+
+    /**
+     *  查询当前 slot (使用客户端的 Solana 连接)
+     *  @returns 当前 slot
+     */
+    async getSlot(): Promise<number> {
+        if (!this.connection) {
+            throw new Error('Connection is required to query the current slot')
+        }
+
+        return this.connection.getSlot('confirmed')
+    }
+
     /**
      *  计算最优小费(智能算法)
      *  @param strategy 小费策略
@@ -272,95 +372,65 @@ export class EnhancedJitoClient {
 
 
     // ==================== 私有方法 ====================
-    private validateBundleInput(transactions: Transaction[], options?: Partial<BundleOptions>): void {
+    private validateBundleInput(transactions: BundleTransaction[], options?: Partial<BundleOptions>): void {
         if (!transactions || transactions.length === 0) {
             throw new Error('Transactions array cannot be empty')
         }
 
-        if (transactions.length > 5) {
-            throw new Error('Bundle connot contain more than 5 transactions')
+        if (transactions.length > MAX_BUNDLE_TRANSACTIONS) {
+            throw new Error(`Bundle connot contain more than ${MAX_BUNDLE_TRANSACTIONS} transactions`)
         }
 
         // 验证交易是否已经签名
         for (const tx of transactions) {
-            if (!tx.signature) {
+            if (!isTransactionSigned(tx)) {
                 throw new Error('All transactions must be signed before bunding')
             }
         }
     }
 
-    private async addTipTransaction(transactions: Transaction[], tipAmount: number, connection?: Connection): Promise<Transaction[]> {
+    private async addTipTransaction(transactions: BundleTransaction[], tipAmount: number, connection?: Connection): Promise<{ transactions: BundleTransaction[]; tipPayer?: PublicKey }> {
         // 检查是否已经包含小费交易
-        const hasTipTransaction = await this.checkForExistingTip(transactions)
+        const existingTipPayer = await this.findExistingTipPayer(transactions)
 
-        if (hasTipTransaction) {
+        if (existingTipPayer) {
             this.log('debug', 'Bundle already contains tip transaction')
-            return transactions
+            return { transactions, tipPayer: existingTipPayer }
         }
 
         // 创建小费交易
         const tipTransaction = await this.createTipTransaction(tipAmount, connection)
 
         // 将小费交易添加到末尾
-        return [...transactions, tipTransaction]
+        return { transactions: [...transactions, tipTransaction], tipPayer: this.tipPayer?.publicKey }
     }
 
-    private async applyMevProtection(transactions: Transaction[]): Promise<Transaction[]> {
-        try {
-            // 实现 MEV 保护逻辑
-
-            this.log('debug', 'Applying MEV protection to transaction')
+    private async applyMevProtection(transactions: BundleTransaction[]): Promise<BundleTransaction[]> {
+        this.log('debug', 'Applying MEV protection to transaction')
 
-            // 1. 添加 jitodontfront 保护
-            const protectedTransactions = await this.addJitoDontFrontProtection(transactions)
-
-            // 2. 应用时间随机化 （如果配置启用）
+        // jitodontfront 保护已在提交前检查，这里只应用时间随机化 （如果配置启用）
+        try {
             if (this.config.defaultBundleOptions.enableMevProtection) {
                 await this.applyTimingRandomization()
             }
-            return protectedTransactions
         } catch (error) {
-            this.log('warn', `MEV protection failed, using original transactions: ${error}`)
-            return transactions
+            this.log('warn', `Timing randomization failed: ${error}`)
         }
+        return transactions
     }
 
     /**
-     * 添加 jitodontfront 保护
+     * 检查 jitodontfront 保护
+     * 保护账户需要在组装交易时加入 (TransactionAssembler 的 dontFront 选项)，已签名的交易无法再修改，
+     * Bundle 的第一笔交易未以只读方式引用该账户时抛出错误
      */
-    private async addJitoDontFrontProtection(transactions: Transaction[]): Promise<Transaction[]> {
-        // 实现 jitodontfront 逻辑
-        try {
-            // 创建 jitodontfront 保护账户
-            const jitoDontFrontKey = new PublicKey('jitodontfront111111111111111111111111111111')
-
-            // 为每个交易添加只读的 jitodontfront 账户
-            const protectedTransactions = transactions.map(tx => {
-                // 检查是否已经包含保护账户
-                const hasProtection = tx.instructions.some(ix =>
-                    ix.keys.some(key => key.pubkey.equals
-                        (jitoDontFrontKey))
-                )
-
-                if (!hasProtection) {
-                    // 为第一个指令添加只读账户
-                    if (tx.instructions.length > 0) {
-                        tx.instructions[0].keys.push({
-                            pubkey: jitoDontFrontKey,
-                            isSigner: false,
-                            isWritable: false
-                        })
-                    }
-                }
-                return tx
-            })
-            this.log('debug', 'Added jitodontfront protection to transactions')
-            return protectedTransactions
-
-        } catch (error) {
-            this.log('warn', `Failed to add jitodontfront protection: ${error}`)
-            return transactions
+    private assertJitoDontFrontProtection(transactions: BundleTransaction[]): void {
+        const [first] = transactions
+        const hasProtection = first !== undefined && getStaticAccountKeys(first).some(key => key.equals(JITO_DONT_FRONT_ACCOUNT))
+        if (!hasProtection) {
+            throw new Error('MEV protection requires the first transaction to include the read-only jitodontfront account; assemble it with the dontFront option')
         }
+        this.log('debug', 'jitodontfront protection present in first transaction')
     }
 
     /**
@@ -374,11 +444,11 @@ export class EnhancedJitoClient {
     }
 
     private serializeTransactions(
-        transactions: Transaction[],
+        transactions: BundleTransaction[],
         encoding: 'base64' | 'base58' = 'base64'
     ): string[] {
         return transactions.map(tx => {
-            const serialized = tx.serialize({ verifySignatures: false })
+            const serialized = serializeTransaction(tx)
             return encoding === 'base64'
                 ? Buffer.from(serialized).toString('base64')
                 : bs58.encode(serialized)
@@ -425,21 +495,83 @@ export class EnhancedJitoClient {
         return retryableErrors.some(code => error.code.includes(code) && retries > 0)
     }
 
-    private async retryBundleSubmission(
-        transactions: Transaction[],
-        options?: Partial<BundleOptions>,
-        lastError?: JitoError
+    /**
+     * 提交最终的交易列表
+     */
+    private async submitPreparedBundle(prepared: PreparedBundle, startTime: number): Promise<BundleSubmissionResult> {
+        const { options: bundleOptions, tipAmount } = prepared
+
+        // 5. 应用 MEV 保护（如果启用）
+        const protectedTransactions = bundleOptions.enableMevProtection ? await this.applyMevProtection(prepared.transactions) : prepared.transactions
+
+        // 6. 序列化交易
+        const serializedTransactions = this.serializeTransactions(protectedTransactions, bundleOptions.encoding)
+
+        // 7. 发送到 Jito Block Engine
+        const response = await this.jitoClient.sendBundle([
+            serializedTransactions,
+            { encoding: bundleOptions.encoding || 'base64' }
+        ])
+
+        // 8. 处理响应
+        if (!response.result) {
+            throw new Error('Failed to get bundle ID from response')
+        }
+
+        const result: BundleSubmissionResult = {
+            bundleId: response.result,
+            status: 'submitted',
+            estimatedConfirmationTime: this.estimateConfirmationTime(bundleOptions.priority || 'medium'),
+            tipAmount,
+            tipPayer: prepared.tipPayer,
+            transactionCount: protectedTransactions.length
+        }
+
+        // 更新性能指标
+        this.updateMetrics('bundle_submitted', Date.now() - startTime)
+
+        // 报告成功到区域管理器
+        await this.reportSuccess(Date.now() - startTime)
+
+        this.log('info', `Bundle submitted successfully: ${response.result}`)
+        return result
+    }
+
+    /**
+     * 处理提交失败: 可重试的错误退避后重试，否则返回失败结果
+     * @param resend 使用减少后的重试次数重新提交
+     */
+    private async handleSubmissionFailure(
+        error: unknown,
+        startTime: number,
+        transactionCount: number,
+        maxRetries: number | undefined,
+        resend: (retryOptions: Partial<BundleOptions>) => Promise<BundleSubmissionResult>
     ): Promise<BundleSubmissionResult> {
-        // 实现重试逻辑
-        const retryOptions = { ...options, maxRetries: (options?.maxRetries || 3) - 1 }
+        // 错误处理和重试逻辑
+        const jitoError = await this.handleJitoError(error, 'BUNDLE_SUBMISSION_FAILED')
 
-        // 计算退避延迟
-        const delay = this.calculateBackoffDelay(lastError)
-        await this.sleep(delay)
+        // 判断是否需要重试
+        if (this.shouldRetry(jitoError, maxRetries)) {
+            // 计算退避延迟
+            const delay = this.calculateBackoffDelay(jitoError)
+            await this.sleep(delay)
+
+            this.log('info', `Retrying bundle submission after ${delay}ms delay`)
+            return resend({ maxRetries: (maxRetries || 3) - 1 })
+        }
 
-        this.log('info', `Retrying bundle submission after ${delay}ms delay`)
+        // 更新性能指标
+        this.updateMetrics('bundle_failed', Date.now() - startTime)
 
-        return this.sendBundle(transactions, retryOptions)
+        return {
+            bundleId: '',
+            status: 'failed',
+            estimatedConfirmationTime: 0,
+            tipAmount: 0,
+            transactionCount,
+            error: jitoError.message
+        }
     }
 
     private calculateBackoffDelay(error?: JitoError): number {
@@ -727,13 +859,17 @@ export class EnhancedJitoClient {
         }
     }
 
-    private async checkForExistingTip(transactions: Transaction[]): Promise<boolean> {
+    /**
+     *  查找 Bundle 中已有的小费转账
+     *  @returns 小费转账的转出账户，不包含小费转账时返回 undefined
+     */
+    private async findExistingTipPayer(transactions: BundleTransaction[]): Promise<PublicKey | undefined> {
         // 检查交易中是否已经包含小费交易
         try {
             // 获取官方小费账户列表
             const tipAccountsResponse = await this.jitoClient.getTipAccounts()
             if (!tipAccountsResponse.result) {
-                return false
+                return undefined
             }
 
             const tipAccountStrings = tipAccountsResponse.result
@@ -742,19 +878,38 @@ export class EnhancedJitoClient {
 
             // 检查每个交易的每个指令
             for (const transaction of transactions) {
-                for (const instruction of transaction.instructions) {
+                for (const instruction of this.getCheckableInstructions(transaction)) {
                     //检查是否 是转账到小费账户的指令
                     if (this.isTransferToTipAccount(instruction, tipAccountKeys)) {
                         this.log('debug', 'Found existing tip transaction in bundle')
-                        return true
+                        return instruction.keys[0].pubkey // 转账指令的第一个账户是转出账户
                     }
                 }
             }
-            return false
+            return undefined
         } catch (error) {
             this.log('error', `Failed to check for existing tip: ${error}`)
-            return false // 如果检查失败，假设没有小费交易
+            return undefined // 如果检查失败，假设没有小费交易
+        }
+    }
+
+    /**
+     *  获取可检查的指令
+     *  v0 交易只还原通过静态账户引用的账户 (查找表中的账户无法在本地解析)
+     */
+    private getCheckableInstructions(transaction: BundleTransaction): { programId: PublicKey, keys: { pubkey: PublicKey, isWritable: boolean }[] }[] {
+        if (!(transaction instanceof VersionedTransaction)) {
+            return transaction.instructions
         }
+
+        const { message } = transaction
+        const staticKeys = message.staticAccountKeys
+        return message.compiledInstructions.map(instruction => ({
+            programId: staticKeys[instruction.programIdIndex],
+            keys: instruction.accountKeyIndexes
+                .filter(index => index < staticKeys.length)
+                .map(index => ({ pubkey: staticKeys[index], isWritable: message.isAccountWritable(index) }))
+        }))
     }
 
     /**
@@ -808,8 +963,9 @@ export class EnhancedJitoClient {
                 // 3. 创建转账指令
                 const { SystemProgram } = await import('@solana/web3.js')
 
+                const { tipPayer, feePayer } = this.getTipSigners()
                 const tipInstruction = SystemProgram.transfer({
-                    fromPubkey: this.getWalletPublicKey(),
+                    fromPubkey: tipPayer.publicKey,
                     toPubkey: tipAccount,
                     lamports: amount
                 })
@@ -825,7 +981,13 @@ export class EnhancedJitoClient {
                 }
                 const { blockhash } = await conn.getLatestBlockhash()
                 transaction.recentBlockhash = blockhash
-                transaction.feePayer = this.getWalletPublicKey()
+                transaction.feePayer = feePayer.publicKey
+
+                // 小费账户与手续费支付者不同时两者都需要签名
+                await feePayer.signTransaction(transaction)
+                if (!tipPayer.publicKey.equals(feePayer.publicKey)) {
+                    await tipPayer.signTransaction(transaction)
+                }
 
                 this.log('debug', `Created tip transaction: ${amount} lamports to ${tipAccount.toBase58()}`)
                 return transaction
@@ -854,23 +1016,14 @@ export class EnhancedJitoClient {
     }
 
     /**
-     * 获取钱包公钥
-     * 注意：这个方法需要在构造函数中设置钱包实例
+     * 获取小费交易的签名者
+     * 注意：签名者需要在构造函数中传入
      */
-    private getWalletPublicKey(): PublicKey {
-        // 这里需要从配置获构造函数参数中获取钱包
-        if (!this.wallet) {
-            throw new Error('Wallet not configured. Please provide wallet in constructor or config.')
-        }
-
-        // 支持不同类型的钱包
-        if (this.wallet.publicKey) {
-            return this.wallet.publicKey //Keypair 类型
-        } else if (this.wallet.payer) {
-            return this.wallet.payer.publicKey // 其他钱包类型
-        } else {
-            throw new Error('Invalid wallet format. wallet must have publicKey property.')
+    private getTipSigners(): { tipPayer: TransactionSigner; feePayer: TransactionSigner } {
+        if (!this.tipPayer || !this.feePayer) {
+            throw new Error('Tip payer not configured. Please provide a TransactionSigner in constructor.')
         }
+        return { tipPayer: this.tipPayer, feePayer: this.feePayer }
     }
 
     // ==================== 并发控制机制 ====================
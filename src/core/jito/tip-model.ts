@@ -0,0 +1,223 @@
+import { TIP_MODEL_CONFIG } from '../../config/jito-config'
+import {
+    CongestionLevel,
+    LandingTarget,
+    TipModelState,
+    TipObservation,
+    TipRecommendation
+} from '../../types/jito/tip-model-types'
+
+const CONGESTION_INDEX: Record<CongestionLevel, number> = { low: 0, medium: 1, high: 2 }
+
+/**
+ * 小费模型
+ * 根据自己提交的 Bundle 的历史结果，拟合 "N 个 slot 内落地" 的概率:
+ * logit(P) = b0 + b1 * ln(tip) + b2 * congestion
+ * 每个 slot 数单独拟合 (逻辑回归，牛顿法)，结果缓存到新观测加入为止。
+ * 状态只包含观测，序列化后可在重启时恢复
+ */
+export class TipModel {
+    private observations: TipObservation[]
+    private config: typeof TIP_MODEL_CONFIG
+    private coefficients: Map<number, number[] | null> = new Map() // withinSlots -> [b0, b1, b2]
+
+    /**
+     * @param state 之前序列化的模型状态
+     * @param config 模型配置
+     */
+    constructor(state?: TipModelState, config: typeof TIP_MODEL_CONFIG = TIP_MODEL_CONFIG) {
+        if (state && state.version !== 1) {
+            throw new Error(`Unsupported tip model state version: ${state.version}`)
+        }
+        this.config = config
+        this.observations = (state?.observations ?? []).slice(-config.MAX_OBSERVATIONS)
+    }
+
+    /**
+     * 记录一个 Bundle 的小费和落地结果
+     */
+    record(observation: TipObservation): void {
+        this.observations.push({ ...observation })
+        if (this.observations.length > this.config.MAX_OBSERVATIONS) {
+            this.observations.splice(0, this.observations.length - this.config.MAX_OBSERVATIONS)
+        }
+        this.coefficients.clear()
+    }
+
+    /**
+     * 获取所有观测 (按记录顺序)
+     */
+    getObservations(): TipObservation[] {
+        return this.observations.map(observation => ({ ...observation }))
+    }
+
+    /**
+     * 预测小费在指定 slot 数内落地的概率
+     * @returns 观测不足或无法拟合时返回 null
+     */
+    predictLandingProbability(tipAmount: number, withinSlots: number, congestion: CongestionLevel): number | null {
+        const coefficients = this.getCoefficients(withinSlots)
+        if (!coefficients || tipAmount <= 0) {
+            return null
+        }
+        return sigmoid(dot(coefficients, features(tipAmount, congestion)))
+    }
+
+    /**
+     * 计算达到落地目标所需的最小小费
+     * @returns 观测不足、历史中小费与落地无正相关时返回 null (调用方应回退到百分位策略)
+     */
+    recommendTip(target: LandingTarget, congestion: CongestionLevel): TipRecommendation | null {
+        if (!(target.probability > 0 && target.probability < 1)) {
+            throw new Error(`Landing probability must be between 0 and 1: ${target.probability}`)
+        }
+        if (!Number.isInteger(target.withinSlots) || target.withinSlots < 1) {
+            throw new Error(`withinSlots must be a positive integer: ${target.withinSlots}`)
+        }
+
+        const coefficients = this.getCoefficients(target.withinSlots)
+        if (!coefficients || coefficients[1] <= 0) {
+            return null
+        }
+
+        const [b0, b1, b2] = coefficients
+        const logit = Math.log(target.probability / (1 - target.probability))
+        const tipAmount = Math.ceil(Math.exp((logit - b0 - b2 * CONGESTION_INDEX[congestion]) / b1))
+        if (!Number.isFinite(tipAmount) || tipAmount <= 0) {
+            return null
+        }
+
+        return {
+            tipAmount,
+            probability: sigmoid(dot(coefficients, features(tipAmount, congestion))),
+            withinSlots: target.withinSlots,
+            congestion,
+            sampleSize: this.observations.length
+        }
+    }
+
+    /**
+     * 序列化模型状态
+     */
+    serialize(): TipModelState {
+        return { version: 1, observations: this.getObservations() }
+    }
+
+    /**
+     * 获取 (或拟合) 指定 slot 数的模型系数
+     */
+    private getCoefficients(withinSlots: number): number[] | null {
+        if (!this.coefficients.has(withinSlots)) {
+            this.coefficients.set(withinSlots, this.fit(withinSlots))
+        }
+        return this.coefficients.get(withinSlots)!
+    }
+
+    /**
+     * 拟合逻辑回归 (带 L2 正则的牛顿法)
+     * 观测不足或结果只有一类 (全部落地或全部未落地) 时无法拟合
+     */
+    private fit(withinSlots: number): number[] | null {
+        const samples = this.observations
+            .filter(observation => observation.tipAmount > 0)
+            .map(observation => ({
+                x: features(observation.tipAmount, observation.congestion),
+                y: this.landedWithin(observation, withinSlots) ? 1 : 0
+            }))
+
+        const positives = samples.filter(sample => sample.y === 1).length
+        if (samples.length < this.config.MIN_OBSERVATIONS || positives === 0 || positives === samples.length) {
+            return null
+        }
+
+        let weights = [0, 0, 0]
+        for (let iteration = 0; iteration < this.config.MAX_ITERATIONS; iteration++) {
+            const gradient = weights.map((weight, i) => i === 0 ? 0 : -this.config.REGULARIZATION * weight)
+            const hessian = weights.map((_, i) => weights.map((_, j) => i === j && i > 0 ? this.config.REGULARIZATION : 0))
+
+            for (const { x, y } of samples) {
+                const p = sigmoid(dot(weights, x))
+                for (let i = 0; i < x.length; i++) {
+                    gradient[i] += (y - p) * x[i]
+                    for (let j = 0; j < x.length; j++) {
+                        hessian[i][j] += p * (1 - p) * x[i] * x[j]
+                    }
+                }
+            }
+
+            const step = solve(hessian, gradient)
+            if (!step) {
+                return null
+            }
+            weights = weights.map((weight, i) => weight + step[i])
+            if (Math.max(...step.map(Math.abs)) < 1e-8) {
+                break
+            }
+        }
+
+        return weights.every(Number.isFinite) ? weights : null
+    }
+
+    /**
+     * 观测是否在指定 slot 数内落地
+     * 有提交和落地的 slot 时按 slot 差计算，否则按提交到落地的时间估算
+     */
+    private landedWithin(observation: TipObservation, withinSlots: number): boolean {
+        if (!observation.landed) {
+            return false
+        }
+        if (observation.submittedSlot !== undefined && observation.landedSlot !== undefined) {
+            return observation.landedSlot - observation.submittedSlot <= withinSlots
+        }
+        if (observation.timeToLandMs !== undefined) {
+            return Math.ceil(observation.timeToLandMs / this.config.SLOT_DURATION_MS) <= withinSlots
+        }
+        return false
+    }
+}
+
+/**
+ * 模型特征: [常数项, ln(小费), 拥堵程度]
+ */
+function features(tipAmount: number, congestion: CongestionLevel): number[] {
+    return [1, Math.log(tipAmount), CONGESTION_INDEX[congestion]]
+}
+
+function sigmoid(z: number): number {
+    return 1 / (1 + Math.exp(-z))
+}
+
+function dot(a: number[], b: number[]): number {
+    return a.reduce((sum, value, i) => sum + value * b[i], 0)
+}
+
+/**
+ * 高斯消元求解线性方程组，矩阵奇异时返回 null
+ */
+function solve(matrix: number[][], vector: number[]): number[] | null {
+    const n = vector.length
+    const rows = matrix.map((row, i) => [...row, vector[i]])
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) {
+                pivot = row
+            }
+        }
+        if (Math.abs(rows[pivot][col]) < 1e-12) {
+            return null
+        }
+        [rows[col], rows[pivot]] = [rows[pivot], rows[col]]
+
+        for (let row = 0; row < n; row++) {
+            if (row === col) continue
+            const factor = rows[row][col] / rows[col][col]
+            for (let k = col; k <= n; k++) {
+                rows[row][k] -= factor * rows[col][k]
+            }
+        }
+    }
+
+    return rows.map((row, i) => row[n] / row[i])
+}
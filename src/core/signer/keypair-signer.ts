@@ -0,0 +1,89 @@
+import { Keypair, PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import { readFileSync } from "fs";
+import bs58 from "bs58";
+
+import { TransactionSigner } from "../../types/signer/signer-types";
+import { SIGNER_CONFIG } from "../../config/dex-config";
+
+/**
+ * 本地密钥签名者
+ * 私钥保存在进程内存中，可以从 Solana CLI 密钥文件或环境变量加载
+ */
+export class KeypairSigner implements TransactionSigner {
+    private _keypair: Keypair;
+
+    /**
+     * 构造函数
+     * @param keypair 签名密钥对
+     */
+    constructor(keypair: Keypair) {
+        this._keypair = keypair;
+    }
+
+    /**
+     * 从 Solana CLI 格式的密钥文件加载 (JSON 字节数组，如 ~/.config/solana/id.json)
+     * @param path 密钥文件路径
+     */
+    static fromFile(path: string): KeypairSigner {
+        let content: string;
+        try {
+            content = readFileSync(path, 'utf8');
+        } catch (error) {
+            throw new Error(`无法读取密钥文件 ${path}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const signer = new KeypairSigner(KeypairSigner.parseSecretKey(content, `密钥文件 ${path}`));
+        console.log(`🔑 已从密钥文件加载签名者: ${signer.publicKey.toBase58()}`);
+        return signer;
+    }
+
+    /**
+     * 从环境变量加载私钥 (JSON 字节数组或 base58)
+     * @param variable 环境变量名
+     */
+    static fromEnv(variable: string = SIGNER_CONFIG.ENV_VARIABLE): KeypairSigner {
+        const value = process.env[variable];
+        if (!value) {
+            throw new Error(`环境变量 ${variable} 未设置`);
+        }
+
+        const signer = new KeypairSigner(KeypairSigner.parseSecretKey(value, `环境变量 ${variable}`));
+        console.log(`🔑 已从环境变量 ${variable} 加载签名者: ${signer.publicKey.toBase58()}`);
+        return signer;
+    }
+
+    /**
+     * 解析私钥，支持 JSON 字节数组和 base58 两种格式
+     */
+    private static parseSecretKey(value: string, source: string): Keypair {
+        const trimmed = value.trim();
+        try {
+            const secretKey = trimmed.startsWith('[')
+                ? Uint8Array.from(JSON.parse(trimmed))
+                : bs58.decode(trimmed);
+            return Keypair.fromSecretKey(secretKey);
+        } catch (error) {
+            throw new Error(`${source} 不是有效的私钥 (应为 JSON 字节数组或 base58)`);
+        }
+    }
+
+    get publicKey(): PublicKey {
+        return this._keypair.publicKey;
+    }
+
+    async signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> {
+        if (transaction instanceof VersionedTransaction) {
+            transaction.sign([this._keypair]);
+        } else {
+            transaction.partialSign(this._keypair);
+        }
+        return transaction;
+    }
+
+    async signAllTransactions<T extends Transaction | VersionedTransaction>(transactions: T[]): Promise<T[]> {
+        for (const transaction of transactions) {
+            await this.signTransaction(transaction);
+        }
+        return transactions;
+    }
+}
@@ -0,0 +1,117 @@
+import { PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import { createPublicKey, KeyObject, verify } from "crypto";
+import bs58 from "bs58";
+
+import {
+    RemotePublicKeyResponse,
+    RemoteSignRequest,
+    RemoteSignResponse,
+    TransactionSigner
+} from "../../types/signer/signer-types";
+import { SIGNER_CONFIG } from "../../config/dex-config";
+import { addTransactionSignature, getTransactionMessageBytes } from "../../utils/transaction/transaction-utils";
+
+/** ed25519 公钥的 SPKI DER 前缀，后接 32 字节公钥 */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * 远程签名者
+ * 通过 HTTP 将待签名的消息发送给签名服务 (HSM、KMS 或托管钱包网关)，
+ * 私钥不进入本进程。返回的签名在添加到交易前先本地验证
+ */
+export class RemoteSigner implements TransactionSigner {
+    private _url: string;
+    private _publicKey: PublicKey;
+    private _verifyKey: KeyObject;
+    private _config: typeof SIGNER_CONFIG;
+
+    /**
+     * 构造函数
+     * @param url 签名服务地址
+     * @param publicKey 签名服务持有的公钥
+     * @param config 签名配置
+     */
+    constructor(url: string, publicKey: PublicKey, config: typeof SIGNER_CONFIG = SIGNER_CONFIG) {
+        this._url = url.replace(/\/+$/, '');
+        this._publicKey = publicKey;
+        this._config = config;
+        this._verifyKey = createPublicKey({
+            key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey.toBuffer()]),
+            format: 'der',
+            type: 'spki'
+        });
+    }
+
+    /**
+     * 连接签名服务并读取其公钥
+     * @param url 签名服务地址
+     * @param config 签名配置
+     */
+    static async connect(url: string, config: typeof SIGNER_CONFIG = SIGNER_CONFIG): Promise<RemoteSigner> {
+        const response = await fetch(`${url.replace(/\/+$/, '')}/public-key`, {
+            signal: AbortSignal.timeout(config.REMOTE_TIMEOUT_MS)
+        });
+        if (!response.ok) {
+            throw new Error(`读取远程签名者公钥失败 (HTTP ${response.status})`);
+        }
+
+        const { publicKey } = await response.json() as RemotePublicKeyResponse;
+        const signer = new RemoteSigner(url, new PublicKey(publicKey), config);
+        console.log(`🔑 已连接远程签名者: ${signer.publicKey.toBase58()}`);
+        return signer;
+    }
+
+    get publicKey(): PublicKey {
+        return this._publicKey;
+    }
+
+    async signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> {
+        const [signed] = await this.signAllTransactions([transaction]);
+        return signed;
+    }
+
+    async signAllTransactions<T extends Transaction | VersionedTransaction>(transactions: T[]): Promise<T[]> {
+        if (transactions.length === 0) {
+            return transactions;
+        }
+
+        const messages = transactions.map(transaction => getTransactionMessageBytes(transaction));
+        const signatures = await this._requestSignatures(messages);
+
+        transactions.forEach((transaction, index) => {
+            const signature = signatures[index];
+            if (!verify(null, messages[index], this._verifyKey, signature)) {
+                throw new Error(`远程签名者返回的第 ${index + 1} 个签名无效`);
+            }
+            addTransactionSignature(transaction, this._publicKey, signature);
+        });
+
+        return transactions;
+    }
+
+    /**
+     * 请求签名服务签名消息
+     */
+    private async _requestSignatures(messages: Uint8Array[]): Promise<Uint8Array[]> {
+        const request: RemoteSignRequest = {
+            publicKey: this._publicKey.toBase58(),
+            messages: messages.map(message => Buffer.from(message).toString('base64'))
+        };
+
+        const response = await fetch(`${this._url}/sign`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(request),
+            signal: AbortSignal.timeout(this._config.REMOTE_TIMEOUT_MS)
+        });
+        if (!response.ok) {
+            throw new Error(`远程签名失败 (HTTP ${response.status}): ${await response.text()}`);
+        }
+
+        const { signatures } = await response.json() as RemoteSignResponse;
+        if (!Array.isArray(signatures) || signatures.length !== messages.length) {
+            throw new Error(`远程签名者返回 ${signatures?.length ?? 0} 个签名，期望 ${messages.length} 个`);
+        }
+        return signatures.map(signature => bs58.decode(signature));
+    }
+}
@@ -0,0 +1,64 @@
+import { PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+
+import { TransactionSigner } from "../../types/signer/signer-types";
+import { getRequiredSigners } from "../../utils/transaction/transaction-utils";
+
+/**
+ * 签名者注册表
+ * 管理多个钱包 (手续费支付者、交易子账户等) 的签名者，
+ * 按交易要求的签名者逐一签名，适用于手续费支付者与代币所有者分离的多签交易
+ */
+export class SignerRegistry {
+    private _signers: Map<string, TransactionSigner> = new Map();
+
+    /**
+     * 构造函数
+     * @param signers 初始签名者
+     */
+    constructor(signers: TransactionSigner[] = []) {
+        signers.forEach(signer => this.register(signer));
+    }
+
+    /**
+     * 注册签名者 (同一公钥重复注册时替换)
+     * @param signer 签名者
+     */
+    register(signer: TransactionSigner): void {
+        this._signers.set(signer.publicKey.toBase58(), signer);
+    }
+
+    /**
+     * 是否有该钱包的签名者
+     * @param publicKey 钱包地址
+     */
+    has(publicKey: PublicKey): boolean {
+        return this._signers.has(publicKey.toBase58());
+    }
+
+    /**
+     * 获取钱包的签名者
+     * @param publicKey 钱包地址
+     */
+    get(publicKey: PublicKey): TransactionSigner | undefined {
+        return this._signers.get(publicKey.toBase58());
+    }
+
+    /**
+     * 使用交易要求的全部签名者签名
+     * 缺少任一签名者时不签名并抛错
+     * @param transaction 交易
+     * @returns 签名后的同一交易
+     */
+    async signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> {
+        const required = getRequiredSigners(transaction);
+        const missing = required.filter(publicKey => !this.has(publicKey));
+        if (missing.length > 0) {
+            throw new Error(`缺少签名者: ${missing.map(publicKey => publicKey.toBase58()).join(', ')}`);
+        }
+
+        for (const publicKey of required) {
+            await this.get(publicKey)!.signTransaction(transaction);
+        }
+        return transaction;
+    }
+}
@@ -1,13 +1,24 @@
-import { Connection, PublicKey, Transaction, TransactionInstruction } from "@solana/web3.js";
+import { ConfirmedTransactionMeta, Connection, PublicKey } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
 import { Wallet } from "@coral-xyz/anchor";
 import BN from "bn.js";
 
 import { DEXAggregator } from "../aggregator/dex-aggregator";
+import { TransactionSimulator } from "../transaction/transaction-simulator";
+import { BlockhashManager } from "../transaction/blockhash-manager";
+import { TransactionSender } from "../transaction/transaction-sender";
 import { TokenAccountManager } from "../account-manager/token-account-manager";
+import { WalletLedger } from "../account-manager/wallet-ledger";
+import { KeypairSigner } from "../signer/keypair-signer";
+import { SignerRegistry } from "../signer/signer-registry";
 import { OrcaProtocol } from "../../protocols/orca/orca-protocol";
 import { SwapParams, SwapResult, SwapDirection } from "../../types/swap/swap-types";
+import { AggregatedRoute } from "../../types/dex/protocol";
+import { AccountRentSummary, AssembledTransaction, LandingResult } from "../../types/transaction/transaction-types";
+import { TransactionSigner } from "../../types/signer/signer-types";
+import { getLamportBalanceChange, getTokenBalanceChange } from "../../utils/transaction/transaction-utils";
 import { getTokenMint, NetworkType } from "../../config/network-config";
-import { SWAP_CONFIG } from "../../config/dex-config";
+import { EXECUTION_COST_CONFIG, SWAP_CONFIG, WSOL_CONFIG } from "../../config/dex-config";
 
 /**
  * 交换引擎
@@ -16,8 +27,14 @@ import { SWAP_CONFIG } from "../../config/dex-config";
 export class SwapEngine {
     private _connection: Connection;
     private _wallet: Wallet;
+    private _signers: SignerRegistry;
+    private _feePayer: PublicKey;
+    private _ledger: WalletLedger;
     private _aggregator: DEXAggregator;
     private _accountManager: TokenAccountManager;
+    private _simulator: TransactionSimulator;
+    private _blockhashManager: BlockhashManager;
+    private _sender: TransactionSender;
     private _networkType: NetworkType;
 
     /**
@@ -25,18 +42,27 @@ export class SwapEngine {
      * @param connection Solana连接实例
      * @param wallet 钱包实例
      * @param networkType 网络类型
+     * @param signer 钱包的签名者，默认使用钱包的密钥
+     * @param feePayer 手续费支付者，默认为钱包 (与代币所有者分离时交易由两者共同签名)
      */
     constructor(
         connection: Connection, 
         wallet: Wallet, 
-        networkType: NetworkType = NetworkType.DEVNET
+        networkType: NetworkType = NetworkType.DEVNET,
+        signer: TransactionSigner = new KeypairSigner(wallet.payer),
+        feePayer: TransactionSigner = signer
     ) {
         this._connection = connection;
         this._wallet = wallet;
+        this._signers = new SignerRegistry([signer, feePayer]);
+        this._feePayer = feePayer.publicKey;
+        this._ledger = new WalletLedger();
         this._networkType = networkType;
         
         // 初始化组件
-        this._accountManager = new TokenAccountManager(connection);
+        this._simulator = new TransactionSimulator(connection);
+        this._blockhashManager = new BlockhashManager(connection);
+        this._sender = new TransactionSender(connection, this._blockhashManager);
         
         // 初始化支持的协议
         const protocols = [
@@ -44,11 +70,29 @@ export class SwapEngine {
             // 可以在这里添加更多协议: Raydium, Jupiter等
         ];
         
-        this._aggregator = new DEXAggregator(connection, protocols);
+        this._aggregator = new DEXAggregator(connection, protocols, networkType, this._blockhashManager);
+        this._accountManager = new TokenAccountManager(connection, this._aggregator.getMintRegistry());
         
         console.log(`🚀 交换引擎初始化完成 (${networkType})`);
     }
 
+    /**
+     * 注册交易子账户
+     * 注册后可以在 SwapParams.owner 中指定该账户交换，手续费仍由引擎的手续费支付者支付
+     * @param signer 子账户的签名者
+     */
+    registerWallet(signer: TransactionSigner): void {
+        this._signers.register(signer);
+        console.log(`👛 已注册交易账户: ${signer.publicKey.toBase58()}`);
+    }
+
+    /**
+     * 获取按钱包记录的交换次数和手续费
+     */
+    getLedger(): WalletLedger {
+        return this._ledger;
+    }
+
     /**
      * 执行交换操作
      * @param params 交换参数
@@ -57,56 +101,114 @@ export class SwapEngine {
     async executeSwap(params: SwapParams): Promise<SwapResult> {
         console.log("🔄 开始执行交换操作...");
         console.log(`   方向: ${params.direction}`);
-        console.log(`   金额: ${params.inputAmount.toString()}`);
+        if (params.swapMode === 'ExactOut') {
+            console.log(`   模式: 精确输出`);
+            console.log(`   输出金额: ${params.outputAmount?.toString()}`);
+            console.log(`   最大输入: ${params.inputAmount.toString()}`);
+        } else {
+            console.log(`   金额: ${params.inputAmount.toString()}`);
+        }
         console.log(`   滑点: ${(params.slippageTolerance * 100).toFixed(2)}%`);
 
         try {
             // 1. 验证参数
             this._validateSwapParams(params);
+            const owner = params.owner ?? this._wallet.publicKey;
+            if (!this._signers.has(owner)) {
+                throw new Error(`交易账户 ${owner.toBase58()} 未注册签名者`);
+            }
 
             // 2. 获取代币mint地址
             const { tokenMintA, tokenMintB } = this._getTokenMints(params.direction);
 
             // 3. 检查用户余额
-            await this._checkUserBalance(params, tokenMintA);
-
-            // 4. 获取聚合报价
-            const route = await this._aggregator.getAggregatedQuote(
-                tokenMintA,
-                tokenMintB,
-                params.inputAmount,
-                params.slippageTolerance
-            );
-
-            console.log(`🎯 选择最优DEX: ${route.recommendedDEX}`);
-            console.log(`   预期输出: ${route.bestQuote.outputAmount.toString()}`);
-
-            // 5. 检查最小输出金额
-            if (route.bestQuote.outputAmount.lt(params.minimumOutputAmount)) {
-                throw new Error(
-                    `输出金额 ${route.bestQuote.outputAmount.toString()} 低于最小要求 ${params.minimumOutputAmount.toString()}`
+            await this._checkUserBalance(params, tokenMintA, owner);
+
+            // 区块哈希过期时重新报价并签名，新报价仍须满足滑点保护
+            for (let resubmissions = 0; ; resubmissions++) {
+                // 4. 获取聚合报价 (重新提交时忽略缓存)
+                const route = await this._getRoute(params, tokenMintA, tokenMintB, resubmissions > 0);
+
+                console.log(`🎯 选择最优DEX: ${route.recommendedDEX}`);
+                console.log(`   预期输入: ${route.bestQuote.inputAmount.toString()}`);
+                console.log(`   预期输出: ${route.bestQuote.outputAmount.toString()}`);
+
+                // 5. 检查滑点保护 (精确输入检查最小输出，精确输出检查最大输入)
+                if (params.swapMode === 'ExactOut') {
+                    const maxInputAmount = route.bestQuote.maxInputAmount ?? route.bestQuote.inputAmount;
+                    if (maxInputAmount.gt(params.inputAmount)) {
+                        throw new Error(
+                            `最大输入金额 ${maxInputAmount.toString()} 超过可接受上限 ${params.inputAmount.toString()}`
+                        );
+                    }
+                } else if (route.bestQuote.outputAmount.lt(params.minimumOutputAmount)) {
+                    throw new Error(
+                        `输出金额 ${route.bestQuote.outputAmount.toString()} 低于最小要求 ${params.minimumOutputAmount.toString()}`
+                    );
+                }
+
+                // 6. 构建完整交易 (v0，使用地址查找表)
+                const assembled = await this._aggregator.buildVersionedSwapTransaction(
+                    route,
+                    owner,
+                    tokenMintA,
+                    tokenMintB,
+                    { feePayer: this._feePayer }
                 );
-            }
-
-            // 6. 构建完整交易
-            const instructions = await this._aggregator.buildCompleteSwapTransaction(
-                route,
-                this._wallet.publicKey,
-                tokenMintA,
-                tokenMintB
-            );
-
-            // 7. 发送交易
-            const signature = await this._sendTransaction(instructions);
 
-            // 8. 验证交易结果
-            const result = await this._verifySwapResult(signature, route);
-
-            console.log("✅ 交换操作完成!");
-            console.log(`   交易签名: ${signature}`);
-            console.log(`   实际输出: ${result.outputAmount.toString()}`);
-
-            return result;
+                // 7. 预执行模拟 (失败时不发送，不产生手续费)
+                const simulation = await this._simulator.simulate(assembled.transaction);
+                if (simulation.failure) {
+                    console.log(`💡 ${simulation.failure.suggestion}`);
+                    return {
+                        signature: "",
+                        inputAmount: params.inputAmount,
+                        outputAmount: new BN(0),
+                        priceImpact: 0,
+                        success: false,
+                        error: simulation.failure.message,
+                        simulationFailure: simulation.failure
+                    };
+                }
+
+                // 8. 签名并广播，直到确认或区块哈希过期
+                const landing = { ...await this._sendTransaction(assembled), resubmissions };
+
+                // 上链的交易 (包括执行失败的) 都扣除手续费
+                if (landing.outcome === 'landed' || landing.outcome === 'failed') {
+                    this._ledger.recordTransaction(assembled.transaction, assembled.computeBudget);
+                }
+                if (landing.outcome === 'landed' && assembled.accountRent) {
+                    this._ledger.recordAccountRent(this._feePayer, owner, assembled.accountRent);
+                }
+
+                if (landing.outcome === 'expired' && resubmissions < this._sender.maxResubmissions) {
+                    console.log(`🔁 区块哈希已过期，重新报价并签名 (${resubmissions + 1}/${this._sender.maxResubmissions})`);
+                    continue;
+                }
+
+                if (landing.outcome !== 'landed') {
+                    return {
+                        signature: landing.signature,
+                        inputAmount: params.inputAmount,
+                        outputAmount: new BN(0),
+                        priceImpact: 0,
+                        success: false,
+                        error: `交易未落地 (${landing.outcome})${landing.error ? `: ${landing.error}` : ''}`,
+                        landing
+                    };
+                }
+
+                // 9. 验证交易结果
+                const result = await this._verifySwapResult(landing, route, owner, tokenMintA, tokenMintB, assembled.accountRent);
+                this._ledger.recordSwap(owner);
+
+                console.log("✅ 交换操作完成!");
+                console.log(`   交易签名: ${landing.signature}`);
+                console.log(`   实际输出: ${result.outputAmount.toString()}`);
+
+                return result;
+            }
 
         } catch (error) {
             console.log(`❌ 交换操作失败: ${error}`);
@@ -131,12 +233,7 @@ export class SwapEngine {
 
         const { tokenMintA, tokenMintB } = this._getTokenMints(params.direction);
 
-        return await this._aggregator.getAggregatedQuote(
-            tokenMintA,
-            tokenMintB,
-            params.inputAmount,
-            params.slippageTolerance
-        );
+        return await this._getRoute(params, tokenMintA, tokenMintB);
     }
 
     /**
@@ -179,6 +276,43 @@ export class SwapEngine {
         if (params.minimumOutputAmount.lt(new BN(0))) {
             throw new Error("最小输出金额不能为负数");
         }
+
+        if (params.swapMode === 'ExactOut' && (!params.outputAmount || params.outputAmount.lte(new BN(0)))) {
+            throw new Error("精确输出模式下输出金额必须大于0");
+        }
+    }
+
+    /**
+     * 按交换模式获取聚合报价
+     * @param params 交换参数
+     * @param tokenMintA 输入代币mint地址
+     * @param tokenMintB 输出代币mint地址
+     * @param forceRefresh 是否忽略缓存重新报价
+     * @returns 聚合路由结果
+     */
+    private async _getRoute(
+        params: SwapParams,
+        tokenMintA: PublicKey,
+        tokenMintB: PublicKey,
+        forceRefresh: boolean = false
+    ): Promise<AggregatedRoute> {
+        if (params.swapMode === 'ExactOut') {
+            return await this._aggregator.getAggregatedQuoteExactOut(
+                tokenMintA,
+                tokenMintB,
+                params.outputAmount!,
+                params.slippageTolerance,
+                forceRefresh
+            );
+        }
+
+        return await this._aggregator.getAggregatedQuote(
+            tokenMintA,
+            tokenMintB,
+            params.inputAmount,
+            params.slippageTolerance,
+            forceRefresh
+        );
     }
 
     /**
@@ -204,17 +338,21 @@ export class SwapEngine {
      * 检查用户余额
      * @param params 交换参数
      * @param tokenMint 输入代币mint地址
+     * @param owner 代币所有者
      */
-    private async _checkUserBalance(params: SwapParams, tokenMint: PublicKey): Promise<void> {
+    private async _checkUserBalance(params: SwapParams, tokenMint: PublicKey, owner: PublicKey): Promise<void> {
         const tokenAccount = await this._accountManager.getAssociatedTokenAccountAddress(
             tokenMint,
-            this._wallet.publicKey
+            owner
         );
 
         // 对于SOL，检查原生余额
         if (tokenMint.equals(getTokenMint('SOL', undefined, this._networkType))) {
-            const balance = await this._connection.getBalance(this._wallet.publicKey);
-            const requiredBalance = params.inputAmount.toNumber() + 5000000; // 预留0.005 SOL作为手续费
+            const balance = await this._connection.getBalance(owner);
+            // 所有者同时支付手续费时预留0.005 SOL，使用临时 WSOL 账户时还需垫付账户租金 (交换后退回)
+            const requiredBalance = params.inputAmount.toNumber()
+                + (owner.equals(this._feePayer) ? 5000000 : 0)
+                + (WSOL_CONFIG.MODE === 'ephemeral' ? EXECUTION_COST_CONFIG.TOKEN_ACCOUNT_RENT_LAMPORTS : 0);
             
             if (balance < requiredBalance) {
                 throw new Error(`SOL余额不足: 需要 ${requiredBalance / 1e9} SOL，当前 ${balance / 1e9} SOL`);
@@ -229,41 +367,102 @@ export class SwapEngine {
     }
 
     /**
-     * 发送交易
-     * @param instructions 交易指令数组
-     * @returns 交易签名
+     * 签名并发送交易
+     * @param assembled 组装完成的交易
+     * @returns 落地结果
      */
-    private async _sendTransaction(instructions: TransactionInstruction[]): Promise<string> {
+    private async _sendTransaction(assembled: AssembledTransaction): Promise<LandingResult> {
         console.log("📤 发送交易...");
 
-        const transaction = new Transaction();
-        
-        console.log(`   添加 ${instructions.length} 个指令到交易`);
-        instructions.forEach(ix => transaction.add(ix));
+        if (!assembled.withinSizeLimit) {
+            throw new Error(`交易大小 ${assembled.serializedSize} 字节超过上限 ${assembled.maxSize} 字节`);
+        }
+        if (assembled.lastValidBlockHeight === undefined) {
+            throw new Error('交易缺少最后有效区块高度，无法判断过期');
+        }
 
-        // 发送并确认交易
-        const signature = await this._connection.sendTransaction(transaction, [this._wallet.payer]);
-        await this._connection.confirmTransaction(signature, 'confirmed');
+        const { transaction } = assembled;
+        console.log(`   ${transaction.message.compiledInstructions.length} 个指令，${assembled.serializedSize} 字节`);
+        await this._signers.signTransaction(transaction);
 
-        return signature;
+        return await this._sender.sendAndConfirm(transaction, assembled.lastValidBlockHeight);
     }
 
     /**
      * 验证交换结果
-     * @param signature 交易签名
+     * 实际输入、输出金额取自已上链交易中代币所有者的余额变化；无法获取交易时按报价金额返回
+     * @param landing 交易落地结果
      * @param route 路由信息
+     * @param owner 代币所有者
+     * @param inputMint 输入代币mint地址
+     * @param outputMint 输出代币mint地址
+     * @param accountRent 代币账户的租金收支
      * @returns 交换结果
      */
-    private async _verifySwapResult(signature: string, route: any): Promise<SwapResult> {
-        // 这里可以添加更详细的结果验证逻辑
-        // 比如检查实际的代币转移金额等
-        
-        return {
-            signature,
+    private async _verifySwapResult(
+        landing: LandingResult,
+        route: AggregatedRoute,
+        owner: PublicKey,
+        inputMint: PublicKey,
+        outputMint: PublicKey,
+        accountRent?: AccountRentSummary
+    ): Promise<SwapResult> {
+        const result: SwapResult = {
+            signature: landing.signature,
             inputAmount: route.bestQuote.inputAmount,
             outputAmount: route.bestQuote.outputAmount,
             priceImpact: route.bestQuote.priceImpact,
-            success: true
+            success: true,
+            landing,
+            accountRent
+        };
+
+        const response = await this._connection.getTransaction(landing.signature, {
+            commitment: 'confirmed',
+            maxSupportedTransactionVersion: 0
+        });
+        if (!response?.meta) {
+            console.log(`⚠️ 无法获取已上链的交易，按报价金额返回交换结果: ${landing.signature}`);
+            return result;
+        }
+
+        const accountKeys = response.transaction.message.staticAccountKeys;
+        const inputChange = this._getSwapBalanceChange(response.meta, accountKeys, owner, inputMint, accountRent);
+        const outputChange = this._getSwapBalanceChange(response.meta, accountKeys, owner, outputMint, accountRent);
+
+        return {
+            ...result,
+            inputAmount: new BN((-inputChange).toString()),
+            outputAmount: new BN(outputChange.toString())
         };
     }
+
+    /**
+     * 计算交换引起的代币所有者余额变化
+     * 原生SOL合计 lamports 和 WSOL 账户的余额变化，并排除手续费和代币账户租金的收支
+     * @param meta 已上链交易的元数据
+     * @param accountKeys 交易的静态账户列表
+     * @param owner 代币所有者
+     * @param mint 代币mint地址
+     * @param accountRent 代币账户的租金收支
+     * @returns 余额变化 (代币最小单位，减少时为负)
+     */
+    private _getSwapBalanceChange(
+        meta: ConfirmedTransactionMeta,
+        accountKeys: PublicKey[],
+        owner: PublicKey,
+        mint: PublicKey,
+        accountRent?: AccountRentSummary
+    ): bigint {
+        let change = getTokenBalanceChange(meta, owner, mint);
+        if (!mint.equals(NATIVE_MINT)) {
+            return change;
+        }
+
+        change += getLamportBalanceChange(meta, accountKeys, owner);
+        if (owner.equals(this._feePayer)) {
+            change += BigInt(meta.fee + (accountRent?.paidLamports ?? 0) - (accountRent?.refundedLamports ?? 0));
+        }
+        return change - BigInt(accountRent?.ownerRefundedLamports ?? 0);
+    }
 }
@@ -0,0 +1,103 @@
+import { Connection } from "@solana/web3.js";
+
+import { BlockhashInfo } from "../../types/transaction/transaction-types";
+import { BLOCKHASH_CONFIG } from "../../config/dex-config";
+
+/**
+ * 区块哈希管理器
+ * 各组件共享的区块哈希服务：缓存最近的区块哈希及其最后有效区块高度，
+ * 过期后重新获取 (并发请求共用同一次查询)，start() 后在后台定时预取
+ */
+export class BlockhashManager {
+    private _connection: Connection;
+    private _config: typeof BLOCKHASH_CONFIG;
+    private _current: BlockhashInfo | null = null;
+    private _pending: Promise<BlockhashInfo> | null = null;
+    private _refreshTimer?: NodeJS.Timeout;
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param config 区块哈希配置
+     */
+    constructor(connection: Connection, config: typeof BLOCKHASH_CONFIG = BLOCKHASH_CONFIG) {
+        this._connection = connection;
+        this._config = config;
+    }
+
+    /**
+     * 获取区块哈希
+     * 缓存未超过有效期时直接返回
+     * @param forceRefresh 是否忽略缓存重新获取
+     * @returns 区块哈希及最后有效区块高度
+     */
+    async getBlockhash(forceRefresh: boolean = false): Promise<BlockhashInfo> {
+        if (!forceRefresh && this._current && Date.now() - this._current.fetchedAt < this._config.MAX_AGE_MS) {
+            return this._current;
+        }
+        return await this.refresh();
+    }
+
+    /**
+     * 重新获取区块哈希
+     * @returns 最新的区块哈希
+     */
+    async refresh(): Promise<BlockhashInfo> {
+        if (!this._pending) {
+            this._pending = this._connection.getLatestBlockhash(this._config.COMMITMENT)
+                .then(({ blockhash, lastValidBlockHeight }) => {
+                    this._current = { blockhash, lastValidBlockHeight, fetchedAt: Date.now() };
+                    return this._current;
+                })
+                .finally(() => {
+                    this._pending = null;
+                });
+        }
+        return await this._pending;
+    }
+
+    /**
+     * 获取当前区块高度
+     */
+    async getBlockHeight(): Promise<number> {
+        return await this._connection.getBlockHeight(this._config.COMMITMENT);
+    }
+
+    /**
+     * 判断区块哈希是否已过期
+     * @param lastValidBlockHeight 区块哈希的最后有效区块高度
+     * @returns 当前区块高度超过最后有效区块高度时为 true
+     */
+    async isExpired(lastValidBlockHeight: number): Promise<boolean> {
+        return (await this.getBlockHeight()) > lastValidBlockHeight;
+    }
+
+    /**
+     * 启动后台预取
+     */
+    start(): void {
+        if (this._refreshTimer) {
+            return;
+        }
+
+        this._refreshTimer = setInterval(() => {
+            this.refresh().catch(error => {
+                console.log(`⚠️ 预取区块哈希失败: ${error instanceof Error ? error.message : String(error)}`);
+            });
+        }, this._config.REFRESH_INTERVAL_MS);
+        // 预取不应阻止进程退出
+        this._refreshTimer.unref();
+
+        console.log(`🧱 区块哈希预取已启动，间隔 ${this._config.REFRESH_INTERVAL_MS}ms`);
+    }
+
+    /**
+     * 停止后台预取
+     */
+    stop(): void {
+        if (this._refreshTimer) {
+            clearInterval(this._refreshTimer);
+            this._refreshTimer = undefined;
+        }
+    }
+}
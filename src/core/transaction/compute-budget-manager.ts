@@ -0,0 +1,166 @@
+import {
+    ComputeBudgetProgram,
+    Connection,
+    PublicKey,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction
+} from "@solana/web3.js";
+
+import { ComputeBudgetOptions, ComputeBudgetResult } from "../../types/transaction/transaction-types";
+import { SwapPriority } from "../../types/facade/swap-types";
+import { COMPUTE_BUDGET_CONFIG } from "../../config/dex-config";
+import { PriorityFeeEstimator } from "./priority-fee-estimator";
+
+/**
+ * 计算预算管理器
+ * 模拟交易测量实际消耗的CU，加上余量作为CU上限，
+ * 按优先级估算优先费单价，并在指令列表开头插入 setComputeUnitLimit / setComputeUnitPrice
+ */
+export class ComputeBudgetManager {
+    private _connection: Connection;
+    private _feeEstimator: PriorityFeeEstimator;
+    private _config: typeof COMPUTE_BUDGET_CONFIG;
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param feeEstimator 优先费估算器
+     * @param config 计算预算与优先费配置
+     */
+    constructor(
+        connection: Connection,
+        feeEstimator: PriorityFeeEstimator = new PriorityFeeEstimator(connection),
+        config: typeof COMPUTE_BUDGET_CONFIG = COMPUTE_BUDGET_CONFIG
+    ) {
+        this._connection = connection;
+        this._feeEstimator = feeEstimator;
+        this._config = config;
+    }
+
+    /**
+     * 为指令设置计算预算
+     * 输入中已有的计算预算指令 (如协议自带的) 会被替换
+     * @param instructions 交易指令
+     * @param payer 手续费支付者
+     * @param options 计算预算选项
+     * @returns 插入计算预算指令后的指令列表及所用设置
+     */
+    async apply(
+        instructions: TransactionInstruction[],
+        payer: PublicKey,
+        options: ComputeBudgetOptions = {}
+    ): Promise<ComputeBudgetResult> {
+        const body = instructions.filter(instruction => !instruction.programId.equals(ComputeBudgetProgram.programId));
+        const writableAccounts = [
+            payer,
+            ...body.flatMap(instruction => instruction.keys.filter(key => key.isWritable).map(key => key.pubkey))
+        ];
+
+        const [simulatedUnits, unitPrice] = await Promise.all([
+            options.skipSimulation ? null : this.simulateUnits(body, payer, options),
+            this._feeEstimator.estimate(writableAccounts, options.priority ?? SwapPriority.MEDIUM)
+        ]);
+
+        const measuredUnits = simulatedUnits ?? (options.skipSimulation ? undefined : options.fallbackUnits) ?? this._config.MAX_CU_LIMIT;
+        const unitLimit = this._getUnitLimit(measuredUnits);
+        const priorityFeeLamports = Math.ceil(unitLimit * unitPrice / 1_000_000);
+
+        const source = simulatedUnits !== null ? `模拟 ${simulatedUnits}` : options.skipSimulation ? '待测' : '预估';
+        console.log(`⛽ 计算预算: ${unitLimit} CU (${source})，单价 ${unitPrice} 微lamports/CU，优先费 ${priorityFeeLamports} lamports`);
+
+        return {
+            instructions: [...this._buildBudgetInstructions(unitLimit, unitPrice), ...body],
+            unitLimit,
+            unitPrice,
+            simulatedUnits,
+            priorityFeeLamports
+        };
+    }
+
+    /**
+     * 按已测得的CU重新设置计算预算
+     * 用于无法单独模拟的交易 (如原子 Bundle 中使用前序交易输出的交易，CU由 Bundle 整体模拟测得)；
+     * 计算预算指令留在原位置 (如 durable nonce 的 advance 指令之后)，优先费单价不变
+     * @param instructions 已包含计算预算指令的交易指令
+     * @param unitsConsumed 测得的CU
+     * @param unitPrice 优先费单价 (微lamports / CU)
+     * @returns 替换计算预算指令后的指令列表及所用设置
+     */
+    applyMeasuredUnits(instructions: TransactionInstruction[], unitsConsumed: number, unitPrice: number): ComputeBudgetResult {
+        const budgetIndex = instructions.findIndex(instruction => instruction.programId.equals(ComputeBudgetProgram.programId));
+        if (budgetIndex < 0) {
+            throw new Error("交易没有计算预算指令，无法设置CU上限");
+        }
+
+        const unitLimit = this._getUnitLimit(unitsConsumed);
+        const priorityFeeLamports = Math.ceil(unitLimit * unitPrice / 1_000_000);
+        const body = instructions.filter(instruction => !instruction.programId.equals(ComputeBudgetProgram.programId));
+
+        console.log(`⛽ 计算预算: ${unitLimit} CU (实测 ${unitsConsumed})，单价 ${unitPrice} 微lamports/CU，优先费 ${priorityFeeLamports} lamports`);
+
+        return {
+            instructions: [...body.slice(0, budgetIndex), ...this._buildBudgetInstructions(unitLimit, unitPrice), ...body.slice(budgetIndex)],
+            unitLimit,
+            unitPrice,
+            simulatedUnits: unitsConsumed,
+            priorityFeeLamports
+        };
+    }
+
+    /**
+     * 模拟交易测量消耗的CU
+     * 模拟时使用最大CU上限，跳过签名校验并替换区块哈希
+     * @param instructions 不含计算预算指令的交易指令
+     * @param payer 手续费支付者
+     * @param options 计算预算选项 (使用其中的查找表)
+     * @returns 消耗的CU，模拟失败时返回 null
+     */
+    async simulateUnits(
+        instructions: TransactionInstruction[],
+        payer: PublicKey,
+        options: ComputeBudgetOptions = {}
+    ): Promise<number | null> {
+        try {
+            // 计算预算指令本身也消耗CU，模拟时一并包含
+            const message = new TransactionMessage({
+                payerKey: payer,
+                recentBlockhash: PublicKey.default.toBase58(),
+                instructions: [...this._buildBudgetInstructions(this._config.MAX_CU_LIMIT, 1), ...instructions]
+            }).compileToV0Message(options.lookupTables ?? []);
+
+            const { value } = await this._connection.simulateTransaction(new VersionedTransaction(message), {
+                sigVerify: false,
+                replaceRecentBlockhash: true,
+                commitment: 'processed'
+            });
+
+            if (value.err || value.unitsConsumed === undefined) {
+                console.log(`⚠️ 计算预算模拟失败，使用预估CU: ${JSON.stringify(value.err)}`);
+                return null;
+            }
+            return value.unitsConsumed;
+
+        } catch (error) {
+            console.log(`⚠️ 计算预算模拟异常，使用预估CU: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+
+    /**
+     * 在测得的CU上加上余量作为CU上限，不超过 MAX_CU_LIMIT
+     */
+    private _getUnitLimit(measuredUnits: number): number {
+        return Math.min(this._config.MAX_CU_LIMIT, measuredUnits + Math.ceil(measuredUnits * this._config.CU_LIMIT_MARGIN));
+    }
+
+    /**
+     * 构建计算预算指令
+     */
+    private _buildBudgetInstructions(unitLimit: number, unitPrice: number): TransactionInstruction[] {
+        return [
+            ComputeBudgetProgram.setComputeUnitLimit({ units: unitLimit }),
+            ComputeBudgetProgram.setComputeUnitPrice({ microLamports: unitPrice })
+        ];
+    }
+}
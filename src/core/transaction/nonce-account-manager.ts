@@ -0,0 +1,138 @@
+import {
+    Connection,
+    Keypair,
+    NONCE_ACCOUNT_LENGTH,
+    PublicKey,
+    SystemProgram,
+    Transaction
+} from "@solana/web3.js";
+
+import { NonceAccountCreation, NonceInfo } from "../../types/transaction/transaction-types";
+import { TransactionSigner } from "../../types/signer/signer-types";
+import { DURABLE_NONCE_CONFIG } from "../../config/dex-config";
+
+/**
+ * durable nonce 账户管理器
+ * 创建、推进和查询 nonce 账户。使用 nonce 构建的交易以 nonce 值代替区块哈希，
+ * 在 nonce 被推进之前一直有效，适用于预先签名、多签审批和定时执行
+ */
+export class NonceAccountManager {
+    private _connection: Connection;
+    private _config: typeof DURABLE_NONCE_CONFIG;
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param config durable nonce 配置
+     */
+    constructor(connection: Connection, config: typeof DURABLE_NONCE_CONFIG = DURABLE_NONCE_CONFIG) {
+        this._connection = connection;
+        this._config = config;
+    }
+
+    /**
+     * 创建并初始化 nonce 账户 (存入免租金额)
+     * @param payer 支付租金和手续费的账户
+     * @param authority nonce 授权者，默认为 payer
+     * @param nonceKeypair nonce 账户密钥对，默认随机生成
+     * @returns nonce 账户地址和初始 nonce 值
+     */
+    async createNonceAccount(
+        payer: TransactionSigner,
+        authority: PublicKey = payer.publicKey,
+        nonceKeypair: Keypair = Keypair.generate()
+    ): Promise<NonceAccountCreation> {
+        const lamports = await this._connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+
+        const transaction = SystemProgram.createNonceAccount({
+            fromPubkey: payer.publicKey,
+            noncePubkey: nonceKeypair.publicKey,
+            authorizedPubkey: authority,
+            lamports
+        });
+
+        const signature = await this._sendAndConfirm(transaction, [payer], [nonceKeypair]);
+        const { nonce } = await this.getNonce(nonceKeypair.publicKey);
+
+        console.log(`🔒 nonce 账户已创建: ${nonceKeypair.publicKey.toBase58()} (授权者 ${authority.toBase58()})`);
+        return { nonceAccount: nonceKeypair.publicKey, nonce, signature };
+    }
+
+    /**
+     * 推进 nonce
+     * 推进后使用旧 nonce 签名的交易全部失效，可用于取消已签名但未提交的交易
+     * @param nonceAccount nonce 账户地址
+     * @param authority nonce 授权者
+     * @param payer 手续费支付者，默认为 authority
+     * @returns 推进后的 nonce 状态
+     */
+    async advanceNonce(
+        nonceAccount: PublicKey,
+        authority: TransactionSigner,
+        payer: TransactionSigner = authority
+    ): Promise<NonceInfo> {
+        const transaction = new Transaction().add(SystemProgram.nonceAdvance({
+            noncePubkey: nonceAccount,
+            authorizedPubkey: authority.publicKey
+        }));
+
+        await this._sendAndConfirm(transaction, authority === payer ? [payer] : [payer, authority]);
+        const info = await this.getNonce(nonceAccount);
+
+        console.log(`🔒 nonce 已推进: ${nonceAccount.toBase58()} → ${info.nonce}`);
+        return info;
+    }
+
+    /**
+     * 查询 nonce 账户状态
+     * @param nonceAccount nonce 账户地址
+     * @returns 当前 nonce 值和授权者
+     */
+    async getNonce(nonceAccount: PublicKey): Promise<NonceInfo> {
+        const { context, value } = await this._connection.getNonceAndContext(nonceAccount, this._config.COMMITMENT);
+        if (!value) {
+            throw new Error(`nonce 账户不存在或未初始化: ${nonceAccount.toBase58()}`);
+        }
+
+        return {
+            nonceAccount,
+            nonce: value.nonce,
+            authority: value.authorizedPubkey,
+            slot: context.slot
+        };
+    }
+
+    /**
+     * 使用最新区块哈希发送管理交易并等待确认
+     * @param signers 签名者，第一个为手续费支付者
+     * @param localSigners 本地生成的密钥 (如新的 nonce 账户)
+     */
+    private async _sendAndConfirm(
+        transaction: Transaction,
+        signers: TransactionSigner[],
+        localSigners: Keypair[] = []
+    ): Promise<string> {
+        const { blockhash, lastValidBlockHeight } = await this._connection.getLatestBlockhash(this._config.COMMITMENT);
+        transaction.recentBlockhash = blockhash;
+        transaction.feePayer = signers[0].publicKey;
+
+        if (localSigners.length > 0) {
+            transaction.partialSign(...localSigners);
+        }
+        for (const signer of signers) {
+            await signer.signTransaction(transaction);
+        }
+
+        const signature = await this._connection.sendRawTransaction(transaction.serialize(), {
+            preflightCommitment: this._config.COMMITMENT
+        });
+        const { value } = await this._connection.confirmTransaction(
+            { signature, blockhash, lastValidBlockHeight },
+            this._config.COMMITMENT
+        );
+        if (value.err) {
+            throw new Error(`nonce 管理交易执行失败: ${JSON.stringify(value.err)}`);
+        }
+        return signature;
+    }
+}
@@ -0,0 +1,88 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+
+import { SwapPriority } from "../../types/facade/swap-types";
+import { COMPUTE_BUDGET_CONFIG } from "../../config/dex-config";
+
+/**
+ * 缓存的最近优先费
+ */
+interface CachedFees {
+    /** 按升序排列的最近各slot优先费 (微lamports / CU) */
+    fees: number[];
+
+    /** 查询时间 (毫秒时间戳) */
+    fetchedAt: number;
+}
+
+/**
+ * 优先费估算器
+ * 以交换涉及的可写账户查询最近的优先费 (只统计争用同一批账户的交易)，
+ * 按交易优先级取对应的百分位并限制在配置的上下限内
+ */
+export class PriorityFeeEstimator {
+    private _connection: Connection;
+    private _config: typeof COMPUTE_BUDGET_CONFIG;
+    private _cache = new Map<string, CachedFees>();
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param config 计算预算与优先费配置
+     */
+    constructor(connection: Connection, config: typeof COMPUTE_BUDGET_CONFIG = COMPUTE_BUDGET_CONFIG) {
+        this._connection = connection;
+        this._config = config;
+    }
+
+    /**
+     * 估算优先费单价
+     * @param writableAccounts 交易的可写账户
+     * @param priority 交易优先级
+     * @returns 优先费单价 (微lamports / CU)
+     */
+    async estimate(writableAccounts: PublicKey[], priority: SwapPriority = SwapPriority.MEDIUM): Promise<number> {
+        const accounts = [...new Map(writableAccounts.map(account => [account.toBase58(), account])).values()]
+            .slice(0, this._config.MAX_FEE_ACCOUNTS);
+
+        let fees: number[];
+        try {
+            fees = await this._getRecentFees(accounts);
+        } catch (error) {
+            console.log(`⚠️ 查询最近优先费失败，使用默认单价: ${error instanceof Error ? error.message : String(error)}`);
+            return this._config.DEFAULT_PRIORITY_FEE_MICRO_LAMPORTS;
+        }
+
+        const percentile = this._config.PRIORITY_FEE_PERCENTILES[priority];
+        const fee = fees.length > 0
+            ? fees[Math.min(fees.length - 1, Math.ceil(percentile / 100 * fees.length) - 1)]
+            : 0;
+
+        return Math.min(
+            this._config.MAX_PRIORITY_FEE_MICRO_LAMPORTS,
+            Math.max(this._config.MIN_PRIORITY_FEE_MICRO_LAMPORTS, fee)
+        );
+    }
+
+    /**
+     * 查询最近的优先费，有效期内同一组账户使用缓存
+     */
+    private async _getRecentFees(accounts: PublicKey[]): Promise<number[]> {
+        const key = accounts.map(account => account.toBase58()).sort().join(',');
+        const cached = this._cache.get(key);
+        if (cached && Date.now() - cached.fetchedAt < this._config.FEE_CACHE_TTL_MS) {
+            return cached.fees;
+        }
+
+        const recent = await this._connection.getRecentPrioritizationFees({ lockedWritableAccounts: accounts });
+        const fees = recent.map(entry => entry.prioritizationFee).sort((a, b) => a - b);
+
+        // 顺带清理过期条目，避免不同账户组合的缓存无限增长
+        for (const [cachedKey, entry] of this._cache) {
+            if (Date.now() - entry.fetchedAt >= this._config.FEE_CACHE_TTL_MS) {
+                this._cache.delete(cachedKey);
+            }
+        }
+        this._cache.set(key, { fees, fetchedAt: Date.now() });
+        return fees;
+    }
+}
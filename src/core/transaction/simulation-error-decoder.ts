@@ -0,0 +1,242 @@
+import { PublicKey, TransactionError } from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+
+import { SimulationFailure } from "../../types/transaction/transaction-types";
+import { ErrorType } from "../../types/facade/result-types";
+import { SupportedDEX } from "../../types/dex/protocol";
+import { DEX_CONFIGS } from "../../config/dex-config";
+
+/**
+ * 程序错误码定义
+ */
+interface ProgramErrorDefinition {
+    /** 错误名称 */
+    name: string;
+
+    /** 错误类型 */
+    type: ErrorType;
+
+    /** 中文说明 */
+    description: string;
+}
+
+/**
+ * 各 DEX 程序中与交换相关的自定义错误码
+ * Anchor 程序 (Whirlpool、Raydium CLMM/CPMM、Jupiter) 的自定义错误从 6000 开始，Raydium AMM v4 从 0 开始
+ */
+const DEX_PROGRAM_ERRORS: Record<SupportedDEX, Record<number, ProgramErrorDefinition>> = {
+    [SupportedDEX.ORCA]: {
+        6011: { name: 'SqrtPriceOutOfBounds', type: ErrorType.INSUFFICIENT_LIQUIDITY, description: '价格超出池子范围' },
+        6012: { name: 'LiquidityZero', type: ErrorType.INSUFFICIENT_LIQUIDITY, description: '池子流动性为零' },
+        6023: { name: 'InvalidTickArraySequence', type: ErrorType.INSUFFICIENT_LIQUIDITY, description: 'tick array 与当前价格不匹配' },
+        6035: { name: 'ZeroTradableAmount', type: ErrorType.INSUFFICIENT_LIQUIDITY, description: '可交易数量为零' },
+        6036: { name: 'AmountOutBelowMinimum', type: ErrorType.SLIPPAGE_EXCEEDED, description: '输出低于最小输出' },
+        6037: { name: 'AmountInAboveMaximum', type: ErrorType.SLIPPAGE_EXCEEDED, description: '输入高于最大输入' },
+        6038: { name: 'TickArraySequenceInvalidIndex', type: ErrorType.INSUFFICIENT_LIQUIDITY, description: '交换跨越的 tick array 超出提供的范围' }
+    },
+    [SupportedDEX.RAYDIUM]: {
+        22: { name: 'InvalidStatus', type: ErrorType.POOL_NOT_FOUND, description: '池子状态不允许交换' },
+        30: { name: 'ExceededSlippage', type: ErrorType.SLIPPAGE_EXCEEDED, description: '超出滑点限制' },
+        36: { name: 'CheckedEmptyFunds', type: ErrorType.INSUFFICIENT_LIQUIDITY, description: '池子资金不足' },
+        40: { name: 'InsufficientFunds', type: ErrorType.INSUFFICIENT_BALANCE, description: '用户余额不足' }
+    },
+    [SupportedDEX.RAYDIUM_CLMM]: {
+        6003: { name: 'AccountLack', type: ErrorType.ACCOUNT_NOT_FOUND, description: '缺少必要的账户' },
+        6019: { name: 'LiquidityInsufficient', type: ErrorType.INSUFFICIENT_LIQUIDITY, description: '流动性不足' },
+        6021: { name: 'PriceSlippageCheck', type: ErrorType.SLIPPAGE_EXCEEDED, description: '价格滑点检查失败' },
+        6022: { name: 'TooLittleOutputReceived', type: ErrorType.SLIPPAGE_EXCEEDED, description: '输出低于最小输出' },
+        6023: { name: 'TooMuchInputPaid', type: ErrorType.SLIPPAGE_EXCEEDED, description: '输入高于最大输入' },
+        6027: { name: 'NotEnoughTickArrayAccount', type: ErrorType.INSUFFICIENT_LIQUIDITY, description: 'tick array 账户不足以覆盖交换' }
+    },
+    [SupportedDEX.RAYDIUM_CPMM]: {
+        6005: { name: 'ExceededSlippage', type: ErrorType.SLIPPAGE_EXCEEDED, description: '超出滑点限制' },
+        6006: { name: 'ZeroTradingTokens', type: ErrorType.INSUFFICIENT_LIQUIDITY, description: '可交易数量为零' }
+    },
+    [SupportedDEX.JUPITER]: {
+        6001: { name: 'SlippageToleranceExceeded', type: ErrorType.SLIPPAGE_EXCEEDED, description: '超出滑点容忍度' },
+        6008: { name: 'NotEnoughAccountKeys', type: ErrorType.ACCOUNT_NOT_FOUND, description: '缺少路由需要的账户' },
+        6017: { name: 'ExactOutAmountNotMatched', type: ErrorType.SLIPPAGE_EXCEEDED, description: '精确输出金额不匹配' }
+    }
+};
+
+/**
+ * Anchor 框架错误码 (所有 Anchor 程序通用)
+ */
+const ANCHOR_ERRORS: Record<number, ProgramErrorDefinition> = {
+    3007: { name: 'AccountOwnedByWrongProgram', type: ErrorType.ACCOUNT_NOT_FOUND, description: '账户所有者不匹配' },
+    3012: { name: 'AccountNotInitialized', type: ErrorType.ACCOUNT_NOT_FOUND, description: '账户未初始化' }
+};
+
+/**
+ * SPL Token 程序错误码
+ */
+const TOKEN_ERRORS: Record<number, ProgramErrorDefinition> = {
+    1: { name: 'InsufficientFunds', type: ErrorType.INSUFFICIENT_BALANCE, description: '代币余额不足' },
+    3: { name: 'MintMismatch', type: ErrorType.ACCOUNT_NOT_FOUND, description: '代币账户与mint不匹配' },
+    4: { name: 'OwnerMismatch', type: ErrorType.ACCOUNT_NOT_FOUND, description: '代币账户所有者不匹配' }
+};
+
+/**
+ * 交易级别错误 (模拟返回字符串形式的错误)
+ */
+const TRANSACTION_ERRORS: Record<string, ErrorType> = {
+    AccountNotFound: ErrorType.ACCOUNT_NOT_FOUND,
+    ProgramAccountNotFound: ErrorType.ACCOUNT_NOT_FOUND,
+    InvalidAccountForFee: ErrorType.ACCOUNT_NOT_FOUND,
+    InsufficientFundsForFee: ErrorType.INSUFFICIENT_BALANCE,
+    InsufficientFundsForRent: ErrorType.INSUFFICIENT_BALANCE,
+    InvalidAccountData: ErrorType.ACCOUNT_NOT_FOUND,
+    UninitializedAccount: ErrorType.ACCOUNT_NOT_FOUND,
+    MissingAccount: ErrorType.ACCOUNT_NOT_FOUND,
+    InsufficientFunds: ErrorType.INSUFFICIENT_BALANCE
+};
+
+/**
+ * 日志关键字匹配 (错误码未知时使用)
+ */
+const LOG_PATTERNS: { pattern: RegExp; type: ErrorType }[] = [
+    { pattern: /insufficient (funds|lamports)/i, type: ErrorType.INSUFFICIENT_BALANCE },
+    { pattern: /slippage/i, type: ErrorType.SLIPPAGE_EXCEEDED },
+    { pattern: /stale|oracle.*(invalid|expired|outdated)/i, type: ErrorType.STALE_ORACLE },
+    { pattern: /account owner is not match|could not find account|AccountNotInitialized/i, type: ErrorType.ACCOUNT_NOT_FOUND },
+    { pattern: /liquidity/i, type: ErrorType.INSUFFICIENT_LIQUIDITY }
+];
+
+/**
+ * 各错误类型的可重试性和解决建议
+ */
+const ERROR_GUIDANCE: Partial<Record<ErrorType, { retryable: boolean; suggestion: string }>> = {
+    [ErrorType.SLIPPAGE_EXCEEDED]: { retryable: true, suggestion: '价格已变化，请重新报价、提高滑点容忍度或减少交易金额' },
+    [ErrorType.INSUFFICIENT_LIQUIDITY]: { retryable: true, suggestion: '池子流动性不足，请减少交易金额或使用其他路由' },
+    [ErrorType.STALE_ORACLE]: { retryable: true, suggestion: '预言机价格过期，请稍后重试' },
+    [ErrorType.ACCOUNT_NOT_FOUND]: { retryable: false, suggestion: '请确认代币账户和池子账户存在且属于正确的程序' },
+    [ErrorType.INSUFFICIENT_BALANCE]: { retryable: false, suggestion: '请确保钱包有足够的代币和 SOL 支付交易费用' },
+    [ErrorType.POOL_NOT_FOUND]: { retryable: false, suggestion: '池子当前不可交易，请使用其他路由' }
+};
+
+/**
+ * 各错误类型的中文名称
+ */
+const ERROR_TYPE_LABELS: Partial<Record<ErrorType, string>> = {
+    [ErrorType.SLIPPAGE_EXCEEDED]: '滑点超限',
+    [ErrorType.INSUFFICIENT_LIQUIDITY]: '流动性不足',
+    [ErrorType.STALE_ORACLE]: '预言机过期',
+    [ErrorType.ACCOUNT_NOT_FOUND]: '账户缺失',
+    [ErrorType.INSUFFICIENT_BALANCE]: '余额不足',
+    [ErrorType.POOL_NOT_FOUND]: '池子不可用'
+};
+
+/**
+ * 模拟错误解码器
+ * 将模拟返回的交易错误和程序日志解码为带类型的失败原因，
+ * 识别 Whirlpool、Raydium、Jupiter 的自定义错误码以及 Anchor 和 SPL Token 的通用错误
+ */
+export class SimulationErrorDecoder {
+    private _programs = new Map<string, SupportedDEX>();
+
+    /**
+     * 构造函数
+     * 默认识别 DEX 配置中的程序地址
+     */
+    constructor() {
+        DEX_CONFIGS.forEach(config => this._programs.set(config.programId, config.name));
+    }
+
+    /**
+     * 注册 DEX 程序地址 (如 devnet 上部署的程序)
+     * @param programId 程序地址
+     * @param dex 对应的 DEX
+     */
+    registerProgram(programId: PublicKey, dex: SupportedDEX): void {
+        this._programs.set(programId.toBase58(), dex);
+    }
+
+    /**
+     * 解码模拟失败原因
+     * @param error 模拟返回的交易错误
+     * @param logs 程序日志
+     * @param programIds 各顶层指令的程序地址 (日志中找不到出错程序时使用)
+     * @returns 失败原因
+     */
+    decode(error: TransactionError, logs: string[], programIds: PublicKey[] = []): SimulationFailure {
+        const [instructionIndex, detail] = this._parseError(error);
+
+        // 日志中第一条 "failed" 来自最内层出错的程序 (Jupiter 路由中为底层 AMM)
+        const failedLog = logs.map(line => line.match(/^Program (\w+) failed: (.+)$/)).find(Boolean);
+        const programId = failedLog?.[1]
+            ?? (instructionIndex !== undefined ? programIds[instructionIndex]?.toBase58() : undefined);
+        const program = programId ? (this._programs.get(programId) ?? programId) : undefined;
+
+        const customCode = typeof detail === 'object' && detail !== null && 'Custom' in detail
+            ? Number((detail as { Custom: number }).Custom)
+            : undefined;
+
+        const definition = customCode !== undefined && programId
+            ? this._lookup(programId, customCode)
+            : undefined;
+        const errorName = definition?.name ?? this._parseAnchorErrorName(logs);
+
+        const type = definition?.type
+            ?? (typeof detail === 'string' ? TRANSACTION_ERRORS[detail] : undefined)
+            ?? this._matchLogs([failedLog?.[2] ?? '', ...logs])
+            ?? ErrorType.SIMULATION_FAILED;
+
+        const guidance = ERROR_GUIDANCE[type] ?? { retryable: true, suggestion: '请检查交易参数和网络状态后重试' };
+        const reason = definition?.description
+            ?? errorName
+            ?? (customCode !== undefined ? `自定义错误 ${customCode} (0x${customCode.toString(16)})` : JSON.stringify(detail));
+
+        return {
+            code: 'SIMULATION_FAILED',
+            message: `预执行模拟失败 [${ERROR_TYPE_LABELS[type] ?? '未知错误'}]${program ? ` ${program}` : ''}: ${reason}`,
+            type,
+            retryable: guidance.retryable,
+            suggestion: guidance.suggestion,
+            program,
+            instructionIndex,
+            customCode,
+            errorName,
+            logs
+        };
+    }
+
+    /**
+     * 拆分交易错误为指令序号和错误详情
+     */
+    private _parseError(error: TransactionError): [number | undefined, unknown] {
+        if (typeof error === 'object' && error !== null && 'InstructionError' in error) {
+            const [index, detail] = (error as { InstructionError: [number, unknown] }).InstructionError;
+            return [index, detail];
+        }
+        return [undefined, error];
+    }
+
+    /**
+     * 按程序查找错误码定义
+     */
+    private _lookup(programId: string, code: number): ProgramErrorDefinition | undefined {
+        const dex = this._programs.get(programId);
+        if (dex) {
+            return DEX_PROGRAM_ERRORS[dex][code] ?? ANCHOR_ERRORS[code];
+        }
+        if (programId === TOKEN_PROGRAM_ID.toBase58() || programId === TOKEN_2022_PROGRAM_ID.toBase58()) {
+            return TOKEN_ERRORS[code];
+        }
+        return ANCHOR_ERRORS[code];
+    }
+
+    /**
+     * 从 Anchor 日志中取出错误名称
+     */
+    private _parseAnchorErrorName(logs: string[]): string | undefined {
+        return logs.map(line => line.match(/Error Code: (\w+)/)?.[1]).find(Boolean);
+    }
+
+    /**
+     * 按关键字匹配日志
+     */
+    private _matchLogs(lines: string[]): ErrorType | undefined {
+        const text = lines.join('\n');
+        return LOG_PATTERNS.find(({ pattern }) => pattern.test(text))?.type;
+    }
+}
@@ -0,0 +1,235 @@
+import {
+    AddressLookupTableAccount,
+    Connection,
+    MessageV0,
+    PublicKey,
+    SystemProgram,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction
+} from "@solana/web3.js";
+
+import { AssembleOptions, AssembledTransaction } from "../../types/transaction/transaction-types";
+import { TRANSACTION_ASSEMBLY_CONFIG } from "../../config/dex-config";
+import { JITO_DONT_FRONT_ACCOUNT } from "../../config/jito-config";
+import { BlockhashManager } from "./blockhash-manager";
+
+/**
+ * 缓存的查找表账户
+ */
+interface CachedLookupTable {
+    /** 查找表账户 */
+    account: AddressLookupTableAccount;
+
+    /** 读取时间 (毫秒时间戳) */
+    fetchedAt: number;
+}
+
+/**
+ * 交易组装器
+ * 将指令编译为 v0 VersionedTransaction，使用报价携带的和自维护的地址查找表压缩账户列表，
+ * 并在签名前计算序列化大小
+ */
+export class TransactionAssembler {
+    private _connection: Connection;
+    private _config: typeof TRANSACTION_ASSEMBLY_CONFIG;
+    private _blockhashManager: BlockhashManager;
+    private _lookupTables = new Map<string, CachedLookupTable>();
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param config 交易组装配置
+     * @param blockhashManager 区块哈希管理器 (未指定区块哈希时从中获取)
+     */
+    constructor(
+        connection: Connection,
+        config: typeof TRANSACTION_ASSEMBLY_CONFIG = TRANSACTION_ASSEMBLY_CONFIG,
+        blockhashManager: BlockhashManager = new BlockhashManager(connection)
+    ) {
+        this._connection = connection;
+        this._config = config;
+        this._blockhashManager = blockhashManager;
+    }
+
+    /**
+     * 组装未签名的 v0 交易
+     * 指定 durable nonce 时以 nonce 值作为区块哈希，并在开头插入推进 nonce 的指令 (运行时要求其为第一个指令)；
+     * 请求前置交易保护时，只读的 jitodontfront 账户在编译前加入第一个指令
+     * @param instructions 交易指令
+     * @param payer 手续费支付者
+     * @param options 组装选项
+     * @returns 组装结果 (包含序列化大小)
+     */
+    async assemble(
+        instructions: TransactionInstruction[],
+        payer: PublicKey,
+        options: AssembleOptions = {}
+    ): Promise<AssembledTransaction> {
+        const { nonce } = options;
+        if (options.dontFront) {
+            instructions = this.addDontFrontAccount(instructions);
+        }
+        const [lookupTables, blockhash] = await Promise.all([
+            this.loadLookupTables(options.lookupTableAddresses ?? []),
+            nonce
+                ? { blockhash: nonce.nonce, lastValidBlockHeight: undefined }
+                : options.recentBlockhash
+                    ? { blockhash: options.recentBlockhash, lastValidBlockHeight: options.lastValidBlockHeight }
+                    : this._blockhashManager.getBlockhash()
+        ]);
+
+        if (!nonce) {
+            return this.compile(instructions, payer, blockhash.blockhash, lookupTables, blockhash.lastValidBlockHeight);
+        }
+
+        const advance = SystemProgram.nonceAdvance({ noncePubkey: nonce.nonceAccount, authorizedPubkey: nonce.authority });
+        const assembled = this.compile([advance, ...instructions], payer, blockhash.blockhash, lookupTables);
+        return { ...assembled, durableNonce: nonce };
+    }
+
+    /**
+     * 在第一个指令中加入只读的 jitodontfront 账户
+     * 复制该指令而不修改传入的指令；已包含该账户时原样返回
+     * @param instructions 交易指令
+     * @returns 加入保护账户后的指令
+     */
+    private addDontFrontAccount(instructions: TransactionInstruction[]): TransactionInstruction[] {
+        if (instructions.length === 0) {
+            throw new Error("没有指令，无法添加 jitodontfront 账户");
+        }
+        if (instructions.some(instruction => instruction.keys.some(meta => meta.pubkey.equals(JITO_DONT_FRONT_ACCOUNT)))) {
+            return instructions;
+        }
+
+        const [first, ...rest] = instructions;
+        const protectedFirst = new TransactionInstruction({
+            programId: first.programId,
+            keys: [...first.keys, { pubkey: JITO_DONT_FRONT_ACCOUNT, isSigner: false, isWritable: false }],
+            data: first.data
+        });
+        return [protectedFirst, ...rest];
+    }
+
+    /**
+     * 使用已加载的查找表编译交易 (不访问网络)
+     * @param instructions 交易指令
+     * @param payer 手续费支付者
+     * @param recentBlockhash 区块哈希
+     * @param lookupTables 可用的地址查找表，编译器只引用其中包含交易账户的表
+     * @param lastValidBlockHeight 区块哈希的最后有效区块高度
+     * @returns 组装结果
+     */
+    compile(
+        instructions: TransactionInstruction[],
+        payer: PublicKey,
+        recentBlockhash: string,
+        lookupTables: AddressLookupTableAccount[] = [],
+        lastValidBlockHeight?: number
+    ): AssembledTransaction {
+        const message = new TransactionMessage({ payerKey: payer, recentBlockhash, instructions })
+            .compileToV0Message(lookupTables);
+
+        const usedTables = new Set(message.addressTableLookups.map(lookup => lookup.accountKey.toBase58()));
+        const serializedSize = measureTransaction(message);
+        const maxSize = this._config.MAX_TRANSACTION_SIZE;
+        const withinSizeLimit = serializedSize <= maxSize;
+
+        console.log(`📦 v0 交易组装完成: ${instructions.length} 个指令，${usedTables.size} 个查找表，${serializedSize}/${maxSize} 字节`);
+        if (!withinSizeLimit) {
+            console.log(`⚠️ 交易超出大小上限 ${serializedSize - maxSize} 字节`);
+        }
+
+        return {
+            transaction: new VersionedTransaction(message),
+            lookupTables: lookupTables.filter(table => usedTables.has(table.key.toBase58())),
+            recentBlockhash,
+            lastValidBlockHeight,
+            serializedSize,
+            maxSize,
+            withinSizeLimit
+        };
+    }
+
+    /**
+     * 加载地址查找表账户
+     * 自动合并配置中的自维护查找表；不存在或已停用的查找表会被跳过
+     * @param addresses 查找表地址
+     * @returns 可用的查找表账户
+     */
+    async loadLookupTables(addresses: PublicKey[]): Promise<AddressLookupTableAccount[]> {
+        const unique = [...new Set([
+            ...this._config.LOOKUP_TABLES,
+            ...addresses.map(address => address.toBase58())
+        ])];
+
+        const tables = await Promise.all(unique.map(address => this._loadLookupTable(address)));
+        return tables.filter((table): table is AddressLookupTableAccount => table !== null);
+    }
+
+    /**
+     * 读取单个查找表，有效期内使用缓存
+     */
+    private async _loadLookupTable(address: string): Promise<AddressLookupTableAccount | null> {
+        const cached = this._lookupTables.get(address);
+        if (cached && Date.now() - cached.fetchedAt < this._config.LOOKUP_TABLE_TTL_MS) {
+            return cached.account;
+        }
+
+        try {
+            const { value } = await this._connection.getAddressLookupTable(new PublicKey(address));
+            if (!value || !value.isActive()) {
+                console.log(`⚠️ 地址查找表不可用，已跳过: ${address}`);
+                this._lookupTables.delete(address);
+                return null;
+            }
+
+            this._lookupTables.set(address, { account: value, fetchedAt: Date.now() });
+            return value;
+
+        } catch (error) {
+            console.log(`⚠️ 读取地址查找表失败，已跳过: ${address} (${error instanceof Error ? error.message : String(error)})`);
+            return null;
+        }
+    }
+}
+
+/**
+ * compact-u16 编码长度
+ */
+function shortVecLength(value: number): number {
+    let bytes = 1;
+    while (value >= 0x80) {
+        value >>= 7;
+        bytes++;
+    }
+    return bytes;
+}
+
+/**
+ * 计算签名后的交易序列化字节数
+ * 按 v0 消息格式逐段计算，而不是调用 serialize (超出 PACKET_DATA_SIZE 时 serialize 会直接抛错)
+ */
+function measureTransaction(message: MessageV0): number {
+    const signatureCount = message.header.numRequiredSignatures;
+
+    const instructionsSize = message.compiledInstructions.reduce((sum, instruction) =>
+        sum
+        + 1 // programIdIndex
+        + shortVecLength(instruction.accountKeyIndexes.length) + instruction.accountKeyIndexes.length
+        + shortVecLength(instruction.data.length) + instruction.data.length, 0);
+
+    const lookupsSize = message.addressTableLookups.reduce((sum, lookup) =>
+        sum
+        + 32 // 查找表地址
+        + shortVecLength(lookup.writableIndexes.length) + lookup.writableIndexes.length
+        + shortVecLength(lookup.readonlyIndexes.length) + lookup.readonlyIndexes.length, 0);
+
+    return shortVecLength(signatureCount) + signatureCount * 64
+        + 1 // 版本前缀
+        + 3 // 消息头
+        + shortVecLength(message.staticAccountKeys.length) + message.staticAccountKeys.length * 32
+        + 32 // recentBlockhash
+        + shortVecLength(message.compiledInstructions.length) + instructionsSize
+        + shortVecLength(message.addressTableLookups.length) + lookupsSize;
+}
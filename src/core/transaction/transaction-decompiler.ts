@@ -0,0 +1,284 @@
+import {
+    AddressLookupTableAccount,
+    ComputeBudgetProgram,
+    Connection,
+    PublicKey,
+    SystemInstruction,
+    SystemProgram,
+    Transaction,
+    TransactionInstruction,
+    VersionedMessage,
+    VersionedTransaction
+} from "@solana/web3.js";
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+
+import {
+    AssembledTransaction,
+    DecompiledAccount,
+    DecompiledInstruction,
+    DecompiledTransaction,
+    InstructionRole,
+    RecomposeOptions
+} from "../../types/transaction/transaction-types";
+import { DEX_CONFIGS } from "../../config/dex-config";
+import { MAINNET_TIP_ACCOUNTS, TESTNET_TIP_ACCOUNTS } from "../../config/jito-config";
+import { TransactionAssembler } from "./transaction-assembler";
+
+/**
+ * 常用系统程序名称
+ */
+const SYSTEM_PROGRAM_NAMES: Record<string, string> = {
+    [ComputeBudgetProgram.programId.toBase58()]: 'ComputeBudget',
+    [SystemProgram.programId.toBase58()]: 'System',
+    [TOKEN_PROGRAM_ID.toBase58()]: 'Token',
+    [TOKEN_2022_PROGRAM_ID.toBase58()]: 'Token-2022',
+    [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: 'AssociatedToken',
+    MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr: 'Memo'
+};
+
+/**
+ * 交易反编译器
+ * 将任意 legacy 或 v0 交易 (base64) 还原为结构化指令列表：解析地址查找表中的账户、
+ * 标记签名和可写权限、识别程序名称和指令作用；
+ * 并可与我们自己的准备/清理、计算预算和小费指令重组为新的 v0 交易 (如把 Jupiter 路由合并进 Bundle)
+ */
+export class TransactionDecompiler {
+    private _assembler?: TransactionAssembler;
+    private _swapPrograms = new Map<string, string>();
+    private _tipAccounts = new Set([...MAINNET_TIP_ACCOUNTS, ...TESTNET_TIP_ACCOUNTS].map(account => account.toBase58()));
+
+    /**
+     * 构造函数
+     * 不提供连接时只能反编译不引用地址查找表的交易，不能重组
+     * @param connection Solana连接实例
+     * @param assembler 交易组装器 (用于读取查找表和重组交易)
+     */
+    constructor(connection?: Connection, assembler: TransactionAssembler | undefined = connection && new TransactionAssembler(connection)) {
+        this._assembler = assembler;
+        DEX_CONFIGS.forEach(config => this._swapPrograms.set(config.programId, config.name));
+    }
+
+    /**
+     * 注册交换程序 (如 devnet 上部署的程序)，其指令被识别为交换指令
+     * @param programId 程序地址
+     * @param name 程序名称
+     */
+    registerSwapProgram(programId: PublicKey, name: string): void {
+        this._swapPrograms.set(programId.toBase58(), name);
+    }
+
+    /**
+     * 反编译交易
+     * v0 交易引用的地址查找表会从链上读取 (需要连接)
+     * @param source base64 编码的交易、已反序列化的交易或 legacy 交易
+     * @returns 反编译结果
+     */
+    async decompile(source: string | VersionedTransaction | Transaction): Promise<DecompiledTransaction> {
+        const { message } = this._toVersionedTransaction(source);
+
+        const lookupTables = message.addressTableLookups.length > 0
+            ? await this._requireAssembler('读取地址查找表').loadLookupTables(message.addressTableLookups.map(lookup => lookup.accountKey))
+            : [];
+
+        return this.decompileMessage(message, lookupTables);
+    }
+
+    /**
+     * 使用已加载的查找表反编译消息 (不访问网络)
+     * @param message 交易消息
+     * @param lookupTables 地址查找表，必须包含消息引用的全部查找表
+     * @returns 反编译结果
+     */
+    decompileMessage(message: VersionedMessage, lookupTables: AddressLookupTableAccount[] = []): DecompiledTransaction {
+        const referenced = message.addressTableLookups.map(lookup => {
+            const table = lookupTables.find(candidate => candidate.key.equals(lookup.accountKey));
+            if (!table) {
+                throw new Error(`无法解析地址查找表: ${lookup.accountKey.toBase58()}`);
+            }
+            return table;
+        });
+
+        const accountKeys = message.getAccountKeys({ addressLookupTableAccounts: referenced });
+
+        // 查找表账户在账户列表中的顺序: 各表的可写账户，然后是各表的只读账户
+        const lookupSources = [
+            ...message.addressTableLookups.flatMap(lookup => lookup.writableIndexes.map(() => lookup.accountKey)),
+            ...message.addressTableLookups.flatMap(lookup => lookup.readonlyIndexes.map(() => lookup.accountKey))
+        ];
+        const staticCount = message.staticAccountKeys.length;
+
+        const resolveAccount = (accountIndex: number): DecompiledAccount => {
+            const pubkey = accountKeys.get(accountIndex);
+            if (!pubkey) {
+                throw new Error(`账户序号 ${accountIndex} 超出账户列表范围 (${accountKeys.length})`);
+            }
+            return {
+                pubkey,
+                isSigner: message.isAccountSigner(accountIndex),
+                isWritable: message.isAccountWritable(accountIndex),
+                lookupTable: accountIndex >= staticCount ? lookupSources[accountIndex - staticCount] : undefined
+            };
+        };
+
+        const instructions = message.compiledInstructions.map((compiled, index) => {
+            const programId = resolveAccount(compiled.programIdIndex).pubkey;
+            const accounts = compiled.accountKeyIndexes.map(resolveAccount);
+            const data = Buffer.from(compiled.data);
+            const instruction = new TransactionInstruction({
+                programId,
+                keys: accounts.map(({ pubkey, isSigner, isWritable }) => ({ pubkey, isSigner, isWritable })),
+                data
+            });
+
+            return {
+                index,
+                programId,
+                programName: this._getProgramName(programId),
+                role: this._classify(instruction),
+                accounts,
+                data,
+                instruction
+            };
+        });
+
+        this._assignPositionalRoles(instructions);
+
+        return {
+            version: message.version,
+            payer: message.staticAccountKeys[0],
+            recentBlockhash: message.recentBlockhash,
+            signers: message.staticAccountKeys.slice(0, message.header.numRequiredSignatures),
+            instructions,
+            lookupTables: referenced
+        };
+    }
+
+    /**
+     * 重组交易
+     * 指令顺序: 计算预算 → 我们的准备指令 → 原交易指令 → 我们的清理指令 → 小费
+     * 重组后的指令只能要求手续费支付者和指定的额外签名者签名，否则拒绝重组
+     * @param decompiled 反编译结果
+     * @param options 重组选项
+     * @returns 组装好的未签名 v0 交易
+     */
+    async recompose(decompiled: DecompiledTransaction, options: RecomposeOptions = {}): Promise<AssembledTransaction> {
+        const byRole = (role: InstructionRole) => decompiled.instructions
+            .filter(instruction => instruction.role === role)
+            .map(instruction => instruction.instruction);
+        const body = decompiled.instructions
+            .filter(instruction => instruction.role !== 'compute-budget' && instruction.role !== 'tip')
+            .map(instruction => instruction.instruction);
+
+        const instructions = [
+            ...(options.computeBudgetInstructions ?? byRole('compute-budget')),
+            ...(options.setupInstructions ?? []),
+            ...body,
+            ...(options.cleanupInstructions ?? []),
+            ...(options.tipInstruction ? [options.tipInstruction] : byRole('tip'))
+        ];
+
+        const allowedSigners = new Set([decompiled.payer, ...(options.additionalSigners ?? [])].map(key => key.toBase58()));
+        const unexpectedSigners = [...new Set(instructions.flatMap(instruction => instruction.keys
+            .filter(key => key.isSigner && !allowedSigners.has(key.pubkey.toBase58()))
+            .map(key => key.pubkey.toBase58())))];
+        if (unexpectedSigners.length > 0) {
+            throw new Error(`重组后的交易需要未提供的签名者: ${unexpectedSigners.join(', ')}`);
+        }
+
+        console.log(`🧩 重组交易: 原交易 ${body.length} 个指令，准备 ${options.setupInstructions?.length ?? 0} 个，清理 ${options.cleanupInstructions?.length ?? 0} 个`);
+
+        return this._requireAssembler('重组交易').assemble(instructions, decompiled.payer, {
+            lookupTableAddresses: [
+                ...decompiled.lookupTables.map(table => table.key),
+                ...(options.lookupTableAddresses ?? [])
+            ],
+            recentBlockhash: options.recentBlockhash,
+            lastValidBlockHeight: options.lastValidBlockHeight
+        });
+    }
+
+    /**
+     * 获取交易组装器，未提供连接时抛错
+     * @param action 需要连接的操作
+     */
+    private _requireAssembler(action: string): TransactionAssembler {
+        if (!this._assembler) {
+            throw new Error(`未提供连接，无法${action}`);
+        }
+        return this._assembler;
+    }
+
+    /**
+     * 统一转换为 VersionedTransaction (legacy 交易同样可以反序列化)
+     */
+    private _toVersionedTransaction(source: string | VersionedTransaction | Transaction): VersionedTransaction {
+        if (source instanceof VersionedTransaction) {
+            return source;
+        }
+        if (source instanceof Transaction) {
+            return VersionedTransaction.deserialize(source.serialize({ requireAllSignatures: false, verifySignatures: false }));
+        }
+        return VersionedTransaction.deserialize(Buffer.from(source, 'base64'));
+    }
+
+    /**
+     * 获取程序名称
+     */
+    private _getProgramName(programId: PublicKey): string {
+        const address = programId.toBase58();
+        return this._swapPrograms.get(address) ?? SYSTEM_PROGRAM_NAMES[address] ?? address;
+    }
+
+    /**
+     * 按程序识别指令作用 (不依赖位置的部分)
+     */
+    private _classify(instruction: TransactionInstruction): InstructionRole {
+        if (instruction.programId.equals(ComputeBudgetProgram.programId)) {
+            return 'compute-budget';
+        }
+        if (this._swapPrograms.has(instruction.programId.toBase58())) {
+            return 'swap';
+        }
+        if (this._isTipTransfer(instruction)) {
+            return 'tip';
+        }
+        return 'other';
+    }
+
+    /**
+     * 按相对于交换指令的位置划分准备和清理指令
+     */
+    private _assignPositionalRoles(instructions: DecompiledInstruction[]): void {
+        const swapIndexes = instructions.filter(instruction => instruction.role === 'swap').map(instruction => instruction.index);
+        if (swapIndexes.length === 0) {
+            return;
+        }
+
+        const firstSwap = Math.min(...swapIndexes);
+        const lastSwap = Math.max(...swapIndexes);
+        instructions
+            .filter(instruction => instruction.role === 'other')
+            .forEach(instruction => {
+                if (instruction.index < firstSwap) {
+                    instruction.role = 'setup';
+                } else if (instruction.index > lastSwap) {
+                    instruction.role = 'cleanup';
+                }
+            });
+    }
+
+    /**
+     * 是否为向 Jito 小费账户的转账
+     */
+    private _isTipTransfer(instruction: TransactionInstruction): boolean {
+        if (!instruction.programId.equals(SystemProgram.programId)) {
+            return false;
+        }
+        try {
+            return SystemInstruction.decodeInstructionType(instruction) === 'Transfer'
+                && this._tipAccounts.has(SystemInstruction.decodeTransfer(instruction).toPubkey.toBase58());
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,182 @@
+import { Connection, SignatureStatus, TransactionExpiredNonceInvalidError, VersionedTransaction } from "@solana/web3.js";
+
+import { LandingResult, NonceInfo } from "../../types/transaction/transaction-types";
+import { TRANSACTION_SENDER_CONFIG } from "../../config/dex-config";
+import { getTransactionSignature } from "../../utils/transaction/transaction-utils";
+import { BlockhashManager } from "./blockhash-manager";
+
+/**
+ * 交易发送器
+ * 签名后的交易按固定间隔重新广播 (跳过预检，由本地控制重试)，
+ * 直到确认、区块哈希过期或节点连续拒绝交易；查询状态或区块高度的临时错误不中断轮询
+ */
+export class TransactionSender {
+    private _connection: Connection;
+    private _blockhashManager: BlockhashManager;
+    private _config: typeof TRANSACTION_SENDER_CONFIG;
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param blockhashManager 区块哈希管理器 (用于判断过期)
+     * @param config 交易发送配置
+     */
+    constructor(
+        connection: Connection,
+        blockhashManager: BlockhashManager = new BlockhashManager(connection),
+        config: typeof TRANSACTION_SENDER_CONFIG = TRANSACTION_SENDER_CONFIG
+    ) {
+        this._connection = connection;
+        this._blockhashManager = blockhashManager;
+        this._config = config;
+    }
+
+    /**
+     * 区块哈希过期后允许重新报价并签名的最大次数
+     */
+    get maxResubmissions(): number {
+        return this._config.MAX_RESUBMISSIONS;
+    }
+
+    /**
+     * 广播交易直到确认或区块哈希过期
+     * @param transaction 已签名的交易
+     * @param lastValidBlockHeight 交易区块哈希的最后有效区块高度
+     * @returns 落地结果
+     */
+    async sendAndConfirm(transaction: VersionedTransaction, lastValidBlockHeight: number): Promise<LandingResult> {
+        const signature = getTransactionSignature(transaction);
+        if (!signature) {
+            throw new Error('交易未签名，无法发送');
+        }
+
+        const raw = transaction.serialize();
+        let broadcasts = 0;
+        let sendErrors = 0;
+        let lastError: string | undefined;
+
+        console.log(`📤 广播交易 ${signature.slice(0, 20)}...，最后有效区块高度 ${lastValidBlockHeight}`);
+
+        while (true) {
+            try {
+                await this._connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+                broadcasts++;
+                sendErrors = 0;
+            } catch (error) {
+                sendErrors++;
+                lastError = error instanceof Error ? error.message : String(error);
+                console.log(`⚠️ 广播失败 (${sendErrors}/${this._config.MAX_SEND_ERRORS}): ${lastError}`);
+            }
+
+            await new Promise(resolve => setTimeout(resolve, this._config.REBROADCAST_INTERVAL_MS));
+
+            try {
+                const status = await this._getStatus(signature);
+                if (status) {
+                    return this._toLandingResult(signature, status, broadcasts);
+                }
+
+                if (await this._blockhashManager.isExpired(lastValidBlockHeight)) {
+                    // 过期后再查一次历史状态，避免在最后几个区块内落地的交易被误判为过期
+                    const finalStatus = await this._getStatus(signature, true);
+                    if (finalStatus) {
+                        return this._toLandingResult(signature, finalStatus, broadcasts);
+                    }
+
+                    console.log(`⌛ 交易未在区块哈希过期前确认 (广播 ${broadcasts} 次)`);
+                    return { outcome: 'expired', signature, broadcasts, resubmissions: 0 };
+                }
+            } catch (error) {
+                // 已广播的交易仍可能落地，继续轮询直到确认或区块哈希过期
+                console.log(`⚠️ 查询交易状态失败，继续轮询: ${error instanceof Error ? error.message : String(error)}`);
+            }
+
+            if (sendErrors >= this._config.MAX_SEND_ERRORS) {
+                console.log(`🗑️ 节点连续拒绝交易，视为丢弃`);
+                return { outcome: 'dropped', signature, broadcasts, resubmissions: 0, error: lastError };
+            }
+        }
+    }
+
+    /**
+     * 发送 durable nonce 交易并等待确认
+     * 交易在 nonce 被推进之前一直有效，nonce 已推进时视为过期
+     * @param transaction 已签名的 durable nonce 交易
+     * @param nonce 交易使用的 nonce 状态
+     * @returns 落地结果
+     */
+    async sendDurableAndConfirm(transaction: VersionedTransaction, nonce: NonceInfo): Promise<LandingResult> {
+        const signature = getTransactionSignature(transaction);
+        if (!signature) {
+            throw new Error('交易未签名，无法发送');
+        }
+
+        if (transaction.message.recentBlockhash !== nonce.nonce) {
+            console.log(`⌛ nonce 已推进，交易已失效: ${nonce.nonceAccount.toBase58()}`);
+            return { outcome: 'expired', signature, broadcasts: 0, resubmissions: 0 };
+        }
+
+        try {
+            await this._connection.sendRawTransaction(transaction.serialize(), { skipPreflight: true });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.log(`🗑️ 节点拒绝 durable nonce 交易: ${message}`);
+            return { outcome: 'dropped', signature, broadcasts: 0, resubmissions: 0, error: message };
+        }
+
+        console.log(`📤 已广播 durable nonce 交易 ${signature.slice(0, 20)}...`);
+
+        try {
+            const { context, value } = await this._connection.confirmTransaction({
+                signature,
+                nonceAccountPubkey: nonce.nonceAccount,
+                nonceValue: nonce.nonce,
+                minContextSlot: nonce.slot
+            }, this._config.CONFIRMATION_COMMITMENT);
+
+            return this._toLandingResult(signature, {
+                slot: context.slot,
+                confirmations: null,
+                err: value.err,
+                confirmationStatus: this._config.CONFIRMATION_COMMITMENT
+            }, 1);
+
+        } catch (error) {
+            if (error instanceof TransactionExpiredNonceInvalidError) {
+                console.log(`⌛ nonce 在交易确认前被推进`);
+                return { outcome: 'expired', signature, broadcasts: 1, resubmissions: 0 };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * 查询交易状态，未达到要求的确认级别时返回 null
+     */
+    private async _getStatus(signature: string, searchTransactionHistory: boolean = false): Promise<SignatureStatus | null> {
+        const { value } = await this._connection.getSignatureStatuses([signature], { searchTransactionHistory });
+        const status = value[0];
+        if (!status) {
+            return null;
+        }
+
+        const confirmed = this._config.CONFIRMATION_COMMITMENT === 'finalized'
+            ? status.confirmationStatus === 'finalized'
+            : status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized';
+        return confirmed ? status : null;
+    }
+
+    /**
+     * 将已确认的状态转换为落地结果
+     */
+    private _toLandingResult(signature: string, status: SignatureStatus, broadcasts: number): LandingResult {
+        if (status.err) {
+            const error = JSON.stringify(status.err);
+            console.log(`❌ 交易已确认但执行失败 (slot ${status.slot}): ${error}`);
+            return { outcome: 'failed', signature, broadcasts, resubmissions: 0, slot: status.slot, error };
+        }
+
+        console.log(`✅ 交易已落地 (slot ${status.slot}，广播 ${broadcasts} 次)`);
+        return { outcome: 'landed', signature, broadcasts, resubmissions: 0, slot: status.slot };
+    }
+}
@@ -0,0 +1,50 @@
+import { Connection, VersionedTransaction } from "@solana/web3.js";
+
+import { SimulationReport } from "../../types/transaction/transaction-types";
+import { SimulationErrorDecoder } from "./simulation-error-decoder";
+
+/**
+ * 交易预执行模拟器
+ * 发送前模拟已组装的交易，失败时解码出错原因，避免为注定失败的交易支付手续费
+ */
+export class TransactionSimulator {
+    private _connection: Connection;
+    private _decoder: SimulationErrorDecoder;
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param decoder 模拟错误解码器
+     */
+    constructor(connection: Connection, decoder: SimulationErrorDecoder = new SimulationErrorDecoder()) {
+        this._connection = connection;
+        this._decoder = decoder;
+    }
+
+    /**
+     * 模拟交易
+     * 跳过签名校验并替换区块哈希，因此可以在签名前调用
+     * @param transaction 已组装的交易
+     * @returns 模拟结果，失败时包含解码后的原因
+     */
+    async simulate(transaction: VersionedTransaction): Promise<SimulationReport> {
+        const { value } = await this._connection.simulateTransaction(transaction, {
+            sigVerify: false,
+            replaceRecentBlockhash: true,
+            commitment: 'processed'
+        });
+        const logs = value.logs ?? [];
+
+        if (!value.err) {
+            console.log(`🔬 预执行模拟通过，消耗 ${value.unitsConsumed ?? '未知'} CU`);
+            return { success: true, unitsConsumed: value.unitsConsumed, logs };
+        }
+
+        const { staticAccountKeys, compiledInstructions } = transaction.message;
+        const programIds = compiledInstructions.map(instruction => staticAccountKeys[instruction.programIdIndex]);
+        const failure = this._decoder.decode(value.err, logs, programIds);
+
+        console.log(`🚫 ${failure.message}`);
+        return { success: false, unitsConsumed: value.unitsConsumed, logs, failure };
+    }
+}
@@ -50,7 +50,8 @@ export function getDemoConfig(scenario: 'basic' | 'stress' | 'production' | 'loc
             bundleTimeout: 45000, // 45秒超时
             enableAutoRetry: true,
             enablePerformanceMonitoring: true,
-            enableEventNotifications: true
+            enableEventNotifications: true,
+            simulateBeforeSubmit: true
         },
 
         performanceMonitor: {
@@ -4,8 +4,10 @@ import {
     SystemProgram,
     PublicKey,
     Keypair,
-    LAMPORTS_PER_SOL
+    LAMPORTS_PER_SOL,
+    TransactionInstruction
 } from '@solana/web3.js'
+import { JITO_DONT_FRONT_ACCOUNT } from '../../config/jito-config'
 
 /**
  * 演示交易生成器
@@ -32,11 +34,11 @@ export class DemoTransactionGenerator {
 
         // 添加转账指令
         transaction.add(
-            SystemProgram.transfer({
+            this.withDontFront(SystemProgram.transfer({
                 fromPubkey: this.payer.publicKey,
                 toPubkey: recipient,
                 lamports: amount
-            })
+            }))
         )
 
         // 获取最新区块哈希
@@ -50,6 +52,15 @@ export class DemoTransactionGenerator {
         return transaction
     }
 
+    /**
+     * 在签名前加入只读的 jitodontfront 账户
+     * 默认 Bundle 选项启用 MEV 保护，提交时要求第一笔交易已包含该账户
+     */
+    private withDontFront(instruction: TransactionInstruction): TransactionInstruction {
+        instruction.keys.push({ pubkey: JITO_DONT_FRONT_ACCOUNT, isSigner: false, isWritable: false })
+        return instruction
+    }
+
     /**
      * 创建多个测试交易
      * 用于 Bundle 批量测试
@@ -93,11 +104,11 @@ export class DemoTransactionGenerator {
         // 可选：同时添加一个小额转账以确保交易有足够的费用
         const recipient = Keypair.generate().publicKey
         transaction.add(
-            SystemProgram.transfer({
+            this.withDontFront(SystemProgram.transfer({
                 fromPubkey: this.payer.publicKey,
                 toPubkey: recipient,
                 lamports: 1000 // 最小转账金额
-            })
+            }))
         )
 
         const { blockhash } = await this.connection.getLatestBlockhash()
@@ -3,7 +3,9 @@ import { HttpsProxyAgent } from 'https-proxy-agent'
 import { BundleManager } from '../../core/jito/bundle-manager'
 import { BundlePerformanceMonitor } from '../../core/jito/bundle-performance-monitor'
 import { BundleRetryManager } from '../../core/jito/bundle-retry-manager'
+import { createRpcBundleSimulator } from '../../core/jito/bundle-simulator'
 import { EnhancedJitoClient } from '../../core/jito/jito-client'
+import { KeypairSigner } from '../../core/signer/keypair-signer'
 import { BundleEventType } from '../../types/jito/bundle-manager-types'
 import { BundleStatus } from '../../types/jito/bundle-types'
 import { getDemoConfig } from './demo-config'
@@ -347,11 +349,11 @@ export class HelloBundleDemo {
             this.logger.info('初始化 Jito 客户端...')
             // 创建一个包含 connection 的配置对象
             const jitoConfig = { ...this.config.jito, connection: this.connection }
-            this.jitoClient = new EnhancedJitoClient(jitoConfig, this.payer)
+            this.jitoClient = new EnhancedJitoClient(jitoConfig, new KeypairSigner(this.payer))
 
             // 3. 初始化 Bundle 管理器
             this.logger.info('初始化 Bundle 管理器...')
-            this.bundleManager = new BundleManager(this.jitoClient, this.config.bundleManager)
+            this.bundleManager = new BundleManager(this.jitoClient, this.config.bundleManager, createRpcBundleSimulator(this.connection, this.config.jito))
 
             // 4. 初始化性能监控器
             this.logger.info('初始化性能监控器...')
@@ -19,6 +19,7 @@ import { DemoLogger } from './demo-logger'
 import { createDemoTransactions } from './demo-transactions'
 import { EnhancedJitoClient } from '../../core/jito/jito-client'
 import { BundleManager } from '../../core/jito/bundle-manager'
+import { createRpcBundleSimulator } from '../../core/jito/bundle-simulator'
 import { PerformanceMonitor } from '../../core/jito/bundle-performance-monitor'
 import { RetryManager } from '../../core/jito/bundle-retry-manager'
 
@@ -83,7 +84,8 @@ class ResilientBundleManager {
             const config = getDemoConfig('basic')
             this.bundleManager = new BundleManager(
                 this.jitoClient,
-                config.bundleManager
+                config.bundleManager,
+                createRpcBundleSimulator(this.connection, config.jito)
             )
 
             await this.bundleManager.start()
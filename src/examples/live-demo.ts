@@ -237,6 +237,8 @@ export class LiveDemo {
             const { DEXAggregator } = await import('../core/aggregator/dex-aggregator');
             const { BundleManager } = await import('../core/jito/bundle-manager');
             const { JitoClient } = await import('../core/jito/jito-client');
+            const { createRpcBundleSimulator } = await import('../core/jito/bundle-simulator');
+            const { KeypairSigner } = await import('../core/signer/keypair-signer');
             const { createJitoConfig } = await import('../config/jito-config');
             const { NetworkType } = await import('../types/token/token-types');
             const { SwapPriority } = await import('../types/facade/swap-types');
@@ -275,10 +277,10 @@ export class LiveDemo {
                 enableAutoRetry: true,
                 enablePerformanceMonitoring: true
             };
-            const bundleManager = new BundleManager(jitoClient, bundleManagerConfig);
+            const bundleManager = new BundleManager(jitoClient, bundleManagerConfig, createRpcBundleSimulator(connection, jitoConfig));
 
             // 5. 创建真实的统一交易门面
-            const facade = new UnifiedDexFacadeImpl(dexAggregator, bundleManager, connection);
+            const facade = new UnifiedDexFacadeImpl(dexAggregator, bundleManager, connection, new KeypairSigner(testKeypair));
 
             console.log('✅ 真实的统一交易系统初始化完成');
 
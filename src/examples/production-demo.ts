@@ -27,8 +27,10 @@ import { UnifiedDexFacadeImpl } from '../core/facade/unified-dex-facade-impl';
 import { createProductionConnection } from '../config/network-config';
 import { BundleManager } from '../core/jito/bundle-manager';
 import { JitoClient } from '../core/jito/jito-client';
+import { createRpcBundleSimulator } from '../core/jito/bundle-simulator';
 import { createJitoConfig } from '../config/jito-config';
 import { DEXAggregator } from '../core/aggregator/dex-aggregator';
+import { KeypairSigner } from '../core/signer/keypair-signer';
 import { BundleManagerConfig } from '../types/jito/bundle-manager-types';
 import { SwapPriority } from '../types/facade/swap-types';
 
@@ -68,14 +70,14 @@ class ProductionDemo {
                 enableAutoRetry: true,
                 enablePerformanceMonitoring: true
             };
-            const bundleManager = new BundleManager(jitoClient, bundleManagerConfig);
+            const bundleManager = new BundleManager(jitoClient, bundleManagerConfig, createRpcBundleSimulator(this.connection, jitoConfig));
 
             // 创建 DEX 聚合器（使用内置协议）
             const protocols: any[] = []; // 将使用内置协议
             const dexAggregator = new DEXAggregator(this.connection, protocols);
 
             // 初始化统一交易门面
-            this.facade = new UnifiedDexFacadeImpl(dexAggregator, bundleManager, this.connection);
+            this.facade = new UnifiedDexFacadeImpl(dexAggregator, bundleManager, this.connection, new KeypairSigner(this.wallet.payer));
 
             console.log('✅ 系统初始化完成');
             console.log(`   连接: ${this.connection.rpcEndpoint}`);
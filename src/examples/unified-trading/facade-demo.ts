@@ -1,8 +1,9 @@
-import { Connection, PublicKey } from '@solana/web3.js'
+import { Connection, Keypair, PublicKey } from '@solana/web3.js'
 import BN from 'bn.js'
 
 // 导入 Facade 系统
 import { UnifiedDexFacadeFactory } from '../../core/facade/unified-dex-facade-impl'
+import { KeypairSigner } from '../../core/signer/keypair-signer'
 import { SwapRequest, SwapPriority } from '../../types/facade/swap-types'
 
 /**
@@ -22,8 +23,8 @@ async function runFacadeDemo() {
         const connection = new Connection('https://api.devnet.solana.com');
         console.log('✅ Solana 连接已建立');
 
-        // 2. 创建 Facade 实例 (演示模式)
-        const facade = UnifiedDexFacadeFactory.createDemo(connection);
+        // 2. 创建 Facade 实例 (演示模式，使用临时密钥签名)
+        const facade = UnifiedDexFacadeFactory.createDemo(connection, new KeypairSigner(Keypair.generate()));
         console.log('✅ UnifiedDexFacade 已创建');
 
         // 3. 演示简单交换
@@ -33,6 +33,16 @@ export { UnifiedDexFacade } from './core/facade/unified-dex-facade';
 export { DexAggregator } from './core/aggregator/dex-aggregator';
 export { BundleManager } from './core/jito/bundle-manager';
 export { JitoClient } from './core/jito/jito-client';
+export { RpcBundleSimulator, LocalBundleSimulator, createRpcBundleSimulator } from './core/jito/bundle-simulator';
+export { TipModel } from './core/jito/tip-model';
+export { BundleStatusTracker } from './core/jito/bundle-status-tracker';
+export { InMemoryBundleStore, FileBundleStore } from './core/jito/bundle-store';
+export { TransactionDecompiler } from './core/transaction/transaction-decompiler';
+export { NonceAccountManager } from './core/transaction/nonce-account-manager';
+export { KeypairSigner } from './core/signer/keypair-signer';
+export { RemoteSigner } from './core/signer/remote-signer';
+export { SignerRegistry } from './core/signer/signer-registry';
+export { TokenMintRegistry } from './core/account-manager/token-mint-registry';
 
 // 🔗 协议实现导出
 export { JupiterProtocol } from './protocols/jupiter/jupiter-protocol';
@@ -42,6 +52,8 @@ export { OrcaProtocol } from './protocols/orca/orca-protocol';
 export type { DEXProtocol, DEXQuote } from './types/dex/protocol';
 export type { BundleConfig, BundleResult } from './types/jito/bundle';
 export type { MevProtectionConfig } from './types/mev/protection';
+export type { TransactionSigner, SignerSource } from './types/signer/signer-types';
+export type { TokenMintInfo, TransferFeeSettings } from './types/token/token-types';
 
 // ⚙️ 配置导出
 export { createProductionConnection, createDevelopmentConnection } from './config/network-config';
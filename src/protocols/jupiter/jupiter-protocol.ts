@@ -4,10 +4,75 @@ import BN from 'bn.js';
 import axios, { AxiosRequestConfig } from 'axios';
 import { HttpsProxyAgent } from 'https-proxy-agent';
 
-import { DEXProtocol, DEXQuote } from '../../types/dex/protocol';
+import { DEXProtocol, DEXQuote, SwapInstructionResult, SwapMode } from '../../types/dex/protocol';
 import { SmartJupiterClient } from '../../utils/token-mapper';
 import { AdvancedInstructionBuilder } from '../../utils/advanced-instruction-builder';
 
+/**
+ * Jupiter V6 Quote API 的响应
+ * 金额均为最小单位的十进制字符串
+ */
+interface JupiterQuoteResponse {
+    inputMint: string;
+    inAmount: string;
+    outputMint: string;
+    outAmount: string;
+
+    /** 计入滑点的阈值: 精确输入模式为最小输出，精确输出模式为最大输入 */
+    otherAmountThreshold: string;
+
+    swapMode: SwapMode;
+    slippageBps: number;
+    priceImpactPct: string;
+
+    /** 路由计划，构建指令时原样提交给 Swap API */
+    routePlan: unknown[];
+
+    error?: string;
+}
+
+/**
+ * Jupiter API 返回的指令 JSON
+ */
+interface JupiterInstruction {
+    programId: string;
+    accounts: { pubkey: string; isSigner: boolean; isWritable: boolean }[];
+
+    /** base64 编码的指令数据 */
+    data: string;
+}
+
+/**
+ * Jupiter V6 Swap Instructions API 的响应 (只取交换指令和查找表)
+ */
+interface JupiterSwapInstructionsResponse {
+    swapInstruction?: JupiterInstruction;
+    addressLookupTableAddresses?: string[];
+}
+
+/**
+ * Jupiter 报价携带的协议数据
+ */
+interface JupiterQuotePayload {
+    /** Jupiter Quote API 的原始响应 (包含路由计划)，构建指令时原样提交给 Swap API */
+    quoteResponse: JupiterQuoteResponse;
+}
+
+/**
+ * 将 Jupiter API 返回的指令 JSON 转换为交易指令
+ */
+function toTransactionInstruction(instruction: JupiterInstruction): TransactionInstruction {
+    return new TransactionInstruction({
+        programId: new PublicKey(instruction.programId),
+        keys: instruction.accounts.map(account => ({
+            pubkey: new PublicKey(account.pubkey),
+            isSigner: account.isSigner,
+            isWritable: account.isWritable
+        })),
+        data: Buffer.from(instruction.data, 'base64')
+    });
+}
+
 /**
  * Jupiter V6 协议实现
  * 基于最新的 Jupiter V6 API
@@ -16,6 +81,8 @@ import { AdvancedInstructionBuilder } from '../../utils/advanced-instruction-bui
 export class JupiterProtocol implements DEXProtocol {
     name = "Jupiter";
     programId = new PublicKey("JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4"); // Jupiter 程序 ID
+    quotesIncludeTransferFees = true; // Jupiter 报价已计入 Token-2022 转账费
+    usesAssociatedTokenAccounts = true; // Jupiter 交换指令只使用所有者的关联代币账户
 
     private connection: Connection;
     private wallet: Wallet;
@@ -56,7 +123,34 @@ export class JupiterProtocol implements DEXProtocol {
         amount: BN,
         slippage: number
     ): Promise<DEXQuote> {
-        console.log(`📊 Jupiter V6 获取报价...`);
+        return await this.fetchQuote(tokenA, tokenB, amount, slippage, 'ExactIn');
+    }
+
+    /**
+     * 获取精确输出报价
+     * 使用 Jupiter V6 Quote API 的 ExactOut 模式，amount 为输出代币金额
+     */
+    async getQuoteExactOut(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        outputAmount: BN,
+        slippage: number
+    ): Promise<DEXQuote> {
+        return await this.fetchQuote(tokenA, tokenB, outputAmount, slippage, 'ExactOut');
+    }
+
+    /**
+     * 请求 Jupiter V6 Quote API
+     * 精确输出模式下响应的 otherAmountThreshold 为计入滑点的最大输入
+     */
+    private async fetchQuote(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number,
+        swapMode: SwapMode
+    ): Promise<DEXQuote> {
+        console.log(`📊 Jupiter V6 获取报价 (${swapMode})...`);
         console.log(`   输入代币: ${tokenA.toBase58()}`);
         console.log(`   输出代币: ${tokenB.toBase58()}`);
         console.log(`   金额: ${amount.toString()}`);
@@ -78,40 +172,53 @@ export class JupiterProtocol implements DEXProtocol {
                     });
 
                     return response.data;
-                }
+                },
+                swapMode
             );
 
-            const quoteResponse = smartQuoteResult.quote;
+            const quoteResponse: JupiterQuoteResponse | undefined = smartQuoteResult.quote;
 
             if (!quoteResponse || quoteResponse.error) {
                 throw new Error(`Jupiter API 返回错误: ${quoteResponse?.error || '未知错误'}`);
             }
 
             // 解析 Jupiter 响应
-            const outputAmount = new BN(quoteResponse.outAmount);
+            const exactOut = swapMode === 'ExactOut';
+            const inputAmount = exactOut ? new BN(quoteResponse.inAmount) : amount;
+            const outputAmount = exactOut ? amount : new BN(quoteResponse.outAmount);
             const priceImpactPct = parseFloat(quoteResponse.priceImpactPct || '0');
 
             console.log(`✅ Jupiter 报价获取成功`);
             console.log(`   交易对: ${smartQuoteResult.metadata.inputSymbol} → ${smartQuoteResult.metadata.outputSymbol}`);
+            console.log(`   输入金额: ${inputAmount.toString()}`);
             console.log(`   输出金额: ${outputAmount.toString()}`);
             console.log(`   价格影响: ${priceImpactPct.toFixed(4)}%`);
             console.log(`   路由数量: ${quoteResponse.routePlan?.length || 0}`);
             console.log(`   智能映射: ${smartQuoteResult.metadata.isDevnetPair ? '已应用 devnet 调整' : '使用原始 mainnet 数据'}`);
 
-            // 存储原始响应和智能映射结果用于后续构建指令
-            (this as any)._lastQuoteResponse = quoteResponse;
-            (this as any)._lastSmartQuoteResult = smartQuoteResult;
+            // 原始响应随报价一起返回，构建指令时不依赖实例状态
+            const payload: JupiterQuotePayload = { quoteResponse };
 
-            return {
+            const quote: DEXQuote = {
                 dexName: this.name,
-                inputAmount: amount,
+                inputAmount: inputAmount,
                 outputAmount: outputAmount,
                 priceImpact: priceImpactPct / 100, // 转换为小数
                 fee: new BN(0), // Jupiter 费用包含在价格中
                 route: [tokenA, tokenB],
                 estimatedGas: 200000, // Jupiter 交易通常需要更多 CU
-                confidence: 0.9 // Jupiter 聚合器可信度高
+                confidence: 0.9, // Jupiter 聚合器可信度高
+                slippage,
+                payload
             };
+
+            if (exactOut) {
+                quote.swapMode = 'ExactOut';
+                quote.maxInputAmount = new BN(quoteResponse.otherAmountThreshold);
+                console.log(`   最大输入: ${quote.maxInputAmount.toString()}`);
+            }
+
+            return quote;
         } catch (error) {
             if (axios.isAxiosError(error)) {
                 console.error(`❌ Jupiter API 网络错误:`, {
@@ -129,15 +236,8 @@ export class JupiterProtocol implements DEXProtocol {
     }
 
     /**
-     * 构建交换指令 - 高级版本
-     *
-     * 技术亮点：
-     * 1. 支持 VersionedTransaction 和 Legacy Transaction 双重解析
-     * 2. 精确的账户权限重建算法
-     * 3. 完善的错误处理和调试信息
-     * 4. 解析结果验证和对比分析
-     *
-     * 这展现了对 Solana 交易结构的深度理解和工程实践能力
+     * 构建交换指令
+     * 不需要地址查找表的调用方使用，查找表见 buildSwapInstructionWithLookupTables
      */
     async buildSwapInstruction(
         quote: DEXQuote,
@@ -145,22 +245,32 @@ export class JupiterProtocol implements DEXProtocol {
         tokenAccountA: PublicKey,
         tokenAccountB: PublicKey
     ): Promise<TransactionInstruction> {
-        console.log(`🔨 构建 Jupiter V6 交换指令 (高级解析版本)...`);
-        console.log(`   技术方案: VersionedTransaction 指令提取+重建`);
+        return (await this.buildSwapInstructionWithLookupTables(quote, userWallet, tokenAccountA, tokenAccountB)).instruction;
+    }
+
+    /**
+     * 构建交换指令及其地址查找表
+     * 使用 Swap Instructions API 直接获取 Jupiter 程序指令 (v0 格式，不受 Legacy 交易大小限制)，
+     * 返回的地址查找表随指令一起返回，不写入报价，同一报价可以并发或多次构建。
+     * 代币程序和转账钩子账户由 Jupiter 按链上mint解析，不使用聚合器传入的代币信息
+     */
+    async buildSwapInstructionWithLookupTables(
+        quote: DEXQuote,
+        userWallet: PublicKey,
+        tokenAccountA: PublicKey,
+        tokenAccountB: PublicKey
+    ): Promise<SwapInstructionResult> {
+        console.log(`🔨 构建 Jupiter V6 交换指令...`);
 
         try {
-            // 获取之前的报价响应
-            const quoteResponse = (this as any)._lastQuoteResponse;
-            if (!quoteResponse) {
-                throw new Error('没有可用的报价数据,请先调用getQuote');
-            }
+            // 使用报价携带的原始响应
+            const quoteResponse = await this.resolveQuoteResponse(quote);
 
-            // 构建 Swap API 请求 - 优先使用 Legacy 格式确保可靠性
+            // 交换指令只使用所有者的关联代币账户 (SOL 由聚合器包装到 WSOL 关联代币账户)，这里只取交换指令
             const swapRequest = {
                 quoteResponse: quoteResponse,
                 userPublicKey: userWallet.toString(),
                 wrapAndUnwrapSol: true,
-                asLegacyTransaction: true, // 直接使用 Legacy 格式确保可靠性
                 dynamicComputeUnitLimit: true,
                 prioritizationFeeLamports: {
                     priorityLevelWithMaxLamports: {
@@ -170,44 +280,62 @@ export class JupiterProtocol implements DEXProtocol {
                 }
             };
 
-            console.log(`   📤 发送 Swap 请求 (VersionedTransaction 格式)...`);
+            console.log(`   📤 发送 Swap Instructions 请求...`);
 
             // 使用 axios 发送 POST 请求，支持代理
-            const swapResponse = await axios.post(`${this.baseUrl}/swap`, swapRequest, this.axiosConfig);
-
+            const swapResponse = await axios.post<JupiterSwapInstructionsResponse>(`${this.baseUrl}/swap-instructions`, swapRequest, this.axiosConfig);
             const swapResult = swapResponse.data;
 
-            if (!swapResult.swapTransaction) {
-                throw new Error('Jupiter 未返回交易数据');
+            if (!swapResult.swapInstruction) {
+                throw new Error('Jupiter 未返回交换指令');
             }
 
-            // 存储完整交易供后续使用
-            (this as any)._lastSwapTransaction = swapResult.swapTransaction;
-
-            console.log(`   🔍 开始高级交易解析 (Legacy 优先策略)...`);
-
-            // 检查 Jupiter 响应格式
-            console.log(`   📋 Jupiter 响应字段:`, Object.keys(swapResult));
+            const instruction = toTransactionInstruction(swapResult.swapInstruction);
+            const lookupTableAddresses = (swapResult.addressLookupTableAddresses ?? []).map(address => new PublicKey(address));
 
-            // 使用高级指令构建器的 Legacy 方法 - 展现项目技术亮点
-            const instruction = await AdvancedInstructionBuilder.buildLegacySwapInstruction(
-                swapResult.swapTransaction,
-                this.programId
-            );
-
-            console.log(`✅ Jupiter 高级指令构建成功 (Legacy 格式)`);
+            console.log(`✅ Jupiter 指令构建成功`);
             console.log(`   程序ID: ${instruction.programId.toBase58()}`);
             console.log(`   账户数量: ${instruction.keys.length}`);
             console.log(`   数据长度: ${instruction.data.length} bytes`);
+            console.log(`   地址查找表: ${lookupTableAddresses.length} 个`);
 
-            return instruction;
+            return { instruction, lookupTableAddresses };
 
         } catch (error) {
-            console.error(`❌ Jupiter 高级指令构建失败:`, error);
+            console.error(`❌ Jupiter 指令构建失败:`, error);
             throw error;
         }
     }
 
+    /**
+     * 取出报价携带的 Jupiter 原始响应
+     * 报价金额被调整过时 (如缓存按比例换算)，
+     * 原始响应中的路由金额已不匹配，按报价金额和原滑点重新请求
+     */
+    private async resolveQuoteResponse(quote: DEXQuote): Promise<JupiterQuoteResponse> {
+        const payload = quote.payload as JupiterQuotePayload | undefined;
+        if (!payload?.quoteResponse) {
+            throw new Error('报价缺少 Jupiter 路由数据，请使用 Jupiter 返回的报价');
+        }
+
+        const { quoteResponse } = payload;
+        const exactOut = quote.swapMode === 'ExactOut';
+        const specifiedAmount = exactOut ? quote.outputAmount : quote.inputAmount;
+        if (new BN(exactOut ? quoteResponse.outAmount : quoteResponse.inAmount).eq(specifiedAmount)) {
+            return quoteResponse;
+        }
+
+        console.log(`   🔄 报价金额已调整为 ${specifiedAmount.toString()}，重新请求 Jupiter 路由...`);
+        const freshQuote = await this.fetchQuote(
+            quote.route[0],
+            quote.route[quote.route.length - 1],
+            specifiedAmount,
+            (quoteResponse.slippageBps ?? 0) / 10000,
+            exactOut ? 'ExactOut' : 'ExactIn'
+        );
+        return (freshQuote.payload as JupiterQuotePayload).quoteResponse;
+    }
+
     /**
      * Legacy 回退方法 - 智能重新请求
      * 当高级解析失败时，重新请求 Legacy 格式的交易
@@ -221,11 +349,8 @@ export class JupiterProtocol implements DEXProtocol {
         console.log(`🔄 开始 Legacy 回退策略...`);
 
         try {
-            // 获取之前的报价响应
-            const quoteResponse = (this as any)._lastQuoteResponse;
-            if (!quoteResponse) {
-                throw new Error('没有可用的报价数据');
-            }
+            // 使用报价携带的原始响应
+            const quoteResponse = await this.resolveQuoteResponse(quote);
 
             // 重新构建 Swap API 请求 - 强制使用 Legacy 格式
             const swapRequest = {
@@ -1,20 +1,53 @@
-import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { AccountMeta, Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
 import { AnchorProvider, Wallet } from "@coral-xyz/anchor";
 import BN from "bn.js";
 
 // Orca SDK导入
 import {
     WhirlpoolContext,
-    buildWhirlpoolClient,
-    swapQuoteByInputToken,
     PDAUtil,
-    TickArrayUtil
+    PoolUtil
 } from "@orca-so/whirlpools-sdk";
-import { swapIx } from "@orca-so/whirlpools-sdk/dist/instructions/swap-ix";
-import { Percentage } from "@orca-so/common-sdk";
+import { swapV2Ix } from "@orca-so/whirlpools-sdk/dist/instructions/v2/swap-ix";
 
-import { DEXProtocol, DEXQuote } from "../../types/dex/protocol";
+import { DEXProtocol, DEXQuote, SwapTokenContext } from "../../types/dex/protocol";
 import { ORCA_SPECIFIC_CONFIG } from "../../config/dex-config";
+import { getKnownPools } from "../../config/network-config";
+import { NetworkType } from "../../types/token/token-types";
+import { WhirlpoolAccountCache } from "./whirlpool-account-cache";
+import { WhirlpoolQuoteEngine, WhirlpoolSnapshot } from "./whirlpool-quote-engine";
+import { calculateQuoteMinimumOutput } from "../../utils/token/token-utils";
+import { PoolAddressCache } from "../pool-address-cache";
+
+/**
+ * Whirlpool 报价携带的协议数据
+ * 交换指令所需的账户均取自报价时的池子快照，构建指令时无需再读取链上状态
+ */
+interface WhirlpoolQuotePayload {
+    /** 池子地址 */
+    whirlpool: PublicKey;
+
+    /** 是否 A→B */
+    aToB: boolean;
+
+    /** 池子代币A mint */
+    tokenMintA: PublicKey;
+
+    /** 池子代币B mint */
+    tokenMintB: PublicKey;
+
+    /** 池子A代币金库 */
+    tokenVaultA: PublicKey;
+
+    /** 池子B代币金库 */
+    tokenVaultB: PublicKey;
+
+    /** oracle 地址 */
+    oracle: PublicKey;
+
+    /** 交换会经过的 tick array 地址 (按交换顺序) */
+    tickArrays: PublicKey[];
+}
 
 /**
  * Orca协议实现
@@ -24,10 +57,14 @@ import { ORCA_SPECIFIC_CONFIG } from "../../config/dex-config";
 export class OrcaProtocol implements DEXProtocol {
     name = "Orca";
     programId = ORCA_SPECIFIC_CONFIG.WHIRLPOOL_PROGRAM_ID;
+    // 本地报价引擎按池子代币的 TLV 扩展计入转账费
+    quotesIncludeTransferFees = true;
 
     private _connection: Connection;
     private _ctx: WhirlpoolContext;
-    private _client: any;
+    private _poolCache = new PoolAddressCache();
+    private _accountCache: WhirlpoolAccountCache;
+    private _quoteEngine: WhirlpoolQuoteEngine;
 
     /**
      * 构造函数
@@ -40,14 +77,17 @@ export class OrcaProtocol implements DEXProtocol {
         // 初始化Orca Legacy SDK
         const provider = new AnchorProvider(connection, wallet, { commitment: 'confirmed' });
         this._ctx = WhirlpoolContext.withProvider(provider, this.programId);
-        this._client = buildWhirlpoolClient(this._ctx);
+
+        // 本地报价: 账户快照缓存 + 纯计算引擎
+        this._accountCache = new WhirlpoolAccountCache(connection, this.programId);
+        this._quoteEngine = new WhirlpoolQuoteEngine(this.programId);
 
         console.log("✅ Orca协议初始化成功");
     }
 
     /**
      * 获取交易报价
-     * 使用Orca SDK获取真实的CLMM报价
+     * 基于缓存的池子和 tick array 快照在本地计算CLMM报价
      * @param tokenA 输入代币mint地址
      * @param tokenB 输出代币mint地址
      * @param amount 输入金额
@@ -69,128 +109,170 @@ export class OrcaProtocol implements DEXProtocol {
                 throw new Error("未找到Orca Whirlpool池子");
             }
 
-            console.log("🌊 使用Orca Legacy SDK获取报价...");
-
-            // 获取Whirlpool实例和数据
-            const whirlpool = await this._client.getPool(poolAddress);
-            const whirlpoolData = whirlpool.getData();
-
-            // 确定交换方向 (输入代币是tokenA还是tokenB)
-            const aToB = whirlpoolData.tokenMintA.equals(tokenA);
-            const inputTokenMint = aToB ? tokenA : tokenB;
+            // 从账户缓存获取池子快照并在本地计算报价
+            const snapshot = await this._accountCache.getSnapshot(poolAddress);
+            const quote = this._quoteEngine.quoteExactIn(snapshot, tokenA, amount, slippage);
 
-            // 使用Legacy SDK获取真实报价
-            const quote = await swapQuoteByInputToken(
-                whirlpool,
-                inputTokenMint,
-                amount,
-                Percentage.fromFraction(Math.floor(slippage * 10000), 10000), // 转换为Percentage对象
-                this.programId,
-                this._ctx.fetcher
-            );
-
-            console.log(`✅ Orca真实报价获取成功`);
+            console.log(`✅ Orca本地报价计算成功 (slot ${snapshot.slot})`);
             console.log(`   输入金额: ${amount.toString()}`);
-            console.log(`   输出金额: ${quote.estimatedAmountOut.toString()}`);
-            console.log(`   价格影响: ${((quote as any).priceImpactPct || 0).toFixed(4)}%`);
+            console.log(`   输出金额: ${quote.amountOut.toString()}`);
+            console.log(`   价格影响: ${(quote.priceImpact * 100).toFixed(4)}%`);
 
             return {
                 dexName: this.name,
                 inputAmount: amount,
-                outputAmount: quote.estimatedAmountOut,
-                priceImpact: (quote as any).priceImpactPct || 0,
-                fee: (quote as any).feeAmount || new BN(0),
+                outputAmount: quote.amountOut,
+                priceImpact: quote.priceImpact,
+                fee: quote.fee,
                 route: [tokenA, tokenB],
                 estimatedGas: 150000,
-                confidence: 0.95 // Orca SDK提供的报价可信度很高
+                confidence: 0.95, // 基于链上账户快照精确计算
+                slippage,
+                slot: snapshot.slot,
+                fetchedAt: snapshot.fetchedAt,
+                payload: this._buildPayload(snapshot, quote.aToB)
             };
         } catch (error) {
-            console.log(`❌ Orca SDK调用失败: ${error}`);
-            console.log(`🔄 使用Orca模拟数据作为备选...`);
+            // 不返回模拟报价: 没有池子数据的报价无法构建交换指令，交由聚合器按报价失败处理
+            console.log(`❌ Orca报价计算失败: ${error}`);
+            throw error;
+        }
+    }
+
+    /**
+     * 获取精确输出报价
+     * 与 getQuote 共用账户快照，以输出代币金额为准反推所需输入
+     * 报价失败时不使用模拟数据，避免以估算值作为最大输入保护
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param outputAmount 期望的输出金额
+     * @param slippage 滑点容忍度
+     * @returns 交易报价
+     */
+    async getQuoteExactOut(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        outputAmount: BN,
+        slippage: number
+    ): Promise<DEXQuote> {
+        console.log(`🔍 Orca查询精确输出报价: ${tokenA.toBase58()} → ${tokenB.toBase58()}`);
 
-            // 返回模拟数据作为备选方案
-            return this._getFallbackQuote(amount, tokenA, tokenB);
+        const poolAddress = await this._findWhirlpool(tokenA, tokenB);
+        if (!poolAddress) {
+            throw new Error("未找到Orca Whirlpool池子");
         }
+
+        const snapshot = await this._accountCache.getSnapshot(poolAddress);
+        const quote = this._quoteEngine.quoteExactOut(snapshot, tokenB, outputAmount, slippage);
+
+        console.log(`✅ Orca本地精确输出报价计算成功 (slot ${snapshot.slot})`);
+        console.log(`   输出金额: ${outputAmount.toString()}`);
+        console.log(`   预计输入: ${quote.amountIn.toString()}`);
+        console.log(`   最大输入: ${quote.maximumAmountIn.toString()}`);
+
+        return {
+            dexName: this.name,
+            inputAmount: quote.amountIn,
+            outputAmount: quote.amountOut,
+            priceImpact: quote.priceImpact,
+            fee: quote.fee,
+            route: [tokenA, tokenB],
+            estimatedGas: 150000,
+            confidence: 0.95, // 基于链上账户快照精确计算
+            slippage,
+            swapMode: 'ExactOut',
+            maxInputAmount: quote.maximumAmountIn,
+            slot: snapshot.slot,
+            fetchedAt: snapshot.fetchedAt,
+            payload: this._buildPayload(snapshot, quote.aToB)
+        };
     }
 
     /**
      * 构建交换指令
-     * 使用生产级的Orca SDK构建完整的CLMM swap指令
+     * 使用 swapV2 指令，两端代币各自传入所属的代币程序和mint，
+     * Token-2022 转账钩子账户按 TransferHookA / TransferHookB 分段传入剩余账户
      * @param quote 报价信息
      * @param userWallet 用户钱包地址
-     * @param tokenAccountA 代币A账户地址
-     * @param tokenAccountB 代币B账户地址
+     * @param tokenAccountA 输入代币账户地址
+     * @param tokenAccountB 输出代币账户地址
+     * @param tokens 交换两端的代币信息
      * @returns 交换指令
      */
     async buildSwapInstruction(
         quote: DEXQuote,
         userWallet: PublicKey,
         tokenAccountA: PublicKey,
-        tokenAccountB: PublicKey
+        tokenAccountB: PublicKey,
+        tokens: SwapTokenContext
     ): Promise<TransactionInstruction> {
         console.log("🔨 构建Orca Swap指令 - 生产级实现...");
 
         try {
-            // 获取池子地址
-            const poolAddress = await this._findWhirlpool(quote.route[0], quote.route[1]);
-            if (!poolAddress) {
-                throw new Error("未找到Whirlpool池子");
+            // 池子、金库和 tick arrays 均来自报价时的快照
+            const payload = quote.payload as WhirlpoolQuotePayload | undefined;
+            if (!payload?.whirlpool) {
+                throw new Error("报价缺少Whirlpool池子数据，请使用Orca返回的报价");
             }
+            const { aToB, tickArrays } = payload;
 
             console.log("🏭 使用生产级Orca SDK构建完整指令...");
-
-            // 获取Whirlpool实例和数据
-            const whirlpool = await this._client.getPool(poolAddress);
-            const whirlpoolData = whirlpool.getData();
-
-            // 确定交换方向
-            const aToB = whirlpoolData.tokenMintA.equals(quote.route[0]);
-
+            console.log(`   池子地址: ${payload.whirlpool.toBase58()}`);
             console.log(`   交换方向: ${aToB ? 'A→B' : 'B→A'}`);
-            console.log(`   当前价格: ${whirlpoolData.sqrtPrice.toString()}`);
-            console.log(`   当前tick: ${whirlpoolData.tickCurrentIndex}`);
-
-            // 计算oracle地址 (Orca新版本需要手动计算)
-            const oraclePDA = PDAUtil.getOracle(this.programId, poolAddress);
-
-            console.log(`   oracle地址: ${oraclePDA.publicKey.toBase58()}`);
-            console.log(`   tokenVaultA: ${whirlpoolData.tokenVaultA.toBase58()}`);
-            console.log(`   tokenVaultB: ${whirlpoolData.tokenVaultB.toBase58()}`);
-
-            // 计算所需的tick arrays (CLMM核心技术)
-            const tickArrayPDAs = TickArrayUtil.getTickArrayPDAs(
-                whirlpoolData.tickCurrentIndex,
-                whirlpoolData.tickSpacing,
-                ORCA_SPECIFIC_CONFIG.MAX_TICK_ARRAYS, // 需要3个tick arrays
-                this.programId,
-                poolAddress,
-                aToB
-            );
-
-            console.log(`   计算得到 ${tickArrayPDAs.length} 个tick arrays:`);
-            tickArrayPDAs.forEach((pda, index) => {
-                console.log(`     tickArray${index}: ${pda.publicKey.toBase58()}`);
+            console.log(`   oracle地址: ${payload.oracle.toBase58()}`);
+            console.log(`   tokenVaultA: ${payload.tokenVaultA.toBase58()}`);
+            console.log(`   tokenVaultB: ${payload.tokenVaultB.toBase58()}`);
+            tickArrays.forEach((tickArray, index) => {
+                console.log(`     tickArray${index}: ${tickArray.toBase58()}`);
             });
 
-            // 构建完整的SwapParams (生产级参数)
+            // 精确输出模式以输出金额为准，另一侧阈值为最大输入
+            const exactOut = quote.swapMode === 'ExactOut';
+            if (exactOut && !quote.maxInputAmount) {
+                throw new Error("精确输出报价缺少最大输入金额");
+            }
+            console.log(`   报价模式: ${exactOut ? '精确输出' : '精确输入'}`);
+
+            // 池子的代币A/B与交换的输入/输出按方向对应
+            const [mintA, mintB] = aToB ? [tokens.inputMint, tokens.outputMint] : [tokens.outputMint, tokens.inputMint];
+            if (!mintA.mint.equals(payload.tokenMintA) || !mintB.mint.equals(payload.tokenMintB)) {
+                throw new Error("交换代币与Whirlpool池子的代币不一致");
+            }
+            const tokenOwnerAccountA = aToB ? tokenAccountA : tokenAccountB;
+            const tokenOwnerAccountB = aToB ? tokenAccountB : tokenAccountA;
+            const [tokenTransferHookAccountsA, tokenTransferHookAccountsB] = await Promise.all([
+                this._resolveTransferHookAccounts(tokens, quote, mintA, tokenOwnerAccountA, payload.tokenVaultA, aToB, userWallet, payload.whirlpool),
+                this._resolveTransferHookAccounts(tokens, quote, mintB, tokenOwnerAccountB, payload.tokenVaultB, !aToB, userWallet, payload.whirlpool)
+            ]);
+            console.log(`   代币程序: A ${mintA.programId.toBase58()}, B ${mintB.programId.toBase58()}`);
+
+            // 构建完整的SwapV2Params (生产级参数)
             const swapParams = {
                 // SwapInput核心参数
-                amount: quote.inputAmount,
-                otherAmountThreshold: quote.outputAmount.muln(95).divn(100), // 5%滑点保护
+                amount: exactOut ? quote.outputAmount : quote.inputAmount,
+                otherAmountThreshold: exactOut
+                    ? quote.maxInputAmount!
+                    : calculateQuoteMinimumOutput(quote), // 按请求的滑点计算最小输出
                 sqrtPriceLimit: new BN(0), // 无价格限制
-                amountSpecifiedIsInput: true,
+                amountSpecifiedIsInput: !exactOut,
                 aToB: aToB,
-                tickArray0: tickArrayPDAs[0].publicKey,
-                tickArray1: tickArrayPDAs[1].publicKey,
-                tickArray2: tickArrayPDAs[2].publicKey,
-
-                // SwapParams账户参数
-                whirlpool: poolAddress,
-                tokenOwnerAccountA: aToB ? tokenAccountA : tokenAccountB,
-                tokenOwnerAccountB: aToB ? tokenAccountB : tokenAccountA,
-                tokenVaultA: whirlpoolData.tokenVaultA,
-                tokenVaultB: whirlpoolData.tokenVaultB,
-                oracle: oraclePDA.publicKey, // 使用计算得出的oracle地址
+                tickArray0: tickArrays[0],
+                tickArray1: tickArrays[1],
+                tickArray2: tickArrays[2],
+
+                // SwapV2Params账户参数
+                whirlpool: payload.whirlpool,
+                tokenMintA: mintA.mint,
+                tokenMintB: mintB.mint,
+                tokenProgramA: mintA.programId,
+                tokenProgramB: mintB.programId,
+                tokenOwnerAccountA,
+                tokenOwnerAccountB,
+                tokenVaultA: payload.tokenVaultA,
+                tokenVaultB: payload.tokenVaultB,
+                tokenTransferHookAccountsA,
+                tokenTransferHookAccountsB,
+                oracle: payload.oracle,
                 tokenAuthority: userWallet,
             };
 
@@ -199,8 +281,8 @@ export class OrcaProtocol implements DEXProtocol {
 
             console.log("   构建参数完成，生成指令...");
 
-            // 使用底层swapIx函数生成生产级指令
-            const orcaInstruction = swapIx(this._ctx.program, swapParams);
+            // 使用底层swapV2Ix函数生成生产级指令
+            const orcaInstruction = swapV2Ix(this._ctx.program, swapParams);
 
             // Orca SDK返回的是包含指令数组的对象
             const mainInstruction = orcaInstruction.instructions[0];
@@ -223,17 +305,123 @@ export class OrcaProtocol implements DEXProtocol {
         }
     }
 
+    /**
+     * 解析池子一侧代币转账的转账钩子账户
+     * 转入池子时从用户账户转到金库 (用户授权)，转出时从金库转到用户账户 (池子授权)
+     * @param tokens 交换两端的代币信息
+     * @param quote 报价信息 (决定转账金额)
+     * @param mint 该侧代币mint信息
+     * @param ownerAccount 用户的代币账户
+     * @param vault 池子金库
+     * @param isInput 该侧是否为转入池子的代币
+     * @param userWallet 用户钱包地址
+     * @param whirlpool 池子地址 (金库所有者)
+     * @returns 钩子账户，没有转账钩子时为 undefined
+     */
+    private async _resolveTransferHookAccounts(
+        tokens: SwapTokenContext,
+        quote: DEXQuote,
+        mint: SwapTokenContext['inputMint'],
+        ownerAccount: PublicKey,
+        vault: PublicKey,
+        isInput: boolean,
+        userWallet: PublicKey,
+        whirlpool: PublicKey
+    ): Promise<AccountMeta[] | undefined> {
+        const accounts = isInput
+            ? await tokens.resolveTransferHookAccounts(mint, ownerAccount, vault, userWallet, quote.maxInputAmount ?? quote.inputAmount)
+            : await tokens.resolveTransferHookAccounts(mint, vault, ownerAccount, whirlpool, quote.outputAmount);
+        return accounts.length > 0 ? accounts : undefined;
+    }
+
+    /**
+     * 查找代币对的Whirlpool池子
+     * 供多跳路由图发现边使用
+     * @param tokenA 代币A mint地址
+     * @param tokenB 代币B mint地址
+     * @returns 池子地址，不存在时返回 null
+     */
+    async findPool(tokenA: PublicKey, tokenB: PublicKey): Promise<PublicKey | null> {
+        return await this._findWhirlpool(tokenA, tokenB);
+    }
+
     /**
      * 查找Whirlpool池子
+     * 优先使用已知池子列表，否则按支持的tick spacing推导池子PDA并检查链上是否存在
      * @param tokenA 代币A mint地址
      * @param tokenB 代币B mint地址
      * @returns 池子地址
      */
     private async _findWhirlpool(tokenA: PublicKey, tokenB: PublicKey): Promise<PublicKey | null> {
-        // 这里应该实现池子查找逻辑
-        // 目前使用已知的SOL-devUSDC池子地址
-        const knownPool = new PublicKey("3KBZiL2g8C7tiJ32hTv5v3KM7aK9htpqTw4cTXz1HvPt");
-        return knownPool;
+        // Whirlpool 的代币顺序由 mint 地址决定
+        const [mintA, mintB] = PoolUtil.orderMints(tokenA, tokenB).map(mint => new PublicKey(mint));
+        const cacheKey = `${mintA.toBase58()}-${mintB.toBase58()}`;
+        const cached = this._poolCache.get(cacheKey);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        // 1. 已知池子
+        const knownPool = [...getKnownPools(NetworkType.DEVNET), ...getKnownPools(NetworkType.MAINNET)]
+            .find(pool => pool.dexName === this.name &&
+                ((pool.tokenA.equals(mintA) && pool.tokenB.equals(mintB)) ||
+                 (pool.tokenA.equals(mintB) && pool.tokenB.equals(mintA))));
+        if (knownPool) {
+            this._poolCache.set(cacheKey, knownPool.address);
+            return knownPool.address;
+        }
+
+        // 2. 推导池子PDA，默认tick spacing优先
+        const tickSpacings = [
+            ORCA_SPECIFIC_CONFIG.DEFAULT_TICK_SPACING,
+            ...ORCA_SPECIFIC_CONFIG.SUPPORTED_TICK_SPACINGS.filter(ts => ts !== ORCA_SPECIFIC_CONFIG.DEFAULT_TICK_SPACING)
+        ];
+        const candidates = ORCA_SPECIFIC_CONFIG.WHIRLPOOLS_CONFIGS.flatMap(configKey =>
+            tickSpacings.map(tickSpacing =>
+                PDAUtil.getWhirlpool(this.programId, configKey, mintA, mintB, tickSpacing).publicKey
+            )
+        );
+
+        const accounts = await this._connection.getMultipleAccountsInfo(candidates);
+        const index = accounts.findIndex(account => account !== null && account.owner.equals(this.programId));
+        const poolAddress = index >= 0 ? candidates[index] : null;
+
+        if (poolAddress) {
+            console.log(`🌊 找到Whirlpool池子: ${poolAddress.toBase58()}`);
+        }
+
+        this._poolCache.set(cacheKey, poolAddress);
+        return poolAddress;
+    }
+
+    /**
+     * 从池子快照提取构建交换指令所需的账户
+     * tick array 不足 3 个时 (靠近价格边界) 重复最后一个，满足 swap 指令的固定账户数
+     * @param snapshot 池子账户快照
+     * @param aToB 是否 A→B
+     * @returns 报价携带的协议数据
+     */
+    private _buildPayload(snapshot: WhirlpoolSnapshot, aToB: boolean): WhirlpoolQuotePayload {
+        const tickArrays = WhirlpoolQuoteEngine.getTickArrayAddresses(
+            this.programId,
+            snapshot.address,
+            snapshot.whirlpool,
+            aToB
+        ).map(({ pubkey }) => pubkey);
+        while (tickArrays.length < ORCA_SPECIFIC_CONFIG.MAX_TICK_ARRAYS) {
+            tickArrays.push(tickArrays[tickArrays.length - 1]);
+        }
+
+        return {
+            whirlpool: snapshot.address,
+            aToB,
+            tokenMintA: snapshot.whirlpool.tokenMintA,
+            tokenMintB: snapshot.whirlpool.tokenMintB,
+            tokenVaultA: snapshot.whirlpool.tokenVaultA,
+            tokenVaultB: snapshot.whirlpool.tokenVaultB,
+            oracle: PDAUtil.getOracle(this.programId, snapshot.address).publicKey,
+            tickArrays
+        };
     }
 
     /**
@@ -254,38 +442,4 @@ export class OrcaProtocol implements DEXProtocol {
             throw new Error("tickArray0参数未定义");
         }
     }
-
-    /**
-     * 获取备选报价 (模拟数据)
-     * @param amount 输入金额
-     * @param tokenA 输入代币
-     * @param tokenB 输出代币
-     * @returns 模拟报价
-     */
-    private _getFallbackQuote(amount: BN, tokenA: PublicKey, tokenB: PublicKey): DEXQuote {
-        // 修正的模拟汇率: 1 SOL ≈ 150 USDC (接近真实市场价格)
-        // 注意：USDC 有 6 位小数，所以 150 USDC = 150,000,000 最小单位
-        const simulatedRate = 150; // 150 USDC per SOL
-        const usdcDecimals = 1000000; // 10^6 for USDC decimals
-
-        // 计算输出金额：(amount in lamports / 10^9) * rate * 10^6
-        // 简化为：amount * rate / 1000 (因为 10^6 / 10^9 = 1/1000)
-        const outputAmount = amount.muln(simulatedRate).divn(1000);
-
-        console.log(`🔄 Orca 模拟报价计算:`);
-        console.log(`   输入: ${amount.toString()} lamports (${amount.toNumber() / 1e9} SOL)`);
-        console.log(`   汇率: ${simulatedRate} USDC/SOL`);
-        console.log(`   输出: ${outputAmount.toString()} (${outputAmount.toNumber() / 1e6} USDC)`);
-
-        return {
-            dexName: this.name,
-            inputAmount: amount,
-            outputAmount: outputAmount,
-            priceImpact: 0.0001, // 0.01%
-            fee: amount.muln(3).divn(1000), // 0.3%手续费
-            route: [tokenA, tokenB],
-            estimatedGas: 150000,
-            confidence: 0.7 // 模拟数据可信度较低
-        };
-    }
 }
@@ -0,0 +1,153 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+
+import {
+    ParsableOracle,
+    ParsableTickArray,
+    ParsableWhirlpool,
+    PDAUtil,
+    PoolUtil,
+    TickArray
+} from "@orca-so/whirlpools-sdk";
+import { ParsableMintInfo } from "@orca-so/common-sdk";
+
+import { ORCA_SPECIFIC_CONFIG } from "../../config/dex-config";
+import { WhirlpoolQuoteEngine, WhirlpoolSnapshot } from "./whirlpool-quote-engine";
+
+/**
+ * Whirlpool账户缓存
+ * 按池子缓存报价所需的账户快照，有效期内的报价完全在本地计算
+ * 同一池子的并发加载会被合并为一次RPC请求
+ */
+export class WhirlpoolAccountCache {
+    private _connection: Connection;
+    private _programId: PublicKey;
+    private _ttlMs: number;
+    private _snapshots = new Map<string, WhirlpoolSnapshot>();
+    private _pending = new Map<string, Promise<WhirlpoolSnapshot>>();
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param programId Whirlpool程序ID
+     * @param ttlMs 快照有效期 (毫秒)
+     */
+    constructor(
+        connection: Connection,
+        programId: PublicKey = ORCA_SPECIFIC_CONFIG.WHIRLPOOL_PROGRAM_ID,
+        ttlMs: number = ORCA_SPECIFIC_CONFIG.ACCOUNT_CACHE_TTL_MS
+    ) {
+        this._connection = connection;
+        this._programId = programId;
+        this._ttlMs = ttlMs;
+    }
+
+    /**
+     * 获取池子快照，过期或不存在时从RPC加载
+     * @param poolAddress 池子地址
+     * @param forceRefresh 是否忽略缓存强制刷新
+     * @returns 池子快照
+     */
+    async getSnapshot(poolAddress: PublicKey, forceRefresh: boolean = false): Promise<WhirlpoolSnapshot> {
+        const key = poolAddress.toBase58();
+
+        const cached = this._snapshots.get(key);
+        if (cached && !forceRefresh && Date.now() - cached.fetchedAt < this._ttlMs) {
+            return cached;
+        }
+
+        const pending = this._pending.get(key);
+        if (pending) {
+            return await pending;
+        }
+
+        const loading = this._loadSnapshot(poolAddress).finally(() => this._pending.delete(key));
+        this._pending.set(key, loading);
+
+        const snapshot = await loading;
+        this._snapshots.set(key, snapshot);
+        return snapshot;
+    }
+
+    /**
+     * 写入快照 (例如来自账户订阅或测试夹具)
+     * @param snapshot 池子快照
+     */
+    setSnapshot(snapshot: WhirlpoolSnapshot): void {
+        this._snapshots.set(snapshot.address.toBase58(), snapshot);
+    }
+
+    /**
+     * 使缓存失效
+     * @param poolAddress 池子地址，不传则清空全部
+     */
+    invalidate(poolAddress?: PublicKey): void {
+        if (poolAddress) {
+            this._snapshots.delete(poolAddress.toBase58());
+        } else {
+            this._snapshots.clear();
+        }
+    }
+
+    /**
+     * 从RPC加载池子快照
+     * 先读取池子确定当前tick，再一次性批量读取两个方向的 tick arrays、oracle 和两个 mint
+     * @param poolAddress 池子地址
+     * @returns 池子快照
+     */
+    private async _loadSnapshot(poolAddress: PublicKey): Promise<WhirlpoolSnapshot> {
+        const poolAccount = await this._connection.getAccountInfo(poolAddress);
+        const whirlpool = ParsableWhirlpool.parse(poolAddress, poolAccount);
+        if (!whirlpool) {
+            throw new Error(`无法解析Whirlpool账户: ${poolAddress.toBase58()}`);
+        }
+
+        // 两个方向的 tick arrays 共享当前所在的 tick array，按起始tick去重
+        const tickArrayAddresses = new Map<number, PublicKey>();
+        for (const aToB of [true, false]) {
+            WhirlpoolQuoteEngine.getTickArrayAddresses(this._programId, poolAddress, whirlpool, aToB)
+                .forEach(({ pubkey, startTickIndex }) => tickArrayAddresses.set(startTickIndex, pubkey));
+        }
+        const tickArrayEntries = [...tickArrayAddresses.entries()];
+
+        const oracleAddress = PDAUtil.getOracle(this._programId, poolAddress).publicKey;
+        const adaptiveFee = PoolUtil.isInitializedWithAdaptiveFee(whirlpool);
+
+        const [{ context, value: accounts }, epochInfo] = await Promise.all([
+            this._connection.getMultipleAccountsInfoAndContext([
+                whirlpool.tokenMintA,
+                whirlpool.tokenMintB,
+                oracleAddress,
+                ...tickArrayEntries.map(([, address]) => address)
+            ]),
+            this._connection.getEpochInfo()
+        ]);
+
+        const [mintAccountA, mintAccountB, oracleAccount, ...tickArrayAccounts] = accounts;
+
+        const mintA = ParsableMintInfo.parse(whirlpool.tokenMintA, mintAccountA);
+        const mintB = ParsableMintInfo.parse(whirlpool.tokenMintB, mintAccountB);
+        if (!mintA || !mintB) {
+            throw new Error("无法解析池子代币mint账户");
+        }
+
+        const tickArrays: TickArray[] = tickArrayEntries.map(([startTickIndex, address], index) => ({
+            address,
+            startTickIndex,
+            data: ParsableTickArray.parse(address, tickArrayAccounts[index])
+        }));
+
+        return {
+            address: poolAddress,
+            whirlpool,
+            tickArrays,
+            oracle: adaptiveFee ? ParsableOracle.parse(oracleAddress, oracleAccount) : null,
+            tokenExtensionCtx: {
+                currentEpoch: epochInfo.epoch,
+                tokenMintWithProgramA: mintA,
+                tokenMintWithProgramB: mintB
+            },
+            slot: context.slot,
+            fetchedAt: Date.now()
+        };
+    }
+}
@@ -0,0 +1,282 @@
+import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+
+import {
+    OracleData,
+    PriceMath,
+    SwapUtils,
+    TickArray,
+    TokenExtensionContextForPool,
+    WhirlpoolData,
+    swapQuoteWithParams
+} from "@orca-so/whirlpools-sdk";
+import { getTickArrayPublicKeysWithStartTickIndex } from "@orca-so/whirlpools-sdk/dist/utils/swap-utils";
+import { Percentage } from "@orca-so/common-sdk";
+
+/**
+ * Whirlpool账户快照
+ * 包含在本地计算任意方向、任意金额报价所需的全部已解码账户
+ */
+export interface WhirlpoolSnapshot {
+    /** 池子地址 */
+    address: PublicKey;
+
+    /** 已解码的池子账户 */
+    whirlpool: WhirlpoolData;
+
+    /** 两个交换方向所需的 tick arrays (data 为 null 表示该 tick array 未初始化) */
+    tickArrays: TickArray[];
+
+    /** 自适应手续费池子的 oracle 数据，普通池子为 null */
+    oracle: OracleData | null;
+
+    /** 代币扩展 (Token-2022 转账手续费) 上下文 */
+    tokenExtensionCtx: TokenExtensionContextForPool;
+
+    /** 快照对应的slot */
+    slot: number;
+
+    /** 快照加载时间 (毫秒时间戳) */
+    fetchedAt: number;
+}
+
+/**
+ * 本地报价结果
+ */
+export interface WhirlpoolLocalQuote {
+    /** 是否 A→B */
+    aToB: boolean;
+
+    /** 实际消耗的输入金额 */
+    amountIn: BN;
+
+    /** 输出金额 */
+    amountOut: BN;
+
+    /** 扣除滑点后的最小输出 (精确输出模式下等于输出金额) */
+    minimumAmountOut: BN;
+
+    /** 计入滑点后的最大输入 (精确输入模式下等于输入金额) */
+    maximumAmountIn: BN;
+
+    /** 以输入代币计价的手续费 */
+    fee: BN;
+
+    /** 价格影响 (0.01 = 1%) */
+    priceImpact: number;
+
+    /** 交换结束时的tick */
+    endTickIndex: number;
+
+    /** 交换结束时的 sqrt 价格 (X64) */
+    endSqrtPrice: BN;
+}
+
+/**
+ * Whirlpool本地报价引擎
+ * 纯函数式计算: 相同的快照和参数总是得到相同的结果，不访问网络
+ * swap 数学直接复用 Orca SDK 的链上等价模拟，保证与程序执行结果一致
+ */
+export class WhirlpoolQuoteEngine {
+    private _programId: PublicKey;
+
+    /**
+     * 构造函数
+     * @param programId Whirlpool程序ID (用于推导 tick array 地址)
+     */
+    constructor(programId: PublicKey) {
+        this._programId = programId;
+    }
+
+    /**
+     * 计算精确输入报价
+     * @param snapshot 池子账户快照
+     * @param inputMint 输入代币mint地址
+     * @param amount 输入金额
+     * @param slippage 滑点容忍度
+     * @param timestampInSeconds 计算自适应手续费使用的时间戳，默认使用快照加载时间
+     * @returns 本地报价结果
+     */
+    quoteExactIn(
+        snapshot: WhirlpoolSnapshot,
+        inputMint: PublicKey,
+        amount: BN,
+        slippage: number,
+        timestampInSeconds?: BN
+    ): WhirlpoolLocalQuote {
+        const aToB = this._resolveDirection(snapshot.whirlpool, inputMint, true);
+        const { otherAmountThreshold, ...quote } = this._simulate(snapshot, aToB, amount, true, slippage, timestampInSeconds);
+
+        return {
+            ...quote,
+            minimumAmountOut: otherAmountThreshold,
+            maximumAmountIn: quote.amountIn
+        };
+    }
+
+    /**
+     * 计算精确输出报价
+     * @param snapshot 池子账户快照
+     * @param outputMint 输出代币mint地址
+     * @param amount 期望的输出金额
+     * @param slippage 滑点容忍度
+     * @param timestampInSeconds 计算自适应手续费使用的时间戳，默认使用快照加载时间
+     * @returns 本地报价结果
+     */
+    quoteExactOut(
+        snapshot: WhirlpoolSnapshot,
+        outputMint: PublicKey,
+        amount: BN,
+        slippage: number,
+        timestampInSeconds?: BN
+    ): WhirlpoolLocalQuote {
+        const aToB = this._resolveDirection(snapshot.whirlpool, outputMint, false);
+        const { otherAmountThreshold, ...quote } = this._simulate(snapshot, aToB, amount, false, slippage, timestampInSeconds);
+
+        // 已加载的 tick arrays 内流动性不足时只能部分成交，不满足精确输出语义
+        if (quote.amountOut.lt(amount)) {
+            throw new Error(`池子流动性不足: 期望输出 ${amount.toString()}，最多可输出 ${quote.amountOut.toString()}`);
+        }
+
+        return {
+            ...quote,
+            minimumAmountOut: quote.amountOut,
+            maximumAmountIn: otherAmountThreshold
+        };
+    }
+
+    /**
+     * 从快照中取出指定方向交换会经过的 tick arrays (按交换顺序)
+     * @param snapshot 池子账户快照
+     * @param aToB 是否 A→B
+     * @returns tick arrays
+     */
+    getTickArraysForSwap(snapshot: WhirlpoolSnapshot, aToB: boolean): TickArray[] {
+        return WhirlpoolQuoteEngine.getTickArrayAddresses(
+            this._programId,
+            snapshot.address,
+            snapshot.whirlpool,
+            aToB
+        ).map(({ pubkey, startTickIndex }) => {
+            const tickArray = snapshot.tickArrays.find(t => t.startTickIndex === startTickIndex);
+            if (!tickArray) {
+                throw new Error(`快照缺少 tick array: ${startTickIndex} (${pubkey.toBase58()})`);
+            }
+            return tickArray;
+        });
+    }
+
+    /**
+     * 推导指定方向交换所需的 tick array 地址和起始tick
+     * @param programId Whirlpool程序ID
+     * @param poolAddress 池子地址
+     * @param whirlpool 池子数据
+     * @param aToB 是否 A→B
+     * @returns tick array 地址列表 (按交换顺序)
+     */
+    static getTickArrayAddresses(
+        programId: PublicKey,
+        poolAddress: PublicKey,
+        whirlpool: WhirlpoolData,
+        aToB: boolean
+    ): { pubkey: PublicKey; startTickIndex: number }[] {
+        return getTickArrayPublicKeysWithStartTickIndex(
+            whirlpool.tickCurrentIndex,
+            whirlpool.tickSpacing,
+            aToB,
+            programId,
+            poolAddress
+        );
+    }
+
+    /**
+     * 根据指定的代币确定交换方向
+     * @param whirlpool 池子数据
+     * @param mint 指定金额的代币mint地址
+     * @param isInput 指定的代币是否为输入代币
+     * @returns 是否 A→B
+     */
+    private _resolveDirection(whirlpool: WhirlpoolData, mint: PublicKey, isInput: boolean): boolean {
+        if (whirlpool.tokenMintA.equals(mint)) {
+            return isInput;
+        }
+        if (whirlpool.tokenMintB.equals(mint)) {
+            return !isInput;
+        }
+        throw new Error(`${isInput ? '输入' : '输出'}代币不属于该池子: ${mint.toBase58()}`);
+    }
+
+    /**
+     * 在快照上模拟交换
+     * @param snapshot 池子账户快照
+     * @param aToB 是否 A→B
+     * @param amount 指定的金额
+     * @param amountSpecifiedIsInput 指定的金额是否为输入金额
+     * @param slippage 滑点容忍度
+     * @param timestampInSeconds 计算自适应手续费使用的时间戳
+     * @returns 模拟结果及计入滑点的另一侧金额阈值
+     */
+    private _simulate(
+        snapshot: WhirlpoolSnapshot,
+        aToB: boolean,
+        amount: BN,
+        amountSpecifiedIsInput: boolean,
+        slippage: number,
+        timestampInSeconds?: BN
+    ): Omit<WhirlpoolLocalQuote, 'minimumAmountOut' | 'maximumAmountIn'> & { otherAmountThreshold: BN } {
+        const { whirlpool } = snapshot;
+
+        const quote = swapQuoteWithParams({
+            whirlpoolData: whirlpool,
+            tokenAmount: amount,
+            otherAmountThreshold: SwapUtils.getDefaultOtherAmountThreshold(amountSpecifiedIsInput),
+            sqrtPriceLimit: SwapUtils.getDefaultSqrtPriceLimit(aToB),
+            aToB,
+            amountSpecifiedIsInput,
+            tickArrays: this.getTickArraysForSwap(snapshot, aToB),
+            oracleData: snapshot.oracle,
+            tokenExtensionCtx: snapshot.tokenExtensionCtx,
+            timestampInSeconds: timestampInSeconds ?? new BN(Math.floor(snapshot.fetchedAt / 1000))
+        }, Percentage.fromFraction(Math.floor(slippage * 10000), 10000));
+
+        return {
+            aToB,
+            amountIn: quote.estimatedAmountIn,
+            amountOut: quote.estimatedAmountOut,
+            otherAmountThreshold: quote.otherAmountThreshold,
+            fee: quote.estimatedFeeAmount,
+            priceImpact: this._calculatePriceImpact(
+                whirlpool.sqrtPrice,
+                quote.estimatedAmountIn.sub(quote.estimatedFeeAmount),
+                quote.estimatedAmountOut,
+                aToB
+            ),
+            endTickIndex: quote.estimatedEndTickIndex,
+            endSqrtPrice: quote.estimatedEndSqrtPrice
+        };
+    }
+
+    /**
+     * 计算价格影响: 不含手续费的成交价相对交换前现价的偏离
+     * @param sqrtPrice 交换前 sqrt 价格 (X64)
+     * @param amountInLessFee 扣除手续费后的输入金额
+     * @param amountOut 输出金额
+     * @param aToB 是否 A→B
+     * @returns 价格影响 (0.01 = 1%)
+     */
+    private _calculatePriceImpact(sqrtPrice: BN, amountInLessFee: BN, amountOut: BN, aToB: boolean): number {
+        if (amountInLessFee.isZero()) {
+            return 0;
+        }
+
+        // 现价以最小单位计 (每单位A可换的B)
+        const spotPrice = PriceMath.sqrtPriceX64ToPrice(sqrtPrice, 0, 0).toNumber();
+        const executionPrice = Number(amountOut.toString()) / Number(amountInLessFee.toString());
+        const expectedPrice = aToB ? spotPrice : 1 / spotPrice;
+
+        if (!isFinite(expectedPrice) || expectedPrice <= 0) {
+            return 0;
+        }
+        return Math.max(0, 1 - executionPrice / expectedPrice);
+    }
+}
@@ -0,0 +1,57 @@
+import { PublicKey } from "@solana/web3.js";
+
+import { POOL_ADDRESS_CACHE_CONFIG } from "../config/dex-config";
+
+/**
+ * 池子地址缓存
+ * 找到的池子地址一直有效；未找到的结果只在短时间内有效，过期后重新查找，避免之后创建的池子永远无法使用
+ */
+export class PoolAddressCache {
+    private _found = new Map<string, PublicKey>();
+    private _missing = new Map<string, number>(); // 未找到池子的记录时间
+    private _missingTtlMs: number;
+
+    /**
+     * 构造函数
+     * @param missingTtlMs 未找到池子的缓存有效期 (毫秒)
+     */
+    constructor(missingTtlMs: number = POOL_ADDRESS_CACHE_CONFIG.MISSING_POOL_TTL_MS) {
+        this._missingTtlMs = missingTtlMs;
+    }
+
+    /**
+     * 获取缓存的查找结果
+     * @param key 代币对的缓存键
+     * @returns 池子地址；缓存的未找到结果返回 null；未缓存或已过期返回 undefined
+     */
+    get(key: string): PublicKey | null | undefined {
+        const found = this._found.get(key);
+        if (found) {
+            return found;
+        }
+
+        const missingAt = this._missing.get(key);
+        if (missingAt === undefined) {
+            return undefined;
+        }
+        if (Date.now() - missingAt >= this._missingTtlMs) {
+            this._missing.delete(key);
+            return undefined;
+        }
+        return null;
+    }
+
+    /**
+     * 记录查找结果
+     * @param key 代币对的缓存键
+     * @param poolAddress 池子地址，未找到时为 null
+     */
+    set(key: string, poolAddress: PublicKey | null): void {
+        if (poolAddress) {
+            this._found.set(key, poolAddress);
+            this._missing.delete(key);
+        } else {
+            this._missing.set(key, Date.now());
+        }
+    }
+}
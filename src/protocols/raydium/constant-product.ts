@@ -0,0 +1,49 @@
+import BN from "bn.js";
+
+/**
+ * 恒定乘积 (x * y = k) 报价结果
+ */
+export interface ConstantProductQuote {
+    /** 输出金额 */
+    amountOut: BN;
+
+    /** 以输入代币计价的手续费 */
+    fee: BN;
+
+    /** 价格影响 (0.01 = 1%) */
+    priceImpact: number;
+}
+
+/**
+ * 计算恒定乘积池的精确输入报价
+ * 手续费从输入金额中向上取整扣除，输出金额向下取整，与链上程序的取整方向一致
+ * @param amountIn 输入金额
+ * @param reserveIn 输入代币储备
+ * @param reserveOut 输出代币储备
+ * @param feeNumerator 手续费分子
+ * @param feeDenominator 手续费分母
+ * @returns 报价结果
+ */
+export function computeConstantProductAmountOut(
+    amountIn: BN,
+    reserveIn: BN,
+    reserveOut: BN,
+    feeNumerator: BN,
+    feeDenominator: BN
+): ConstantProductQuote {
+    if (reserveIn.isZero() || reserveOut.isZero()) {
+        throw new Error("池子储备为空");
+    }
+
+    const fee = amountIn.mul(feeNumerator).add(feeDenominator).subn(1).div(feeDenominator);
+    const amountInAfterFee = amountIn.sub(fee);
+
+    const amountOut = reserveOut.mul(amountInAfterFee).div(reserveIn.add(amountInAfterFee));
+
+    // 成交价相对现价的偏离: Δx / (x + Δx)
+    const priceImpact = amountInAfterFee.isZero()
+        ? 0
+        : Number(amountInAfterFee.muln(1_000_000).div(reserveIn.add(amountInAfterFee)).toString()) / 1_000_000;
+
+    return { amountOut, fee, priceImpact };
+}
@@ -0,0 +1,396 @@
+import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import BN from "bn.js";
+
+// Raydium SDK导入 (CLMM账户布局、tick array工具和swap数学)
+import {
+    AmmConfigLayout,
+    ClmmPoolInfo,
+    EXTENSION_TICKARRAY_BITMAP_SIZE,
+    PoolInfoLayout,
+    PoolUtils,
+    TickArray,
+    TickArrayBitmapExtensionLayout,
+    TickArrayBitmapExtensionType,
+    TickArrayLayout,
+    TickUtils,
+    getPdaExBitmapAccount,
+    getPdaTickArrayAddress,
+    swapInstruction
+} from "@raydium-io/raydium-sdk";
+
+import { DEXProtocol, DEXQuote, SwapTokenContext } from "../../types/dex/protocol";
+import { RAYDIUM_SPECIFIC_CONFIG } from "../../config/dex-config";
+import { calculateQuoteMinimumOutput } from "../../utils/token/token-utils";
+import { PoolAddressCache } from "../pool-address-cache";
+
+/**
+ * 加载完成的CLMM池子 (包含报价所需的全部链上数据)
+ */
+interface RaydiumClmmPool {
+    /** SDK swap数学使用的池子信息 */
+    poolInfo: ClmmPoolInfo;
+
+    /** 按起始tick索引的tick array缓存 */
+    tickArrayCache: { [key: string]: TickArray };
+
+    /** tick array bitmap 扩展账户地址 */
+    exBitmapAddress: PublicKey;
+}
+
+/**
+ * CLMM 报价携带的协议数据
+ * 包括报价时计算出的交换会经过的 tick arrays，构建指令时无需再读取链上状态
+ */
+interface RaydiumClmmQuotePayload {
+    /** 池子地址 */
+    poolAddress: PublicKey;
+
+    /** AMM配置账户 */
+    ammConfig: PublicKey;
+
+    /** 输入代币金库 */
+    inputVault: PublicKey;
+
+    /** 输出代币金库 */
+    outputVault: PublicKey;
+
+    /** 价格观测账户 */
+    observationId: PublicKey;
+
+    /** tick array bitmap 扩展账户地址 */
+    exBitmapAddress: PublicKey;
+
+    /** 交换会经过的 tick arrays (按交换顺序) */
+    tickArrays: PublicKey[];
+}
+
+/**
+ * Raydium CLMM协议实现
+ * 解码集中流动性池子和 tick arrays，在本地沿 tick 遍历计算报价，
+ * 并使用SDK的 swap 指令编码器构建交换指令 (编码为 swap_v2，同时支持 SPL Token 和 Token-2022)
+ */
+export class RaydiumClmmProtocol implements DEXProtocol {
+    name = "Raydium CLMM";
+    programId: PublicKey;
+
+    private _connection: Connection;
+    private _poolCache = new PoolAddressCache();
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param programId CLMM 程序ID
+     */
+    constructor(connection: Connection, programId: PublicKey = RAYDIUM_SPECIFIC_CONFIG.CLMM_PROGRAM_ID) {
+        this._connection = connection;
+        this.programId = programId;
+
+        console.log("✅ Raydium CLMM协议初始化成功");
+    }
+
+    /**
+     * 获取交易报价
+     * 从当前 tick 开始跨越已初始化的 tick 计算精确输出和手续费
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param amount 输入金额
+     * @param slippage 滑点容忍度
+     * @returns 交易报价
+     */
+    async getQuote(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number
+    ): Promise<DEXQuote> {
+        console.log(`🔍 Raydium CLMM查询报价: ${tokenA.toBase58()} → ${tokenB.toBase58()}`);
+
+        const poolAddress = await this._findClmmPool(tokenA, tokenB);
+        if (!poolAddress) {
+            throw new Error("未找到Raydium CLMM池子");
+        }
+
+        const { poolInfo, tickArrayCache, exBitmapAddress } = await this._loadPool(poolAddress);
+        const zeroForOne = poolInfo.mintA.mint.equals(tokenA);
+
+        const result = PoolUtils.getOutputAmountAndRemainAccounts(
+            poolInfo,
+            tickArrayCache,
+            tokenA,
+            amount,
+            undefined,
+            true
+        );
+        if (!result.allTrade) {
+            throw new Error("已加载的tick arrays流动性不足，无法完成全部输入");
+        }
+
+        const priceImpact = this._calculatePriceImpact(poolInfo.sqrtPriceX64, result.executionPrice, zeroForOne);
+
+        console.log(`✅ Raydium CLMM报价计算成功`);
+        console.log(`   池子: ${poolAddress.toBase58()}`);
+        console.log(`   输入金额: ${amount.toString()}`);
+        console.log(`   输出金额: ${result.expectedAmountOut.toString()}`);
+        console.log(`   跨越 tick arrays: ${result.remainingAccounts.length}`);
+        console.log(`   价格影响: ${(priceImpact * 100).toFixed(4)}%`);
+
+        return {
+            dexName: this.name,
+            inputAmount: amount,
+            outputAmount: result.expectedAmountOut,
+            priceImpact,
+            fee: result.feeAmount,
+            route: [tokenA, tokenB],
+            // 每跨越一个 tick array 都会增加计算量
+            estimatedGas: 120000 + 20000 * result.remainingAccounts.length,
+            confidence: 0.95, // 基于链上tick数据精确计算
+            slippage,
+            payload: {
+                poolAddress,
+                ammConfig: poolInfo.ammConfig.id,
+                inputVault: zeroForOne ? poolInfo.mintA.vault : poolInfo.mintB.vault,
+                outputVault: zeroForOne ? poolInfo.mintB.vault : poolInfo.mintA.vault,
+                observationId: poolInfo.observationId,
+                exBitmapAddress,
+                tickArrays: result.remainingAccounts
+            } as RaydiumClmmQuotePayload
+        };
+    }
+
+    /**
+     * 构建交换指令
+     * SDK 的 swapInstruction 编码的是 swap_v2 指令，固定传入 SPL Token、Token-2022 和 Memo 程序以及两端mint，
+     * 由链上程序按mint所属的代币程序转账；报价时计算出的 tick arrays 作为剩余账户传入。
+     * CLMM 程序不支持带转账钩子的代币，这类代币直接拒绝
+     * @param quote 报价信息
+     * @param userWallet 用户钱包地址
+     * @param tokenAccountA 输入代币账户地址
+     * @param tokenAccountB 输出代币账户地址
+     * @param tokens 交换两端的代币信息
+     * @returns 交换指令
+     */
+    async buildSwapInstruction(
+        quote: DEXQuote,
+        userWallet: PublicKey,
+        tokenAccountA: PublicKey,
+        tokenAccountB: PublicKey,
+        tokens: SwapTokenContext
+    ): Promise<TransactionInstruction> {
+        console.log("🔨 构建Raydium CLMM Swap指令...");
+
+        try {
+            const pool = quote.payload as RaydiumClmmQuotePayload | undefined;
+            if (!pool?.poolAddress) {
+                throw new Error("报价缺少Raydium CLMM池子数据，请使用Raydium CLMM返回的报价");
+            }
+            const hookMint = [tokens.inputMint, tokens.outputMint].find(info => info.transferHookProgramId);
+            if (hookMint) {
+                throw new Error(`Raydium CLMM 不支持带转账钩子的代币: ${hookMint.mint.toBase58()}`);
+            }
+            const [inputMint, outputMint] = [tokens.inputMint.mint, tokens.outputMint.mint];
+
+            const minimumAmountOut = calculateQuoteMinimumOutput(quote);
+
+            console.log(`   池子: ${pool.poolAddress.toBase58()}`);
+            console.log(`   tick arrays: ${pool.tickArrays.map(account => account.toBase58()).join(', ')}`);
+            console.log(`   最小输出: ${minimumAmountOut.toString()}`);
+
+            const instruction = swapInstruction(
+                this.programId,
+                userWallet,
+                pool.poolAddress,
+                pool.ammConfig,
+                tokenAccountA,
+                tokenAccountB,
+                pool.inputVault,
+                pool.outputVault,
+                inputMint,
+                outputMint,
+                pool.tickArrays,
+                pool.observationId,
+                quote.inputAmount,
+                minimumAmountOut,
+                new BN(0), // 不限制价格，由最小输出保护
+                true,
+                pool.exBitmapAddress
+            );
+
+            console.log("✅ Raydium CLMM Swap指令构建成功");
+            console.log(`   账户数量: ${instruction.keys.length}`);
+            console.log(`   数据长度: ${instruction.data.length} bytes`);
+
+            return instruction;
+        } catch (error) {
+            console.log(`❌ Raydium CLMM指令构建失败: ${error}`);
+            throw error;
+        }
+    }
+
+    /**
+     * 查找代币对的CLMM池子
+     * 供多跳路由图发现边使用
+     * @param tokenA 代币A mint地址
+     * @param tokenB 代币B mint地址
+     * @returns 池子地址，不存在时返回 null
+     */
+    async findPool(tokenA: PublicKey, tokenB: PublicKey): Promise<PublicKey | null> {
+        return await this._findClmmPool(tokenA, tokenB);
+    }
+
+    /**
+     * 查找CLMM池子
+     * 同一代币对可能存在多个费率档位，选择当前活跃流动性最大的池子
+     * @param tokenA 代币A mint地址
+     * @param tokenB 代币B mint地址
+     * @returns 池子地址
+     */
+    private async _findClmmPool(tokenA: PublicKey, tokenB: PublicKey): Promise<PublicKey | null> {
+        const cacheKey = [tokenA.toBase58(), tokenB.toBase58()].sort().join('-');
+        const cached = this._poolCache.get(cacheKey);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const mintAOffset = PoolInfoLayout.offsetOf('mintA')!;
+        const mintBOffset = PoolInfoLayout.offsetOf('mintB')!;
+        const scans = await Promise.all([[tokenA, tokenB], [tokenB, tokenA]].map(([mintA, mintB]) =>
+            this._connection.getProgramAccounts(this.programId, {
+                filters: [
+                    { dataSize: PoolInfoLayout.span },
+                    { memcmp: { offset: mintAOffset, bytes: mintA.toBase58() } },
+                    { memcmp: { offset: mintBOffset, bytes: mintB.toBase58() } }
+                ]
+            })
+        ));
+
+        let poolAddress: PublicKey | null = null;
+        let deepest = new BN(-1);
+        const candidates = scans.flat();
+        candidates.forEach(({ pubkey, account }) => {
+            const liquidity = PoolInfoLayout.decode(account.data).liquidity;
+            if (liquidity.gt(deepest)) {
+                deepest = liquidity;
+                poolAddress = pubkey;
+            }
+        });
+
+        if (poolAddress) {
+            console.log(`🌊 找到Raydium CLMM池子: ${(poolAddress as PublicKey).toBase58()} (${candidates.length} 个候选)`);
+        }
+
+        this._poolCache.set(cacheKey, poolAddress);
+        return poolAddress;
+    }
+
+    /**
+     * 加载池子、手续费配置、bitmap扩展以及当前价格两侧的 tick arrays
+     * @param poolAddress 池子地址
+     * @returns 已加载的池子
+     */
+    private async _loadPool(poolAddress: PublicKey): Promise<RaydiumClmmPool> {
+        const poolAccount = await this._connection.getAccountInfo(poolAddress);
+        if (!poolAccount) {
+            throw new Error(`池子账户不存在: ${poolAddress.toBase58()}`);
+        }
+        if (!poolAccount.owner.equals(this.programId)) {
+            throw new Error(`账户不属于Raydium CLMM程序: ${poolAddress.toBase58()}`);
+        }
+
+        const state = PoolInfoLayout.decode(poolAccount.data);
+        const exBitmapAddress = getPdaExBitmapAccount(this.programId, poolAddress).publicKey;
+
+        const [configAccount, exBitmapAccount] = await this._connection.getMultipleAccountsInfo([
+            state.ammConfig,
+            exBitmapAddress
+        ]);
+        if (!configAccount) {
+            throw new Error(`AMM配置账户不存在: ${state.ammConfig.toBase58()}`);
+        }
+        const ammConfig = AmmConfigLayout.decode(configAccount.data);
+
+        // 早期创建的池子没有bitmap扩展账户，视为全部未初始化
+        const exBitmapInfo: TickArrayBitmapExtensionType = exBitmapAccount
+            ? TickArrayBitmapExtensionLayout.decode(exBitmapAccount.data)
+            : {
+                poolId: poolAddress,
+                positiveTickArrayBitmap: this._emptyExBitmap(),
+                negativeTickArrayBitmap: this._emptyExBitmap()
+            };
+
+        // SwapMath 只使用下列字段，其余展示类字段 (价格、统计、奖励等) 不参与报价
+        const poolInfo = {
+            id: poolAddress,
+            programId: this.programId,
+            mintA: { mint: state.mintA, vault: state.vaultA, decimals: state.mintDecimalsA },
+            mintB: { mint: state.mintB, vault: state.vaultB, decimals: state.mintDecimalsB },
+            ammConfig: { id: state.ammConfig, tradeFeeRate: ammConfig.tradeFeeRate },
+            observationId: state.observationId,
+            tickSpacing: state.tickSpacing,
+            liquidity: state.liquidity,
+            sqrtPriceX64: state.sqrtPriceX64,
+            tickCurrent: state.tickCurrent,
+            tickArrayBitmap: state.tickArrayBitmap,
+            exBitmapInfo
+        } as unknown as ClmmPoolInfo;
+
+        const tickArrayCache = await this._loadTickArrays(poolInfo);
+
+        return { poolInfo, tickArrayCache, exBitmapAddress };
+    }
+
+    /**
+     * 加载当前价格两侧已初始化的 tick arrays
+     * @param poolInfo 池子信息
+     * @returns 按起始tick索引的tick array缓存
+     */
+    private async _loadTickArrays(poolInfo: ClmmPoolInfo): Promise<{ [key: string]: TickArray }> {
+        const currentStartIndex = TickUtils.getTickArrayStartIndexByTick(poolInfo.tickCurrent, poolInfo.tickSpacing);
+        const startIndexes = TickUtils.getInitializedTickArrayInRange(
+            poolInfo.tickArrayBitmap,
+            poolInfo.exBitmapInfo,
+            poolInfo.tickSpacing,
+            currentStartIndex,
+            RAYDIUM_SPECIFIC_CONFIG.CLMM_TICK_ARRAY_COUNT
+        );
+
+        const addresses = startIndexes.map(startIndex =>
+            getPdaTickArrayAddress(this.programId, poolInfo.id, startIndex).publicKey);
+        const accounts = await this._connection.getMultipleAccountsInfo(addresses);
+
+        const tickArrayCache: { [key: string]: TickArray } = {};
+        accounts.forEach((account, index) => {
+            if (!account) {
+                return;
+            }
+            const tickArray = TickArrayLayout.decode(account.data);
+            tickArrayCache[tickArray.startTickIndex] = { ...tickArray, address: addresses[index] };
+        });
+
+        console.log(`   已加载 ${Object.keys(tickArrayCache).length} 个tick arrays`);
+        return tickArrayCache;
+    }
+
+    /**
+     * 根据交换前后的 sqrt 价格计算价格影响
+     * @param sqrtPriceBefore 交换前 sqrt 价格 (X64)
+     * @param sqrtPriceAfter 交换后 sqrt 价格 (X64)
+     * @param zeroForOne 是否 A→B
+     * @returns 价格影响 (0.01 = 1%)
+     */
+    private _calculatePriceImpact(sqrtPriceBefore: BN, sqrtPriceAfter: BN, zeroForOne: boolean): number {
+        const ratio = Number(sqrtPriceAfter.toString()) / Number(sqrtPriceBefore.toString());
+        if (!isFinite(ratio) || ratio <= 0) {
+            return 0;
+        }
+        // A→B 价格下降，B→A 价格上升
+        return Math.abs(zeroForOne ? 1 - ratio * ratio : 1 - 1 / (ratio * ratio));
+    }
+
+    /**
+     * 构建全零的bitmap扩展
+     */
+    private _emptyExBitmap(): BN[][] {
+        return Array.from({ length: EXTENSION_TICKARRAY_BITMAP_SIZE }, () =>
+            Array.from({ length: 8 }, () => new BN(0)));
+    }
+}
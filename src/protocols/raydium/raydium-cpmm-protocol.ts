@@ -0,0 +1,394 @@
+import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { AccountLayout } from "@solana/spl-token";
+import BN from "bn.js";
+
+// Raydium SDK导入 (仅使用布局原语，CP-Swap 账户布局不在 v1 SDK 中)
+import { blob, publicKey, seq, struct, u64, u8, u16 } from "@raydium-io/raydium-sdk";
+
+import { DEXProtocol, DEXQuote, SwapTokenContext } from "../../types/dex/protocol";
+import { RAYDIUM_SPECIFIC_CONFIG } from "../../config/dex-config";
+import { calculateQuoteMinimumOutput } from "../../utils/token/token-utils";
+import { computeConstantProductAmountOut } from "./constant-product";
+import { PoolAddressCache } from "../pool-address-cache";
+
+/** CP-Swap 手续费率分母 */
+const CPMM_FEE_RATE_DENOMINATOR = new BN(1_000_000);
+
+/** swap_base_input 指令的Anchor discriminator */
+const SWAP_BASE_INPUT_DISCRIMINATOR = Buffer.from([143, 190, 90, 218, 196, 30, 51, 222]);
+
+/** 池子与LP mint权限PDA的种子 */
+const AUTH_SEED = Buffer.from("vault_and_lp_mint_auth_seed");
+
+/**
+ * CP-Swap PoolState 账户布局
+ */
+const CPMM_POOL_STATE_LAYOUT = struct([
+    blob(8),
+    publicKey("ammConfig"),
+    publicKey("poolCreator"),
+    publicKey("token0Vault"),
+    publicKey("token1Vault"),
+    publicKey("lpMint"),
+    publicKey("token0Mint"),
+    publicKey("token1Mint"),
+    publicKey("token0Program"),
+    publicKey("token1Program"),
+    publicKey("observationKey"),
+    u8("authBump"),
+    u8("status"),
+    u8("lpMintDecimals"),
+    u8("mint0Decimals"),
+    u8("mint1Decimals"),
+    u64("lpSupply"),
+    u64("protocolFeesToken0"),
+    u64("protocolFeesToken1"),
+    u64("fundFeesToken0"),
+    u64("fundFeesToken1"),
+    u64("openTime"),
+    u64("recentEpoch"),
+    seq(u64(), 31)
+]);
+
+/**
+ * CP-Swap AmmConfig 账户布局 (仅解码到手续费字段)
+ */
+const CPMM_CONFIG_LAYOUT = struct([
+    blob(8),
+    u8("bump"),
+    u8("disableCreatePool"),
+    u16("index"),
+    u64("tradeFeeRate"),
+    u64("protocolFeeRate"),
+    u64("fundFeeRate")
+]);
+
+/**
+ * 解码后的CP-Swap池子状态
+ */
+interface RaydiumCpmmPool {
+    /** 池子地址 */
+    address: PublicKey;
+
+    /** 池子账户状态 */
+    state: ReturnType<typeof CPMM_POOL_STATE_LAYOUT.decode>;
+
+    /** 交易手续费率 (分母为 1_000_000) */
+    tradeFeeRate: BN;
+
+    /** token0储备 (已扣除协议和基金手续费) */
+    reserve0: BN;
+
+    /** token1储备 (已扣除协议和基金手续费) */
+    reserve1: BN;
+}
+
+/**
+ * CP-Swap 报价携带的协议数据
+ * 按交换方向整理好的指令账户，取自报价时解码的池子状态
+ */
+interface RaydiumCpmmQuotePayload {
+    /** 池子地址 */
+    poolAddress: PublicKey;
+
+    /** AMM配置账户 */
+    ammConfig: PublicKey;
+
+    /** 输入代币金库 */
+    inputVault: PublicKey;
+
+    /** 输出代币金库 */
+    outputVault: PublicKey;
+
+    /** 输入代币的Token程序 */
+    inputTokenProgram: PublicKey;
+
+    /** 输出代币的Token程序 */
+    outputTokenProgram: PublicKey;
+
+    /** 价格观测账户 */
+    observationKey: PublicKey;
+}
+
+/**
+ * Raydium CPMM协议实现
+ * 集成新版恒定乘积池 (CP-Swap)，无需 OpenBook 市场，支持 Token-2022 mint
+ */
+export class RaydiumCpmmProtocol implements DEXProtocol {
+    name = "Raydium CPMM";
+    programId: PublicKey;
+
+    private _connection: Connection;
+    private _poolCache = new PoolAddressCache();
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param programId CP-Swap 程序ID
+     */
+    constructor(connection: Connection, programId: PublicKey = RAYDIUM_SPECIFIC_CONFIG.CPMM_PROGRAM_ID) {
+        this._connection = connection;
+        this.programId = programId;
+
+        console.log("✅ Raydium CPMM协议初始化成功");
+    }
+
+    /**
+     * 获取交易报价
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param amount 输入金额
+     * @param slippage 滑点容忍度
+     * @returns 交易报价
+     */
+    async getQuote(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number
+    ): Promise<DEXQuote> {
+        console.log(`🔍 Raydium CPMM查询报价: ${tokenA.toBase58()} → ${tokenB.toBase58()}`);
+
+        const poolAddress = await this._findCpmmPool(tokenA, tokenB);
+        if (!poolAddress) {
+            throw new Error("未找到Raydium CPMM池子");
+        }
+
+        const pool = await this._loadPool(poolAddress);
+        const zeroForOne = pool.state.token0Mint.equals(tokenA);
+
+        const { amountOut, fee, priceImpact } = computeConstantProductAmountOut(
+            amount,
+            zeroForOne ? pool.reserve0 : pool.reserve1,
+            zeroForOne ? pool.reserve1 : pool.reserve0,
+            pool.tradeFeeRate,
+            CPMM_FEE_RATE_DENOMINATOR
+        );
+
+        console.log(`✅ Raydium CPMM报价计算成功`);
+        console.log(`   池子: ${poolAddress.toBase58()}`);
+        console.log(`   输入金额: ${amount.toString()}`);
+        console.log(`   输出金额: ${amountOut.toString()}`);
+        console.log(`   价格影响: ${(priceImpact * 100).toFixed(4)}%`);
+
+        return {
+            dexName: this.name,
+            inputAmount: amount,
+            outputAmount: amountOut,
+            priceImpact,
+            fee,
+            route: [tokenA, tokenB],
+            estimatedGas: 60000,
+            confidence: 0.95, // 基于链上储备直接计算
+            slippage,
+            payload: this._buildPayload(pool, zeroForOne)
+        };
+    }
+
+    /**
+     * 构建交换指令
+     * 组装 CP-Swap swap_base_input 指令 (13 个账户)，两端分别传入mint所属的代币程序。
+     * CP-Swap 程序不支持带转账钩子的代币，这类代币直接拒绝
+     * @param quote 报价信息
+     * @param userWallet 用户钱包地址
+     * @param tokenAccountA 输入代币账户地址
+     * @param tokenAccountB 输出代币账户地址
+     * @param tokens 交换两端的代币信息
+     * @returns 交换指令
+     */
+    async buildSwapInstruction(
+        quote: DEXQuote,
+        userWallet: PublicKey,
+        tokenAccountA: PublicKey,
+        tokenAccountB: PublicKey,
+        tokens: SwapTokenContext
+    ): Promise<TransactionInstruction> {
+        console.log("🔨 构建Raydium CPMM Swap指令...");
+
+        try {
+            const pool = quote.payload as RaydiumCpmmQuotePayload | undefined;
+            if (!pool?.poolAddress) {
+                throw new Error("报价缺少Raydium CPMM池子数据，请使用Raydium CPMM返回的报价");
+            }
+            const hookMint = [tokens.inputMint, tokens.outputMint].find(info => info.transferHookProgramId);
+            if (hookMint) {
+                throw new Error(`Raydium CPMM 不支持带转账钩子的代币: ${hookMint.mint.toBase58()}`);
+            }
+            if (!tokens.inputMint.programId.equals(pool.inputTokenProgram) || !tokens.outputMint.programId.equals(pool.outputTokenProgram)) {
+                throw new Error("交换代币的代币程序与Raydium CPMM池子记录不一致");
+            }
+            const [inputMint, outputMint] = [tokens.inputMint.mint, tokens.outputMint.mint];
+
+            const [authority] = PublicKey.findProgramAddressSync([AUTH_SEED], this.programId);
+            const minimumAmountOut = calculateQuoteMinimumOutput(quote);
+
+            console.log(`   池子: ${pool.poolAddress.toBase58()}`);
+            console.log(`   最小输出: ${minimumAmountOut.toString()}`);
+
+            const data = Buffer.alloc(24);
+            SWAP_BASE_INPUT_DISCRIMINATOR.copy(data, 0);
+            quote.inputAmount.toArrayLike(Buffer, 'le', 8).copy(data, 8);
+            minimumAmountOut.toArrayLike(Buffer, 'le', 8).copy(data, 16);
+
+            const keys = [
+                { pubkey: userWallet, isSigner: true, isWritable: false },
+                { pubkey: authority, isSigner: false, isWritable: false },
+                { pubkey: pool.ammConfig, isSigner: false, isWritable: false },
+                { pubkey: pool.poolAddress, isSigner: false, isWritable: true },
+                { pubkey: tokenAccountA, isSigner: false, isWritable: true },
+                { pubkey: tokenAccountB, isSigner: false, isWritable: true },
+                { pubkey: pool.inputVault, isSigner: false, isWritable: true },
+                { pubkey: pool.outputVault, isSigner: false, isWritable: true },
+                { pubkey: pool.inputTokenProgram, isSigner: false, isWritable: false },
+                { pubkey: pool.outputTokenProgram, isSigner: false, isWritable: false },
+                { pubkey: inputMint, isSigner: false, isWritable: false },
+                { pubkey: outputMint, isSigner: false, isWritable: false },
+                { pubkey: pool.observationKey, isSigner: false, isWritable: true }
+            ];
+
+            const instruction = new TransactionInstruction({
+                programId: this.programId,
+                keys,
+                data
+            });
+
+            console.log("✅ Raydium CPMM Swap指令构建成功");
+            console.log(`   账户数量: ${instruction.keys.length}`);
+            console.log(`   数据长度: ${instruction.data.length} bytes`);
+
+            return instruction;
+        } catch (error) {
+            console.log(`❌ Raydium CPMM指令构建失败: ${error}`);
+            throw error;
+        }
+    }
+
+    /**
+     * 查找代币对的CPMM池子
+     * 供多跳路由图发现边使用
+     * @param tokenA 代币A mint地址
+     * @param tokenB 代币B mint地址
+     * @returns 池子地址，不存在时返回 null
+     */
+    async findPool(tokenA: PublicKey, tokenB: PublicKey): Promise<PublicKey | null> {
+        return await this._findCpmmPool(tokenA, tokenB);
+    }
+
+    /**
+     * 查找CPMM池子
+     * 按 token0/token1 mint 扫描程序账户，选择 token1 vault 余额最大的池子
+     * @param tokenA 代币A mint地址
+     * @param tokenB 代币B mint地址
+     * @returns 池子地址
+     */
+    private async _findCpmmPool(tokenA: PublicKey, tokenB: PublicKey): Promise<PublicKey | null> {
+        const cacheKey = [tokenA.toBase58(), tokenB.toBase58()].sort().join('-');
+        const cached = this._poolCache.get(cacheKey);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const mint0Offset = CPMM_POOL_STATE_LAYOUT.offsetOf('token0Mint')!;
+        const mint1Offset = CPMM_POOL_STATE_LAYOUT.offsetOf('token1Mint')!;
+        const scans = await Promise.all([[tokenA, tokenB], [tokenB, tokenA]].map(([mint0, mint1]) =>
+            this._connection.getProgramAccounts(this.programId, {
+                filters: [
+                    { dataSize: CPMM_POOL_STATE_LAYOUT.span },
+                    { memcmp: { offset: mint0Offset, bytes: mint0.toBase58() } },
+                    { memcmp: { offset: mint1Offset, bytes: mint1.toBase58() } }
+                ]
+            })
+        ));
+
+        const candidates = scans.flat().map(({ pubkey, account }) => ({
+            address: pubkey,
+            state: CPMM_POOL_STATE_LAYOUT.decode(account.data)
+        }));
+
+        let poolAddress: PublicKey | null = null;
+        if (candidates.length > 0) {
+            const vaults = await this._connection.getMultipleAccountsInfo(candidates.map(c => c.state.token1Vault));
+            let deepest = new BN(-1);
+            candidates.forEach((candidate, index) => {
+                const vault = vaults[index];
+                const balance = vault ? new BN(AccountLayout.decode(vault.data).amount.toString()) : new BN(0);
+                if (balance.gt(deepest)) {
+                    deepest = balance;
+                    poolAddress = candidate.address;
+                }
+            });
+
+            console.log(`🌊 找到Raydium CPMM池子: ${poolAddress!.toBase58()} (${candidates.length} 个候选)`);
+        }
+
+        this._poolCache.set(cacheKey, poolAddress);
+        return poolAddress;
+    }
+
+    /**
+     * 加载池子状态、手续费配置并计算可交换储备
+     * 储备 = vault余额 - 未提取的协议手续费 - 未提取的基金手续费
+     * @param poolAddress 池子地址
+     * @returns 池子状态
+     */
+    private async _loadPool(poolAddress: PublicKey): Promise<RaydiumCpmmPool> {
+        const poolAccount = await this._connection.getAccountInfo(poolAddress);
+        if (!poolAccount) {
+            throw new Error(`池子账户不存在: ${poolAddress.toBase58()}`);
+        }
+        if (!poolAccount.owner.equals(this.programId)) {
+            throw new Error(`账户不属于Raydium CPMM程序: ${poolAddress.toBase58()}`);
+        }
+
+        const state = CPMM_POOL_STATE_LAYOUT.decode(poolAccount.data);
+
+        const [configAccount, vault0, vault1] = await this._connection.getMultipleAccountsInfo([
+            state.ammConfig,
+            state.token0Vault,
+            state.token1Vault
+        ]);
+        if (!configAccount) {
+            throw new Error(`AMM配置账户不存在: ${state.ammConfig.toBase58()}`);
+        }
+        if (!vault0 || !vault1) {
+            throw new Error("池子vault账户不存在");
+        }
+
+        const { tradeFeeRate } = CPMM_CONFIG_LAYOUT.decode(configAccount.data);
+
+        // Token-2022 vault 带有扩展数据，基础字段布局与 SPL Token 相同
+        const reserve0 = new BN(AccountLayout.decode(vault0.data.subarray(0, AccountLayout.span)).amount.toString())
+            .sub(state.protocolFeesToken0)
+            .sub(state.fundFeesToken0);
+        const reserve1 = new BN(AccountLayout.decode(vault1.data.subarray(0, AccountLayout.span)).amount.toString())
+            .sub(state.protocolFeesToken1)
+            .sub(state.fundFeesToken1);
+
+        return {
+            address: poolAddress,
+            state,
+            tradeFeeRate,
+            reserve0: BN.max(reserve0, new BN(0)),
+            reserve1: BN.max(reserve1, new BN(0))
+        };
+    }
+
+    /**
+     * 按交换方向从池子状态提取构建交换指令所需的账户
+     * @param pool 池子状态
+     * @param zeroForOne 是否 token0→token1
+     * @returns 报价携带的协议数据
+     */
+    private _buildPayload(pool: RaydiumCpmmPool, zeroForOne: boolean): RaydiumCpmmQuotePayload {
+        const { state } = pool;
+        return {
+            poolAddress: pool.address,
+            ammConfig: state.ammConfig,
+            inputVault: zeroForOne ? state.token0Vault : state.token1Vault,
+            outputVault: zeroForOne ? state.token1Vault : state.token0Vault,
+            inputTokenProgram: zeroForOne ? state.token0Program : state.token1Program,
+            outputTokenProgram: zeroForOne ? state.token1Program : state.token0Program,
+            observationKey: state.observationKey
+        };
+    }
+}
@@ -0,0 +1,376 @@
+import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { AccountLayout, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import BN from "bn.js";
+
+// Raydium SDK导入 (仅使用账户布局和PDA推导)
+import {
+    LIQUIDITY_STATE_LAYOUT_V4,
+    MARKET_STATE_LAYOUT_V3,
+    Liquidity,
+    Market
+} from "@raydium-io/raydium-sdk";
+
+import { DEXProtocol, DEXQuote, SwapTokenContext } from "../../types/dex/protocol";
+import { RAYDIUM_SPECIFIC_CONFIG } from "../../config/dex-config";
+import { getKnownPools } from "../../config/network-config";
+import { NetworkType } from "../../types/token/token-types";
+import { calculateQuoteMinimumOutput } from "../../utils/token/token-utils";
+import { computeConstantProductAmountOut } from "./constant-product";
+import { PoolAddressCache } from "../pool-address-cache";
+
+/** AMM v4 swapBaseIn 指令序号 */
+const SWAP_BASE_IN_INSTRUCTION = 9;
+
+/** OpenBook OpenOrders 账户中 baseTokenTotal / quoteTokenTotal 的偏移 */
+const OPEN_ORDERS_BASE_TOTAL_OFFSET = 85;
+const OPEN_ORDERS_QUOTE_TOTAL_OFFSET = 101;
+
+/**
+ * 解码后的AMM v4池子状态
+ */
+interface RaydiumAmmPool {
+    /** 池子地址 */
+    address: PublicKey;
+
+    /** 池子账户状态 */
+    state: ReturnType<typeof LIQUIDITY_STATE_LAYOUT_V4.decode>;
+
+    /** base代币储备 (已扣除待提取的PnL) */
+    baseReserve: BN;
+
+    /** quote代币储备 (已扣除待提取的PnL) */
+    quoteReserve: BN;
+}
+
+/**
+ * AMM v4 报价携带的协议数据
+ * 池子相关账户取自报价时解码的池子状态，构建指令时只需再读取 OpenBook 市场账户
+ */
+interface RaydiumAmmQuotePayload {
+    /** 池子地址 */
+    poolAddress: PublicKey;
+
+    /** 池子的 OpenOrders 账户 */
+    openOrders: PublicKey;
+
+    /** 池子的 TargetOrders 账户 */
+    targetOrders: PublicKey;
+
+    /** 池子base金库 */
+    baseVault: PublicKey;
+
+    /** 池子quote金库 */
+    quoteVault: PublicKey;
+
+    /** OpenBook 程序ID */
+    marketProgramId: PublicKey;
+
+    /** OpenBook 市场地址 */
+    marketId: PublicKey;
+}
+
+/**
+ * Raydium协议实现
+ * 原生集成Raydium AMM v4 恒定乘积池
+ * 直接解码链上池子状态计算报价，并手动构建 swapBaseIn 指令
+ * AMM v4 只支持 SPL Token，没有可用于 Token-2022 的 v2 交换指令，涉及 Token-2022 代币的交换直接拒绝
+ */
+export class RaydiumProtocol implements DEXProtocol {
+    name = "Raydium";
+    programId: PublicKey;
+
+    private _connection: Connection;
+    private _poolCache = new PoolAddressCache();
+
+    /**
+     * 构造函数
+     * @param connection Solana连接实例
+     * @param programId AMM v4 程序ID
+     */
+    constructor(connection: Connection, programId: PublicKey = RAYDIUM_SPECIFIC_CONFIG.AMM_PROGRAM_ID) {
+        this._connection = connection;
+        this.programId = programId;
+
+        console.log("✅ Raydium协议初始化成功");
+    }
+
+    /**
+     * 获取交易报价
+     * 按池子的 swap 手续费率和实时储备计算恒定乘积报价
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param amount 输入金额
+     * @param slippage 滑点容忍度
+     * @returns 交易报价
+     */
+    async getQuote(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        amount: BN,
+        slippage: number
+    ): Promise<DEXQuote> {
+        console.log(`🔍 Raydium查询报价: ${tokenA.toBase58()} → ${tokenB.toBase58()}`);
+
+        const poolAddress = await this._findAmmPool(tokenA, tokenB);
+        if (!poolAddress) {
+            throw new Error("未找到Raydium AMM池子");
+        }
+
+        const pool = await this._loadPool(poolAddress);
+        const baseIn = pool.state.baseMint.equals(tokenA);
+
+        const { amountOut, fee, priceImpact } = computeConstantProductAmountOut(
+            amount,
+            baseIn ? pool.baseReserve : pool.quoteReserve,
+            baseIn ? pool.quoteReserve : pool.baseReserve,
+            pool.state.swapFeeNumerator,
+            pool.state.swapFeeDenominator
+        );
+
+        console.log(`✅ Raydium报价计算成功`);
+        console.log(`   池子: ${poolAddress.toBase58()}`);
+        console.log(`   输入金额: ${amount.toString()}`);
+        console.log(`   输出金额: ${amountOut.toString()}`);
+        console.log(`   价格影响: ${(priceImpact * 100).toFixed(4)}%`);
+
+        return {
+            dexName: this.name,
+            inputAmount: amount,
+            outputAmount: amountOut,
+            priceImpact,
+            fee,
+            route: [tokenA, tokenB],
+            estimatedGas: 80000,
+            confidence: 0.95, // 基于链上储备直接计算
+            slippage,
+            payload: this._buildPayload(pool)
+        };
+    }
+
+    /**
+     * 构建交换指令
+     * 手动组装 AMM v4 swapBaseIn 指令 (18 个账户)
+     * @param quote 报价信息
+     * @param userWallet 用户钱包地址
+     * @param tokenAccountA 输入代币账户地址
+     * @param tokenAccountB 输出代币账户地址
+     * @param tokens 交换两端的代币信息
+     * @returns 交换指令
+     */
+    async buildSwapInstruction(
+        quote: DEXQuote,
+        userWallet: PublicKey,
+        tokenAccountA: PublicKey,
+        tokenAccountB: PublicKey,
+        tokens: SwapTokenContext
+    ): Promise<TransactionInstruction> {
+        console.log("🔨 构建Raydium Swap指令...");
+
+        try {
+            const pool = quote.payload as RaydiumAmmQuotePayload | undefined;
+            if (!pool?.poolAddress) {
+                throw new Error("报价缺少Raydium AMM池子数据，请使用Raydium返回的报价");
+            }
+            const token2022Mint = [tokens.inputMint, tokens.outputMint].find(info => !info.programId.equals(TOKEN_PROGRAM_ID));
+            if (token2022Mint) {
+                throw new Error(`Raydium AMM v4 不支持 Token-2022 代币: ${token2022Mint.mint.toBase58()}`);
+            }
+
+            const marketInfo = await this._connection.getAccountInfo(pool.marketId);
+            if (!marketInfo) {
+                throw new Error(`市场账户不存在: ${pool.marketId.toBase58()}`);
+            }
+            const market = MARKET_STATE_LAYOUT_V3.decode(marketInfo.data);
+
+            const ammAuthority = Liquidity.getAssociatedAuthority({ programId: this.programId }).publicKey;
+            const marketAuthority = Market.getAssociatedAuthority({
+                programId: pool.marketProgramId,
+                marketId: pool.marketId
+            }).publicKey;
+
+            const minimumAmountOut = calculateQuoteMinimumOutput(quote);
+
+            console.log(`   池子: ${pool.poolAddress.toBase58()}`);
+            console.log(`   最小输出: ${minimumAmountOut.toString()}`);
+
+            const data = Buffer.alloc(17);
+            data.writeUInt8(SWAP_BASE_IN_INSTRUCTION, 0);
+            quote.inputAmount.toArrayLike(Buffer, 'le', 8).copy(data, 1);
+            minimumAmountOut.toArrayLike(Buffer, 'le', 8).copy(data, 9);
+
+            // 交换方向由用户源账户的mint决定，账户顺序固定
+            const keys = [
+                { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+                { pubkey: pool.poolAddress, isSigner: false, isWritable: true },
+                { pubkey: ammAuthority, isSigner: false, isWritable: false },
+                { pubkey: pool.openOrders, isSigner: false, isWritable: true },
+                { pubkey: pool.targetOrders, isSigner: false, isWritable: true },
+                { pubkey: pool.baseVault, isSigner: false, isWritable: true },
+                { pubkey: pool.quoteVault, isSigner: false, isWritable: true },
+                { pubkey: pool.marketProgramId, isSigner: false, isWritable: false },
+                { pubkey: pool.marketId, isSigner: false, isWritable: true },
+                { pubkey: market.bids, isSigner: false, isWritable: true },
+                { pubkey: market.asks, isSigner: false, isWritable: true },
+                { pubkey: market.eventQueue, isSigner: false, isWritable: true },
+                { pubkey: market.baseVault, isSigner: false, isWritable: true },
+                { pubkey: market.quoteVault, isSigner: false, isWritable: true },
+                { pubkey: marketAuthority, isSigner: false, isWritable: false },
+                { pubkey: tokenAccountA, isSigner: false, isWritable: true },
+                { pubkey: tokenAccountB, isSigner: false, isWritable: true },
+                { pubkey: userWallet, isSigner: true, isWritable: false }
+            ];
+
+            const instruction = new TransactionInstruction({
+                programId: this.programId,
+                keys,
+                data
+            });
+
+            console.log("✅ Raydium Swap指令构建成功");
+            console.log(`   账户数量: ${instruction.keys.length}`);
+            console.log(`   数据长度: ${instruction.data.length} bytes`);
+
+            return instruction;
+        } catch (error) {
+            console.log(`❌ Raydium指令构建失败: ${error}`);
+            throw error;
+        }
+    }
+
+    /**
+     * 查找代币对的AMM池子
+     * 供多跳路由图发现边使用
+     * @param tokenA 代币A mint地址
+     * @param tokenB 代币B mint地址
+     * @returns 池子地址，不存在时返回 null
+     */
+    async findPool(tokenA: PublicKey, tokenB: PublicKey): Promise<PublicKey | null> {
+        return await this._findAmmPool(tokenA, tokenB);
+    }
+
+    /**
+     * 查找AMM池子
+     * 优先使用已知池子列表，否则按 base/quote mint 扫描程序账户，选择储备最深的池子
+     * @param tokenA 代币A mint地址
+     * @param tokenB 代币B mint地址
+     * @returns 池子地址
+     */
+    private async _findAmmPool(tokenA: PublicKey, tokenB: PublicKey): Promise<PublicKey | null> {
+        const cacheKey = [tokenA.toBase58(), tokenB.toBase58()].sort().join('-');
+        const cached = this._poolCache.get(cacheKey);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        // 1. 已知池子
+        const knownPool = [...getKnownPools(NetworkType.DEVNET), ...getKnownPools(NetworkType.MAINNET)]
+            .find(pool => pool.dexName === this.name &&
+                ((pool.tokenA.equals(tokenA) && pool.tokenB.equals(tokenB)) ||
+                 (pool.tokenA.equals(tokenB) && pool.tokenB.equals(tokenA))));
+        if (knownPool) {
+            this._poolCache.set(cacheKey, knownPool.address);
+            return knownPool.address;
+        }
+
+        // 2. 扫描程序账户 (两种 base/quote 顺序)
+        const baseMintOffset = LIQUIDITY_STATE_LAYOUT_V4.offsetOf('baseMint');
+        const quoteMintOffset = LIQUIDITY_STATE_LAYOUT_V4.offsetOf('quoteMint');
+        const scans = await Promise.all([[tokenA, tokenB], [tokenB, tokenA]].map(([base, quote]) =>
+            this._connection.getProgramAccounts(this.programId, {
+                filters: [
+                    { dataSize: LIQUIDITY_STATE_LAYOUT_V4.span },
+                    { memcmp: { offset: baseMintOffset, bytes: base.toBase58() } },
+                    { memcmp: { offset: quoteMintOffset, bytes: quote.toBase58() } }
+                ]
+            })
+        ));
+
+        const candidates = scans.flat().map(({ pubkey, account }) => ({
+            address: pubkey,
+            state: LIQUIDITY_STATE_LAYOUT_V4.decode(account.data)
+        }));
+
+        let poolAddress: PublicKey | null = null;
+        if (candidates.length > 0) {
+            // 同一代币对可能存在多个池子，按 quote 侧vault余额选择最深的池子
+            const vaults = await this._connection.getMultipleAccountsInfo(candidates.map(c => c.state.quoteVault));
+            let deepest = new BN(-1);
+            candidates.forEach((candidate, index) => {
+                const vault = vaults[index];
+                const balance = vault ? new BN(AccountLayout.decode(vault.data).amount.toString()) : new BN(0);
+                if (balance.gt(deepest)) {
+                    deepest = balance;
+                    poolAddress = candidate.address;
+                }
+            });
+
+            console.log(`🌊 找到Raydium AMM池子: ${poolAddress!.toBase58()} (${candidates.length} 个候选)`);
+        }
+
+        this._poolCache.set(cacheKey, poolAddress);
+        return poolAddress;
+    }
+
+    /**
+     * 加载池子状态并计算可交换储备
+     * 储备 = vault余额 + OpenBook挂单中的资金 - 待提取的PnL
+     * @param poolAddress 池子地址
+     * @returns 池子状态
+     */
+    private async _loadPool(poolAddress: PublicKey): Promise<RaydiumAmmPool> {
+        const poolInfo = await this._connection.getAccountInfo(poolAddress);
+        if (!poolInfo) {
+            throw new Error(`池子账户不存在: ${poolAddress.toBase58()}`);
+        }
+        if (!poolInfo.owner.equals(this.programId)) {
+            throw new Error(`账户不属于Raydium AMM程序: ${poolAddress.toBase58()}`);
+        }
+
+        const state = LIQUIDITY_STATE_LAYOUT_V4.decode(poolInfo.data);
+
+        const [baseVault, quoteVault, openOrders] = await this._connection.getMultipleAccountsInfo([
+            state.baseVault,
+            state.quoteVault,
+            state.openOrders
+        ]);
+        if (!baseVault || !quoteVault) {
+            throw new Error("池子vault账户不存在");
+        }
+        // AMM v4 只能转账 SPL Token，金库属于 Token-2022 的池子无法交换
+        if (!baseVault.owner.equals(TOKEN_PROGRAM_ID) || !quoteVault.owner.equals(TOKEN_PROGRAM_ID)) {
+            throw new Error(`Raydium AMM v4 不支持 Token-2022 代币: ${poolAddress.toBase58()}`);
+        }
+
+        let baseReserve = new BN(AccountLayout.decode(baseVault.data).amount.toString());
+        let quoteReserve = new BN(AccountLayout.decode(quoteVault.data).amount.toString());
+
+        if (openOrders && openOrders.data.length >= OPEN_ORDERS_QUOTE_TOTAL_OFFSET + 8) {
+            baseReserve = baseReserve.add(
+                new BN(openOrders.data.subarray(OPEN_ORDERS_BASE_TOTAL_OFFSET, OPEN_ORDERS_BASE_TOTAL_OFFSET + 8), 'le'));
+            quoteReserve = quoteReserve.add(
+                new BN(openOrders.data.subarray(OPEN_ORDERS_QUOTE_TOTAL_OFFSET, OPEN_ORDERS_QUOTE_TOTAL_OFFSET + 8), 'le'));
+        }
+
+        baseReserve = BN.max(baseReserve.sub(state.baseNeedTakePnl), new BN(0));
+        quoteReserve = BN.max(quoteReserve.sub(state.quoteNeedTakePnl), new BN(0));
+
+        return { address: poolAddress, state, baseReserve, quoteReserve };
+    }
+
+    /**
+     * 从池子状态提取构建交换指令所需的账户
+     * @param pool 池子状态
+     * @returns 报价携带的协议数据
+     */
+    private _buildPayload(pool: RaydiumAmmPool): RaydiumAmmQuotePayload {
+        return {
+            poolAddress: pool.address,
+            openOrders: pool.state.openOrders,
+            targetOrders: pool.state.targetOrders,
+            baseVault: pool.state.baseVault,
+            quoteVault: pool.state.quoteVault,
+            marketProgramId: pool.state.marketProgramId,
+            marketId: pool.state.marketId
+        };
+    }
+}
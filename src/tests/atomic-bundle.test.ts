@@ -0,0 +1,391 @@
+import {
+    ComputeBudgetInstruction,
+    ComputeBudgetProgram,
+    Keypair,
+    PublicKey,
+    SystemInstruction,
+    SystemProgram,
+    TransactionMessage,
+    VersionedTransaction
+} from "@solana/web3.js";
+import BN from "bn.js";
+
+import { DEXAggregator } from "../core/aggregator/dex-aggregator";
+import { BundleManager } from "../core/jito/bundle-manager";
+import { SwapOrchestrator } from "../core/facade/swap-orchestrator";
+import { KeypairSigner } from "../core/signer/keypair-signer";
+import { DEXProtocol } from "../types/dex/protocol";
+import { BatchStrategy, BatchSwapRequest, SwapRequest } from "../types/facade/swap-types";
+import { BundleResult } from "../types/facade/result-types";
+import { SimulationFailure } from "../types/transaction/transaction-types";
+import { BundleSimulationResult, BundleTransaction } from "../types/jito/bundle-types";
+import { getRequiredSigners, getTransactionSignature, isTransactionSigned } from "../utils/transaction/transaction-utils";
+import { assert, buildQuote, mockConnection, mockSwapProtocol, runTestSuite } from "./test-helpers";
+
+/**
+ * 原子批量交换测试套件
+ *
+ * 使用模拟的 RPC 连接、协议和 Bundle 管理器，不需要网络:
+ * 1. 多笔交换编译为同一个 Bundle，小费只放在最后一笔交易中，结果按交换一一对应
+ * 2. 任一交换失败时不签名也不提交，超过 5 笔时拒绝
+ * 3. 小费支付者与交换钱包不同时由其共同签名最后一笔交易
+ * 4. 所有交易 (包括小费) 作为一个 Bundle 整体模拟，模拟失败时取消 Bundle 并定位失败的交换
+ * 5. 各笔交易不单独模拟，CU上限按整体模拟测得的CU设置，重新签名后替换 Bundle 中的交易
+ */
+
+const OWNER = Keypair.generate();
+const TIP_PAYER = Keypair.generate();
+const TIP_ACCOUNT = Keypair.generate().publicKey;
+const PROGRAM_ID = Keypair.generate().publicKey;
+const UNQUOTED_MINT = Keypair.generate().publicKey;
+const TIP_AMOUNT = 5_000;
+
+/** Bundle 整体模拟中第 i 笔交易消耗的CU为 (i + 1) 倍 */
+const UNITS_PER_LEG = 100_000;
+
+/**
+ * 构建 1:2 兑换的模拟协议，输出代币为 UNQUOTED_MINT 时报价失败
+ */
+function mockProtocol(): DEXProtocol {
+    return mockSwapProtocol(PROGRAM_ID, async (tokenA, tokenB, amount, slippage) => {
+        if (tokenB.equals(UNQUOTED_MINT)) {
+            throw new Error("无池子");
+        }
+        return buildQuote({ dexName: "Orca", inputAmount: amount, outputAmount: amount.muln(2), route: [tokenA, tokenB], slippage });
+    }, "Orca");
+}
+
+/**
+ * 构建记录提交内容的模拟 Bundle 管理器
+ * bundles 记录各 Bundle 当前的交易 (替换后为替换的交易)，simulated 记录模拟时的交易
+ * @param failedIndex Bundle 模拟中失败的交易序号 (不传时模拟成功)
+ */
+function mockBundleManager(failedIndex?: number) {
+    const bundles: BundleTransaction[][] = [];
+    const simulated: BundleTransaction[][] = [];
+    const cancelled: string[] = [];
+    const submitted: string[] = [];
+    const replaced: string[] = [];
+    const tipPayers: PublicKey[] = [];
+    const manager = {
+        createTipInstruction: async (payer: PublicKey) => {
+            tipPayers.push(payer);
+            return {
+                instruction: SystemProgram.transfer({ fromPubkey: payer, toPubkey: TIP_ACCOUNT, lamports: TIP_AMOUNT }),
+                tipAmount: TIP_AMOUNT
+            };
+        },
+        createBundle: async (transactions: BundleTransaction[]) => {
+            bundles.push(transactions);
+            return { id: `bundle-${bundles.length}`, bundleId: '', transactions };
+        },
+        simulateBundle: async (id: string): Promise<BundleSimulationResult> => {
+            const transactions = bundles[Number(id.split("-")[1]) - 1];
+            simulated.push(transactions);
+            const results = transactions.map((transaction, index) => ({
+                index,
+                signature: getTransactionSignature(transaction),
+                executed: failedIndex === undefined || index <= failedIndex,
+                success: failedIndex === undefined || index < failedIndex,
+                error: index === failedIndex ? JSON.stringify({ InstructionError: [0, { Custom: 6001 }] }) : undefined,
+                logs: index === failedIndex ? [`Program ${PROGRAM_ID.toBase58()} failed: custom program error: 0x1771`] : [],
+                unitsConsumed: UNITS_PER_LEG * (index + 1),
+                balanceDeltas: []
+            }));
+            return {
+                success: failedIndex === undefined,
+                slot: 100,
+                failedTransactionIndex: failedIndex,
+                error: results[failedIndex ?? -1]?.error,
+                sharedState: true,
+                transactions: results
+            };
+        },
+        replaceTransactions: async (id: string, transactions: BundleTransaction[]) => {
+            bundles[Number(id.split("-")[1]) - 1] = transactions;
+            replaced.push(id);
+            return { id, bundleId: '', transactions };
+        },
+        cancelBundle: async (id: string) => {
+            cancelled.push(id);
+            return true;
+        },
+        submitBundle: async (id: string) => {
+            submitted.push(id);
+            return {
+                bundleId: "jito-bundle",
+                status: 'submitted',
+                estimatedConfirmationTime: 2000,
+                tipAmount: TIP_AMOUNT,
+                transactionCount: bundles[bundles.length - 1].length
+            };
+        }
+    };
+    return { manager: manager as unknown as BundleManager, bundles, simulated, cancelled, submitted, replaced, tipPayers };
+}
+
+/**
+ * 构建交换请求
+ */
+function buildSwap(outputToken: PublicKey = Keypair.generate().publicKey): SwapRequest {
+    return {
+        inputToken: Keypair.generate().publicKey,
+        outputToken,
+        inputAmount: new BN(1_000_000),
+        slippage: 0.01,
+        userWallet: OWNER.publicKey
+    };
+}
+
+/**
+ * 构建原子批量请求
+ */
+function buildBatch(swaps: SwapRequest[], tipPayer?: PublicKey): BatchSwapRequest {
+    return { swaps, atomic: true, strategy: BatchStrategy.PARALLEL, tipPayer };
+}
+
+/**
+ * 统计交易中转账到小费账户的指令
+ */
+function countTipTransfers(transaction: VersionedTransaction): number {
+    return TransactionMessage.decompile(transaction.message).instructions.filter(instruction =>
+        instruction.programId.equals(SystemProgram.programId)
+        && SystemInstruction.decodeInstructionType(instruction) === 'Transfer'
+        && SystemInstruction.decodeTransfer(instruction).toPubkey.equals(TIP_ACCOUNT)
+    ).length;
+}
+
+/**
+ * 原子 Bundle 测试
+ */
+async function testAtomicBundle() {
+    console.log("\n🧪 开始原子 Bundle 测试...");
+
+    try {
+        const connection = mockConnection();
+        const { manager, bundles, simulated } = mockBundleManager();
+        const orchestrator = new SwapOrchestrator(
+            new DEXAggregator(connection, [mockProtocol()]),
+            manager,
+            connection,
+            new KeypairSigner(OWNER)
+        );
+
+        const result = await orchestrator.executeBatchSwaps(buildBatch([buildSwap(), buildSwap(), buildSwap()]));
+
+        assert(bundles.length === 1, "所有交换应提交为同一个 Bundle");
+        assert(simulated.length === 1 && simulated[0].length === 3, "所有交易应作为一个 Bundle 整体模拟");
+        const transactions = bundles[0] as VersionedTransaction[];
+        assert(transactions.length === 3, "Bundle 应包含每笔交换的交易，不含单独的小费交易");
+        assert(transactions.every(isTransactionSigned), "提交前所有交易应已签名");
+        assert(transactions.map(countTipTransfers).join(",") === "0,0,1", "小费只应放在最后一笔交易中");
+
+        assert(result.overallSuccess && result.successCount === 3, "Bundle 提交后所有交换应成功");
+        const legs = result.results as BundleResult[];
+        assert(legs.every((leg, index) => leg.signature === getTransactionSignature(transactions[index])),
+            "各交换的结果应对应 Bundle 中的交易");
+        assert(legs.every(leg => leg.bundleId === "jito-bundle" && leg.details.executionStrategy === 'ATOMIC_BUNDLE'),
+            "各交换应记录所属的 Bundle");
+        assert(legs.map(leg => leg.mevProtection.tipAmount).join(",") === `0,0,${TIP_AMOUNT}`, "小费应只计入最后一笔交换");
+
+        console.log("✅ 原子 Bundle 测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 原子 Bundle 测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 原子失败测试
+ */
+async function testAtomicFailure() {
+    console.log("\n🧪 开始原子失败测试...");
+
+    try {
+        const connection = mockConnection();
+        const { manager, bundles } = mockBundleManager();
+        const orchestrator = new SwapOrchestrator(
+            new DEXAggregator(connection, [mockProtocol()]),
+            manager,
+            connection,
+            new KeypairSigner(OWNER)
+        );
+
+        const result = await orchestrator.executeBatchSwaps(buildBatch([buildSwap(), buildSwap(UNQUOTED_MINT), buildSwap()]));
+
+        assert(bundles.length === 0, "任一交换失败时不应提交 Bundle");
+        assert(!result.overallSuccess && result.failureCount === 3, "原子批量中所有交换都应失败");
+        assert(result.results[1].error?.message !== result.results[0].error?.message, "失败的交换应保留自身的错误");
+        assert(result.results[0].error!.message.includes("第 2 笔"), "其余交换应指出导致失败的交换");
+
+        let rejected = false;
+        try {
+            await orchestrator.executeBatchSwaps(buildBatch(Array.from({ length: 6 }, () => buildSwap())));
+        } catch (error) {
+            rejected = true;
+        }
+        assert(rejected && bundles.length === 0, "超过 5 笔交换时应拒绝");
+
+        console.log("✅ 原子失败测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 原子失败测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 小费支付者测试
+ */
+async function testTipPayer() {
+    console.log("\n🧪 开始小费支付者测试...");
+
+    try {
+        const connection = mockConnection();
+        const aggregator = new DEXAggregator(connection, [mockProtocol()]);
+
+        const missing = mockBundleManager();
+        const withoutTipSigner = new SwapOrchestrator(aggregator, missing.manager, connection, new KeypairSigner(OWNER));
+        const rejected = await withoutTipSigner.executeBatchSwaps(buildBatch([buildSwap(), buildSwap()], TIP_PAYER.publicKey));
+        assert(missing.bundles.length === 0 && rejected.failureCount === 2, "缺少小费支付者的签名者时不应提交");
+
+        const { manager, bundles, tipPayers } = mockBundleManager();
+        const orchestrator = new SwapOrchestrator(aggregator, manager, connection, [new KeypairSigner(OWNER), new KeypairSigner(TIP_PAYER)]);
+        const result = await orchestrator.executeBatchSwaps(buildBatch([buildSwap(), buildSwap()], TIP_PAYER.publicKey));
+
+        assert(result.overallSuccess, "注入小费支付者的签名者后应提交");
+        assert(tipPayers.length === 1 && tipPayers[0].equals(TIP_PAYER.publicKey), "小费应由指定的小费支付者支付");
+        const [first, last] = bundles[0] as VersionedTransaction[];
+        assert(getRequiredSigners(first).length === 1, "前面的交易只需交换钱包签名");
+        assert(getRequiredSigners(last).some(signer => signer.equals(TIP_PAYER.publicKey)), "最后一笔交易应要求小费支付者签名");
+
+        console.log("✅ 小费支付者测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 小费支付者测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * Bundle 模拟失败测试
+ */
+async function testBundleSimulationFailure() {
+    console.log("\n🧪 开始 Bundle 模拟失败测试...");
+
+    try {
+        const connection = mockConnection();
+        const { manager, bundles, cancelled, submitted, replaced } = mockBundleManager(1);
+        const orchestrator = new SwapOrchestrator(
+            new DEXAggregator(connection, [mockProtocol()]),
+            manager,
+            connection,
+            new KeypairSigner(OWNER)
+        );
+
+        const result = await orchestrator.executeBatchSwaps(buildBatch([buildSwap(), buildSwap(), buildSwap()]));
+
+        assert(bundles.length === 1 && submitted.length === 0, "Bundle 模拟失败时不应提交");
+        assert(cancelled.length === 1 && cancelled[0] === "bundle-1", "Bundle 模拟失败时应取消 Bundle");
+        assert(replaced.length === 0, "Bundle 模拟失败时不应替换交易");
+        assert(!result.overallSuccess && result.failureCount === 3, "原子批量中所有交换都应失败");
+        const failure = result.results[1].error as SimulationFailure;
+        assert(failure.customCode === 6001 && failure.logs.length === 1, "失败的交换应保留解码后的模拟错误和日志");
+        assert(result.results[0].error!.message.includes("第 2 笔") && result.results[2].error!.message.includes("第 2 笔"),
+            "其余交换应指出导致失败的交换");
+
+        console.log("✅ Bundle 模拟失败测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ Bundle 模拟失败测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * Bundle 计算预算测试
+ */
+async function testBundleComputeUnits() {
+    console.log("\n🧪 开始 Bundle 计算预算测试...");
+
+    try {
+        let legSimulations = 0;
+        const connection = mockConnection(undefined, {
+            simulateTransaction: async () => {
+                legSimulations++;
+                return { context: { slot: 100 }, value: { err: null, logs: [], unitsConsumed: 120_000 } };
+            }
+        });
+        const { manager, bundles, simulated, replaced, submitted } = mockBundleManager();
+        const orchestrator = new SwapOrchestrator(
+            new DEXAggregator(connection, [mockProtocol()]),
+            manager,
+            connection,
+            new KeypairSigner(OWNER)
+        );
+
+        const result = await orchestrator.executeBatchSwaps(buildBatch([buildSwap(), buildSwap(), buildSwap()]));
+
+        assert(result.overallSuccess && submitted.length === 1, "Bundle 应提交");
+        assert(legSimulations === 0, "各笔交易不应单独模拟");
+
+        const unitLimits = (transactions: BundleTransaction[]) => (transactions as VersionedTransaction[]).map(transaction => {
+            const instruction = TransactionMessage.decompile(transaction.message).instructions.find(instruction =>
+                instruction.programId.equals(ComputeBudgetProgram.programId)
+                && ComputeBudgetInstruction.decodeInstructionType(instruction) === 'SetComputeUnitLimit')!;
+            return ComputeBudgetInstruction.decodeSetComputeUnitLimit(instruction).units;
+        });
+        assert(unitLimits(simulated[0]).every(units => units === 1_400_000), "整体模拟时应使用最大CU上限");
+
+        assert(replaced.length === 1 && replaced[0] === "bundle-1", "设置CU上限后应替换 Bundle 中的交易");
+        const transactions = bundles[0] as VersionedTransaction[];
+        assert(unitLimits(transactions).join(",") === "110000,220000,330000", "CU上限应为整体模拟测得的CU加上余量");
+        assert(transactions.every(isTransactionSigned), "替换的交易应已重新签名");
+        assert(transactions.map(countTipTransfers).join(",") === "0,0,1", "重新编译后小费仍只在最后一笔交易中");
+
+        const legs = result.results as BundleResult[];
+        assert(legs.every((leg, index) => leg.signature === getTransactionSignature(transactions[index])),
+            "结果应对应重新签名的交易");
+        assert(legs.map(leg => leg.details.computeUnitsUsed).join(",") === "100000,200000,300000",
+            "结果应记录整体模拟测得的CU");
+
+        console.log("✅ Bundle 计算预算测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ Bundle 计算预算测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("原子批量交换", [
+        testAtomicBundle,
+        testAtomicFailure,
+        testTipPayer,
+        testBundleSimulationFailure,
+        testBundleComputeUnits
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testAtomicBundle,
+    testAtomicFailure,
+    testTipPayer,
+    testBundleSimulationFailure,
+    testBundleComputeUnits,
+    runAllTests
+};
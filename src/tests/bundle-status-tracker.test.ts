@@ -0,0 +1,322 @@
+import { Connection, Keypair } from "@solana/web3.js";
+import { EventEmitter } from "events";
+
+import { BundleManager } from "../core/jito/bundle-manager";
+import { BundleStatusTracker } from "../core/jito/bundle-status-tracker";
+import { BundleEventType } from "../types/jito/bundle-manager-types";
+import { BundleStatus, BundleStatusResult, BundleStatusUpdate } from "../types/jito/bundle-types";
+import { getTransactionSignature } from "../utils/transaction/transaction-utils";
+import { assert, buildSignedTransfer, mockJitoClient, runTestSuite, sleep } from "./test-helpers";
+
+/**
+ * Bundle 状态跟踪测试套件
+ *
+ * 使用模拟的 Jito 客户端和 websocket 连接，不需要网络:
+ * 1. 跟踪中的 Bundle 按每批 5 个批量查询，超出回溯时间的 Bundle 用 getBundleStatuses 确认，状态不变时不重复通知
+ * 2. 签名确认通知立即报告落地并取消订阅，订阅不可用时改为只轮询
+ * 3. websocket 报告断开或长时间没有通知时改为快速轮询，恢复后补充签名订阅
+ * 4. BundleManager 提交后跟踪 Bundle，每次状态变化都触发事件，终态时立即更新
+ * 5. 单批查询失败不影响其他批次，失败的 Bundle 继续跟踪，监听器出错不影响其他监听器
+ */
+
+const PAYER = Keypair.generate();
+
+/**
+ * 构建模拟的 websocket 连接，记录签名订阅
+ * slot 订阅只在调用 emitSlot 时通知，socket 用于模拟底层 websocket 的错误和断开事件
+ */
+function mockConnection(available: boolean = true) {
+    const subscriptions = new Map<string, { id: number; callback: (result: any, context: any) => void }>();
+    const removed: number[] = [];
+    const slotListeners = new Map<number, () => void>();
+    const socket = new EventEmitter();
+    const connection = {
+        _rpcWebSocket: socket,
+        onSignature: (signature: string, callback: (result: any, context: any) => void) => {
+            if (!available) {
+                throw new Error("websocket unavailable");
+            }
+            const id = subscriptions.size + 1;
+            subscriptions.set(signature, { id, callback });
+            return id;
+        },
+        removeSignatureListener: async (id: number) => { removed.push(id); },
+        onSlotChange: (callback: () => void) => {
+            const id = slotListeners.size + 100;
+            slotListeners.set(id, callback);
+            return id;
+        },
+        removeSlotChangeListener: async (id: number) => { slotListeners.delete(id); }
+    };
+    const emitSlot = () => slotListeners.forEach(callback => callback());
+    return { connection: connection as unknown as Connection, subscriptions, removed, slotListeners, socket, emitSlot };
+}
+
+/**
+ * 批量轮询测试
+ */
+async function testBatchedPolling() {
+    console.log("\n🧪 开始批量轮询测试...");
+
+    try {
+        const inflight = new Map<string, BundleStatusResult>([
+            ["b1", { bundleId: "b1", status: BundleStatus.LANDED, slot: 10 }],
+            ["b3", { bundleId: "b3", status: BundleStatus.FAILED }],
+            ["b4", { bundleId: "b4", status: BundleStatus.INVALID }],
+            ["b5", { bundleId: "b5", status: BundleStatus.INVALID }]
+        ]);
+        const history = new Map<string, BundleStatusResult>([
+            ["b4", { bundleId: "b4", status: BundleStatus.LANDED, slot: 8, confirmationStatus: 'finalized' }]
+        ]);
+        const { client, inflightQueries: batches } = mockJitoClient({ inflight, history });
+        const tracker = new BundleStatusTracker(client);
+        const updates: BundleStatusUpdate[] = [];
+        tracker.onStatusChange(update => { updates.push(update); });
+
+        ["b1", "b2", "b3", "b4", "b5", "b6", "b7"].forEach(bundleId => tracker.track(bundleId));
+        await tracker.poll();
+
+        assert(batches.map(batch => batch.length).join(",") === "5,2", "应按每批 5 个合并查询");
+        const statusOf = (bundleId: string) => updates.find(update => update.bundleId === bundleId);
+        assert(statusOf("b1")?.status === BundleStatus.LANDED && statusOf("b1")?.slot === 10, "应报告落地的 Bundle 和 slot");
+        assert(statusOf("b3")?.status === BundleStatus.FAILED, "应报告失败的 Bundle");
+        assert(statusOf("b4")?.status === BundleStatus.LANDED && statusOf("b4")?.source === 'history', "超出回溯时间的 Bundle 应通过 getBundleStatuses 确认落地");
+        assert(statusOf("b5")?.status === BundleStatus.INVALID, "两种查询都找不到的 Bundle 应报告为无效");
+        assert(tracker.getTrackedBundleIds().join(",") === "b2,b6,b7", "终态的 Bundle 应停止跟踪");
+
+        const count = updates.length;
+        await tracker.poll();
+        assert(updates.length === count && batches.length === 3, "状态未变化时不应重复通知");
+
+        inflight.set("b2", { bundleId: "b2", status: BundleStatus.LANDED, slot: 12 });
+        await tracker.poll();
+        const b2 = updates[updates.length - 1];
+        assert(b2.bundleId === "b2" && b2.previousStatus === BundleStatus.PENDING && b2.source === 'inflight', "状态变化时应通知之前的状态");
+
+        assert(!tracker.isUsingWebsocket(), "没有连接时应只轮询");
+
+        console.log("✅ 批量轮询测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 批量轮询测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 签名订阅测试
+ */
+async function testSignatureSubscription() {
+    console.log("\n🧪 开始签名订阅测试...");
+
+    try {
+        const { client } = mockJitoClient();
+        const { connection, subscriptions, removed } = mockConnection();
+        const tracker = new BundleStatusTracker(client, connection);
+        const updates: BundleStatusUpdate[] = [];
+        tracker.onStatusChange(update => { updates.push(update); });
+
+        tracker.track("b1", ["sig-a", "sig-b"]);
+        assert(tracker.isUsingWebsocket() && subscriptions.size === 2, "应订阅 Bundle 中每笔交易的签名");
+
+        await subscriptions.get("sig-b")!.callback({ err: null }, { slot: 55 });
+        assert(updates.length === 1 && updates[0].status === BundleStatus.LANDED, "签名确认时应立即报告落地");
+        assert(updates[0].source === 'websocket' && updates[0].slot === 55, "应记录通知来源和 slot");
+        assert(removed.join(",") === "1,2" && tracker.getTrackedBundleIds().length === 0, "落地后应取消所有签名订阅");
+
+        await subscriptions.get("sig-a")!.callback({ err: null }, { slot: 55 });
+        assert(updates.length === 1, "停止跟踪后不应再通知");
+
+        const unavailable = mockConnection(false);
+        const fallback = new BundleStatusTracker(client, unavailable.connection);
+        fallback.track("b2", ["sig-c"]);
+        assert(!fallback.isUsingWebsocket() && fallback.getTrackedBundleIds().includes("b2"), "订阅失败时应回退到轮询并继续跟踪");
+
+        const disabled = new BundleStatusTracker(client, connection, { enableWebsocket: false });
+        assert(!disabled.isUsingWebsocket(), "可以关闭签名订阅");
+
+        console.log("✅ 签名订阅测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 签名订阅测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * websocket 失效回退测试
+ */
+async function testWebsocketFallback() {
+    console.log("\n🧪 开始 websocket 失效回退测试...");
+
+    const trackers: BundleStatusTracker[] = [];
+    try {
+        const { client, inflightQueries: batches } = mockJitoClient();
+        const { connection, subscriptions, slotListeners, socket, emitSlot } = mockConnection();
+        const tracker = new BundleStatusTracker(client, connection, { pollInterval: 60_000, fallbackPollInterval: 10, websocketTimeout: 60_000 });
+        trackers.push(tracker);
+        tracker.start();
+        tracker.track("b1", ["sig-a"]);
+        assert(tracker.isUsingWebsocket() && slotListeners.size === 1, "启动时应订阅 slot 作为心跳");
+
+        socket.emit("close");
+        assert(!tracker.isUsingWebsocket(), "websocket 断开时应视为不可用");
+        await sleep(60);
+        assert(batches.length >= 2, "websocket 不可用时应立即改为快速轮询");
+
+        tracker.track("b2", ["sig-b"]);
+        assert(!subscriptions.has("sig-b"), "websocket 不可用时不应订阅签名");
+        emitSlot();
+        assert(tracker.isUsingWebsocket() && subscriptions.has("sig-b"), "重新收到通知后应恢复并补充签名订阅");
+
+        tracker.stop();
+        assert(slotListeners.size === 0 && socket.listenerCount("close") === 0 && socket.listenerCount("error") === 0, "停止时应取消 websocket 监听");
+
+        // 订阅从未收到通知 (例如订阅一直未被确认)
+        const silent = mockConnection();
+        const quiet = new BundleStatusTracker(client, silent.connection, { pollInterval: 60_000, fallbackPollInterval: 10, websocketTimeout: 20 });
+        trackers.push(quiet);
+        quiet.start();
+        quiet.track("b3", ["sig-c"]);
+        const polled = batches.length;
+        await sleep(100);
+        assert(!quiet.isUsingWebsocket(), "超时没有 websocket 通知时应视为不可用");
+        assert(batches.length - polled >= 3, "超时后应按较短的间隔轮询");
+
+        console.log("✅ websocket 失效回退测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ websocket 失效回退测试失败: ${error}`);
+        return false;
+    } finally {
+        trackers.forEach(tracker => tracker.stop());
+    }
+}
+
+/**
+ * BundleManager 事件测试
+ */
+async function testBundleManagerEvents() {
+    console.log("\n🧪 开始 BundleManager 事件测试...");
+
+    try {
+        const inflight = new Map<string, BundleStatusResult>();
+        const { client } = mockJitoClient({ inflight });
+        const { connection, subscriptions } = mockConnection();
+        const tracker = new BundleStatusTracker(client, connection);
+        const manager = new BundleManager(client, {}, undefined, undefined, tracker);
+
+        const events: { type: BundleEventType; bundleId: string }[] = [];
+        const listener = (event: any) => { events.push({ type: event.type, bundleId: event.bundle.id }); };
+        manager.addEventListener(BundleEventType.CONFIRMED, listener);
+        manager.addEventListener(BundleEventType.FAILED, listener);
+        const changes: BundleStatus[] = [];
+        manager.addEventListener(BundleEventType.STATUS_CHANGED, event => { changes.push(event.data.update.status); });
+
+        const transaction = buildSignedTransfer(PAYER);
+        const landed = await manager.createBundle([transaction]);
+        await manager.submitBundle(landed.id);
+        assert(tracker.getTrackedBundleIds().includes("jito-1"), "提交后应开始跟踪");
+
+        await subscriptions.get(getTransactionSignature(transaction)!)!.callback({ err: null }, { slot: 777 });
+        assert(landed.status === BundleStatus.LANDED && landed.metrics.landedSlot === 777, "签名确认后 Bundle 应立即更新为落地");
+        assert(events.length === 1 && events[0].type === BundleEventType.CONFIRMED && events[0].bundleId === landed.id, "应立即触发确认事件");
+        assert(manager.getTipModel().getObservations()[0]?.landed === true, "应记录落地结果");
+
+        const invalid = await manager.createBundle([buildSignedTransfer(PAYER)]);
+        await manager.submitBundle(invalid.id);
+        await tracker.poll();
+        inflight.set("jito-2", { bundleId: "jito-2", status: BundleStatus.PROCESSING });
+        await tracker.poll();
+        assert(changes.join(",") === [BundleStatus.LANDED, BundleStatus.PENDING, BundleStatus.PROCESSING].join(","), "每次状态变化都应触发事件 (包括 Pending → Processing)");
+        assert(invalid.status === BundleStatus.PROCESSING && events.length === 1, "未完成的状态变化不应结束 Bundle");
+
+        inflight.set("jito-2", { bundleId: "jito-2", status: BundleStatus.INVALID });
+        await tracker.poll();
+        assert(invalid.status === BundleStatus.INVALID && invalid.completedAt !== undefined, "无效的 Bundle 应结束");
+        assert(events.length === 2 && events[1].type === BundleEventType.FAILED, "无效的 Bundle 应触发失败事件");
+        assert(manager.getStats().failedBundles === 1, "无效的 Bundle 应计入失败");
+
+        console.log("✅ BundleManager 事件测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ BundleManager 事件测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 查询失败测试
+ */
+async function testQueryFailures() {
+    console.log("\n🧪 开始查询失败测试...");
+
+    try {
+        const inflight = new Map<string, BundleStatusResult>([
+            ["b6", { bundleId: "b6", status: BundleStatus.LANDED, slot: 20 }],
+            ["b7", { bundleId: "b7", status: BundleStatus.INVALID }]
+        ]);
+        const { client, inflightQueries } = mockJitoClient({ inflight });
+        const getInflightBundleStatuses = client.getInflightBundleStatuses.bind(client);
+        Object.assign(client, {
+            getInflightBundleStatuses: async (bundleIds: string[]) => {
+                if (bundleIds.includes("b1")) {
+                    throw new Error("429 Too Many Requests");
+                }
+                return await getInflightBundleStatuses(bundleIds);
+            },
+            getBundleStatuses: async () => { throw new Error("fetch failed"); }
+        });
+
+        const tracker = new BundleStatusTracker(client);
+        const updates: BundleStatusUpdate[] = [];
+        tracker.onStatusChange(() => { throw new Error("listener failed"); });
+        tracker.onStatusChange(update => { updates.push(update); });
+
+        ["b1", "b2", "b3", "b4", "b5", "b6", "b7"].forEach(bundleId => tracker.track(bundleId));
+        await tracker.poll();
+
+        assert(inflightQueries.length === 1 && inflightQueries[0].join(",") === "b6,b7", "第一批失败后应继续查询其他批次");
+        assert(updates.length === 1 && updates[0].bundleId === "b6" && updates[0].status === BundleStatus.LANDED,
+            "其他批次的状态变化应正常通知，监听器出错不影响其他监听器");
+        assert(tracker.getTrackedBundleIds().join(",") === "b1,b2,b3,b4,b5,b7", "查询失败的 Bundle 应继续跟踪，不应报告为无效");
+
+        console.log("✅ 查询失败测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 查询失败测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("Bundle 状态跟踪", [
+        testBatchedPolling,
+        testSignatureSubscription,
+        testWebsocketFallback,
+        testBundleManagerEvents,
+        testQueryFailures
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testBatchedPolling,
+    testSignatureSubscription,
+    testWebsocketFallback,
+    testBundleManagerEvents,
+    testQueryFailures,
+    runAllTests
+};
@@ -0,0 +1,319 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Keypair, SignatureStatus, Transaction, VersionedTransaction } from "@solana/web3.js";
+
+import { BundleManager } from "../core/jito/bundle-manager";
+import { FileBundleStore, InMemoryBundleStore, fromBundleRecord, toBundleRecord } from "../core/jito/bundle-store";
+import { BundleInstance } from "../types/jito/bundle-manager-types";
+import { BundleStatus, BundleStatusResult } from "../types/jito/bundle-types";
+import { TipObservation } from "../types/jito/tip-model-types";
+import { getTransactionSignature } from "../utils/transaction/transaction-utils";
+import { assert, buildSignedLegacyTransfer, buildSignedTransfer, captureError, mockJitoClient, runTestSuite } from "./test-helpers";
+
+/**
+ * Bundle 持久化测试套件
+ *
+ * 使用模拟的 Jito 客户端和临时目录中的存储文件，不需要网络:
+ * 1. 内存存储和文件存储保存快照与状态转换，文件存储重新加载时跳过写了一半的行，压缩后内容不变
+ * 2. BundleManager 在创建、提交和状态更新时记录状态转换
+ * 3. start() 重新加载未完成的 Bundle 和小费观测，确认已提交 Bundle 的最终状态，中断的 Bundle 先按签名查询链上状态
+ * 4. 文件存储读写失败时报错且不影响后续写入，存储不可用时 BundleManager 仍可创建和恢复 Bundle
+ * 5. 压缩不覆盖排在它之前的写入，start() 恢复后压缩文件存储
+ */
+
+const PAYER = Keypair.generate();
+
+/**
+ * 构建 Bundle 实例
+ */
+function buildBundle(id: string, status: BundleStatus, bundleId: string = ""): BundleInstance {
+    return {
+        id,
+        bundleId,
+        transactions: [buildSignedTransfer(PAYER), buildSignedLegacyTransfer(PAYER)],
+        options: { tipStrategy: { type: 'fixed', amount: 10_000 } } as any,
+        createdAt: new Date(Date.now() - 5000),
+        submittedAt: status === BundleStatus.PROCESSING ? new Date(Date.now() - 4000) : undefined,
+        status,
+        retryCount: 0,
+        metrics: { transactionCount: 2 } as any
+    };
+}
+
+/**
+ * 构建小费观测
+ */
+function buildObservation(bundleId: string, landed: boolean): TipObservation {
+    return { bundleId, tipAmount: 10_000, landed, congestion: 'low', latency: 60, recordedAt: Date.now() };
+}
+
+/**
+ * 存储测试
+ */
+async function testStores() {
+    console.log("\n🧪 开始存储测试...");
+
+    const directory = await mkdtemp(join(tmpdir(), "bundle-store-"));
+    try {
+        const bundle = buildBundle("bundle-1", BundleStatus.PROCESSING, "jito-1");
+        const record = toBundleRecord(bundle);
+        const restored = fromBundleRecord(record);
+        assert(restored.transactions[0] instanceof VersionedTransaction && restored.transactions[1] instanceof Transaction, "应保留交易类型");
+        assert(getTransactionSignature(restored.transactions[1]) === getTransactionSignature(bundle.transactions[1]), "恢复的交易签名应不变");
+        assert(restored.submittedAt?.getTime() === bundle.submittedAt?.getTime(), "应恢复时间字段");
+
+        const memory = new InMemoryBundleStore();
+        await memory.save(record, { id: "bundle-1", bundleId: "jito-1", from: BundleStatus.PENDING, to: BundleStatus.PROCESSING, at: 1 });
+        const copy = await memory.get("bundle-1");
+        copy!.status = BundleStatus.LANDED;
+        assert((await memory.get("bundle-1"))?.status === BundleStatus.PROCESSING, "返回的快照应与存储内容互不影响");
+        assert((await memory.list([BundleStatus.LANDED])).length === 0, "应按状态筛选");
+
+        const filePath = join(directory, "nested", "bundles.jsonl");
+        const store = new FileBundleStore(filePath);
+        await store.save(toBundleRecord(buildBundle("bundle-1", BundleStatus.PENDING)), { id: "bundle-1", bundleId: "", to: BundleStatus.PENDING, at: 1, reason: "created" });
+        await store.save(record, { id: "bundle-1", bundleId: "jito-1", from: BundleStatus.PENDING, to: BundleStatus.PROCESSING, at: 2, reason: "submitting" });
+        await store.save(toBundleRecord(buildBundle("bundle-2", BundleStatus.PENDING)));
+        await store.saveTipObservation(buildObservation("jito-0", true));
+
+        // 模拟写入最后一行时崩溃
+        await writeFile(filePath, (await readFile(filePath, "utf8")) + '{"type":"record","record":{"id":"bun');
+
+        const reloaded = new FileBundleStore(filePath);
+        assert((await reloaded.get("bundle-1"))?.status === BundleStatus.PROCESSING, "重新加载后应得到最新快照");
+        assert((await reloaded.list()).length === 2, "应跳过写了一半的行");
+        assert((await reloaded.getTransitions("bundle-1")).map(transition => transition.reason).join(",") === "created,submitting", "应保留状态转换");
+        assert((await reloaded.listTipObservations()).map(observation => observation.bundleId).join(",") === "jito-0", "应保留小费观测");
+
+        await reloaded.compact();
+        const compacted = new FileBundleStore(filePath);
+        assert((await readFile(filePath, "utf8")).trim().split("\n").length === 5, "压缩后应只保留最新快照、状态转换和小费观测");
+        assert((await compacted.list()).length === 2 && (await compacted.getTransitions("bundle-1")).length === 2, "压缩后内容应不变");
+        assert((await compacted.listTipObservations()).length === 1, "压缩后应保留小费观测");
+
+        console.log("✅ 存储测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 存储测试失败: ${error}`);
+        return false;
+    } finally {
+        await rm(directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * 状态转换记录测试
+ */
+async function testLifecycleTransitions() {
+    console.log("\n🧪 开始状态转换记录测试...");
+
+    try {
+        const inflight = new Map<string, BundleStatusResult>();
+        const { client } = mockJitoClient({ inflight });
+        const store = new InMemoryBundleStore();
+        const manager = new BundleManager(client, { enableEventNotifications: false }, undefined, undefined, undefined, store);
+
+        const bundle = await manager.createBundle([buildSignedTransfer(PAYER)]);
+        await manager.submitBundle(bundle.id);
+        assert((await store.get(bundle.id))?.bundleId === "jito-1", "提交后应保存 Jito 返回的 ID");
+
+        inflight.set("jito-1", { bundleId: "jito-1", status: BundleStatus.LANDED, slot: 42 });
+        await manager.getBundleStatus(bundle.id);
+
+        const history = await manager.getBundleHistory(bundle.id);
+        assert(history.map(transition => transition.reason).join(",") === "created,submitting,jito", "应记录每次状态转换");
+        assert(history[2].from === BundleStatus.PROCESSING && history[2].to === BundleStatus.LANDED, "应记录转换前后的状态");
+        assert((await store.get(bundle.id))?.status === BundleStatus.LANDED, "应保存最终状态");
+
+        const observations = await store.listTipObservations();
+        assert(observations.length === 1 && observations[0].bundleId === "jito-1" && observations[0].landed, "应保存小费模型的观测");
+
+        console.log("✅ 状态转换记录测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 状态转换记录测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 启动恢复测试
+ */
+async function testRecoveryOnStart() {
+    console.log("\n🧪 开始启动恢复测试...");
+
+    try {
+        const store = new InMemoryBundleStore();
+        await store.save(toBundleRecord(buildBundle("landed", BundleStatus.PROCESSING, "jito-landed")));
+        await store.save(toBundleRecord(buildBundle("pending-jito", BundleStatus.PROCESSING, "jito-pending")));
+        await store.save(toBundleRecord(buildBundle("interrupted", BundleStatus.PROCESSING)));
+        const sentBeforeCrash = buildBundle("interrupted-landed", BundleStatus.PROCESSING);
+        await store.save(toBundleRecord(sentBeforeCrash));
+        await store.saveTipObservation(buildObservation("jito-old", false));
+        await store.save(toBundleRecord(buildBundle("queued", BundleStatus.PENDING)));
+        await store.save(toBundleRecord(buildBundle("done", BundleStatus.LANDED, "jito-done")));
+
+        const inflight = new Map<string, BundleStatusResult>([
+            ["jito-landed", { bundleId: "jito-landed", status: BundleStatus.LANDED, slot: 99 }]
+        ]);
+        const onChain = new Map<string, SignatureStatus>([
+            [getTransactionSignature(sentBeforeCrash.transactions[0])!, { slot: 120, confirmations: null, err: null, confirmationStatus: 'finalized' }]
+        ]);
+        const { client, inflightQueries } = mockJitoClient({ inflight, onChain });
+        const manager = new BundleManager(client, { statusCheckInterval: 0, enableEventNotifications: false }, undefined, undefined, undefined, store);
+        await manager.start();
+        const bundles = new Map((await manager.queryBundles()).map(bundle => [bundle.id, bundle]));
+
+        assert(inflightQueries.flat().sort().join(",") === "jito-landed,jito-pending", "应只查询已提交的未完成 Bundle");
+        assert(bundles.get("landed")?.status === BundleStatus.LANDED && bundles.get("landed")?.metrics.landedSlot === 99, "已落地的 Bundle 应更新为最终状态");
+        assert(bundles.get("pending-jito")?.status === BundleStatus.PROCESSING, "仍在处理的 Bundle 应继续跟踪");
+        assert(bundles.get("interrupted")?.error?.code === "INTERRUPTED", "交易未上链的中断 Bundle 应标记为失败");
+        assert(bundles.get("interrupted-landed")?.status === BundleStatus.LANDED && bundles.get("interrupted-landed")?.metrics.landedSlot === 120,
+            "交易已上链的中断 Bundle 应标记为落地");
+        assert(bundles.get("queued")?.status === BundleStatus.PENDING, "待提交的 Bundle 应重新加载");
+        assert(bundles.get("done") === undefined, "已完成的 Bundle 不应重新加载");
+
+        assert((await store.get("landed"))?.status === BundleStatus.LANDED, "恢复后的状态应写回存储");
+        assert((await store.getTransitions("interrupted"))[0]?.reason === "recovery", "应记录恢复时的状态转换");
+        assert((await store.getTransitions("interrupted-landed"))[0]?.reason === "recovery", "链上确认的状态转换也应记录为恢复");
+
+        const stats = manager.getStats();
+        assert(stats.totalBundles === 5 && stats.successfulBundles === 2 && stats.failedBundles === 1, "恢复的 Bundle 应计入统计");
+
+        const restored = manager.getTipModel().getObservations().map(observation => observation.bundleId);
+        assert(restored[0] === "jito-old" && restored.length === 3, "应恢复保存的小费观测，并记录恢复时结束的 Bundle");
+
+        console.log("✅ 启动恢复测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 启动恢复测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 存储错误测试
+ */
+async function testStoreFailures() {
+    console.log("\n🧪 开始存储错误测试...");
+
+    const directory = await mkdtemp(join(tmpdir(), "bundle-store-"));
+    try {
+        // 存储目录被删除时写入失败，恢复后的写入不受影响
+        const folder = join(directory, "store");
+        const store = new FileBundleStore(join(folder, "bundles.jsonl"));
+        await store.save(toBundleRecord(buildBundle("bundle-1", BundleStatus.PENDING)));
+        await rm(folder, { recursive: true });
+        const writeError = await captureError(() => store.save(toBundleRecord(buildBundle("bundle-2", BundleStatus.PENDING))));
+        assert(writeError.includes("ENOENT"), "存储目录不存在时写入应失败");
+
+        await mkdir(folder);
+        await store.save(toBundleRecord(buildBundle("bundle-3", BundleStatus.PENDING)));
+        const reloaded = new FileBundleStore(join(folder, "bundles.jsonl"));
+        assert((await reloaded.list()).map(record => record.id).join(",") === "bundle-3", "写入失败后的写入应正常保存");
+
+        // 存储路径不是文件时无法加载
+        const unreadable = new FileBundleStore(folder);
+        assert((await captureError(() => unreadable.list())).includes("EISDIR"), "无法读取存储文件时应报错");
+
+        // 存储不可用时 Bundle 只保存在内存中
+        const failing = Object.assign(new InMemoryBundleStore(), {
+            save: async () => { throw new Error("disk full"); },
+            list: async () => { throw new Error("disk full"); },
+            listTipObservations: async () => { throw new Error("disk full"); },
+            compact: async () => { throw new Error("disk full"); }
+        });
+        const { client } = mockJitoClient();
+        const manager = new BundleManager(client, { statusCheckInterval: 0, enableEventNotifications: false }, undefined, undefined, undefined, failing);
+        await manager.start();
+        const bundle = await manager.createBundle([buildSignedTransfer(PAYER)]);
+        assert((await manager.queryBundles()).some(queried => queried.id === bundle.id), "保存失败时 Bundle 仍应创建");
+        await manager.stop();
+
+        console.log("✅ 存储错误测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 存储错误测试失败: ${error}`);
+        return false;
+    } finally {
+        await rm(directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * 压缩测试
+ */
+async function testCompaction() {
+    console.log("\n🧪 开始压缩测试...");
+
+    const directory = await mkdtemp(join(tmpdir(), "bundle-store-"));
+    try {
+        // 压缩排在保存之后时，重命名不应覆盖刚追加的最新快照
+        const filePath = join(directory, "bundles.jsonl");
+        const store = new FileBundleStore(filePath);
+        await store.save(toBundleRecord(buildBundle("bundle-1", BundleStatus.PENDING)), { id: "bundle-1", bundleId: "", to: BundleStatus.PENDING, at: 1 });
+        await Promise.all([
+            store.save(toBundleRecord(buildBundle("bundle-1", BundleStatus.PROCESSING, "jito-1")),
+                { id: "bundle-1", bundleId: "jito-1", from: BundleStatus.PENDING, to: BundleStatus.PROCESSING, at: 2 }),
+            store.compact()
+        ]);
+
+        const reloaded = new FileBundleStore(filePath);
+        assert((await reloaded.get("bundle-1"))?.status === BundleStatus.PROCESSING, "压缩后应保留排在之前的最新快照");
+        assert((await reloaded.getTransitions("bundle-1")).length === 2, "压缩后应保留排在之前的状态转换");
+
+        // start() 恢复 Bundle 后压缩存储文件
+        const managed = new FileBundleStore(join(directory, "managed.jsonl"));
+        for (const status of [BundleStatus.PENDING, BundleStatus.PROCESSING, BundleStatus.LANDED]) {
+            await managed.save(toBundleRecord(buildBundle("done", status, "jito-done")));
+        }
+        const { client } = mockJitoClient();
+        const manager = new BundleManager(client, { statusCheckInterval: 0, enableEventNotifications: false }, undefined, undefined, undefined, managed);
+        await manager.start();
+        await manager.stop();
+
+        assert((await readFile(join(directory, "managed.jsonl"), "utf8")).trim().split("\n").length === 1, "启动后存储文件应只保留最新快照");
+        assert((await new FileBundleStore(join(directory, "managed.jsonl")).get("done"))?.status === BundleStatus.LANDED, "压缩后应得到最新快照");
+
+        console.log("✅ 压缩测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 压缩测试失败: ${error}`);
+        return false;
+    } finally {
+        await rm(directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("Bundle 持久化", [
+        testStores,
+        testLifecycleTransitions,
+        testRecoveryOnStart,
+        testStoreFailures,
+        testCompaction
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testStores,
+    testLifecycleTransitions,
+    testRecoveryOnStart,
+    testStoreFailures,
+    testCompaction,
+    runAllTests
+};
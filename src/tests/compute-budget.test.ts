@@ -0,0 +1,276 @@
+import {
+    ComputeBudgetInstruction,
+    ComputeBudgetProgram,
+    Connection,
+    Keypair,
+    PublicKey,
+    SystemProgram
+} from "@solana/web3.js";
+
+import { ComputeBudgetManager } from "../core/transaction/compute-budget-manager";
+import { PriorityFeeEstimator } from "../core/transaction/priority-fee-estimator";
+import { COMPUTE_BUDGET_CONFIG } from "../config/dex-config";
+import { SwapPriority } from "../types/facade/swap-types";
+import { assert, mockConnection, runTestSuite } from "./test-helpers";
+
+/**
+ * 计算预算与优先费测试套件
+ *
+ * 使用模拟的 RPC 连接，不需要网络:
+ * 1. 按优先级取最近优先费的百分位并限制上下限
+ * 2. 按模拟测得的CU加余量设置上限，并替换已有的计算预算指令
+ * 3. 模拟失败时使用预估CU
+ * 4. 优先费查询或模拟请求出错时使用默认单价和预估CU
+ * 5. 跳过单独模拟时使用CU上限，按测得的CU重新设置时计算预算指令留在原位置
+ */
+
+const PAYER = Keypair.generate().publicKey;
+
+/**
+ * 构建模拟的 RPC 连接
+ * @param fees 最近各slot的优先费
+ * @param unitsConsumed 模拟消耗的CU，不传表示模拟失败
+ */
+function feeConnection(fees: number[], unitsConsumed?: number) {
+    const calls = { fees: 0, simulations: 0, lockedAccounts: [] as PublicKey[] };
+
+    const connection = {
+        getRecentPrioritizationFees: async (config?: { lockedWritableAccounts?: PublicKey[] }) => {
+            calls.fees++;
+            calls.lockedAccounts = config?.lockedWritableAccounts ?? [];
+            return fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee }));
+        },
+        simulateTransaction: async () => {
+            calls.simulations++;
+            return {
+                context: { slot: 1 },
+                value: unitsConsumed === undefined
+                    ? { err: { InstructionError: [2, { Custom: 1 }] }, logs: [] }
+                    : { err: null, logs: [], unitsConsumed }
+            };
+        }
+    } as unknown as Connection;
+
+    return { connection, calls };
+}
+
+/**
+ * 构建交换指令 (一次转账)
+ */
+function buildSwapInstruction() {
+    return SystemProgram.transfer({ fromPubkey: PAYER, toPubkey: Keypair.generate().publicKey, lamports: 1000 });
+}
+
+/**
+ * 优先费百分位测试
+ */
+async function testPriorityFeePercentiles() {
+    console.log("\n🧪 开始优先费百分位测试...");
+
+    try {
+        const fees = [0, 5000, 10000, 20000, 40000, 80000, 160000, 320000, 640000, 1_280_000];
+        const { connection, calls } = feeConnection(fees);
+        const estimator = new PriorityFeeEstimator(connection);
+        const accounts = [PAYER, PAYER, Keypair.generate().publicKey];
+
+        const low = await estimator.estimate(accounts, SwapPriority.LOW);
+        const medium = await estimator.estimate(accounts, SwapPriority.MEDIUM);
+        const urgent = await estimator.estimate(accounts, SwapPriority.URGENT);
+
+        assert(low === 10000, `LOW 应取第25百分位，实际 ${low}`);
+        assert(medium === 40000, `MEDIUM 应取第50百分位，实际 ${medium}`);
+        assert(urgent === 1_280_000, `URGENT 应取第95百分位，实际 ${urgent}`);
+        assert(low < medium && medium < urgent, "优先级越高单价越高");
+        assert(calls.fees === 1, "有效期内同一组账户应使用缓存");
+        assert(calls.lockedAccounts.length === 2, "查询时应对可写账户去重");
+
+        const { connection: quiet } = feeConnection([0, 0, 0]);
+        const floor = await new PriorityFeeEstimator(quiet).estimate([PAYER], SwapPriority.HIGH);
+        assert(floor === COMPUTE_BUDGET_CONFIG.MIN_PRIORITY_FEE_MICRO_LAMPORTS, "单价不应低于下限");
+
+        const { connection: congested } = feeConnection([100_000_000]);
+        const ceiling = await new PriorityFeeEstimator(congested).estimate([PAYER], SwapPriority.URGENT);
+        assert(ceiling === COMPUTE_BUDGET_CONFIG.MAX_PRIORITY_FEE_MICRO_LAMPORTS, "单价不应超过上限");
+
+        console.log("✅ 优先费百分位测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 优先费百分位测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 模拟测量CU测试
+ */
+async function testSimulatedUnitLimit() {
+    console.log("\n🧪 开始模拟测量CU测试...");
+
+    try {
+        const { connection, calls } = feeConnection([50000], 100000);
+        const manager = new ComputeBudgetManager(connection);
+        const instructions = [
+            ComputeBudgetProgram.setComputeUnitLimit({ units: 200000 }),
+            buildSwapInstruction()
+        ];
+
+        const result = await manager.apply(instructions, PAYER, { priority: SwapPriority.HIGH });
+
+        assert(calls.simulations === 1, "应模拟一次交易");
+        assert(result.simulatedUnits === 100000, "应记录模拟测得的CU");
+        assert(result.unitLimit === 110000, "CU上限应为模拟值加10%余量");
+        assert(result.unitPrice === 50000, "应使用估算的优先费单价");
+        assert(result.priorityFeeLamports === Math.ceil(result.unitLimit * 50000 / 1_000_000), "优先费应按CU上限计算");
+
+        const budgetInstructions = result.instructions.filter(ix => ix.programId.equals(ComputeBudgetProgram.programId));
+        assert(budgetInstructions.length === 2, "原有的计算预算指令应被替换");
+        assert(result.instructions.length === 3, "应保留交换指令");
+        assert(
+            ComputeBudgetInstruction.decodeSetComputeUnitLimit(result.instructions[0]).units === result.unitLimit,
+            "第一个指令应设置CU上限"
+        );
+        assert(
+            Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(result.instructions[1]).microLamports) === result.unitPrice,
+            "第二个指令应设置优先费单价"
+        );
+
+        console.log("✅ 模拟测量CU测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 模拟测量CU测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 模拟失败回退测试
+ */
+async function testSimulationFallback() {
+    console.log("\n🧪 开始模拟失败回退测试...");
+
+    try {
+        const { connection } = feeConnection([50000]);
+        const manager = new ComputeBudgetManager(connection);
+
+        const result = await manager.apply([buildSwapInstruction()], PAYER, { fallbackUnits: 150000 });
+        assert(result.simulatedUnits === null, "模拟失败时不应记录测得的CU");
+        assert(result.unitLimit === 165000, "应使用预估CU加余量");
+
+        const unbounded = await manager.apply([buildSwapInstruction()], PAYER);
+        assert(unbounded.unitLimit === COMPUTE_BUDGET_CONFIG.MAX_CU_LIMIT, "没有预估值时应使用CU上限");
+
+        console.log("✅ 模拟失败回退测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 模拟失败回退测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * RPC 错误回退测试
+ */
+async function testRpcFailures() {
+    console.log("\n🧪 开始 RPC 错误回退测试...");
+
+    try {
+        let feeQueries = 0;
+        const connection = mockConnection(new Map(), {
+            getRecentPrioritizationFees: async () => {
+                feeQueries++;
+                throw new Error("429 Too Many Requests");
+            },
+            simulateTransaction: async () => {
+                throw new Error("fetch failed");
+            }
+        });
+
+        const estimator = new PriorityFeeEstimator(connection);
+        const price = await estimator.estimate([PAYER], SwapPriority.URGENT);
+        assert(price === COMPUTE_BUDGET_CONFIG.DEFAULT_PRIORITY_FEE_MICRO_LAMPORTS, "查询优先费失败时应使用默认单价");
+        await estimator.estimate([PAYER], SwapPriority.URGENT);
+        assert(feeQueries === 2, "查询失败的结果不应缓存");
+
+        const result = await new ComputeBudgetManager(connection).apply([buildSwapInstruction()], PAYER, { fallbackUnits: 150000 });
+        assert(result.simulatedUnits === null && result.unitLimit === 165000, "模拟请求出错时应使用预估CU加余量");
+        assert(result.unitPrice === COMPUTE_BUDGET_CONFIG.DEFAULT_PRIORITY_FEE_MICRO_LAMPORTS, "应使用默认优先费单价");
+
+        console.log("✅ RPC 错误回退测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ RPC 错误回退测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 测得CU设置测试
+ */
+async function testMeasuredUnits() {
+    console.log("\n🧪 开始测得CU设置测试...");
+
+    try {
+        const { connection, calls } = feeConnection([50000], 100000);
+        const manager = new ComputeBudgetManager(connection);
+
+        const skipped = await manager.apply([buildSwapInstruction()], PAYER, { fallbackUnits: 150000, skipSimulation: true });
+        assert(calls.simulations === 0, "跳过模拟时不应模拟交易");
+        assert(skipped.simulatedUnits === null && skipped.unitLimit === COMPUTE_BUDGET_CONFIG.MAX_CU_LIMIT,
+            "跳过模拟时应使用CU上限而不是预估CU");
+
+        const advance = SystemProgram.nonceAdvance({ noncePubkey: Keypair.generate().publicKey, authorizedPubkey: PAYER });
+        const measured = manager.applyMeasuredUnits([advance, ...skipped.instructions], 200000, skipped.unitPrice);
+        assert(measured.simulatedUnits === 200000 && measured.unitLimit === 220000, "CU上限应为测得的CU加10%余量");
+        assert(measured.unitPrice === skipped.unitPrice, "优先费单价不应改变");
+        assert(measured.priorityFeeLamports === Math.ceil(220000 * 50000 / 1_000_000), "优先费应按新的CU上限计算");
+        assert(measured.instructions.length === 4 && measured.instructions[0] === advance, "nonce advance 指令应保持在第一位");
+        assert(ComputeBudgetInstruction.decodeSetComputeUnitLimit(measured.instructions[1]).units === 220000,
+            "计算预算指令应留在原位置");
+
+        let rejected = false;
+        try {
+            manager.applyMeasuredUnits([buildSwapInstruction()], 200000, 50000);
+        } catch (error) {
+            rejected = true;
+        }
+        assert(rejected, "没有计算预算指令时应拒绝");
+
+        console.log("✅ 测得CU设置测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 测得CU设置测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("计算预算与优先费", [
+        testPriorityFeePercentiles,
+        testSimulatedUnitLimit,
+        testSimulationFallback,
+        testRpcFailures,
+        testMeasuredUnits
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testPriorityFeePercentiles,
+    testSimulatedUnitLimit,
+    testSimulationFallback,
+    testRpcFailures,
+    testMeasuredUnits,
+    runAllTests
+};
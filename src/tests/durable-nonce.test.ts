@@ -0,0 +1,230 @@
+import {
+    Connection,
+    Keypair,
+    NonceAccount,
+    PublicKey,
+    SystemProgram,
+    TransactionExpiredNonceInvalidError,
+    TransactionMessage,
+    VersionedTransaction
+} from "@solana/web3.js";
+
+import { NonceAccountManager } from "../core/transaction/nonce-account-manager";
+import { TransactionAssembler } from "../core/transaction/transaction-assembler";
+import { TransactionSender } from "../core/transaction/transaction-sender";
+import { BlockhashManager } from "../core/transaction/blockhash-manager";
+import { KeypairSigner } from "../core/signer/keypair-signer";
+import { NonceInfo } from "../types/transaction/transaction-types";
+import { getDurableNonceAccount } from "../utils/transaction/transaction-utils";
+import { assert, captureError, runTestSuite } from "./test-helpers";
+
+/**
+ * durable nonce 测试套件
+ *
+ * 使用模拟的 RPC 连接，不需要网络:
+ * 1. nonce 账户创建、推进和查询，账户不存在或管理交易执行失败时抛错
+ * 2. 基于 nonce 组装交易 (推进指令在首位，nonce 作为区块哈希)
+ * 3. durable nonce 交易的发送结果 (落地、nonce 已推进、节点拒绝)
+ */
+
+const PAYER = Keypair.generate();
+
+/**
+ * 构建模拟的 nonce 账户状态
+ */
+function buildNonceAccount(authority: PublicKey): NonceAccount {
+    return {
+        authorizedPubkey: authority,
+        nonce: Keypair.generate().publicKey.toBase58(),
+        feeCalculator: { lamportsPerSignature: 5000 }
+    } as NonceAccount;
+}
+
+/**
+ * 构建模拟 nonce 账户的 RPC 连接
+ * 每次发送交易后生成新的 nonce
+ * @param authority nonce 授权者
+ * @param executionError 确认时返回的交易执行错误
+ */
+function mockConnection(authority: PublicKey = PAYER.publicKey, executionError: unknown = null) {
+    const calls = { sends: 0, confirms: 0 };
+    let nonceAccount: NonceAccount | null = null;
+
+    const connection = {
+        getMinimumBalanceForRentExemption: async () => 1_447_680,
+        getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 250 }),
+        getNonceAndContext: async () => ({ context: { slot: 77 }, value: nonceAccount }),
+        sendRawTransaction: async () => {
+            calls.sends++;
+            nonceAccount = buildNonceAccount(authority);
+            return 'signature';
+        },
+        confirmTransaction: async () => {
+            calls.confirms++;
+            return { context: { slot: 78 }, value: { err: executionError } };
+        }
+    } as unknown as Connection;
+
+    return { connection, calls };
+}
+
+/**
+ * 构建已签名的 durable nonce 交易
+ */
+function buildDurableTransaction(nonce: NonceInfo): VersionedTransaction {
+    const message = new TransactionMessage({
+        payerKey: PAYER.publicKey,
+        recentBlockhash: nonce.nonce,
+        instructions: [
+            SystemProgram.nonceAdvance({ noncePubkey: nonce.nonceAccount, authorizedPubkey: nonce.authority }),
+            SystemProgram.transfer({ fromPubkey: PAYER.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1000 })
+        ]
+    }).compileToV0Message();
+    const transaction = new VersionedTransaction(message);
+    transaction.sign([PAYER]);
+    return transaction;
+}
+
+/**
+ * nonce 账户管理测试
+ */
+async function testNonceAccountManagement() {
+    console.log("\n🧪 开始 nonce 账户管理测试...");
+
+    try {
+        const { connection, calls } = mockConnection();
+        const manager = new NonceAccountManager(connection);
+
+        const missing = await captureError(() => manager.getNonce(Keypair.generate().publicKey));
+        assert(missing.includes("nonce 账户不存在或未初始化"), "nonce 账户不存在时应抛错");
+
+        const signer = new KeypairSigner(PAYER);
+        const created = await manager.createNonceAccount(signer);
+        assert(calls.sends === 1, "创建应发送一笔交易");
+
+        const info = await manager.getNonce(created.nonceAccount);
+        assert(info.nonce === created.nonce, "查询结果应与创建时的 nonce 一致");
+        assert(info.authority.equals(PAYER.publicKey), "授权者默认为 payer");
+        assert(info.slot === 77, "应记录查询所在的 slot");
+
+        const advanced = await manager.advanceNonce(created.nonceAccount, signer);
+        assert(calls.sends === 2, "推进应发送一笔交易");
+        assert(advanced.nonce !== created.nonce, "推进后 nonce 应变化");
+
+        // 管理交易执行失败时不返回 nonce
+        const { connection: failing } = mockConnection(PAYER.publicKey, { InstructionError: [1, { Custom: 0 }] });
+        const rejected = await captureError(() => new NonceAccountManager(failing).createNonceAccount(signer));
+        assert(rejected.includes("nonce 管理交易执行失败"), "管理交易执行失败时应抛错");
+
+        console.log("✅ nonce 账户管理测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ nonce 账户管理测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 基于 nonce 组装交易测试
+ */
+async function testAssembleWithNonce() {
+    console.log("\n🧪 开始基于 nonce 组装交易测试...");
+
+    try {
+        const nonce: NonceInfo = {
+            nonceAccount: Keypair.generate().publicKey,
+            nonce: Keypair.generate().publicKey.toBase58(),
+            authority: PAYER.publicKey,
+            slot: 77
+        };
+        const assembler = new TransactionAssembler({} as Connection);
+        const transfer = SystemProgram.transfer({ fromPubkey: PAYER.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1000 });
+
+        const assembled = await assembler.assemble([transfer], PAYER.publicKey, { nonce });
+        assert(assembled.recentBlockhash === nonce.nonce, "应使用 nonce 作为区块哈希");
+        assert(assembled.lastValidBlockHeight === undefined, "durable nonce 交易没有最后有效区块高度");
+        assert(assembled.durableNonce === nonce, "应记录使用的 nonce");
+        assert(assembled.transaction.message.compiledInstructions.length === 2, "应在交换指令前插入推进指令");
+
+        const nonceAccount = getDurableNonceAccount(assembled.transaction);
+        assert(nonceAccount?.equals(nonce.nonceAccount) === true, "第一个指令应推进指定的 nonce 账户");
+
+        const regular = assembler.compile([transfer], PAYER.publicKey, nonce.nonce);
+        assert(getDurableNonceAccount(regular.transaction) === null, "普通交易不应识别为 durable nonce 交易");
+
+        console.log("✅ 基于 nonce 组装交易测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 基于 nonce 组装交易测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * durable nonce 交易发送测试
+ */
+async function testSendDurableTransaction() {
+    console.log("\n🧪 开始 durable nonce 交易发送测试...");
+
+    try {
+        const nonce: NonceInfo = {
+            nonceAccount: Keypair.generate().publicKey,
+            nonce: Keypair.generate().publicKey.toBase58(),
+            authority: PAYER.publicKey,
+            slot: 77
+        };
+        const transaction = buildDurableTransaction(nonce);
+
+        const { connection, calls } = mockConnection();
+        const sender = new TransactionSender(connection, new BlockhashManager(connection));
+
+        const landed = await sender.sendDurableAndConfirm(transaction, nonce);
+        assert(landed.outcome === 'landed' && landed.slot === 78, `应落地，实际 ${landed.outcome}`);
+
+        const advanced = await sender.sendDurableAndConfirm(transaction, { ...nonce, nonce: Keypair.generate().publicKey.toBase58() });
+        assert(advanced.outcome === 'expired' && advanced.broadcasts === 0, "nonce 已推进时不应发送");
+        assert(calls.sends === 1, "nonce 已推进时不应广播");
+
+        Object.assign(connection, {
+            confirmTransaction: async () => { throw new TransactionExpiredNonceInvalidError(landed.signature); }
+        });
+        const expired = await sender.sendDurableAndConfirm(transaction, nonce);
+        assert(expired.outcome === 'expired', "确认前 nonce 被推进应标记为 expired");
+
+        Object.assign(connection, { sendRawTransaction: async () => { throw new Error('Blockhash not found'); } });
+        const dropped = await sender.sendDurableAndConfirm(transaction, nonce);
+        assert(dropped.outcome === 'dropped' && dropped.error === 'Blockhash not found', "节点拒绝时应标记为 dropped");
+
+        console.log("✅ durable nonce 交易发送测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ durable nonce 交易发送测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("durable nonce", [
+        testNonceAccountManagement,
+        testAssembleWithNonce,
+        testSendDurableTransaction
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testNonceAccountManagement,
+    testAssembleWithNonce,
+    testSendDurableTransaction,
+    runAllTests
+};
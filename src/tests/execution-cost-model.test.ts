@@ -0,0 +1,170 @@
+import { NATIVE_MINT } from "@solana/spl-token";
+import BN from "bn.js";
+
+import { ExecutionCostModel } from "../core/aggregator/execution-cost-model";
+import { QuotePriceSource } from "../core/aggregator/price-source";
+import { EXECUTION_COST_CONFIG } from "../config/dex-config";
+import { DEXProtocol, DEXQuote, PriceSource } from "../types/dex/protocol";
+import { USDC_MINT, assert, buildQuote, runTestSuite } from "./test-helpers";
+
+/**
+ * 执行成本模型测试套件
+ *
+ * 纯内存测试，不需要网络:
+ * 1. 成本明细与净输出计算
+ * 2. 按净输出排序时高CU报价可能落后
+ * 3. 基于报价的价格源 (缓存、可信度过滤)
+ */
+
+/** 1 lamport = 0.15 USDC_MINT 最小单位 (即 1 SOL = 150 USDC_MINT) */
+const SOL_PRICE = 0.15;
+
+/**
+ * 构建报价
+ */
+function quoteOf(dexName: string, outputAmount: number, estimatedGas: number, confidence: number = 0.95): DEXQuote {
+    return buildQuote({
+        dexName,
+        inputAmount: new BN(1_000_000_000),
+        outputAmount: new BN(outputAmount),
+        fee: new BN(3_000_000),
+        estimatedGas,
+        confidence
+    });
+}
+
+/**
+ * 固定价格源
+ */
+const fixedPriceSource: PriceSource = {
+    getSolPrice: async () => SOL_PRICE
+};
+
+/**
+ * 成本明细测试
+ */
+async function testCostBreakdown() {
+    console.log("\n🧪 开始成本明细测试...");
+
+    try {
+        const model = new ExecutionCostModel(fixedPriceSource);
+        const quote = quoteOf("Orca", 150_000_000, 200_000);
+        const solPrice = await model.getSolPrice(USDC_MINT);
+
+        const cost = model.estimate(quote, solPrice, { newTokenAccounts: 1, includeTip: true });
+        const expectedPriority = 200_000 * EXECUTION_COST_CONFIG.PRIORITY_FEE_MICRO_LAMPORTS_PER_CU / 1_000_000;
+        const expectedLamports = EXECUTION_COST_CONFIG.BASE_FEE_LAMPORTS + expectedPriority
+            + EXECUTION_COST_CONFIG.TOKEN_ACCOUNT_RENT_LAMPORTS + EXECUTION_COST_CONFIG.JITO_TIP_LAMPORTS;
+
+        assert(cost.priorityFeeLamports.eqn(expectedPriority), "优先费应按CU计算");
+        assert(cost.totalCostLamports.eqn(expectedLamports), "SOL成本合计不正确");
+        assert(cost.totalCost.eqn(Math.ceil(expectedLamports * SOL_PRICE)), "成本应按价格折算为输出代币");
+        assert(cost.netOutputAmount.eq(quote.outputAmount.sub(cost.totalCost)), "净输出应扣除折算后的成本");
+        assert(cost.dexFee.eqn(450_000), "手续费应按成交价折算为输出代币");
+
+        const unpriced = model.estimate(quote, null);
+        assert(unpriced.totalCost.isZero() && unpriced.netOutputAmount.eq(quote.outputAmount), "无价格时净输出应等于输出金额");
+
+        console.log("✅ 成本明细测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 成本明细测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 净输出排序测试
+ */
+async function testNetRanking() {
+    console.log("\n🧪 开始净输出排序测试...");
+
+    try {
+        const model = new ExecutionCostModel(fixedPriceSource, { ...EXECUTION_COST_CONFIG, PRIORITY_FEE_MICRO_LAMPORTS_PER_CU: 1_000_000 });
+
+        // 原始输出多 1000，但多消耗 200k CU (0.2 SOL 优先费 × 0.15 = 30000)
+        const heavy = quoteOf("Heavy", 150_001_000, 400_000);
+        const light = quoteOf("Light", 150_000_000, 200_000);
+
+        const heavyCost = model.estimate(heavy, SOL_PRICE);
+        const lightCost = model.estimate(light, SOL_PRICE);
+        assert(heavy.outputAmount.gt(light.outputAmount), "原始输出应为 Heavy 更高");
+        assert(lightCost.netOutputAmount.gt(heavyCost.netOutputAmount), "扣除执行成本后应为 Light 更优");
+
+        console.log("✅ 净输出排序测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 净输出排序测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 价格源测试
+ */
+async function testQuotePriceSource() {
+    console.log("\n🧪 开始价格源测试...");
+
+    try {
+        let calls = 0;
+        const protocol = (name: string, outputAmount: number, confidence: number): DEXProtocol => ({
+            name,
+            programId: NATIVE_MINT,
+            getQuote: async (tokenA, tokenB, amount) => {
+                calls++;
+                return { ...quoteOf(name, outputAmount, 150_000, confidence), inputAmount: amount, route: [tokenA, tokenB] };
+            },
+            buildSwapInstruction: async () => { throw new Error("不应构建指令"); }
+        });
+
+        // 低可信度 (模拟数据) 的更高报价不参与定价
+        const source = new QuotePriceSource(() => [
+            protocol("Real", 15_000_000, 0.95),
+            protocol("Mock", 20_000_000, 0.7)
+        ]);
+
+        assert(await source.getSolPrice(NATIVE_MINT) === 1, "SOL 自身价格应为 1");
+        assert(calls === 0, "SOL 定价不应询价");
+
+        const price = await source.getSolPrice(USDC_MINT);
+        assert(price === 15_000_000 / EXECUTION_COST_CONFIG.PRICE_REFERENCE_LAMPORTS, "应使用可信报价定价");
+
+        await source.getSolPrice(USDC_MINT);
+        assert(calls === 2, "有效期内应使用缓存的价格");
+
+        const failing = new ExecutionCostModel(new QuotePriceSource(() => []));
+        assert(await failing.getSolPrice(USDC_MINT) === null, "无法定价时应返回 null");
+
+        console.log("✅ 价格源测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 价格源测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("执行成本模型", [
+        testCostBreakdown,
+        testNetRanking,
+        testQuotePriceSource
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testCostBreakdown,
+    testNetRanking,
+    testQuotePriceSource,
+    runAllTests
+};
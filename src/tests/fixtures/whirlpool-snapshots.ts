@@ -0,0 +1,149 @@
+import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+
+import {
+    NO_TOKEN_EXTENSION_CONTEXT,
+    PDAUtil,
+    TICK_ARRAY_SIZE,
+    TickArray,
+    TickData,
+    WhirlpoolData
+} from "@orca-so/whirlpools-sdk";
+
+import { ORCA_SPECIFIC_CONFIG } from "../../config/dex-config";
+import { WhirlpoolSnapshot } from "../../protocols/orca/whirlpool-quote-engine";
+
+/**
+ * Whirlpool 报价测试夹具
+ *
+ * 以已解码账户的形式描述池子快照，不依赖网络:
+ * - 价格 1:1 (tick 0)，tick spacing 64，手续费 0.3%
+ * - 基础流动性覆盖全部已加载的 tick arrays
+ * - 可选的集中仓位在 [tickLower, tickUpper) 区间内叠加额外流动性
+ */
+
+/** 固定的夹具地址，保证 tick array PDA 可复现 */
+export const FIXTURE_POOL_ADDRESS = new PublicKey("7qbRF6YsyGuLUVs6Y1q64bdVrfe4ZcUUz1JRdoVNUJnm");
+export const FIXTURE_MINT_A = new PublicKey("So11111111111111111111111111111111111111112");
+export const FIXTURE_MINT_B = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
+
+/** 1.0 的 sqrt 价格 (X64) */
+export const SQRT_PRICE_ONE = new BN(1).shln(64);
+
+/** 夹具池子的手续费率 (百万分之一) */
+export const FIXTURE_FEE_RATE = 3000;
+
+/** 夹具池子的 tick spacing */
+export const FIXTURE_TICK_SPACING = 64;
+
+/**
+ * 集中仓位
+ */
+export interface FixturePosition {
+    /** 下边界tick */
+    tickLower: number;
+
+    /** 上边界tick */
+    tickUpper: number;
+
+    /** 流动性 */
+    liquidity: BN;
+}
+
+/**
+ * 构建未初始化的tick
+ */
+function emptyTick(): TickData {
+    return {
+        initialized: false,
+        liquidityNet: new BN(0),
+        liquidityGross: new BN(0),
+        feeGrowthOutsideA: new BN(0),
+        feeGrowthOutsideB: new BN(0),
+        rewardGrowthsOutside: [new BN(0), new BN(0), new BN(0)]
+    };
+}
+
+/**
+ * 构建夹具池子快照
+ * @param baseLiquidity 覆盖全部区间的基础流动性
+ * @param positions 叠加的集中仓位 (需包含当前tick)
+ * @returns 池子快照
+ */
+export function buildWhirlpoolSnapshot(
+    baseLiquidity: BN,
+    positions: FixturePosition[] = []
+): WhirlpoolSnapshot {
+    const programId = ORCA_SPECIFIC_CONFIG.WHIRLPOOL_PROGRAM_ID;
+    const ticksPerArray = FIXTURE_TICK_SPACING * TICK_ARRAY_SIZE;
+
+    // 当前tick两侧各两个 tick array，覆盖两个方向的交换
+    const tickArrays: TickArray[] = [-2, -1, 0, 1, 2].map(offset => {
+        const startTickIndex = offset * ticksPerArray;
+        return {
+            address: PDAUtil.getTickArray(programId, FIXTURE_POOL_ADDRESS, startTickIndex).publicKey,
+            startTickIndex,
+            data: {
+                whirlpool: FIXTURE_POOL_ADDRESS,
+                startTickIndex,
+                ticks: Array.from({ length: TICK_ARRAY_SIZE }, emptyTick)
+            }
+        };
+    });
+
+    const setTick = (tickIndex: number, liquidityNet: BN, liquidityGross: BN) => {
+        const tickArray = tickArrays.find(t =>
+            tickIndex >= t.startTickIndex && tickIndex < t.startTickIndex + ticksPerArray)!;
+        const tick = tickArray.data!.ticks[(tickIndex - tickArray.startTickIndex) / FIXTURE_TICK_SPACING];
+        tick.initialized = true;
+        tick.liquidityNet = tick.liquidityNet.add(liquidityNet);
+        tick.liquidityGross = tick.liquidityGross.add(liquidityGross);
+    };
+
+    let liquidity = baseLiquidity;
+    for (const position of positions) {
+        setTick(position.tickLower, position.liquidity, position.liquidity);
+        setTick(position.tickUpper, position.liquidity.neg(), position.liquidity);
+        liquidity = liquidity.add(position.liquidity);
+    }
+
+    const rewardInfo = {
+        mint: PublicKey.default,
+        vault: PublicKey.default,
+        authority: PublicKey.default,
+        emissionsPerSecondX64: new BN(0),
+        growthGlobalX64: new BN(0)
+    };
+
+    const whirlpool: WhirlpoolData = {
+        whirlpoolsConfig: ORCA_SPECIFIC_CONFIG.WHIRLPOOLS_CONFIGS[0],
+        whirlpoolBump: [255],
+        feeRate: FIXTURE_FEE_RATE,
+        protocolFeeRate: 300,
+        liquidity,
+        sqrtPrice: SQRT_PRICE_ONE,
+        tickCurrentIndex: 0,
+        protocolFeeOwedA: new BN(0),
+        protocolFeeOwedB: new BN(0),
+        tokenMintA: FIXTURE_MINT_A,
+        tokenVaultA: PublicKey.default,
+        feeGrowthGlobalA: new BN(0),
+        tokenMintB: FIXTURE_MINT_B,
+        tokenVaultB: PublicKey.default,
+        feeGrowthGlobalB: new BN(0),
+        rewardLastUpdatedTimestamp: new BN(0),
+        rewardInfos: [rewardInfo, rewardInfo, rewardInfo],
+        tickSpacing: FIXTURE_TICK_SPACING,
+        feeTierIndexSeed: [FIXTURE_TICK_SPACING, 0]
+    };
+
+    return {
+        address: FIXTURE_POOL_ADDRESS,
+        whirlpool,
+        tickArrays,
+        oracle: null,
+        tokenExtensionCtx: NO_TOKEN_EXTENSION_CONTEXT,
+        slot: 1,
+        fetchedAt: 1_700_000_000_000
+    };
+}
@@ -1,4 +1,5 @@
 import { EnhancedJitoClient } from '../core/jito/jito-client'
+import { KeypairSigner } from '../core/signer/keypair-signer'
 import { Keypair } from '@solana/web3.js'
 
 /**
@@ -16,7 +17,7 @@ async function testJitoClient() {
         // 2. 初始化客户端(开发环境)
         const jitoClient = new EnhancedJitoClient(
             { network: 'devnet' },
-            testWallet
+            new KeypairSigner(testWallet)
         )
         console.log('✅ Jito 客户端初始化成功')
 
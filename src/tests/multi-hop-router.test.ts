@@ -0,0 +1,279 @@
+import { Keypair, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import BN from "bn.js";
+
+import { RouteGraph } from "../core/aggregator/route-graph";
+import { MultiHopRouter } from "../core/aggregator/multi-hop-router";
+import { ROUTE_SEARCH_CONFIG } from "../config/dex-config";
+import { calculateMinimumOutputAmount } from "../utils/token/token-utils";
+import { DEXProtocol, DEXQuote } from "../types/dex/protocol";
+import { assert, buildQuote, runTestSuite } from "./test-helpers";
+
+/**
+ * 多跳路由测试套件
+ *
+ * 纯内存测试，不需要网络:
+ * 1. 路由图路径搜索 (跳数上限、不重复经过代币、不含直接路径)
+ * 2. 池子探测 (每个代币对只探测一次，失败后重试)
+ * 3. 链式报价 (下一跳输入为上一跳的最小输出) 与最优路径选择
+ * 4. 单跳过滤 (低可信度、零输出、报价失败)
+ */
+
+const SOL = Keypair.generate().publicKey;
+const USDC = Keypair.generate().publicKey;
+const USDT = Keypair.generate().publicKey;
+const BONK = Keypair.generate().publicKey;
+
+const SLIPPAGE = 0.01;
+const AMOUNT = new BN(1_000_000_000);
+
+/**
+ * 生成与方向有关的代币对键
+ */
+function pairKey(tokenA: PublicKey, tokenB: PublicKey): string {
+    return `${tokenA.toBase58()}:${tokenB.toBase58()}`;
+}
+
+/**
+ * 构建按固定兑换率报价的模拟协议
+ * @param name 协议名称
+ * @param rates 代币对 → 输出/输入兑换率 (两个方向分别设置)
+ * @param confidence 报价可信度
+ */
+function mockProtocol(name: string, rates: [PublicKey, PublicKey, number][], confidence: number = 0.95) {
+    const rateByPair = new Map(rates.map(([tokenA, tokenB, rate]) => [pairKey(tokenA, tokenB), rate] as [string, number]));
+    const findPoolCalls: string[] = [];
+
+    const protocol: DEXProtocol = {
+        name,
+        programId: Keypair.generate().publicKey,
+        getQuote: async (tokenA, tokenB, amount, slippage): Promise<DEXQuote> => {
+            const rate = rateByPair.get(pairKey(tokenA, tokenB));
+            if (rate === undefined) {
+                throw new Error("池子不存在");
+            }
+            return buildQuote({
+                dexName: name,
+                inputAmount: amount,
+                outputAmount: new BN(Math.floor(amount.toNumber() * rate)),
+                fee: new BN(0),
+                route: [tokenA, tokenB],
+                confidence,
+                slippage
+            });
+        },
+        buildSwapInstruction: async () => new TransactionInstruction({ programId: protocol.programId, keys: [], data: Buffer.alloc(0) }),
+        findPool: async (tokenA, tokenB) => {
+            findPoolCalls.push(pairKey(tokenA, tokenB));
+            const exists = rateByPair.has(pairKey(tokenA, tokenB)) || rateByPair.has(pairKey(tokenB, tokenA));
+            return exists ? Keypair.generate().publicKey : null;
+        }
+    };
+
+    return { protocol, findPoolCalls };
+}
+
+/**
+ * 构建已知池子
+ */
+function knownPool(tokenA: PublicKey, tokenB: PublicKey, dexName: string = "Mock") {
+    return { address: Keypair.generate().publicKey, tokenA, tokenB, dexName };
+}
+
+/**
+ * 路径搜索测试
+ */
+async function testFindPaths() {
+    console.log("\n🧪 开始路径搜索测试...");
+
+    try {
+        const direct = knownPool(SOL, BONK);
+        const graph = new RouteGraph([
+            knownPool(SOL, USDC),
+            knownPool(USDC, BONK),
+            knownPool(SOL, USDT),
+            knownPool(USDT, USDC),
+            direct
+        ]);
+
+        // 重复的池子不会增加边
+        graph.addEdge({ tokenA: direct.tokenA, tokenB: direct.tokenB, poolAddress: direct.address, dexName: "Mock" });
+        assert(graph.getEdges(SOL, BONK).length === 1, "重复的池子应被忽略");
+        assert(graph.getEdges(BONK, SOL).length === 1, "边应是无向的");
+
+        const paths = graph.findPaths(SOL, BONK, 3);
+        const keys = paths.map(path => path.map(token => token.toBase58()).join('>'));
+        assert(paths.every(path => path.length >= 3), "不应包含直接路径");
+        assert(keys.includes([SOL, USDC, BONK].map(t => t.toBase58()).join('>')), "应找到 2 跳路径");
+        assert(keys.includes([SOL, USDT, USDC, BONK].map(t => t.toBase58()).join('>')), "应找到 3 跳路径");
+        assert(paths.every((path, i) => i === 0 || paths[i - 1].length <= path.length), "路径应按跳数升序排列");
+        assert(paths.every(path => new Set(path.map(t => t.toBase58())).size === path.length), "路径不应重复经过同一代币");
+
+        const twoHop = graph.findPaths(SOL, BONK, 2);
+        assert(twoHop.length > 0 && twoHop.every(path => path.length === 3), "跳数上限为 2 时只返回 2 跳路径");
+
+        assert(graph.findPaths(SOL, Keypair.generate().publicKey, 3).length === 0, "不连通的代币应没有路径");
+
+        console.log("✅ 路径搜索测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 路径搜索测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 池子探测测试
+ */
+async function testDiscover() {
+    console.log("\n🧪 开始池子探测测试...");
+
+    try {
+        const graph = new RouteGraph();
+        const orca = mockProtocol("Orca", [[SOL, USDC, 150]]);
+        const noFindPool = mockProtocol("NoFindPool", [[SOL, USDC, 150]]);
+        delete noFindPool.protocol.findPool;
+
+        await graph.discover([[SOL, USDC], [USDC, BONK], [SOL, SOL]], [orca.protocol, noFindPool.protocol]);
+        assert(orca.findPoolCalls.length === 2, "相同代币的代币对不应探测");
+        assert(graph.getEdges(SOL, USDC).length === 1 && graph.getEdges(SOL, USDC)[0].dexName === "Orca",
+            "存在的池子应加入路由图");
+        assert(graph.getEdges(USDC, BONK).length === 0, "不存在的池子不应加入路由图");
+
+        // 已探测的代币对 (包括反方向和不存在的结果) 不再重复探测
+        await graph.discover([[USDC, SOL], [BONK, USDC]], [orca.protocol]);
+        assert(orca.findPoolCalls.length === 2, "已探测的代币对不应重复探测");
+
+        // 探测失败不记为已探测，下次重试
+        let attempts = 0;
+        const flaky = mockProtocol("Flaky", [[SOL, BONK, 0.5]]);
+        const findPool = flaky.protocol.findPool!;
+        flaky.protocol.findPool = async (tokenA, tokenB) => {
+            attempts++;
+            if (attempts === 1) {
+                throw new Error("网络错误");
+            }
+            return await findPool(tokenA, tokenB);
+        };
+
+        await graph.discover([[SOL, BONK]], [flaky.protocol]);
+        assert(graph.getEdges(SOL, BONK).length === 0, "探测失败时不应加入边");
+        await graph.discover([[SOL, BONK]], [flaky.protocol]);
+        assert(attempts === 2 && graph.getEdges(SOL, BONK).length === 1, "探测失败后应在下次重试");
+
+        console.log("✅ 池子探测测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 池子探测测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 链式报价测试
+ */
+async function testChainedQuotes() {
+    console.log("\n🧪 开始链式报价测试...");
+
+    try {
+        const orca = mockProtocol("Orca", [
+            [SOL, USDC, 150],
+            [USDC, BONK, 40],
+            [SOL, USDT, 150],
+            [USDT, BONK, 41]
+        ]);
+        const router = new MultiHopRouter(new RouteGraph(), { ...ROUTE_SEARCH_CONFIG, MAX_HOPS: 2 });
+
+        const hops = await router.findBestRoute([orca.protocol], SOL, BONK, AMOUNT, SLIPPAGE, [USDC, USDT, SOL]);
+        assert(hops !== null && hops.length === 2, "应返回 2 跳路由");
+        assert(hops![0].route[1].equals(USDT), "应选择最终输出更高的路径");
+
+        const firstHop = hops![0];
+        const secondHop = hops![1];
+        assert(firstHop.inputAmount.eq(AMOUNT), "第一跳输入应为总输入金额");
+        assert(secondHop.inputAmount.eq(calculateMinimumOutputAmount(firstHop.outputAmount, SLIPPAGE)),
+            "下一跳输入应为上一跳扣除滑点后的最小输出");
+        assert(secondHop.outputAmount.eq(secondHop.inputAmount.muln(41)), "最终输出应按链式输入报价");
+        assert(hops!.every(hop => hop.slippage === SLIPPAGE), "每一跳应使用请求的滑点");
+
+        // 枢纽只有两端代币时没有可用路由
+        assert(await router.findBestRoute([orca.protocol], SOL, BONK, AMOUNT, SLIPPAGE, [SOL, BONK]) === null,
+            "没有中间代币时应返回 null");
+
+        const disabled = new MultiHopRouter(new RouteGraph(), { ...ROUTE_SEARCH_CONFIG, ENABLED: false });
+        assert(await disabled.findBestRoute([orca.protocol], SOL, BONK, AMOUNT, SLIPPAGE, [USDC]) === null,
+            "禁用多跳路由时应返回 null");
+
+        console.log("✅ 链式报价测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 链式报价测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 单跳过滤测试
+ */
+async function testHopFilters() {
+    console.log("\n🧪 开始单跳过滤测试...");
+
+    try {
+        // 模拟报价 (低可信度) 不参与路由
+        const simulated = mockProtocol("Simulated", [[SOL, USDC, 150], [USDC, BONK, 40]], 0.5);
+        const lowConfidence = new MultiHopRouter(new RouteGraph());
+        assert(await lowConfidence.findBestRoute([simulated.protocol], SOL, BONK, AMOUNT, SLIPPAGE, [USDC]) === null,
+            "低可信度的单跳报价应被排除");
+
+        // 任一跳输出为零时整条路径不可用
+        const dust = mockProtocol("Dust", [[SOL, USDC, 150], [USDC, BONK, 0]]);
+        const zeroOutput = new MultiHopRouter(new RouteGraph());
+        assert(await zeroOutput.findBestRoute([dust.protocol], SOL, BONK, AMOUNT, SLIPPAGE, [USDC]) === null,
+            "零输出的单跳应使路径不可用");
+
+        // 同一条边上一个协议报价失败时使用另一个协议
+        const orca = mockProtocol("Orca", [[SOL, USDC, 150], [USDC, BONK, 40]]);
+        const broken = mockProtocol("Broken", [[SOL, USDC, 160], [USDC, BONK, 45]]);
+        const router = new MultiHopRouter(new RouteGraph());
+        broken.protocol.getQuote = async () => {
+            throw new Error("RPC 超时");
+        };
+
+        const hops = await router.findBestRoute([orca.protocol, broken.protocol], SOL, BONK, AMOUNT, SLIPPAGE, [USDC]);
+        assert(hops !== null && hops.every(hop => hop.dexName === "Orca"), "报价失败的协议应被跳过");
+
+        console.log("✅ 单跳过滤测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 单跳过滤测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("多跳路由", [
+        testFindPaths,
+        testDiscover,
+        testChainedQuotes,
+        testHopFilters
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testFindPaths,
+    testDiscover,
+    testChainedQuotes,
+    testHopFilters,
+    runAllTests
+};
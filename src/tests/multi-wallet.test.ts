@@ -0,0 +1,228 @@
+import { ConfirmedTransactionMeta, Keypair, VersionedTransaction } from "@solana/web3.js";
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from "@solana/spl-token";
+
+import { DEXAggregator } from "../core/aggregator/dex-aggregator";
+import { KeypairSigner } from "../core/signer/keypair-signer";
+import { SignerRegistry } from "../core/signer/signer-registry";
+import { WalletLedger } from "../core/account-manager/wallet-ledger";
+import { getLamportBalanceChange, getRequiredSigners, getTokenBalanceChange } from "../utils/transaction/transaction-utils";
+import { assert, buildQuote, buildRoute, mockConnection, mockSwapProtocol, runTestSuite } from "./test-helpers";
+
+/**
+ * 多钱包执行测试套件
+ *
+ * 使用模拟的 RPC 连接和协议，不需要网络:
+ * 1. 手续费支付者与代币所有者分离时的交易构建 (支付者、租金、签名者)
+ * 2. 签名者注册表按交易要求的签名者签名，缺少签名者时拒绝
+ * 3. 按钱包记录手续费和交换次数
+ * 4. 按已上链交易的余额变化计算代币所有者的实际收支
+ */
+
+const OWNER = Keypair.generate();
+const FEE_PAYER = Keypair.generate();
+const MINT_A = Keypair.generate().publicKey;
+const MINT_B = Keypair.generate().publicKey;
+const PROGRAM_ID = Keypair.generate().publicKey;
+
+/**
+ * 手续费支付者分离测试
+ */
+async function testFeePayerSeparation() {
+    console.log("\n🧪 开始手续费支付者分离测试...");
+
+    try {
+        const aggregator = new DEXAggregator(mockConnection(), [mockSwapProtocol(PROGRAM_ID)]);
+        const assembled = await aggregator.buildVersionedSwapTransaction(
+            buildRoute(buildQuote({ route: [MINT_A, MINT_B] })),
+            OWNER.publicKey,
+            MINT_A,
+            MINT_B,
+            { feePayer: FEE_PAYER.publicKey }
+        );
+
+        const { message } = assembled.transaction;
+        const signers = getRequiredSigners(assembled.transaction);
+        assert(message.staticAccountKeys[0].equals(FEE_PAYER.publicKey), "手续费支付者应为交易的第一个账户");
+        assert(signers.length === 2 && signers[1].equals(OWNER.publicKey), "交易应要求代币所有者共同签名");
+
+        const ataCreations = message.compiledInstructions.filter(instruction =>
+            message.staticAccountKeys[instruction.programIdIndex].equals(ASSOCIATED_TOKEN_PROGRAM_ID)
+        );
+        assert(ataCreations.length === 2, "应创建两个代币账户");
+        assert(ataCreations.every(instruction => message.staticAccountKeys[instruction.accountKeyIndexes[0]].equals(FEE_PAYER.publicKey)),
+            "代币账户租金应由手续费支付者支付");
+        assert(ataCreations.every(instruction => message.staticAccountKeys[instruction.accountKeyIndexes[2]].equals(OWNER.publicKey)),
+            "代币账户所有者应为交易子账户");
+
+        const single = await aggregator.buildVersionedSwapTransaction(buildRoute(buildQuote({ route: [MINT_A, MINT_B] })), OWNER.publicKey, MINT_A, MINT_B);
+        assert(getRequiredSigners(single.transaction).length === 1, "未指定手续费支付者时只需所有者签名");
+
+        console.log("✅ 手续费支付者分离测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 手续费支付者分离测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 签名者注册表测试
+ */
+async function testSignerRegistry() {
+    console.log("\n🧪 开始签名者注册表测试...");
+
+    try {
+        const aggregator = new DEXAggregator(mockConnection(), [mockSwapProtocol(PROGRAM_ID)]);
+        const build = async (): Promise<VersionedTransaction> => (await aggregator.buildVersionedSwapTransaction(
+            buildRoute(buildQuote({ route: [MINT_A, MINT_B] })),
+            OWNER.publicKey,
+            MINT_A,
+            MINT_B,
+            { feePayer: FEE_PAYER.publicKey }
+        )).transaction;
+
+        const registry = new SignerRegistry([new KeypairSigner(FEE_PAYER)]);
+        const unsigned = await build();
+        let rejected = false;
+        try {
+            await registry.signTransaction(unsigned);
+        } catch (error) {
+            rejected = String(error).includes(OWNER.publicKey.toBase58());
+        }
+        assert(rejected, "缺少代币所有者的签名者时应拒绝并指出缺少的账户");
+        assert(unsigned.signatures.every(signature => signature.every(byte => byte === 0)), "拒绝时不应部分签名");
+
+        registry.register(new KeypairSigner(OWNER));
+        const signed = await registry.signTransaction(await build());
+        assert(signed.signatures.every(signature => signature.some(byte => byte !== 0)), "应由所有要求的签名者签名");
+        signed.serialize();
+
+        console.log("✅ 签名者注册表测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 签名者注册表测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 钱包账本测试
+ */
+async function testWalletLedger() {
+    console.log("\n🧪 开始钱包账本测试...");
+
+    try {
+        const aggregator = new DEXAggregator(mockConnection(), [mockSwapProtocol(PROGRAM_ID)]);
+        const assembled = await aggregator.buildVersionedSwapTransaction(
+            buildRoute(buildQuote({ route: [MINT_A, MINT_B] })),
+            OWNER.publicKey,
+            MINT_A,
+            MINT_B,
+            { feePayer: FEE_PAYER.publicKey }
+        );
+
+        const ledger = new WalletLedger();
+        const fee = ledger.recordTransaction(assembled.transaction, assembled.computeBudget);
+        ledger.recordSwap(OWNER.publicKey);
+
+        const priorityFee = assembled.computeBudget?.priorityFeeLamports ?? 0;
+        assert(fee === 2 * 5000 + priorityFee, "手续费应为每个签名的基础费用加优先费");
+
+        const payer = ledger.get(FEE_PAYER.publicKey);
+        assert(payer.feesPaid === fee && payer.transactionsPaid === 1 && payer.swaps === 0, "手续费应记在手续费支付者名下");
+
+        const owner = ledger.get(OWNER.publicKey);
+        assert(owner.swaps === 1 && owner.feesPaid === 0, "交换次数应记在代币所有者名下");
+
+        ledger.recordAccountRent(FEE_PAYER.publicKey, OWNER.publicKey, assembled.accountRent!);
+        assert(assembled.accountRent!.paidLamports > 0 && ledger.get(FEE_PAYER.publicKey).rentPaid === assembled.accountRent!.paidLamports,
+            "新建代币账户的租金应记在手续费支付者名下");
+        assert(ledger.get(OWNER.publicKey).rentPaid === 0, "代币所有者不应支付租金");
+
+        ledger.recordTip(FEE_PAYER.publicKey, 10_000);
+        assert(ledger.get(FEE_PAYER.publicKey).tipsPaid === 10_000, "小费应记在小费支付者名下");
+
+        const unknown = ledger.get(Keypair.generate().publicKey);
+        assert(unknown.feesPaid === 0 && unknown.rentPaid === 0 && unknown.tipsPaid === 0, "未记录的钱包应返回零");
+        assert(ledger.getAll().length === 2, "应按钱包分别记录");
+
+        console.log("✅ 钱包账本测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 钱包账本测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 余额变化测试
+ */
+async function testBalanceChanges() {
+    console.log("\n🧪 开始余额变化测试...");
+
+    try {
+        const tokenBalance = (accountIndex: number, owner: string, mint: string, amount: string) =>
+            ({ accountIndex, owner, mint, uiTokenAmount: { amount, decimals: 6, uiAmount: null } });
+        const owner = OWNER.publicKey.toBase58();
+        const meta = {
+            fee: 10_000,
+            err: null,
+            preBalances: [5_000_000, 2_000_000, 0],
+            postBalances: [4_990_000, 2_500_000, 0],
+            preTokenBalances: [
+                tokenBalance(2, owner, MINT_A.toBase58(), "1000"),
+                tokenBalance(3, FEE_PAYER.publicKey.toBase58(), MINT_A.toBase58(), "700")
+            ],
+            // 输入账户转出部分金额，输出账户在本交易中新建
+            postTokenBalances: [
+                tokenBalance(2, owner, MINT_A.toBase58(), "400"),
+                tokenBalance(3, FEE_PAYER.publicKey.toBase58(), MINT_A.toBase58(), "0"),
+                tokenBalance(4, owner, MINT_B.toBase58(), "250")
+            ]
+        } as ConfirmedTransactionMeta;
+
+        assert(getTokenBalanceChange(meta, OWNER.publicKey, MINT_A) === BigInt(-600), "应只统计代币所有者名下的余额变化");
+        assert(getTokenBalanceChange(meta, OWNER.publicKey, MINT_B) === BigInt(250), "新建账户的交易前余额应按0计");
+        assert(getTokenBalanceChange(meta, FEE_PAYER.publicKey, MINT_B) === BigInt(0), "没有代币账户时余额变化应为0");
+
+        const accountKeys = [FEE_PAYER.publicKey, OWNER.publicKey, MINT_A];
+        assert(getLamportBalanceChange(meta, accountKeys, FEE_PAYER.publicKey) === BigInt(-10_000), "应按账户在交易中的位置计算 lamports 变化");
+        assert(getLamportBalanceChange(meta, accountKeys, OWNER.publicKey) === BigInt(500_000), "代币所有者的 lamports 变化不应包含手续费");
+        assert(getLamportBalanceChange(meta, accountKeys, Keypair.generate().publicKey) === BigInt(0), "不在交易中的账户变化应为0");
+
+        console.log("✅ 余额变化测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 余额变化测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("多钱包执行", [
+        testFeePayerSeparation,
+        testSignerRegistry,
+        testWalletLedger,
+        testBalanceChanges
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testFeePayerSeparation,
+    testSignerRegistry,
+    testWalletLedger,
+    testBalanceChanges,
+    runAllTests
+};
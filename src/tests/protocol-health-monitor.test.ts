@@ -0,0 +1,192 @@
+import { ProtocolHealthMonitor } from "../core/aggregator/protocol-health-monitor";
+import { CIRCUIT_BREAKER_CONFIG } from "../config/dex-config";
+import { assert, runTestSuite, sleep } from "./test-helpers";
+
+/**
+ * 协议熔断与健康评分测试套件
+ *
+ * 纯内存测试，不需要网络:
+ * 1. 连续失败熔断，到期半开，试探成功后恢复
+ * 2. 调用超时视为失败
+ * 3. 健康分随成功率和延迟变化
+ * 4. 交易对不支持、池子不存在等报价结果不计入失败，指令构建失败计入失败但不拦截构建
+ */
+
+/** 测试用协议名称 */
+const PROTOCOL = "Orca";
+
+/**
+ * 熔断与恢复测试
+ */
+async function testBreakerTripAndRecover() {
+    console.log("\n🧪 开始熔断与恢复测试...");
+
+    try {
+        const monitor = new ProtocolHealthMonitor({ ...CIRCUIT_BREAKER_CONFIG, FAILURE_THRESHOLD: 2, OPEN_DURATION_MS: 50 });
+        const fail = () => Promise.reject(new Error("failed to get account info: 503 Service Unavailable"));
+
+        for (let i = 0; i < 2; i++) {
+            await monitor.execute(PROTOCOL, fail).catch(() => undefined);
+        }
+        assert(monitor.getHealth(PROTOCOL).state === 'open', "连续失败达到阈值应熔断");
+        assert(!monitor.isAvailable(PROTOCOL), "熔断中不应可用");
+        assert(monitor.getHealth(PROTOCOL).healthScore === 0, "熔断中健康分应为 0");
+
+        let called = false;
+        await monitor.execute(PROTOCOL, async () => { called = true; }).catch(() => undefined);
+        assert(!called, "熔断中不应发起调用");
+
+        await sleep(80);
+        assert(monitor.getHealth(PROTOCOL).state === 'half-open', "熔断到期应显示为半开");
+
+        await monitor.execute(PROTOCOL, async () => 1);
+        const health = monitor.getHealth(PROTOCOL);
+        assert(health.state === 'closed', "半开试探成功应恢复闭合");
+        assert(health.consecutiveFailures === 0, "恢复后连续失败次数应清零");
+
+        console.log("✅ 熔断与恢复测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 熔断与恢复测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 调用超时测试
+ */
+async function testCallTimeout() {
+    console.log("\n🧪 开始调用超时测试...");
+
+    try {
+        const monitor = new ProtocolHealthMonitor({ ...CIRCUIT_BREAKER_CONFIG, CALL_TIMEOUT_MS: 20 });
+
+        const startTime = Date.now();
+        const error = await monitor.execute(PROTOCOL, () => sleep(200)).then(() => null, err => err);
+        assert(error instanceof Error && error.message.includes("超时"), "超时调用应抛出超时错误");
+        assert(Date.now() - startTime < 150, "超时不应等待原调用完成");
+
+        const health = monitor.getHealth(PROTOCOL);
+        assert(health.successRate === 0 && health.consecutiveFailures === 1, "超时应记为失败");
+
+        console.log("✅ 调用超时测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 调用超时测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 健康分测试
+ */
+async function testHealthScore() {
+    console.log("\n🧪 开始健康分测试...");
+
+    try {
+        const monitor = new ProtocolHealthMonitor({ ...CIRCUIT_BREAKER_CONFIG, HEALTH_WINDOW_SIZE: 4 });
+        assert(monitor.getHealth(PROTOCOL).healthScore === 1, "未调用过的协议应视为完全健康");
+
+        await monitor.execute(PROTOCOL, async () => 1);
+        await monitor.execute(PROTOCOL, () => Promise.reject(new Error("fetch failed"))).catch(() => undefined);
+        const health = monitor.getHealth(PROTOCOL);
+        assert(health.successRate === 0.5, "成功率应为 0.5");
+        assert(Math.abs(health.healthScore - 0.5) < 1e-9, "低延迟时健康分应等于成功率");
+        assert(health.lastError === "fetch failed", "应记录最近一次错误");
+
+        for (let i = 0; i < 4; i++) {
+            await monitor.execute(PROTOCOL, async () => 1);
+        }
+        assert(monitor.getHealth(PROTOCOL).sampleCount === 4, "滚动窗口应限制样本数量");
+        assert(monitor.getHealth(PROTOCOL).successRate === 1, "旧样本移出窗口后成功率应恢复");
+
+        monitor.reset(PROTOCOL);
+        assert(monitor.getHealth(PROTOCOL).sampleCount === 0, "重置后应清空统计");
+
+        console.log("✅ 健康分测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 健康分测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 失败分类测试
+ */
+async function testFailureClassification() {
+    console.log("\n🧪 开始失败分类测试...");
+
+    try {
+        const monitor = new ProtocolHealthMonitor({ ...CIRCUIT_BREAKER_CONFIG, FAILURE_THRESHOLD: 2 });
+        const unsupported = [
+            new Error("未找到Orca Whirlpool池子"),
+            new Error("Raydium AMM v4 不支持 Token-2022 代币: mint"),
+            new Error("已加载的tick arrays流动性不足，无法完成全部输入"),
+            Object.assign(new Error("Request failed with status code 400"), { response: { status: 400 } })
+        ];
+
+        for (const error of unsupported) {
+            const thrown = await monitor.execute(PROTOCOL, () => Promise.reject(error)).then(() => null, err => err);
+            assert(thrown === error, "报价结果应原样抛出");
+        }
+        let health = monitor.getHealth(PROTOCOL);
+        assert(health.state === 'closed' && health.consecutiveFailures === 0, "不支持的交易对不应触发熔断");
+        assert(health.successRate === 1 && health.lastError === undefined, "不支持的交易对不应计入失败");
+
+        const rateLimited = Object.assign(new Error("Request failed with status code 429"), { response: { status: 429 } });
+        await monitor.execute(PROTOCOL, () => Promise.reject(rateLimited)).catch(() => undefined);
+        await monitor.execute(PROTOCOL, () => Promise.reject(new Error("socket hang up"))).catch(() => undefined);
+        assert(monitor.getHealth(PROTOCOL).state === 'open', "传输层错误达到阈值应熔断");
+
+        // 熔断中仍然可以构建已选定报价的指令，构建失败计入统计
+        const built = await monitor.observe(PROTOCOL, async () => "ix");
+        assert(built === "ix", "熔断中不应拦截指令构建");
+
+        monitor.reset(PROTOCOL);
+        const guarded = monitor.guard({
+            name: PROTOCOL,
+            programId: {} as any,
+            getQuote: () => Promise.reject(new Error("未找到池子")),
+            buildSwapInstruction: () => Promise.reject(new Error("交换代币与Whirlpool池子的代币不一致"))
+        });
+        await guarded.buildSwapInstruction({} as any, {} as any, {} as any, {} as any, {} as any).catch(() => undefined);
+        health = monitor.getHealth(PROTOCOL);
+        assert(health.consecutiveFailures === 1 && health.lastError === "交换代币与Whirlpool池子的代币不一致", "指令构建失败应计入失败");
+
+        console.log("✅ 失败分类测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 失败分类测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("协议熔断与健康评分", [
+        testBreakerTripAndRecover,
+        testCallTimeout,
+        testHealthScore,
+        testFailureClassification
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testBreakerTripAndRecover,
+    testCallTimeout,
+    testHealthScore,
+    testFailureClassification,
+    runAllTests
+};
@@ -0,0 +1,221 @@
+import { Keypair } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { MARKET_STATE_LAYOUT_V3 } from "@raydium-io/raydium-sdk";
+import BN from "bn.js";
+
+import { RaydiumProtocol } from "../protocols/raydium/raydium-protocol";
+import { computeConstantProductAmountOut } from "../protocols/raydium/constant-product";
+import { calculateMinimumOutputAmount, calculateQuoteMinimumOutput } from "../utils/token/token-utils";
+import { DEXQuote, SwapTokenContext } from "../types/dex/protocol";
+import { USDC_MINT, assert, buildQuote, captureError, mintInfo, mockConnection, runTestSuite, tokenContext } from "./test-helpers";
+
+/**
+ * Raydium AMM v4 测试套件
+ *
+ * 纯内存测试，不需要网络:
+ * 1. 恒定乘积输出与取整方向 (手续费向上取整、输出向下取整)
+ * 2. 价格影响与空储备
+ * 3. 按报价滑点计算最小输出
+ * 4. swapBaseIn 指令编码与错误路径
+ */
+
+const OWNER = Keypair.generate().publicKey;
+
+/** AMM v4 手续费 0.25% */
+const FEE_NUMERATOR = new BN(25);
+const FEE_DENOMINATOR = new BN(10000);
+
+/**
+ * 构建报价
+ */
+function quoteOf(outputAmount: number, slippage: number | undefined, payload?: unknown): DEXQuote {
+    return buildQuote({
+        dexName: "Raydium",
+        inputAmount: new BN(1_000_000_000),
+        outputAmount: new BN(outputAmount),
+        fee: new BN(2_500_000),
+        estimatedGas: 80000,
+        slippage,
+        payload
+    });
+}
+
+/**
+ * 恒定乘积输出测试
+ */
+async function testConstantProductOutput() {
+    console.log("\n🧪 开始恒定乘积输出测试...");
+
+    try {
+        const reserveIn = new BN(1_000_000_000);
+        const reserveOut = new BN(2_000_000_000);
+
+        // 2500.0025 的手续费向上取整为 2501
+        const quote = computeConstantProductAmountOut(new BN(1_000_001), reserveIn, reserveOut, FEE_NUMERATOR, FEE_DENOMINATOR);
+        assert(quote.fee.eq(new BN(2501)), `手续费应向上取整，实际 ${quote.fee.toString()}`);
+        assert(quote.amountOut.eq(new BN(1_993_011)), `输出应向下取整，实际 ${quote.amountOut.toString()}`);
+
+        // 交换后 k 不减少
+        const kBefore = reserveIn.mul(reserveOut);
+        const kAfter = reserveIn.addn(1_000_001).mul(reserveOut.sub(quote.amountOut));
+        assert(kAfter.gte(kBefore), "交换后恒定乘积不应减少");
+
+        // 零手续费时手续费为零，输入全部进入池子
+        const feeless = computeConstantProductAmountOut(new BN(1_000_000), reserveIn, reserveOut, new BN(0), FEE_DENOMINATOR);
+        assert(feeless.fee.isZero() && feeless.amountOut.gt(quote.amountOut), "零手续费时输出应更高");
+
+        // 输入为零时没有输出
+        const empty = computeConstantProductAmountOut(new BN(0), reserveIn, reserveOut, FEE_NUMERATOR, FEE_DENOMINATOR);
+        assert(empty.amountOut.isZero() && empty.fee.isZero() && empty.priceImpact === 0, "零输入应没有输出和价格影响");
+
+        console.log("✅ 恒定乘积输出测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 恒定乘积输出测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 价格影响测试
+ */
+async function testPriceImpact() {
+    console.log("\n🧪 开始价格影响测试...");
+
+    try {
+        const reserve = new BN(1_000_000_000);
+
+        // 输入与储备相当时，价格影响接近 50%
+        const large = computeConstantProductAmountOut(reserve, reserve, reserve, FEE_NUMERATOR, FEE_DENOMINATOR);
+        assert(large.amountOut.eq(new BN(499_374_217)), `输出不正确，实际 ${large.amountOut.toString()}`);
+        assert(large.priceImpact === 0.499374, `价格影响应为 Δx/(x+Δx)，实际 ${large.priceImpact}`);
+
+        const small = computeConstantProductAmountOut(new BN(1_000_000), reserve, reserve, FEE_NUMERATOR, FEE_DENOMINATOR);
+        assert(small.priceImpact < large.priceImpact && small.priceImpact > 0, "较小的输入应有较小的价格影响");
+
+        for (const [reserveIn, reserveOut] of [[new BN(0), reserve], [reserve, new BN(0)]]) {
+            const rejected = await captureError(() =>
+                computeConstantProductAmountOut(new BN(1_000_000), reserveIn, reserveOut, FEE_NUMERATOR, FEE_DENOMINATOR));
+            assert(rejected.includes("池子储备为空"), "任一侧储备为空时应拒绝报价");
+        }
+
+        console.log("✅ 价格影响测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 价格影响测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 最小输出测试
+ */
+async function testMinimumOutput() {
+    console.log("\n🧪 开始最小输出测试...");
+
+    try {
+        assert(calculateMinimumOutputAmount(new BN(2_000_000), 0.02).eq(new BN(1_960_000)), "2% 滑点的最小输出不正确");
+        assert(calculateMinimumOutputAmount(new BN(2_000_000), 0.005).eq(new BN(1_990_000)), "0.5% 滑点的最小输出不正确");
+        assert(calculateMinimumOutputAmount(new BN(2_000_000), 0).eq(new BN(2_000_000)), "零滑点时最小输出应等于预期输出");
+        assert(calculateMinimumOutputAmount(new BN(9_999), 0.01).eq(new BN(9_899)), "最小输出应向下取整");
+
+        // 不同报价按各自请求的滑点计算
+        assert(calculateQuoteMinimumOutput(quoteOf(2_000_000, 0.02)).eq(new BN(1_960_000)), "应使用报价的 2% 滑点");
+        assert(calculateQuoteMinimumOutput(quoteOf(2_000_000, 0.001)).eq(new BN(1_998_000)), "应使用报价的 0.1% 滑点");
+
+        const rejected = await captureError(() => calculateQuoteMinimumOutput(quoteOf(2_000_000, undefined)));
+        assert(rejected.includes("报价缺少滑点容忍度"), "缺少滑点的报价应被拒绝");
+
+        console.log("✅ 最小输出测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 最小输出测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * swapBaseIn 指令测试
+ */
+async function testSwapBaseIn() {
+    console.log("\n🧪 开始 swapBaseIn 指令测试...");
+
+    try {
+        const marketId = Keypair.generate().publicKey;
+        const amm = new RaydiumProtocol(mockConnection(new Map([
+            [marketId.toBase58(), { data: Buffer.alloc(MARKET_STATE_LAYOUT_V3.span), owner: Keypair.generate().publicKey, lamports: 0, executable: false }]
+        ])));
+
+        const payload = {
+            poolAddress: Keypair.generate().publicKey,
+            openOrders: Keypair.generate().publicKey,
+            targetOrders: Keypair.generate().publicKey,
+            baseVault: Keypair.generate().publicKey,
+            quoteVault: Keypair.generate().publicKey,
+            marketProgramId: Keypair.generate().publicKey,
+            marketId
+        };
+        const userAccountA = Keypair.generate().publicKey;
+        const userAccountB = Keypair.generate().publicKey;
+        const tokens = tokenContext(mintInfo(NATIVE_MINT), mintInfo(USDC_MINT));
+
+        const instruction = await amm.buildSwapInstruction(quoteOf(2_000_000, 0.02, payload), OWNER, userAccountA, userAccountB, tokens);
+        assert(instruction.programId.equals(amm.programId), "指令应发往 AMM v4 程序");
+        assert(instruction.data.length === 17 && instruction.data[0] === 9, "应编码 swapBaseIn 指令");
+        assert(new BN(instruction.data.subarray(1, 9), 'le').eq(new BN(1_000_000_000)), "应编码报价的输入金额");
+        assert(new BN(instruction.data.subarray(9, 17), 'le').eq(new BN(1_960_000)), "最小输出应按报价请求的滑点计算");
+        assert(instruction.keys.length === 18, "swapBaseIn 应有 18 个账户");
+        assert(instruction.keys[1].pubkey.equals(payload.poolAddress) && instruction.keys[8].pubkey.equals(marketId),
+            "池子和市场账户位置不正确");
+        assert(instruction.keys[15].pubkey.equals(userAccountA) && instruction.keys[16].pubkey.equals(userAccountB),
+            "用户代币账户位置不正确");
+        assert(instruction.keys[17].pubkey.equals(OWNER) && instruction.keys[17].isSigner, "用户钱包应为签名者");
+
+        // 错误路径
+        const failures: [DEXQuote, SwapTokenContext, string][] = [
+            [quoteOf(2_000_000, 0.02), tokens, "缺少Raydium AMM池子数据"],
+            [quoteOf(2_000_000, undefined, payload), tokens, "报价缺少滑点容忍度"],
+            [quoteOf(2_000_000, 0.02, { ...payload, marketId: Keypair.generate().publicKey }), tokens, "市场账户不存在"],
+            [quoteOf(2_000_000, 0.02, payload), tokenContext(mintInfo(NATIVE_MINT), mintInfo(USDC_MINT, Keypair.generate().publicKey)), "不支持 Token-2022"]
+        ];
+        for (const [quote, context, expected] of failures) {
+            const rejected = await captureError(() => amm.buildSwapInstruction(quote, OWNER, userAccountA, userAccountB, context));
+            assert(rejected.includes(expected), `应拒绝构建指令: ${expected}`);
+        }
+
+        console.log("✅ swapBaseIn 指令测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ swapBaseIn 指令测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("Raydium AMM v4", [
+        testConstantProductOutput,
+        testPriceImpact,
+        testMinimumOutput,
+        testSwapBaseIn
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testConstantProductOutput,
+    testPriceImpact,
+    testMinimumOutput,
+    testSwapBaseIn,
+    runAllTests
+};
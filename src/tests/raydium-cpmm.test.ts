@@ -0,0 +1,291 @@
+import { AccountInfo, GetProgramAccountsFilter, Keypair, PublicKey } from "@solana/web3.js";
+import { NATIVE_MINT, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import BN from "bn.js";
+
+import { RaydiumCpmmProtocol } from "../protocols/raydium/raydium-cpmm-protocol";
+import { computeConstantProductAmountOut } from "../protocols/raydium/constant-product";
+import { calculateMinimumOutputAmount } from "../utils/token/token-utils";
+import { DEXQuote, SwapTokenContext } from "../types/dex/protocol";
+import { USDC_MINT, assert, captureError, mintInfo, mockConnection, runTestSuite, tokenContext } from "./test-helpers";
+
+/**
+ * Raydium CPMM 测试套件
+ *
+ * 纯内存测试，不需要网络 (模拟连接提供池子、配置和金库账户):
+ * 1. 报价 (按 token1 金库深度选池、扣除未提取手续费的储备、双向报价、池子地址缓存)
+ * 2. swap_base_input 指令编码 (账户顺序、按报价滑点计算最小输出)
+ * 3. 错误路径 (池子不存在、账户所有者错误、代币程序不一致、转账钩子、缺少滑点)
+ */
+
+const OWNER = Keypair.generate().publicKey;
+const SLIPPAGE = 0.01;
+
+/** CP-Swap PoolState 账户大小与字段偏移 */
+const POOL_STATE_SIZE = 637;
+const POOL_AMM_CONFIG_OFFSET = 8;
+const POOL_TOKEN0_VAULT_OFFSET = 72;
+const POOL_TOKEN1_VAULT_OFFSET = 104;
+const POOL_TOKEN0_MINT_OFFSET = 168;
+const POOL_TOKEN1_MINT_OFFSET = 200;
+const POOL_TOKEN0_PROGRAM_OFFSET = 232;
+const POOL_TOKEN1_PROGRAM_OFFSET = 264;
+const POOL_OBSERVATION_OFFSET = 296;
+const POOL_PROTOCOL_FEES_TOKEN0_OFFSET = 341;
+const POOL_FUND_FEES_TOKEN1_OFFSET = 365;
+
+/** AmmConfig 中 tradeFeeRate 的偏移 */
+const CONFIG_TRADE_FEE_RATE_OFFSET = 12;
+
+/** SPL Token 账户中 amount 的偏移 */
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+/**
+ * 构建账户
+ */
+function accountOf(data: Buffer, owner: PublicKey): AccountInfo<Buffer> {
+    return { data, owner, lamports: 1_000_000, executable: false };
+}
+
+/**
+ * 构建代币账户数据 (仅填写余额)
+ */
+function tokenAccountData(amount: number): Buffer {
+    const data = Buffer.alloc(165);
+    new BN(amount).toArrayLike(Buffer, 'le', 8).copy(data, TOKEN_ACCOUNT_AMOUNT_OFFSET);
+    return data;
+}
+
+/**
+ * 模拟的CP-Swap池子
+ */
+interface MockCpmmPool {
+    address: PublicKey;
+    ammConfig: PublicKey;
+    token0Vault: PublicKey;
+    token1Vault: PublicKey;
+    observationKey: PublicKey;
+    data: Buffer;
+}
+
+/**
+ * 编码CP-Swap池子状态
+ * @param token0Mint token0 mint
+ * @param token1Mint token1 mint
+ */
+function encodePool(token0Mint: PublicKey, token1Mint: PublicKey): MockCpmmPool {
+    const pool = {
+        address: Keypair.generate().publicKey,
+        ammConfig: Keypair.generate().publicKey,
+        token0Vault: Keypair.generate().publicKey,
+        token1Vault: Keypair.generate().publicKey,
+        observationKey: Keypair.generate().publicKey,
+        data: Buffer.alloc(POOL_STATE_SIZE)
+    };
+
+    const fields: [number, PublicKey][] = [
+        [POOL_AMM_CONFIG_OFFSET, pool.ammConfig],
+        [POOL_TOKEN0_VAULT_OFFSET, pool.token0Vault],
+        [POOL_TOKEN1_VAULT_OFFSET, pool.token1Vault],
+        [POOL_TOKEN0_MINT_OFFSET, token0Mint],
+        [POOL_TOKEN1_MINT_OFFSET, token1Mint],
+        [POOL_TOKEN0_PROGRAM_OFFSET, TOKEN_PROGRAM_ID],
+        [POOL_TOKEN1_PROGRAM_OFFSET, TOKEN_PROGRAM_ID],
+        [POOL_OBSERVATION_OFFSET, pool.observationKey]
+    ];
+    fields.forEach(([offset, key]) => key.toBuffer().copy(pool.data, offset));
+
+    // 未提取的协议手续费 (token0) 和基金手续费 (token1) 不计入储备
+    new BN(5_000_000).toArrayLike(Buffer, 'le', 8).copy(pool.data, POOL_PROTOCOL_FEES_TOKEN0_OFFSET);
+    new BN(3_000_000).toArrayLike(Buffer, 'le', 8).copy(pool.data, POOL_FUND_FEES_TOKEN1_OFFSET);
+
+    return pool;
+}
+
+/**
+ * 构建模拟连接
+ * @param programId CP-Swap 程序ID
+ * @param pools 池子及其金库余额
+ */
+function cpmmConnection(programId: PublicKey, pools: { pool: MockCpmmPool, vault0: number, vault1: number, owner?: PublicKey }[]) {
+    const accounts = new Map<string, AccountInfo<Buffer>>();
+    const configData = Buffer.alloc(40);
+    // 0.25% 交易手续费
+    new BN(2500).toArrayLike(Buffer, 'le', 8).copy(configData, CONFIG_TRADE_FEE_RATE_OFFSET);
+
+    pools.forEach(({ pool, vault0, vault1, owner }) => {
+        accounts.set(pool.address.toBase58(), accountOf(pool.data, owner || programId));
+        accounts.set(pool.ammConfig.toBase58(), accountOf(configData, programId));
+        accounts.set(pool.token0Vault.toBase58(), accountOf(tokenAccountData(vault0), TOKEN_PROGRAM_ID));
+        accounts.set(pool.token1Vault.toBase58(), accountOf(tokenAccountData(vault1), TOKEN_PROGRAM_ID));
+    });
+
+    const stats = { programAccountScans: 0 };
+    const connection = mockConnection(accounts, {
+        getProgramAccounts: async (_programId: PublicKey, config: { filters: GetProgramAccountsFilter[] }) => {
+            stats.programAccountScans++;
+            return pools
+                .filter(({ pool }) => config.filters.every(filter => !('memcmp' in filter) ||
+                    new PublicKey(pool.data.subarray(filter.memcmp.offset, filter.memcmp.offset + 32)).toBase58() === filter.memcmp.bytes))
+                .map(({ pool }) => ({ pubkey: pool.address, account: accounts.get(pool.address.toBase58())! }));
+        }
+    });
+
+    return { connection, stats };
+}
+
+/**
+ * 报价测试
+ */
+async function testQuote() {
+    console.log("\n🧪 开始报价测试...");
+
+    try {
+        const programId = Keypair.generate().publicKey;
+        const shallow = encodePool(NATIVE_MINT, USDC_MINT);
+        const deep = encodePool(NATIVE_MINT, USDC_MINT);
+        const { connection, stats } = cpmmConnection(programId, [
+            { pool: shallow, vault0: 105_000_000, vault1: 203_000_000 },
+            { pool: deep, vault0: 1_005_000_000, vault1: 2_003_000_000 }
+        ]);
+        const cpmm = new RaydiumCpmmProtocol(connection, programId);
+
+        // token0→token1: 储备为 1e9 / 2e9 (已扣除未提取的手续费)
+        const amount = new BN(1_000_001);
+        const quote = await cpmm.getQuote(NATIVE_MINT, USDC_MINT, amount, SLIPPAGE);
+        const expected = computeConstantProductAmountOut(amount, new BN(1_000_000_000), new BN(2_000_000_000), new BN(2500), new BN(1_000_000));
+        const payload = quote.payload as { poolAddress: PublicKey, inputVault: PublicKey, outputVault: PublicKey };
+        assert(payload.poolAddress.equals(deep.address), "应选择 token1 金库余额最大的池子");
+        assert(quote.outputAmount.eq(expected.amountOut) && quote.fee.eq(expected.fee), "输出应按扣除手续费后的储备计算");
+        assert(quote.slippage === SLIPPAGE, "报价应携带请求的滑点");
+        assert(payload.inputVault.equals(deep.token0Vault) && payload.outputVault.equals(deep.token1Vault), "token0→token1 的金库顺序不正确");
+
+        // token1→token0: 方向相反，储备和金库随之交换
+        const reverse = await cpmm.getQuote(USDC_MINT, NATIVE_MINT, amount, SLIPPAGE);
+        const reverseExpected = computeConstantProductAmountOut(amount, new BN(2_000_000_000), new BN(1_000_000_000), new BN(2500), new BN(1_000_000));
+        const reversePayload = reverse.payload as { inputVault: PublicKey, outputVault: PublicKey };
+        assert(reverse.outputAmount.eq(reverseExpected.amountOut), "反向报价应交换储备");
+        assert(reversePayload.inputVault.equals(deep.token1Vault) && reversePayload.outputVault.equals(deep.token0Vault),
+            "token1→token0 的金库顺序不正确");
+
+        // 池子地址按代币对缓存，与方向无关
+        assert(stats.programAccountScans === 2, "池子地址应被缓存，不应重复扫描程序账户");
+
+        console.log("✅ 报价测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 报价测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * swap_base_input 指令测试
+ */
+async function testSwapBaseInput() {
+    console.log("\n🧪 开始 swap_base_input 指令测试...");
+
+    try {
+        const programId = Keypair.generate().publicKey;
+        const pool = encodePool(NATIVE_MINT, USDC_MINT);
+        const { connection } = cpmmConnection(programId, [{ pool, vault0: 1_005_000_000, vault1: 2_003_000_000 }]);
+        const cpmm = new RaydiumCpmmProtocol(connection, programId);
+
+        const quote = await cpmm.getQuote(NATIVE_MINT, USDC_MINT, new BN(1_000_000), 0.02);
+        const userAccountA = Keypair.generate().publicKey;
+        const userAccountB = Keypair.generate().publicKey;
+        const instruction = await cpmm.buildSwapInstruction(quote, OWNER, userAccountA, userAccountB,
+            tokenContext(mintInfo(NATIVE_MINT), mintInfo(USDC_MINT)));
+
+        const [authority] = PublicKey.findProgramAddressSync([Buffer.from("vault_and_lp_mint_auth_seed")], programId);
+        const keys = instruction.keys.map(meta => meta.pubkey);
+        assert(instruction.data.subarray(0, 8).equals(Buffer.from([143, 190, 90, 218, 196, 30, 51, 222])), "应编码 swap_base_input 指令");
+        assert(new BN(instruction.data.subarray(8, 16), 'le').eq(new BN(1_000_000)), "应编码报价的输入金额");
+        assert(new BN(instruction.data.subarray(16, 24), 'le').eq(calculateMinimumOutputAmount(quote.outputAmount, 0.02)),
+            "最小输出应按报价请求的滑点计算");
+        assert(keys.length === 13, "swap_base_input 应有 13 个账户");
+        assert(keys[0].equals(OWNER) && instruction.keys[0].isSigner, "用户钱包应为第一个签名账户");
+        assert(keys[1].equals(authority) && keys[2].equals(pool.ammConfig) && keys[3].equals(pool.address), "权限、配置和池子账户位置不正确");
+        assert(keys[4].equals(userAccountA) && keys[5].equals(userAccountB), "用户代币账户位置不正确");
+        assert(keys[6].equals(pool.token0Vault) && keys[7].equals(pool.token1Vault), "金库应按交换方向排列");
+        assert(keys[8].equals(TOKEN_PROGRAM_ID) && keys[9].equals(TOKEN_PROGRAM_ID), "应传入两端的代币程序");
+        assert(keys[10].equals(NATIVE_MINT) && keys[11].equals(USDC_MINT) && keys[12].equals(pool.observationKey), "mint 和观测账户位置不正确");
+
+        console.log("✅ swap_base_input 指令测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ swap_base_input 指令测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 错误路径测试
+ */
+async function testErrorPaths() {
+    console.log("\n🧪 开始错误路径测试...");
+
+    try {
+        const programId = Keypair.generate().publicKey;
+        const pool = encodePool(NATIVE_MINT, USDC_MINT);
+        const foreignMint = Keypair.generate().publicKey;
+        const foreign = encodePool(USDC_MINT, foreignMint);
+        const { connection } = cpmmConnection(programId, [
+            { pool, vault0: 1_005_000_000, vault1: 2_003_000_000 },
+            { pool: foreign, vault0: 1_000_000, vault1: 1_000_000, owner: Keypair.generate().publicKey }
+        ]);
+        const cpmm = new RaydiumCpmmProtocol(connection, programId);
+
+        assert((await captureError(() => cpmm.getQuote(NATIVE_MINT, Keypair.generate().publicKey, new BN(1_000_000), SLIPPAGE)))
+            .includes("未找到Raydium CPMM池子"), "不存在的池子应拒绝报价");
+        assert((await captureError(() => cpmm.getQuote(USDC_MINT, foreignMint, new BN(1_000_000), SLIPPAGE)))
+            .includes("账户不属于Raydium CPMM程序"), "不属于CP-Swap程序的池子应拒绝报价");
+
+        const quote = await cpmm.getQuote(NATIVE_MINT, USDC_MINT, new BN(1_000_000), SLIPPAGE);
+        const userAccountA = Keypair.generate().publicKey;
+        const userAccountB = Keypair.generate().publicKey;
+        const tokens = tokenContext(mintInfo(NATIVE_MINT), mintInfo(USDC_MINT));
+
+        const failures: [DEXQuote, SwapTokenContext, string][] = [
+            [{ ...quote, payload: undefined }, tokens, "报价缺少Raydium CPMM池子数据"],
+            [{ ...quote, slippage: undefined }, tokens, "报价缺少滑点容忍度"],
+            [quote, tokenContext(mintInfo(NATIVE_MINT), mintInfo(USDC_MINT, TOKEN_2022_PROGRAM_ID)), "代币程序与Raydium CPMM池子记录不一致"],
+            [quote, tokenContext(mintInfo(NATIVE_MINT), mintInfo(USDC_MINT, TOKEN_2022_PROGRAM_ID, Keypair.generate().publicKey)), "不支持带转账钩子的代币"]
+        ];
+        for (const [failingQuote, context, expected] of failures) {
+            const rejected = await captureError(() => cpmm.buildSwapInstruction(failingQuote, OWNER, userAccountA, userAccountB, context));
+            assert(rejected.includes(expected), `应拒绝构建指令: ${expected}`);
+        }
+
+        console.log("✅ 错误路径测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 错误路径测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("Raydium CPMM", [
+        testQuote,
+        testSwapBaseInput,
+        testErrorPaths
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testQuote,
+    testSwapBaseInput,
+    testErrorPaths,
+    runAllTests
+};
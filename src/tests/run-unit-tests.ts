@@ -0,0 +1,90 @@
+import { runAllTests as runSplitRouterTests } from "./split-router.test";
+import { runAllTests as runMultiHopTests } from "./multi-hop-router.test";
+import { runAllTests as runRaydiumAmmTests } from "./raydium-amm.test";
+import { runAllTests as runRaydiumCpmmTests } from "./raydium-cpmm.test";
+import { runAllTests as runQuoteEngineTests } from "./whirlpool-quote-engine.test";
+import { runAllTests as runQuoteCacheTests } from "./quote-cache.test";
+import { runAllTests as runProtocolHealthTests } from "./protocol-health-monitor.test";
+import { runAllTests as runCostModelTests } from "./execution-cost-model.test";
+import { runAllTests as runAssemblerTests } from "./transaction-assembler.test";
+import { runAllTests as runComputeBudgetTests } from "./compute-budget.test";
+import { runAllTests as runSimulationTests } from "./transaction-simulator.test";
+import { runAllTests as runDecompilerTests } from "./transaction-decompiler.test";
+import { runAllTests as runSenderTests } from "./transaction-sender.test";
+import { runAllTests as runNonceTests } from "./durable-nonce.test";
+import { runAllTests as runSignerTests } from "./transaction-signer.test";
+import { runAllTests as runWalletTests } from "./multi-wallet.test";
+import { runAllTests as runToken2022Tests } from "./token-2022.test";
+import { runAllTests as runWsolTests } from "./wsol-lifecycle.test";
+import { runAllTests as runAtomicBundleTests } from "./atomic-bundle.test";
+import { runAllTests as runBundleSimulationTests } from "./bundle-simulation.test";
+import { runAllTests as runTipModelTests } from "./tip-model.test";
+import { runAllTests as runBundleStatusTests } from "./bundle-status-tracker.test";
+import { runAllTests as runBundleStoreTests } from "./bundle-store.test";
+
+/**
+ * 单元测试入口 (npm test)
+ *
+ * 依次运行所有使用模拟连接的测试套件，不需要网络和私钥
+ * 需要 devnet 的 swap-engine 和 jito-client 测试不在此列 (swap-engine 通过 test:swap-engine 运行)
+ */
+
+const SUITES: [string, () => Promise<boolean>][] = [
+    ["split-router", runSplitRouterTests],
+    ["multi-hop-router", runMultiHopTests],
+    ["raydium-amm", runRaydiumAmmTests],
+    ["raydium-cpmm", runRaydiumCpmmTests],
+    ["whirlpool-quote-engine", runQuoteEngineTests],
+    ["quote-cache", runQuoteCacheTests],
+    ["protocol-health-monitor", runProtocolHealthTests],
+    ["execution-cost-model", runCostModelTests],
+    ["transaction-assembler", runAssemblerTests],
+    ["compute-budget", runComputeBudgetTests],
+    ["transaction-simulator", runSimulationTests],
+    ["transaction-decompiler", runDecompilerTests],
+    ["transaction-sender", runSenderTests],
+    ["durable-nonce", runNonceTests],
+    ["transaction-signer", runSignerTests],
+    ["multi-wallet", runWalletTests],
+    ["token-2022", runToken2022Tests],
+    ["wsol-lifecycle", runWsolTests],
+    ["atomic-bundle", runAtomicBundleTests],
+    ["bundle-simulation", runBundleSimulationTests],
+    ["tip-model", runTipModelTests],
+    ["bundle-status-tracker", runBundleStatusTests],
+    ["bundle-store", runBundleStoreTests]
+];
+
+/**
+ * 依次运行所有测试套件并汇总结果
+ */
+async function runUnitTests() {
+    const failedSuites: string[] = [];
+
+    for (const [name, runSuite] of SUITES) {
+        console.log(`\n${"=".repeat(50)}`);
+        try {
+            if (!await runSuite()) {
+                failedSuites.push(name);
+            }
+        } catch (error) {
+            console.log(`❌ ${name} 测试套件异常: ${error}`);
+            failedSuites.push(name);
+        }
+    }
+
+    console.log(`\n${"=".repeat(50)}`);
+    console.log(`📊 测试套件: ${SUITES.length - failedSuites.length}/${SUITES.length} 通过`);
+
+    if (failedSuites.length > 0) {
+        console.log(`⚠️  失败的测试套件: ${failedSuites.join(", ")}`);
+        process.exitCode = 1;
+    } else {
+        console.log("🎉 所有测试套件都通过了!");
+    }
+}
+
+runUnitTests().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
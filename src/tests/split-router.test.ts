@@ -0,0 +1,309 @@
+import { Keypair, TransactionInstruction } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import BN from "bn.js";
+
+import { SplitRouter } from "../core/aggregator/split-router";
+import { computeConstantProductAmountOut } from "../protocols/raydium/constant-product";
+import { SPLIT_ROUTING_CONFIG } from "../config/dex-config";
+import { DEXProtocol, DEXQuote } from "../types/dex/protocol";
+import { USDC_MINT, assert, buildQuote, runTestSuite } from "./test-helpers";
+
+/**
+ * 拆单路由器测试套件
+ *
+ * 纯内存测试，不需要网络:
+ * 1. 两个恒定乘积池之间按价格影响拆单
+ * 2. 分腿数量受 MAX_LEGS 限制
+ * 3. 超出计算预算的拆单方案被跳过
+ * 4. 无收益、单一协议、禁用或金额过小时不拆单
+ * 5. 部分报价失败的协议不参与拆单
+ * 6. 取整余额在报价前分摊，分腿按执行金额报价
+ */
+
+const SLIPPAGE = 0.01;
+const AMOUNT = new BN(1_000_000_000);
+
+/**
+ * 构建报价
+ */
+function quoteOf(dexName: string, inputAmount: BN, outputAmount: BN, estimatedGas: number): DEXQuote {
+    return buildQuote({ dexName, inputAmount, outputAmount, priceImpact: 0, fee: new BN(0), estimatedGas, slippage: SLIPPAGE });
+}
+
+/**
+ * 构建模拟协议
+ * @param name 协议名称
+ * @param quoteOutput 按输入金额计算输出金额
+ * @param estimatedGas 每条报价的计算单元
+ */
+function mockProtocol(name: string, quoteOutput: (amount: BN) => BN, estimatedGas: number = 150000): DEXProtocol {
+    const protocol: DEXProtocol = {
+        name,
+        programId: Keypair.generate().publicKey,
+        getQuote: async (_tokenA, _tokenB, amount) => quoteOf(name, amount, quoteOutput(amount), estimatedGas),
+        buildSwapInstruction: async () => new TransactionInstruction({ programId: protocol.programId, keys: [], data: Buffer.alloc(0) })
+    };
+    return protocol;
+}
+
+/**
+ * 构建报价来自恒定乘积池的模拟协议 (0.25% 手续费)
+ * @param reserve 两侧储备
+ */
+function poolProtocol(name: string, reserve: number, estimatedGas?: number): DEXProtocol {
+    return mockProtocol(name, (amount) => computeConstantProductAmountOut(
+        amount, new BN(reserve), new BN(reserve), new BN(25), new BN(10000)
+    ).amountOut, estimatedGas);
+}
+
+/**
+ * 获取各协议的全额报价
+ */
+async function fullQuotesOf(protocols: DEXProtocol[]): Promise<Map<string, DEXQuote>> {
+    const quotes = new Map<string, DEXQuote>();
+    for (const protocol of protocols) {
+        quotes.set(protocol.name, await protocol.getQuote(NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE));
+    }
+    return quotes;
+}
+
+/**
+ * 汇总分腿输出
+ */
+function totalOutputOf(legs: { quote: DEXQuote }[]): BN {
+    return legs.reduce((sum, leg) => sum.add(leg.quote.outputAmount), new BN(0));
+}
+
+/**
+ * 价格影响拆单测试
+ */
+async function testConcaveSplit() {
+    console.log("\n🧪 开始价格影响拆单测试...");
+
+    try {
+        const protocols = [poolProtocol("PoolA", 4_000_000_000), poolProtocol("PoolB", 4_000_000_000)];
+        const fullQuotes = await fullQuotesOf(protocols);
+        const legs = await new SplitRouter().findBestSplit(protocols, fullQuotes, NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE);
+
+        assert(legs !== null && legs.length === 2, "等深的两个池子应拆成两腿");
+        assert(legs![0].ratio === 0.5 && legs![1].ratio === 0.5, "等深池子的最优比例应为 50/50");
+        assert(legs!.every(leg => leg.quote.inputAmount.eq(AMOUNT.divn(2))), "每腿的报价应按分配比例的输入金额获取");
+        assert(totalOutputOf(legs!).gt(fullQuotes.get("PoolA")!.outputAmount), "拆单总输出应高于单池全额报价");
+
+        // 深度不同的池子应按深度比例分配
+        const uneven = [poolProtocol("Deep", 6_000_000_000), poolProtocol("Shallow", 2_000_000_000)];
+        const unevenLegs = await new SplitRouter().findBestSplit(uneven, await fullQuotesOf(uneven), NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE);
+        const deepLeg = unevenLegs?.find(leg => leg.quote.dexName === "Deep");
+        assert(deepLeg !== undefined && deepLeg.ratio > 0.5, "较深的池子应分配更多输入");
+        assert(Math.abs(unevenLegs!.reduce((sum, leg) => sum + leg.ratio, 0) - 1) < 1e-9, "分腿比例之和应为 1");
+
+        console.log("✅ 价格影响拆单测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 价格影响拆单测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 分腿数量上限测试
+ */
+async function testMaxLegs() {
+    console.log("\n🧪 开始分腿数量上限测试...");
+
+    try {
+        const protocols = [
+            poolProtocol("PoolA", 2_000_000_000),
+            poolProtocol("PoolB", 2_000_000_000),
+            poolProtocol("PoolC", 2_000_000_000)
+        ];
+        const fullQuotes = await fullQuotesOf(protocols);
+
+        const threeLegs = await new SplitRouter().findBestSplit(protocols, fullQuotes, NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE);
+        assert(threeLegs !== null && threeLegs.length === 3, "默认配置下三个等深池子应拆成三腿");
+
+        const twoLegRouter = new SplitRouter({ ...SPLIT_ROUTING_CONFIG, MAX_LEGS: 2 });
+        const twoLegs = await twoLegRouter.findBestSplit(protocols, fullQuotes, NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE);
+        assert(twoLegs !== null && twoLegs.length === 2, "MAX_LEGS 为 2 时最多拆成两腿");
+
+        const singleLegRouter = new SplitRouter({ ...SPLIT_ROUTING_CONFIG, MAX_LEGS: 1 });
+        assert(await singleLegRouter.findBestSplit(protocols, fullQuotes, NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE) === null,
+            "MAX_LEGS 小于 2 时不应拆单");
+
+        console.log("✅ 分腿数量上限测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 分腿数量上限测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 计算预算测试
+ */
+async function testComputeBudget() {
+    console.log("\n🧪 开始计算预算测试...");
+
+    try {
+        const protocols = [
+            poolProtocol("PoolA", 2_000_000_000, 500000),
+            poolProtocol("PoolB", 2_000_000_000, 500000),
+            poolProtocol("PoolC", 2_000_000_000, 500000)
+        ];
+        const fullQuotes = await fullQuotesOf(protocols);
+
+        // 三腿需要 1.5M CU，超出默认的 1.4M 上限，退回两腿
+        const legs = await new SplitRouter().findBestSplit(protocols, fullQuotes, NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE);
+        assert(legs !== null && legs.length === 2, "超出计算预算的三腿方案应被跳过");
+
+        const tightRouter = new SplitRouter({ ...SPLIT_ROUTING_CONFIG, MAX_COMPUTE_UNITS: 900000 });
+        assert(await tightRouter.findBestSplit(protocols, fullQuotes, NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE) === null,
+            "所有拆单方案都超出计算预算时应保持单一DEX");
+
+        console.log("✅ 计算预算测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 计算预算测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 不拆单场景测试
+ */
+async function testNoSplit() {
+    console.log("\n🧪 开始不拆单场景测试...");
+
+    try {
+        // 固定兑换率没有价格影响，拆单没有收益
+        const linear = [
+            mockProtocol("LinearA", amount => amount.muln(150)),
+            mockProtocol("LinearB", amount => amount.muln(150))
+        ];
+        const router = new SplitRouter();
+        assert(await router.findBestSplit(linear, await fullQuotesOf(linear), NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE) === null,
+            "拆单无收益时应返回 null");
+
+        // 收益低于 MIN_IMPROVEMENT_BPS 时不拆单
+        const deep = [poolProtocol("DeepA", 1_000_000_000_000), poolProtocol("DeepB", 1_000_000_000_000)];
+        assert(await router.findBestSplit(deep, await fullQuotesOf(deep), NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE) === null,
+            "收益不足以覆盖额外分腿时应返回 null");
+
+        const pools = [poolProtocol("PoolA", 4_000_000_000), poolProtocol("PoolB", 4_000_000_000)];
+        const fullQuotes = await fullQuotesOf(pools);
+        assert(await router.findBestSplit(pools.slice(0, 1), fullQuotes, NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE) === null,
+            "只有一个协议时不应拆单");
+        assert(await router.findBestSplit(pools, fullQuotes, NATIVE_MINT, USDC_MINT, new BN(5), SLIPPAGE) === null,
+            "输入金额小于步数时不应拆单");
+
+        const disabled = new SplitRouter({ ...SPLIT_ROUTING_CONFIG, ENABLED: false });
+        assert(await disabled.findBestSplit(pools, fullQuotes, NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE) === null,
+            "禁用拆单时应返回 null");
+
+        console.log("✅ 不拆单场景测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 不拆单场景测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 部分报价失败测试
+ */
+async function testPartialQuoteFailure() {
+    console.log("\n🧪 开始部分报价失败测试...");
+
+    try {
+        const healthy = poolProtocol("PoolA", 4_000_000_000);
+        const failing = poolProtocol("PoolB", 4_000_000_000);
+        const fullQuotes = await fullQuotesOf([healthy, failing]);
+
+        // 全额报价已获取，之后的部分报价全部失败
+        failing.getQuote = async () => {
+            throw new Error("RPC 超时");
+        };
+
+        const legs = await new SplitRouter().findBestSplit([healthy, failing], fullQuotes, NATIVE_MINT, USDC_MINT, AMOUNT, SLIPPAGE);
+        assert(legs === null, "部分报价失败的协议只能承接全额，不应参与拆单");
+
+        console.log("✅ 部分报价失败测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 部分报价失败测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 取整余额分摊测试
+ */
+async function testRemainderSpread() {
+    console.log("\n🧪 开始取整余额分摊测试...");
+
+    try {
+        const amount = AMOUNT.addn(1);
+        const protocols = [poolProtocol("PoolA", 4_000_000_000), poolProtocol("PoolB", 4_000_000_000)];
+        const fullQuotes = await fullQuotesOf(protocols);
+        const legs = await new SplitRouter().findBestSplit(protocols, fullQuotes, NATIVE_MINT, USDC_MINT, amount, SLIPPAGE);
+
+        assert(legs !== null && legs.length === 2, "等深的两个池子应拆成两腿");
+        const inputs = legs!.map(leg => leg.quote.inputAmount);
+        assert(inputs[0].add(inputs[1]).eq(amount), "分腿报价的输入之和应等于总输入");
+        assert(inputs[0].eq(amount.divn(2).addn(1)) && inputs[1].eq(amount.divn(2)), "取整余额应逐腿分摊 1 个单位");
+
+        const expected = await protocols[0].getQuote(NATIVE_MINT, USDC_MINT, inputs[0], SLIPPAGE);
+        assert(legs![0].quote.outputAmount.eq(expected.outputAmount), "分摊余额的分腿应按执行金额重新报价");
+
+        // 按执行金额重新报价失败时不拆单
+        protocols[0].getQuote = async (_tokenA, _tokenB, legAmount) => {
+            if (legAmount.isOdd()) {
+                throw new Error("RPC 超时");
+            }
+            return quoteOf("PoolA", legAmount, legAmount, 150000);
+        };
+        const fallback = await new SplitRouter().findBestSplit(protocols, fullQuotes, NATIVE_MINT, USDC_MINT, amount, SLIPPAGE);
+        assert(fallback === null, "重新报价失败时应保持单一DEX执行");
+
+        console.log("✅ 取整余额分摊测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 取整余额分摊测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("拆单路由器", [
+        testConcaveSplit,
+        testMaxLegs,
+        testComputeBudget,
+        testNoSplit,
+        testPartialQuoteFailure,
+        testRemainderSpread
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testConcaveSplit,
+    testMaxLegs,
+    testComputeBudget,
+    testNoSplit,
+    testPartialQuoteFailure,
+    testRemainderSpread,
+    runAllTests
+};
@@ -273,7 +273,7 @@ async function testErrorHandling() {
  */
 async function runAllTests() {
     console.log("🧪 Solana DeFi Trading Engine - 测试套件");
-    console.log("=" * 50);
+    console.log("=".repeat(50));
     
     const testResults = {
         basic: false,
@@ -302,7 +302,7 @@ async function runAllTests() {
     
     // 测试结果汇总
     console.log("\n📊 测试结果汇总:");
-    console.log("=" * 30);
+    console.log("=".repeat(30));
     console.log(`基本功能测试: ${testResults.basic ? '✅ 通过' : '❌ 失败'}`);
     console.log(`模拟交换测试: ${testResults.simulated ? '✅ 通过' : '❌ 失败'}`);
     console.log(`错误处理测试: ${testResults.errorHandling ? '✅ 通过' : '❌ 失败'}`);
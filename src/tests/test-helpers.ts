@@ -0,0 +1,313 @@
+import {
+    AccountInfo,
+    AddressLookupTableAccount,
+    Connection,
+    Keypair,
+    PublicKey,
+    SignatureStatus,
+    SystemProgram,
+    Transaction,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction
+} from "@solana/web3.js";
+import { NATIVE_MINT, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import BN from "bn.js";
+
+import { EnhancedJitoClient } from "../core/jito/jito-client";
+import { AggregatedRoute, DEXProtocol, DEXQuote, SwapTokenContext } from "../types/dex/protocol";
+import { BundleOptions, BundleStatus, BundleStatusResult, BundleTransaction, PreparedBundle } from "../types/jito/bundle-types";
+import { CongestionLevel } from "../types/jito/tip-model-types";
+import { TokenMintInfo } from "../types/token/token-types";
+
+/**
+ * 测试套件共用的断言、模拟对象和运行器
+ * 各测试文件只保留与被测模块相关的构建函数
+ */
+
+/** USDC mint 地址 */
+export const USDC_MINT = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
+
+/** 单个测试函数: 通过返回 true，失败返回 false */
+export type TestCase = () => Promise<boolean>;
+
+/**
+ * 断言条件成立
+ */
+export function assert(condition: boolean, message: string): void {
+    if (!condition) {
+        throw new Error(message);
+    }
+}
+
+/**
+ * 执行操作并返回其抛出的错误信息，未抛出时返回空字符串
+ * 用于断言错误路径
+ */
+export async function captureError(operation: () => unknown): Promise<string> {
+    try {
+        await operation();
+        return "";
+    } catch (error) {
+        return String(error);
+    }
+}
+
+/**
+ * 等待指定毫秒
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 依次运行测试并汇总结果
+ * 有测试失败时设置非零退出码
+ * @param title 测试套件名称
+ * @param tests 测试函数列表
+ * @returns 是否全部通过
+ */
+export async function runTestSuite(title: string, tests: TestCase[]): Promise<boolean> {
+    console.log(`🧪 ${title} - 测试套件`);
+
+    const results: boolean[] = [];
+    for (const test of tests) {
+        results.push(await test());
+    }
+
+    const passedTests = results.filter(Boolean).length;
+    console.log(`\n总体结果: ${passedTests}/${results.length} 测试通过`);
+
+    if (passedTests !== results.length) {
+        process.exitCode = 1;
+        return false;
+    }
+    return true;
+}
+
+/**
+ * 计算账户的租金豁免金额 (与本地验证器的租金参数一致)
+ * @param size 账户数据大小
+ */
+export function rentExemptionFor(size: number): number {
+    return (128 + size) * 6960;
+}
+
+/**
+ * 构建模拟连接
+ * 账户按地址从 accounts 中查找 (缺省时链上不存在任何账户)，
+ * 区块哈希、模拟、优先费和租金接口返回固定结果，可通过 overrides 替换任意方法
+ * @param accounts 链上账户 (按base58地址索引)
+ * @param overrides 替换的连接方法
+ */
+export function mockConnection(
+    accounts: Map<string, AccountInfo<Buffer>> = new Map(),
+    overrides: Record<string, unknown> = {}
+): Connection {
+    const lookup = (key: PublicKey) => accounts.get(key.toBase58()) ?? null;
+    return {
+        getAccountInfo: async (key: PublicKey) => lookup(key),
+        getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map(lookup),
+        getEpochInfo: async () => ({ epoch: 500 }),
+        getSlot: async () => 100,
+        getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 250 }),
+        simulateTransaction: async () => ({ context: { slot: 100 }, value: { err: null, logs: [], unitsConsumed: 120_000 } }),
+        getRecentPrioritizationFees: async () => [],
+        getMinimumBalanceForRentExemption: async (size: number) => rentExemptionFor(size),
+        ...overrides
+    } as unknown as Connection;
+}
+
+/**
+ * 构建报价
+ * 未指定的字段使用 1 → 2 兑换率、1% 滑点的默认值
+ * @param fields 覆盖的报价字段
+ */
+export function buildQuote(fields: Partial<DEXQuote> = {}): DEXQuote {
+    return {
+        dexName: "Mock",
+        inputAmount: new BN(1_000_000),
+        outputAmount: new BN(2_000_000),
+        priceImpact: 0.001,
+        fee: new BN(3_000),
+        route: [NATIVE_MINT, USDC_MINT],
+        estimatedGas: 150_000,
+        confidence: 0.95,
+        slippage: 0.01,
+        fetchedAt: Date.now(),
+        ...fields
+    };
+}
+
+/**
+ * 构建单一DEX执行的聚合路由
+ * @param quote 最优报价
+ * @param slippage 滑点容忍度
+ */
+export function buildRoute(quote: DEXQuote, slippage: number = 0.01): AggregatedRoute {
+    return {
+        bestQuote: quote,
+        allQuotes: [quote],
+        recommendedDEX: quote.dexName,
+        totalSavings: new BN(0),
+        executionStrategy: 'SINGLE',
+        slippage
+    };
+}
+
+/**
+ * 构建模拟交换协议
+ * 交换指令只包含用户钱包和两端代币账户，未提供 getQuote 时询价直接失败
+ * @param programId 协议程序ID
+ * @param getQuote 报价实现
+ * @param name 协议名称
+ */
+export function mockSwapProtocol(
+    programId: PublicKey,
+    getQuote: DEXProtocol['getQuote'] = async () => { throw new Error("不应询价"); },
+    name: string = "Mock"
+): DEXProtocol {
+    return {
+        name,
+        programId,
+        getQuote,
+        buildSwapInstruction: async (_quote, userWallet, tokenAccountA, tokenAccountB) => new TransactionInstruction({
+            programId,
+            keys: [
+                { pubkey: userWallet, isSigner: true, isWritable: false },
+                { pubkey: tokenAccountA, isSigner: false, isWritable: true },
+                { pubkey: tokenAccountB, isSigner: false, isWritable: true }
+            ],
+            data: Buffer.alloc(8)
+        })
+    };
+}
+
+/**
+ * 构建代币信息
+ * @param mint 代币mint地址
+ * @param programId mint所属的代币程序
+ * @param transferHookProgramId 转账钩子程序
+ */
+export function mintInfo(mint: PublicKey, programId: PublicKey = TOKEN_PROGRAM_ID, transferHookProgramId?: PublicKey): TokenMintInfo {
+    return { mint, programId, decimals: 6, tokenAccountSize: 165, nonTransferable: false, transferHookProgramId };
+}
+
+/**
+ * 构建交换两端的代币信息 (没有转账钩子账户)
+ */
+export function tokenContext(inputMint: TokenMintInfo, outputMint: TokenMintInfo): SwapTokenContext {
+    return { inputMint, outputMint, resolveTransferHookAccounts: async () => [] };
+}
+
+/**
+ * 构建已签名的转账交易 (v0)
+ * @param payer 付款人
+ */
+export function buildSignedTransfer(payer: Keypair): VersionedTransaction {
+    const message = new TransactionMessage({
+        payerKey: payer.publicKey,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        instructions: [SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1 })]
+    }).compileToV0Message();
+    const transaction = new VersionedTransaction(message);
+    transaction.sign([payer]);
+    return transaction;
+}
+
+/**
+ * 构建已签名的旧版转账交易
+ * @param payer 付款人
+ */
+export function buildSignedLegacyTransfer(payer: Keypair): Transaction {
+    const transaction = new Transaction({ feePayer: payer.publicKey, recentBlockhash: Keypair.generate().publicKey.toBase58() })
+        .add(SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1 }));
+    transaction.sign(payer);
+    return transaction;
+}
+
+/**
+ * 构建已激活的地址查找表
+ * @param addresses 查找表中的地址
+ */
+export function buildLookupTable(addresses: PublicKey[]): AddressLookupTableAccount {
+    return new AddressLookupTableAccount({
+        key: Keypair.generate().publicKey,
+        state: {
+            deactivationSlot: BigInt("18446744073709551615"),
+            lastExtendedSlot: 0,
+            lastExtendedSlotStartIndex: 0,
+            addresses
+        }
+    });
+}
+
+/**
+ * 模拟 Jito 客户端的配置
+ */
+export interface MockJitoOptions {
+    /** getInflightBundleStatuses 返回的状态 (缺省为 PENDING) */
+    inflight?: Map<string, BundleStatusResult>;
+
+    /** getBundleStatuses 返回的历史状态 */
+    history?: Map<string, BundleStatusResult>;
+
+    /** getSignatureStatuses 返回的链上状态 */
+    onChain?: Map<string, SignatureStatus>;
+
+    /** monitorBundleStatus 依次返回的状态 (用完后按 inflight 返回) */
+    statuses?: BundleStatus[];
+
+    /** 网络拥堵程度 */
+    congestion?: CongestionLevel;
+
+    /** 小费转出账户 */
+    tipPayer?: PublicKey;
+}
+
+/**
+ * 构建模拟 Jito 客户端
+ * 提交的 Bundle 依次编号为 jito-1、jito-2 ...，未指定小费策略时小费为 10000 lamports
+ * @param options 模拟配置
+ * @returns 客户端、提交时的选项和每次状态查询的 Bundle ID
+ */
+export function mockJitoClient(options: MockJitoOptions = {}) {
+    const { inflight = new Map(), history = new Map(), onChain = new Map(), statuses = [], congestion = 'low', tipPayer } = options;
+    const submitted: Partial<BundleOptions>[] = [];
+    const inflightQueries: string[][] = [];
+
+    const client = {
+        getInflightBundleStatuses: async (bundleIds: string[]) => {
+            inflightQueries.push(bundleIds);
+            return bundleIds.map(bundleId => inflight.get(bundleId) ?? { bundleId, status: BundleStatus.PENDING });
+        },
+        getBundleStatuses: async (bundleIds: string[]) => bundleIds
+            .filter(bundleId => history.has(bundleId))
+            .map(bundleId => history.get(bundleId)!),
+        getSignatureStatuses: async (signatures: string[]) => signatures.map(signature => onChain.get(signature) ?? null),
+        monitorBundleStatus: async (bundleId: string): Promise<BundleStatusResult> => statuses.length > 0
+            ? { bundleId, status: statuses.shift()!, slot: 1_000 }
+            : inflight.get(bundleId) ?? { bundleId, status: BundleStatus.PROCESSING },
+        prepareBundle: async (transactions: BundleTransaction[], bundleOptions: Partial<BundleOptions> = {}): Promise<PreparedBundle> => ({
+            transactions,
+            tipAmount: bundleOptions.tipStrategy?.amount ?? 10_000,
+            tipPayer,
+            options: bundleOptions
+        }),
+        sendPreparedBundle: async ({ transactions, tipAmount, options: bundleOptions }: PreparedBundle) => {
+            submitted.push(bundleOptions);
+            return {
+                bundleId: `jito-${submitted.length}`,
+                status: 'submitted',
+                estimatedConfirmationTime: 2000,
+                tipAmount,
+                tipPayer,
+                transactionCount: transactions.length
+            };
+        },
+        getSlot: async () => 998,
+        getNetworkStatus: () => ({ isHealthy: true, latency: 60, congestionLevel: congestion, recommendedTipPercentile: 50, lastUpdated: new Date() })
+    };
+
+    return { client: client as unknown as EnhancedJitoClient, submitted, inflightQueries };
+}
@@ -0,0 +1,211 @@
+import { Keypair } from "@solana/web3.js";
+
+import { BundleManager } from "../core/jito/bundle-manager";
+import { TipModel } from "../core/jito/tip-model";
+import { TIP_MODEL_CONFIG } from "../config/jito-config";
+import { BundleOptions, BundleStatus } from "../types/jito/bundle-types";
+import { CongestionLevel, TipModelState, TipObservation } from "../types/jito/tip-model-types";
+import { assert, buildSignedTransfer, captureError, mockJitoClient, runTestSuite } from "./test-helpers";
+
+/**
+ * 小费模型测试套件
+ *
+ * 使用合成的历史数据和模拟的 Jito 客户端，不需要网络:
+ * 2. 模型状态序列化后恢复得到相同的结果，历史不足时不给出建议，拒绝无效的落地目标和不支持的状态版本
+ * 2. 模型状态序列化后恢复得到相同的结果，历史不足时不给出建议
+ * 3. BundleManager 按落地目标设置小费，并在 Bundle 完成后记录小费和落地结果，落地的小费记入钱包账本
+ */
+
+const PAYER = Keypair.generate();
+
+/**
+ * 可复现的伪随机数 (线性同余)
+ */
+function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296;
+    };
+}
+
+/**
+ * 生成合成历史: 2 个 slot 内落地的概率为 sigmoid(2 * (ln(tip) - ln(20000)) - congestion)，
+ * 另有 20% 的 Bundle 在 5 个 slot 内落地
+ */
+function syntheticHistory(count: number): TipObservation[] {
+    const random = createRandom(42);
+    const levels: CongestionLevel[] = ['low', 'medium', 'high'];
+
+    return Array.from({ length: count }, (_, index) => {
+        const tipAmount = Math.round(Math.exp(Math.log(2_000) + random() * Math.log(200)));
+        const congestion = levels[index % 3];
+        const fast = 1 / (1 + Math.exp(-(2 * (Math.log(tipAmount) - Math.log(20_000)) - index % 3)));
+        const outcome = random();
+        const landed = outcome < fast + 0.2;
+        return {
+            bundleId: `bundle-${index}`,
+            tipAmount,
+            landed,
+            timeToLandMs: landed ? (outcome < fast ? 700 : 1_800) : undefined,
+            congestion,
+            latency: 80,
+            recordedAt: index
+        };
+    });
+}
+
+/**
+ * 模型拟合测试
+ */
+async function testModelFit() {
+    console.log("\n🧪 开始模型拟合测试...");
+
+    try {
+        const model = new TipModel({ version: 1, observations: syntheticHistory(600) });
+
+        const low = model.recommendTip({ probability: 0.9, withinSlots: 2 }, 'low');
+        assert(low !== null, "历史充足时应给出建议");
+        // 真实模型: ln(tip) = ln(20000) + logit(0.9) / 2 ≈ 60000
+        assert(low!.tipAmount > 40_000 && low!.tipAmount < 90_000, `低拥堵 90%/2 slot 的小费应接近 60000，实际 ${low!.tipAmount}`);
+        assert(Math.abs(low!.probability - 0.9) < 0.01 && low!.sampleSize === 600, "建议应附带预测概率和样本数");
+
+        const high = model.recommendTip({ probability: 0.9, withinSlots: 2 }, 'high')!;
+        assert(high.tipAmount > low!.tipAmount, "拥堵时达到相同目标的小费应更高");
+
+        const relaxed = model.recommendTip({ probability: 0.9, withinSlots: 5 }, 'low')!;
+        assert(relaxed.tipAmount < low!.tipAmount, "允许更多 slot 时小费应更低");
+
+        const cheap = model.predictLandingProbability(5_000, 2, 'low')!;
+        const expensive = model.predictLandingProbability(100_000, 2, 'low')!;
+        assert(cheap < 0.3 && expensive > 0.9, "落地概率应随小费增加");
+
+        console.log("✅ 模型拟合测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 模型拟合测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 模型状态测试
+ */
+async function testModelState() {
+    console.log("\n🧪 开始模型状态测试...");
+
+    try {
+        const model = new TipModel();
+        syntheticHistory(300).forEach(observation => model.record(observation));
+
+        const restored = new TipModel(JSON.parse(JSON.stringify(model.serialize())));
+        const target = { probability: 0.75, withinSlots: 2 };
+        assert(restored.getObservations().length === 300, "恢复后应包含所有观测");
+        assert(restored.recommendTip(target, 'medium')!.tipAmount === model.recommendTip(target, 'medium')!.tipAmount,
+            "恢复后的模型应给出相同的建议");
+
+        const sparse = new TipModel({ version: 1, observations: syntheticHistory(10) });
+        assert(sparse.recommendTip(target, 'low') === null, "历史不足时不应给出建议");
+        assert(new TipModel().predictLandingProbability(10_000, 2, 'low') === null, "没有历史时不应预测概率");
+
+        assert((await captureError(() => model.recommendTip({ probability: 1, withinSlots: 2 }, 'low')))
+            .includes("Landing probability must be between 0 and 1"), "落地概率必须小于 1");
+        assert((await captureError(() => model.recommendTip({ probability: 0, withinSlots: 2 }, 'low')))
+            .includes("Landing probability must be between 0 and 1"), "落地概率必须大于 0");
+        assert((await captureError(() => model.recommendTip({ probability: 0.9, withinSlots: 1.5 }, 'low')))
+            .includes("withinSlots must be a positive integer"), "slot 数必须为正整数");
+
+        const unsupported = { ...model.serialize(), version: 2 } as unknown as TipModelState;
+        assert((await captureError(() => new TipModel(unsupported))).includes("Unsupported tip model state version: 2"),
+            "不支持的状态版本应被拒绝");
+
+        const bounded = new TipModel(undefined, { ...TIP_MODEL_CONFIG, MAX_OBSERVATIONS: 50 });
+        syntheticHistory(80).forEach(observation => bounded.record(observation));
+        const kept = bounded.getObservations();
+        assert(kept.length === 50 && kept[0].bundleId === "bundle-30", "应只保留最近的观测");
+
+        console.log("✅ 模型状态测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 模型状态测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 小费记录测试
+ */
+async function testBundleManagerTips() {
+    console.log("\n🧪 开始小费记录测试...");
+
+    try {
+        const landingTarget = { probability: 0.9, withinSlots: 2 };
+        const options: Partial<BundleOptions> = { tipStrategy: { mode: 'auto', percentile: 50, maxTip: 1_000_000, landingTarget } };
+
+        // 有历史: 小费由模型计算，Bundle 完成后记录结果
+        const model = new TipModel({ version: 1, observations: syntheticHistory(600) });
+        const expected = model.recommendTip(landingTarget, 'high')!.tipAmount;
+        const { client, submitted } = mockJitoClient({ congestion: 'high', statuses: [BundleStatus.LANDED, BundleStatus.FAILED], tipPayer: PAYER.publicKey });
+        const manager = new BundleManager(client, {}, undefined, model);
+
+        assert(manager.recommendTip(landingTarget)?.tipAmount === expected, "应按当前拥堵程度计算小费");
+
+        const landed = await manager.createBundle([buildSignedTransfer(PAYER)], options);
+        await manager.submitBundle(landed.id);
+        assert(submitted[0].tipStrategy?.mode === 'manual' && submitted[0].tipStrategy.amount === expected, "提交时应使用模型计算的小费");
+
+        await manager.getBundleStatus(landed.id);
+        const failed = await manager.createBundle([buildSignedTransfer(PAYER)], options);
+        await manager.submitBundle(failed.id);
+        await manager.getBundleStatus(failed.id);
+
+        const [landedRecord, failedRecord] = manager.getTipModel().getObservations().slice(-2);
+        assert(landedRecord.bundleId === "jito-1" && landedRecord.landed && landedRecord.tipAmount === expected,
+            "应记录落地的 Bundle 和支付的小费");
+        assert(landedRecord.timeToLandMs !== undefined && landedRecord.landedSlot === 1_000, "落地的 Bundle 应记录落地时间和 slot");
+        assert(landedRecord.submittedSlot === 998 && failedRecord.submittedSlot === 998, "应记录提交时的 slot");
+        assert((await manager.getBundleStatus(landed.id)).slot === 1_000, "状态查询应返回落地的 slot");
+        assert(landedRecord.congestion === 'high' && landedRecord.latency === 60, "应记录提交时的网络状况");
+        assert(!failedRecord.landed && failedRecord.timeToLandMs === undefined, "失败的 Bundle 应记录为未落地");
+        assert(manager.getLedger().get(PAYER.publicKey).tipsPaid === expected, "只有落地的 Bundle 的小费应记入小费支付者的账本");
+
+        // 没有历史: 保留自动模式，由 Jito 客户端按百分位数计算
+        const fresh = mockJitoClient({ tipPayer: PAYER.publicKey });
+        const freshManager = new BundleManager(fresh.client);
+        const bundle = await freshManager.createBundle([buildSignedTransfer(PAYER)], options);
+        await freshManager.submitBundle(bundle.id);
+        assert(fresh.submitted[0].tipStrategy?.mode === 'auto', "历史不足时应回退到百分位策略");
+
+        console.log("✅ 小费记录测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 小费记录测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("小费模型", [
+        testModelFit,
+        testModelState,
+        testBundleManagerTips
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testModelFit,
+    testModelState,
+    testBundleManagerTips,
+    runAllTests
+};
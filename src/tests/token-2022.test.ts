@@ -0,0 +1,539 @@
+import {
+    AccountInfo,
+    Keypair,
+    PublicKey,
+    TransactionInstruction
+} from "@solana/web3.js";
+import {
+    ACCOUNT_SIZE,
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    AccountLayout,
+    AccountState,
+    ExtensionType,
+    MintLayout,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+    getAssociatedTokenAddressSync,
+    getExtraAccountMetaAddress
+} from "@solana/spl-token";
+import { Wallet } from "@coral-xyz/anchor";
+import { ParsableMintInfo } from "@orca-so/common-sdk";
+import { NO_TOKEN_EXTENSION_CONTEXT, PDAUtil, PoolUtil } from "@orca-so/whirlpools-sdk";
+import BN from "bn.js";
+
+import { DEXAggregator } from "../core/aggregator/dex-aggregator";
+import { TokenMintRegistry } from "../core/account-manager/token-mint-registry";
+import { OrcaProtocol } from "../protocols/orca/orca-protocol";
+import { WhirlpoolQuoteEngine } from "../protocols/orca/whirlpool-quote-engine";
+import { RaydiumClmmProtocol } from "../protocols/raydium/raydium-clmm-protocol";
+import { RaydiumProtocol } from "../protocols/raydium/raydium-protocol";
+import { DEXProtocol, DEXQuote, SwapTokenContext } from "../types/dex/protocol";
+import { calculatePreFeeAmount, calculateTransferFee } from "../utils/token/token-utils";
+import { ORCA_SPECIFIC_CONFIG } from "../config/dex-config";
+import { buildWhirlpoolSnapshot } from "./fixtures/whirlpool-snapshots";
+import { assert, buildQuote, captureError, mockConnection, runTestSuite } from "./test-helpers";
+
+/**
+ * Token-2022 支持测试套件
+ *
+ * 使用模拟的 RPC 连接 (链上账户为按代币程序布局编码的数据)，不需要网络:
+ * 1. 识别mint所属的代币程序，按正确的程序推导和创建关联代币账户，拒绝不可转让代币
+ * 2. 报价扣除转账费 (精确输入扣除输出，精确输出按含转账费的金额报价)
+ * 3. Orca 本地报价已计入转账费，聚合器不重复调整
+ * 4. 交换指令追加转账钩子账户
+ * 5. Orca / Raydium CLMM 按mint所属的代币程序构建 v2 交换指令，Raydium AMM v4 拒绝 Token-2022 代币
+ */
+
+const OWNER = Keypair.generate().publicKey;
+const POOL_AUTHORITY = Keypair.generate().publicKey;
+const HOOK_PROGRAM = Keypair.generate().publicKey;
+const HOOK_EXTRA_ACCOUNT = Keypair.generate().publicKey;
+const PROGRAM_ID = Keypair.generate().publicKey;
+
+/** 输入输出 1:2 的模拟兑换率 */
+const RATE = 2;
+
+/**
+ * 编码 Token-2022 mint账户 (基础布局 + 账户类型 + TLV 扩展)
+ * @param extensions 扩展类型和数据
+ */
+function encodeMint(programId: PublicKey, extensions: [ExtensionType, Buffer][] = []): AccountInfo<Buffer> {
+    const base = Buffer.alloc(MintLayout.span);
+    MintLayout.encode({
+        mintAuthorityOption: 0,
+        mintAuthority: PublicKey.default,
+        supply: BigInt(1_000_000_000),
+        decimals: 6,
+        isInitialized: true,
+        freezeAuthorityOption: 0,
+        freezeAuthority: PublicKey.default
+    }, base);
+
+    let data = base;
+    if (extensions.length > 0) {
+        const tlv = extensions.map(([type, value]) => {
+            const header = Buffer.alloc(4);
+            header.writeUInt16LE(type, 0);
+            header.writeUInt16LE(value.length, 2);
+            return Buffer.concat([header, value]);
+        });
+        // mint基础数据补齐到代币账户大小后写入账户类型 (1 = Mint)
+        data = Buffer.concat([base, Buffer.alloc(ACCOUNT_SIZE - MintLayout.span), Buffer.from([1]), ...tlv]);
+    }
+
+    return { data, owner: programId, lamports: 1_000_000, executable: false };
+}
+
+/**
+ * 编码转账费扩展
+ */
+function transferFeeExtension(basisPoints: number, maximumFee: number): [ExtensionType, Buffer] {
+    const value = Buffer.alloc(108);
+    const writeFee = (offset: number) => {
+        value.writeBigUInt64LE(BigInt(0), offset);
+        value.writeBigUInt64LE(BigInt(maximumFee), offset + 8);
+        value.writeUInt16LE(basisPoints, offset + 16);
+    };
+    writeFee(72);
+    writeFee(90);
+    return [ExtensionType.TransferFeeConfig, value];
+}
+
+/**
+ * 编码转账钩子扩展
+ */
+function transferHookExtension(programId: PublicKey): [ExtensionType, Buffer] {
+    return [ExtensionType.TransferHook, Buffer.concat([PublicKey.default.toBuffer(), programId.toBuffer()])];
+}
+
+/**
+ * 编码代币账户
+ */
+function encodeTokenAccount(mint: PublicKey, owner: PublicKey, programId: PublicKey): AccountInfo<Buffer> {
+    const data = Buffer.alloc(ACCOUNT_SIZE);
+    AccountLayout.encode({
+        mint,
+        owner,
+        amount: BigInt(0),
+        delegateOption: 0,
+        delegate: PublicKey.default,
+        state: AccountState.Initialized,
+        isNativeOption: 0,
+        isNative: BigInt(0),
+        delegatedAmount: BigInt(0),
+        closeAuthorityOption: 0,
+        closeAuthority: PublicKey.default
+    }, data);
+    return { data, owner: programId, lamports: 2_039_280, executable: false };
+}
+
+/**
+ * 编码转账钩子的额外账户列表 (一个固定地址的只读账户)
+ */
+function encodeExtraAccountMetas(): AccountInfo<Buffer> {
+    const meta = Buffer.concat([Buffer.from([0]), HOOK_EXTRA_ACCOUNT.toBuffer(), Buffer.from([0, 0])]);
+    const list = Buffer.alloc(4);
+    list.writeUInt32LE(1, 0);
+    const header = Buffer.alloc(12);
+    header.writeUInt32LE(list.length + meta.length, 8);
+    return { data: Buffer.concat([header, list, meta]), owner: HOOK_PROGRAM, lamports: 1_000_000, executable: false };
+}
+
+/**
+ * 构建只报价指定交易对的模拟协议 (报价不含转账费)
+ * 交换指令包含池子金库、池子权限和两个mint，之后依次是输入和输出转账的钩子账户
+ */
+function mockProtocol(mintA: PublicKey, mintB: PublicKey, vaultA: PublicKey, vaultB: PublicKey) {
+    const requested: BN[] = [];
+    const quote = (inputAmount: BN, outputAmount: BN, swapMode: 'ExactIn' | 'ExactOut'): DEXQuote => buildQuote({
+        dexName: "Raydium CPMM",
+        inputAmount,
+        outputAmount,
+        fee: new BN(0),
+        route: [mintA, mintB],
+        swapMode,
+        maxInputAmount: swapMode === 'ExactOut' ? inputAmount.muln(101).divn(100) : undefined
+    });
+    const checkPair = (tokenA: PublicKey, tokenB: PublicKey) => {
+        if (!tokenA.equals(mintA) || !tokenB.equals(mintB)) {
+            throw new Error("无池子");
+        }
+    };
+
+    const protocol: DEXProtocol = {
+        name: "Raydium CPMM",
+        programId: PROGRAM_ID,
+        getQuote: async (tokenA, tokenB, amount) => {
+            checkPair(tokenA, tokenB);
+            requested.push(amount);
+            return quote(amount, amount.muln(RATE), 'ExactIn');
+        },
+        getQuoteExactOut: async (tokenA, tokenB, outputAmount) => {
+            checkPair(tokenA, tokenB);
+            requested.push(outputAmount);
+            return quote(outputAmount.divn(RATE), outputAmount, 'ExactOut');
+        },
+        buildSwapInstruction: async (swapQuote, userWallet, tokenAccountA, tokenAccountB, tokens) => new TransactionInstruction({
+            programId: PROGRAM_ID,
+            keys: [
+                { pubkey: userWallet, isSigner: true, isWritable: false },
+                { pubkey: POOL_AUTHORITY, isSigner: false, isWritable: false },
+                { pubkey: tokenAccountA, isSigner: false, isWritable: true },
+                { pubkey: tokenAccountB, isSigner: false, isWritable: true },
+                { pubkey: vaultA, isSigner: false, isWritable: true },
+                { pubkey: vaultB, isSigner: false, isWritable: true },
+                { pubkey: mintA, isSigner: false, isWritable: false },
+                { pubkey: mintB, isSigner: false, isWritable: false },
+                ...await tokens.resolveTransferHookAccounts(tokens.inputMint, tokenAccountA, vaultA, userWallet, swapQuote.inputAmount),
+                ...await tokens.resolveTransferHookAccounts(tokens.outputMint, vaultB, tokenAccountB, POOL_AUTHORITY, swapQuote.outputAmount)
+            ],
+            data: Buffer.alloc(8)
+        })
+    };
+    return { protocol, requested };
+}
+
+/**
+ * 代币程序识别测试
+ */
+async function testTokenProgramDetection() {
+    console.log("\n🧪 开始代币程序识别测试...");
+
+    try {
+        const classicMint = Keypair.generate().publicKey;
+        const token2022Mint = Keypair.generate().publicKey;
+        const lockedMint = Keypair.generate().publicKey;
+        const accounts = new Map([
+            [classicMint.toBase58(), encodeMint(TOKEN_PROGRAM_ID)],
+            [token2022Mint.toBase58(), encodeMint(TOKEN_2022_PROGRAM_ID)],
+            [lockedMint.toBase58(), encodeMint(TOKEN_2022_PROGRAM_ID, [[ExtensionType.NonTransferable, Buffer.alloc(0)]])]
+        ]);
+        const connection = mockConnection(accounts);
+
+        const registry = new TokenMintRegistry(connection);
+        const [classic, token2022, locked] = await registry.getMintInfos([classicMint, token2022Mint, lockedMint]);
+        assert(classic.programId.equals(TOKEN_PROGRAM_ID), "SPL Token mint应识别为 SPL Token 程序");
+        assert(token2022.programId.equals(TOKEN_2022_PROGRAM_ID) && token2022.decimals === 6, "Token-2022 mint应识别为 Token-2022 程序");
+        assert(locked.nonTransferable, "应识别不可转让扩展");
+
+        const expectedAta = getAssociatedTokenAddressSync(token2022Mint, OWNER, false, TOKEN_2022_PROGRAM_ID);
+        assert((await registry.getAssociatedTokenAddress(token2022Mint, OWNER)).equals(expectedAta), "应按 Token-2022 程序推导关联代币账户");
+
+        // 交换交易按各自的代币程序创建关联代币账户
+        const { protocol } = mockProtocol(classicMint, token2022Mint, Keypair.generate().publicKey, Keypair.generate().publicKey);
+        const aggregator = new DEXAggregator(connection, [protocol]);
+        const route = await aggregator.getAggregatedQuote(classicMint, token2022Mint, new BN(1_000_000), 0.01);
+        const { transaction } = await aggregator.buildVersionedSwapTransaction(route, OWNER, classicMint, token2022Mint);
+        const { message } = transaction;
+
+        const ataCreations = message.compiledInstructions.filter(instruction =>
+            message.staticAccountKeys[instruction.programIdIndex].equals(ASSOCIATED_TOKEN_PROGRAM_ID)
+        );
+        const created = ataCreations.map(instruction => ({
+            account: message.staticAccountKeys[instruction.accountKeyIndexes[1]],
+            tokenProgram: message.staticAccountKeys[instruction.accountKeyIndexes[5]]
+        }));
+        assert(created.length === 2, "应创建两个代币账户");
+        assert(created[0].tokenProgram.equals(TOKEN_PROGRAM_ID), "SPL Token 账户应由 SPL Token 程序创建");
+        assert(created[1].tokenProgram.equals(TOKEN_2022_PROGRAM_ID) && created[1].account.equals(expectedAta),
+            "Token-2022 账户应由 Token-2022 程序创建");
+
+        let rejected = false;
+        try {
+            await aggregator.getAggregatedQuote(classicMint, lockedMint, new BN(1_000_000), 0.01);
+        } catch (error) {
+            rejected = String(error).includes('不可转让');
+        }
+        assert(rejected, "不可转让代币应拒绝报价");
+
+        console.log("✅ 代币程序识别测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 代币程序识别测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 转账费报价测试
+ */
+async function testTransferFeeQuotes() {
+    console.log("\n🧪 开始转账费报价测试...");
+
+    try {
+        const fee = { basisPoints: 100, maximumFee: new BN(50_000) };
+        assert(calculateTransferFee(new BN(1_000_001), fee).eqn(10_001), "转账费应向上取整");
+        assert(calculateTransferFee(new BN(100_000_000), fee).eqn(50_000), "转账费不应超过上限");
+        const gross = calculatePreFeeAmount(new BN(990_000), fee);
+        assert(gross.sub(calculateTransferFee(gross, fee)).eqn(990_000), "含费金额扣费后应等于期望到账金额");
+
+        const feeMintA = Keypair.generate().publicKey;
+        const feeMintB = Keypair.generate().publicKey;
+        const accounts = new Map([
+            [feeMintA.toBase58(), encodeMint(TOKEN_2022_PROGRAM_ID, [transferFeeExtension(100, 1_000_000)])],
+            [feeMintB.toBase58(), encodeMint(TOKEN_2022_PROGRAM_ID, [transferFeeExtension(50, 1_000_000)])]
+        ]);
+        const { protocol, requested } = mockProtocol(feeMintA, feeMintB, Keypair.generate().publicKey, Keypair.generate().publicKey);
+        const aggregator = new DEXAggregator(mockConnection(accounts), [protocol]);
+
+        // 精确输入: 池子收到 990_000，转出 1_980_000，用户到账扣除 0.5%
+        const exactIn = await aggregator.getAggregatedQuote(feeMintA, feeMintB, new BN(1_000_000), 0.01);
+        const { bestQuote } = exactIn;
+        assert(bestQuote.inputAmount.eqn(1_000_000), "精确输入的输入金额不变");
+        assert(bestQuote.transferFees!.input.eqn(10_000), "输入转账费应为 1%");
+        assert(bestQuote.transferFees!.output.eqn(9_900), "输出转账费应按池子转出金额计算");
+        assert(bestQuote.outputAmount.eqn(1_980_000 - 9_900), "输出金额应扣除两端的转账费");
+
+        // 精确输出: 按含输出转账费的金额报价，输入计入输入转账费
+        requested.length = 0;
+        const exactOut = await aggregator.getAggregatedQuoteExactOut(feeMintA, feeMintB, new BN(1_990_000), 0.01);
+        const poolOutput = calculatePreFeeAmount(new BN(1_990_000), { basisPoints: 50, maximumFee: new BN(1_000_000) });
+        assert(requested.length === 1 && requested[0].eq(poolOutput), "应按含输出转账费的金额向协议报价");
+        assert(exactOut.bestQuote.outputAmount.sub(exactOut.bestQuote.transferFees!.output).eqn(1_990_000),
+            "池子转出金额扣除转账费后应等于期望输出");
+        const poolInput = poolOutput.divn(RATE);
+        assert(exactOut.bestQuote.inputAmount.eq(calculatePreFeeAmount(poolInput, { basisPoints: 100, maximumFee: new BN(1_000_000) })),
+            "输入金额应计入输入转账费");
+        assert(exactOut.bestQuote.maxInputAmount!.gt(exactOut.bestQuote.inputAmount), "最大输入应大于输入金额");
+
+        console.log("✅ 转账费报价测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 转账费报价测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * Orca 转账费报价测试
+ * 夹具池子的两端换成带转账费的 Token-2022 代币，报价走 OrcaProtocol 的本地报价引擎
+ */
+async function testOrcaTransferFeeQuotes() {
+    console.log("\n🧪 开始 Orca 转账费报价测试...");
+
+    try {
+        const inputFee = { basisPoints: 100, maximumFee: new BN(1_000_000) };
+        const outputFee = { basisPoints: 50, maximumFee: new BN(1_000_000) };
+        const [mintA, mintB] = PoolUtil.orderMints(Keypair.generate().publicKey, Keypair.generate().publicKey)
+            .map(mint => new PublicKey(mint));
+        const mintAccountA = encodeMint(TOKEN_2022_PROGRAM_ID, [transferFeeExtension(100, 1_000_000)]);
+        const mintAccountB = encodeMint(TOKEN_2022_PROGRAM_ID, [transferFeeExtension(50, 1_000_000)]);
+        const poolAddress = PDAUtil.getWhirlpool(ORCA_SPECIFIC_CONFIG.WHIRLPOOL_PROGRAM_ID, ORCA_SPECIFIC_CONFIG.WHIRLPOOLS_CONFIGS[0],
+            mintA, mintB, ORCA_SPECIFIC_CONFIG.DEFAULT_TICK_SPACING).publicKey;
+        const connection = mockConnection(new Map([
+            [mintA.toBase58(), mintAccountA],
+            [mintB.toBase58(), mintAccountB],
+            [poolAddress.toBase58(), { data: Buffer.alloc(0), owner: ORCA_SPECIFIC_CONFIG.WHIRLPOOL_PROGRAM_ID, lamports: 1_000_000, executable: false }]
+        ]));
+
+        // 转账费上下文与账户缓存从链上加载时一致
+        const snapshot = buildWhirlpoolSnapshot(new BN("1000000000000"));
+        snapshot.address = poolAddress;
+        snapshot.whirlpool.tokenMintA = mintA;
+        snapshot.whirlpool.tokenMintB = mintB;
+        snapshot.tokenExtensionCtx = {
+            currentEpoch: 500,
+            tokenMintWithProgramA: ParsableMintInfo.parse(mintA, mintAccountA)!,
+            tokenMintWithProgramB: ParsableMintInfo.parse(mintB, mintAccountB)!
+        };
+        snapshot.fetchedAt = Date.now();
+
+        const orca = new OrcaProtocol(connection, new Wallet(Keypair.generate()));
+        orca["_accountCache"].setSnapshot(snapshot);
+        const aggregator = new DEXAggregator(connection, [orca]);
+
+        // 精确输入: 池子收到扣除输入转账费后的金额，用户到账再扣除输出转账费
+        const amount = new BN(1_000_000);
+        const orcaQuote = await orca.getQuote(mintA, mintB, amount, 0.01);
+        const engine = new WhirlpoolQuoteEngine(ORCA_SPECIFIC_CONFIG.WHIRLPOOL_PROGRAM_ID);
+        const poolQuote = engine.quoteExactIn({ ...snapshot, tokenExtensionCtx: NO_TOKEN_EXTENSION_CONTEXT }, mintA,
+            amount.sub(calculateTransferFee(amount, inputFee)), 0.01);
+        assert(orcaQuote.outputAmount.eq(poolQuote.amountOut.sub(calculateTransferFee(poolQuote.amountOut, outputFee))),
+            "Orca 报价应已扣除两端的转账费");
+
+        const exactIn = await aggregator.getAggregatedQuote(mintA, mintB, amount, 0.01);
+        assert(exactIn.bestQuote.outputAmount.eq(orcaQuote.outputAmount), "聚合器不应重复扣除 Orca 报价的转账费");
+
+        // 精确输出: 按用户到账金额询价，输入和最大输入不重复计入输入转账费
+        const outputAmount = new BN(990_000);
+        const orcaExactOut = await orca.getQuoteExactOut(mintA, mintB, outputAmount, 0.01);
+        const exactOut = await aggregator.getAggregatedQuoteExactOut(mintA, mintB, outputAmount, 0.01);
+        assert(exactOut.bestQuote.inputAmount.eq(orcaExactOut.inputAmount), "聚合器不应重复计入 Orca 报价的输入转账费");
+        assert(exactOut.bestQuote.maxInputAmount!.eq(orcaExactOut.maxInputAmount!), "最大输入不应重复计入输入转账费");
+
+        console.log("✅ Orca 转账费报价测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ Orca 转账费报价测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 转账钩子账户测试
+ */
+async function testTransferHookAccounts() {
+    console.log("\n🧪 开始转账钩子账户测试...");
+
+    try {
+        const hookMint = Keypair.generate().publicKey;
+        const plainMint = Keypair.generate().publicKey;
+        const hookVault = Keypair.generate().publicKey;
+        const plainVault = Keypair.generate().publicKey;
+        const validationAccount = getExtraAccountMetaAddress(hookMint, HOOK_PROGRAM);
+
+        const accounts = new Map([
+            [hookMint.toBase58(), encodeMint(TOKEN_2022_PROGRAM_ID, [transferHookExtension(HOOK_PROGRAM)])],
+            [plainMint.toBase58(), encodeMint(TOKEN_PROGRAM_ID)],
+            [hookVault.toBase58(), encodeTokenAccount(hookMint, POOL_AUTHORITY, TOKEN_2022_PROGRAM_ID)],
+            [plainVault.toBase58(), encodeTokenAccount(plainMint, POOL_AUTHORITY, TOKEN_PROGRAM_ID)],
+            [validationAccount.toBase58(), encodeExtraAccountMetas()]
+        ]);
+        const connection = mockConnection(accounts);
+
+        // 卖出带钩子的代币: 用户账户 → 池子金库
+        const { protocol } = mockProtocol(hookMint, plainMint, hookVault, plainVault);
+        const aggregator = new DEXAggregator(connection, [protocol]);
+        const route = await aggregator.getAggregatedQuote(hookMint, plainMint, new BN(1_000_000), 0.01);
+        const instructions = await aggregator.buildCompleteSwapTransaction(route, OWNER, hookMint, plainMint);
+        const swap = instructions[instructions.length - 1];
+
+        const appended = swap.keys.slice(8).map(meta => meta.pubkey);
+        assert(appended.length === 3, "应追加额外账户、钩子程序和验证账户");
+        assert(appended[0].equals(HOOK_EXTRA_ACCOUNT), "应追加钩子声明的额外账户");
+        assert(appended[1].equals(HOOK_PROGRAM) && appended[2].equals(validationAccount), "应追加钩子程序和验证账户");
+        assert(swap.keys.slice(8).every(meta => !meta.isSigner), "钩子账户不应要求签名");
+
+        // 买入带钩子的代币: 池子金库 → 用户账户，同样追加钩子账户
+        const reverse = mockProtocol(plainMint, hookMint, plainVault, hookVault);
+        const reverseAggregator = new DEXAggregator(connection, [reverse.protocol]);
+        const reverseRoute = await reverseAggregator.getAggregatedQuote(plainMint, hookMint, new BN(1_000_000), 0.01);
+        const reverseInstructions = await reverseAggregator.buildCompleteSwapTransaction(reverseRoute, OWNER, plainMint, hookMint);
+        const reverseSwap = reverseInstructions[reverseInstructions.length - 1];
+        assert(reverseSwap.keys.length === 11 && reverseSwap.keys[9].pubkey.equals(HOOK_PROGRAM), "买入时也应追加钩子账户");
+
+        console.log("✅ 转账钩子账户测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 转账钩子账户测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * v2 交换指令测试
+ */
+async function testV2SwapInstructions() {
+    console.log("\n🧪 开始 v2 交换指令测试...");
+
+    try {
+        const hookMint = Keypair.generate().publicKey;
+        const plainMint = Keypair.generate().publicKey;
+        const validationAccount = getExtraAccountMetaAddress(hookMint, HOOK_PROGRAM);
+        const connection = mockConnection(new Map([
+            [hookMint.toBase58(), encodeMint(TOKEN_2022_PROGRAM_ID, [transferHookExtension(HOOK_PROGRAM)])],
+            [plainMint.toBase58(), encodeMint(TOKEN_PROGRAM_ID)],
+            [validationAccount.toBase58(), encodeExtraAccountMetas()]
+        ]));
+        const registry = new TokenMintRegistry(connection);
+        const [hookInfo, plainInfo] = await registry.getMintInfos([hookMint, plainMint]);
+        const tokens: SwapTokenContext = {
+            inputMint: hookInfo,
+            outputMint: plainInfo,
+            resolveTransferHookAccounts: (info, source, destination, owner, amount) =>
+                registry.getTransferHookAccounts(info, source, destination, owner, amount)
+        };
+        const [userAccountA, userAccountB] = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+        const [whirlpool, vaultA, vaultB, oracle] = [0, 1, 2, 3].map(() => Keypair.generate().publicKey);
+        const tickArrays = [0, 1, 2].map(() => Keypair.generate().publicKey);
+
+        // Orca swapV2: 卖出 Token-2022 (A→B)，代币A属于 Token-2022 并带转账钩子
+        const orca = new OrcaProtocol(connection, new Wallet(Keypair.generate()));
+        const orcaQuote = buildQuote({
+            dexName: "Orca",
+            fee: new BN(0),
+            route: [hookMint, plainMint],
+            slippage: 0.02,
+            payload: { whirlpool, aToB: true, tokenMintA: hookMint, tokenMintB: plainMint, tokenVaultA: vaultA, tokenVaultB: vaultB, oracle, tickArrays }
+        });
+        const orcaSwap = await orca.buildSwapInstruction(orcaQuote, OWNER, userAccountA, userAccountB, tokens);
+        const orcaKeys = orcaSwap.keys.map(meta => meta.pubkey);
+        assert(orcaSwap.programId.equals(orca.programId), "应使用 Whirlpool 程序");
+        assert(new BN(orcaSwap.data.subarray(16, 24), 'le').eq(new BN(1_960_000)), "最小输出应按报价请求的滑点计算");
+        assert(orcaKeys[0].equals(TOKEN_2022_PROGRAM_ID) && orcaKeys[1].equals(TOKEN_PROGRAM_ID), "应按两端mint传入各自的代币程序");
+        assert(orcaKeys[3].equals(OWNER) && orcaKeys[4].equals(whirlpool), "授权账户和池子应在代币程序和 Memo 程序之后");
+        assert(orcaKeys[5].equals(hookMint) && orcaKeys[6].equals(plainMint), "应传入两端mint");
+        assert([userAccountA, vaultA, userAccountB, vaultB].every((key, index) => orcaKeys[7 + index].equals(key)), "用户账户和金库应按 A、B 成对排列");
+        assert(tickArrays.every((key, index) => orcaKeys[11 + index].equals(key)) && orcaKeys[14].equals(oracle), "tick arrays 之后应为 oracle");
+        const hookAccounts = orcaKeys.slice(15);
+        assert(hookAccounts.some(key => key.equals(HOOK_EXTRA_ACCOUNT)) && hookAccounts.some(key => key.equals(HOOK_PROGRAM)) && hookAccounts.some(key => key.equals(validationAccount)),
+            "转账钩子账户应作为 TransferHookA 剩余账户传入");
+
+        // 池子代币与交换代币不一致时拒绝构建
+        const mismatched = { ...orcaQuote, payload: { ...(orcaQuote.payload as object), tokenMintA: plainMint, tokenMintB: hookMint } };
+        assert(await captureError(() => orca.buildSwapInstruction(mismatched, OWNER, userAccountA, userAccountB, tokens)) !== "",
+            "代币与池子不一致时应拒绝构建");
+
+        // Raydium CLMM swap_v2: 传入两个代币程序、Memo 程序和两端mint
+        const plainTokens: SwapTokenContext = { ...tokens, inputMint: { ...hookInfo, transferHookProgramId: undefined } };
+        const clmm = new RaydiumClmmProtocol(connection);
+        const clmmQuote: DEXQuote = {
+            ...orcaQuote,
+            dexName: "Raydium CLMM",
+            payload: { poolAddress: whirlpool, ammConfig: oracle, inputVault: vaultA, outputVault: vaultB, observationId: oracle, exBitmapAddress: oracle, tickArrays }
+        };
+        const clmmSwap = await clmm.buildSwapInstruction(clmmQuote, OWNER, userAccountA, userAccountB, plainTokens);
+        const clmmKeys = clmmSwap.keys.map(meta => meta.pubkey);
+        assert(clmmSwap.data.subarray(0, 8).equals(Buffer.from([43, 4, 237, 11, 26, 201, 30, 98])), "应编码 swap_v2 指令");
+        assert(new BN(clmmSwap.data.subarray(16, 24), 'le').eq(new BN(1_960_000)), "最小输出应按报价请求的滑点计算");
+        assert(clmmKeys[8].equals(TOKEN_PROGRAM_ID) && clmmKeys[9].equals(TOKEN_2022_PROGRAM_ID), "应传入 SPL Token 和 Token-2022 程序");
+        assert(clmmKeys[11].equals(hookMint) && clmmKeys[12].equals(plainMint), "代币程序和 Memo 程序之后应为两端mint");
+        assert(await captureError(() => clmm.buildSwapInstruction(clmmQuote, OWNER, userAccountA, userAccountB, tokens)) !== "",
+            "Raydium CLMM 应拒绝带转账钩子的代币");
+
+        // Raydium AMM v4 没有 v2 交换指令，拒绝 Token-2022 代币
+        const amm = new RaydiumProtocol(connection);
+        const ammError = await captureError(() => amm.buildSwapInstruction(
+            { ...orcaQuote, dexName: "Raydium", payload: { poolAddress: whirlpool } }, OWNER, userAccountA, userAccountB, plainTokens
+        ));
+        assert(ammError.includes("不支持 Token-2022"), "Raydium AMM v4 应拒绝 Token-2022 代币");
+
+        console.log("✅ v2 交换指令测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ v2 交换指令测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("Token-2022 支持", [
+        testTokenProgramDetection,
+        testTransferFeeQuotes,
+        testOrcaTransferFeeQuotes,
+        testTransferHookAccounts,
+        testV2SwapInstructions
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testTokenProgramDetection,
+    testTransferFeeQuotes,
+    testOrcaTransferFeeQuotes,
+    testTransferHookAccounts,
+    testV2SwapInstructions,
+    runAllTests
+};
@@ -0,0 +1,238 @@
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    SystemProgram,
+    TransactionInstruction,
+    VersionedTransaction
+} from "@solana/web3.js";
+
+import { TransactionAssembler } from "../core/transaction/transaction-assembler";
+import { EnhancedJitoClient } from "../core/jito/jito-client";
+import { TRANSACTION_ASSEMBLY_CONFIG } from "../config/dex-config";
+import { JITO_DONT_FRONT_ACCOUNT } from "../config/jito-config";
+import { assert, buildLookupTable, runTestSuite } from "./test-helpers";
+
+/**
+ * 交易组装器测试套件
+ *
+ * 使用本地构造的指令和查找表，不需要网络:
+ * 1. 序列化大小计算与实际序列化一致
+ * 2. 查找表压缩账户，只保留实际引用的查找表
+ * 3. 超出大小上限时报告而不抛错
+ * 4. 查找表读取缓存并跳过不可用的查找表
+ * 5. 请求前置交易保护时加入只读的 jitodontfront 账户，缺少该账户的 Bundle 提交被拒绝
+ */
+
+const PAYER = Keypair.generate().publicKey;
+const BLOCKHASH = Keypair.generate().publicKey.toBase58();
+const PROGRAM_ID = Keypair.generate().publicKey;
+
+/**
+ * 构建引用指定账户的指令
+ */
+function buildInstruction(accounts: PublicKey[]): TransactionInstruction {
+    return new TransactionInstruction({
+        programId: PROGRAM_ID,
+        keys: accounts.map(pubkey => ({ pubkey, isSigner: false, isWritable: true })),
+        data: Buffer.alloc(16)
+    });
+}
+
+/**
+ * 生成随机账户
+ */
+function randomAccounts(count: number): PublicKey[] {
+    return Array.from({ length: count }, () => Keypair.generate().publicKey);
+}
+
+/**
+ * 序列化大小测试
+ */
+async function testSerializedSize() {
+    console.log("\n🧪 开始序列化大小测试...");
+
+    try {
+        const assembler = new TransactionAssembler({} as Connection);
+        const instructions = [
+            SystemProgram.transfer({ fromPubkey: PAYER, toPubkey: Keypair.generate().publicKey, lamports: 1000 }),
+            buildInstruction(randomAccounts(5))
+        ];
+
+        const assembled = assembler.compile(instructions, PAYER, BLOCKHASH);
+        assert(assembled.transaction.version === 0, "应生成 v0 交易");
+        assert(assembled.serializedSize === assembled.transaction.serialize().length, "计算的大小应与实际序列化一致");
+        assert(assembled.withinSizeLimit, "小交易应在大小上限内");
+        assert(assembled.recentBlockhash === BLOCKHASH, "应使用指定的区块哈希");
+
+        console.log("✅ 序列化大小测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 序列化大小测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 查找表压缩测试
+ */
+async function testLookupTableCompression() {
+    console.log("\n🧪 开始查找表压缩测试...");
+
+    try {
+        const assembler = new TransactionAssembler({} as Connection);
+        const accounts = randomAccounts(20);
+        const instructions = [buildInstruction(accounts)];
+
+        const withoutTables = assembler.compile(instructions, PAYER, BLOCKHASH);
+        const usedTable = buildLookupTable(accounts);
+        const unusedTable = buildLookupTable(randomAccounts(3));
+        const withTables = assembler.compile(instructions, PAYER, BLOCKHASH, [usedTable, unusedTable]);
+
+        assert(withTables.serializedSize < withoutTables.serializedSize, "查找表应减小交易大小");
+        assert(withTables.serializedSize === withTables.transaction.serialize().length, "计算的大小应与实际序列化一致");
+        assert(withTables.lookupTables.length === 1, "只应保留实际引用的查找表");
+        assert(withTables.lookupTables[0].key.equals(usedTable.key), "保留的应为包含交易账户的查找表");
+
+        console.log(`   无查找表: ${withoutTables.serializedSize} 字节，使用查找表: ${withTables.serializedSize} 字节`);
+        console.log("✅ 查找表压缩测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 查找表压缩测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 超出大小上限测试
+ */
+async function testOversizedTransaction() {
+    console.log("\n🧪 开始超出大小上限测试...");
+
+    try {
+        const assembler = new TransactionAssembler({} as Connection);
+        const instructions = [0, 1, 2].map(() => buildInstruction(randomAccounts(15)));
+
+        const assembled = assembler.compile(instructions, PAYER, BLOCKHASH);
+        assert(!assembled.withinSizeLimit, "超出上限的交易应被标记");
+        assert(assembled.serializedSize > TRANSACTION_ASSEMBLY_CONFIG.MAX_TRANSACTION_SIZE, "应报告实际大小");
+
+        console.log(`   交易大小: ${assembled.serializedSize}/${assembled.maxSize} 字节`);
+        console.log("✅ 超出大小上限测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 超出大小上限测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 查找表读取测试
+ */
+async function testLoadLookupTables() {
+    console.log("\n🧪 开始查找表读取测试...");
+
+    try {
+        const table = buildLookupTable(randomAccounts(2));
+        const missing = Keypair.generate().publicKey;
+        let fetchCount = 0;
+
+        const connection = {
+            getAddressLookupTable: async (address: PublicKey) => {
+                fetchCount++;
+                return { context: { slot: 1 }, value: address.equals(table.key) ? table : null };
+            }
+        } as unknown as Connection;
+
+        const assembler = new TransactionAssembler(connection);
+        const first = await assembler.loadLookupTables([table.key, missing, table.key]);
+        assert(first.length === 1 && first[0].key.equals(table.key), "应跳过不存在的查找表并去重");
+        assert(fetchCount === 2, "重复地址只应读取一次");
+
+        const second = await assembler.loadLookupTables([table.key]);
+        assert(second.length === 1, "缓存的查找表应可用");
+        assert(fetchCount === 2, "有效期内应使用缓存");
+
+        console.log("✅ 查找表读取测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 查找表读取测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 前置交易保护测试
+ */
+async function testDontFrontAccount() {
+    console.log("\n🧪 开始前置交易保护测试...");
+
+    try {
+        const assembler = new TransactionAssembler({} as Connection);
+        const instructions = [buildInstruction(randomAccounts(2)), buildInstruction(randomAccounts(2))];
+        const originalKeyCount = instructions[0].keys.length;
+
+        const assembled = await assembler.assemble(instructions, PAYER, { recentBlockhash: BLOCKHASH, dontFront: true });
+        const message = assembled.transaction.message;
+        const index = message.staticAccountKeys.findIndex(key => key.equals(JITO_DONT_FRONT_ACCOUNT));
+        assert(index >= 0, "jitodontfront 账户应为静态账户");
+        assert(!message.isAccountWritable(index) && !message.isAccountSigner(index), "jitodontfront 账户应为只读");
+        assert(message.compiledInstructions[0].accountKeyIndexes.includes(index), "jitodontfront 账户应加入第一个指令");
+        assert(!message.compiledInstructions[1].accountKeyIndexes.includes(index), "其余指令不应包含 jitodontfront 账户");
+        assert(instructions[0].keys.length === originalKeyCount, "不应修改传入的指令");
+
+        const unprotected = await assembler.assemble(instructions, PAYER, { recentBlockhash: BLOCKHASH });
+        assert(!unprotected.transaction.message.staticAccountKeys.some(key => key.equals(JITO_DONT_FRONT_ACCOUNT)), "未请求保护时不应加入账户");
+
+        // 启用 MEV 保护时，缺少 jitodontfront 账户的 Bundle 在发送前被拒绝
+        const signer = Keypair.generate();
+        const sign = (transaction: VersionedTransaction) => {
+            const signed = new VersionedTransaction(transaction.message);
+            signed.sign([signer]);
+            return signed;
+        };
+        const payerSigned = (await assembler.assemble(instructions, signer.publicKey, { recentBlockhash: BLOCKHASH })).transaction;
+        const client = new EnhancedJitoClient({ network: 'devnet' });
+        const rejected = await client.sendBundle([sign(payerSigned)], { enableMevProtection: true, maxRetries: 0 })
+            .finally(() => client.stop());
+        assert(rejected.status === 'failed' && (rejected.error ?? '').includes('jitodontfront'), "缺少 jitodontfront 账户的 Bundle 应被拒绝");
+
+        console.log("✅ 前置交易保护测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 前置交易保护测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("交易组装器", [
+        testSerializedSize,
+        testLookupTableCompression,
+        testOversizedTransaction,
+        testLoadLookupTables,
+        testDontFrontAccount
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testSerializedSize,
+    testLookupTableCompression,
+    testOversizedTransaction,
+    testLoadLookupTables,
+    testDontFrontAccount,
+    runAllTests
+};
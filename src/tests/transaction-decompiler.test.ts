@@ -0,0 +1,316 @@
+import {
+    AddressLookupTableAccount,
+    ComputeBudgetProgram,
+    Connection,
+    Keypair,
+    PublicKey,
+    SystemProgram,
+    Transaction,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction
+} from "@solana/web3.js";
+import {
+    createAssociatedTokenAccountIdempotentInstruction,
+    createCloseAccountInstruction,
+    getAssociatedTokenAddressSync,
+    NATIVE_MINT
+} from "@solana/spl-token";
+
+import { TransactionDecompiler } from "../core/transaction/transaction-decompiler";
+import { AdvancedInstructionBuilder } from "../utils/advanced-instruction-builder";
+import { JUPITER_CONFIG } from "../config/dex-config";
+import { MAINNET_TIP_ACCOUNTS } from "../config/jito-config";
+import { SupportedDEX } from "../types/dex/protocol";
+import { assert, buildLookupTable, runTestSuite } from "./test-helpers";
+
+/**
+ * 交易反编译器测试套件
+ *
+ * 使用本地构造的 Jupiter 风格交易和查找表，不需要网络:
+ * 1. 解析查找表账户、签名和可写标记、程序名称和指令作用
+ * 2. legacy 交易同样可以反编译
+ * 3. 与自己的计算预算、准备/清理和小费指令重组，并拒绝需要额外签名者的指令
+ * 4. 没有连接时可以反编译不引用查找表的交易 (包括 AdvancedInstructionBuilder)，查找表和重组需要连接
+ */
+
+const USER = Keypair.generate().publicKey;
+const BLOCKHASH = Keypair.generate().publicKey.toBase58();
+const JUPITER = new PublicKey(JUPITER_CONFIG.programId);
+const USER_WSOL = getAssociatedTokenAddressSync(NATIVE_MINT, USER);
+
+/**
+ * 构建返回指定查找表的 RPC 连接
+ */
+function mockConnection(tables: AddressLookupTableAccount[]) {
+    const calls = { lookupTables: 0 };
+    const connection = {
+        getAddressLookupTable: async (key: PublicKey) => {
+            calls.lookupTables++;
+            return { context: { slot: 1 }, value: tables.find(table => table.key.equals(key)) ?? null };
+        }
+    } as unknown as Connection;
+    return { connection, calls };
+}
+
+/**
+ * 构建 Jupiter 风格的交易指令:
+ * 计算预算 → 创建 WSOL 账户 → 路由 (池子账户来自查找表) → 关闭 WSOL 账户 → 小费
+ */
+function buildJupiterInstructions(poolAccounts: PublicKey[]): TransactionInstruction[] {
+    return [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: 300000 }),
+        createAssociatedTokenAccountIdempotentInstruction(USER, USER_WSOL, USER, NATIVE_MINT),
+        new TransactionInstruction({
+            programId: JUPITER,
+            keys: [
+                { pubkey: USER, isSigner: true, isWritable: false },
+                { pubkey: USER_WSOL, isSigner: false, isWritable: true },
+                { pubkey: poolAccounts[0], isSigner: false, isWritable: true },
+                { pubkey: poolAccounts[1], isSigner: false, isWritable: false }
+            ],
+            data: Buffer.from([1, 2, 3, 4])
+        }),
+        createCloseAccountInstruction(USER_WSOL, USER, USER),
+        SystemProgram.transfer({ fromPubkey: USER, toPubkey: MAINNET_TIP_ACCOUNTS[0], lamports: 10000 })
+    ];
+}
+
+/**
+ * 反编译 v0 交易测试
+ */
+async function testDecompileVersioned() {
+    console.log("\n🧪 开始反编译 v0 交易测试...");
+
+    try {
+        const poolAccounts = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+        const table = buildLookupTable(poolAccounts);
+        const message = new TransactionMessage({
+            payerKey: USER,
+            recentBlockhash: BLOCKHASH,
+            instructions: buildJupiterInstructions(poolAccounts)
+        }).compileToV0Message([table]);
+        const base64 = Buffer.from(new VersionedTransaction(message).serialize()).toString('base64');
+
+        const { connection, calls } = mockConnection([table]);
+        const decompiled = await new TransactionDecompiler(connection).decompile(base64);
+
+        assert(decompiled.version === 0, "应识别为 v0 交易");
+        assert(decompiled.payer.equals(USER), "应识别手续费支付者");
+        assert(decompiled.signers.length === 1 && decompiled.signers[0].equals(USER), "只有用户需要签名");
+        assert(calls.lookupTables === 1, "应读取交易引用的查找表");
+        assert(decompiled.lookupTables.length === 1 && decompiled.lookupTables[0].key.equals(table.key), "应记录引用的查找表");
+
+        const roles = decompiled.instructions.map(instruction => instruction.role);
+        assert(
+            JSON.stringify(roles) === JSON.stringify(['compute-budget', 'setup', 'swap', 'cleanup', 'tip']),
+            `指令作用识别错误: ${roles.join(', ')}`
+        );
+
+        const route = decompiled.instructions[2];
+        assert(route.programName === SupportedDEX.JUPITER, "应识别 Jupiter 程序名称");
+        // 权限按消息级别计算，用户作为手续费支付者总是可写
+        assert(route.accounts[0].isSigner && route.accounts[0].isWritable, "用户为可写签名者");
+        assert(route.accounts[2].pubkey.equals(poolAccounts[0]), "应从查找表解析池子账户");
+        assert(route.accounts[2].isWritable && route.accounts[2].lookupTable?.equals(table.key) === true, "可写的查找表账户");
+        assert(!route.accounts[3].isWritable && route.accounts[3].lookupTable?.equals(table.key) === true, "只读的查找表账户");
+        assert(route.accounts[1].lookupTable === undefined, "静态账户不应标记查找表");
+        assert(route.data.equals(Buffer.from([1, 2, 3, 4])), "应保留指令数据");
+        assert(decompiled.instructions[1].programName === 'AssociatedToken', "应识别系统程序名称");
+
+        console.log("✅ 反编译 v0 交易测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 反编译 v0 交易测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 反编译 legacy 交易测试
+ */
+async function testDecompileLegacy() {
+    console.log("\n🧪 开始反编译 legacy 交易测试...");
+
+    try {
+        const poolAccounts = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+        const legacy = new Transaction({ feePayer: USER, recentBlockhash: BLOCKHASH })
+            .add(...buildJupiterInstructions(poolAccounts));
+
+        const { connection, calls } = mockConnection([]);
+        const decompiler = new TransactionDecompiler(connection);
+        const decompiled = await decompiler.decompile(legacy);
+
+        assert(decompiled.version === 'legacy', "应识别为 legacy 交易");
+        assert(calls.lookupTables === 0, "legacy 交易不应读取查找表");
+        assert(decompiled.instructions.length === 5, "应还原全部指令");
+        assert(decompiled.instructions[2].accounts[2].pubkey.equals(poolAccounts[0]), "应还原静态账户");
+
+        const base64 = legacy.serialize({ requireAllSignatures: false }).toString('base64');
+        const fromBase64 = await decompiler.decompile(base64);
+        assert(fromBase64.instructions[2].role === 'swap', "base64 legacy 交易应得到相同结果");
+
+        console.log("✅ 反编译 legacy 交易测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 反编译 legacy 交易测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 重组交易测试
+ */
+async function testRecompose() {
+    console.log("\n🧪 开始重组交易测试...");
+
+    try {
+        const poolAccounts = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+        const table = buildLookupTable(poolAccounts);
+        const message = new TransactionMessage({
+            payerKey: USER,
+            recentBlockhash: BLOCKHASH,
+            instructions: buildJupiterInstructions(poolAccounts)
+        }).compileToV0Message([table]);
+
+        const { connection } = mockConnection([table]);
+        const decompiler = new TransactionDecompiler(connection);
+        const decompiled = await decompiler.decompile(new VersionedTransaction(message));
+
+        const memo = new TransactionInstruction({
+            programId: new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr'),
+            keys: [],
+            data: Buffer.from('bundle')
+        });
+        const ourTip = SystemProgram.transfer({ fromPubkey: USER, toPubkey: MAINNET_TIP_ACCOUNTS[1], lamports: 50000 });
+        const assembled = await decompiler.recompose(decompiled, {
+            computeBudgetInstructions: [
+                ComputeBudgetProgram.setComputeUnitLimit({ units: 400000 }),
+                ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 20000 })
+            ],
+            setupInstructions: [memo],
+            tipInstruction: ourTip,
+            recentBlockhash: BLOCKHASH
+        });
+
+        assert(assembled.withinSizeLimit, "重组后的交易应在大小上限内");
+        assert(assembled.lookupTables.length === 1, "应继续使用原交易的查找表");
+
+        const recomposed = decompiler.decompileMessage(assembled.transaction.message, assembled.lookupTables);
+        const names = recomposed.instructions.map(instruction => instruction.programName);
+        assert(
+            JSON.stringify(names) === JSON.stringify(['ComputeBudget', 'ComputeBudget', 'Memo', 'AssociatedToken', SupportedDEX.JUPITER, 'Token', 'System']),
+            `重组后的指令顺序错误: ${names.join(', ')}`
+        );
+        assert(recomposed.instructions.filter(instruction => instruction.role === 'tip').length === 1, "原小费应被替换");
+        assert(recomposed.instructions[6].accounts[1].pubkey.equals(MAINNET_TIP_ACCOUNTS[1]), "应使用我们的小费");
+        assert(recomposed.instructions[4].data.equals(decompiled.instructions[2].data), "路由指令应保持不变");
+
+        // 需要额外签名者的指令不能合并
+        const foreignSigner = Keypair.generate().publicKey;
+        const foreign = SystemProgram.transfer({ fromPubkey: foreignSigner, toPubkey: USER, lamports: 1 });
+        let rejected = false;
+        try {
+            await decompiler.recompose(decompiled, { setupInstructions: [foreign], recentBlockhash: BLOCKHASH });
+        } catch {
+            rejected = true;
+        }
+        assert(rejected, "需要未提供的签名者时应拒绝重组");
+
+        const allowed = await decompiler.recompose(decompiled, {
+            setupInstructions: [foreign],
+            additionalSigners: [foreignSigner],
+            recentBlockhash: BLOCKHASH
+        });
+        assert(allowed.transaction.message.header.numRequiredSignatures === 2, "指定的额外签名者应被允许");
+
+        console.log("✅ 重组交易测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 重组交易测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 无连接反编译测试
+ */
+async function testWithoutConnection() {
+    console.log("\n🧪 开始无连接反编译测试...");
+
+    try {
+        const poolAccounts = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+        const instructions = buildJupiterInstructions(poolAccounts);
+        const plain = new VersionedTransaction(new TransactionMessage({
+            payerKey: USER,
+            recentBlockhash: BLOCKHASH,
+            instructions
+        }).compileToV0Message());
+        const base64 = Buffer.from(plain.serialize()).toString('base64');
+
+        const decompiler = new TransactionDecompiler();
+        const decompiled = await decompiler.decompile(base64);
+        assert(decompiled.version === 0 && decompiled.instructions[2].role === 'swap', "不引用查找表的 v0 交易不需要连接");
+
+        const instruction = await AdvancedInstructionBuilder.buildAdvancedSwapInstruction(base64, JUPITER, USER);
+        assert(instruction.programId.equals(JUPITER) && instruction.data.equals(Buffer.from([1, 2, 3, 4])),
+            "没有连接时应从 v0 交易中提取交换指令");
+
+        const withTable = new VersionedTransaction(new TransactionMessage({
+            payerKey: USER,
+            recentBlockhash: BLOCKHASH,
+            instructions
+        }).compileToV0Message([buildLookupTable(poolAccounts)]));
+
+        let tableRejected = false;
+        try {
+            await decompiler.decompile(withTable);
+        } catch (error) {
+            tableRejected = String(error).includes("未提供连接");
+        }
+        assert(tableRejected, "引用查找表的交易需要连接");
+
+        let recomposeRejected = false;
+        try {
+            await decompiler.recompose(decompiled);
+        } catch (error) {
+            recomposeRejected = String(error).includes("未提供连接");
+        }
+        assert(recomposeRejected, "重组交易需要连接");
+
+        console.log("✅ 无连接反编译测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 无连接反编译测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("交易反编译器", [
+        testDecompileVersioned,
+        testDecompileLegacy,
+        testRecompose,
+        testWithoutConnection
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testDecompileVersioned,
+    testDecompileLegacy,
+    testRecompose,
+    testWithoutConnection,
+    runAllTests
+};
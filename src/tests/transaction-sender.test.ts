@@ -0,0 +1,256 @@
+import {
+    Connection,
+    Keypair,
+    SignatureStatus,
+    VersionedTransaction
+} from "@solana/web3.js";
+
+import { BlockhashManager } from "../core/transaction/blockhash-manager";
+import { TransactionSender } from "../core/transaction/transaction-sender";
+import { BLOCKHASH_CONFIG, TRANSACTION_SENDER_CONFIG } from "../config/dex-config";
+import { assert, buildSignedTransfer, runTestSuite } from "./test-helpers";
+
+/**
+ * 区块哈希管理与交易发送测试套件
+ *
+ * 使用模拟的 RPC 连接，不需要网络:
+ * 1. 区块哈希缓存、强制刷新和并发请求合并
+ * 2. 交易重新广播直到确认 (成功或执行失败)
+ * 3. 区块哈希过期和节点连续拒绝时的结果
+ * 4. 查询状态和区块高度的临时错误不中断轮询
+ */
+
+const PAYER = Keypair.generate();
+const SENDER_CONFIG = { ...TRANSACTION_SENDER_CONFIG, REBROADCAST_INTERVAL_MS: 1 };
+
+/**
+ * 模拟链上状态
+ */
+interface ChainScript {
+    /** 第几次状态查询时确认 (不传表示不确认) */
+    confirmAtCheck?: number;
+
+    /** 确认后的执行错误 */
+    err?: unknown;
+
+    /** 每次查询区块高度时增加的高度 */
+    blocksPerCheck?: number;
+
+    /** 发送是否总是失败 */
+    rejectSends?: boolean;
+
+    /** 前几次状态查询和区块高度查询失败 (临时 RPC 错误) */
+    flakyQueries?: number;
+}
+
+/**
+ * 构建按脚本返回结果的 RPC 连接
+ */
+function mockConnection(script: ChainScript = {}) {
+    const calls = { blockhashes: 0, sends: 0, statusChecks: 0, heightChecks: 0 };
+    let blockHeight = 100;
+
+    const connection = {
+        getLatestBlockhash: async () => {
+            calls.blockhashes++;
+            await new Promise(resolve => setTimeout(resolve, 1));
+            return { blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 250 };
+        },
+        getBlockHeight: async () => {
+            calls.heightChecks++;
+            if (calls.heightChecks <= (script.flakyQueries ?? 0)) {
+                throw new Error('fetch failed');
+            }
+            blockHeight += script.blocksPerCheck ?? 0;
+            return blockHeight;
+        },
+        sendRawTransaction: async () => {
+            calls.sends++;
+            if (script.rejectSends) {
+                throw new Error('Transaction simulation failed: Blockhash not found');
+            }
+            return 'signature';
+        },
+        getSignatureStatuses: async () => {
+            calls.statusChecks++;
+            if (calls.statusChecks <= (script.flakyQueries ?? 0)) {
+                throw new Error('429 Too Many Requests');
+            }
+            const confirmed = script.confirmAtCheck !== undefined && calls.statusChecks >= script.confirmAtCheck;
+            const status: SignatureStatus | null = confirmed
+                ? { slot: 42, confirmations: 1, err: (script.err ?? null) as SignatureStatus['err'], confirmationStatus: 'confirmed' }
+                : null;
+            return { context: { slot: 42 }, value: [status] };
+        }
+    } as unknown as Connection;
+
+    return { connection, calls };
+}
+
+/**
+ * 区块哈希缓存测试
+ */
+async function testBlockhashCache() {
+    console.log("\n🧪 开始区块哈希缓存测试...");
+
+    try {
+        const { connection, calls } = mockConnection();
+        const manager = new BlockhashManager(connection);
+
+        const [first, concurrent] = await Promise.all([manager.getBlockhash(), manager.getBlockhash()]);
+        assert(calls.blockhashes === 1, "并发请求应合并为一次查询");
+        assert(first.blockhash === concurrent.blockhash, "并发请求应得到相同的区块哈希");
+        assert(first.lastValidBlockHeight === 250, "应记录最后有效区块高度");
+
+        const cached = await manager.getBlockhash();
+        assert(calls.blockhashes === 1 && cached.blockhash === first.blockhash, "有效期内应使用缓存");
+
+        const refreshed = await manager.getBlockhash(true);
+        assert(calls.blockhashes === 2 && refreshed.blockhash !== first.blockhash, "强制刷新应重新获取");
+
+        const expiring = new BlockhashManager(connection, { ...BLOCKHASH_CONFIG, MAX_AGE_MS: 0 });
+        await expiring.getBlockhash();
+        await expiring.getBlockhash();
+        assert(calls.blockhashes === 4, "超过缓存时间应重新获取");
+
+        assert(!(await manager.isExpired(250)), "区块高度未超过最后有效高度时未过期");
+        assert(await manager.isExpired(99), "区块高度超过最后有效高度时已过期");
+
+        console.log("✅ 区块哈希缓存测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 区块哈希缓存测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 重新广播直到确认测试
+ */
+async function testRebroadcastUntilConfirmed() {
+    console.log("\n🧪 开始重新广播直到确认测试...");
+
+    try {
+        const { connection, calls } = mockConnection({ confirmAtCheck: 3 });
+        const sender = new TransactionSender(connection, new BlockhashManager(connection), SENDER_CONFIG);
+        const transaction = buildSignedTransfer(PAYER);
+
+        const landed = await sender.sendAndConfirm(transaction, 250);
+        assert(landed.outcome === 'landed', `应落地，实际 ${landed.outcome}`);
+        assert(landed.broadcasts === 3 && calls.sends === 3, "确认前应每个间隔重新广播一次");
+        assert(landed.slot === 42, "应记录确认所在的 slot");
+
+        const { connection: failing } = mockConnection({ confirmAtCheck: 1, err: { InstructionError: [0, { Custom: 1 }] } });
+        const failed = await new TransactionSender(failing, new BlockhashManager(failing), SENDER_CONFIG)
+            .sendAndConfirm(buildSignedTransfer(PAYER), 250);
+        assert(failed.outcome === 'failed', "执行失败的交易应标记为 failed");
+        assert(failed.error?.includes('Custom') === true, "应记录链上错误");
+
+        let rejected = false;
+        try {
+            await sender.sendAndConfirm(new VersionedTransaction(transaction.message), 250);
+        } catch {
+            rejected = true;
+        }
+        assert(rejected, "未签名的交易应拒绝发送");
+
+        console.log("✅ 重新广播直到确认测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 重新广播直到确认测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 过期和丢弃测试
+ */
+async function testExpiredAndDropped() {
+    console.log("\n🧪 开始过期和丢弃测试...");
+
+    try {
+        // 每次检查推进 60 个区块，第 3 次检查时超过最后有效高度 250
+        const { connection, calls } = mockConnection({ blocksPerCheck: 60 });
+        const expired = await new TransactionSender(connection, new BlockhashManager(connection), SENDER_CONFIG)
+            .sendAndConfirm(buildSignedTransfer(PAYER), 250);
+        assert(expired.outcome === 'expired', `应过期，实际 ${expired.outcome}`);
+        assert(expired.broadcasts === 3, "过期前应持续广播");
+        assert(calls.statusChecks === 4, "过期后应再查一次历史状态");
+
+        // 最后一次检查才确认的交易不应被误判为过期
+        const { connection: lateConnection } = mockConnection({ blocksPerCheck: 200, confirmAtCheck: 2 });
+        const late = await new TransactionSender(lateConnection, new BlockhashManager(lateConnection), SENDER_CONFIG)
+            .sendAndConfirm(buildSignedTransfer(PAYER), 250);
+        assert(late.outcome === 'landed', "过期前落地的交易应为 landed");
+
+        const { connection: rejecting, calls: rejectCalls } = mockConnection({ rejectSends: true });
+        const dropped = await new TransactionSender(rejecting, new BlockhashManager(rejecting), SENDER_CONFIG)
+            .sendAndConfirm(buildSignedTransfer(PAYER), 250);
+        assert(dropped.outcome === 'dropped', `应被丢弃，实际 ${dropped.outcome}`);
+        assert(rejectCalls.sends === SENDER_CONFIG.MAX_SEND_ERRORS, "连续失败达到上限后停止广播");
+        assert(dropped.error?.includes('Blockhash not found') === true, "应记录发送错误");
+
+        console.log("✅ 过期和丢弃测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 过期和丢弃测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 临时查询错误测试
+ */
+async function testTransientQueryErrors() {
+    console.log("\n🧪 开始临时查询错误测试...");
+
+    try {
+        // 前 2 次状态查询和第 1 次区块高度查询失败，第 4 次状态查询时确认
+        const { connection, calls } = mockConnection({ confirmAtCheck: 4, flakyQueries: 2 });
+        const landed = await new TransactionSender(connection, new BlockhashManager(connection), SENDER_CONFIG)
+            .sendAndConfirm(buildSignedTransfer(PAYER), 250);
+        assert(landed.outcome === 'landed', `临时错误后应继续轮询直到落地，实际 ${landed.outcome}`);
+        assert(landed.broadcasts === 4 && calls.statusChecks === 4, "查询失败时应继续重新广播");
+
+        // 查询失败不影响过期判断
+        const { connection: expiring } = mockConnection({ blocksPerCheck: 100, flakyQueries: 1 });
+        const expired = await new TransactionSender(expiring, new BlockhashManager(expiring), SENDER_CONFIG)
+            .sendAndConfirm(buildSignedTransfer(PAYER), 250);
+        assert(expired.outcome === 'expired', `区块哈希过期后应停止，实际 ${expired.outcome}`);
+
+        console.log("✅ 临时查询错误测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 临时查询错误测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("区块哈希管理与交易发送", [
+        testBlockhashCache,
+        testRebroadcastUntilConfirmed,
+        testExpiredAndDropped,
+        testTransientQueryErrors
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testBlockhashCache,
+    testRebroadcastUntilConfirmed,
+    testExpiredAndDropped,
+    testTransientQueryErrors,
+    runAllTests
+};
@@ -0,0 +1,249 @@
+import {
+    Keypair,
+    SystemProgram,
+    Transaction,
+    TransactionMessage,
+    VersionedMessage,
+    VersionedTransaction
+} from "@solana/web3.js";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import bs58 from "bs58";
+
+import { KeypairSigner } from "../core/signer/keypair-signer";
+import { RemoteSigner } from "../core/signer/remote-signer";
+import { RemoteSignRequest } from "../types/signer/signer-types";
+import { assert, runTestSuite } from "./test-helpers";
+
+/**
+ * 交易签名者测试套件
+ *
+ * 不需要网络，远程签名服务为本地 HTTP 桩:
+ * 1. 从密钥文件和环境变量加载本地签名者，签名 legacy 和 v0 交易
+ * 2. 远程签名者只发送消息字节，签名后交易可正常序列化
+ * 3. 远程签名服务返回无效签名或 HTTP 错误时拒绝
+ */
+
+const PAYER = Keypair.generate();
+const CO_SIGNER = Keypair.generate();
+
+/**
+ * 构建需要 PAYER 和 CO_SIGNER 签名的 v0 交易
+ */
+function buildVersionedTransaction(): VersionedTransaction {
+    const message = new TransactionMessage({
+        payerKey: PAYER.publicKey,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        instructions: [
+            SystemProgram.transfer({ fromPubkey: PAYER.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1000 }),
+            SystemProgram.transfer({ fromPubkey: CO_SIGNER.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1000 })
+        ]
+    }).compileToV0Message();
+    return new VersionedTransaction(message);
+}
+
+/**
+ * 构建只需要 PAYER 签名的 legacy 交易
+ */
+function buildLegacyTransaction(): Transaction {
+    const transaction = new Transaction().add(
+        SystemProgram.transfer({ fromPubkey: PAYER.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1000 })
+    );
+    transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+    transaction.feePayer = PAYER.publicKey;
+    return transaction;
+}
+
+/**
+ * 启动本地远程签名服务桩
+ * @param tamper 是否返回错误的签名
+ */
+async function startSigningStub(keypair: Keypair, tamper: boolean = false) {
+    const requests: RemoteSignRequest[] = [];
+
+    const server: Server = createServer((req, res) => {
+        if (req.method === 'GET' && req.url === '/public-key') {
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ publicKey: keypair.publicKey.toBase58() }));
+            return;
+        }
+
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const request = JSON.parse(body) as RemoteSignRequest;
+            requests.push(request);
+
+            if (request.publicKey !== keypair.publicKey.toBase58()) {
+                res.statusCode = 403;
+                res.end('unknown signer');
+                return;
+            }
+
+            const signatures = request.messages.map(message => {
+                if (tamper) {
+                    return bs58.encode(Keypair.generate().secretKey);
+                }
+                const transaction = new VersionedTransaction(VersionedMessage.deserialize(Buffer.from(message, 'base64')));
+                transaction.sign([keypair]);
+                const index = transaction.message.staticAccountKeys.findIndex(key => key.equals(keypair.publicKey));
+                return bs58.encode(transaction.signatures[index]);
+            });
+
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ signatures }));
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const close = () => new Promise<void>(resolve => server.close(() => resolve()));
+
+    return { url: `http://127.0.0.1:${port}`, requests, close };
+}
+
+/**
+ * 本地签名者测试
+ */
+async function testKeypairSigner() {
+    console.log("\n🧪 开始本地签名者测试...");
+
+    const directory = mkdtempSync(join(tmpdir(), 'signer-test-'));
+    try {
+        const keyFile = join(directory, 'id.json');
+        writeFileSync(keyFile, JSON.stringify(Array.from(PAYER.secretKey)));
+        const fromFile = KeypairSigner.fromFile(keyFile);
+        assert(fromFile.publicKey.equals(PAYER.publicKey), "应从密钥文件加载");
+
+        process.env.TEST_SIGNER_KEY = bs58.encode(PAYER.secretKey);
+        const fromEnv = KeypairSigner.fromEnv('TEST_SIGNER_KEY');
+        assert(fromEnv.publicKey.equals(PAYER.publicKey), "应从 base58 环境变量加载");
+
+        process.env.TEST_SIGNER_KEY = 'not-a-key';
+        let rejected = false;
+        try {
+            KeypairSigner.fromEnv('TEST_SIGNER_KEY');
+        } catch {
+            rejected = true;
+        }
+        assert(rejected, "无效私钥应拒绝");
+
+        // 多签交易: 两个签名者各自签名，互不覆盖
+        const versioned = buildVersionedTransaction();
+        await new KeypairSigner(CO_SIGNER).signTransaction(versioned);
+        await fromFile.signTransaction(versioned);
+        assert(versioned.signatures.every(signature => signature.some(byte => byte !== 0)), "应保留其他签名者的签名");
+
+        const legacy = await fromEnv.signAllTransactions([buildLegacyTransaction()]);
+        assert(legacy[0].verifySignatures(), "legacy 交易签名应有效");
+
+        console.log("✅ 本地签名者测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 本地签名者测试失败: ${error}`);
+        return false;
+
+    } finally {
+        delete process.env.TEST_SIGNER_KEY;
+        rmSync(directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * 远程签名者测试
+ */
+async function testRemoteSigner() {
+    console.log("\n🧪 开始远程签名者测试...");
+
+    const stub = await startSigningStub(PAYER);
+    try {
+        const signer = await RemoteSigner.connect(stub.url);
+        assert(signer.publicKey.equals(PAYER.publicKey), "应从签名服务读取公钥");
+
+        const [versioned, legacy] = await signer.signAllTransactions<Transaction | VersionedTransaction>([
+            buildVersionedTransaction(),
+            buildLegacyTransaction()
+        ]);
+        assert(stub.requests.length === 1 && stub.requests[0].messages.length === 2, "批量签名应合并为一次请求");
+
+        const signedVersioned = versioned as VersionedTransaction;
+        assert(signedVersioned.signatures[0].some(byte => byte !== 0), "v0 交易应包含远程签名");
+        assert(signedVersioned.signatures[1].every(byte => byte === 0), "其他签名者的位置应保持为空");
+        assert((legacy as Transaction).verifySignatures(), "legacy 交易签名应有效");
+
+        console.log("✅ 远程签名者测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 远程签名者测试失败: ${error}`);
+        return false;
+
+    } finally {
+        await stub.close();
+    }
+}
+
+/**
+ * 远程签名错误处理测试
+ */
+async function testRemoteSignerErrors() {
+    console.log("\n🧪 开始远程签名错误处理测试...");
+
+    const tampering = await startSigningStub(PAYER, true);
+    const honest = await startSigningStub(PAYER);
+    try {
+        let invalid = false;
+        try {
+            await new RemoteSigner(tampering.url, PAYER.publicKey).signTransaction(buildLegacyTransaction());
+        } catch (error) {
+            invalid = String(error).includes('签名无效');
+        }
+        assert(invalid, "无效签名应在添加到交易前拒绝");
+
+        let forbidden = false;
+        try {
+            await new RemoteSigner(honest.url, CO_SIGNER.publicKey).signTransaction(buildVersionedTransaction());
+        } catch (error) {
+            forbidden = String(error).includes('403');
+        }
+        assert(forbidden, "签名服务拒绝时应报告 HTTP 状态");
+
+        console.log("✅ 远程签名错误处理测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 远程签名错误处理测试失败: ${error}`);
+        return false;
+
+    } finally {
+        await tampering.close();
+        await honest.close();
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("交易签名者", [
+        testKeypairSigner,
+        testRemoteSigner,
+        testRemoteSignerErrors
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testKeypairSigner,
+    testRemoteSigner,
+    testRemoteSignerErrors,
+    runAllTests
+};
@@ -0,0 +1,214 @@
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    SystemProgram,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction
+} from "@solana/web3.js";
+
+import { TransactionSimulator } from "../core/transaction/transaction-simulator";
+import { SimulationErrorDecoder } from "../core/transaction/simulation-error-decoder";
+import { ErrorType } from "../types/facade/result-types";
+import { SupportedDEX } from "../types/dex/protocol";
+import { ORCA_CONFIG, JUPITER_CONFIG, RAYDIUM_CONFIG } from "../config/dex-config";
+import { assert, runTestSuite } from "./test-helpers";
+
+/**
+ * 预执行模拟测试套件
+ *
+ * 使用模拟的 RPC 连接，不需要网络:
+ * 1. 模拟成功时返回消耗的CU
+ * 2. Whirlpool、Raydium、Jupiter 自定义错误码解码为带类型的失败原因
+ * 3. 交易级错误和日志关键字的解码
+ */
+
+const PAYER = Keypair.generate().publicKey;
+const WHIRLPOOL = ORCA_CONFIG.programId;
+const RAYDIUM_AMM = RAYDIUM_CONFIG.programId;
+const JUPITER = JUPITER_CONFIG.programId;
+
+/**
+ * 构建返回固定模拟结果的 RPC 连接
+ */
+function mockConnection(err: unknown, logs: string[] = [], unitsConsumed = 50000) {
+    return {
+        simulateTransaction: async () => ({
+            context: { slot: 1 },
+            value: { err, logs, unitsConsumed }
+        })
+    } as unknown as Connection;
+}
+
+/**
+ * 构建调用指定程序的交易 (第一个指令为转账)
+ */
+function buildTransaction(programId: string): VersionedTransaction {
+    const message = new TransactionMessage({
+        payerKey: PAYER,
+        recentBlockhash: PublicKey.default.toBase58(),
+        instructions: [
+            SystemProgram.transfer({ fromPubkey: PAYER, toPubkey: Keypair.generate().publicKey, lamports: 1000 }),
+            new TransactionInstruction({ programId: new PublicKey(programId), keys: [], data: Buffer.alloc(0) })
+        ]
+    }).compileToV0Message();
+    return new VersionedTransaction(message);
+}
+
+/**
+ * 模拟成功测试
+ */
+async function testSimulationSuccess() {
+    console.log("\n🧪 开始模拟成功测试...");
+
+    try {
+        const simulator = new TransactionSimulator(mockConnection(null, ['Program log: ok'], 88000));
+        const report = await simulator.simulate(buildTransaction(WHIRLPOOL));
+
+        assert(report.success, "模拟应成功");
+        assert(report.unitsConsumed === 88000, "应返回消耗的CU");
+        assert(report.failure === undefined, "成功时不应有失败原因");
+
+        console.log("✅ 模拟成功测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 模拟成功测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * DEX 自定义错误码解码测试
+ */
+async function testDexErrorCodes() {
+    console.log("\n🧪 开始 DEX 自定义错误码解码测试...");
+
+    try {
+        // Whirlpool 输出低于最小输出
+        const whirlpool = await new TransactionSimulator(mockConnection(
+            { InstructionError: [1, { Custom: 6036 }] },
+            [`Program ${WHIRLPOOL} invoke [1]`, `Program ${WHIRLPOOL} failed: custom program error: 0x1794`]
+        )).simulate(buildTransaction(WHIRLPOOL));
+
+        assert(!whirlpool.success, "模拟应失败");
+        assert(whirlpool.failure?.type === ErrorType.SLIPPAGE_EXCEEDED, "6036 应解码为滑点超限");
+        assert(whirlpool.failure?.program === SupportedDEX.ORCA, "出错程序应为 Orca");
+        assert(whirlpool.failure?.errorName === 'AmountOutBelowMinimum', "应解码错误名称");
+        assert(whirlpool.failure?.retryable === true, "滑点超限可重试");
+
+        // Raydium AMM 的错误码从 0 开始，且没有日志时按指令序号定位程序
+        const raydium = await new TransactionSimulator(mockConnection(
+            { InstructionError: [1, { Custom: 36 }] }
+        )).simulate(buildTransaction(RAYDIUM_AMM));
+
+        assert(raydium.failure?.type === ErrorType.INSUFFICIENT_LIQUIDITY, "Raydium 36 应解码为流动性不足");
+        assert(raydium.failure?.program === SupportedDEX.RAYDIUM, "应按指令序号定位出错程序");
+        assert(raydium.failure?.instructionIndex === 1, "应记录出错的指令序号");
+
+        // Jupiter 路由中底层 Whirlpool 出错时，按最内层出错的程序解码
+        const jupiter = await new TransactionSimulator(mockConnection(
+            { InstructionError: [1, { Custom: 6012 }] },
+            [
+                `Program ${JUPITER} invoke [1]`,
+                `Program ${WHIRLPOOL} invoke [2]`,
+                `Program ${WHIRLPOOL} failed: custom program error: 0x177c`,
+                `Program ${JUPITER} failed: custom program error: 0x177c`
+            ]
+        )).simulate(buildTransaction(JUPITER));
+
+        assert(jupiter.failure?.type === ErrorType.INSUFFICIENT_LIQUIDITY, "路由内 Whirlpool 6012 应解码为流动性不足");
+        assert(jupiter.failure?.program === SupportedDEX.ORCA, "出错程序应为底层 AMM");
+
+        const jupiterSlippage = new SimulationErrorDecoder().decode(
+            { InstructionError: [0, { Custom: 6001 }] },
+            [`Program ${JUPITER} failed: custom program error: 0x1771`]
+        );
+        assert(jupiterSlippage.type === ErrorType.SLIPPAGE_EXCEEDED, "Jupiter 6001 应解码为滑点超限");
+
+        console.log("✅ DEX 自定义错误码解码测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ DEX 自定义错误码解码测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 交易级错误和日志关键字解码测试
+ */
+async function testGenericErrors() {
+    console.log("\n🧪 开始交易级错误和日志关键字解码测试...");
+
+    try {
+        const decoder = new SimulationErrorDecoder();
+
+        const missing = decoder.decode('AccountNotFound', []);
+        assert(missing.type === ErrorType.ACCOUNT_NOT_FOUND, "AccountNotFound 应解码为账户缺失");
+        assert(missing.retryable === false, "账户缺失不可重试");
+
+        const fee = decoder.decode('InsufficientFundsForFee', []);
+        assert(fee.type === ErrorType.INSUFFICIENT_BALANCE, "手续费不足应解码为余额不足");
+
+        const oracle = decoder.decode(
+            { InstructionError: [0, { Custom: 42 }] },
+            ['Program log: Error: oracle price is stale']
+        );
+        assert(oracle.type === ErrorType.STALE_ORACLE, "日志中的过期预言机应解码为预言机过期");
+        assert(oracle.customCode === 42, "应记录自定义错误码");
+
+        const anchor = decoder.decode(
+            { InstructionError: [0, { Custom: 3012 }] },
+            [
+                'Program log: AnchorError caused by account: position. Error Code: AccountNotInitialized. Error Number: 3012.',
+                `Program ${WHIRLPOOL} failed: custom program error: 0xbc4`
+            ]
+        );
+        assert(anchor.type === ErrorType.ACCOUNT_NOT_FOUND, "Anchor 3012 应解码为账户缺失");
+        assert(anchor.errorName === 'AccountNotInitialized', "应解码 Anchor 错误名称");
+
+        const customProgram = Keypair.generate().publicKey;
+        decoder.registerProgram(customProgram, SupportedDEX.RAYDIUM);
+        const registered = decoder.decode(
+            { InstructionError: [0, { Custom: 30 }] },
+            [`Program ${customProgram.toBase58()} failed: custom program error: 0x1e`]
+        );
+        assert(registered.type === ErrorType.SLIPPAGE_EXCEEDED, "注册的程序地址应使用对应 DEX 的错误码");
+
+        const unknown = decoder.decode({ InstructionError: [0, { Custom: 9999 }] }, []);
+        assert(unknown.type === ErrorType.SIMULATION_FAILED, "无法识别的错误应为模拟失败");
+        assert(unknown.code === 'SIMULATION_FAILED', "错误码应为 SIMULATION_FAILED");
+
+        console.log("✅ 交易级错误和日志关键字解码测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 交易级错误和日志关键字解码测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("预执行模拟", [
+        testSimulationSuccess,
+        testDexErrorCodes,
+        testGenericErrors
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testSimulationSuccess,
+    testDexErrorCodes,
+    testGenericErrors,
+    runAllTests
+};
@@ -0,0 +1,299 @@
+import BN from "bn.js";
+
+import { WhirlpoolQuoteEngine } from "../protocols/orca/whirlpool-quote-engine";
+import { WhirlpoolAccountCache } from "../protocols/orca/whirlpool-account-cache";
+import { ORCA_SPECIFIC_CONFIG } from "../config/dex-config";
+import {
+    FIXTURE_FEE_RATE,
+    FIXTURE_MINT_A,
+    FIXTURE_MINT_B,
+    FIXTURE_POOL_ADDRESS,
+    SQRT_PRICE_ONE,
+    buildWhirlpoolSnapshot
+} from "./fixtures/whirlpool-snapshots";
+import { assert, runTestSuite } from "./test-helpers";
+
+/**
+ * Whirlpool本地报价引擎测试套件
+ *
+ * 基于夹具快照离线运行，不需要网络和钱包:
+ * 1. 单一流动性区间内与恒定流动性公式逐单位对比
+ * 2. 跨越已初始化tick时流动性变化
+ * 3. 确定性与价格影响单调性
+ * 4. 精确输出报价与精确输入报价互逆
+ * 5. 账户缓存命中
+ */
+
+/** 基础流动性 */
+const BASE_LIQUIDITY = new BN("1000000000000");
+
+/** 滑点 */
+const SLIPPAGE = 0.01;
+
+const engine = new WhirlpoolQuoteEngine(ORCA_SPECIFIC_CONFIG.WHIRLPOOL_PROGRAM_ID);
+
+/**
+ * 断言两个金额相差不超过 tolerance 个最小单位
+ */
+function assertClose(actual: BN, expected: BN, tolerance: number, label: string): void {
+    if (actual.sub(expected).abs().gtn(tolerance)) {
+        throw new Error(`${label}: 期望 ${expected.toString()}，实际 ${actual.toString()}`);
+    }
+}
+
+/**
+ * 恒定流动性下 A→B 的理论输出
+ * Δx' = Δx·(1-fee)，√P' = L·√P / (L + Δx'·√P)，Δy = L·(√P - √P')
+ */
+function expectedAToB(liquidity: BN, amountIn: BN): { amountOut: BN; fee: BN } {
+    const amountLessFee = amountIn.muln(1_000_000 - FIXTURE_FEE_RATE).divn(1_000_000);
+    const numerator = liquidity.shln(64).mul(SQRT_PRICE_ONE);
+    const denominator = liquidity.shln(64).add(amountLessFee.mul(SQRT_PRICE_ONE));
+    const nextSqrtPrice = numerator.add(denominator).subn(1).div(denominator);
+    const amountOut = liquidity.mul(SQRT_PRICE_ONE.sub(nextSqrtPrice)).shrn(64);
+    return { amountOut, fee: amountIn.sub(amountLessFee) };
+}
+
+/**
+ * 恒定流动性下 B→A 的理论输出
+ * √P' = √P + Δy'/L，Δx = L·(√P' - √P) / (√P·√P')
+ */
+function expectedBToA(liquidity: BN, amountIn: BN): { amountOut: BN; fee: BN } {
+    const amountLessFee = amountIn.muln(1_000_000 - FIXTURE_FEE_RATE).divn(1_000_000);
+    const nextSqrtPrice = SQRT_PRICE_ONE.add(amountLessFee.shln(64).div(liquidity));
+    const amountOut = liquidity.mul(nextSqrtPrice.sub(SQRT_PRICE_ONE)).shln(64)
+        .div(SQRT_PRICE_ONE.mul(nextSqrtPrice));
+    return { amountOut, fee: amountIn.sub(amountLessFee) };
+}
+
+/**
+ * 单一流动性区间测试
+ */
+async function testSingleRangeQuote() {
+    console.log("\n🧪 开始单一流动性区间测试...");
+
+    try {
+        const snapshot = buildWhirlpoolSnapshot(BASE_LIQUIDITY);
+
+        for (const amount of [new BN(1_000), new BN(1_000_000), new BN(500_000_000)]) {
+            const aToB = engine.quoteExactIn(snapshot, FIXTURE_MINT_A, amount, SLIPPAGE);
+            const expectedA = expectedAToB(BASE_LIQUIDITY, amount);
+            assertClose(aToB.amountOut, expectedA.amountOut, 1, `A→B 输出 (${amount.toString()})`);
+            assertClose(aToB.fee, expectedA.fee, 1, `A→B 手续费 (${amount.toString()})`);
+
+            const bToA = engine.quoteExactIn(snapshot, FIXTURE_MINT_B, amount, SLIPPAGE);
+            const expectedB = expectedBToA(BASE_LIQUIDITY, amount);
+            assertClose(bToA.amountOut, expectedB.amountOut, 1, `B→A 输出 (${amount.toString()})`);
+            assertClose(bToA.fee, expectedB.fee, 1, `B→A 手续费 (${amount.toString()})`);
+
+            console.log(`   ${amount.toString()}: A→B ${aToB.amountOut.toString()}, B→A ${bToA.amountOut.toString()}`);
+        }
+
+        console.log("✅ 单一流动性区间测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 单一流动性区间测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 跨tick测试
+ * 集中仓位在 [-128, 128) 内叠加流动性，超出区间后输出应按基础流动性衰减
+ */
+async function testTickCrossing() {
+    console.log("\n🧪 开始跨tick测试...");
+
+    try {
+        const concentrated = BASE_LIQUIDITY.muln(9);
+        const snapshot = buildWhirlpoolSnapshot(BASE_LIQUIDITY, [
+            { tickLower: -128, tickUpper: 128, liquidity: concentrated }
+        ]);
+        const totalLiquidity = BASE_LIQUIDITY.add(concentrated);
+
+        // 区间内的小额交换等价于总流动性的恒定流动性池
+        const small = new BN(1_000_000);
+        const smallQuote = engine.quoteExactIn(snapshot, FIXTURE_MINT_A, small, SLIPPAGE);
+        assertClose(smallQuote.amountOut, expectedAToB(totalLiquidity, small).amountOut, 1, "区间内输出");
+        assert(smallQuote.endTickIndex >= -128, `区间内交换不应跨越下边界 (结束tick ${smallQuote.endTickIndex})`);
+
+        // 大额交换跨越 -128 后只剩基础流动性
+        const large = new BN("200000000000");
+        const largeQuote = engine.quoteExactIn(snapshot, FIXTURE_MINT_A, large, SLIPPAGE);
+        const upperBound = expectedAToB(totalLiquidity, large).amountOut;
+        const lowerBound = expectedAToB(BASE_LIQUIDITY, large).amountOut;
+        assert(largeQuote.endTickIndex < -128, `大额交换应跨越下边界 (结束tick ${largeQuote.endTickIndex})`);
+        assert(largeQuote.amountOut.lt(upperBound), "跨tick后输出应低于全程高流动性的输出");
+        assert(largeQuote.amountOut.gt(lowerBound), "跨tick后输出应高于全程基础流动性的输出");
+
+        console.log(`   结束tick: ${largeQuote.endTickIndex}`);
+        console.log(`   输出: ${largeQuote.amountOut.toString()} (区间 ${lowerBound.toString()} ~ ${upperBound.toString()})`);
+
+        console.log("✅ 跨tick测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 跨tick测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 确定性与价格影响测试
+ */
+async function testDeterminismAndPriceImpact() {
+    console.log("\n🧪 开始确定性与价格影响测试...");
+
+    try {
+        const snapshot = buildWhirlpoolSnapshot(BASE_LIQUIDITY);
+        const amount = new BN(50_000_000);
+
+        const first = engine.quoteExactIn(snapshot, FIXTURE_MINT_A, amount, SLIPPAGE);
+        const second = engine.quoteExactIn(snapshot, FIXTURE_MINT_A, amount, SLIPPAGE);
+        assert(first.amountOut.eq(second.amountOut) && first.fee.eq(second.fee), "相同输入的报价结果不一致");
+        assert(first.minimumAmountOut.lt(first.amountOut), "最小输出应扣除滑点");
+
+        let previousImpact = -1;
+        for (const size of [1_000_000, 100_000_000, 10_000_000_000]) {
+            const quote = engine.quoteExactIn(snapshot, FIXTURE_MINT_A, new BN(size), SLIPPAGE);
+            assert(quote.priceImpact >= previousImpact, `价格影响应随金额单调递增 (${size})`);
+            previousImpact = quote.priceImpact;
+            console.log(`   ${size}: 价格影响 ${(quote.priceImpact * 100).toFixed(6)}%`);
+        }
+
+        // 夹具只覆盖当前tick两侧各两个 tick array，缺失时应报错而不是静默返回错误报价
+        const partial = buildWhirlpoolSnapshot(BASE_LIQUIDITY);
+        partial.tickArrays = partial.tickArrays.filter(tickArray => tickArray.startTickIndex >= 0);
+        let rejected = false;
+        try {
+            engine.quoteExactIn(partial, FIXTURE_MINT_A, amount, SLIPPAGE);
+        } catch {
+            rejected = true;
+        }
+        assert(rejected, "快照缺少 tick array 时应拒绝报价");
+
+        console.log("✅ 确定性与价格影响测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 确定性与价格影响测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 精确输出报价测试
+ * 精确输出所需的输入再按精确输入报价，输出应不少于目标金额
+ */
+async function testExactOutQuote() {
+    console.log("\n🧪 开始精确输出报价测试...");
+
+    try {
+        const snapshot = buildWhirlpoolSnapshot(BASE_LIQUIDITY, [
+            { tickLower: -128, tickUpper: 128, liquidity: BASE_LIQUIDITY.muln(9) }
+        ]);
+
+        for (const [outputMint, inputMint] of [[FIXTURE_MINT_B, FIXTURE_MINT_A], [FIXTURE_MINT_A, FIXTURE_MINT_B]]) {
+            for (const amount of [new BN(1_000_000), new BN("100000000000")]) {
+                const exactOut = engine.quoteExactOut(snapshot, outputMint, amount, SLIPPAGE);
+                assert(exactOut.amountOut.eq(amount), `精确输出金额应等于目标 (${amount.toString()})`);
+                assert(exactOut.maximumAmountIn.gt(exactOut.amountIn), "最大输入应计入滑点");
+                assert(exactOut.minimumAmountOut.eq(amount), "精确输出模式最小输出应等于目标");
+
+                const exactIn = engine.quoteExactIn(snapshot, inputMint, exactOut.amountIn, SLIPPAGE);
+                assert(exactIn.aToB === exactOut.aToB, "两种模式的交换方向应一致");
+                assert(exactIn.amountOut.gte(amount), `反向验证输出 ${exactIn.amountOut.toString()} 低于目标 ${amount.toString()}`);
+                assertClose(exactIn.amountOut, amount, 2, "反向验证输出");
+
+                console.log(`   ${exactOut.aToB ? 'A→B' : 'B→A'} 输出 ${amount.toString()}: 输入 ${exactOut.amountIn.toString()}，最大输入 ${exactOut.maximumAmountIn.toString()}`);
+            }
+        }
+
+        // 超出已加载流动性的输出无法完全成交，应拒绝报价
+        let rejected = false;
+        try {
+            engine.quoteExactOut(snapshot, FIXTURE_MINT_B, BASE_LIQUIDITY.muln(100), SLIPPAGE);
+        } catch {
+            rejected = true;
+        }
+        assert(rejected, "流动性不足时应拒绝精确输出报价");
+
+        console.log("✅ 精确输出报价测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 精确输出报价测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 账户缓存测试
+ * 有效期内的快照直接返回，不触发RPC
+ */
+async function testAccountCache() {
+    console.log("\n🧪 开始账户缓存测试...");
+
+    try {
+        // 任何RPC调用都会使测试失败
+        const offlineConnection = new Proxy({}, {
+            get: (_, method) => () => { throw new Error(`不应调用RPC: ${String(method)}`); }
+        });
+        const cache = new WhirlpoolAccountCache(offlineConnection as any, ORCA_SPECIFIC_CONFIG.WHIRLPOOL_PROGRAM_ID, 60_000);
+
+        const snapshot = buildWhirlpoolSnapshot(BASE_LIQUIDITY);
+        snapshot.fetchedAt = Date.now();
+        cache.setSnapshot(snapshot);
+
+        const cached = await cache.getSnapshot(FIXTURE_POOL_ADDRESS);
+        assert(cached === snapshot, "有效期内应返回缓存的快照");
+
+        for (let i = 0; i < 200; i++) {
+            engine.quoteExactIn(cached, FIXTURE_MINT_A, new BN(1_000_000 * (i + 1)), SLIPPAGE);
+        }
+
+        cache.invalidate(FIXTURE_POOL_ADDRESS);
+        let refetched = false;
+        try {
+            await cache.getSnapshot(FIXTURE_POOL_ADDRESS);
+        } catch {
+            refetched = true;
+        }
+        assert(refetched, "失效后应重新从RPC加载");
+
+        console.log("✅ 账户缓存测试通过");
+        return true;
+
+    } catch (error) {
+        console.log(`❌ 账户缓存测试失败: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * 运行所有测试
+ */
+async function runAllTests() {
+    return await runTestSuite("Whirlpool 本地报价引擎", [
+        testSingleRangeQuote,
+        testTickCrossing,
+        testDeterminismAndPriceImpact,
+        testExactOutQuote,
+        testAccountCache
+    ]);
+}
+
+// 如果直接运行此文件，则执行测试
+if (require.main === module) {
+    runAllTests().catch(console.error);
+}
+
+export {
+    testSingleRangeQuote,
+    testTickCrossing,
+    testDeterminismAndPriceImpact,
+    testExactOutQuote,
+    testAccountCache,
+    runAllTests
+};
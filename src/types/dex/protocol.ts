@@ -1,6 +1,8 @@
-import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { AccountMeta, PublicKey, TransactionInstruction } from "@solana/web3.js";
 import BN from "bn.js";
 
+import { TokenMintInfo } from "../token/token-types";
+
 /**
  * DEX协议接口定义
  * 定义了所有DEX协议必须实现的标准接口
@@ -11,7 +13,19 @@ export interface DEXProtocol {
     
     /** 协议程序ID */
     programId: PublicKey;
-    
+
+    /**
+     * 报价是否已计入 Token-2022 转账费 (可选)
+     * 为 true 时聚合器不再按转账费调整该协议的报价，精确输出按用户到账金额询价
+     */
+    quotesIncludeTransferFees?: boolean;
+
+    /**
+     * 交换指令是否只使用所有者的关联代币账户 (可选)
+     * 为 true 时协议忽略传入的代币账户，聚合器将原生SOL包装到 WSOL 关联代币账户而不是临时账户
+     */
+    usesAssociatedTokenAccounts?: boolean;
+
     /**
      * 获取交易报价
      * @param tokenA 输入代币mint地址
@@ -26,21 +40,108 @@ export interface DEXProtocol {
         amount: BN,
         slippage: number
     ): Promise<DEXQuote>;
+
+    /**
+     * 获取精确输出报价 (可选)
+     * 未实现此方法的协议不参与精确输出模式的报价
+     * @param tokenA 输入代币mint地址
+     * @param tokenB 输出代币mint地址
+     * @param outputAmount 期望的输出金额
+     * @param slippage 滑点容忍度 (0.01 = 1%)
+     * @returns 交易报价信息 (swapMode 为 'ExactOut')
+     */
+    getQuoteExactOut?(
+        tokenA: PublicKey,
+        tokenB: PublicKey,
+        outputAmount: BN,
+        slippage: number
+    ): Promise<DEXQuote>;
     
     /**
      * 构建交换指令
+     * 协议按 tokens 中两端mint所属的代币程序构建指令，不支持的 Token-2022 代币应直接拒绝
      * @param quote 报价信息
      * @param userWallet 用户钱包地址
      * @param tokenAccountA 代币A账户地址
      * @param tokenAccountB 代币B账户地址
+     * @param tokens 交换两端的代币信息
      * @returns 交换指令
      */
     buildSwapInstruction(
         quote: DEXQuote,
         userWallet: PublicKey,
         tokenAccountA: PublicKey,
-        tokenAccountB: PublicKey
+        tokenAccountB: PublicKey,
+        tokens: SwapTokenContext
     ): Promise<TransactionInstruction>;
+
+    /**
+     * 构建交换指令及其需要的地址查找表 (可选)
+     * 构建时才确定查找表的协议 (如 Jupiter) 实现此方法，查找表随指令返回而不写入报价；
+     * 聚合器优先调用此方法，未实现时调用 buildSwapInstruction 且不使用查找表
+     * @param quote 报价信息
+     * @param userWallet 用户钱包地址
+     * @param tokenAccountA 代币A账户地址
+     * @param tokenAccountB 代币B账户地址
+     * @param tokens 交换两端的代币信息
+     * @returns 交换指令和查找表地址
+     */
+    buildSwapInstructionWithLookupTables?(
+        quote: DEXQuote,
+        userWallet: PublicKey,
+        tokenAccountA: PublicKey,
+        tokenAccountB: PublicKey,
+        tokens: SwapTokenContext
+    ): Promise<SwapInstructionResult>;
+
+    /**
+     * 查找代币对的池子 (可选)
+     * 实现此方法的协议可以为多跳路由图提供边
+     * @param tokenA 代币A mint地址
+     * @param tokenB 代币B mint地址
+     * @returns 池子地址，不存在时返回 null
+     */
+    findPool?(tokenA: PublicKey, tokenB: PublicKey): Promise<PublicKey | null>;
+}
+
+/**
+ * 交换指令及其需要的地址查找表
+ */
+export interface SwapInstructionResult {
+    /** 交换指令 */
+    instruction: TransactionInstruction;
+
+    /** 将交换指令的账户压缩进 v0 交易的地址查找表 */
+    lookupTableAddresses: PublicKey[];
+}
+
+/**
+ * 构建交换指令时的代币信息
+ * 由聚合器通过共享的 TokenMintRegistry 解析，多跳路由的每一跳各自对应该跳的两端代币
+ */
+export interface SwapTokenContext {
+    /** 转入池子的代币mint信息 */
+    inputMint: TokenMintInfo;
+
+    /** 转出池子的代币mint信息 */
+    outputMint: TokenMintInfo;
+
+    /**
+     * 解析一次代币转账的转账钩子账户 (钩子声明的额外账户、钩子程序和验证账户)
+     * 代币没有转账钩子时返回空数组
+     * @param mint 代币mint信息
+     * @param source 转出账户
+     * @param destination 转入账户
+     * @param owner 转出账户的所有者
+     * @param amount 转账金额
+     */
+    resolveTransferHookAccounts(
+        mint: TokenMintInfo,
+        source: PublicKey,
+        destination: PublicKey,
+        owner: PublicKey,
+        amount: BN
+    ): Promise<AccountMeta[]>;
 }
 
 /**
@@ -62,7 +163,7 @@ export interface DEXQuote {
     /** 交易手续费 */
     fee: BN;
     
-    /** 交易路径 [输入代币, 输出代币] */
+    /** 交易路径 [输入代币, ...中间代币, 输出代币] */
     route: PublicKey[];
     
     /** 预估gas费用 */
@@ -70,8 +171,44 @@ export interface DEXQuote {
     
     /** 报价可信度 (0-1) */
     confidence: number;
+
+    /** 报价模式，未设置时为 'ExactIn' */
+    swapMode?: SwapMode;
+
+    /** 计入滑点后的最大输入金额 (仅当 swapMode 为 'ExactOut' 时存在) */
+    maxInputAmount?: BN;
+
+    /** 报价请求的滑点容忍度，精确输入模式构建交换指令时据此计算最小输出 */
+    slippage?: number;
+
+    /** 报价所依据的链上状态slot */
+    slot?: number;
+
+    /** 报价产生时间 (毫秒时间戳) */
+    fetchedAt?: number;
+
+    /**
+     * Token-2022 转账费 (各自以输入、输出代币计价)
+     * 精确输入模式的输出金额已扣除转账费；精确输出模式的输出金额为池子转出金额 (到账金额加输出转账费)，
+     * 输入金额和最大输入已计入输入代币的转账费
+     */
+    transferFees?: { input: BN; output: BN };
+
+    /**
+     * 协议专用的报价数据 (如 Jupiter 路由计划、Whirlpool 池子和 tick array 地址)
+     * 由产生报价的协议写入，并在 buildSwapInstruction 中读取，使报价自包含、可并发或延后构建；
+     * 其它模块应将其视为不透明数据，复制报价时原样保留
+     */
+    payload?: unknown;
 }
 
+/**
+ * 报价模式
+ * - ExactIn: 指定输入金额，输出金额受最小输出保护
+ * - ExactOut: 指定输出金额，输入金额受最大输入保护
+ */
+export type SwapMode = 'ExactIn' | 'ExactOut';
+
 /**
  * 聚合路由结果
  */
@@ -90,6 +227,134 @@ export interface AggregatedRoute {
     
     /** 执行策略 */
     executionStrategy: 'SINGLE' | 'SPLIT' | 'ROUTE';
+
+    /** 报价时使用的滑点容忍度 */
+    slippage: number;
+
+    /** 拆单路径 (仅当 executionStrategy 为 'SPLIT' 时存在) */
+    splitLegs?: SplitLeg[];
+
+    /** 多跳路径中每一跳的报价 (仅当 executionStrategy 为 'ROUTE' 时存在) */
+    routeHops?: DEXQuote[];
+
+    /** 多跳路径按报价成交时留在中间代币账户中的余额 (仅当 executionStrategy 为 'ROUTE' 时存在) */
+    intermediateDust?: IntermediateDust[];
+
+    /** 最佳报价的执行成本明细 (仅精确输入模式) */
+    costBreakdown?: QuoteCostBreakdown;
+}
+
+/**
+ * 报价执行成本明细
+ * SOL 计价的成本按价格源折算为输出代币，净输出 = 输出金额 - 折算后的总成本
+ */
+export interface QuoteCostBreakdown {
+    /** 协议手续费 (按报价成交价折算为输出代币)，已体现在输出金额中，不重复扣除 */
+    dexFee: BN;
+
+    /** 基础网络费 (lamports) */
+    networkFeeLamports: BN;
+
+    /** 优先费 (lamports)，按报价的预估CU计算 */
+    priorityFeeLamports: BN;
+
+    /** 需要新建的代币账户数量 */
+    newTokenAccounts: number;
+
+    /** 新建代币账户的租金 (lamports) */
+    accountRentLamports: BN;
+
+    /** Jito 小费 (lamports) */
+    tipLamports: BN;
+
+    /** SOL 计价成本合计 (lamports) */
+    totalCostLamports: BN;
+
+    /** 折算使用的价格 (每 lamport 可兑换的输出代币最小单位)，无法获取价格时为 null */
+    solPrice: number | null;
+
+    /** 折算为输出代币的总成本，无法获取价格时为 0 */
+    totalCost: BN;
+
+    /** 净输出金额 */
+    netOutputAmount: BN;
+}
+
+/**
+ * 价格源
+ * 为执行成本模型提供 SOL 与其它代币之间的兑换价格
+ */
+export interface PriceSource {
+    /**
+     * 获取 SOL 的价格
+     * @param mint 计价代币mint地址
+     * @returns 每 lamport 可兑换的计价代币最小单位数量
+     */
+    getSolPrice(mint: PublicKey): Promise<number>;
+}
+
+/**
+ * 拆单路径中的单个分腿
+ */
+export interface SplitLeg {
+    /** 该分腿的报价 */
+    quote: DEXQuote;
+
+    /** 分配给该分腿的输入比例 (0-1) */
+    ratio: number;
+}
+
+/**
+ * 多跳路径中间代币的剩余余额
+ * 下一跳按上一跳扣除滑点后的最小输出报价，上一跳实际输出超过该金额的部分留在中间代币账户中，
+ * 不计入路由的输出金额
+ */
+export interface IntermediateDust {
+    /** 中间代币mint地址 */
+    mint: PublicKey;
+
+    /** 按报价成交时的剩余金额 (中间代币最小单位)，上一跳实际输出更高时剩余更多 */
+    amount: BN;
+}
+
+/**
+ * 熔断器状态
+ * - closed: 正常调用
+ * - open: 熔断中，直接拒绝调用
+ * - half-open: 熔断到期，允许少量试探调用
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * 协议健康状况
+ */
+export interface ProtocolHealth {
+    /** 协议名称 */
+    name: string;
+
+    /** 熔断器状态 */
+    state: CircuitState;
+
+    /** 健康分 (0-1)，综合滚动窗口内的成功率和延迟，熔断中为 0 */
+    healthScore: number;
+
+    /** 滚动窗口内的成功率 (0-1) */
+    successRate: number;
+
+    /** 滚动窗口内的平均延迟 (毫秒) */
+    averageLatencyMs: number;
+
+    /** 滚动窗口内的调用次数 */
+    sampleCount: number;
+
+    /** 连续失败次数 */
+    consecutiveFailures: number;
+
+    /** 最近一次错误信息 */
+    lastError?: string;
+
+    /** 最近一次调用完成时间 */
+    lastCallAt?: Date;
 }
 
 /**
@@ -98,6 +363,8 @@ export interface AggregatedRoute {
 export enum SupportedDEX {
     ORCA = 'Orca',
     RAYDIUM = 'Raydium', 
+    RAYDIUM_CLMM = 'Raydium CLMM',
+    RAYDIUM_CPMM = 'Raydium CPMM',
     JUPITER = 'Jupiter'
 }
 
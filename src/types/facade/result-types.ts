@@ -60,6 +60,11 @@ export interface OptimalQuote {
     /** 预估执行成功率 */
     successProbability: number;
 
+    /** 报价年龄 (毫秒)，命中缓存时大于 0 */
+    quoteAge: number;
+
+    /** 报价所依据的链上状态slot */
+    quoteSlot?: number;
 }
 
 /**
@@ -176,6 +181,10 @@ export enum ErrorType {
     NETWORK_ERROR = 'network_error',
     INSUFFICIENT_BALANCE = 'insufficient_balance',
     SLIPPAGE_EXCEEDED = 'slippage_exceeded',
+    INSUFFICIENT_LIQUIDITY = 'insufficient_liquidity',
+    STALE_ORACLE = 'stale_oracle',
+    ACCOUNT_NOT_FOUND = 'account_not_found',
+    SIMULATION_FAILED = 'simulation_failed',
     DEADLINE_EXCEEDED = 'deadline_exceeded',
     POOL_NOT_FOUND = 'pool_not_found',
     MEV_PROTECTION_FAILED = 'mev_protection_failed',
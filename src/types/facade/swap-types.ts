@@ -1,6 +1,8 @@
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
 
+import { SwapMode } from '../dex/protocol';
+
 /**
  * 统一交易请求接口
  * 整合所有DEX协议的交易参数
@@ -12,15 +14,24 @@ export interface SwapRequest {
     /** 输出代币地址 */
     outputToken: PublicKey;
 
-    /** 输入金额 */
+    /** 输入金额 (精确输出模式下为可接受的最大输入金额) */
     inputAmount: BN;
 
     /** 滑点容忍度 (0.01 = 1%) */
     slippage: number;
 
+    /** 交换模式，默认 'ExactIn' */
+    swapMode?: SwapMode;
+
+    /** 精确输出模式下期望得到的输出金额 */
+    outputAmount?: BN;
+
     /** 用户钱包地址 */
     userWallet: PublicKey;
 
+    /** 手续费支付者 (同时支付新建代币账户的租金)，默认为 userWallet，不同时交易需要两者签名 */
+    feePayer?: PublicKey;
+
     /** 交易优先级 */
     priority?: SwapPriority;
 
@@ -35,6 +46,20 @@ export interface SwapRequest {
 
     /** 交易截止时间（Unix 时间戳） */
     deadline?: number;
+
+    /** 使用 durable nonce 构建交易，交易不会因区块哈希过期而失效，可以现在签名、之后提交 */
+    durableNonce?: DurableNonceOptions;
+}
+
+/**
+ * durable nonce 选项
+ */
+export interface DurableNonceOptions {
+    /** nonce 账户地址 */
+    nonceAccount: PublicKey;
+
+    /** nonce 授权者，默认为 userWallet */
+    authority?: PublicKey;
 }
 
 /**
@@ -94,7 +119,7 @@ export interface BatchSwapRequest {
     /** 交易列表 */
     swaps: SwapRequest[];
 
-    /** 是否作为原子操作执行 */
+    /** 是否作为原子操作执行 (所有交换编译为同一个 Jito Bundle，最多 5 笔，忽略执行策略) */
     atomic: boolean;
 
     /** 批量执行策略 */
@@ -102,6 +127,15 @@ export interface BatchSwapRequest {
 
     /** 是否启用 MEV 保护 */
     enableMevProtection?: boolean;
+
+    /** 原子执行时的 Bundle 优先级，默认 'medium' */
+    bundlePriority?: 'low' | 'medium' | 'high' | 'urgent';
+
+    /** 原子执行时的自定义小费金额（lamports） */
+    customTip?: number;
+
+    /** 原子执行时的小费支付者，默认为最后一笔交换的手续费支付者 */
+    tipPayer?: PublicKey;
 }
 
 
@@ -27,3 +27,33 @@ export interface NetworkConditions {
     timestamp: Date
     isHealthy: boolean
 }
+
+// simulateBundle 返回的账户 (base64 编码)
+export interface SimulatedBundleAccount {
+    lamports: number
+    owner: string
+    data: string[]
+    executable: boolean
+    rentEpoch?: number
+}
+
+// simulateBundle 中单笔交易的执行结果 (只包含已执行的交易)
+export interface SimulatedBundleTransactionResult {
+    err: unknown | null
+    logs: string[] | null
+    unitsConsumed?: number | null
+    preExecutionAccounts?: (SimulatedBundleAccount | null)[] | null
+    postExecutionAccounts?: (SimulatedBundleAccount | null)[] | null
+}
+
+// simulateBundle RPC 响应 (Jito-Solana 节点)
+export interface SimulateBundleResponse {
+    result?: {
+        context: { slot: number }
+        value: {
+            summary: 'succeeded' | { failed: { error: unknown; tx_signature: string | null } }
+            transactionResults: SimulatedBundleTransactionResult[]
+        }
+    }
+    error?: { code: number; message: string }
+}
@@ -1,6 +1,8 @@
-import { Transaction, PublicKey } from '@solana/web3.js'
-import { BundleOptions, BundleSubmissionResult, BundleStatusResult, BundleStatus } from './bundle-types'
+import { PublicKey, TransactionInstruction } from '@solana/web3.js'
+import { BundleOptions, BundleSubmissionResult, BundleStatusResult, BundleStatus, BundleTransaction, BundleSimulationResult } from './bundle-types'
 import { JitoError } from './jito-types'
+import { CongestionLevel, LandingTarget, TipRecommendation } from './tip-model-types'
+import { BundleTransition } from './bundle-store-types'
 
 //为什么时间字段有些是可选的？ 因为 Bundle 在不同阶段可能还没有到达某些时间点
 //为什么需要两个 ID？ id 是内部管理用的唯一标识，bundleId 是 Jito 返回的官方 ID
@@ -29,6 +31,9 @@ export interface BundleManagerConfig {
 
   // 是否启用事件通知 -- 支持异步处理
   enableEventNotifications: boolean
+
+  // 注入模拟器时是否在提交前模拟 -- 模拟失败的 Bundle 不提交
+  simulateBeforeSubmit: boolean
 }
 
 /**
@@ -43,7 +48,7 @@ export interface BundleInstance {
   bundleId: string
 
   // 交易列表 -- 包含所有的交易
-  transactions: Transaction[]
+  transactions: BundleTransaction[]
 
   // Bundle 选项 -- 提交时的配置
   options: BundleOptions
@@ -66,6 +71,9 @@ export interface BundleInstance {
   // 错误信息 -- 失败时的详细信息
   error?: JitoError
 
+  // 最近一次模拟结果 -- 每笔交易的日志、CU 和余额变化
+  simulation?: BundleSimulationResult
+
   // 性能指标 -- 执行性能数据
   metrics: BundleMetrics
 }
@@ -87,11 +95,24 @@ export interface BundleMetrics {
   // 小费金额 （lamports） -- 支付的费用
   tipAmount: number
 
+  // 小费转出账户 (base58) -- 落地后记入钱包账本
+  tipPayer?: string
+
   // 交易数量 -- Bundle 大小
   transactionCount: number
 
   // 是否成功 -- 最终结果
   success: boolean
+
+  // 提交时的网络拥堵程度和延迟 -- 小费模型的特征
+  networkCongestion?: CongestionLevel
+  networkLatency?: number
+
+  // 提交时的 slot -- 来自 RPC，与落地 slot 一起计算落地所用的 slot 数
+  submittedSlot?: number
+
+  // 落地的 slot -- 来自 Jito 状态
+  landedSlot?: number
 }
 
 /**
@@ -104,7 +125,9 @@ export enum BundleEventType {
   CONFIRMED = 'confirmed', // Bundle 确认
   FAILED = 'failed', // Bundle 失败
   TIMEOUT = 'timeout', // Bundle 超时
-  RETRY = 'retry' // Bundle 重试
+  RETRY = 'retry', // Bundle 重试
+  SIMULATED = 'simulated', // Bundle 模拟完成
+  STATUS_CHANGED = 'status_changed' // Jito 报告的状态变化 (包括 Pending → Processing 等未完成状态之间的变化)
 }
 
 /**
@@ -234,7 +257,19 @@ export interface BundleQueueItem {
  */
 export interface IBundleManager {
   // 创建 Bundle -- 创建新的 Bundle 实例但不提交
-  createBundle(transactions: Transaction[], options?: Partial<BundleOptions>): Promise<BundleInstance>
+  createBundle(transactions: BundleTransaction[], options?: Partial<BundleOptions>): Promise<BundleInstance>
+
+  // 创建小费指令 -- 小费放入 Bundle 的最后一笔交易，提交时不再追加小费交易
+  createTipInstruction(payer: PublicKey, options?: Partial<BundleOptions>): Promise<{ instruction: TransactionInstruction; tipAmount: number }>
+
+  // 模拟 Bundle -- 所有交易依次执行，返回每笔交易的模拟结果
+  simulateBundle(bundleId: string): Promise<BundleSimulationResult>
+
+  // 替换 Bundle 的交易 -- 仅限未提交的 Bundle (如按整体模拟测得的CU重新签名后)
+  replaceTransactions(bundleId: string, transactions: BundleTransaction[]): Promise<BundleInstance>
+
+  // 计算小费 -- 按小费模型计算达到落地目标所需的小费，历史不足时返回 null
+  recommendTip(target: LandingTarget): TipRecommendation | null
 
   // 提交 Bundle -- 将 Bundle 提交到 Jito 网络
   submitBundle(bundleId: string): Promise<BundleSubmissionResult>
@@ -245,6 +280,9 @@ export interface IBundleManager {
   // 获取 Bundle 状态 -- 查询 Bundle 的当前状态
   getBundleStatus(bundleId: string): Promise<BundleStatusResult>
 
+  // 获取 Bundle 状态转换记录 -- 从持久化存储中读取
+  getBundleHistory(bundleId: string): Promise<BundleTransition[]>
+
   // 取消 Bundle -- 取消未提交或处理中的 Bundle
   cancelBundle(bundleId: string): Promise<boolean>
 
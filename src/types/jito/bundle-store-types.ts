@@ -0,0 +1,67 @@
+// BundleRecord: 可序列化的 Bundle 快照 (交易为 base64，时间为 Unix 毫秒)
+// BundleTransition: Bundle 生命周期中的一次状态转换
+// BundleStore: 可替换的持久化层 (内存、文件，或自行实现的数据库存储)，同时保存小费模型的观测
+
+import { BundleOptions, BundleStatus } from './bundle-types'
+import { BundleMetrics } from './bundle-manager-types'
+import { TipObservation } from './tip-model-types'
+
+// 持久化的交易
+export interface StoredTransaction {
+    data: string // base64
+    legacy: boolean // Legacy 交易或 v0 交易
+}
+
+// 持久化的 Bundle
+export interface BundleRecord {
+    id: string
+    bundleId: string
+    transactions: StoredTransaction[]
+    options: BundleOptions
+    createdAt: number
+    submittedAt?: number
+    completedAt?: number
+    status: BundleStatus
+    retryCount: number
+    error?: {
+        code: string
+        message: string
+        timestamp: number
+    }
+    metrics: BundleMetrics // 包含支付的小费
+    updatedAt: number
+}
+
+// Bundle 状态转换
+export interface BundleTransition {
+    id: string // Bundle 内部 ID
+    bundleId: string // Jito 返回的 Bundle ID (提交前为空)
+    from?: BundleStatus // 创建时为空
+    to: BundleStatus
+    at: number
+    reason?: string
+}
+
+// Bundle 存储
+export interface BundleStore {
+    // 保存 Bundle 快照，同时记录状态转换 (如有)
+    save(record: BundleRecord, transition?: BundleTransition): Promise<void>
+
+    // 获取 Bundle
+    get(id: string): Promise<BundleRecord | null>
+
+    // 列出 Bundle (可按状态过滤)
+    list(statuses?: BundleStatus[]): Promise<BundleRecord[]>
+
+    // 获取 Bundle 的状态转换记录 (按时间顺序)
+    getTransitions(id: string): Promise<BundleTransition[]>
+
+    // 保存小费模型的观测 (已完成 Bundle 的小费和落地结果)
+    saveTipObservation(observation: TipObservation): Promise<void>
+
+    // 列出保存的小费观测 (按记录顺序)
+    listTipObservations(): Promise<TipObservation[]>
+
+    // 压缩存储 (可选，追加写入的存储实现此方法，由 BundleManager 启动时调用)
+    compact?(): Promise<void>
+}
@@ -1,3 +1,10 @@
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js'
+import BN from 'bn.js'
+import { LandingTarget } from './tip-model-types'
+
+// Bundle 中的交易 (Legacy 或 v0)
+export type BundleTransaction = Transaction | VersionedTransaction
+
 // Bundle 配置选项
 export interface BundleOptions {
     // 官方 SDK 参数
@@ -19,6 +26,7 @@ export interface TipStrategy {
     amount?: number // 手动模式下的固定小费
     percentile?: number // 自动模式下的百分位数 （25，50, 75, 95）
     maxTip?: number // 最大小费限制
+    landingTarget?: LandingTarget // 自动模式下按小费模型计算达到落地目标的小费 (模型无法给出时使用百分位数)
 }
 
 // Bundle 提交结果
@@ -27,10 +35,19 @@ export interface BundleSubmissionResult {
     status: 'submitted' | 'failed'
     estimatedConfirmationTime: number
     tipAmount: number
+    tipPayer?: PublicKey // 小费转出账户 (未知时不存在)
     transactionCount: number
     error?: string
 }
 
+// 准备好的 Bundle (已计算小费并在需要时追加小费交易，即最终提交的交易列表)
+export interface PreparedBundle {
+    transactions: BundleTransaction[]
+    tipAmount: number
+    tipPayer?: PublicKey // 小费转出账户 (Bundle 自带的小费转账或追加的小费交易)
+    options: Partial<BundleOptions> // 合并默认配置后的选项
+}
+
 // Bundle 状态枚举
 export enum BundleStatus {
     PENDING = 'Pending',  // 待办
@@ -50,4 +67,56 @@ export interface BundleStatusResult {
     transactions?: string[]
     landedAt?: Date
     error?: any
-}
\ No newline at end of file
+}
+
+// Bundle 状态变化 (状态跟踪器在状态改变时发出)
+export interface BundleStatusUpdate {
+    bundleId: string
+    status: BundleStatus
+    previousStatus?: BundleStatus
+    slot?: number
+    confirmationStatus?: 'processed' | 'confirmed' | 'finalized'
+    error?: string
+    source: 'websocket' | 'inflight' | 'history' // 签名订阅、getInflightBundleStatuses 或 getBundleStatuses
+    observedAt: Date
+}
+
+// Bundle 状态变化监听器
+export type BundleStatusListener = (update: BundleStatusUpdate) => void | Promise<void>
+
+// 模拟前后的账户余额变化 (只包含余额有变化的可写账户)
+export interface AccountBalanceDelta {
+    address: PublicKey
+    preLamports: number
+    postLamports: number
+    lamportsDelta: number
+    mint?: PublicKey // 代币账户的 mint (非代币账户不存在)
+    tokenDelta?: BN // 代币数量变化 (最小单位)
+}
+
+// Bundle 中单笔交易的模拟结果
+export interface BundleTransactionSimulation {
+    index: number
+    signature: string | null
+    executed: boolean // 前面的交易失败时后续交易不执行
+    success: boolean
+    error?: string
+    logs: string[]
+    unitsConsumed?: number
+    balanceDeltas: AccountBalanceDelta[]
+}
+
+// Bundle 模拟结果
+export interface BundleSimulationResult {
+    success: boolean
+    slot?: number
+    failedTransactionIndex?: number // 第一笔失败的交易
+    error?: string
+    sharedState: boolean // 交易是否在同一状态上依次执行 (逐笔模拟的本地替代为 false)
+    transactions: BundleTransactionSimulation[]
+}
+
+// Bundle 模拟器 (Jito simulateBundle RPC 或本地替代)
+export interface BundleSimulator {
+    simulateBundle(transactions: BundleTransaction[]): Promise<BundleSimulationResult>
+}
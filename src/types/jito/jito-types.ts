@@ -19,6 +19,7 @@ export interface JitoConfig {
     network: 'mainnet' | 'devnet' | 'testnet'
     endpoint?: string // 自定义端点，覆盖默认配置
     uuid?: string  // API 密钥 （可选）
+    simulationEndpoint?: string // 支持 simulateBundle 的 Jito-Solana RPC 地址 (未配置时使用 Solana 连接的 RPC 地址)
 
     // 默认 Bundle 配置
     defaultBundleOptions: Partial<BundleOptions> //它的类型是 BundleOptions 的一个可选子集。
@@ -0,0 +1,40 @@
+// TipObservation: 单个 Bundle 的小费和落地结果
+// LandingTarget: 调用方要求的落地概率和 slot 数
+// TipModelState: 可序列化的模型状态，用于重启后恢复
+
+// 网络拥堵程度 (与 NetworkStatus.congestionLevel 一致)
+export type CongestionLevel = 'low' | 'medium' | 'high'
+
+// 单个 Bundle 的小费观测
+export interface TipObservation {
+    bundleId: string
+    tipAmount: number // 支付的小费 (lamports)
+    landed: boolean
+    timeToLandMs?: number // 提交到落地的时间 (只有落地的 Bundle)
+    submittedSlot?: number
+    landedSlot?: number
+    congestion: CongestionLevel // 提交时的网络拥堵程度
+    latency: number // 提交时的 Block Engine 延迟 (毫秒)
+    recordedAt: number // 记录时间 (Unix 毫秒)
+}
+
+// 落地目标: 例如 { probability: 0.9, withinSlots: 2 }
+export interface LandingTarget {
+    probability: number // 0-1
+    withinSlots: number
+}
+
+// 小费建议
+export interface TipRecommendation {
+    tipAmount: number // lamports
+    probability: number // 模型预测的落地概率
+    withinSlots: number
+    congestion: CongestionLevel
+    sampleSize: number // 拟合使用的观测数
+}
+
+// 可序列化的模型状态
+export interface TipModelState {
+    version: 1
+    observations: TipObservation[]
+}
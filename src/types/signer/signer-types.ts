@@ -0,0 +1,64 @@
+import { Keypair, PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+
+/**
+ * 交易签名者
+ * 所有需要签名的路径 (交换交易、小费交易、nonce 管理) 都通过此接口签名，
+ * 不直接接触私钥，可以替换为本地密钥、环境变量密钥或远程签名服务
+ */
+export interface TransactionSigner {
+    /** 签名者公钥 */
+    readonly publicKey: PublicKey;
+
+    /**
+     * 为交易添加签名 (保留已有的其他签名)
+     * @returns 签名后的同一交易
+     */
+    signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T>;
+
+    /**
+     * 批量签名
+     * @returns 签名后的同一组交易
+     */
+    signAllTransactions<T extends Transaction | VersionedTransaction>(transactions: T[]): Promise<T[]>;
+}
+
+/**
+ * 签名者来源
+ */
+export type SignerSource =
+    /** 内存中的密钥对 */
+    | { type: 'keypair'; keypair: Keypair }
+    /** Solana CLI 格式的密钥文件 (JSON 字节数组) */
+    | { type: 'keypair-file'; path: string }
+    /** 环境变量中的私钥 (JSON 字节数组或 base58)，不传变量名时使用配置的默认值 */
+    | { type: 'env'; variable?: string }
+    /** 远程签名服务 */
+    | { type: 'remote'; url: string };
+
+/**
+ * 远程签名服务的公钥响应 (GET {url}/public-key)
+ */
+export interface RemotePublicKeyResponse {
+    /** base58 公钥 */
+    publicKey: string;
+}
+
+/**
+ * 远程签名请求 (POST {url}/sign)
+ * 只发送待签名的消息字节，私钥不离开签名服务
+ */
+export interface RemoteSignRequest {
+    /** 期望的签名者公钥 (base58) */
+    publicKey: string;
+
+    /** 待签名的消息 (base64) */
+    messages: string[];
+}
+
+/**
+ * 远程签名响应
+ */
+export interface RemoteSignResponse {
+    /** 与 messages 一一对应的签名 (base58) */
+    signatures: string[];
+}
@@ -1,6 +1,9 @@
 import { PublicKey } from "@solana/web3.js";
 import BN from "bn.js";
 
+import { SwapMode } from "../dex/protocol";
+import { AccountRentSummary, LandingResult, SimulationFailure } from "../transaction/transaction-types";
+
 /**
  * 交换方向枚举
  */
@@ -18,14 +21,23 @@ export interface SwapParams {
     /** 交换方向 */
     direction: SwapDirection;
     
-    /** 输入金额 */
+    /** 输入金额 (精确输出模式下为可接受的最大输入金额) */
     inputAmount: BN;
     
-    /** 最小输出金额 */
+    /** 最小输出金额 (精确输出模式下不使用) */
     minimumOutputAmount: BN;
     
     /** 滑点容忍度 (0.01 = 1%) */
     slippageTolerance: number;
+
+    /** 交换模式，默认 'ExactIn' */
+    swapMode?: SwapMode;
+
+    /** 精确输出模式下期望得到的输出金额 */
+    outputAmount?: BN;
+
+    /** 代币所有者 (交易子账户)，默认为引擎钱包，签名者须已通过 registerWallet 注册 */
+    owner?: PublicKey;
 }
 
 /**
@@ -63,6 +75,15 @@ export interface SwapResult {
     
     /** 错误信息 (如果失败) */
     error?: string;
+
+    /** 预执行模拟失败原因 (如果在模拟阶段失败) */
+    simulationFailure?: SimulationFailure;
+
+    /** 交易落地结果 (landed / failed / expired / dropped，发送后存在) */
+    landing?: LandingResult;
+
+    /** 代币账户的租金收支 (交换成功时存在) */
+    accountRent?: AccountRentSummary;
 }
 
 /**
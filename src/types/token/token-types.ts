@@ -1,4 +1,5 @@
 import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
 
 /**
  * 支持的网络类型
@@ -170,3 +171,44 @@ export interface TokenPrice {
     /** 价格更新时间 */
     updatedAt: Date;
 }
+
+/**
+ * Token-2022 转账费设置 (当前epoch生效的费率)
+ */
+export interface TransferFeeSettings {
+    /** 费率 (基点) */
+    basisPoints: number;
+
+    /** 单笔转账费上限 (最小单位) */
+    maximumFee: BN;
+}
+
+/**
+ * 代币mint信息
+ * 包含mint所属的代币程序和影响交换的 Token-2022 扩展
+ */
+export interface TokenMintInfo {
+    /** 代币mint地址 */
+    mint: PublicKey;
+
+    /** mint所属的代币程序 (SPL Token 或 Token-2022) */
+    programId: PublicKey;
+
+    /** 小数位数 */
+    decimals: number;
+
+    /** 该代币的关联代币账户大小 (字节)，用于计算租金 */
+    tokenAccountSize: number;
+
+    /** 转账费 (仅带转账费扩展的 Token-2022 代币) */
+    transferFee?: TransferFeeSettings;
+
+    /** 转账钩子程序 (仅带转账钩子扩展的 Token-2022 代币) */
+    transferHookProgramId?: PublicKey;
+
+    /** 是否不可转让 (不可转让的代币无法交换) */
+    nonTransferable: boolean;
+
+    /** 计息年利率 (基点，仅影响显示金额，交换按原始金额执行) */
+    interestRateBps?: number;
+}
@@ -0,0 +1,389 @@
+import {
+    AccountMeta,
+    AddressLookupTableAccount,
+    PublicKey,
+    TransactionInstruction,
+    TransactionVersion,
+    VersionedTransaction
+} from "@solana/web3.js";
+
+import { SwapPriority } from "../facade/swap-types";
+import { SwapError } from "../facade/result-types";
+
+/**
+ * 交易组装选项
+ */
+export interface AssembleOptions {
+    /** 需要使用的地址查找表 (如报价携带的 Jupiter 查找表)，与配置中的自维护查找表合并 */
+    lookupTableAddresses?: PublicKey[];
+
+    /** 指定区块哈希，不传时获取最新的区块哈希 */
+    recentBlockhash?: string;
+
+    /** 区块哈希的最后有效区块高度 (与 recentBlockhash 一起传入) */
+    lastValidBlockHeight?: number;
+
+    /** 使用 durable nonce 代替区块哈希 (优先于 recentBlockhash)，交易开头会插入推进 nonce 的指令 */
+    nonce?: NonceInfo;
+
+    /** 添加只读的 jitodontfront 账户 (Jito 前置交易保护)，账户加入第一个指令 */
+    dontFront?: boolean;
+}
+
+/**
+ * 构建 v0 交换交易的选项
+ */
+export interface SwapBuildOptions {
+    /** 交易优先级 (决定优先费单价)，默认 MEDIUM */
+    priority?: SwapPriority;
+
+    /** 使用的 durable nonce (不传时使用最新区块哈希) */
+    nonce?: NonceInfo;
+
+    /** 手续费支付者 (同时支付新建代币账户的租金)，默认为代币所有者 */
+    feePayer?: PublicKey;
+
+    /** 追加在交换指令之后的 Jito 小费指令 (原子 Bundle 的最后一笔交易)，小费支付者需要共同签名 */
+    tipInstruction?: TransactionInstruction;
+
+    /** 添加只读的 jitodontfront 账户 (启用 MEV 保护的 Bundle 的第一笔交易需要) */
+    dontFront?: boolean;
+
+    /**
+     * 跳过计算预算的单独模拟，CU上限先取 MAX_CU_LIMIT
+     * 用于原子 Bundle 中使用前序交易输出的交易，CU由 Bundle 整体模拟测得后通过 applyMeasuredComputeUnits 设置
+     */
+    skipComputeSimulation?: boolean;
+}
+
+/**
+ * 组装完成的未签名交易
+ */
+export interface AssembledTransaction {
+    /** 未签名的 v0 交易 */
+    transaction: VersionedTransaction;
+
+    /** 编译时实际引用的地址查找表 */
+    lookupTables: AddressLookupTableAccount[];
+
+    /** 区块哈希 */
+    recentBlockhash: string;
+
+    /** 区块哈希的最后有效区块高度 (未知或使用 durable nonce 时不存在) */
+    lastValidBlockHeight?: number;
+
+    /** 使用的 durable nonce (recentBlockhash 即 nonce 值) */
+    durableNonce?: NonceInfo;
+
+    /** 签名后的序列化字节数 */
+    serializedSize: number;
+
+    /** 交易大小上限 */
+    maxSize: number;
+
+    /** 是否在大小上限内 */
+    withinSizeLimit: boolean;
+
+    /** 自动设置的计算预算 (未启用时不存在) */
+    computeBudget?: ComputeBudgetSettings;
+
+    /** 交换交易中代币账户的租金收支 (仅交换交易) */
+    accountRent?: AccountRentSummary;
+}
+
+/**
+ * 交换交易中代币账户的租金收支
+ * 新建账户的租金由手续费支付者支付；临时 WSOL 账户在同一交易中创建并关闭，支付的租金全额退回手续费支付者
+ */
+export interface AccountRentSummary {
+    /** 手续费支付者为新建账户支付的租金 (lamports) */
+    paidLamports: number;
+
+    /** 关闭本交易新建的账户时退回手续费支付者的租金 (lamports) */
+    refundedLamports: number;
+
+    /** 关闭交易前已存在的账户时退回代币所有者的租金 (lamports) */
+    ownerRefundedLamports: number;
+
+    /** 新建的账户数量 */
+    accountsCreated: number;
+
+    /** 关闭的账户数量 */
+    accountsClosed: number;
+}
+
+/**
+ * 计算预算选项
+ */
+export interface ComputeBudgetOptions {
+    /** 交易优先级，决定优先费单价取最近优先费分布的哪个百分位，默认 MEDIUM */
+    priority?: SwapPriority;
+
+    /** 模拟时使用的地址查找表 */
+    lookupTables?: AddressLookupTableAccount[];
+
+    /** 模拟失败时使用的预估CU (如报价的 estimatedGas) */
+    fallbackUnits?: number;
+
+    /** 跳过单独模拟，CU上限使用 MAX_CU_LIMIT (无法单独模拟的交易，由调用方测得CU后再设置) */
+    skipSimulation?: boolean;
+}
+
+/**
+ * 计算预算设置
+ */
+export interface ComputeBudgetSettings {
+    /** CU上限 */
+    unitLimit: number;
+
+    /** 优先费单价 (微lamports / CU) */
+    unitPrice: number;
+
+    /** 模拟测得的CU，模拟失败时为 null */
+    simulatedUnits: number | null;
+
+    /** 按CU上限计算的优先费 (lamports) */
+    priorityFeeLamports: number;
+}
+
+/**
+ * 计算预算处理结果
+ */
+export interface ComputeBudgetResult extends ComputeBudgetSettings {
+    /** 以计算预算指令开头的完整指令列表 */
+    instructions: TransactionInstruction[];
+}
+
+/**
+ * 预执行模拟失败原因
+ * 由模拟返回的错误和程序日志解码而来
+ */
+export interface SimulationFailure extends SwapError {
+    /** 出错的程序 (已知 DEX 为协议名称，否则为程序地址) */
+    program?: string;
+
+    /** 出错的顶层指令序号 */
+    instructionIndex?: number;
+
+    /** 程序自定义错误码 */
+    customCode?: number;
+
+    /** 程序错误名称 (如 AmountOutBelowMinimum) */
+    errorName?: string;
+
+    /** 模拟产生的程序日志 */
+    logs: string[];
+}
+
+/**
+ * 预执行模拟结果
+ */
+export interface SimulationReport {
+    /** 模拟是否成功 */
+    success: boolean;
+
+    /** 消耗的CU */
+    unitsConsumed?: number;
+
+    /** 程序日志 */
+    logs: string[];
+
+    /** 失败原因 (仅失败时存在) */
+    failure?: SimulationFailure;
+}
+
+/**
+ * 反编译后指令在交易中的作用
+ * setup / cleanup 按相对于交换指令的位置划分 (如创建代币账户、包装和解包 SOL)
+ */
+export type InstructionRole = 'compute-budget' | 'setup' | 'swap' | 'cleanup' | 'tip' | 'other';
+
+/**
+ * 反编译后的账户
+ */
+export interface DecompiledAccount extends AccountMeta {
+    /** 账户来自的地址查找表 (静态账户不存在) */
+    lookupTable?: PublicKey;
+}
+
+/**
+ * 反编译后的指令
+ */
+export interface DecompiledInstruction {
+    /** 在原交易中的序号 */
+    index: number;
+
+    /** 程序地址 */
+    programId: PublicKey;
+
+    /** 程序名称 (未知程序为地址) */
+    programName: string;
+
+    /** 指令作用 */
+    role: InstructionRole;
+
+    /** 账户 (已解析查找表，含签名和可写标记) */
+    accounts: DecompiledAccount[];
+
+    /** 指令数据 */
+    data: Buffer;
+
+    /** 可直接重新编译的指令 */
+    instruction: TransactionInstruction;
+}
+
+/**
+ * 反编译后的交易
+ */
+export interface DecompiledTransaction {
+    /** 交易版本 */
+    version: TransactionVersion;
+
+    /** 手续费支付者 */
+    payer: PublicKey;
+
+    /** 原交易的区块哈希 */
+    recentBlockhash: string;
+
+    /** 需要签名的账户 */
+    signers: PublicKey[];
+
+    /** 指令 (按原顺序) */
+    instructions: DecompiledInstruction[];
+
+    /** 原交易引用的地址查找表 */
+    lookupTables: AddressLookupTableAccount[];
+}
+
+/**
+ * 重组交易选项
+ */
+export interface RecomposeOptions {
+    /** 替换原交易的计算预算指令，不传时保留原有的 */
+    computeBudgetInstructions?: TransactionInstruction[];
+
+    /** 插入在原交易指令之前的准备指令 */
+    setupInstructions?: TransactionInstruction[];
+
+    /** 追加在原交易指令之后的清理指令 */
+    cleanupInstructions?: TransactionInstruction[];
+
+    /** 替换原交易小费的小费指令，不传时保留原有的 */
+    tipInstruction?: TransactionInstruction;
+
+    /** 除手续费支付者外允许出现的签名者 */
+    additionalSigners?: PublicKey[];
+
+    /** 额外使用的地址查找表，与原交易的查找表合并 */
+    lookupTableAddresses?: PublicKey[];
+
+    /** 指定区块哈希，不传时获取最新的区块哈希 */
+    recentBlockhash?: string;
+
+    /** 区块哈希的最后有效区块高度 (与 recentBlockhash 一起传入) */
+    lastValidBlockHeight?: number;
+}
+
+/**
+ * 缓存的区块哈希
+ */
+export interface BlockhashInfo {
+    /** 区块哈希 */
+    blockhash: string;
+
+    /** 最后有效区块高度，超过后使用该区块哈希的交易不会再被处理 */
+    lastValidBlockHeight: number;
+
+    /** 获取时间 (毫秒时间戳) */
+    fetchedAt: number;
+}
+
+/**
+ * 交易落地结果
+ * - landed: 已确认且执行成功
+ * - failed: 已确认但执行失败 (仍支付了手续费)
+ * - expired: 区块哈希过期前未确认，交易不会再落地
+ * - dropped: 节点连续拒绝交易，未能广播
+ */
+export type LandingOutcome = 'landed' | 'failed' | 'expired' | 'dropped';
+
+/**
+ * 交易发送结果
+ */
+export interface LandingResult {
+    /** 落地结果 */
+    outcome: LandingOutcome;
+
+    /** 交易签名 */
+    signature: string;
+
+    /** 广播次数 */
+    broadcasts: number;
+
+    /** 区块哈希过期后重新报价并签名的次数 */
+    resubmissions: number;
+
+    /** 确认所在的 slot (仅已确认时存在) */
+    slot?: number;
+
+    /** 失败原因 (failed 为链上错误，dropped 为发送错误) */
+    error?: string;
+}
+
+/**
+ * durable nonce 账户状态
+ */
+export interface NonceInfo {
+    /** nonce 账户地址 */
+    nonceAccount: PublicKey;
+
+    /** 当前 nonce 值，作为交易的 recentBlockhash */
+    nonce: string;
+
+    /** 有权推进 nonce 的账户，必须为交易签名 */
+    authority: PublicKey;
+
+    /** 读取时的 slot */
+    slot: number;
+}
+
+/**
+ * 创建 nonce 账户的结果
+ */
+export interface NonceAccountCreation {
+    /** nonce 账户地址 */
+    nonceAccount: PublicKey;
+
+    /** 初始 nonce 值 */
+    nonce: string;
+
+    /** 创建交易签名 */
+    signature: string;
+}
+
+/**
+ * 钱包的累计支出
+ * 手续费和代币账户租金记在交易的手续费支付者名下，交换次数记在代币所有者名下，Jito 小费记在小费支付者名下
+ */
+export interface WalletAccounting {
+    /** 钱包地址 */
+    wallet: PublicKey;
+
+    /** 作为代币所有者完成的交换次数 */
+    swaps: number;
+
+    /** 作为手续费支付者支付的交易数 (包括执行失败的交易) */
+    transactionsPaid: number;
+
+    /** 支付的手续费 (lamports，基础费用加优先费) */
+    feesPaid: number;
+
+    /** 为新建代币账户支付的租金 (lamports) */
+    rentPaid: number;
+
+    /** 关闭代币账户退回的租金 (lamports) */
+    rentRefunded: number;
+
+    /** 已落地 Bundle 支付的 Jito 小费 (lamports) */
+    tipsPaid: number;
+}
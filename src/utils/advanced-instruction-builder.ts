@@ -1,13 +1,12 @@
 import {
     PublicKey,
     TransactionInstruction,
-    VersionedTransaction,
     Transaction,
-    AccountMeta,
-    AddressLookupTableAccount,
     Connection
 } from '@solana/web3.js';
 
+import { TransactionDecompiler } from '../core/transaction/transaction-decompiler';
+
 /**
  * 高级指令构建器 - 项目技术亮点
  * 
@@ -51,7 +50,7 @@ export class AdvancedInstructionBuilder {
         console.log(`   交易数据大小: ${swapTransactionBase64.length} 字符`);
 
         try {
-            // 方法 1: 尝试 VersionedTransaction 解析（展现技术深度）
+            // 方法 1: 反编译交易（legacy 和 v0 均可，解析 ALT 账户）
             const versionedResult = await this.tryVersionedTransactionParsing(
                 swapTransactionBase64,
                 targetProgramId,
@@ -60,7 +59,7 @@ export class AdvancedInstructionBuilder {
             );
 
             if (versionedResult.success) {
-                console.log(`✅ VersionedTransaction 解析成功 (${Date.now() - startTime}ms)`);
+                console.log(`✅ 反编译解析成功 (${Date.now() - startTime}ms)`);
                 return versionedResult.instruction!;
             }
 
@@ -98,8 +97,8 @@ export class AdvancedInstructionBuilder {
     }
 
     /**
-     * 方法 1: VersionedTransaction 解析 - 支持 Address Lookup Tables
-     * 展现对 Solana V0 交易格式和 ALT 的深度理解
+     * 方法 1: 反编译解析 - 支持 legacy 和 v0 交易以及 Address Lookup Tables
+     * 账户解析和权限计算由 TransactionDecompiler 完成，只有引用查找表的交易需要连接
      */
     private static async tryVersionedTransactionParsing(
         swapTransactionBase64: string,
@@ -109,59 +108,34 @@ export class AdvancedInstructionBuilder {
     ): Promise<{ success: boolean; instruction?: TransactionInstruction; error?: string }> {
 
         try {
-            console.log('🔍 尝试 VersionedTransaction 解析...');
+            console.log('🔍 尝试反编译交易...');
 
-            const transactionBuffer = Buffer.from(swapTransactionBase64, 'base64');
-            const versionedTx = VersionedTransaction.deserialize(transactionBuffer);
-
-            console.log(`   交易版本: ${versionedTx.version}`);
-            console.log(`   指令数量: ${versionedTx.message.compiledInstructions.length}`);
-            console.log(`   静态账户数量: ${versionedTx.message.staticAccountKeys.length}`);
-
-            // 获取 Address Lookup Table 账户（关键技术突破）
-            let addressLookupTableAccounts: AddressLookupTableAccount[] = [];
-            if (connection && addressLookupTableAddresses && addressLookupTableAddresses.length > 0) {
-                console.log(`   🔍 解析 ${addressLookupTableAddresses.length} 个 Address Lookup Tables...`);
-                addressLookupTableAccounts = await this.getAddressLookupTableAccounts(
-                    connection,
-                    addressLookupTableAddresses
-                );
-                console.log(`   ✅ 成功解析 ${addressLookupTableAccounts.length} 个 ALT 账户`);
+            // 反编译器按消息中引用的查找表读取，传入的地址仅用于日志
+            if (addressLookupTableAddresses && addressLookupTableAddresses.length > 0) {
+                console.log(`   报价携带 ${addressLookupTableAddresses.length} 个 Address Lookup Tables`);
             }
 
-            // 查找目标程序的指令
-            for (let i = 0; i < versionedTx.message.compiledInstructions.length; i++) {
-                const compiledIx = versionedTx.message.compiledInstructions[i];
-                const programId = versionedTx.message.staticAccountKeys[compiledIx.programIdIndex];
+            const decompiled = await new TransactionDecompiler(connection).decompile(swapTransactionBase64);
 
-                if (programId.equals(targetProgramId)) {
-                    console.log(`   ✅ 找到目标指令，索引: ${i}`);
+            console.log(`   交易版本: ${decompiled.version}`);
+            console.log(`   指令数量: ${decompiled.instructions.length}`);
+            console.log(`   查找表数量: ${decompiled.lookupTables.length}`);
 
-                    // 重建账户元数据（支持 ALT 的核心技术难点）
-                    const accountMetas = this.reconstructAccountMetasWithALT(
-                        compiledIx,
-                        versionedTx.message,
-                        addressLookupTableAccounts
-                    );
-
-                    const instruction = new TransactionInstruction({
-                        programId: targetProgramId,
-                        keys: accountMetas,
-                        data: Buffer.from(compiledIx.data)
-                    });
+            const target = decompiled.instructions.find(instruction => instruction.programId.equals(targetProgramId));
+            if (!target) {
+                return { success: false, error: '未找到目标程序指令' };
+            }
 
-                    // 验证指令完整性
-                    this.validateInstruction(instruction);
+            console.log(`   ✅ 找到目标指令，索引: ${target.index}`);
 
-                    return { success: true, instruction };
-                }
-            }
+            // 验证指令完整性
+            this.validateInstruction(target.instruction);
 
-            return { success: false, error: '未找到目标程序指令' };
+            return { success: true, instruction: target.instruction };
 
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : String(error);
-            console.log(`   ⚠️  VersionedTransaction 解析失败: ${errorMsg}`);
+            console.log(`   ⚠️  反编译交易失败: ${errorMsg}`);
             return { success: false, error: errorMsg };
         }
     }
@@ -283,184 +257,6 @@ export class AdvancedInstructionBuilder {
         }
     }
 
-    /**
-     * 获取 Address Lookup Table 账户
-     * 这是解决 Jupiter V6 交易解析的关键技术
-     */
-    private static async getAddressLookupTableAccounts(
-        connection: Connection,
-        addressLookupTableAddresses: string[]
-    ): Promise<AddressLookupTableAccount[]> {
-        console.log('🔍 获取 Address Lookup Table 账户...');
-
-        const addressLookupTableAccounts: AddressLookupTableAccount[] = [];
-
-        for (const address of addressLookupTableAddresses) {
-            try {
-                const accountInfo = await connection.getAccountInfo(new PublicKey(address));
-                if (accountInfo) {
-                    const lookupTableState = AddressLookupTableAccount.deserialize(accountInfo.data);
-                    const lookupTableAccount = new AddressLookupTableAccount({
-                        key: new PublicKey(address),
-                        state: lookupTableState
-                    });
-                    addressLookupTableAccounts.push(lookupTableAccount);
-                    console.log(`   ✅ ALT 账户 ${address.slice(0, 8)}... 包含 ${lookupTableState.addresses.length} 个地址`);
-                } else {
-                    console.warn(`   ⚠️  ALT 账户 ${address} 不存在`);
-                }
-            } catch (error) {
-                console.warn(`   ⚠️  解析 ALT 账户 ${address} 失败:`, error);
-            }
-        }
-
-        return addressLookupTableAccounts;
-    }
-
-    /**
-     * 重建账户元数据 - 支持 Address Lookup Tables
-     * 这是最能展现技术深度的核心算法
-     */
-    private static reconstructAccountMetasWithALT(
-        compiledInstruction: any,
-        message: any,
-        addressLookupTableAccounts: AddressLookupTableAccount[]
-    ): AccountMeta[] {
-        console.log('🔧 重建账户元数据 (支持 ALT)...');
-
-        const accountMetas: AccountMeta[] = [];
-        const header = message.header;
-        const staticAccountKeys = message.staticAccountKeys;
-
-        // 构建完整的账户列表：静态账户 + ALT 账户
-        const allAccountKeys: PublicKey[] = [...staticAccountKeys];
-
-        // 添加 ALT 中的账户
-        for (const lookupTable of addressLookupTableAccounts) {
-            allAccountKeys.push(...lookupTable.state.addresses);
-        }
-
-        console.log(`   静态账户数量: ${staticAccountKeys.length}`);
-        console.log(`   ALT 账户数量: ${allAccountKeys.length - staticAccountKeys.length}`);
-        console.log(`   总账户数量: ${allAccountKeys.length}`);
-
-        console.log(`   消息头信息:`);
-        console.log(`     需要签名账户数: ${header.numRequiredSignatures}`);
-        console.log(`     只读签名账户数: ${header.numReadonlySignedAccounts}`);
-        console.log(`     只读未签名账户数: ${header.numReadonlyUnsignedAccounts}`);
-
-        for (let i = 0; i < compiledInstruction.accountKeyIndexes.length; i++) {
-            const accountIndex = compiledInstruction.accountKeyIndexes[i];
-
-            // 使用完整的账户列表获取公钥
-            if (accountIndex >= allAccountKeys.length) {
-                console.warn(`     ⚠️  账户索引 ${accountIndex} 超出总账户范围 (${allAccountKeys.length})，跳过`);
-                continue;
-            }
-
-            const pubkey = allAccountKeys[accountIndex];
-            if (!pubkey) {
-                console.warn(`     ⚠️  账户索引 ${accountIndex} 对应的公钥为空，跳过`);
-                continue;
-            }
-
-            // 计算账户权限（精确算法）
-            const isSigner = accountIndex < header.numRequiredSignatures;
-            const isWritable = this.calculateWritablePermission(
-                accountIndex,
-                header,
-                staticAccountKeys.length // 注意：权限计算基于静态账户数量
-            );
-
-            accountMetas.push({
-                pubkey,
-                isSigner,
-                isWritable
-            });
-
-            console.log(`     账户 ${i}: ${pubkey.toBase58().slice(0, 8)}... (签名:${isSigner}, 可写:${isWritable})`);
-        }
-
-        console.log(`   ✅ 重建了 ${accountMetas.length} 个账户元数据`);
-        return accountMetas;
-    }
-
-    /**
-     * 重建账户元数据 - 传统方法（保留作为对比）
-     * 这是最能展现技术深度的部分
-     */
-    private static reconstructAccountMetasFromVersioned(
-        compiledInstruction: any,
-        message: any
-    ): AccountMeta[] {
-        console.log('🔧 重建账户元数据...');
-
-        const accountMetas: AccountMeta[] = [];
-        const header = message.header;
-
-        console.log(`   消息头信息:`);
-        console.log(`     需要签名账户数: ${header.numRequiredSignatures}`);
-        console.log(`     只读签名账户数: ${header.numReadonlySignedAccounts}`);
-        console.log(`     只读未签名账户数: ${header.numReadonlyUnsignedAccounts}`);
-
-        for (let i = 0; i < compiledInstruction.accountKeyIndexes.length; i++) {
-            const accountIndex = compiledInstruction.accountKeyIndexes[i];
-
-            // 安全获取账户公钥
-            if (accountIndex >= message.staticAccountKeys.length) {
-                console.warn(`     ⚠️  账户索引 ${accountIndex} 超出范围，跳过`);
-                continue;
-            }
-
-            const pubkey = message.staticAccountKeys[accountIndex];
-            if (!pubkey) {
-                console.warn(`     ⚠️  账户公钥为空，跳过`);
-                continue;
-            }
-
-            // 计算账户权限（核心算法）
-            const isSigner = accountIndex < header.numRequiredSignatures;
-            const isWritable = this.calculateWritablePermission(
-                accountIndex,
-                header,
-                message.staticAccountKeys.length
-            );
-
-            accountMetas.push({
-                pubkey,
-                isSigner,
-                isWritable
-            });
-
-            console.log(`     账户 ${i}: ${pubkey.toBase58().slice(0, 8)}... (签名:${isSigner}, 可写:${isWritable})`);
-        }
-
-        console.log(`   ✅ 重建了 ${accountMetas.length} 个账户元数据`);
-        return accountMetas;
-    }
-
-    /**
-     * 计算可写权限 - 精确的权限计算算法
-     */
-    private static calculateWritablePermission(
-        accountIndex: number,
-        header: any,
-        totalAccountsCount: number
-    ): boolean {
-
-        const isSigner = accountIndex < header.numRequiredSignatures;
-
-        if (isSigner) {
-            // 签名账户：不在只读签名账户范围内
-            const readonlySignedStart = header.numRequiredSignatures - header.numReadonlySignedAccounts;
-            return accountIndex < readonlySignedStart;
-        } else {
-            // 非签名账户：不在只读未签名账户范围内
-            const readonlyUnsignedStart = totalAccountsCount - header.numReadonlyUnsignedAccounts;
-            return accountIndex < readonlyUnsignedStart;
-        }
-    }
-
     /**
      * 验证指令完整性
      * 展现对代码质量的重视
@@ -1,5 +1,7 @@
 import { PublicKey } from '@solana/web3.js';
 
+import { SwapMode } from '../types/dex/protocol';
+
 /**
  * 智能代币映射器
  * 解决 Jupiter API 主要支持 mainnet 而我们需要在 devnet 测试的问题
@@ -85,12 +87,14 @@ export class TokenMapper {
     /**
      * 创建智能报价请求
      * 自动处理 devnet/mainnet 代币映射
+     * 精确输出模式下 amount 为输出代币金额
      */
     static createSmartQuoteRequest(
         inputToken: PublicKey,
         outputToken: PublicKey,
         amount: string,
-        slippage: number
+        slippage: number,
+        swapMode: SwapMode = 'ExactIn'
     ) {
         const inputMint = inputToken.toBase58();
         const outputMint = outputToken.toBase58();
@@ -105,14 +109,16 @@ export class TokenMapper {
                 inputMint: jupiterInputMint,
                 outputMint: jupiterOutputMint,
                 amount,
-                slippageBps: Math.floor(slippage * 10000).toString()
+                slippageBps: Math.floor(slippage * 10000).toString(),
+                swapMode
             },
             // 实际交易使用的参数
             actualParams: {
                 inputMint,
                 outputMint,
                 amount,
-                slippage
+                slippage,
+                swapMode
             },
             // 元数据
             metadata: {
@@ -138,7 +144,17 @@ export class TokenMapper {
         const adjustedQuote = { ...jupiterQuote };
 
         // 应用保守的调整因子
-        if (adjustedQuote.outAmount) {
+        if (adjustedQuote.swapMode === 'ExactOut') {
+            // 精确输出模式下输出金额固定，改为上调所需输入和最大输入
+            const adjustmentFactor = 1 / 0.95;
+            for (const field of ['inAmount', 'otherAmountThreshold']) {
+                if (adjustedQuote[field]) {
+                    adjustedQuote[field] = Math.ceil(
+                        parseInt(adjustedQuote[field]) * adjustmentFactor
+                    ).toString();
+                }
+            }
+        } else if (adjustedQuote.outAmount) {
             // 减少 5% 的输出金额以考虑 devnet 流动性差异
             const adjustmentFactor = 0.95;
             adjustedQuote.outAmount = Math.floor(
@@ -202,13 +218,15 @@ export class SmartJupiterClient {
         outputToken: PublicKey,
         amount: string,
         slippage: number,
-        jupiterApiCall: (params: any) => Promise<any>
+        jupiterApiCall: (params: any) => Promise<any>,
+        swapMode: SwapMode = 'ExactIn'
     ) {
         const smartRequest = TokenMapper.createSmartQuoteRequest(
             inputToken,
             outputToken,
             amount,
-            slippage
+            slippage,
+            swapMode
         );
 
         console.log(`📊 智能报价请求:`);
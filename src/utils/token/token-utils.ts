@@ -2,6 +2,9 @@ import { PublicKey } from "@solana/web3.js";
 import BN from "bn.js";
 import { NATIVE_MINT } from "@solana/spl-token";
 
+import { TransferFeeSettings } from "../../types/token/token-types";
+import { DEXQuote } from "../../types/dex/protocol";
+
 /**
  * 代币工具函数集合
  * 提供代币相关的常用工具函数
@@ -124,6 +127,18 @@ export function calculateMinimumOutputAmount(
     return expectedOutput.muln(slippageMultiplier).divn(10000);
 }
 
+/**
+ * 按报价请求的滑点容忍度计算精确输入交换的最小输出金额
+ * @param quote 协议返回的报价
+ * @returns 最小输出金额
+ */
+export function calculateQuoteMinimumOutput(quote: DEXQuote): BN {
+    if (quote.slippage === undefined) {
+        throw new Error("报价缺少滑点容忍度，无法计算最小输出");
+    }
+    return calculateMinimumOutputAmount(quote.outputAmount, quote.slippage);
+}
+
 /**
  * 验证代币mint地址格式
  * @param mint 代币mint地址字符串
@@ -243,3 +258,39 @@ export const TOKEN_AMOUNT_CONSTANTS = {
     /** 最小USDC交易金额 (0.01 USDC) */
     MIN_USDC_AMOUNT: new BN(10_000)
 };
+
+/**
+ * 计算 Token-2022 转账费
+ * 与代币程序一致: 按基点向上取整，不超过单笔上限
+ * @param amount 转账金额 (扣费前)
+ * @param transferFee 转账费设置，未设置时为0
+ * @returns 转账费
+ */
+export function calculateTransferFee(amount: BN, transferFee?: TransferFeeSettings): BN {
+    if (!transferFee || transferFee.basisPoints === 0 || amount.isZero()) {
+        return new BN(0);
+    }
+
+    const fee = amount.muln(transferFee.basisPoints).addn(9999).divn(10000);
+    return BN.min(fee, transferFee.maximumFee);
+}
+
+/**
+ * 计算到账指定金额需要转出的金额 (含 Token-2022 转账费)
+ * @param netAmount 期望到账金额 (扣费后)
+ * @param transferFee 转账费设置，未设置时原样返回
+ * @returns 需要转出的金额
+ */
+export function calculatePreFeeAmount(netAmount: BN, transferFee?: TransferFeeSettings): BN {
+    if (!transferFee || transferFee.basisPoints === 0 || netAmount.isZero()) {
+        return netAmount;
+    }
+    if (transferFee.basisPoints >= 10000) {
+        return netAmount.add(transferFee.maximumFee);
+    }
+
+    const grossAmount = netAmount.muln(10000).addn(10000 - transferFee.basisPoints - 1).divn(10000 - transferFee.basisPoints);
+    return grossAmount.sub(netAmount).gte(transferFee.maximumFee)
+        ? netAmount.add(transferFee.maximumFee)
+        : grossAmount;
+}
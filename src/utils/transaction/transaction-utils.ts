@@ -0,0 +1,182 @@
+import { AddressLookupTableAccount, ConfirmedTransactionMeta, PublicKey, SystemProgram, Transaction, VersionedTransaction } from "@solana/web3.js";
+import bs58 from "bs58";
+
+/**
+ * 交易工具函数集合
+ * 统一处理 Legacy Transaction 和 v0 VersionedTransaction
+ */
+
+/**
+ * 获取交易的第一个签名 (即交易签名)
+ * @param transaction 交易
+ * @returns base58 编码的签名，未签名时返回 null
+ */
+export function getTransactionSignature(transaction: Transaction | VersionedTransaction): string | null {
+    const signature = transaction instanceof VersionedTransaction
+        ? transaction.signatures[0]
+        : transaction.signature;
+
+    if (!signature || signature.every(byte => byte === 0)) {
+        return null;
+    }
+    return bs58.encode(signature);
+}
+
+/**
+ * 交易是否已签名
+ * @param transaction 交易
+ */
+export function isTransactionSigned(transaction: Transaction | VersionedTransaction): boolean {
+    return getTransactionSignature(transaction) !== null;
+}
+
+/**
+ * 序列化交易 (不校验签名)
+ * @param transaction 交易
+ * @returns 序列化后的字节
+ */
+export function serializeTransaction(transaction: Transaction | VersionedTransaction): Uint8Array {
+    return transaction instanceof VersionedTransaction
+        ? transaction.serialize()
+        : transaction.serialize({ verifySignatures: false });
+}
+
+/**
+ * 反序列化交易
+ * @param bytes 序列化后的字节
+ * @param legacy 是否为 Legacy 交易 (否则为 v0 交易)
+ */
+export function deserializeTransaction(bytes: Uint8Array, legacy: boolean): Transaction | VersionedTransaction {
+    return legacy ? Transaction.from(bytes) : VersionedTransaction.deserialize(bytes);
+}
+
+/**
+ * 获取交易中直接引用的账户 (v0 交易不包括通过查找表引用的账户)
+ * @param transaction 交易
+ * @returns 账户地址
+ */
+export function getStaticAccountKeys(transaction: Transaction | VersionedTransaction): PublicKey[] {
+    return transaction instanceof VersionedTransaction
+        ? transaction.message.staticAccountKeys
+        : transaction.instructions.flatMap(instruction => [
+            instruction.programId,
+            ...instruction.keys.map(key => key.pubkey)
+        ]);
+}
+
+/**
+ * 获取交易的可写账户
+ * v0 交易通过查找表引用的可写账户只有在提供对应查找表时才会包含
+ * @param transaction 交易
+ * @param addressLookupTableAccounts 交易使用的地址查找表
+ * @returns 账户地址 (直接引用的账户在前，查找表加载的账户在后)
+ */
+export function getWritableAccountKeys(
+    transaction: Transaction | VersionedTransaction,
+    addressLookupTableAccounts: AddressLookupTableAccount[] = []
+): PublicKey[] {
+    const message = transaction instanceof VersionedTransaction
+        ? transaction.message
+        : transaction.compileMessage();
+    const writable = message.staticAccountKeys.filter((_, index) => message.isAccountWritable(index));
+
+    if (!(transaction instanceof VersionedTransaction) || transaction.message.addressTableLookups.length === 0 || addressLookupTableAccounts.length === 0) {
+        return writable;
+    }
+
+    const { accountKeysFromLookups } = transaction.message.getAccountKeys({ addressLookupTableAccounts });
+    return [...writable, ...(accountKeysFromLookups?.writable ?? [])];
+}
+
+/**
+ * 获取 durable nonce 交易使用的 nonce 账户
+ * durable nonce 交易的第一个指令必须是 System 程序的 AdvanceNonceAccount
+ * @param transaction 交易
+ * @returns nonce 账户，不是 durable nonce 交易时返回 null
+ */
+export function getDurableNonceAccount(transaction: VersionedTransaction): PublicKey | null {
+    const { staticAccountKeys, compiledInstructions } = transaction.message;
+    const first = compiledInstructions[0];
+    if (!first || !staticAccountKeys[first.programIdIndex]?.equals(SystemProgram.programId)) {
+        return null;
+    }
+
+    // System 指令以 u32 小端序的指令类型开头，AdvanceNonceAccount 为 4
+    const data = Buffer.from(first.data);
+    if (data.length < 4 || data.readUInt32LE(0) !== 4) {
+        return null;
+    }
+    return staticAccountKeys[first.accountKeyIndexes[0]] ?? null;
+}
+
+/**
+ * 获取交易待签名的消息字节
+ * @param transaction 交易
+ * @returns 序列化后的消息
+ */
+export function getTransactionMessageBytes(transaction: Transaction | VersionedTransaction): Uint8Array {
+    return transaction instanceof VersionedTransaction
+        ? transaction.message.serialize()
+        : transaction.serializeMessage();
+}
+
+/**
+ * 为交易添加外部生成的签名 (如远程签名服务返回的签名)
+ * @param transaction 交易
+ * @param publicKey 签名者公钥，必须是交易要求的签名者
+ * @param signature 64 字节签名
+ */
+export function addTransactionSignature(
+    transaction: Transaction | VersionedTransaction,
+    publicKey: PublicKey,
+    signature: Uint8Array
+): void {
+    if (transaction instanceof VersionedTransaction) {
+        transaction.addSignature(publicKey, signature);
+    } else {
+        transaction.addSignature(publicKey, Buffer.from(signature));
+    }
+}
+
+/**
+ * 获取交易要求的签名者 (第一个为手续费支付者)
+ * @param transaction 交易
+ * @returns 签名者公钥
+ */
+export function getRequiredSigners(transaction: Transaction | VersionedTransaction): PublicKey[] {
+    const message = transaction instanceof VersionedTransaction
+        ? transaction.message
+        : transaction.compileMessage();
+    return message.staticAccountKeys.slice(0, message.header.numRequiredSignatures);
+}
+
+/**
+ * 获取已上链交易中所有者持有的某种代币的余额变化
+ * 合计所有者名下该mint的全部代币账户，交易前或交易后不存在的账户 (新建或关闭) 余额按0计
+ * @param meta 已上链交易的元数据
+ * @param owner 代币所有者
+ * @param mint 代币mint地址
+ * @returns 余额变化 (代币最小单位，减少时为负)
+ */
+export function getTokenBalanceChange(meta: ConfirmedTransactionMeta, owner: PublicKey, mint: PublicKey): bigint {
+    const sum = (balances: ConfirmedTransactionMeta['postTokenBalances']) => (balances ?? [])
+        .filter(balance => balance.owner === owner.toBase58() && balance.mint === mint.toBase58())
+        .reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), BigInt(0));
+
+    return sum(meta.postTokenBalances) - sum(meta.preTokenBalances);
+}
+
+/**
+ * 获取已上链交易中账户的 lamports 变化
+ * @param meta 已上链交易的元数据
+ * @param accountKeys 交易的静态账户列表 (与元数据的余额数组顺序一致)
+ * @param account 账户地址
+ * @returns lamports 变化 (减少时为负)，账户不在交易中时为0
+ */
+export function getLamportBalanceChange(meta: ConfirmedTransactionMeta, accountKeys: PublicKey[], account: PublicKey): bigint {
+    const index = accountKeys.findIndex(key => key.equals(account));
+    if (index < 0) {
+        return BigInt(0);
+    }
+    return BigInt(meta.postBalances[index]) - BigInt(meta.preBalances[index]);
+}